@@ -0,0 +1,213 @@
+import { client } from '@bills/db'
+import { generateId } from './ipc/utils'
+import { releaseInvoice } from './invoice-lines'
+import type { Queryable } from './invoice-lines'
+
+/**
+ * Automation run ledger
+ *
+ * Every period of a rule (keyed by its scheduled date) gets exactly one row,
+ * claimed before any invoice is created: a second scheduler pass, a restart
+ * or a manual confirmation can never invoice the same period twice. Periods
+ * found already past when the app opens are recorded as LATE and wait for the
+ * user to send or skip them instead of going out unannounced. Rules that
+ * require approval leave their draft invoice on the run (AWAITING_APPROVAL)
+ * until it is approved and sent, or rejected and the period skipped. A run
+ * is linked to its draft as soon as the draft is stored, so a retried run
+ * never creates a second invoice for its period.
+ */
+
+export type AutomationRunStatus = 'PROCESSING' | 'COMPLETED' | 'FAILED' | 'LATE' | 'AWAITING_APPROVAL' | 'SKIPPED'
+
+export interface AutomationRun {
+  id: string
+  ruleId: string
+  ruleName: string
+  clientName: string | null
+  periodKey: string
+  scheduledDate: string
+  invoiceId: string | null
+  status: AutomationRunStatus
+  error: string | null
+  processedAt: string | null
+}
+
+// invoiceId is null if the draft was deleted in the meantime; the run can then only be rejected
+export interface AutomationApproval extends AutomationRun {
+  invoiceNumber: string | null
+  issueDate: string | null
+  amount: string | null
+  currency: string
+}
+
+// PGlite returns `date` columns as Date objects
+function toDateString(value: unknown): string {
+  return value instanceof Date ? value.toISOString().slice(0, 10) : String(value)
+}
+
+function mapRunRow(row: any): AutomationRun {
+  return {
+    id: row.id,
+    ruleId: row.rule_id,
+    ruleName: row.rule_name,
+    clientName: row.client_name ?? null,
+    periodKey: row.period_key,
+    scheduledDate: toDateString(row.scheduled_date),
+    invoiceId: row.invoice_id ?? null,
+    status: row.status,
+    error: row.error ?? null,
+    processedAt: row.processed_at ?? null
+  }
+}
+
+/** Record the run of a period; returns its id, or null if the period already has one */
+export async function claimRun(ruleId: string, scheduledDate: string, status: 'PROCESSING' | 'LATE', db: Queryable = client): Promise<string | null> {
+  const res = await db.query(
+    `INSERT INTO automation_run (id, rule_id, period_key, scheduled_date, status, created_at, updated_at)
+     VALUES ($1, $2, $3, $4, $5, current_timestamp, current_timestamp)
+     ON CONFLICT (rule_id, period_key) DO NOTHING
+     RETURNING id`,
+    [generateId(), ruleId, scheduledDate, scheduledDate, status]
+  )
+  return (res.rows[0] as any)?.id ?? null
+}
+
+/** The latest period of a rule in the ledger, whatever became of its run; null if it never ran */
+export async function getLastRunPeriod(ruleId: string, db: Queryable = client): Promise<string | null> {
+  const res = await db.query('SELECT MAX(period_key) AS period_key FROM automation_run WHERE rule_id = $1', [ruleId])
+  return (res.rows[0] as any)?.period_key ?? null
+}
+
+/**
+ * Take a run for processing: a late or failed one, or with `approval` one
+ * awaiting approval. Returns its rule and the draft invoice it already has
+ * (if any), or null if the run was already handled.
+ */
+export async function claimPendingRun(runId: string, approval = false, db: Queryable = client): Promise<{ ruleId: string; invoiceId: string | null } | null> {
+  const res = await db.query(
+    `UPDATE automation_run SET status = 'PROCESSING', error = NULL
+     WHERE id = $1 AND status = ANY($2)
+     RETURNING rule_id, invoice_id`,
+    [runId, approval ? ['AWAITING_APPROVAL'] : ['LATE', 'FAILED']]
+  )
+  const row = res.rows[0] as any
+  return row ? { ruleId: row.rule_id, invoiceId: row.invoice_id ?? null } : null
+}
+
+/** Link the draft invoice a run is creating, in the transaction that stores it */
+export async function linkRunInvoice(runId: string, invoiceId: string, db: Queryable = client): Promise<void> {
+  await db.query('UPDATE automation_run SET invoice_id = $2 WHERE id = $1', [runId, invoiceId])
+}
+
+/** Park a run with the draft invoice it created until the user approves or rejects it */
+export async function holdRunForApproval(runId: string, invoiceId: string, db: Queryable = client): Promise<void> {
+  await db.query(
+    `UPDATE automation_run SET status = 'AWAITING_APPROVAL', invoice_id = $2, error = NULL WHERE id = $1`,
+    [runId, invoiceId]
+  )
+}
+
+export async function completeRun(runId: string, invoiceId: string | null, db: Queryable = client): Promise<void> {
+  const res = await db.query(
+    `UPDATE automation_run SET status = 'COMPLETED', invoice_id = $2, error = NULL, processed_at = current_timestamp
+     WHERE id = $1
+     RETURNING rule_id`,
+    [runId, invoiceId]
+  )
+  const ruleId = (res.rows[0] as any)?.rule_id
+  if (ruleId) {
+    await db.query('UPDATE automation_rule SET last_sent_date = current_date, updated_at = current_timestamp WHERE id = $1', [ruleId])
+  }
+}
+
+/** Mark a run failed, keeping the draft it created (if any) for the retry to send */
+export async function failRun(runId: string, error: string, invoiceId?: string | null, db: Queryable = client): Promise<void> {
+  await db.query(
+    `UPDATE automation_run SET status = 'FAILED', error = $2, invoice_id = COALESCE($3, invoice_id), processed_at = current_timestamp WHERE id = $1`,
+    [runId, error, invoiceId ?? null]
+  )
+}
+
+/**
+ * Give up on a late, failed or unapproved period; it won't be invoiced. A
+ * draft the run created is cancelled rather than deleted, so the number it
+ * took from its series stays on record. Both change together or not at all.
+ */
+export async function skipRun(runId: string): Promise<void> {
+  await client.transaction(async (tx: any) => {
+    const res = await tx.query(
+      `UPDATE automation_run SET status = 'SKIPPED', processed_at = current_timestamp
+       WHERE id = $1 AND status IN ('LATE', 'FAILED', 'AWAITING_APPROVAL')
+       RETURNING invoice_id`,
+      [runId]
+    )
+    if (res.rows.length === 0) {
+      throw new Error('Run not found or already handled')
+    }
+    const invoiceId = (res.rows[0] as any).invoice_id
+    if (invoiceId) {
+      const cancelled = await tx.query(
+        `UPDATE invoice SET status = 'CANCELLED', updated_at = current_timestamp WHERE id = $1 AND status = 'DRAFT' RETURNING id`,
+        [invoiceId]
+      )
+      // Expenses may have been added to the draft while it waited
+      if (cancelled.rows.length > 0) {
+        await releaseInvoice(invoiceId, tx)
+      }
+    }
+  })
+}
+
+/**
+ * Runs cut short by the app closing; nothing is in flight at startup, so they
+ * are marked failed for a retry. A draft a run had already stored stays
+ * linked to it, so the retry sends that draft rather than creating another.
+ */
+export async function failInterruptedRuns(db: Queryable = client): Promise<number> {
+  const res = await db.query(
+    `UPDATE automation_run SET status = 'FAILED', error = 'Interrupted before completing', processed_at = current_timestamp
+     WHERE status = 'PROCESSING'
+     RETURNING id`
+  )
+  return res.rows.length
+}
+
+/** Late and failed runs waiting for the user to send or skip them, oldest first */
+export async function getRunsNeedingAttention(db: Queryable = client): Promise<AutomationRun[]> {
+  const res = await db.query(
+    `SELECT r.*, ar.name AS rule_name, c.name AS client_name
+     FROM automation_run r
+     JOIN automation_rule ar ON ar.id = r.rule_id
+     LEFT JOIN client c ON c.id = ar.client_id
+     WHERE r.status IN ('LATE', 'FAILED')
+     ORDER BY r.scheduled_date, ar.name`
+  )
+  return res.rows.map(mapRunRow)
+}
+
+/** Draft invoices of rules that require approval, waiting for the user, oldest first */
+export async function getRunsAwaitingApproval(db: Queryable = client): Promise<AutomationApproval[]> {
+  const res = await db.query(
+    `SELECT r.*, ar.name AS rule_name, c.name AS client_name,
+       i.number AS invoice_number, i.issue_date, i.amount, i.currency
+     FROM automation_run r
+     JOIN automation_rule ar ON ar.id = r.rule_id
+     LEFT JOIN invoice i ON i.id = r.invoice_id
+     LEFT JOIN client c ON c.id = ar.client_id
+     WHERE r.status = 'AWAITING_APPROVAL'
+     ORDER BY r.scheduled_date, ar.name`
+  )
+  return res.rows.map((row: any) => ({
+    ...mapRunRow(row),
+    invoiceNumber: row.invoice_number ?? null,
+    issueDate: row.issue_date ? toDateString(row.issue_date) : null,
+    amount: row.amount ?? null,
+    currency: row.currency || 'EUR'
+  }))
+}
+
+/** How many drafts are waiting for approval (for the navigation badge) */
+export async function countRunsAwaitingApproval(db: Queryable = client): Promise<number> {
+  const res = await db.query(`SELECT COUNT(*) AS count FROM automation_run WHERE status = 'AWAITING_APPROVAL'`)
+  return Number((res.rows[0] as any).count)
+}
@@ -1,11 +1,23 @@
 import * as cron from 'node-cron'
 import { client } from '@bills/db'
 import { generateInvoicePdf } from './pdf'
-import nodemailer from 'nodemailer'
 import { join } from 'node:path'
-import { app } from 'electron'
+import { app, net } from 'electron'
 import { promises as fs } from 'node:fs'
 import { generateId } from './ipc/utils'
+import { getInvoiceLines, getInvoiceTaxSummary, linesFromAmount, replaceInvoiceLines, toInvoiceItems } from './invoice-lines'
+import { peekInvoiceNumber, reserveInvoiceNumber } from './numbering'
+import { markOverdueInvoices } from './receivables'
+import { sendDueReminders } from './reminders'
+import { getCompanyProfile } from './mail'
+import { getUndeliveredEmails, processOutbox, sendOrQueue } from './outbox'
+import { addDays, advanceAutomationRule, nextOccurrence, recurrenceFromRow } from './recurrence'
+import { claimPendingRun, claimRun, completeRun, failInterruptedRuns, failRun, holdRunForApproval, linkRunInvoice } from './automation-runs'
+import { getTaxRates, resolveLineTaxes, summarizeTaxes, TaxSummary } from './tax'
+import { assertValidTemplates, loadTemplateContext, renderTemplate, templateContext } from './templates'
+import { getEmailTemplateForLanguage } from './email-templates'
+import { emailLocale, invoiceLabels } from './i18n'
+import { getClientParty } from './ipc/bills'
 
 interface AutomationRule {
   id: string
@@ -17,59 +29,20 @@ interface AutomationRule {
   amount: string
   currency: string
   description: string
-  subjectTemplate: string
+  subjectTemplate: string // The library template's wording when the rule uses one
   bodyTemplate: string
+  emailTemplateId: string | null
+  clientLanguage: string | null
+  clientLocale: string | null
   ccEmails?: string[]
+  requireApproval: boolean
 }
 
 let schedulerTask: cron.ScheduledTask | null = null
+let outboxTask: cron.ScheduledTask | null = null
+let wasOnline = true
 
 
-async function getSmtpConfig(): Promise<any> {
-  try {
-    const result = await client.query('SELECT smtp_config FROM setting WHERE id = 1')
-    const text = (result.rows?.[0] as any)?.smtp_config as string | undefined
-    return text ? JSON.parse(text) : null
-  } catch (error) {
-    return null
-  }
-}
-
-async function getCompanyProfile(): Promise<any> {
-  try {
-    const result = await client.query('SELECT company_profile FROM setting WHERE id = 1')
-    const text = (result.rows?.[0] as any)?.company_profile as string | undefined
-    return text ? JSON.parse(text) : null
-  } catch (error) {
-    return null
-  }
-}
-
-async function generateInvoiceNumber(): Promise<string> {
-  const now = new Date()
-  const year = now.getFullYear()
-  const month = String(now.getMonth() + 1).padStart(2, '0')
-  
-  // Get the last invoice number for this month
-  const result = await client.query(`
-    SELECT number FROM invoice 
-    WHERE number LIKE '${year}-${month}-%' 
-    ORDER BY created_at DESC 
-    LIMIT 1
-  `)
-  
-  let nextNumber = 1
-  if (result.rows.length > 0) {
-    const lastNumber = (result.rows[0] as any).number
-    const parts = lastNumber.split('-')
-    if (parts.length === 3) {
-      nextNumber = parseInt(parts[2]) + 1
-    }
-  }
-  
-  return `${year}-${month}-${String(nextNumber).padStart(3, '0')}`
-}
-
 async function getBillsFolder(): Promise<string> {
   const result = await client.query('SELECT data_root FROM setting WHERE id = 1')
   const dataRoot = (result.rows?.[0] as any)?.data_root
@@ -84,8 +57,7 @@ async function getBillsFolder(): Promise<string> {
   return join(app.getPath('userData'), 'bills')
 }
 
-async function createInvoiceFolder(invoiceNumber: string): Promise<string> {
-  const billsFolder = await getBillsFolder()
+async function createInvoiceFolder(billsFolder: string, invoiceNumber: string): Promise<string> {
   const now = new Date()
   const year = now.getFullYear()
   const month = String(now.getMonth() + 1).padStart(2, '0')
@@ -98,68 +70,87 @@ async function createInvoiceFolder(invoiceNumber: string): Promise<string> {
   return folderPath
 }
 
-async function processAutomationRule(rule: AutomationRule): Promise<{ success: boolean; error?: string; invoiceId?: string }> {
+/**
+ * Create the invoice of a rule's run; with `send` off (rules that require
+ * approval) it is left as a draft. The draft is linked to the run as it is
+ * stored, so a run that fails or is interrupted after that is resumed from
+ * it; a failure returns its id too.
+ */
+async function processAutomationRule(rule: AutomationRule, runId: string, send = true): Promise<{ success: boolean; error?: string; invoiceId?: string }> {
+  let createdId: string | undefined
   try {
     console.log(`Processing automation rule: ${rule.name} for client: ${rule.clientName}`)
     
-    // Generate invoice number
-    const invoiceNumber = await generateInvoiceNumber()
+    // A template with a typo fails the run before an invoice is created for it
+    assertValidTemplates({ Subject: rule.subjectTemplate, Body: rule.bodyTemplate })
     
-    // Create invoice folder
-    const folderPath = await createInvoiceFolder(invoiceNumber)
-    const pdfPath = join(folderPath, `Factura-${invoiceNumber}.pdf`)
-    
-    // Get company profile
+    // Get company profile and bills folder
     const companyProfile = await getCompanyProfile()
+    const billsFolder = await getBillsFolder()
     
-    // Create invoice in database
+    // Create invoice in database, reserving its number from the default series.
+    // It stays a draft until its email has actually left through the outbox.
     const invoiceId = generateId()
     const now = new Date()
     const issueDate = now.toISOString().split('T')[0]
+    const lines = linesFromAmount(rule.description, rule.amount)
     
-    await client.query(`
-      INSERT INTO invoice (
-        id, number, client_id, issue_date, amount, currency, 
-        status, file_path, folder_path, description, notes, created_at, updated_at
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $12)
-    `, [
-      invoiceId,
-      invoiceNumber,
-      rule.clientId,
-      issueDate,
-      rule.amount,
-      rule.currency,
-      'SENT',
-      pdfPath,
-      folderPath,
-      rule.description,
-      `Automated invoice: ${rule.name}`,
-      now.toISOString()
-    ])
+    const { invoiceNumber, pdfPath, taxSummary } = await client.transaction(async (tx: any) => {
+      const { number: invoiceNumber, seriesId } = await reserveInvoiceNumber(tx, null, issueDate)
+      const folderPath = await createInvoiceFolder(billsFolder, invoiceNumber)
+      const pdfPath = join(folderPath, 'invoice.pdf')
+      
+      await tx.query(`
+        INSERT INTO invoice (
+          id, number, client_id, issue_date, amount, currency, 
+          status, file_path, folder_path, description, notes, series_id, created_at, updated_at
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $13)
+      `, [
+        invoiceId,
+        invoiceNumber,
+        rule.clientId,
+        issueDate,
+        rule.amount,
+        rule.currency,
+        'DRAFT',
+        pdfPath,
+        folderPath,
+        rule.description,
+        `Automated invoice: ${rule.name}`,
+        seriesId,
+        now.toISOString()
+      ])
+      const taxSummary = await replaceInvoiceLines(invoiceId, lines, tx)
+      await linkRunInvoice(runId, invoiceId, tx)
+      return { invoiceNumber, pdfPath, taxSummary }
+    }) as { invoiceNumber: string; pdfPath: string; taxSummary: TaxSummary }
+    createdId = invoiceId
     
     // Generate PDF
     await generateInvoicePdf({
       number: invoiceNumber,
+      language: rule.clientLanguage,
+      locale: rule.clientLocale,
       clientName: rule.clientName,
       issueDate,
-      amount: rule.amount,
+      amount: taxSummary.total,
       currency: rule.currency,
       outputPath: pdfPath,
       seller: companyProfile,
-      client: null, // We'll need to fetch client details if needed
-      items: [{
-        description: rule.description,
-        amount: rule.amount
-      }],
+      client: await getClientParty({ id: rule.clientId, name: rule.clientName }),
+      items: await getInvoiceLines(invoiceId),
+      taxSummary,
       description: rule.description,
       notes: null
     })
     
-    // Send email
-    await sendAutomationEmail(rule, invoiceNumber, pdfPath, companyProfile)
+    if (!send) {
+      console.log(`📝 Draft invoice ${invoiceNumber} of "${rule.name}" is waiting for approval`)
+      return { success: true, invoiceId }
+    }
     
-    // Mark rule as processed
-    await markRuleProcessed(rule.id, invoiceId)
+    // Send email (queued for retries if it can't go out now)
+    await sendAutomationEmail(rule, invoiceId, invoiceNumber, pdfPath)
     
     console.log(`✅ Automation rule processed successfully: ${rule.name}`)
     return { success: true, invoiceId }
@@ -168,154 +159,215 @@ async function processAutomationRule(rule: AutomationRule): Promise<{ success: b
     console.error(`❌ Failed to process automation rule ${rule.name}:`, error)
     return { 
       success: false, 
-      error: error instanceof Error ? error.message : 'Unknown error' 
+      error: error instanceof Error ? error.message : 'Unknown error',
+      invoiceId: createdId
     }
   }
 }
 
-async function sendAutomationEmail(rule: AutomationRule, invoiceNumber: string, pdfPath: string, companyProfile: any) {
-  const smtpConfig = await getSmtpConfig()
-  if (!smtpConfig) {
-    throw new Error('SMTP configuration is not set up')
-  }
-  
-  // Create transporter
-  const transporter = nodemailer.createTransport({
-    host: smtpConfig.host,
-    port: smtpConfig.port,
-    secure: smtpConfig.secure,
-    auth: {
-      user: smtpConfig.user,
-      pass: smtpConfig.password
+/**
+ * Send the draft an automation rule left for approval, or that a failed run
+ * created, as it stands now: the user may have edited its lines, so the PDF
+ * is rendered again and the email is filled in from the stored invoice. With
+ * `send` off the PDF is only rendered, for the draft to wait for approval.
+ */
+async function sendAutomationDraft(rule: AutomationRule, invoiceId: string, send = true): Promise<{ success: boolean; error?: string; invoiceId?: string }> {
+  try {
+    const res = await client.query('SELECT number, status, issue_date, currency, description, notes, file_path FROM invoice WHERE id = $1', [invoiceId])
+    const invoice = res.rows[0] as any
+    if (!invoice) {
+      throw new Error('The draft invoice of this run was deleted')
+    }
+    if (invoice.status !== 'DRAFT') {
+      throw new Error(`Invoice ${invoice.number} is no longer a draft`)
+    }
+    
+    const companyProfile = await getCompanyProfile()
+    const taxSummary = await getInvoiceTaxSummary(invoiceId)
+    const issueDate = invoice.issue_date instanceof Date ? invoice.issue_date.toISOString().slice(0, 10) : String(invoice.issue_date)
+    // Amount and currency come from the stored draft, as in its email: the rule may have changed since
+    await generateInvoicePdf({
+      number: invoice.number,
+      language: rule.clientLanguage,
+      locale: rule.clientLocale,
+      clientName: rule.clientName,
+      issueDate,
+      amount: taxSummary.total,
+      currency: invoice.currency,
+      outputPath: invoice.file_path,
+      seller: companyProfile,
+      client: await getClientParty({ id: rule.clientId, name: rule.clientName }),
+      items: await getInvoiceLines(invoiceId),
+      taxSummary,
+      description: invoice.description,
+      notes: invoice.notes
+    })
+    if (!send) {
+      return { success: true, invoiceId }
+    }
+    
+    // An email queued before the run was interrupted is still on its way
+    const queued = (await getUndeliveredEmails(invoiceId)).some(email => email.source === 'AUTOMATION' && email.status === 'PENDING')
+    if (!queued) {
+      await sendAutomationEmail(rule, invoiceId, invoice.number, invoice.file_path)
+    }
+    console.log(`✅ Invoice ${invoice.number} of "${rule.name}" sent`)
+    return { success: true, invoiceId }
+  } catch (error) {
+    console.error(`❌ Failed to send approved invoice of ${rule.name}:`, error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
     }
-  })
-  
-  // Replace template variables
-  const subject = rule.subjectTemplate
-    .replace(/\{invoiceNumber\}/g, invoiceNumber)
-    .replace(/\{clientName\}/g, rule.clientName)
-    .replace(/\{companyName\}/g, companyProfile?.name || 'Your Company')
-  
-  const htmlBody = rule.bodyTemplate
-    .replace(/\{clientName\}/g, rule.clientName)
-    .replace(/\{invoiceNumber\}/g, invoiceNumber)
-    .replace(/\{amount\}/g, formatCurrency(parseFloat(rule.amount), rule.currency))
-    .replace(/\{companyName\}/g, companyProfile?.name || 'Your Company')
-    .replace(/\{description\}/g, rule.description)
-  
-  // Prepare email options
-  const fromEmail = companyProfile?.email || smtpConfig.user
-  const fromName = companyProfile?.name || 'Billing App'
-  
-  const mailOptions: any = {
-    from: `${fromName} <${fromEmail}>`,
-    to: rule.clientEmail,
-    subject,
-    html: htmlBody,
-    attachments: [{
-      filename: `Factura-${invoiceNumber}.pdf`,
-      path: pdfPath
-    }]
-  }
-  
-  // Add CC recipients if provided
-  if (rule.ccEmails && rule.ccEmails.length > 0) {
-    mailOptions.cc = rule.ccEmails.join(', ')
   }
-  
-  // Send email
-  await transporter.sendMail(mailOptions)
-  const ccInfo = rule.ccEmails && rule.ccEmails.length > 0 ? ` (CC: ${rule.ccEmails.join(', ')})` : ''
-  console.log(`📧 Email sent to ${rule.clientEmail}${ccInfo} for invoice ${invoiceNumber}`)
 }
 
-async function markRuleProcessed(ruleId: string, invoiceId: string) {
-  const today = new Date().toISOString().split('T')[0]
-  
-  // Get the rule to calculate next due date
-  const ruleResult = await client.query('SELECT day_of_month FROM automation_rule WHERE id = $1', [ruleId])
-  if (ruleResult.rows.length === 0) {
-    throw new Error('Automation rule not found')
-  }
-  
-  const dayOfMonth = (ruleResult.rows[0] as any).day_of_month
+/**
+ * Subject and body of a rule's email. A rule using a library template sends
+ * the version of it in the client's language, if the library has one.
+ */
+async function ruleEmailTemplates(rule: AutomationRule): Promise<{ subject: string; body: string; language?: string }> {
+  const template = rule.emailTemplateId ? await getEmailTemplateForLanguage(rule.emailTemplateId, rule.clientLanguage) : null
+  return template
+    ? { subject: template.subjectTemplate, body: template.bodyTemplate, language: template.language }
+    : { subject: rule.subjectTemplate, body: rule.bodyTemplate }
+}
+
+async function sendAutomationEmail(rule: AutomationRule, invoiceId: string, invoiceNumber: string, pdfPath: string) {
+  const email = await ruleEmailTemplates(rule)
+  const context = await loadTemplateContext(invoiceId, { locale: email.language })
   
-  // Calculate next due date (next month, same day)
-  const now = new Date()
-  const nextDue = new Date(now.getFullYear(), now.getMonth() + 1, dayOfMonth)
+  const result = await sendOrQueue({
+    invoiceId,
+    source: 'AUTOMATION',
+    to: [rule.clientEmail],
+    cc: rule.ccEmails,
+    subject: renderTemplate(email.subject, context),
+    html: renderTemplate(email.body, context, { html: true }),
+    attachments: [{ filename: invoiceLabels(rule.clientLanguage).invoiceFile(invoiceNumber), path: pdfPath }]
+  }, { markInvoiceSent: true })
   
-  await client.query(`
-    UPDATE automation_rule 
-    SET 
-      last_sent_date = $2,
-      next_due_date = $3,
-      updated_at = $4
-    WHERE id = $1
-  `, [ruleId, today, nextDue.toISOString().split('T')[0], new Date().toISOString()])
+  if (result.status === 'QUEUED') {
+    console.warn(`📭 Email for invoice ${invoiceNumber} queued for retry: ${result.error}`)
+  }
 }
 
-function formatCurrency(value: number, currency: string): string {
+const RULE_SQL = `
+  SELECT 
+    ar.id,
+    ar.client_id,
+    ar.name,
+    ar.day_of_month,
+    ar.amount,
+    ar.currency,
+    ar.description,
+    COALESCE(et.subject_template, ar.subject_template) AS subject_template,
+    COALESCE(et.body_template, ar.body_template) AS body_template,
+    ar.email_template_id,
+    ar.cc_emails,
+    ar.frequency,
+    ar.interval_count,
+    ar.weekday,
+    ar.month_of_year,
+    ar.last_business_day,
+    ar.start_date,
+    ar.end_date,
+    ar.max_occurrences,
+    ar.occurrence_count,
+    ar.require_approval,
+    ar.is_active,
+    ar.next_due_date,
+    ar.created_at,
+    c.name as client_name,
+    c.email as client_email,
+    c.language as client_language,
+    c.locale as client_locale
+  FROM automation_rule ar
+  LEFT JOIN client c ON ar.client_id = c.id
+  LEFT JOIN email_template et ON ar.email_template_id = et.id
+`
+
+function mapRuleRow(row: any): AutomationRule & { nextDueDate: string | null } {
+  let ccEmails: string[] | undefined
   try {
-    return new Intl.NumberFormat('ca-ES', {
-      style: 'currency',
-      currency
-    }).format(value)
+    ccEmails = row.cc_emails ? JSON.parse(row.cc_emails) : undefined
   } catch {
-    return `${value.toFixed(2)} ${currency}`
+    ccEmails = undefined
+  }
+  
+  return {
+    id: row.id,
+    clientId: row.client_id,
+    clientName: row.client_name,
+    clientEmail: row.client_email,
+    name: row.name,
+    dayOfMonth: row.day_of_month,
+    amount: row.amount,
+    currency: row.currency,
+    description: row.description,
+    subjectTemplate: row.subject_template,
+    bodyTemplate: row.body_template,
+    emailTemplateId: row.email_template_id ?? null,
+    clientLanguage: row.client_language ?? null,
+    clientLocale: row.client_locale ?? null,
+    ccEmails,
+    requireApproval: !!row.require_approval,
+    // PGlite returns `date` columns as Date objects
+    nextDueDate: row.next_due_date instanceof Date ? row.next_due_date.toISOString().slice(0, 10) : row.next_due_date ?? null
   }
 }
 
-async function processDueAutomations() {
+/**
+ * Invoice the period of a claimed run and record the outcome in the ledger.
+ * Rules that require approval stop at a draft the run waits on. A run that
+ * already has its draft (it was `approved`, or failed or was interrupted
+ * after creating it) goes on from that draft instead of creating another:
+ * it is sent, or held for approval again if the rule requires it.
+ */
+async function runAutomationPeriod(rule: AutomationRule, runId: string, draftId: string | null = null, approved = false) {
+  if (draftId) {
+    const send = approved || !rule.requireApproval
+    const result = await sendAutomationDraft(rule, draftId, send)
+    if (!result.success) {
+      await failRun(runId, result.error || 'Unknown error', draftId)
+    } else if (send) {
+      await completeRun(runId, draftId)
+    } else {
+      await holdRunForApproval(runId, draftId)
+    }
+    return { ...result, awaitingApproval: result.success && !send }
+  }
+  
+  const result = await processAutomationRule(rule, runId, !rule.requireApproval)
+  if (!result.success) {
+    await failRun(runId, result.error || 'Unknown error', result.invoiceId)
+  } else if (rule.requireApproval) {
+    await holdRunForApproval(runId, result.invoiceId!)
+  } else {
+    await completeRun(runId, result.invoiceId ?? null)
+  }
+  return { ...result, awaitingApproval: result.success && rule.requireApproval }
+}
+
+/**
+ * Go through every period of every active rule that is due by `asOf`: the
+ * period scheduled for today is invoiced, older ones (the app was closed)
+ * are recorded as late for the user to confirm or skip. Each period is
+ * claimed in the run ledger first, so it is handled once however often
+ * this runs.
+ */
+async function processDueAutomations(asOf: string = new Date().toISOString().split('T')[0]) {
   try {
     console.log('🔄 Checking for due automations...')
     
-    const today = new Date().toISOString().split('T')[0]
-    
-    const result = await client.query(`
-      SELECT 
-        ar.id,
-        ar.client_id,
-        ar.name,
-        ar.day_of_month,
-        ar.amount,
-        ar.currency,
-        ar.description,
-        ar.subject_template,
-        ar.body_template,
-        ar.cc_emails,
-        c.name as client_name,
-        c.email as client_email
-      FROM automation_rule ar
-      LEFT JOIN client c ON ar.client_id = c.id
+    const result = await client.query(`${RULE_SQL}
       WHERE ar.is_active = true 
         AND ar.next_due_date <= $1
         AND c.email IS NOT NULL
       ORDER BY ar.created_at ASC
-    `, [today])
+    `, [asOf])
     
-    const dueRules = result.rows.map((row: any) => {
-      let ccEmails: string[] | undefined
-      try {
-        ccEmails = row.cc_emails ? JSON.parse(row.cc_emails) : undefined
-      } catch {
-        ccEmails = undefined
-      }
-      
-      return {
-        id: row.id,
-        clientId: row.client_id,
-        clientName: row.client_name,
-        clientEmail: row.client_email,
-        name: row.name,
-        dayOfMonth: row.day_of_month,
-        amount: row.amount,
-        currency: row.currency,
-        description: row.description,
-        subjectTemplate: row.subject_template,
-        bodyTemplate: row.body_template,
-        ccEmails
-      }
-    })
+    const dueRules = result.rows.map(mapRuleRow)
     
     if (dueRules.length === 0) {
       console.log('✅ No due automations found')
@@ -326,9 +378,20 @@ async function processDueAutomations() {
     
     // Process each rule
     for (const rule of dueRules) {
-      await processAutomationRule(rule)
-      // Add a small delay between processing rules
-      await new Promise(resolve => setTimeout(resolve, 1000))
+      let scheduled = rule.nextDueDate
+      while (scheduled && scheduled <= asOf) {
+        const onTime = scheduled === asOf
+        const runId = await claimRun(rule.id, scheduled, onTime ? 'PROCESSING' : 'LATE')
+        if (runId && onTime) {
+          await runAutomationPeriod(rule, runId)
+          // Add a small delay between processing rules
+          await new Promise(resolve => setTimeout(resolve, 1000))
+        } else if (runId) {
+          console.log(`⏳ Missed run of "${rule.name}" for ${scheduled} is waiting for confirmation`)
+        }
+        // A period already in the ledger (e.g. rescheduled by an edit) was counted when first claimed
+        scheduled = await advanceAutomationRule(rule.id, scheduled, runId !== null)
+      }
     }
     
     console.log('✅ All due automations processed')
@@ -338,6 +401,181 @@ async function processDueAutomations() {
   }
 }
 
+/**
+ * Invoice a late or failed period the user confirmed or, with `approve`, send
+ * the draft of a run awaiting approval. A confirmed period of a rule that
+ * requires approval gets its draft and then waits for approval like any other.
+ */
+export async function confirmAutomationRun(runId: string, approve = false): Promise<{ success: boolean; error?: string; invoiceId?: string; awaitingApproval: boolean }> {
+  const claimed = await claimPendingRun(runId, approve)
+  if (!claimed) {
+    throw new Error('Run not found or already handled')
+  }
+  
+  const result = await client.query(`${RULE_SQL} WHERE ar.id = $1`, [claimed.ruleId])
+  const row = result.rows[0] as any
+  if (!row?.client_email) {
+    await failRun(runId, 'The client of this rule has no email address')
+    throw new Error('The client of this rule has no email address')
+  }
+  if (approve && !claimed.invoiceId) {
+    await failRun(runId, 'The draft invoice of this run was deleted')
+    throw new Error('The draft invoice of this run was deleted')
+  }
+  return runAutomationPeriod(mapRuleRow(row), runId, claimed.invoiceId, approve)
+}
+
+async function loadRule(ruleId: string) {
+  const result = await client.query(`${RULE_SQL} WHERE ar.id = $1`, [ruleId])
+  const row = result.rows[0] as any
+  if (!row) {
+    throw new Error('Automation rule not found')
+  }
+  return { rule: mapRuleRow(row), row }
+}
+
+// The lines and totals an automation invoice gets, computed like replaceInvoiceLines does without storing anything
+async function automationInvoiceTaxes(rule: AutomationRule) {
+  const rates = await getTaxRates()
+  const lines = resolveLineTaxes(linesFromAmount(rule.description, rule.amount), rates, null)
+  return { lines, totals: summarizeTaxes(lines, rates, null, null) }
+}
+
+/**
+ * What a rule would produce if it ran on `issueDate` (its next due date by
+ * default): the invoice number it would take, its PDF and the email with
+ * every template variable filled in. Nothing is stored or sent.
+ */
+export async function previewAutomationRule(ruleId: string, issueDate?: string) {
+  const { rule } = await loadRule(ruleId)
+  const date = issueDate || rule.nextDueDate || new Date().toISOString().split('T')[0]
+  const companyProfile = await getCompanyProfile()
+  const { number } = await peekInvoiceNumber(null, date)
+  const { lines, totals } = await automationInvoiceTaxes(rule)
+  
+  const tempDir = await fs.mkdtemp(join(app.getPath('temp'), 'automation-preview-'))
+  const pdfPath = join(tempDir, 'preview.pdf')
+  await generateInvoicePdf({
+    number,
+    language: rule.clientLanguage,
+    locale: rule.clientLocale,
+    clientName: rule.clientName,
+    issueDate: date,
+    amount: totals.total,
+    currency: rule.currency,
+    outputPath: pdfPath,
+    seller: companyProfile,
+    client: await getClientParty({ id: rule.clientId, name: rule.clientName }),
+    items: toInvoiceItems(lines),
+    taxSummary: totals,
+    description: rule.description,
+    notes: null
+  })
+  const buf = await fs.readFile(pdfPath)
+  await fs.rm(tempDir, { recursive: true, force: true })
+  
+  // Filled in like sendAutomationEmail does once the invoice exists
+  const email = await ruleEmailTemplates(rule)
+  const context = templateContext({
+    client: { name: rule.clientName, email: rule.clientEmail },
+    seller: companyProfile,
+    invoice: {
+      number,
+      issueDate: date,
+      dueDate: addDays(date, 30),
+      description: rule.description,
+      currency: rule.currency,
+      subtotal: totals.subtotal,
+      taxAmount: totals.taxAmount,
+      total: totals.total,
+      lines: toInvoiceItems(lines)
+    },
+    asOf: date,
+    locale: emailLocale(rule.clientLanguage, rule.clientLocale, email.language)
+  })
+  return {
+    issueDate: date,
+    number,
+    totals,
+    currency: rule.currency,
+    to: rule.clientEmail ? [rule.clientEmail] : [],
+    cc: rule.ccEmails || [],
+    subject: renderTemplate(email.subject, context),
+    html: renderTemplate(email.body, context, { html: true }),
+    dataUrl: `data:application/pdf;base64,${Buffer.from(buf).toString('base64')}`
+  }
+}
+
+/** The invoices a rule would send over the next `months` months, with the total of each */
+export async function simulateAutomationRule(ruleId: string, months = 12) {
+  const { rule, row } = await loadRule(ruleId)
+  const { totals } = await automationInvoiceTaxes(rule)
+  const today = new Date().toISOString().split('T')[0]
+  const end = new Date(`${today}T00:00:00Z`)
+  end.setUTCMonth(end.getUTCMonth() + months)
+  const until = end.toISOString().split('T')[0]
+  
+  const recurrence = recurrenceFromRow(row)
+  const dates: string[] = []
+  let count = Number(row.occurrence_count) || 0
+  let next = row.is_active ? rule.nextDueDate : nextOccurrence(recurrence, today, count)
+  while (next && next <= until && dates.length < 400) {
+    dates.push(next)
+    count += 1
+    next = nextOccurrence(recurrence, addDays(next, 1), count)
+  }
+  
+  return {
+    from: today,
+    until,
+    currency: rule.currency,
+    total: totals.total,
+    occurrences: dates
+  }
+}
+
+async function updateOverdueInvoices() {
+  try {
+    const count = await markOverdueInvoices()
+    console.log(count > 0 ? `⏰ Marked ${count} invoice(s) as overdue` : '✅ No newly overdue invoices')
+  } catch (error) {
+    console.error('❌ Error updating overdue invoices:', error)
+  }
+}
+
+async function processPaymentReminders() {
+  try {
+    const { sent, failed } = await sendDueReminders()
+    console.log(sent + failed > 0 ? `📨 Sent ${sent} payment reminder(s), ${failed} failed` : '✅ No payment reminders due')
+  } catch (error) {
+    console.error('❌ Error sending payment reminders:', error)
+  }
+}
+
+// Deliver queued emails while online; everything pending goes out as soon as the connection is back
+async function processEmailOutbox() {
+  const online = net.isOnline()
+  const reconnected = online && !wasOnline
+  wasOnline = online
+  if (!online) return
+  
+  try {
+    const { sent, pending } = await processOutbox(reconnected)
+    if (sent > 0 || reconnected) {
+      console.log(`📬 Outbox: ${sent} email(s) sent, ${pending} still pending`)
+    }
+  } catch (error) {
+    console.error('❌ Error processing email outbox:', error)
+  }
+}
+
+// Daily jobs: flag overdue invoices, remind clients of unpaid ones, then send due automations
+async function runDailyJobs() {
+  await updateOverdueInvoices()
+  await processPaymentReminders()
+  await processDueAutomations()
+}
+
 export function startAutomationScheduler() {
   if (schedulerTask) {
     console.log('🔄 Automation scheduler already running')
@@ -345,17 +583,33 @@ export function startAutomationScheduler() {
   }
   
   // Run every day at 9:00 AM
-  schedulerTask = cron.schedule('0 9 * * *', processDueAutomations, {
+  schedulerTask = cron.schedule('0 9 * * *', runDailyJobs, {
     timezone: 'Europe/Madrid'
   })
   
   schedulerTask.start()
   console.log('🚀 Automation scheduler started (daily at 9:00 AM)')
   
-  // Also run on startup for testing (with a delay to ensure DB is ready)
-  setTimeout(() => {
-    processDueAutomations()
-  }, 5000)
+  // Retry queued emails every minute
+  outboxTask = cron.schedule('* * * * *', processEmailOutbox)
+  outboxTask.start()
+}
+
+/**
+ * Startup pass for everything missed while the app was closed: runs cut
+ * short by the last shutdown are marked failed, then the daily jobs run so
+ * today's automations go out and missed periods show up for confirmation.
+ */
+export async function runStartupCatchUp() {
+  try {
+    const interrupted = await failInterruptedRuns()
+    if (interrupted > 0) {
+      console.warn(`⚠️ ${interrupted} automation run(s) were interrupted and need to be retried`)
+    }
+  } catch (error) {
+    console.error('❌ Error checking interrupted automation runs:', error)
+  }
+  await runDailyJobs()
 }
 
 export function stopAutomationScheduler() {
@@ -365,6 +619,11 @@ export function stopAutomationScheduler() {
     schedulerTask = null
     console.log('🛑 Automation scheduler stopped')
   }
+  if (outboxTask) {
+    outboxTask.stop()
+    outboxTask.destroy()
+    outboxTask = null
+  }
 }
 
 // Manual trigger for testing
@@ -0,0 +1,117 @@
+import { client } from '@bills/db'
+import { addInvoiceLine } from './invoice-lines'
+import type { InvoiceLineInput, Queryable } from './invoice-lines'
+import { roundCents } from './tax'
+import type { TaxSummary } from './tax'
+
+/**
+ * Billable expenses
+ *
+ * Expenses paid on behalf of a client, such as travel, are flagged as
+ * billable to that client, optionally with a markup percentage. Unbilled
+ * ones are passed through onto a new invoice or added to one of the
+ * client's drafts, one line per expense at its amount plus the markup, and
+ * the expenses keep the invoice and line they were billed on so they are
+ * never billed twice. Deleting or cancelling that invoice, or removing the
+ * line, leaves them unbilled again.
+ */
+
+export interface BillableExpense {
+  id: string
+  clientId: string
+  vendor: string
+  category: string
+  date: string
+  amount: string
+  currency: string
+  markup: string // Percentage added when rebilled
+  billedAmount: string // amount plus the markup
+  notes: string | null
+}
+
+// PGlite returns `date` columns as Date objects
+function toDateString(value: unknown): string {
+  return value instanceof Date ? value.toISOString().slice(0, 10) : String(value)
+}
+
+function withMarkup(amount: unknown, markup: unknown): string {
+  return roundCents(Number(amount) * (1 + (Number(markup) || 0) / 100)).toFixed(2)
+}
+
+function mapBillableExpenseRow(row: any): BillableExpense {
+  return {
+    id: row.id,
+    clientId: row.billable_client_id,
+    vendor: row.vendor || '',
+    category: row.category || '',
+    date: toDateString(row.date),
+    amount: String(row.amount),
+    currency: row.currency || 'EUR',
+    markup: String(row.markup ?? 0),
+    billedAmount: withMarkup(row.amount, row.markup),
+    notes: row.notes ?? null
+  }
+}
+
+/** Expenses billable to a client that no invoice carries yet, oldest first */
+export async function getUnbilledExpenses(clientId: string, db: Queryable = client): Promise<BillableExpense[]> {
+  const res = await db.query(
+    `SELECT * FROM expense
+     WHERE billable_client_id = $1 AND invoice_id IS NULL
+     ORDER BY date, created_at`,
+    [clientId]
+  )
+  return res.rows.map(mapBillableExpenseRow)
+}
+
+/** Invoice lines for expenses: one per expense, at its amount plus the markup */
+export function expensesToLines(expenses: BillableExpense[]): InvoiceLineInput[] {
+  return expenses.map(expense => ({
+    description: `${expense.category}: ${expense.vendor} (${expense.date})`,
+    quantity: '1',
+    unitPrice: expense.billedAmount
+  }))
+}
+
+/** Link expenses to the invoice lines they were rebilled on, one line each; fails if any was billed meanwhile */
+export async function markExpensesBilled(expenseIds: string[], invoiceId: string, lineIds: string[], db: Queryable = client): Promise<void> {
+  const res = await db.query(
+    `UPDATE expense e SET invoice_id = $1, invoice_line_id = l.line_id, updated_at = current_timestamp
+     FROM unnest($2::text[], $3::text[]) AS l(expense_id, line_id)
+     WHERE e.id = l.expense_id AND e.invoice_id IS NULL
+     RETURNING e.id`,
+    [invoiceId, expenseIds, lineIds]
+  )
+  if (res.rows.length !== expenseIds.length) {
+    throw new Error('Some of these expenses were billed on another invoice meanwhile')
+  }
+}
+
+/** Append expenses to a draft invoice of their client, in its currency; returns the invoice number and new totals */
+export async function addExpensesToDraft(invoiceId: string, expenses: BillableExpense[], db: Queryable = client): Promise<{ number: string; totals: TaxSummary }> {
+  const res = await db.query('SELECT number, client_id, currency, status, kind FROM invoice WHERE id = $1', [invoiceId])
+  const invoice = res.rows[0] as any
+  if (!invoice) {
+    throw new Error('Invoice not found')
+  }
+  if (invoice.status !== 'DRAFT' || invoice.kind === 'CREDIT_NOTE') {
+    throw new Error(`Invoice ${invoice.number} is not a draft; expenses can only be added to draft invoices`)
+  }
+  for (const expense of expenses) {
+    if (expense.clientId !== invoice.client_id) {
+      throw new Error(`Invoice ${invoice.number} is for another client`)
+    }
+    if (expense.currency !== (invoice.currency || 'EUR')) {
+      throw new Error(`Expenses in ${expense.currency} cannot go on invoice ${invoice.number}, which is in ${invoice.currency}`)
+    }
+  }
+  let totals: TaxSummary | null = null
+  const lineIds: string[] = []
+  for (const line of expensesToLines(expenses)) {
+    totals = await addInvoiceLine(invoiceId, line, db)
+    const added = await db.query('SELECT id FROM invoice_line WHERE invoice_id = $1 ORDER BY position DESC LIMIT 1', [invoiceId])
+    lineIds.push((added.rows[0] as any).id)
+  }
+  await markExpensesBilled(expenses.map(expense => expense.id), invoiceId, lineIds, db)
+  return { number: invoice.number, totals: totals as TaxSummary }
+}
@@ -0,0 +1,262 @@
+import { z } from 'zod'
+import { client } from '@bills/db'
+import { generateId } from './ipc/utils'
+import type { Queryable } from './invoice-lines'
+
+/**
+ * Currencies and exchange rates
+ *
+ * Dashboards and reports add everything up in one base currency (a setting,
+ * EUR by default). Rates are typed in or imported from CSV, each valid from
+ * its date until the next rate of the same currency; no live feed is used.
+ * Invoices, payments and expenses keep their own amount and currency, plus a
+ * snapshot of the rate on their date (issue date for invoices, payment date
+ * for payments) and the amount converted with it. Credit notes take the rate
+ * of the invoice they rectify, so crediting it in full nets to zero.
+ *
+ * Snapshots are taken whenever a document's amount changes. Documents dated
+ * before any known rate stay unconverted (null) until a rate for their date
+ * is added, and reports leave them out and say which rates are missing.
+ */
+
+export const DEFAULT_BASE_CURRENCY = 'EUR'
+
+export const currencyCodeSchema = z.string().trim().toUpperCase()
+  .regex(/^[A-Z]{3}$/, 'Currencies are three-letter ISO 4217 codes such as EUR or USD')
+
+export const exchangeRateInputSchema = z.object({
+  currency: currencyCodeSchema,
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Dates are written YYYY-MM-DD'),
+  rate: z.string().refine(v => v.trim() !== '' && Number(v) > 0, {
+    message: 'The rate must be a number greater than zero'
+  })
+})
+
+export type ExchangeRateInput = z.infer<typeof exchangeRateInputSchema>
+
+export type ExchangeRateSource = 'MANUAL' | 'CSV'
+
+export interface ExchangeRate {
+  id: string
+  currency: string
+  baseCurrency: string
+  date: string
+  rate: string // Units of the base currency per unit of `currency`
+  source: ExchangeRateSource
+  updatedAt: string
+}
+
+// A currency with documents dated before its first rate
+export interface MissingRate {
+  currency: string
+  fromDate: string // Earliest document that needs a rate
+  documents: number
+}
+
+// PGlite returns `date` columns as Date objects
+function toDateString(value: unknown): string {
+  return value instanceof Date ? value.toISOString().slice(0, 10) : String(value)
+}
+
+function mapRateRow(row: any): ExchangeRate {
+  return {
+    id: row.id,
+    currency: row.currency,
+    baseCurrency: row.base_currency,
+    date: toDateString(row.date),
+    rate: String(Number(row.rate)),
+    source: row.source || 'MANUAL',
+    updatedAt: row.updated_at
+  }
+}
+
+export async function getBaseCurrency(db: Queryable = client): Promise<string> {
+  const res = await db.query('SELECT base_currency FROM setting WHERE id = 1')
+  return (res.rows[0] as any)?.base_currency || DEFAULT_BASE_CURRENCY
+}
+
+/**
+ * Change the base currency. Every snapshot is taken again against the new
+ * base; documents without a rate to it stay unconverted until one is added.
+ */
+export async function setBaseCurrency(currency: string, db: Queryable = client): Promise<MissingRate[]> {
+  const code = currencyCodeSchema.parse(currency)
+  const updated = await db.query(
+    'UPDATE setting SET base_currency = $1, updated_at = current_timestamp WHERE id = 1 RETURNING id',
+    [code]
+  )
+  if (updated.rows.length === 0) {
+    await db.query(
+      'INSERT INTO setting (id, base_currency, created_at, updated_at) VALUES (1, $1, current_timestamp, current_timestamp)',
+      [code]
+    )
+  }
+  for (const table of ['invoice', 'payment', 'expense']) {
+    await db.query(`UPDATE ${table} SET exchange_rate = NULL, base_amount = NULL`)
+  }
+  await convertPendingAmounts(db)
+  return getMissingRates(db)
+}
+
+/** Rates to the current base currency, newest first within each currency */
+export async function getExchangeRates(db: Queryable = client): Promise<ExchangeRate[]> {
+  const res = await db.query(
+    'SELECT * FROM exchange_rate WHERE base_currency = $1 ORDER BY currency, date DESC',
+    [await getBaseCurrency(db)]
+  )
+  return res.rows.map(mapRateRow)
+}
+
+/** Add a rate, or replace the one of the same currency and date */
+export async function saveExchangeRate(input: ExchangeRateInput, source: ExchangeRateSource = 'MANUAL', db: Queryable = client): Promise<string> {
+  const base = await getBaseCurrency(db)
+  if (input.currency === base) {
+    throw new Error(`${base} is the base currency; it always converts at 1`)
+  }
+  const res = await db.query(
+    `INSERT INTO exchange_rate (id, currency, base_currency, date, rate, source, created_at, updated_at)
+     VALUES ($1, $2, $3, $4, $5, $6, current_timestamp, current_timestamp)
+     ON CONFLICT (currency, base_currency, date)
+     DO UPDATE SET rate = EXCLUDED.rate, source = EXCLUDED.source, updated_at = current_timestamp
+     RETURNING id`,
+    [generateId(), input.currency, base, input.date, input.rate.trim(), source]
+  )
+  return (res.rows[0] as any).id
+}
+
+export async function deleteExchangeRate(rateId: string, db: Queryable = client): Promise<void> {
+  const res = await db.query('DELETE FROM exchange_rate WHERE id = $1 RETURNING id', [rateId])
+  if (res.rows.length === 0) {
+    throw new Error('Exchange rate not found')
+  }
+}
+
+/**
+ * Read rates from CSV: one `date,currency,rate` row per line (a header row
+ * naming the columns may reorder them). Semicolon-separated files may use a
+ * decimal comma. Returns the rates, or the problems of each bad line.
+ */
+export function parseExchangeRatesCsv(text: string): { rates: ExchangeRateInput[]; problems: string[] } {
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/)
+  const rates: ExchangeRateInput[] = []
+  const problems: string[] = []
+  let columns = { date: 0, currency: 1, rate: 2 }
+
+  lines.forEach((line, index) => {
+    if (!line.trim()) return
+    const separator = line.includes(';') ? ';' : line.includes('\t') ? '\t' : ','
+    const cells = line.split(separator).map(cell => cell.trim().replace(/^"(.*)"$/, '$1'))
+    const header = cells.map(cell => cell.toLowerCase())
+    if (rates.length === 0 && problems.length === 0 && header.includes('date') && header.includes('rate')) {
+      columns = { date: header.indexOf('date'), currency: header.indexOf('currency'), rate: header.indexOf('rate') }
+      return
+    }
+    const rate = separator === ';' ? (cells[columns.rate] || '').replace(',', '.') : cells[columns.rate]
+    const parsed = exchangeRateInputSchema.safeParse({ date: cells[columns.date], currency: cells[columns.currency] ?? '', rate: rate ?? '' })
+    if (parsed.success) {
+      rates.push(parsed.data)
+    } else {
+      problems.push(`Line ${index + 1}: ${parsed.error.issues.map(issue => issue.message).join('; ')}`)
+    }
+  })
+  if (rates.length === 0 && problems.length === 0) {
+    problems.push('The file has no rates')
+  }
+  return { rates, problems }
+}
+
+/** Import a CSV file of rates; nothing is imported when a line is wrong */
+export async function importExchangeRates(text: string, db: Queryable = client): Promise<{ imported: number; problems: string[] }> {
+  const { rates, problems } = parseExchangeRatesCsv(text)
+  const base = await getBaseCurrency(db)
+  if (rates.some(rate => rate.currency === base)) {
+    problems.push(`${base} is the base currency; remove its rows`)
+  }
+  if (problems.length > 0) {
+    return { imported: 0, problems }
+  }
+  for (const rate of rates) {
+    await saveExchangeRate(rate, 'CSV', db)
+  }
+  await convertPendingAmounts(db)
+  return { imported: rates.length, problems: [] }
+}
+
+// Rate of a document in SQL; $1 is the base currency
+function rateSql(currency: string, date: string): string {
+  return `CASE WHEN COALESCE(${currency}, '${DEFAULT_BASE_CURRENCY}') = $1 THEN 1 ELSE (
+    SELECT x.rate FROM exchange_rate x
+    WHERE x.currency = ${currency} AND x.base_currency = $1 AND x.date <= ${date}
+    ORDER BY x.date DESC LIMIT 1
+  ) END`
+}
+
+// Documents with their rate; payments are in the currency of their invoice
+const RATE_SOURCES = {
+  invoice: `SELECT d.id, COALESCE(o.exchange_rate, ${rateSql('d.currency', 'd.issue_date')}) AS rate
+    FROM invoice d LEFT JOIN invoice o ON o.id = d.original_invoice_id`,
+  payment: `SELECT d.id, ${rateSql('i.currency', 'd.date')} AS rate
+    FROM payment d JOIN invoice i ON i.id = d.invoice_id`,
+  expense: `SELECT d.id, ${rateSql('d.currency', 'd.date')} AS rate
+    FROM expense d`
+}
+
+type ConvertedTable = keyof typeof RATE_SOURCES
+
+// Snapshot the rate and converted amount of the documents matching `condition` (params from $2)
+async function snapshotRates(table: ConvertedTable, condition: string, params: unknown[], db: Queryable): Promise<void> {
+  await db.query(
+    `UPDATE ${table} t
+     SET exchange_rate = s.rate, base_amount = ROUND(t.amount * s.rate, 2)
+     FROM (${RATE_SOURCES[table]} WHERE ${condition}) s
+     WHERE t.id = s.id`,
+    [await getBaseCurrency(db), ...params]
+  )
+}
+
+/** Snapshot an invoice, its credit notes and its payments (after its amount, date or currency change) */
+export async function convertInvoice(invoiceId: string, db: Queryable = client): Promise<void> {
+  await snapshotRates('invoice', 'd.id = $2', [invoiceId], db)
+  await snapshotRates('invoice', 'd.original_invoice_id = $2', [invoiceId], db)
+  await snapshotRates('payment', 'd.invoice_id = $2', [invoiceId], db)
+}
+
+export async function convertPayment(paymentId: string, db: Queryable = client): Promise<void> {
+  await snapshotRates('payment', 'd.id = $2', [paymentId], db)
+}
+
+export async function convertExpense(expenseId: string, db: Queryable = client): Promise<void> {
+  await snapshotRates('expense', 'd.id = $2', [expenseId], db)
+}
+
+/**
+ * Convert the documents still without a snapshot: those dated before their
+ * currency's first rate, and those that arrived without one (cloud sync,
+ * older backups). Invoices go before the credit notes that copy their rate.
+ */
+export async function convertPendingAmounts(db: Queryable = client): Promise<void> {
+  await snapshotRates('invoice', 'd.exchange_rate IS NULL AND d.original_invoice_id IS NULL', [], db)
+  await snapshotRates('invoice', 'd.exchange_rate IS NULL AND d.original_invoice_id IS NOT NULL', [], db)
+  await snapshotRates('payment', 'd.exchange_rate IS NULL', [], db)
+  await snapshotRates('expense', 'd.exchange_rate IS NULL', [], db)
+}
+
+/** Currencies whose documents could not be converted, with the earliest date that needs a rate */
+export async function getMissingRates(db: Queryable = client): Promise<MissingRate[]> {
+  const res = await db.query(`
+    SELECT currency, MIN(date) AS from_date, COUNT(*) AS documents FROM (
+      SELECT currency, issue_date AS date FROM invoice WHERE exchange_rate IS NULL AND status <> 'CANCELLED'
+      UNION ALL
+      SELECT i.currency, p.date FROM payment p JOIN invoice i ON i.id = p.invoice_id WHERE p.exchange_rate IS NULL
+      UNION ALL
+      SELECT currency, date FROM expense WHERE exchange_rate IS NULL
+    ) pending
+    GROUP BY currency
+    ORDER BY currency
+  `)
+  return res.rows.map((row: any) => ({
+    currency: row.currency || DEFAULT_BASE_CURRENCY,
+    fromDate: toDateString(row.from_date),
+    documents: Number(row.documents)
+  }))
+}
@@ -0,0 +1,375 @@
+import { z } from 'zod'
+import type { Party } from '../pdf'
+import type { EInvoiceResult, InvoiceDocument } from './index'
+import { EU_COUNTRIES, amount, countryAlpha3, decimal, el, num, parseAddress, partyCountry, schemaProblems, unitCode, vatBreakdown, vatId } from './xml'
+
+/**
+ * Facturae 3.2.2, the format Spanish public administrations receive
+ * invoices in (FACe and the regional hubs). Unlike EN 16931 formats it
+ * carries withholdings such as IRPF, and credit notes are corrective
+ * invoices with negative amounts that name the invoice they rectify.
+ * Files are written unsigned.
+ */
+
+const NAMESPACE = 'http://www.facturae.gob.es/formato/Versiones/Facturaev3_2_2.xml'
+
+// Provinces by the first two digits of a Spanish postcode (at most 20 characters in Facturae)
+const PROVINCES = [
+  'Araba/Álava', 'Albacete', 'Alicante', 'Almería', 'Ávila', 'Badajoz', 'Illes Balears', 'Barcelona', 'Burgos', 'Cáceres',
+  'Cádiz', 'Castellón', 'Ciudad Real', 'Córdoba', 'A Coruña', 'Cuenca', 'Girona', 'Granada', 'Guadalajara', 'Gipuzkoa',
+  'Huelva', 'Huesca', 'Jaén', 'León', 'Lleida', 'La Rioja', 'Lugo', 'Madrid', 'Málaga', 'Murcia',
+  'Navarra', 'Ourense', 'Asturias', 'Palencia', 'Las Palmas', 'Pontevedra', 'Salamanca', 'S.C. Tenerife', 'Cantabria', 'Segovia',
+  'Sevilla', 'Soria', 'Tarragona', 'Teruel', 'Toledo', 'Valencia', 'Valladolid', 'Bizkaia', 'Zamora', 'Zaragoza',
+  'Ceuta', 'Melilla'
+]
+
+// Tax type codes: IVA, IPSI (Ceuta and Melilla), IGIC (Canary Islands), IRPF, other
+function taxTypeCode(name: string, withheld: boolean): string {
+  if (withheld) return '04'
+  if (/\bIGIC\b/i.test(name)) return '03'
+  if (/\bIPSI\b/i.test(name)) return '02'
+  return /\bIVA\b|\bVAT\b/i.test(name) ? '01' : '05'
+}
+
+// Units of measure: units, hours, kilograms, litres, other
+const UNITS_OF_MEASURE: Record<string, string> = { C62: '01', HUR: '02', KGM: '03', LTR: '04' }
+
+const DATE = /^\d{4}-\d{2}-\d{2}$/
+
+const addressSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('spain'),
+    address: z.string().trim().min(1, 'address has no street').max(80),
+    postCode: z.string().regex(/^\d{5}$/, 'address needs a five-digit postcode before the town, e.g. "08001 Barcelona"'),
+    town: z.string().trim().min(1, 'address has no town').max(50),
+    province: z.string().min(1, 'postcode does not belong to a Spanish province').max(20)
+  }),
+  z.object({
+    type: z.literal('overseas'),
+    address: z.string().trim().min(1, 'address has no street').max(80),
+    postCodeAndTown: z.string().trim().min(1, 'address needs its postcode and town').max(50),
+    province: z.string().trim().min(1, 'address has no town').max(20),
+    countryCode: z.string({ error: 'country is not one Facturae export knows' }).regex(/^[A-Z]{3}$/)
+  })
+])
+
+const partySchema = z.object({
+  personType: z.enum(['F', 'J']), // Natural or legal person
+  residence: z.enum(['R', 'U', 'E']), // Resident in Spain, in another EU country, elsewhere
+  taxId: z.string().trim().min(3, 'has no tax ID').max(30),
+  name: z.string().trim().min(1, 'has no name').max(80),
+  surnames: z.array(z.string()),
+  address: addressSchema,
+  email: z.email('email address is not valid').optional()
+}).refine(party => party.personType === 'J' || party.surnames.length > 0, {
+  message: 'is a person (by its tax ID) and needs a name and surname'
+})
+
+const taxSchema = z.object({
+  typeCode: z.string().regex(/^0[1-5]$/),
+  rate: z.number().min(0),
+  base: z.number(),
+  amount: z.number()
+})
+
+const lineSchema = z.object({
+  description: z.string().trim().min(1, 'has no description').max(2500),
+  quantity: z.number().refine(quantity => quantity !== 0, 'has no quantity'),
+  unitOfMeasure: z.string(),
+  unitPrice: z.number(),
+  totalCost: z.number(),
+  discountRate: z.number().min(0).max(100),
+  grossAmount: z.number(),
+  tax: taxSchema
+})
+
+export const facturaeDocumentSchema = z.object({
+  number: z.string().trim().min(1, 'has no number').max(20, 'number is longer than the 20 characters Facturae allows'),
+  issueDate: z.string().regex(DATE, 'issue date is not valid'),
+  currency: z.literal('EUR', { error: 'Facturae export only supports invoices in EUR' }),
+  language: z.string().regex(/^[a-z]{2}$/),
+  corrective: z.object({
+    invoiceNumber: z.string().min(1, 'credit note does not name the invoice it rectifies').max(20),
+    originalIssueDate: z.string().regex(DATE),
+    reason: z.string().optional()
+  }).optional(),
+  seller: partySchema,
+  buyer: partySchema,
+  taxesOutputs: z.array(taxSchema).min(1, 'has no tax breakdown'),
+  taxesWithheld: z.array(taxSchema),
+  totals: z.object({
+    grossAmount: z.number(),
+    taxOutputs: z.number(),
+    taxesWithheld: z.number(),
+    invoiceTotal: z.number()
+  }),
+  lines: z.array(lineSchema).min(1, 'has no lines'),
+  payment: z.object({
+    dueDate: z.string().regex(DATE, 'due date is not valid'),
+    iban: z.string().regex(/^[A-Z]{2}\d{2}[A-Z0-9]{10,30}$/, 'IBAN is not valid').optional()
+  }).optional(),
+  legalLiterals: z.array(z.string()),
+  notes: z.string().optional()
+}).superRefine((doc, ctx) => {
+  // Totals Facturae validators recompute
+  const cents = (value: number) => Math.round(value * 100)
+  const gross = doc.lines.reduce((sum, line) => sum + line.grossAmount, 0)
+  if (cents(gross) !== cents(doc.totals.grossAmount)) {
+    ctx.addIssue({ code: 'custom', path: ['totals'], message: 'the lines do not add up to the taxable base' })
+  }
+  const outputs = doc.taxesOutputs.reduce((sum, tax) => sum + tax.amount, 0)
+  const withheld = doc.taxesWithheld.reduce((sum, tax) => sum + tax.amount, 0)
+  if (cents(outputs) !== cents(doc.totals.taxOutputs) || cents(withheld) !== cents(doc.totals.taxesWithheld)) {
+    ctx.addIssue({ code: 'custom', path: ['totals'], message: 'the tax breakdown does not add up to the tax totals' })
+  }
+  if (cents(doc.totals.grossAmount + doc.totals.taxOutputs - doc.totals.taxesWithheld) !== cents(doc.totals.invoiceTotal)) {
+    ctx.addIssue({ code: 'custom', path: ['totals'], message: 'the taxable base and taxes do not add up to the total' })
+  }
+})
+
+export type FacturaeDocument = z.infer<typeof facturaeDocumentSchema>
+type FacturaeInput = z.input<typeof facturaeDocumentSchema>
+
+const LABELS: Record<string, string> = {
+  seller: 'Company',
+  buyer: 'Client',
+  lines: 'Line',
+  taxesOutputs: 'Tax',
+  taxesWithheld: 'Taxes',
+  totals: 'Totals',
+  payment: 'Payment',
+  corrective: 'Credit note'
+}
+
+// Spanish tax IDs of people start with a digit (DNI) or K, L, M, X, Y, Z (NIE and others)
+function personType(taxId: string, country: string): 'F' | 'J' {
+  return country === 'ES' && /^[0-9KLMXYZ]/.test(taxId) ? 'F' : 'J'
+}
+
+function toParty(party: Party, country: string): FacturaeInput['seller'] {
+  const taxId = (party.taxId || '').replace(/[\s.-]/g, '').toUpperCase()
+  const spanish = country === 'ES'
+  // Residents use their bare NIF, everyone else their VAT number with its country prefix
+  const id = spanish ? taxId.replace(/^ES/, '') : taxId && vatId(taxId, country)
+  const type = personType(id, country)
+  const [name, ...surnames] = (party.name || '').trim().split(/\s+/)
+  const address = parseAddress(party.address)
+  const street = address.street.join(', ')
+  return {
+    personType: type,
+    residence: spanish ? 'R' : EU_COUNTRIES.includes(country) ? 'U' : 'E',
+    taxId: id,
+    name: type === 'F' ? name || '' : (party.name || '').trim(),
+    surnames: type === 'F' ? surnames : [],
+    address: spanish
+      ? { type: 'spain', address: street, postCode: address.postCode || '', town: address.town || '', province: PROVINCES[Number((address.postCode || '').slice(0, 2)) - 1] || '' }
+      : { type: 'overseas', address: street, postCodeAndTown: [address.postCode, address.town].filter(Boolean).join(' '), province: address.town || '', countryCode: countryAlpha3(country) as string },
+    email: party.email || undefined
+  }
+}
+
+/** The Facturae model of an invoice; credit notes keep their negative amounts */
+export function toFacturaeDocument(invoice: InvoiceDocument): FacturaeInput {
+  const seller = invoice.seller || {}
+  const buyer = { ...invoice.client, name: invoice.client?.name || invoice.clientName }
+  const sellerCountry = (seller.countryCode || '').toUpperCase()
+  const buyerCountry = (buyer.countryCode || '').toUpperCase() || partyCountry(buyer.taxId, sellerCountry)
+  const summary = invoice.taxSummary
+  const groups = vatBreakdown(summary)
+  const withholdings = (summary?.breakdown || []).filter(entry => entry.kind === 'WITHHOLDING' && num(entry.amount) !== 0)
+  // Withholdings are stored negative; Facturae lists them as positive amounts subtracted from the total
+  const taxesWithheld = withholdings.map(entry => ({
+    typeCode: taxTypeCode(entry.name, true),
+    rate: Math.abs(num(entry.rate)),
+    base: num(entry.base),
+    amount: -num(entry.amount)
+  }))
+  const iban = seller.iban?.replace(/\s/g, '').toUpperCase()
+
+  return {
+    number: invoice.number,
+    issueDate: invoice.issueDate,
+    currency: invoice.currency as 'EUR',
+    language: invoice.language || 'es',
+    corrective: invoice.creditNote
+      ? { invoiceNumber: invoice.creditNote.originalNumber, originalIssueDate: invoice.creditNote.originalIssueDate, reason: invoice.creditNote.reason || undefined }
+      : undefined,
+    seller: toParty(seller, sellerCountry),
+    buyer: toParty(buyer, buyerCountry),
+    taxesOutputs: groups.map(group => ({
+      typeCode: taxTypeCode(group.name, false),
+      rate: group.rate,
+      base: group.base,
+      amount: group.tax
+    })),
+    taxesWithheld,
+    totals: {
+      grossAmount: num(summary?.subtotal),
+      taxOutputs: num(summary?.taxAmount),
+      taxesWithheld: taxesWithheld.reduce((sum, tax) => sum + tax.amount, 0),
+      invoiceTotal: num(summary?.total)
+    },
+    lines: (invoice.items || []).map(item => {
+      const rate = num(item.taxRate)
+      const group = groups.find(candidate => candidate.rate === rate)
+      return {
+        description: item.description,
+        quantity: num(item.quantity ?? 1),
+        unitOfMeasure: UNITS_OF_MEASURE[unitCode(item.unit)] || '05',
+        unitPrice: num(item.unitPrice ?? item.amount),
+        totalCost: num(item.quantity ?? 1) * num(item.unitPrice ?? item.amount),
+        discountRate: num(item.discount),
+        grossAmount: num(item.amount),
+        tax: { typeCode: taxTypeCode(group?.name || '', false), rate, base: num(item.amount), amount: num(item.taxAmount) }
+      }
+    }),
+    payment: invoice.expectedPaymentDate && !invoice.creditNote
+      ? { dueDate: invoice.expectedPaymentDate, iban: iban || undefined }
+      : undefined,
+    legalLiterals: summary?.legalMentions || [],
+    notes: [invoice.description, invoice.notes].filter(Boolean).join('\n') || undefined
+  }
+}
+
+function partyXml(tag: string, party: FacturaeDocument['seller']): string {
+  const address = party.address.type === 'spain'
+    ? el('AddressInSpain', [
+        el('Address', party.address.address),
+        el('PostCode', party.address.postCode),
+        el('Town', party.address.town),
+        el('Province', party.address.province),
+        el('CountryCode', 'ESP')
+      ])
+    : el('OverseasAddress', [
+        el('Address', party.address.address),
+        el('PostCodeAndTown', party.address.postCodeAndTown),
+        el('Province', party.address.province),
+        el('CountryCode', party.address.countryCode)
+      ])
+  const contact = el('ContactDetails', [el('ElectronicMail', party.email)])
+  const entity = party.personType === 'J'
+    ? el('LegalEntity', [el('CorporateName', party.name), address, contact])
+    : el('Individual', [
+        el('Name', party.name),
+        el('FirstSurname', party.surnames[0]),
+        el('SecondSurname', party.surnames.slice(1).join(' ')),
+        address,
+        contact
+      ])
+  return el(tag, [
+    el('TaxIdentification', [
+      el('PersonTypeCode', party.personType),
+      el('ResidenceTypeCode', party.residence),
+      el('TaxIdentificationNumber', party.taxId)
+    ]),
+    entity
+  ])
+}
+
+function taxXml(tax: FacturaeDocument['taxesOutputs'][number]): string {
+  return el('Tax', [
+    el('TaxTypeCode', tax.typeCode),
+    el('TaxRate', amount(tax.rate)),
+    el('TaxableBase', [el('TotalAmount', amount(tax.base))]),
+    el('TaxAmount', [el('TotalAmount', amount(tax.amount))])
+  ])
+}
+
+const total = (value: number) => [el('TotalAmount', amount(value))]
+
+/** Serialize a validated Facturae model (unsigned) */
+export function facturaeXml(doc: FacturaeDocument): string {
+  const invoiceTotal = doc.totals.invoiceTotal
+  const corrective = doc.corrective
+    ? el('Corrective', [
+        el('InvoiceNumber', doc.corrective.invoiceNumber),
+        el('ReasonCode', '16'),
+        el('ReasonDescription', 'Detalle operación'),
+        el('TaxPeriod', [el('StartDate', doc.corrective.originalIssueDate), el('EndDate', doc.corrective.originalIssueDate)]),
+        el('CorrectionMethod', '02'),
+        el('CorrectionMethodDescription', 'Rectificación por diferencias'),
+        el('AdditionalReasonDescription', doc.corrective.reason)
+      ])
+    : ''
+
+  const invoice = el('Invoice', [
+    el('InvoiceHeader', [
+      el('InvoiceNumber', doc.number),
+      el('InvoiceDocumentType', 'FC'), // Complete invoice
+      el('InvoiceClass', doc.corrective ? 'OR' : 'OO'), // Corrective or original
+      corrective
+    ]),
+    el('InvoiceIssueData', [
+      el('IssueDate', doc.issueDate),
+      el('InvoiceCurrencyCode', doc.currency),
+      el('TaxCurrencyCode', doc.currency),
+      el('LanguageName', doc.language)
+    ]),
+    el('TaxesOutputs', doc.taxesOutputs.map(taxXml)),
+    el('TaxesWithheld', doc.taxesWithheld.map(taxXml)),
+    el('InvoiceTotals', [
+      el('TotalGrossAmount', amount(doc.totals.grossAmount)),
+      el('TotalGrossAmountBeforeTaxes', amount(doc.totals.grossAmount)),
+      el('TotalTaxOutputs', amount(doc.totals.taxOutputs)),
+      el('TotalTaxesWithheld', amount(doc.totals.taxesWithheld)),
+      el('InvoiceTotal', amount(invoiceTotal)),
+      el('TotalOutstandingAmount', amount(invoiceTotal)),
+      el('TotalExecutableAmount', amount(invoiceTotal))
+    ]),
+    el('Items', doc.lines.map(line => el('InvoiceLine', [
+      el('ItemDescription', line.description),
+      el('Quantity', decimal(line.quantity)),
+      el('UnitOfMeasure', line.unitOfMeasure),
+      el('UnitPriceWithoutTax', line.unitPrice.toFixed(6)),
+      el('TotalCost', line.totalCost.toFixed(6)),
+      line.discountRate > 0
+        ? el('DiscountsAndRebates', [el('Discount', [
+            el('DiscountReason', 'Descuento'),
+            el('DiscountRate', line.discountRate.toFixed(4)),
+            el('DiscountAmount', (line.totalCost - line.grossAmount).toFixed(6))
+          ])])
+        : '',
+      el('GrossAmount', line.grossAmount.toFixed(6)),
+      el('TaxesOutputs', [taxXml(line.tax)])
+    ]))),
+    doc.payment
+      ? el('PaymentDetails', [el('Installment', [
+          el('InstallmentDueDate', doc.payment.dueDate),
+          el('InstallmentAmount', amount(invoiceTotal)),
+          el('PaymentMeans', '04'), // Transfer
+          doc.payment.iban ? el('AccountToBeCredited', [el('IBAN', doc.payment.iban)]) : ''
+        ])])
+      : '',
+    el('LegalLiterals', doc.legalLiterals.map(literal => el('LegalReference', literal))),
+    el('AdditionalData', [el('InvoiceAdditionalInformation', doc.notes)])
+  ])
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<fe:Facturae xmlns:fe="${NAMESPACE}" xmlns:ds="http://www.w3.org/2000/09/xmldsig#">`,
+    el('FileHeader', [
+      el('SchemaVersion', '3.2.2'),
+      el('Modality', 'I'), // Individual invoice, not a batch
+      el('InvoiceIssuerType', 'EM'), // Issued by the seller
+      el('Batch', [
+        el('BatchIdentifier', `${doc.seller.taxId}${doc.number}`.slice(0, 70)),
+        el('InvoicesCount', '1'),
+        el('TotalInvoicesAmount', total(invoiceTotal)),
+        el('TotalOutstandingAmount', total(invoiceTotal)),
+        el('TotalExecutableAmount', total(invoiceTotal)),
+        el('InvoiceCurrencyCode', doc.currency)
+      ])
+    ]),
+    el('Parties', [partyXml('SellerParty', doc.seller), partyXml('BuyerParty', doc.buyer)]),
+    el('Invoices', [invoice]),
+    '</fe:Facturae>'
+  ].join('\n')
+}
+
+export function buildFacturae(invoice: InvoiceDocument): EInvoiceResult {
+  const parsed = facturaeDocumentSchema.safeParse(toFacturaeDocument(invoice))
+  if (!parsed.success) {
+    return { xml: null, problems: schemaProblems(parsed.error, LABELS) }
+  }
+  return { xml: facturaeXml(parsed.data), problems: [] }
+}
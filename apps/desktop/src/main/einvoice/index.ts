@@ -0,0 +1,113 @@
+import { promises as fs } from 'node:fs'
+import { join } from 'node:path'
+import { client } from '@bills/db'
+import { getCompanyProfile } from '../mail'
+import { getClientLanguage } from '../i18n'
+import { getInvoiceLines, getInvoiceTaxSummary } from '../invoice-lines'
+import type { Queryable } from '../invoice-lines'
+import type { InvoiceData } from '../pdf'
+import { buildUbl } from './ubl'
+import { buildFacturae } from './facturae'
+
+/**
+ * Structured invoice export
+ *
+ * Turns a stored invoice (seller from the company profile, buyer from its
+ * client, lines and taxes) into the XML e-invoicing networks and public
+ * administrations accept: UBL 2.1 following Peppol BIS Billing 3.0, and the
+ * Spanish Facturae 3.2.2. Each format builds a document model that is
+ * checked against the format's rules before any XML is written, so the user
+ * gets a list of what to fix instead of a file the receiver rejects. Files
+ * are written next to `invoice.pdf` in the invoice's folder.
+ */
+
+export const EINVOICE_FORMATS = ['ubl', 'facturae'] as const
+
+export type EInvoiceFormat = typeof EINVOICE_FORMATS[number]
+
+// An invoice as read back from the database, in the shape the PDF is drawn from
+export type InvoiceDocument = Omit<InvoiceData, 'outputPath'>
+
+export interface EInvoiceResult {
+  xml: string | null // Only when there are no problems
+  problems: string[]
+}
+
+const FORMATS: Record<EInvoiceFormat, { fileName: string; build: (invoice: InvoiceDocument) => EInvoiceResult }> = {
+  ubl: { fileName: 'invoice.ubl.xml', build: buildUbl },
+  // Unsigned: FACe and the regional hubs want it signed (XAdES) before it is submitted
+  facturae: { fileName: 'invoice.facturae.xml', build: buildFacturae }
+}
+
+// PGlite returns `date` columns as Date objects
+function toDateString(value: unknown): string | undefined {
+  if (!value) return undefined
+  return value instanceof Date ? value.toISOString().slice(0, 10) : String(value).slice(0, 10)
+}
+
+/** A stored invoice with its seller, client, lines and taxes */
+export async function loadInvoiceDocument(invoiceId: string, db: Queryable = client): Promise<InvoiceDocument & { folderPath: string }> {
+  const res = await db.query(
+    `SELECT i.*, c.name AS client_name, c.email AS client_email, c.address AS client_address,
+            c.phone AS client_phone, c.tax_id AS client_tax_id,
+            o.number AS original_number, o.issue_date AS original_issue_date
+     FROM invoice i
+     LEFT JOIN client c ON i.client_id = c.id
+     LEFT JOIN invoice o ON i.original_invoice_id = o.id
+     WHERE i.id = $1`,
+    [invoiceId]
+  )
+  const row = res.rows[0] as any
+  if (!row) {
+    throw new Error('Invoice not found')
+  }
+  const taxSummary = await getInvoiceTaxSummary(invoiceId, db)
+  return {
+    ...await getClientLanguage({ id: row.client_id }, db),
+    number: row.number,
+    clientName: row.client_name || '',
+    issueDate: toDateString(row.issue_date)!,
+    expectedPaymentDate: toDateString(row.expected_payment_date),
+    amount: taxSummary.total,
+    currency: row.currency,
+    seller: await getCompanyProfile(),
+    client: {
+      name: row.client_name || undefined,
+      email: row.client_email || undefined,
+      address: row.client_address || undefined,
+      phone: row.client_phone || undefined,
+      taxId: row.client_tax_id || undefined
+    },
+    items: await getInvoiceLines(invoiceId, db),
+    taxSummary,
+    description: row.description,
+    notes: row.notes,
+    creditNote: row.kind === 'CREDIT_NOTE'
+      ? { originalNumber: row.original_number || '', originalIssueDate: toDateString(row.original_issue_date) || '', reason: row.credit_reason }
+      : null,
+    folderPath: row.folder_path
+  }
+}
+
+export function buildEInvoice(invoice: InvoiceDocument, format: EInvoiceFormat): EInvoiceResult {
+  return FORMATS[format].build(invoice)
+}
+
+/**
+ * Write an invoice in a structured format to its folder. Nothing is written
+ * when it does not conform; the problems say why.
+ */
+export async function exportEInvoice(invoiceId: string, format: EInvoiceFormat, db: Queryable = client): Promise<{ filePath: string | null; problems: string[] }> {
+  const invoice = await loadInvoiceDocument(invoiceId, db)
+  const { xml, problems } = buildEInvoice(invoice, format)
+  if (!xml) {
+    return { filePath: null, problems }
+  }
+  if (!invoice.folderPath) {
+    throw new Error(`Invoice ${invoice.number} has no folder`)
+  }
+  await fs.mkdir(invoice.folderPath, { recursive: true })
+  const filePath = join(invoice.folderPath, FORMATS[format].fileName)
+  await fs.writeFile(filePath, xml, 'utf-8')
+  return { filePath, problems: [] }
+}
@@ -0,0 +1,287 @@
+import { z } from 'zod'
+import type { Party } from '../pdf'
+import type { EInvoiceResult, InvoiceDocument } from './index'
+import { amount, decimal, el, num, parseAddress, partyCountry, schemaProblems, unitCode, vatBreakdown, vatCategory, vatId } from './xml'
+
+/**
+ * UBL 2.1 invoices and credit notes following Peppol BIS Billing 3.0, the
+ * EN 16931 profile Peppol access points exchange. Credit notes are UBL
+ * `CreditNote` documents with positive amounts referring to the invoice
+ * they rectify.
+ */
+
+const CUSTOMIZATION_ID = 'urn:cen.eu:en16931:2017#compliant#urn:fdc:peppol.eu:2017:poacc:billing:3.0'
+const PROFILE_ID = 'urn:fdc:peppol.eu:2017:poacc:billing:01:1.0'
+
+// Peppol electronic address schemes (EAS) of VAT numbers, by country
+const VAT_ENDPOINT_SCHEMES: Record<string, string> = {
+  AD: '9922', AT: '9914', BE: '9925', BG: '9926', CH: '9927', CY: '9928', CZ: '9929', DE: '9930',
+  EE: '9931', ES: '9920', FR: '9957', GB: '9932', GR: '9933', HR: '9934', HU: '9910', IE: '9935',
+  IT: '0211', LT: '9937', LU: '9938', LV: '9939', MT: '9943', NL: '9944', PL: '9945', PT: '9946',
+  RO: '9947', SE: '9955', SI: '9949', SK: '9950'
+}
+
+const DATE = /^\d{4}-\d{2}-\d{2}$/
+
+const partySchema = z.object({
+  name: z.string().trim().min(1, 'has no name'),
+  endpointId: z.string().min(1, 'needs a VAT number or an email address to be reached on Peppol'),
+  endpointScheme: z.string(),
+  street: z.string().optional(),
+  additionalStreet: z.string().optional(),
+  city: z.string().optional(),
+  postalZone: z.string().optional(),
+  country: z.string().regex(/^[A-Z]{2}$/, 'has no country (two-letter code such as ES)'),
+  vatId: z.string().regex(/^[A-Z]{2}[A-Z0-9]{2,}$/, 'VAT number is not valid').optional(),
+  email: z.email('email address is not valid').optional()
+})
+
+const lineSchema = z.object({
+  name: z.string().trim().min(1, 'has no description'),
+  quantity: z.number().refine(quantity => quantity !== 0, 'has no quantity'),
+  unitCode: z.string(),
+  lineExtension: z.number(),
+  price: z.number().min(0, 'price cannot be negative'),
+  taxCategory: z.enum(['S', 'E']),
+  taxPercent: z.number().min(0)
+})
+
+const taxSchema = z.object({
+  category: z.enum(['S', 'E']),
+  percent: z.number().min(0),
+  taxable: z.number(),
+  tax: z.number(),
+  exemptionReason: z.string().optional()
+})
+
+export const ublDocumentSchema = z.object({
+  creditNote: z.boolean(),
+  id: z.string().trim().min(1, 'has no number'),
+  issueDate: z.string().regex(DATE, 'issue date is not valid'),
+  dueDate: z.string().regex(DATE, 'due date is not valid').optional(),
+  notes: z.array(z.string()),
+  currency: z.string().regex(/^[A-Z]{3}$/, 'currency is not an ISO 4217 code'),
+  buyerReference: z.string().min(1),
+  billingReference: z.object({
+    id: z.string().min(1, 'credit note does not name the invoice it rectifies'),
+    issueDate: z.string().regex(DATE).optional()
+  }).optional(),
+  seller: partySchema.extend({
+    vatId: z.string({ error: 'has no VAT number' }).regex(/^[A-Z]{2}[A-Z0-9]{2,}$/, 'VAT number is not valid')
+  }),
+  buyer: partySchema,
+  payment: z.object({
+    code: z.enum(['30', '58']), // Credit transfer, SEPA credit transfer
+    account: z.string().min(1)
+  }).optional(),
+  taxes: z.array(taxSchema).min(1, 'has no tax breakdown'),
+  withholding: z.number().refine(value => value === 0, 'withholding taxes (such as IRPF) cannot be expressed in Peppol invoices'),
+  totals: z.object({
+    lineExtension: z.number(),
+    taxExclusive: z.number(),
+    tax: z.number(),
+    taxInclusive: z.number(),
+    payable: z.number()
+  }),
+  lines: z.array(lineSchema).min(1, 'has no lines')
+}).superRefine((doc, ctx) => {
+  // Business rules of EN 16931 the schema of each field cannot express
+  const cents = (value: number) => Math.round(value * 100)
+  const lineTotal = doc.lines.reduce((sum, line) => sum + line.lineExtension, 0)
+  if (cents(lineTotal) !== cents(doc.totals.lineExtension)) {
+    ctx.addIssue({ code: 'custom', path: ['totals'], message: 'the lines do not add up to the taxable base' })
+  }
+  const taxTotal = doc.taxes.reduce((sum, tax) => sum + tax.tax, 0)
+  if (cents(taxTotal) !== cents(doc.totals.tax)) {
+    ctx.addIssue({ code: 'custom', path: ['totals'], message: 'the tax breakdown does not add up to the tax total' })
+  }
+  if (cents(doc.totals.taxExclusive + doc.totals.tax) !== cents(doc.totals.taxInclusive)) {
+    ctx.addIssue({ code: 'custom', path: ['totals'], message: 'the taxable base and taxes do not add up to the total' })
+  }
+  doc.taxes.forEach((tax, index) => {
+    const base = doc.lines
+      .filter(line => line.taxCategory === tax.category && line.taxPercent === tax.percent)
+      .reduce((sum, line) => sum + line.lineExtension, 0)
+    if (cents(base) !== cents(tax.taxable)) {
+      ctx.addIssue({ code: 'custom', path: ['taxes', index], message: `the lines taxed at ${tax.percent}% do not add up to its taxable amount` })
+    }
+  })
+  if (doc.creditNote && !doc.billingReference) {
+    ctx.addIssue({ code: 'custom', path: ['billingReference'], message: 'credit note does not name the invoice it rectifies' })
+  }
+})
+
+export type UblDocument = z.infer<typeof ublDocumentSchema>
+type UblInput = z.input<typeof ublDocumentSchema>
+
+const LABELS: Record<string, string> = {
+  seller: 'Company',
+  buyer: 'Client',
+  lines: 'Line',
+  taxes: 'Tax',
+  withholding: 'Taxes',
+  totals: 'Totals',
+  payment: 'Payment'
+}
+
+function toParty(party: Party & { name?: string }, country: string): z.input<typeof partySchema> {
+  const address = parseAddress(party.address)
+  const vat = party.taxId ? vatId(party.taxId, country) : undefined
+  const scheme = VAT_ENDPOINT_SCHEMES[country]
+  const endpoint = vat && scheme ? { endpointId: vat, endpointScheme: scheme } : { endpointId: party.email || '', endpointScheme: 'EM' }
+  return {
+    name: party.name || '',
+    ...endpoint,
+    street: address.street[0],
+    additionalStreet: address.street.slice(1).join(', ') || undefined,
+    city: address.town,
+    postalZone: address.postCode,
+    country,
+    vatId: vat,
+    email: party.email || undefined
+  }
+}
+
+/** The UBL model of an invoice; amounts of credit notes are made positive */
+export function toUblDocument(invoice: InvoiceDocument): UblInput {
+  const seller = invoice.seller || {}
+  const buyer = { ...invoice.client, name: invoice.client?.name || invoice.clientName }
+  const sellerCountry = (seller.countryCode || '').toUpperCase()
+  const buyerCountry = (buyer.countryCode || '').toUpperCase() || partyCountry(buyer.taxId, sellerCountry)
+  const sign = invoice.creditNote ? -1 : 1
+  const summary = invoice.taxSummary
+  const lineExtension = sign * num(summary?.subtotal)
+  const tax = sign * num(summary?.taxAmount)
+  const iban = seller.iban?.replace(/\s/g, '')
+
+  return {
+    creditNote: !!invoice.creditNote,
+    id: invoice.number,
+    issueDate: invoice.issueDate,
+    dueDate: invoice.creditNote ? undefined : invoice.expectedPaymentDate,
+    notes: [invoice.description, invoice.notes, invoice.creditNote?.reason, ...(summary?.legalMentions || [])].filter((note): note is string => !!note),
+    currency: invoice.currency,
+    buyerReference: invoice.number, // Clients give no order reference; Peppol needs one of the two
+    billingReference: invoice.creditNote
+      ? { id: invoice.creditNote.originalNumber, issueDate: invoice.creditNote.originalIssueDate || undefined }
+      : undefined,
+    seller: toParty(seller, sellerCountry) as UblInput['seller'], // Its missing VAT number is reported by the schema
+    buyer: toParty(buyer, buyerCountry),
+    payment: iban ? { code: '58', account: iban } : seller.bankAccount ? { code: '30', account: seller.bankAccount } : undefined,
+    taxes: vatBreakdown(summary, sign).map(group => ({
+      category: group.category,
+      percent: group.rate,
+      taxable: group.base,
+      tax: group.tax,
+      exemptionReason: group.category === 'E' ? group.reason || 'Exempt' : undefined
+    })),
+    withholding: num(summary?.withholdingAmount),
+    totals: {
+      lineExtension,
+      taxExclusive: lineExtension,
+      tax,
+      taxInclusive: lineExtension + tax,
+      payable: lineExtension + tax
+    },
+    lines: (invoice.items || []).map(item => ({
+      name: item.description,
+      quantity: sign * num(item.quantity ?? 1),
+      unitCode: unitCode(item.unit),
+      lineExtension: sign * num(item.amount),
+      price: num(item.unitPrice ?? item.amount) * (1 - num(item.discount) / 100),
+      taxCategory: vatCategory(num(item.taxRate)),
+      taxPercent: num(item.taxRate)
+    }))
+  }
+}
+
+function partyXml(party: UblDocument['buyer']): string {
+  return el('cac:Party', [
+    el('cbc:EndpointID', party.endpointId, { schemeID: party.endpointScheme }),
+    el('cac:PartyName', [el('cbc:Name', party.name)]),
+    el('cac:PostalAddress', [
+      el('cbc:StreetName', party.street),
+      el('cbc:AdditionalStreetName', party.additionalStreet),
+      el('cbc:CityName', party.city),
+      el('cbc:PostalZone', party.postalZone),
+      el('cac:Country', [el('cbc:IdentificationCode', party.country)])
+    ]),
+    party.vatId ? el('cac:PartyTaxScheme', [el('cbc:CompanyID', party.vatId), el('cac:TaxScheme', [el('cbc:ID', 'VAT')])]) : '',
+    el('cac:PartyLegalEntity', [el('cbc:RegistrationName', party.name)]),
+    el('cac:Contact', [el('cbc:ElectronicMail', party.email)])
+  ])
+}
+
+function taxCategoryXml(tag: string, category: string, percent: number, exemptionReason?: string): string {
+  return el(tag, [
+    el('cbc:ID', category),
+    el('cbc:Percent', decimal(percent, 2)),
+    el('cbc:TaxExemptionReason', exemptionReason),
+    el('cac:TaxScheme', [el('cbc:ID', 'VAT')])
+  ])
+}
+
+/** Serialize a validated UBL model */
+export function ublXml(doc: UblDocument): string {
+  const root = doc.creditNote ? 'CreditNote' : 'Invoice'
+  const moneyEl = (name: string, value: number, format = amount) => el(name, format(value), { currencyID: doc.currency })
+
+  const body = [
+    el('cbc:CustomizationID', CUSTOMIZATION_ID),
+    el('cbc:ProfileID', PROFILE_ID),
+    el('cbc:ID', doc.id),
+    el('cbc:IssueDate', doc.issueDate),
+    doc.creditNote ? '' : el('cbc:DueDate', doc.dueDate),
+    el(doc.creditNote ? 'cbc:CreditNoteTypeCode' : 'cbc:InvoiceTypeCode', doc.creditNote ? '381' : '380'),
+    ...doc.notes.map(note => el('cbc:Note', note)),
+    el('cbc:DocumentCurrencyCode', doc.currency),
+    el('cbc:BuyerReference', doc.buyerReference),
+    doc.billingReference
+      ? el('cac:BillingReference', [el('cac:InvoiceDocumentReference', [el('cbc:ID', doc.billingReference.id), el('cbc:IssueDate', doc.billingReference.issueDate)])])
+      : '',
+    el('cac:AccountingSupplierParty', [partyXml(doc.seller)]),
+    el('cac:AccountingCustomerParty', [partyXml(doc.buyer)]),
+    doc.payment
+      ? el('cac:PaymentMeans', [el('cbc:PaymentMeansCode', doc.payment.code), el('cac:PayeeFinancialAccount', [el('cbc:ID', doc.payment.account)])])
+      : '',
+    el('cac:TaxTotal', [
+      moneyEl('cbc:TaxAmount', doc.totals.tax),
+      ...doc.taxes.map(tax => el('cac:TaxSubtotal', [
+        moneyEl('cbc:TaxableAmount', tax.taxable),
+        moneyEl('cbc:TaxAmount', tax.tax),
+        taxCategoryXml('cac:TaxCategory', tax.category, tax.percent, tax.exemptionReason)
+      ]))
+    ]),
+    el('cac:LegalMonetaryTotal', [
+      moneyEl('cbc:LineExtensionAmount', doc.totals.lineExtension),
+      moneyEl('cbc:TaxExclusiveAmount', doc.totals.taxExclusive),
+      moneyEl('cbc:TaxInclusiveAmount', doc.totals.taxInclusive),
+      moneyEl('cbc:PayableAmount', doc.totals.payable)
+    ]),
+    ...doc.lines.map((line, index) => el(doc.creditNote ? 'cac:CreditNoteLine' : 'cac:InvoiceLine', [
+      el('cbc:ID', String(index + 1)),
+      el(doc.creditNote ? 'cbc:CreditedQuantity' : 'cbc:InvoicedQuantity', decimal(line.quantity), { unitCode: line.unitCode }),
+      moneyEl('cbc:LineExtensionAmount', line.lineExtension),
+      el('cac:Item', [
+        el('cbc:Name', line.name),
+        taxCategoryXml('cac:ClassifiedTaxCategory', line.taxCategory, line.taxPercent)
+      ]),
+      el('cac:Price', [moneyEl('cbc:PriceAmount', line.price, decimal)])
+    ]))
+  ]
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<${root} xmlns="urn:oasis:names:specification:ubl:schema:xsd:${root}-2" xmlns:cac="urn:oasis:names:specification:ubl:schema:xsd:CommonAggregateComponents-2" xmlns:cbc="urn:oasis:names:specification:ubl:schema:xsd:CommonBasicComponents-2">`,
+    ...body.filter(Boolean),
+    `</${root}>`
+  ].join('\n')
+}
+
+export function buildUbl(invoice: InvoiceDocument): EInvoiceResult {
+  const parsed = ublDocumentSchema.safeParse(toUblDocument(invoice))
+  if (!parsed.success) {
+    return { xml: null, problems: schemaProblems(parsed.error, LABELS) }
+  }
+  return { xml: ublXml(parsed.data), problems: [] }
+}
@@ -0,0 +1,159 @@
+import type { ZodError } from 'zod'
+import type { TaxSummary } from '../tax'
+
+/**
+ * XML helpers shared by the structured invoice formats (UBL, Facturae and
+ * the Factur-X data embedded in PDFs): markup building, number formats,
+ * countries, VAT identifiers and postal addresses typed as free text.
+ */
+
+// Text of an element, or child elements already rendered as markup
+export type XmlContent = string | number | null | undefined | false | string[]
+
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+/**
+ * An element: strings and numbers are its (escaped) text, an array its child
+ * elements. Optional elements left empty are not written at all.
+ */
+export function el(name: string, content: XmlContent, attributes: Record<string, string | undefined> = {}): string {
+  if (content === null || content === undefined || content === false || content === '') return ''
+  const body = Array.isArray(content) ? content.join('') : escapeXml(String(content))
+  if (Array.isArray(content) && body === '') return ''
+  const attrs = Object.entries(attributes)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => ` ${key}="${escapeXml(value!)}"`)
+    .join('')
+  return `<${name}${attrs}>${body}</${name}>`
+}
+
+export function num(value: string | number | null | undefined): number {
+  const n = Number(value ?? 0)
+  return isNaN(n) ? 0 : n
+}
+
+// Amounts with two decimals; prices and quantities with as many as they need, up to `places`
+export function amount(value: number): string {
+  return (Math.round(value * 100) / 100).toFixed(2)
+}
+
+export function decimal(value: number, places = 4): string {
+  const factor = 10 ** places
+  return String(Math.round(value * factor) / factor)
+}
+
+// Country of a party: the prefix of its VAT number (e.g. FR12345678901), else the fallback
+export function partyCountry(taxId: string | null | undefined, fallback: string): string {
+  const prefix = (taxId || '').trim().slice(0, 2).toUpperCase()
+  return /^[A-Z]{2}$/.test(prefix) ? prefix : fallback
+}
+
+// VAT identifiers always carry their country prefix
+export function vatId(taxId: string, country: string): string {
+  const id = taxId.replace(/[\s.-]/g, '').toUpperCase()
+  return /^[A-Z]{2}/.test(id) && id.slice(0, 2) === country ? id : `${country}${id}`
+}
+
+// Unit codes of UN/ECE Recommendation 20 for the units typed on lines
+const UNIT_CODES: Record<string, string> = {
+  h: 'HUR', hour: 'HUR', hours: 'HUR', hora: 'HUR', hores: 'HUR', horas: 'HUR', heure: 'HUR', heures: 'HUR',
+  day: 'DAY', days: 'DAY', dia: 'DAY', dies: 'DAY', 'día': 'DAY', 'días': 'DAY', jour: 'DAY', jours: 'DAY',
+  month: 'MON', months: 'MON', mes: 'MON', mesos: 'MON', meses: 'MON', mois: 'MON',
+  kg: 'KGM', km: 'KMT', m: 'MTR', l: 'LTR'
+}
+
+export function unitCode(unit?: string | null): string {
+  return UNIT_CODES[(unit || '').trim().toLowerCase()] || 'C62' // C62: one (unit)
+}
+
+// ISO 3166 alpha-3 codes (Facturae) of the alpha-2 ones parties are stored with
+const ALPHA3: Record<string, string> = {
+  AD: 'AND', AT: 'AUT', BE: 'BEL', BG: 'BGR', CH: 'CHE', CY: 'CYP', CZ: 'CZE', DE: 'DEU', DK: 'DNK',
+  EE: 'EST', ES: 'ESP', FI: 'FIN', FR: 'FRA', GB: 'GBR', GR: 'GRC', HR: 'HRV', HU: 'HUN', IE: 'IRL',
+  IS: 'ISL', IT: 'ITA', LI: 'LIE', LT: 'LTU', LU: 'LUX', LV: 'LVA', MC: 'MCO', MT: 'MLT', NL: 'NLD',
+  NO: 'NOR', PL: 'POL', PT: 'PRT', RO: 'ROU', SE: 'SWE', SI: 'SVN', SK: 'SVK', US: 'USA', CA: 'CAN',
+  MX: 'MEX', AR: 'ARG', BR: 'BRA', CL: 'CHL', CO: 'COL', MA: 'MAR', AU: 'AUS', JP: 'JPN', CN: 'CHN'
+}
+
+export function countryAlpha3(country: string): string | undefined {
+  return ALPHA3[country]
+}
+
+// VAT category of EN 16931: standard rate, or exempt with its legal mention as the reason
+export function vatCategory(rate: number): 'S' | 'E' {
+  return rate === 0 ? 'E' : 'S'
+}
+
+export interface VatGroup {
+  category: 'S' | 'E'
+  name: string // Of the first tax rate in the group, e.g. 'IVA 21%'
+  rate: number
+  base: number
+  tax: number
+  reason: string | null
+}
+
+/**
+ * Taxes of an invoice by category and rate; withholdings are left out, as
+ * they are not VAT. `sign` -1 turns a credit note's amounts positive.
+ */
+export function vatBreakdown(summary: TaxSummary | null | undefined, sign = 1): VatGroup[] {
+  const groups = new Map<string, VatGroup>()
+  for (const entry of summary?.breakdown || []) {
+    if (entry.kind === 'WITHHOLDING') continue
+    const rate = num(entry.rate)
+    const category = vatCategory(rate)
+    const key = `${category}:${rate}`
+    const group = groups.get(key) || { category, name: entry.name, rate, base: 0, tax: 0, reason: null }
+    group.base += sign * num(entry.base)
+    group.tax += sign * num(entry.amount)
+    group.reason = group.reason || entry.legalMention || null
+    groups.set(key, group)
+  }
+  return Array.from(groups.values())
+}
+
+export const EU_COUNTRIES = ['AT', 'BE', 'BG', 'CY', 'CZ', 'DE', 'DK', 'EE', 'ES', 'FI', 'FR', 'GR', 'HR', 'HU', 'IE', 'IT', 'LT', 'LU', 'LV', 'MT', 'NL', 'PL', 'PT', 'RO', 'SE', 'SI', 'SK']
+
+export interface PostalAddress {
+  street: string[] // Lines before the postcode and town
+  postCode?: string
+  town?: string
+}
+
+// The line with the postcode and town ("08001 Barcelona", "AD500 Andorra la Vella", "1000-001 Lisboa")
+const POSTCODE = '(?:[A-Z]{1,2}-?\\d{3,5}|\\d{4,5})(?:-\\d{3})?'
+const POSTCODE_LINE = new RegExp(`^(${POSTCODE})\\s+(.+)$`, 'i')
+
+/** Split an address typed as free text into street lines, postcode and town */
+export function parseAddress(address?: string | null): PostalAddress {
+  const lines = (address || '').split(new RegExp(`\\r?\\n|,\\s*(?=${POSTCODE}\\s)`, 'i')).map(line => line.trim()).filter(Boolean)
+  const index = lines.findIndex(line => POSTCODE_LINE.test(line))
+  if (index < 0) return { street: lines }
+  const [, postCode, town] = POSTCODE_LINE.exec(lines[index])!
+  return { street: lines.filter((_, i) => i !== index), postCode, town }
+}
+
+/**
+ * Problems of a format's document model, one sentence per schema issue,
+ * starting with what it is about ("Client: has no country", "Line 2: has
+ * no description"). `labels` name the model's top-level fields.
+ */
+export function schemaProblems(error: ZodError, labels: Record<string, string>): string[] {
+  const problems = error.issues.map(issue => {
+    // An issue with a whole list ("has no lines") is about the invoice itself
+    const label = issue.code === 'too_small' && issue.origin === 'array'
+      ? 'Invoice'
+      : labels[String(issue.path[0] ?? '')] ?? 'Invoice'
+    const index = issue.path.find(part => typeof part === 'number')
+    return `${label}${typeof index === 'number' ? ` ${index + 1}` : ''}: ${issue.message}`
+  })
+  // Fields derived from the same input (an address without its postcode line) fail together
+  return Array.from(new Set(problems))
+}
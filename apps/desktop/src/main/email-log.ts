@@ -0,0 +1,90 @@
+import { client } from '@bills/db'
+import { generateId } from './ipc/utils'
+import type { Queryable } from './invoice-lines'
+
+/**
+ * Email log
+ *
+ * Every invoice email leaves a row, whether it was sent by hand, by an
+ * automation or as a payment reminder, and whether the SMTP server accepted
+ * it or not. It is the proof of what was sent to whom and when.
+ */
+
+export type EmailSource = 'MANUAL' | 'AUTOMATION' | 'REMINDER'
+
+export interface EmailLogInput {
+  invoiceId: string | null
+  source: EmailSource
+  recipients: string[]
+  cc?: string[]
+  subject: string
+  messageId?: string | null
+  error?: string | null // Set when the send failed
+}
+
+export interface EmailLogEntry {
+  id: string
+  invoiceId: string | null
+  source: EmailSource
+  recipients: string[]
+  cc: string[]
+  subject: string
+  messageId: string | null
+  status: 'SENT' | 'FAILED'
+  error: string | null
+  sentAt: string
+}
+
+function parseAddresses(text: string | null): string[] {
+  if (!text) return []
+  try {
+    const parsed = JSON.parse(text)
+    return Array.isArray(parsed) ? parsed : []
+  } catch {
+    return []
+  }
+}
+
+function mapLogRow(row: any): EmailLogEntry {
+  return {
+    id: row.id,
+    invoiceId: row.invoice_id ?? null,
+    source: row.source,
+    recipients: parseAddresses(row.recipients),
+    cc: parseAddresses(row.cc),
+    subject: row.subject,
+    messageId: row.message_id ?? null,
+    status: row.status,
+    error: row.error ?? null,
+    sentAt: row.sent_at
+  }
+}
+
+/** Record a send attempt; never throws so logging can't mask the send result */
+export async function logEmail(entry: EmailLogInput, db: Queryable = client): Promise<void> {
+  try {
+    await db.query(
+      `INSERT INTO email_log (id, invoice_id, source, recipients, cc, subject, message_id, status, error, sent_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, current_timestamp)`,
+      [
+        generateId(),
+        entry.invoiceId,
+        entry.source,
+        JSON.stringify(entry.recipients),
+        entry.cc && entry.cc.length > 0 ? JSON.stringify(entry.cc) : null,
+        entry.subject,
+        entry.messageId ?? null,
+        entry.error ? 'FAILED' : 'SENT',
+        entry.error ?? null
+      ]
+    )
+  } catch (error) {
+    console.error('Failed to write email log:', error)
+  }
+}
+
+/** Emails sent (or attempted) for an invoice, newest first */
+export async function getEmailHistory(invoiceId: string, db: Queryable = client): Promise<EmailLogEntry[]> {
+  const res = await db.query('SELECT * FROM email_log WHERE invoice_id = $1 ORDER BY sent_at DESC', [invoiceId])
+  return res.rows.map(mapLogRow)
+}
@@ -0,0 +1,186 @@
+import { z } from 'zod'
+import { client } from '@bills/db'
+import { generateId } from './ipc/utils'
+import { toInvoiceLanguage } from './i18n'
+import type { Queryable } from './invoice-lines'
+
+/**
+ * Email template library
+ *
+ * Named subject/body pairs for each kind of email (invoice delivery,
+ * reminder, thank-you for a payment, credit note, quote), one row per
+ * language. Quote templates use the same variables, with `invoice.*`
+ * filled in from the quote and `invoice.dueDate` being its validity date.
+ * Automation rules and the manual send dialog refer to a template by id, so
+ * rewording it changes every email that uses it. Each change of the wording
+ * bumps `version` and keeps the replaced wording in `email_template_version`,
+ * from where it can be restored.
+ */
+
+export const EMAIL_TEMPLATE_KINDS = ['INVOICE', 'REMINDER', 'PAYMENT_THANKS', 'CREDIT_NOTE', 'QUOTE'] as const
+
+export type EmailTemplateKind = typeof EMAIL_TEMPLATE_KINDS[number]
+
+export const emailTemplateSchema = z.object({
+  id: z.string().optional(),
+  name: z.string().min(1),
+  kind: z.enum(EMAIL_TEMPLATE_KINDS),
+  language: z.string().min(2).max(16).default('ca-ES'), // BCP 47 locale, e.g. 'es-ES'
+  subjectTemplate: z.string().min(1),
+  bodyTemplate: z.string().min(1)
+})
+
+export type EmailTemplateInput = z.infer<typeof emailTemplateSchema>
+
+export interface EmailTemplate {
+  id: string
+  name: string
+  kind: EmailTemplateKind
+  language: string
+  subjectTemplate: string
+  bodyTemplate: string
+  version: number
+  ruleCount: number // Automation rules using it
+  updatedAt: string
+}
+
+export interface EmailTemplateVersion {
+  version: number
+  subjectTemplate: string
+  bodyTemplate: string
+  replacedAt: string
+}
+
+function mapTemplateRow(row: any): EmailTemplate {
+  return {
+    id: row.id,
+    name: row.name,
+    kind: row.kind,
+    language: row.language,
+    subjectTemplate: row.subject_template,
+    bodyTemplate: row.body_template,
+    version: Number(row.version),
+    ruleCount: Number(row.rule_count ?? 0),
+    updatedAt: row.updated_at
+  }
+}
+
+const TEMPLATE_SQL = `
+  SELECT t.*, (SELECT COUNT(*) FROM automation_rule ar WHERE ar.email_template_id = t.id) AS rule_count
+  FROM email_template t
+`
+
+export async function getEmailTemplates(kind?: EmailTemplateKind, db: Queryable = client): Promise<EmailTemplate[]> {
+  const res = kind
+    ? await db.query(`${TEMPLATE_SQL} WHERE t.kind = $1 ORDER BY t.name, t.language`, [kind])
+    : await db.query(`${TEMPLATE_SQL} ORDER BY t.kind, t.name, t.language`)
+  return res.rows.map(mapTemplateRow)
+}
+
+export async function getEmailTemplate(id: string, db: Queryable = client): Promise<EmailTemplate | null> {
+  const res = await db.query(`${TEMPLATE_SQL} WHERE t.id = $1`, [id])
+  return res.rows[0] ? mapTemplateRow(res.rows[0]) : null
+}
+
+/**
+ * The version of a template written in a client's language: the template of
+ * the same kind and name in that language if there is one, else the
+ * template itself.
+ */
+export async function getEmailTemplateForLanguage(id: string, language: string | null | undefined, db: Queryable = client): Promise<EmailTemplate | null> {
+  const template = await getEmailTemplate(id, db)
+  if (!template || !language || toInvoiceLanguage(template.language) === toInvoiceLanguage(language)) {
+    return template
+  }
+  const res = await db.query(
+    `${TEMPLATE_SQL} WHERE t.kind = $1 AND t.name = $2 AND lower(left(t.language, 2)) = $3 ORDER BY t.language LIMIT 1`,
+    [template.kind, template.name, toInvoiceLanguage(language)]
+  )
+  return res.rows[0] ? mapTemplateRow(res.rows[0]) : template
+}
+
+/**
+ * Create or update a template. A change of the subject or body keeps the
+ * previous wording as a version; renaming or relabelling it does not.
+ */
+export async function saveEmailTemplate(data: EmailTemplateInput, db: Queryable = client): Promise<string> {
+  const existing = data.id ? await getEmailTemplate(data.id, db) : null
+  if (!existing) {
+    const id = data.id || generateId()
+    await db.query(
+      `INSERT INTO email_template (id, name, kind, language, subject_template, body_template, version, created_at, updated_at)
+       VALUES ($1, $2, $3, $4, $5, $6, 1, current_timestamp, current_timestamp)`,
+      [id, data.name, data.kind, data.language, data.subjectTemplate, data.bodyTemplate]
+    )
+    return id
+  }
+
+  const reworded = existing.subjectTemplate !== data.subjectTemplate || existing.bodyTemplate !== data.bodyTemplate
+  if (reworded) {
+    await db.query(
+      `INSERT INTO email_template_version (id, template_id, version, subject_template, body_template, created_at)
+       VALUES ($1, $2, $3, $4, $5, current_timestamp)`,
+      [generateId(), existing.id, existing.version, existing.subjectTemplate, existing.bodyTemplate]
+    )
+  }
+  await db.query(
+    `UPDATE email_template
+     SET name = $2, kind = $3, language = $4, subject_template = $5, body_template = $6, version = $7, updated_at = current_timestamp
+     WHERE id = $1`,
+    [existing.id, data.name, data.kind, data.language, data.subjectTemplate, data.bodyTemplate, reworded ? existing.version + 1 : existing.version]
+  )
+  return existing.id
+}
+
+/**
+ * Remove a template. Rules that used it get its current wording back as
+ * their own, so they keep sending the same email.
+ */
+export async function deleteEmailTemplate(id: string, db: Queryable = client): Promise<void> {
+  await db.query(
+    `UPDATE automation_rule ar
+     SET subject_template = t.subject_template, body_template = t.body_template, email_template_id = NULL, updated_at = current_timestamp
+     FROM email_template t
+     WHERE t.id = ar.email_template_id AND t.id = $1`,
+    [id]
+  )
+  await db.query('DELETE FROM email_template WHERE id = $1', [id])
+}
+
+/** Earlier wordings of a template, newest first */
+export async function getEmailTemplateVersions(id: string, db: Queryable = client): Promise<EmailTemplateVersion[]> {
+  const res = await db.query(
+    'SELECT * FROM email_template_version WHERE template_id = $1 ORDER BY version DESC',
+    [id]
+  )
+  return res.rows.map((row: any) => ({
+    version: Number(row.version),
+    subjectTemplate: row.subject_template,
+    bodyTemplate: row.body_template,
+    replacedAt: row.created_at
+  }))
+}
+
+/** Bring back an earlier wording; it becomes a new version and the current one is kept */
+export async function restoreEmailTemplateVersion(id: string, version: number, db: Queryable = client): Promise<void> {
+  const template = await getEmailTemplate(id, db)
+  if (!template) {
+    throw new Error('Email template not found')
+  }
+  const res = await db.query(
+    'SELECT * FROM email_template_version WHERE template_id = $1 AND version = $2',
+    [id, version]
+  )
+  const row = res.rows[0] as any
+  if (!row) {
+    throw new Error(`Version ${version} not found`)
+  }
+  await saveEmailTemplate({
+    id,
+    name: template.name,
+    kind: template.kind,
+    language: template.language,
+    subjectTemplate: row.subject_template,
+    bodyTemplate: row.body_template
+  }, db)
+}
@@ -0,0 +1,246 @@
+import { client } from '@bills/db'
+import type { Queryable } from './invoice-lines'
+
+/**
+ * Invoice languages
+ *
+ * Labels printed on invoices in each supported language, and the locale used
+ * for numbers and dates. A client has a language (which dictionary its
+ * invoices and emails use) and optionally a locale overriding the language's
+ * default formats, e.g. English labels with US dates. Clients without a
+ * language get Catalan, as every invoice did before languages existed.
+ */
+
+export const INVOICE_LANGUAGES = ['ca', 'es', 'en', 'fr'] as const
+
+export type InvoiceLanguage = typeof INVOICE_LANGUAGES[number]
+
+export const DEFAULT_LANGUAGE: InvoiceLanguage = 'ca'
+
+// Number and date formats used when the client has no locale of its own
+const DEFAULT_LOCALES: Record<InvoiceLanguage, string> = {
+  ca: 'ca-ES',
+  es: 'es-ES',
+  en: 'en-GB',
+  fr: 'fr-FR'
+}
+
+export interface InvoiceLabels {
+  invoice: string
+  creditNote: string
+  quote: string
+  date: string
+  number: string
+  quoteNumber: string
+  validUntil: string
+  rectifies: string
+  rectifiedInvoice: (number: string, date: string) => string
+  reason: string
+  billTo: string
+  quoteTo: string
+  taxId: string
+  dueDate: string
+  description: string
+  quantity: string
+  unitPrice: string
+  discount: string
+  tax: string
+  amount: string
+  defaultDescription: string
+  taxableBase: string
+  taxes: string
+  total: string
+  notes: string
+  paymentTerms: string
+  refundTerms: string
+  quoteTerms: string
+  invoiceFor: (client: string) => string
+  quoteFor: (client: string) => string
+  page: (page: number, pages: number) => string
+  invoiceFile: (number: string) => string
+  quoteFile: (number: string) => string
+}
+
+const LABELS: Record<InvoiceLanguage, InvoiceLabels> = {
+  ca: {
+    invoice: 'FACTURA',
+    creditNote: 'FACTURA RECTIFICATIVA',
+    quote: 'PRESSUPOST',
+    date: 'DATA:',
+    number: 'N.º DE FACTURA:',
+    quoteNumber: 'N.º DE PRESSUPOST:',
+    validUntil: 'VÀLID FINS:',
+    rectifies: 'RECTIFICA:',
+    rectifiedInvoice: (number, date) => `Factura n.º ${number} de ${date}`,
+    reason: 'MOTIU:',
+    billTo: 'FACTURAR A:',
+    quoteTo: 'CLIENT:',
+    taxId: 'NIF',
+    dueDate: 'VENCIMENT:',
+    description: 'DESCRIPCIÓ',
+    quantity: 'QUANT.',
+    unitPrice: 'PREU UNIT.',
+    discount: 'DTE.',
+    tax: 'IMP.',
+    amount: 'IMPORT',
+    defaultDescription: 'Serveis professionals',
+    taxableBase: 'BASE IMPOSABLE',
+    taxes: 'IMPOSTOS',
+    total: 'TOTAL',
+    notes: 'Observacions',
+    paymentTerms: 'A pagar en 30 dies',
+    refundTerms: 'Import a retornar o compensar',
+    quoteTerms: 'Pressupost sense valor de factura',
+    invoiceFor: (client) => `Factura per a ${client}`,
+    quoteFor: (client) => `Pressupost per a ${client}`,
+    page: (page, pages) => `Pàgina ${page} de ${pages}`,
+    invoiceFile: (number) => `Factura-${number}.pdf`,
+    quoteFile: (number) => `Pressupost-${number}.pdf`
+  },
+  es: {
+    invoice: 'FACTURA',
+    creditNote: 'FACTURA RECTIFICATIVA',
+    quote: 'PRESUPUESTO',
+    date: 'FECHA:',
+    number: 'N.º DE FACTURA:',
+    quoteNumber: 'N.º DE PRESUPUESTO:',
+    validUntil: 'VÁLIDO HASTA:',
+    rectifies: 'RECTIFICA:',
+    rectifiedInvoice: (number, date) => `Factura n.º ${number} del ${date}`,
+    reason: 'MOTIVO:',
+    billTo: 'FACTURAR A:',
+    quoteTo: 'CLIENTE:',
+    taxId: 'NIF',
+    dueDate: 'VENCIMIENTO:',
+    description: 'DESCRIPCIÓN',
+    quantity: 'CANT.',
+    unitPrice: 'PRECIO UNIT.',
+    discount: 'DTO.',
+    tax: 'IMP.',
+    amount: 'IMPORTE',
+    defaultDescription: 'Servicios profesionales',
+    taxableBase: 'BASE IMPONIBLE',
+    taxes: 'IMPUESTOS',
+    total: 'TOTAL',
+    notes: 'Observaciones',
+    paymentTerms: 'A pagar en 30 días',
+    refundTerms: 'Importe a devolver o compensar',
+    quoteTerms: 'Presupuesto sin valor de factura',
+    invoiceFor: (client) => `Factura para ${client}`,
+    quoteFor: (client) => `Presupuesto para ${client}`,
+    page: (page, pages) => `Página ${page} de ${pages}`,
+    invoiceFile: (number) => `Factura-${number}.pdf`,
+    quoteFile: (number) => `Presupuesto-${number}.pdf`
+  },
+  en: {
+    invoice: 'INVOICE',
+    creditNote: 'CREDIT NOTE',
+    quote: 'QUOTE',
+    date: 'DATE:',
+    number: 'INVOICE NO.:',
+    quoteNumber: 'QUOTE NO.:',
+    validUntil: 'VALID UNTIL:',
+    rectifies: 'CORRECTS:',
+    rectifiedInvoice: (number, date) => `Invoice no. ${number} of ${date}`,
+    reason: 'REASON:',
+    billTo: 'BILL TO:',
+    quoteTo: 'PREPARED FOR:',
+    taxId: 'Tax ID',
+    dueDate: 'DUE DATE:',
+    description: 'DESCRIPTION',
+    quantity: 'QTY',
+    unitPrice: 'UNIT PRICE',
+    discount: 'DISC.',
+    tax: 'TAX',
+    amount: 'AMOUNT',
+    defaultDescription: 'Professional services',
+    taxableBase: 'SUBTOTAL',
+    taxes: 'TAXES',
+    total: 'TOTAL',
+    notes: 'Notes',
+    paymentTerms: 'Payable within 30 days',
+    refundTerms: 'Amount to be refunded or offset',
+    quoteTerms: 'This quote is not an invoice',
+    invoiceFor: (client) => `Invoice for ${client}`,
+    quoteFor: (client) => `Quote for ${client}`,
+    page: (page, pages) => `Page ${page} of ${pages}`,
+    invoiceFile: (number) => `Invoice-${number}.pdf`,
+    quoteFile: (number) => `Quote-${number}.pdf`
+  },
+  fr: {
+    invoice: 'FACTURE',
+    creditNote: 'FACTURE D’AVOIR',
+    quote: 'DEVIS',
+    date: 'DATE :',
+    number: 'N° DE FACTURE :',
+    quoteNumber: 'N° DE DEVIS :',
+    validUntil: 'VALABLE JUSQU’AU :',
+    rectifies: 'RECTIFIE :',
+    rectifiedInvoice: (number, date) => `Facture n° ${number} du ${date}`,
+    reason: 'MOTIF :',
+    billTo: 'FACTURER À :',
+    quoteTo: 'CLIENT :',
+    taxId: 'N° TVA',
+    dueDate: 'ÉCHÉANCE :',
+    description: 'DÉSIGNATION',
+    quantity: 'QTÉ',
+    unitPrice: 'PRIX UNIT.',
+    discount: 'REM.',
+    tax: 'TVA',
+    amount: 'MONTANT',
+    defaultDescription: 'Prestations de services',
+    taxableBase: 'TOTAL HT',
+    taxes: 'TAXES',
+    total: 'TOTAL',
+    notes: 'Observations',
+    paymentTerms: 'Payable sous 30 jours',
+    refundTerms: 'Montant à rembourser ou à compenser',
+    quoteTerms: 'Ce devis ne vaut pas facture',
+    invoiceFor: (client) => `Facture pour ${client}`,
+    quoteFor: (client) => `Devis pour ${client}`,
+    page: (page, pages) => `Page ${page} sur ${pages}`,
+    invoiceFile: (number) => `Facture-${number}.pdf`,
+    quoteFile: (number) => `Devis-${number}.pdf`
+  }
+}
+
+/** The language a stored value refers to; unknown or empty values fall back to the default */
+export function toInvoiceLanguage(value: unknown): InvoiceLanguage {
+  const language = typeof value === 'string' ? value.slice(0, 2).toLowerCase() : ''
+  return (INVOICE_LANGUAGES as readonly string[]).includes(language) ? language as InvoiceLanguage : DEFAULT_LANGUAGE
+}
+
+export function invoiceLabels(language?: string | null): InvoiceLabels {
+  return LABELS[toInvoiceLanguage(language)]
+}
+
+/** Locale for numbers and dates: the client's own, else its language's default */
+export function resolveLocale(language?: string | null, locale?: string | null): string {
+  return locale || DEFAULT_LOCALES[toInvoiceLanguage(language)]
+}
+
+/**
+ * Locale for a client's emails. A client that was given a language or locale
+ * gets its own formats; otherwise the email keeps those of its template's
+ * language (`fallback`), and the default without one.
+ */
+export function emailLocale(language?: string | null, locale?: string | null, fallback?: string | null): string {
+  return language || locale ? resolveLocale(language, locale) : fallback || resolveLocale()
+}
+
+export interface ClientLanguage {
+  language: InvoiceLanguage
+  locale: string
+}
+
+/**
+ * Language and formats of a client, found by id or else by name (invoices
+ * typed by hand only name their client); the defaults if it isn't found.
+ */
+export async function getClientLanguage(ref: { id?: string | null; name?: string | null }, db: Queryable = client): Promise<ClientLanguage> {
+  const res = ref.id
+    ? await db.query('SELECT language, locale FROM client WHERE id = $1', [ref.id])
+    : await db.query('SELECT language, locale FROM client WHERE name = $1 LIMIT 1', [ref.name ?? ''])
+  const row = res.rows[0] as any
+  return { language: toInvoiceLanguage(row?.language), locale: resolveLocale(row?.language, row?.locale) }
+}
@@ -4,7 +4,7 @@ import { promises as fs } from 'node:fs'
 import { is } from '@electron-toolkit/utils'
 import { initDb } from '@bills/db'
 import './ipc'
-import { startAutomationScheduler, stopAutomationScheduler } from './automation-scheduler'
+import { runStartupCatchUp, startAutomationScheduler, stopAutomationScheduler } from './automation-scheduler'
 
 function createWindow(): void {
   // Create the browser window.
@@ -65,8 +65,9 @@ app.whenReady().then(async () => {
     await initDb()
     console.log('✅ Database initialized successfully')
     
-    // Start automation scheduler
+    // Start automation scheduler and catch up on anything missed while the app was closed
     startAutomationScheduler()
+    runStartupCatchUp()
   } catch (error) {
     console.error('❌ Database initialization failed:', error)
     // Don't prevent app from starting - user can reconfigure if needed
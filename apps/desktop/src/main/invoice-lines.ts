@@ -0,0 +1,293 @@
+import { z } from 'zod'
+import { client } from '@bills/db'
+import { generateId } from './ipc/utils'
+import type { InvoiceItem } from './pdf'
+import { TaxSummary, computeLineAmounts, getTaxRates, resolveLineTaxes, summarizeTaxes, taxSummaryFromRow } from './tax'
+import { convertInvoice } from './currency'
+
+/**
+ * Invoice line items
+ *
+ * Lines are the source of truth for an invoice's amount: every mutation
+ * recomputes the line amounts and writes the resulting totals and tax
+ * breakdown back to `invoice` (with the amount in the base currency), so
+ * lists, stats and PDFs keep reading a single `amount` column.
+ */
+
+const decimalString = z.string().refine(v => v.trim() !== '' && !isNaN(Number(v)), {
+  message: 'Invalid number'
+})
+
+export const invoiceLineInputSchema = z.object({
+  id: z.string().optional(),
+  description: z.string().min(1),
+  quantity: decimalString.default('1'),
+  unit: z.string().optional().nullable(),
+  unitPrice: decimalString,
+  discount: decimalString.optional().nullable(), // percentage
+  taxRateId: z.string().optional().nullable() // null inherits the invoice's tax rate
+})
+
+export type InvoiceLineInput = z.infer<typeof invoiceLineInputSchema>
+
+// A line whose tax percentage has been resolved from its rate or the invoice's
+export type ResolvedLineInput = InvoiceLineInput & { taxRate: string }
+
+export interface InvoiceLine {
+  id: string
+  invoiceId: string
+  position: number
+  description: string
+  quantity: string
+  unit: string | null
+  unitPrice: string
+  discount: string
+  taxRate: string
+  taxRateId: string | null
+  amount: string
+  taxAmount: string
+}
+
+// Anything with a PGlite-compatible query method (the shared client or a transaction)
+export interface Queryable {
+  query: (query: string, params?: any[]) => Promise<{ rows: any[] }>
+}
+
+/** Single-line fallback for callers that only know a description and an amount */
+export function linesFromAmount(description: string | null | undefined, amount: string): InvoiceLineInput[] {
+  return [{
+    description: description || 'Serveis professionals',
+    quantity: '1',
+    unitPrice: amount
+  }]
+}
+
+/** Lines (stored or not yet saved) in the shape expected by generateInvoicePdf */
+export function toInvoiceItems(lines: ResolvedLineInput[]): InvoiceItem[] {
+  return lines.map(line => ({
+    description: line.description,
+    quantity: line.quantity,
+    unit: line.unit || null,
+    unitPrice: line.unitPrice,
+    discount: line.discount || '0',
+    taxRate: line.taxRate || '0',
+    ...computeLineAmounts(line)
+  }))
+}
+
+function mapLineRow(row: any): InvoiceLine {
+  return {
+    id: row.id,
+    invoiceId: row.invoice_id,
+    position: row.position,
+    description: row.description,
+    quantity: String(row.quantity),
+    unit: row.unit,
+    unitPrice: String(row.unit_price),
+    discount: String(row.discount ?? '0'),
+    taxRate: String(row.tax_rate ?? '0'),
+    taxRateId: row.tax_rate_id ?? null,
+    amount: String(row.amount),
+    taxAmount: String(row.tax_amount ?? '0')
+  }
+}
+
+export async function getInvoiceLines(invoiceId: string, db: Queryable = client): Promise<InvoiceLine[]> {
+  const res = await db.query(
+    'SELECT * FROM invoice_line WHERE invoice_id = $1 ORDER BY position, created_at',
+    [invoiceId]
+  )
+  return res.rows.map(mapLineRow)
+}
+
+/** Totals and tax breakdown as last stored on the invoice */
+export async function getInvoiceTaxSummary(invoiceId: string, db: Queryable = client): Promise<TaxSummary> {
+  const res = await db.query(
+    'SELECT amount, subtotal, tax_amount, withholding_amount, tax_breakdown FROM invoice WHERE id = $1',
+    [invoiceId]
+  )
+  const row = res.rows[0]
+  if (!row) {
+    throw new Error('Invoice not found')
+  }
+  return taxSummaryFromRow(row)
+}
+
+// Take each line's percentage from its own tax rate or the invoice's rate
+async function resolveForInvoice(db: Queryable, invoiceId: string, lines: InvoiceLineInput[]): Promise<ResolvedLineInput[]> {
+  const res = await db.query('SELECT tax_rate_id FROM invoice WHERE id = $1', [invoiceId])
+  const invoiceTaxRateId = (res.rows[0] as any)?.tax_rate_id as string | null | undefined
+  return resolveLineTaxes(lines, await getTaxRates(db), invoiceTaxRateId)
+}
+
+async function insertLine(db: Queryable, invoiceId: string, position: number, line: ResolvedLineInput): Promise<void> {
+  const { amount, taxAmount } = computeLineAmounts(line)
+  await db.query(
+    `INSERT INTO invoice_line (id, invoice_id, position, description, quantity, unit, unit_price, discount, tax_rate, tax_rate_id, amount, tax_amount, created_at, updated_at)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, current_timestamp, current_timestamp)`,
+    [generateId(), invoiceId, position, line.description, line.quantity, line.unit || null, line.unitPrice, line.discount || '0', line.taxRate || '0', line.taxRateId || null, amount, taxAmount]
+  )
+}
+
+// Rewrite a kept line in place, so what it bills stays linked to it
+async function rewriteLine(db: Queryable, lineId: string, position: number, line: ResolvedLineInput): Promise<void> {
+  const { amount, taxAmount } = computeLineAmounts(line)
+  await db.query(
+    `UPDATE invoice_line
+     SET position=$1, description=$2, quantity=$3, unit=$4, unit_price=$5, discount=$6, tax_rate=$7, tax_rate_id=$8, amount=$9, tax_amount=$10, updated_at=current_timestamp
+     WHERE id=$11`,
+    [position, line.description, line.quantity, line.unit || null, line.unitPrice, line.discount || '0', line.taxRate || '0', line.taxRateId || null, amount, taxAmount, lineId]
+  )
+}
+
+// Hours and expenses billed on lines about to be removed are no longer billed
+async function releaseLines(db: Queryable, lineIds: string[]): Promise<void> {
+  if (lineIds.length === 0) return
+  for (const table of ['time_entry', 'expense']) {
+    await db.query(
+      `UPDATE ${table} SET invoice_id = NULL, invoice_line_id = NULL, updated_at = current_timestamp
+       WHERE invoice_line_id = ANY($1)`,
+      [lineIds]
+    )
+  }
+}
+
+/** Leave everything billed on an invoice unbilled again, for drafts that are cancelled */
+export async function releaseInvoice(invoiceId: string, db: Queryable = client): Promise<void> {
+  for (const table of ['time_entry', 'expense']) {
+    await db.query(
+      `UPDATE ${table} SET invoice_id = NULL, invoice_line_id = NULL, updated_at = current_timestamp
+       WHERE invoice_id = $1`,
+      [invoiceId]
+    )
+  }
+}
+
+/**
+ * Only drafts have their lines and taxes changed: issued invoices are
+ * corrected with credit notes, whose amounts come from the credited invoice.
+ */
+export async function assertLinesEditable(invoiceId: string, db: Queryable = client): Promise<void> {
+  const res = await db.query('SELECT number, status, kind FROM invoice WHERE id = $1', [invoiceId])
+  const invoice = res.rows[0] as any
+  if (!invoice) {
+    throw new Error('Invoice not found')
+  }
+  if (invoice.kind === 'CREDIT_NOTE') {
+    throw new Error('The lines and taxes of a credit note cannot be edited')
+  }
+  if (invoice.status !== 'DRAFT') {
+    throw new Error(invoice.status === 'CANCELLED'
+      ? `Invoice ${invoice.number} is cancelled and cannot be edited`
+      : `Invoice ${invoice.number} has been issued; correct it with a credit note`)
+  }
+}
+
+/** Recompute the invoice totals and tax breakdown from its stored lines */
+export async function refreshInvoiceTotals(invoiceId: string, db: Queryable = client): Promise<TaxSummary> {
+  const lines = await getInvoiceLines(invoiceId, db)
+  const res = await db.query('SELECT tax_rate_id, withholding_rate_id FROM invoice WHERE id = $1', [invoiceId])
+  const row = res.rows[0] as any
+  const summary = summarizeTaxes(lines, await getTaxRates(db), row?.tax_rate_id, row?.withholding_rate_id)
+  await db.query(
+    `UPDATE invoice
+     SET amount = $1, subtotal = $2, tax_amount = $3, withholding_amount = $4, tax_breakdown = $5, updated_at = current_timestamp
+     WHERE id = $6`,
+    [summary.total, summary.subtotal, summary.taxAmount, summary.withholdingAmount, JSON.stringify(summary.breakdown), invoiceId]
+  )
+  await convertInvoice(invoiceId, db)
+  return summary
+}
+
+/** Replace every line of an invoice, keeping the given order, and update its totals */
+export async function replaceInvoiceLines(invoiceId: string, lines: InvoiceLineInput[], db: Queryable = client): Promise<TaxSummary> {
+  return storeResolvedLines(invoiceId, await resolveForInvoice(db, invoiceId, lines), db)
+}
+
+/**
+ * Like replaceInvoiceLines, but keeps the given tax percentages instead of
+ * resolving them again (credit notes copy the rates of the original invoice).
+ * Lines given with the id of one of the invoice's lines are rewritten in
+ * place; the lines left out are removed and what they billed is unbilled.
+ */
+export async function storeResolvedLines(invoiceId: string, lines: ResolvedLineInput[], db: Queryable = client): Promise<TaxSummary> {
+  const existing = await db.query('SELECT id FROM invoice_line WHERE invoice_id = $1', [invoiceId])
+  const existingIds = new Set(existing.rows.map((row: any) => row.id as string))
+  const keptIds = new Set<string>()
+  const keep = lines.map(line => {
+    const kept = !!line.id && existingIds.has(line.id) && !keptIds.has(line.id)
+    if (kept) keptIds.add(line.id as string)
+    return kept
+  })
+  const removedIds = [...existingIds].filter(id => !keptIds.has(id))
+  await releaseLines(db, removedIds)
+  await db.query('DELETE FROM invoice_line WHERE id = ANY($1)', [removedIds])
+  for (let i = 0; i < lines.length; i++) {
+    if (keep[i]) {
+      await rewriteLine(db, lines[i].id as string, i, lines[i])
+    } else {
+      await insertLine(db, invoiceId, i, lines[i])
+    }
+  }
+  return refreshInvoiceTotals(invoiceId, db)
+}
+
+/** Append a line at the end of an invoice */
+export async function addInvoiceLine(invoiceId: string, line: InvoiceLineInput, db: Queryable = client): Promise<TaxSummary> {
+  await assertLinesEditable(invoiceId, db)
+  const [resolved] = await resolveForInvoice(db, invoiceId, [line])
+  const res = await db.query(
+    'SELECT COALESCE(MAX(position), -1) + 1 AS next FROM invoice_line WHERE invoice_id = $1',
+    [invoiceId]
+  )
+  await insertLine(db, invoiceId, Number((res.rows[0] as any)?.next ?? 0), resolved)
+  return refreshInvoiceTotals(invoiceId, db)
+}
+
+/** Update a single line in place; returns the owning invoice id and new totals */
+export async function updateInvoiceLine(lineId: string, line: InvoiceLineInput, db: Queryable = client): Promise<{ invoiceId: string; totals: TaxSummary }> {
+  const existing = await db.query('SELECT invoice_id FROM invoice_line WHERE id = $1', [lineId])
+  const invoiceId = (existing.rows[0] as any)?.invoice_id as string | undefined
+  if (!invoiceId) {
+    throw new Error('Invoice line not found')
+  }
+  await assertLinesEditable(invoiceId, db)
+  const [resolved] = await resolveForInvoice(db, invoiceId, [line])
+  const { amount, taxAmount } = computeLineAmounts(resolved)
+  await db.query(
+    `UPDATE invoice_line
+     SET description=$1, quantity=$2, unit=$3, unit_price=$4, discount=$5, tax_rate=$6, tax_rate_id=$7, amount=$8, tax_amount=$9, updated_at=current_timestamp
+     WHERE id=$10`,
+    [resolved.description, resolved.quantity, resolved.unit || null, resolved.unitPrice, resolved.discount || '0', resolved.taxRate || '0', resolved.taxRateId || null, amount, taxAmount, lineId]
+  )
+  return { invoiceId, totals: await refreshInvoiceTotals(invoiceId, db) }
+}
+
+/** Delete a single line; returns the owning invoice id and new totals */
+export async function deleteInvoiceLine(lineId: string, db: Queryable = client): Promise<{ invoiceId: string; totals: TaxSummary }> {
+  const existing = await db.query('SELECT invoice_id FROM invoice_line WHERE id = $1', [lineId])
+  const invoiceId = (existing.rows[0] as any)?.invoice_id as string | undefined
+  if (!invoiceId) {
+    throw new Error('Invoice line not found')
+  }
+  await assertLinesEditable(invoiceId, db)
+  await releaseLines(db, [lineId])
+  await db.query('DELETE FROM invoice_line WHERE id = $1', [lineId])
+  return { invoiceId, totals: await refreshInvoiceTotals(invoiceId, db) }
+}
+
+/** Reorder lines; lineIds must contain every line of the invoice exactly once */
+export async function reorderInvoiceLines(invoiceId: string, lineIds: string[], db: Queryable = client): Promise<void> {
+  await assertLinesEditable(invoiceId, db)
+  const current = await getInvoiceLines(invoiceId, db)
+  const currentIds = new Set(current.map(l => l.id))
+  if (lineIds.length !== current.length || new Set(lineIds).size !== lineIds.length || !lineIds.every(id => currentIds.has(id))) {
+    throw new Error('Line order must include every line of the invoice exactly once')
+  }
+  for (let i = 0; i < lineIds.length; i++) {
+    await db.query(
+      'UPDATE invoice_line SET position = $1, updated_at = current_timestamp WHERE id = $2 AND invoice_id = $3',
+      [i, lineIds[i], invoiceId]
+    )
+  }
+}
@@ -3,10 +3,18 @@ import './ipc/settings'
 import './ipc/auth'
 import './ipc/ai'
 import './ipc/bills'
+import './ipc/quotes'
+import './ipc/time'
+import './ipc/projects'
+import './ipc/numbering'
+import './ipc/currency'
+import './ipc/payments'
+import './ipc/reminders'
 import './ipc/expenses'
 import './ipc/data'
 import './ipc/clients'
 import './ipc/system'
 import './ipc/email'
+import './ipc/templates'
 import './ipc/automation'
 import './ipc/sync'
\ No newline at end of file
@@ -2,6 +2,17 @@ import { ipcMain } from 'electron'
 import { z } from 'zod'
 import { client } from '@bills/db'
 import { generateId } from './utils'
+import { addDays, advanceAutomationRule, nextOccurrence, recurrenceFromRow } from '../recurrence'
+import { claimRun, completeRun, countRunsAwaitingApproval, getLastRunPeriod, getRunsAwaitingApproval, getRunsNeedingAttention, skipRun } from '../automation-runs'
+import { confirmAutomationRun, previewAutomationRule, simulateAutomationRule } from '../automation-scheduler'
+import { templateProblems } from '../templates'
+
+const dateString = z.string().regex(/^\d{4}-\d{2}-\d{2}$/)
+
+// PGlite returns `date` columns as Date objects
+function toDateString(value: unknown): string {
+  return value instanceof Date ? value.toISOString().slice(0, 10) : String(value)
+}
 
 const automationRuleSchema = z.object({
   clientId: z.string().min(1),
@@ -12,7 +23,17 @@ const automationRuleSchema = z.object({
   description: z.string().min(1),
   subjectTemplate: z.string().min(1),
   bodyTemplate: z.string().min(1),
+  emailTemplateId: z.string().nullable().optional(), // Library template used instead of the wording above
   ccEmails: z.array(z.string().email()).optional(),
+  frequency: z.enum(['WEEKLY', 'MONTHLY', 'YEARLY']).default('MONTHLY'),
+  interval: z.number().int().min(1).max(60).default(1),
+  weekday: z.number().int().min(0).max(6).nullable().optional(),
+  monthOfYear: z.number().int().min(1).max(12).nullable().optional(),
+  lastBusinessDay: z.boolean().default(false),
+  startDate: dateString.nullable().optional(),
+  endDate: dateString.nullable().optional(),
+  maxOccurrences: z.number().int().min(1).nullable().optional(),
+  requireApproval: z.boolean().default(false),
   isActive: z.boolean().default(true)
 })
 
@@ -20,6 +41,48 @@ const updateAutomationRuleSchema = automationRuleSchema.extend({
   id: z.string().min(1)
 })
 
+type AutomationRuleInput = z.infer<typeof automationRuleSchema>
+
+const previewRuleSchema = z.object({
+  ruleId: z.string().min(1),
+  date: dateString.optional()
+})
+
+// Typos and syntax errors in the email templates, reported before the rule is saved
+function invalidTemplateError(parsed: AutomationRuleInput) {
+  const problems = templateProblems({ Subject: parsed.subjectTemplate, Body: parsed.bodyTemplate })
+  return problems.length > 0 ? { error: { code: 'INVALID_TEMPLATE', message: problems.join('; ') } } : null
+}
+
+// Recurrence columns in the order used by the INSERT and UPDATE below
+function recurrenceParams(parsed: AutomationRuleInput, startDate: string) {
+  return [
+    parsed.frequency,
+    parsed.interval,
+    parsed.weekday ?? null,
+    parsed.monthOfYear ?? null,
+    parsed.lastBusinessDay,
+    startDate,
+    parsed.endDate ?? null,
+    parsed.maxOccurrences ?? null
+  ]
+}
+
+// First occurrence from `from` on, given how many invoices the rule already produced
+function firstDueDate(parsed: AutomationRuleInput, startDate: string, from: string, occurrenceCount: number): string | null {
+  return nextOccurrence({
+    frequency: parsed.frequency,
+    interval: parsed.interval,
+    dayOfMonth: parsed.dayOfMonth,
+    weekday: parsed.weekday ?? null,
+    monthOfYear: parsed.monthOfYear ?? null,
+    lastBusinessDay: parsed.lastBusinessDay,
+    startDate,
+    endDate: parsed.endDate ?? null,
+    maxOccurrences: parsed.maxOccurrences ?? null
+  }, from, occurrenceCount)
+}
+
 
 // Get all automation rules
 ipcMain.handle('automation:getRules', async () => {
@@ -35,7 +98,19 @@ ipcMain.handle('automation:getRules', async () => {
         ar.description,
         ar.subject_template,
         ar.body_template,
+        ar.email_template_id,
+        et.name as email_template_name,
         ar.cc_emails,
+        ar.frequency,
+        ar.interval_count,
+        ar.weekday,
+        ar.month_of_year,
+        ar.last_business_day,
+        ar.start_date,
+        ar.end_date,
+        ar.max_occurrences,
+        ar.occurrence_count,
+        ar.require_approval,
         ar.is_active,
         ar.last_sent_date,
         ar.next_due_date,
@@ -45,6 +120,7 @@ ipcMain.handle('automation:getRules', async () => {
         c.email as client_email
       FROM automation_rule ar
       LEFT JOIN client c ON ar.client_id = c.id
+      LEFT JOIN email_template et ON ar.email_template_id = et.id
       ORDER BY ar.created_at DESC
     `)
     
@@ -56,6 +132,7 @@ ipcMain.handle('automation:getRules', async () => {
         } catch {
           ccEmails = undefined
         }
+        const recurrence = recurrenceFromRow(row)
         
         return {
           id: row.id,
@@ -69,7 +146,19 @@ ipcMain.handle('automation:getRules', async () => {
           description: row.description,
           subjectTemplate: row.subject_template,
           bodyTemplate: row.body_template,
+          emailTemplateId: row.email_template_id ?? null,
+          emailTemplateName: row.email_template_name ?? null,
           ccEmails,
+          frequency: recurrence.frequency,
+          interval: recurrence.interval,
+          weekday: recurrence.weekday,
+          monthOfYear: recurrence.monthOfYear,
+          lastBusinessDay: recurrence.lastBusinessDay,
+          startDate: recurrence.startDate,
+          endDate: recurrence.endDate,
+          maxOccurrences: recurrence.maxOccurrences,
+          occurrenceCount: Number(row.occurrence_count) || 0,
+          requireApproval: !!row.require_approval,
           isActive: row.is_active,
           lastSentDate: row.last_sent_date,
           nextDueDate: row.next_due_date,
@@ -87,14 +176,14 @@ ipcMain.handle('automation:getRules', async () => {
 ipcMain.handle('automation:createRule', async (_, data: unknown) => {
   try {
     const parsed = automationRuleSchema.parse(data)
+    const invalid = invalidTemplateError(parsed)
+    if (invalid) return invalid
     const id = generateId()
     
-    // Calculate next due date
-    const now = new Date()
-    const nextDue = new Date(now.getFullYear(), now.getMonth(), parsed.dayOfMonth)
-    if (nextDue <= now) {
-      nextDue.setMonth(nextDue.getMonth() + 1)
-    }
+    // Calculate next due date: the first occurrence from today on
+    const today = new Date().toISOString().split('T')[0]
+    const startDate = parsed.startDate || today
+    const nextDue = firstDueDate(parsed, startDate, today, 0)
     
     const ccEmailsJson = parsed.ccEmails ? JSON.stringify(parsed.ccEmails) : null
     
@@ -102,8 +191,10 @@ ipcMain.handle('automation:createRule', async (_, data: unknown) => {
       INSERT INTO automation_rule (
         id, client_id, name, day_of_month, amount, currency, 
         description, subject_template, body_template, cc_emails, is_active, 
-        next_due_date, created_at, updated_at
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $13)
+        next_due_date, created_at, updated_at,
+        frequency, interval_count, weekday, month_of_year, last_business_day, start_date, end_date, max_occurrences,
+        require_approval, email_template_id
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $13, $14, $15, $16, $17, $18, $19, $20, $21, $22, $23)
     `, [
       id,
       parsed.clientId,
@@ -116,8 +207,11 @@ ipcMain.handle('automation:createRule', async (_, data: unknown) => {
       parsed.bodyTemplate,
       ccEmailsJson,
       parsed.isActive,
-      nextDue.toISOString().split('T')[0],
-      new Date().toISOString()
+      nextDue,
+      new Date().toISOString(),
+      ...recurrenceParams(parsed, startDate),
+      parsed.requireApproval,
+      parsed.emailTemplateId || null
     ])
     
     return { id }
@@ -133,14 +227,26 @@ ipcMain.handle('automation:createRule', async (_, data: unknown) => {
 ipcMain.handle('automation:updateRule', async (_, data: unknown) => {
   try {
     const parsed = updateAutomationRuleSchema.parse(data)
+    const invalid = invalidTemplateError(parsed)
+    if (invalid) return invalid
     
-    // Calculate next due date if day of month changed
-    const now = new Date()
-    const nextDue = new Date(now.getFullYear(), now.getMonth(), parsed.dayOfMonth)
-    if (nextDue <= now) {
-      nextDue.setMonth(nextDue.getMonth() + 1)
+    const existing = await client.query('SELECT start_date, last_sent_date, occurrence_count FROM automation_rule WHERE id = $1', [parsed.id])
+    const current = existing.rows[0] as any
+    if (!current) {
+      return { error: { code: 'RULE_NOT_FOUND', message: 'Automation rule not found' } }
     }
     
+    // Recalculate next due date from the day after the last period in the run
+    // ledger: no period is scheduled twice and none still unclaimed is dropped
+    const today = new Date().toISOString().split('T')[0]
+    const lastPeriod = await getLastRunPeriod(parsed.id)
+    const lastSent = current.last_sent_date ? toDateString(current.last_sent_date) : null
+    const from = lastPeriod
+      ? addDays(lastPeriod, 1)
+      : lastSent && lastSent >= today ? addDays(lastSent, 1) : today
+    const startDate = parsed.startDate || (current.start_date ? toDateString(current.start_date) : today)
+    const nextDue = firstDueDate(parsed, startDate, from, Number(current.occurrence_count) || 0)
+    
     const ccEmailsJson = parsed.ccEmails ? JSON.stringify(parsed.ccEmails) : null
     
     await client.query(`
@@ -157,7 +263,17 @@ ipcMain.handle('automation:updateRule', async (_, data: unknown) => {
         cc_emails = $10,
         is_active = $11,
         next_due_date = $12,
-        updated_at = $13
+        updated_at = $13,
+        frequency = $14,
+        interval_count = $15,
+        weekday = $16,
+        month_of_year = $17,
+        last_business_day = $18,
+        start_date = $19,
+        end_date = $20,
+        max_occurrences = $21,
+        require_approval = $22,
+        email_template_id = $23
       WHERE id = $1
     `, [
       parsed.id,
@@ -171,8 +287,11 @@ ipcMain.handle('automation:updateRule', async (_, data: unknown) => {
       parsed.bodyTemplate,
       ccEmailsJson,
       parsed.isActive,
-      nextDue.toISOString().split('T')[0],
-      new Date().toISOString()
+      nextDue,
+      new Date().toISOString(),
+      ...recurrenceParams(parsed, startDate),
+      parsed.requireApproval,
+      parsed.emailTemplateId || null
     ])
     
     return { success: true }
@@ -223,13 +342,14 @@ ipcMain.handle('automation:getDueRules', async () => {
         ar.amount,
         ar.currency,
         ar.description,
-        ar.subject_template,
-        ar.body_template,
+        COALESCE(et.subject_template, ar.subject_template) AS subject_template,
+        COALESCE(et.body_template, ar.body_template) AS body_template,
         ar.cc_emails,
         c.name as client_name,
         c.email as client_email
       FROM automation_rule ar
       LEFT JOIN client c ON ar.client_id = c.id
+      LEFT JOIN email_template et ON ar.email_template_id = et.id
       WHERE ar.is_active = true 
         AND ar.next_due_date <= $1
         AND c.email IS NOT NULL
@@ -266,34 +386,121 @@ ipcMain.handle('automation:getDueRules', async () => {
   }
 })
 
-// Mark automation rule as processed
+// Mark automation rule as processed: record its current period in the run ledger and move to the next one
 ipcMain.handle('automation:markRuleProcessed', async (_, ruleId: string, invoiceId?: string) => {
   try {
-    const today = new Date().toISOString().split('T')[0]
-    
-    // Get the rule to calculate next due date
-    const ruleResult = await client.query('SELECT day_of_month FROM automation_rule WHERE id = $1', [ruleId])
-    if (ruleResult.rows.length === 0) {
+    const ruleResult = await client.query('SELECT next_due_date FROM automation_rule WHERE id = $1', [ruleId])
+    const rule = ruleResult.rows[0] as any
+    if (!rule) {
       return { error: { code: 'RULE_NOT_FOUND', message: 'Automation rule not found' } }
     }
+    if (!rule.next_due_date) {
+      return { error: { code: 'RULE_FINISHED', message: 'Automation rule has no period left to process' } }
+    }
     
-    const dayOfMonth = (ruleResult.rows[0] as any).day_of_month
-    
-    // Calculate next due date (next month, same day)
-    const now = new Date()
-    const nextDue = new Date(now.getFullYear(), now.getMonth() + 1, dayOfMonth)
-    
-    await client.query(`
-      UPDATE automation_rule 
-      SET 
-        last_sent_date = $2,
-        next_due_date = $3,
-        updated_at = $4
-      WHERE id = $1
-    `, [ruleId, today, nextDue.toISOString().split('T')[0], new Date().toISOString()])
+    const scheduled = toDateString(rule.next_due_date)
+    const runId = await claimRun(ruleId, scheduled, 'PROCESSING')
+    if (runId) {
+      await completeRun(runId, invoiceId ?? null)
+    }
+    const nextDueDate = await advanceAutomationRule(ruleId, scheduled, runId !== null)
     
-    return { success: true }
+    return { success: true, nextDueDate }
   } catch (error) {
     return { error: { code: 'MARK_RULE_PROCESSED_ERROR', message: error instanceof Error ? error.message : 'Unknown error' } }
   }
 })
+
+// Late and failed runs waiting for confirmation
+ipcMain.handle('automation:getPendingRuns', async () => {
+  try {
+    return { runs: await getRunsNeedingAttention() }
+  } catch (error) {
+    return { error: { code: 'GET_PENDING_RUNS_ERROR', message: error instanceof Error ? error.message : 'Unknown error' } }
+  }
+})
+
+// Invoice a late or failed run now
+ipcMain.handle('automation:confirmRun', async (_, runId: string) => {
+  try {
+    const result = await confirmAutomationRun(runId)
+    if (!result.success) {
+      return { error: { code: 'CONFIRM_RUN_ERROR', message: result.error || 'Failed to process the run' } }
+    }
+    return { success: true, invoiceId: result.invoiceId, awaitingApproval: result.awaitingApproval }
+  } catch (error) {
+    return { error: { code: 'CONFIRM_RUN_ERROR', message: error instanceof Error ? error.message : 'Unknown error' } }
+  }
+})
+
+// Skip a late or failed run; its period won't be invoiced
+ipcMain.handle('automation:skipRun', async (_, runId: string) => {
+  try {
+    await skipRun(runId)
+    return { success: true }
+  } catch (error) {
+    return { error: { code: 'SKIP_RUN_ERROR', message: error instanceof Error ? error.message : 'Unknown error' } }
+  }
+})
+
+// Draft invoices waiting for approval
+ipcMain.handle('automation:getApprovals', async () => {
+  try {
+    return { approvals: await getRunsAwaitingApproval() }
+  } catch (error) {
+    return { error: { code: 'GET_APPROVALS_ERROR', message: error instanceof Error ? error.message : 'Unknown error' } }
+  }
+})
+
+ipcMain.handle('automation:countApprovals', async () => {
+  try {
+    return { count: await countRunsAwaitingApproval() }
+  } catch (error) {
+    return { error: { code: 'COUNT_APPROVALS_ERROR', message: error instanceof Error ? error.message : 'Unknown error' } }
+  }
+})
+
+// Approve a draft: it is sent like any automated invoice
+ipcMain.handle('automation:approveRun', async (_, runId: string) => {
+  try {
+    const result = await confirmAutomationRun(runId, true)
+    if (!result.success) {
+      return { error: { code: 'APPROVE_RUN_ERROR', message: result.error || 'Failed to send the invoice' } }
+    }
+    return { success: true, invoiceId: result.invoiceId }
+  } catch (error) {
+    return { error: { code: 'APPROVE_RUN_ERROR', message: error instanceof Error ? error.message : 'Unknown error' } }
+  }
+})
+
+// Reject a draft: it is cancelled and its period skipped
+ipcMain.handle('automation:rejectRun', async (_, runId: string) => {
+  try {
+    await skipRun(runId)
+    return { success: true }
+  } catch (error) {
+    return { error: { code: 'REJECT_RUN_ERROR', message: error instanceof Error ? error.message : 'Unknown error' } }
+  }
+})
+
+// Render what a rule would send on a date without creating or sending anything
+ipcMain.handle('automation:preview', async (_, input: unknown) => {
+  try {
+    const { ruleId, date } = previewRuleSchema.parse(input)
+    return await previewAutomationRule(ruleId, date)
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return { error: { code: 'VALIDATION_ERROR', message: 'Invalid preview request' } }
+    }
+    return { error: { code: 'PREVIEW_AUTOMATION_ERROR', message: error instanceof Error ? error.message : 'Unknown error' } }
+  }
+})
+
+// Dates and amounts a rule would invoice over the coming months
+ipcMain.handle('automation:simulate', async (_, ruleId: string, months?: number) => {
+  try {
+    return await simulateAutomationRule(ruleId, Math.min(Math.max(Math.trunc(months || 12), 1), 36))
+  } catch (error) {
+    return { error: { code: 'SIMULATE_AUTOMATION_ERROR', message: error instanceof Error ? error.message : 'Unknown error' } }
+  }
+})
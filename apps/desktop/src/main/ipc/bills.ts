@@ -3,9 +3,38 @@ import { promises as fs } from 'node:fs'
 import { join, extname } from 'node:path'
 import { z } from 'zod'
 import { client, createAutoBackupIfPossible } from '@bills/db'
-import { generateInvoicePdf } from '../pdf'
+import { Party, facturXProblems, generateInvoicePdf } from '../pdf'
+import { getClientLanguage } from '../i18n'
+import { EINVOICE_FORMATS, exportEInvoice } from '../einvoice'
 import { getDataRoot, getBillsFolder, ensureDirectoryExists } from './settings'
 import { generateId } from './utils'
+import {
+  invoiceLineInputSchema,
+  InvoiceLineInput,
+  ResolvedLineInput,
+  Queryable,
+  linesFromAmount,
+  toInvoiceItems,
+  getInvoiceLines,
+  getInvoiceTaxSummary,
+  replaceInvoiceLines,
+  storeResolvedLines,
+  refreshInvoiceTotals,
+  addInvoiceLine,
+  updateInvoiceLine,
+  deleteInvoiceLine,
+  reorderInvoiceLines,
+  releaseInvoice,
+  assertLinesEditable
+} from '../invoice-lines'
+import { TaxSummary, getTaxRates, resolveLineTaxes, roundCents, summarizeTaxes, taxSummaryFromRow } from '../tax'
+import { peekInvoiceNumber, reserveInvoiceNumber } from '../numbering'
+import { PaymentBalance, creditedAmountSql, getPaymentBalance, getPayments, recordPayment, refreshPaymentStatus } from '../payments'
+import { convertInvoice, getBaseCurrency } from '../currency'
+import { assertProjectOfClient } from '../projects'
+
+// Statuses of invoices that have been issued to the client
+const ISSUED_STATUSES = ['SENT', 'PARTIALLY_PAID', 'OVERDUE', 'PAID']
 
 // Input schemas for validation
 const createBillSchema = z.object({
@@ -13,11 +42,16 @@ const createBillSchema = z.object({
   clientName: z.string().min(1),
   issueDate: z.string(), // ISO date string
   expectedPaymentDate: z.string().optional(), // ISO date string
-  amount: z.string(),
+  amount: z.string().optional(), // Ignored when lines are given
   currency: z.string().default('EUR'),
-  number: z.string().min(1),
+  number: z.string().min(1).optional(), // Typed by hand; otherwise reserved from seriesId
+  seriesId: z.string().optional().nullable(), // Falls back to the default series
   description: z.string().optional(),
   notes: z.string().optional(),
+  lines: z.array(invoiceLineInputSchema).optional(),
+  taxRateId: z.string().optional().nullable(), // Falls back to the default tax rate
+  withholdingRateId: z.string().optional().nullable(),
+  projectId: z.string().optional().nullable(), // A project of the invoice's client
   source: z.discriminatedUnion('type', [
     z.object({ type: z.literal('auto') }),
     z.object({ type: z.literal('file'), path: z.string().min(1) })
@@ -26,14 +60,24 @@ const createBillSchema = z.object({
 
 // Preview schema (auto-only for PDF generation)
 const previewInvoiceSchema = z.object({
+  clientId: z.string().optional(),
   clientName: z.string().min(1),
   issueDate: z.string(),
   expectedPaymentDate: z.string().optional(),
-  amount: z.string(),
+  amount: z.string().optional(), // Ignored when lines are given
   currency: z.string().default('EUR'),
   number: z.string().min(1),
   description: z.string().optional(),
-  notes: z.string().optional()
+  notes: z.string().optional(),
+  lines: z.array(invoiceLineInputSchema).optional(),
+  taxRateId: z.string().optional().nullable(), // Falls back to the default tax rate
+  withholdingRateId: z.string().optional().nullable(),
+  // Unsaved logo, accent colour and theme, previewed over the company profile's
+  branding: z.object({
+    logo: z.string().optional().nullable(),
+    accentColor: z.string().optional().nullable(),
+    invoiceTheme: z.string().optional().nullable()
+  }).optional()
 })
 
 const updateBillSchema = z.object({
@@ -41,18 +85,169 @@ const updateBillSchema = z.object({
   clientName: z.string().min(1),
   issueDate: z.string(),
   expectedPaymentDate: z.string().optional(),
-  amount: z.string(),
+  amount: z.string().optional(), // Ignored when lines are given
   currency: z.string().default('EUR'),
   number: z.string().min(1),
   description: z.string().optional(),
-  notes: z.string().optional()
+  notes: z.string().optional(),
+  lines: z.array(invoiceLineInputSchema).optional(),
+  taxRateId: z.string().optional().nullable(), // Falls back to the default tax rate
+  withholdingRateId: z.string().optional().nullable(),
+  projectId: z.string().optional().nullable() // Unchanged when not given
 })
 
+// Credits the whole invoice when no lines are given
+const createCreditNoteSchema = z.object({
+  invoiceId: z.string().min(1),
+  reason: z.string().min(1),
+  issueDate: z.string().optional(), // YYYY-MM-DD, defaults to today
+  seriesId: z.string().optional().nullable(), // Falls back to the default credit note series
+  lines: z.array(invoiceLineInputSchema).optional() // Amounts to credit, entered as on the original
+})
+
+const nextNumberSchema = z.object({
+  seriesId: z.string().optional().nullable(),
+  issueDate: z.string().optional() // YYYY-MM-DD, defaults to today
+})
+
+// Lines sent by the form, or a single line built from description + amount for older callers
+function resolveLines(data: { lines?: InvoiceLineInput[]; description?: string; amount?: string }): InvoiceLineInput[] {
+  if (data.lines && data.lines.length > 0) return data.lines
+  if (data.amount === undefined) {
+    throw new Error('An invoice needs at least one line or an amount')
+  }
+  return linesFromAmount(data.description, data.amount)
+}
+
+// Credit note lines mirror the credited ones with the quantity negated
+function negateLines(lines: ResolvedLineInput[]): ResolvedLineInput[] {
+  return lines.map(line => ({ ...line, id: undefined, quantity: String(-Number(line.quantity)) }))
+}
+
+// PGlite returns `date` columns as Date objects
+function toDateString(value: unknown): string {
+  return value instanceof Date ? value.toISOString().slice(0, 10) : String(value)
+}
+
+// Resolve line tax percentages and compute the breakdown before anything is stored
+async function prepareInvoiceTaxes(lines: InvoiceLineInput[], taxRateId?: string | null, withholdingRateId?: string | null): Promise<{ lines: ResolvedLineInput[]; totals: TaxSummary }> {
+  const rates = await getTaxRates()
+  const resolved = resolveLineTaxes(lines, rates, taxRateId)
+  return { lines: resolved, totals: summarizeTaxes(resolved, rates, taxRateId, withholdingRateId) }
+}
+
+// The client with this name, created if new; pass the transaction storing the
+// document so a rejected one leaves no client behind
+export async function findOrCreateClient(name: string, db: Queryable = client): Promise<string> {
+  const existing = await db.query('SELECT id FROM client WHERE name = $1 LIMIT 1', [name])
+  if (existing.rows.length > 0) {
+    return (existing.rows[0] as any).id
+  }
+  const clientId = generateId()
+  await db.query(
+    'INSERT INTO client (id, name, created_at, updated_at) VALUES ($1, $2, current_timestamp, current_timestamp)',
+    [clientId, name]
+  )
+  return clientId
+}
+
+// Client as printed on the invoice (and embedded in Factur-X data), found by id or else by name
+export async function getClientParty(ref: { id?: string | null; name: string }): Promise<Party> {
+  const res = ref.id
+    ? await client.query('SELECT name, email, address, phone, tax_id FROM client WHERE id = $1', [ref.id])
+    : await client.query('SELECT name, email, address, phone, tax_id FROM client WHERE name = $1 LIMIT 1', [ref.name])
+  const row = res.rows[0] as any
+  if (!row) return { name: ref.name }
+  return {
+    name: row.name,
+    email: row.email || undefined,
+    address: row.address || undefined,
+    phone: row.phone || undefined,
+    taxId: row.tax_id || undefined
+  }
+}
+
+// Companies issuing Factur-X invoices never store one that would not conform
+function assertFacturX(invoice: Parameters<typeof facturXProblems>[0]): void {
+  if (!invoice.seller?.facturX) return
+  const problems = facturXProblems(invoice)
+  if (problems.length > 0) {
+    throw new Error(`Not a valid Factur-X invoice: ${problems.join('; ')}`)
+  }
+}
+
+// A cancelled draft no longer bills what was on it, and the invoice of a
+// cancelled credit note takes its status from its balance again
+async function cancelDraft(invoiceId: string, tx: Queryable): Promise<void> {
+  const res = await tx.query(
+    `UPDATE invoice SET status = 'CANCELLED', paid_at = NULL, updated_at = current_timestamp WHERE id = $1 RETURNING original_invoice_id`,
+    [invoiceId]
+  )
+  await releaseInvoice(invoiceId, tx)
+  const originalId = (res.rows[0] as any)?.original_invoice_id
+  if (originalId) {
+    await refreshPaymentStatus(originalId, tx)
+  }
+}
+
+/**
+ * Draw the stored invoice again after its details or lines changed, so the
+ * PDF that is sent matches it. Call it once the change is committed. A PDF
+ * the user uploaded is theirs and is never replaced.
+ */
+export async function redrawInvoicePdf(invoiceId: string): Promise<void> {
+  const res = await client.query(
+    `SELECT i.number, i.client_id, i.issue_date, i.expected_payment_date, i.currency, i.description, i.notes, i.file_path, i.pdf_source, i.kind, i.credit_reason,
+            c.name AS client_name, o.number AS original_number, o.issue_date AS original_issue_date
+     FROM invoice i
+     LEFT JOIN client c ON i.client_id = c.id
+     LEFT JOIN invoice o ON i.original_invoice_id = o.id
+     WHERE i.id = $1`,
+    [invoiceId]
+  )
+  const row = res.rows[0] as any
+  if (!row?.file_path || row.pdf_source === 'UPLOADED') return
+
+  try {
+    let seller: any = null
+    try {
+      const settingsRes = await client.query('SELECT company_profile FROM setting WHERE id = 1')
+      const profileText = (settingsRes.rows?.[0] as any)?.company_profile as string | undefined
+      if (profileText) seller = JSON.parse(profileText)
+    } catch {}
+    const taxSummary = await getInvoiceTaxSummary(invoiceId)
+    const invoice = {
+      ...await getClientLanguage({ id: row.client_id }),
+      number: row.number,
+      clientName: row.client_name,
+      issueDate: toDateString(row.issue_date),
+      expectedPaymentDate: row.expected_payment_date ? toDateString(row.expected_payment_date) : undefined,
+      amount: taxSummary.total,
+      currency: row.currency,
+      outputPath: row.file_path,
+      seller,
+      client: await getClientParty({ id: row.client_id, name: row.client_name }),
+      items: toInvoiceItems(await getInvoiceLines(invoiceId)),
+      taxSummary,
+      description: row.description,
+      notes: row.notes || null,
+      creditNote: row.kind === 'CREDIT_NOTE'
+        ? { originalNumber: row.original_number, originalIssueDate: toDateString(row.original_issue_date), reason: row.credit_reason }
+        : undefined
+    }
+    // The change is already stored, so a non-conforming invoice is drawn as a plain PDF
+    const problems = seller?.facturX ? facturXProblems(invoice) : []
+    await generateInvoicePdf(problems.length > 0 ? { ...invoice, seller: { ...seller, facturX: false } } : invoice)
+  } catch (pdfError) {
+    console.warn(`Redrawing the PDF of invoice ${row.number} failed:`, pdfError)
+  }
+}
 
 // Generate a temporary PDF preview (auto format) and return a data URL
 ipcMain.handle('bill:preview', async (_e, input) => {
   try {
     const data = previewInvoiceSchema.parse(input)
+    const { lines, totals } = await prepareInvoiceTaxes(resolveLines(data), data.taxRateId, data.withholdingRateId)
     const tempDir = await fs.mkdtemp(join(app.getPath('temp'), 'bill-preview-'))
     const pdfPath = join(tempDir, 'preview.pdf')
 
@@ -63,33 +258,45 @@ ipcMain.handle('bill:preview', async (_e, input) => {
       const profileText = (settingsRes.rows?.[0] as any)?.company_profile as string | undefined
       if (profileText) seller = JSON.parse(profileText)
     } catch {}
+    if (data.branding) seller = { ...seller, ...data.branding }
 
-    await generateInvoicePdf({
+    const invoice = {
+      ...await getClientLanguage({ id: data.clientId, name: data.clientName }),
       number: data.number,
       clientName: data.clientName,
       issueDate: data.issueDate,
       expectedPaymentDate: data.expectedPaymentDate,
-      amount: data.amount,
+      amount: totals.total,
       currency: data.currency,
       outputPath: pdfPath,
       seller,
-      client: { name: data.clientName },
-      items: [{ description: data.description || 'Serveis professionals', amount: data.amount }],
+      client: await getClientParty({ id: data.clientId, name: data.clientName }),
+      items: toInvoiceItems(lines),
+      taxSummary: totals,
       description: data.description,
       notes: data.notes || null
-    })
+    }
+    // Problems are reported with the preview, which is then drawn as a plain PDF
+    const problems = seller?.facturX ? facturXProblems(invoice) : []
+    await generateInvoicePdf(problems.length > 0 ? { ...invoice, seller: { ...seller, facturX: false } } : invoice)
 
     const buf = await fs.readFile(pdfPath)
     const dataUrl = `data:application/pdf;base64,${Buffer.from(buf).toString('base64')}`
-    return { dataUrl }
+    return { dataUrl, totals, facturX: { enabled: !!seller?.facturX, problems } }
   } catch (error) {
     return { error: { code: 'PREVIEW_ERROR', message: error instanceof Error ? error.message : 'Unknown error' } }
   }
 })
 
-ipcMain.handle('bill:create', async (_, input) => {
+/**
+ * Create an invoice, also used to turn quotes, hours and expenses into
+ * invoices. `inTransaction` runs in the transaction that stores the invoice,
+ * so what the caller links to it is stored together with it or not at all.
+ */
+export async function createBill(input: unknown, inTransaction?: (tx: Queryable, invoiceId: string) => Promise<void>) {
   try {
     const data = createBillSchema.parse(input)
+    const { lines, totals } = await prepareInvoiceTaxes(resolveLines(data), data.taxRateId, data.withholdingRateId)
     
     // Get data root and bills folder
     const dataRoot = await getDataRoot()
@@ -100,7 +307,7 @@ ipcMain.handle('bill:create', async (_, input) => {
     const billsRoot = await getBillsFolder(dataRoot)
     await ensureDirectoryExists(billsRoot)
     
-    // Create folder structure: /YYYY/MM/YYYY-MM-DD__Client__INV-####/
+    // Folder structure: /YYYY/MM/YYYY-MM-DD__Client__INV-####/
     const issueDate = new Date(data.issueDate)
     const defaultExpected = new Date(issueDate)
     defaultExpected.setDate(defaultExpected.getDate() + 30)
@@ -109,14 +316,77 @@ ipcMain.handle('bill:create', async (_, input) => {
     const month = String(issueDate.getMonth() + 1).padStart(2, '0')
     const day = String(issueDate.getDate()).padStart(2, '0')
     
-    const folderName = `${year}-${month}-${day}__${data.clientName.replace(/[^a-zA-Z0-9]/g, '_')}__${data.number}`
-    const billFolder = join(billsRoot, year.toString(), month, folderName)
+    // The client picked, else the one with that name; a new one is only
+    // created in the transaction storing the invoice
+    let knownClientId: string | null = data.clientId ?? null
+    if (!knownClientId) {
+      const clientResult = await client.query('SELECT id FROM client WHERE name = $1 LIMIT 1', [data.clientName])
+      knownClientId = (clientResult.rows[0] as any)?.id ?? null
+    }
     
-    // Ensure directories exist
-    await ensureDirectoryExists(billFolder)
+    // Load company profile before the transaction (queries outside it would wait for it)
+    let seller: any = null
+    if (data.source.type === 'auto') {
+      try {
+        const settingsRes = await client.query('SELECT company_profile FROM setting WHERE id = 1')
+        const profileText = (settingsRes.rows?.[0] as any)?.company_profile as string | undefined
+        if (profileText) seller = JSON.parse(profileText)
+      } catch {}
+    }
+    const invoice = {
+      ...await getClientLanguage({ id: knownClientId, name: data.clientName }),
+      clientName: data.clientName,
+      issueDate: data.issueDate,
+      expectedPaymentDate: expectedPaymentDate.toISOString().slice(0,10),
+      amount: totals.total,
+      currency: data.currency,
+      seller,
+      client: await getClientParty({ id: knownClientId, name: data.clientName }),
+      items: toInvoiceItems(lines),
+      taxSummary: totals,
+      description: data.description,
+      notes: data.notes || null
+    }
+    assertFacturX(invoice)
     
-    // Ensure output path
-    const pdfPath = join(billFolder, 'invoice.pdf')
+    // Reserve the number and insert the invoice with its lines atomically, so
+    // the series counter only advances when the invoice is actually stored
+    const invoiceId = generateId()
+    const { number, billFolder, pdfPath } = await client.transaction(async (tx: any) => {
+      const clientId = knownClientId ?? await findOrCreateClient(data.clientName, tx)
+      await assertProjectOfClient(data.projectId, clientId, tx)
+      let number: string
+      let seriesId: string | null = null
+      if (data.number) {
+        number = data.number
+        const existing = await tx.query('SELECT 1 FROM invoice WHERE number = $1 LIMIT 1', [number])
+        if (existing.rows.length > 0) {
+          throw new Error(`Invoice number ${number} already exists`)
+        }
+      } else {
+        const reserved = await reserveInvoiceNumber(tx, data.seriesId, data.issueDate)
+        number = reserved.number
+        seriesId = reserved.seriesId
+      }
+      
+      const folderName = `${year}-${month}-${day}__${data.clientName.replace(/[^a-zA-Z0-9]/g, '_')}__${number}`
+      const billFolder = join(billsRoot, year.toString(), month, folderName)
+      const pdfPath = join(billFolder, 'invoice.pdf')
+      
+      await tx.query(
+        `INSERT INTO invoice (id, number, client_id, issue_date, expected_payment_date, amount, currency, status, file_path, pdf_source, folder_path, description, notes, tax_rate_id, withholding_rate_id, series_id, project_id, created_at, updated_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, 'DRAFT', $8, $9, $10, $11, $12, $13, $14, $15, $16, current_timestamp, current_timestamp)`,
+        [invoiceId, number, clientId, data.issueDate, expectedPaymentDate.toISOString().slice(0,10), totals.total, data.currency, pdfPath, data.source.type === 'file' ? 'UPLOADED' : 'GENERATED', billFolder, data.description, data.notes || null, data.taxRateId || null, data.withholdingRateId || null, seriesId, data.projectId || null]
+      )
+      await replaceInvoiceLines(invoiceId, lines, tx)
+      if (inTransaction) {
+        await inTransaction(tx, invoiceId)
+      }
+      
+      // Failing here rolls the reservation back
+      await ensureDirectoryExists(billFolder)
+      return { number, billFolder, pdfPath }
+    }) as { number: string; billFolder: string; pdfPath: string }
     
     if (data.source.type === 'file') {
       try {
@@ -128,70 +398,167 @@ ipcMain.handle('bill:create', async (_, input) => {
     } else {
       // Auto-generate using stored company profile (if any)
       try {
-        const settingsRes = await client.query('SELECT company_profile FROM setting WHERE id = 1')
-        const profileText = (settingsRes.rows?.[0] as any)?.company_profile as string | undefined
-        let seller: any = null
-        if (profileText) {
-          try { seller = JSON.parse(profileText) } catch {}
-        }
-        await generateInvoicePdf({
-          number: data.number,
-          clientName: data.clientName,
-          issueDate: data.issueDate,
-          expectedPaymentDate: expectedPaymentDate.toISOString().slice(0,10),
-          amount: data.amount,
-          currency: data.currency,
-          outputPath: pdfPath,
-          seller,
-          client: {
-            name: data.clientName
-          },
-          items: [
-            { description: data.description || 'Serveis professionals', amount: data.amount }
-          ],
-          description: data.description,
-          notes: data.notes || null
-        })
+        await generateInvoicePdf({ ...invoice, number, outputPath: pdfPath })
       } catch (pdfError) {
         console.warn('PDF generation failed, continuing without PDF:', pdfError)
         await fs.writeFile(pdfPath, 'PDF generation failed', 'utf-8')
       }
     }
     
-    // Create or find client
-    let clientId: string
-    if (data.clientId) {
-      clientId = data.clientId
-    } else {
-      const clientResult = await client.query('SELECT id FROM client WHERE name = $1 LIMIT 1', [data.clientName])
-      if (clientResult.rows.length === 0) {
-        clientId = generateId()
-        await client.query(
-          'INSERT INTO client (id, name, created_at, updated_at) VALUES ($1, $2, current_timestamp, current_timestamp)',
-          [clientId, data.clientName]
-        )
-      } else {
-        const client = clientResult.rows[0] as { id: string }
-        clientId = client.id
-      }
-    }
-    
-    // Insert invoice record
-    const invoiceId = generateId()
-    await client.query(
-      `INSERT INTO invoice (id, number, client_id, issue_date, expected_payment_date, amount, currency, status, file_path, folder_path, description, notes, created_at, updated_at)
-       VALUES ($1, $2, $3, $4, $5, $6, $7, 'DRAFT', $8, $9, $10, $11, current_timestamp, current_timestamp)`,
-      [invoiceId, data.number, clientId, data.issueDate, expectedPaymentDate.toISOString().slice(0,10), data.amount, data.currency, pdfPath, billFolder, data.description, data.notes || null]
-    )
-    
     // Create automatic backup after successful bill creation
     createAutoBackupIfPossible() // Don't await to avoid slowing down the UI response
     
-    return { ok: true, id: invoiceId, folderPath: billFolder, filePath: pdfPath }
+    return { ok: true, id: invoiceId, number, folderPath: billFolder, filePath: pdfPath, totals }
   } catch (error) {
     console.error('Failed to create bill:', error)
     return { error: { code: 'CREATE_BILL_ERROR', message: error instanceof Error ? error.message : 'Unknown error' } }
   }
+}
+
+ipcMain.handle('bill:create', (_, input) => createBill(input))
+
+// Upcoming number of a series (not reserved until the bill is created)
+ipcMain.handle('bill:nextNumber', async (_e, input) => {
+  try {
+    const data = nextNumberSchema.parse(input ?? {})
+    return await peekInvoiceNumber(data.seriesId, data.issueDate)
+  } catch (error) {
+    return { error: { code: 'NEXT_NUMBER_ERROR', message: error instanceof Error ? error.message : 'Unknown error' } }
+  }
+})
+
+// Rectify a sent invoice with a credit note (negative amounts) in its own series.
+// Issued invoices are never deleted or cancelled; they are corrected this way.
+ipcMain.handle('bill:createCreditNote', async (_e, input) => {
+  try {
+    const data = createCreditNoteSchema.parse(input)
+    const issueDate = data.issueDate || new Date().toISOString().slice(0, 10)
+
+    const originalRes = await client.query(
+      `SELECT i.*, c.name as client_name
+       FROM invoice i
+       LEFT JOIN client c ON i.client_id = c.id
+       WHERE i.id = $1`,
+      [data.invoiceId]
+    )
+    const original = originalRes.rows[0] as any
+    if (!original) {
+      return { error: { code: 'BILL_NOT_FOUND', message: 'Bill not found' } }
+    }
+    if (original.kind === 'CREDIT_NOTE') {
+      throw new Error('A credit note cannot be rectified with another credit note')
+    }
+    if (!ISSUED_STATUSES.includes(original.status)) {
+      throw new Error('Only sent or paid invoices need a credit note; edit drafts directly')
+    }
+
+    // Whole invoice: copy the stored lines with their tax percentages.
+    // Partial: resolve the given lines against the original's tax rate.
+    const originalLines = await getInvoiceLines(original.id)
+    const credited = data.lines?.length
+      ? resolveLineTaxes(data.lines, await getTaxRates(), original.tax_rate_id)
+      : originalLines
+    const lines = negateLines(credited.map(line => ({
+      description: line.description,
+      quantity: line.quantity,
+      unit: line.unit,
+      unitPrice: line.unitPrice,
+      discount: line.discount,
+      taxRateId: line.taxRateId,
+      taxRate: line.taxRate
+    })))
+
+    const dataRoot = await getDataRoot()
+    if (!dataRoot) {
+      return { error: { code: 'NO_DATA_ROOT', message: 'Data root folder not configured' } }
+    }
+    const billsRoot = await getBillsFolder(dataRoot)
+    await ensureDirectoryExists(billsRoot)
+
+    let seller: any = null
+    try {
+      const settingsRes = await client.query('SELECT company_profile FROM setting WHERE id = 1')
+      const profileText = (settingsRes.rows?.[0] as any)?.company_profile as string | undefined
+      if (profileText) seller = JSON.parse(profileText)
+    } catch {}
+    const invoice = {
+      ...await getClientLanguage({ id: original.client_id }),
+      clientName: original.client_name,
+      issueDate,
+      currency: original.currency,
+      seller,
+      client: await getClientParty({ id: original.client_id, name: original.client_name }),
+      items: toInvoiceItems(lines),
+      description: original.description,
+      creditNote: {
+        originalNumber: original.number,
+        originalIssueDate: toDateString(original.issue_date),
+        reason: data.reason
+      }
+    }
+
+    const creditNoteId = generateId()
+    const { number, billFolder, pdfPath, totals } = await client.transaction(async (tx: any) => {
+      const reserved = await reserveInvoiceNumber(tx, data.seriesId, issueDate, 'CREDIT_NOTE')
+      const [year, month, day] = issueDate.split('-')
+      const folderName = `${year}-${month}-${day}__${String(original.client_name || 'Client').replace(/[^a-zA-Z0-9]/g, '_')}__${reserved.number}`
+      const billFolder = join(billsRoot, year, month, folderName)
+      const pdfPath = join(billFolder, 'invoice.pdf')
+
+      await tx.query(
+        `INSERT INTO invoice (id, number, client_id, issue_date, amount, currency, status, file_path, folder_path, description, tax_rate_id, withholding_rate_id, series_id, kind, original_invoice_id, credit_reason, project_id, created_at, updated_at)
+         VALUES ($1, $2, $3, $4, 0, $5, 'DRAFT', $6, $7, $8, $9, $10, $11, 'CREDIT_NOTE', $12, $13, $14, current_timestamp, current_timestamp)`,
+        [creditNoteId, reserved.number, original.client_id, issueDate, original.currency, pdfPath, billFolder, original.description, original.tax_rate_id, original.withholding_rate_id, reserved.seriesId, original.id, data.reason, original.project_id]
+      )
+      const totals = await storeResolvedLines(creditNoteId, lines, tx)
+
+      // Everything credited so far (this note and other drafts included) cannot exceed the invoice
+      const creditedRes = await tx.query(
+        `SELECT ${creditedAmountSql('$1', true)} AS total`,
+        [original.id]
+      )
+      if (Number(totals.total) >= 0) {
+        throw new Error('A credit note must reduce the amount of the invoice')
+      }
+      if (roundCents(-Number((creditedRes.rows[0] as any).total)) > roundCents(Number(original.amount))) {
+        throw new Error(`Credit notes for ${original.number} would exceed its total of ${original.amount} ${original.currency}`)
+      }
+      // Totals are only known once the lines are stored; failing here rolls them back
+      assertFacturX({ ...invoice, amount: totals.total, taxSummary: totals })
+
+      await ensureDirectoryExists(billFolder)
+      return { number: reserved.number, billFolder, pdfPath, totals }
+    }) as { number: string; billFolder: string; pdfPath: string; totals: TaxSummary }
+
+    try {
+      await generateInvoicePdf({ ...invoice, number, outputPath: pdfPath, amount: totals.total, taxSummary: totals })
+    } catch (pdfError) {
+      console.warn('PDF generation failed, continuing without PDF:', pdfError)
+      await fs.writeFile(pdfPath, 'PDF generation failed', 'utf-8')
+    }
+
+    createAutoBackupIfPossible()
+
+    return { ok: true, id: creditNoteId, number, folderPath: billFolder, filePath: pdfPath, totals }
+  } catch (error) {
+    console.error('Failed to create credit note:', error)
+    return { error: { code: 'CREATE_CREDIT_NOTE_ERROR', message: error instanceof Error ? error.message : 'Unknown error' } }
+  }
+})
+
+// Write the invoice as UBL or Facturae XML next to its PDF, or list why it does not conform
+ipcMain.handle('bill:exportEInvoice', async (_e, billId: unknown, format: unknown) => {
+  try {
+    const validatedId = z.string().min(1).parse(billId)
+    const validatedFormat = z.enum(EINVOICE_FORMATS).parse(format)
+    const { filePath, problems } = await exportEInvoice(validatedId, validatedFormat)
+    if (!filePath) {
+      return { error: { code: 'EINVOICE_INVALID', message: problems.join('; ') }, problems }
+    }
+    return { ok: true, filePath }
+  } catch (error) {
+    return { error: { code: 'EXPORT_EINVOICE_ERROR', message: error instanceof Error ? error.message : 'Unknown error' } }
+  }
 })
 
 ipcMain.handle('bill:delete', async (_, billId: string) => {
@@ -199,13 +566,32 @@ ipcMain.handle('bill:delete', async (_, billId: string) => {
     const validatedId = z.string().min(1).parse(billId)
     
     // Get bill info
-    const result = await client.query('SELECT folder_path FROM invoice WHERE id = $1', [validatedId])
+    const result = await client.query('SELECT folder_path, status, kind, series_id FROM invoice WHERE id = $1', [validatedId])
     const bill = result.rows[0] as any
     
     if (!bill) {
       return { error: { code: 'BILL_NOT_FOUND', message: 'Bill not found' } }
     }
     
+    // Issued documents stay on record; they are rectified with credit notes
+    if (ISSUED_STATUSES.includes(bill.status)) {
+      return { error: { code: 'DELETE_BILL_ERROR', message: bill.kind === 'CREDIT_NOTE' ? 'Issued credit notes cannot be deleted' : 'Issued invoices cannot be deleted; issue a credit note instead' } }
+    }
+    const creditNotes = await client.query('SELECT 1 FROM invoice WHERE original_invoice_id = $1 LIMIT 1', [validatedId])
+    if (creditNotes.rows.length > 0) {
+      return { error: { code: 'DELETE_BILL_ERROR', message: 'Invoices with credit notes cannot be deleted' } }
+    }
+    
+    // Numbers taken from a series stay on record so the series has no gaps:
+    // drafts are cancelled instead of deleted
+    if (bill.series_id) {
+      if (bill.status !== 'DRAFT') {
+        return { error: { code: 'DELETE_BILL_ERROR', message: 'Documents numbered from a series stay on record and cannot be deleted' } }
+      }
+      await client.transaction((tx: any) => cancelDraft(validatedId, tx))
+      return { ok: true, cancelled: true }
+    }
+    
     // Move folder to trash if it exists
     if (bill.folder_path) {
       try {
@@ -248,12 +634,29 @@ ipcMain.handle('bill:get', async (_e, billId: string) => {
                i.description,
                i.notes,
                i.paid_at,
+        i.tax_rate_id,
+        i.withholding_rate_id,
+        i.subtotal,
+        i.tax_amount,
+        i.withholding_amount,
+        i.tax_breakdown,
+        i.series_id,
+        i.kind,
+        i.original_invoice_id,
+        i.credit_reason,
+        i.exchange_rate,
+        i.base_amount,
+        i.project_id,
+        p.name as project_name,
+        o.number as original_number,
         i.created_at,
         i.updated_at,
         c.name as client_name,
         c.email as client_email
       FROM invoice i
       LEFT JOIN client c ON i.client_id = c.id
+      LEFT JOIN invoice o ON i.original_invoice_id = o.id
+      LEFT JOIN project p ON i.project_id = p.id
       WHERE i.id = $1
       LIMIT 1`,
       [validatedId]
@@ -263,6 +666,14 @@ ipcMain.handle('bill:get', async (_e, billId: string) => {
       return { error: { code: 'BILL_NOT_FOUND', message: 'Bill not found' } }
     }
     
+    const lines = await getInvoiceLines(row.id)
+    const payments = await getPayments(row.id)
+    const balance = await getPaymentBalance(row.id)
+    const creditNotesRes = await client.query(
+      "SELECT id, number, issue_date, amount, status FROM invoice WHERE original_invoice_id = $1 AND kind = 'CREDIT_NOTE' ORDER BY issue_date, created_at",
+      [row.id]
+    )
+    
     return {
       bill: {
         id: row.id,
@@ -280,8 +691,31 @@ ipcMain.handle('bill:get', async (_e, billId: string) => {
                description: row.description,
                notes: row.notes,
         paidAt: row.paid_at,
+        taxRateId: row.tax_rate_id,
+        withholdingRateId: row.withholding_rate_id,
+        seriesId: row.series_id,
+        kind: row.kind || 'INVOICE',
+        originalInvoiceId: row.original_invoice_id,
+        originalNumber: row.original_number,
+        creditReason: row.credit_reason,
+        exchangeRate: row.exchange_rate,
+        baseAmount: row.base_amount,
+        baseCurrency: await getBaseCurrency(),
+        projectId: row.project_id,
+        projectName: row.project_name,
+        creditNotes: creditNotesRes.rows.map((note: any) => ({
+          id: note.id,
+          number: note.number,
+          issueDate: note.issue_date,
+          amount: note.amount,
+          status: note.status
+        })),
         createdAt: row.created_at,
-        updatedAt: row.updated_at
+        updatedAt: row.updated_at,
+        lines,
+        totals: taxSummaryFromRow(row),
+        payments,
+        balance
       }
     }
   } catch (error) {
@@ -293,19 +727,6 @@ ipcMain.handle('bill:update', async (_e, input) => {
   try {
     const data = updateBillSchema.parse(input)
 
-    // Ensure client exists and get id
-    let clientId: string
-    const existing = await client.query('SELECT id FROM client WHERE name = $1 LIMIT 1', [data.clientName])
-    if (existing.rows.length === 0) {
-      clientId = generateId()
-      await client.query(
-        'INSERT INTO client (id, name, created_at, updated_at) VALUES ($1, $2, current_timestamp, current_timestamp)',
-        [clientId, data.clientName]
-      )
-    } else {
-      clientId = (existing.rows[0] as any).id
-    }
-
     // Compute expected payment date if not provided (30 days after issue date)
     let expectedPaymentDate = data.expectedPaymentDate
     if (!expectedPaymentDate) {
@@ -315,30 +736,208 @@ ipcMain.handle('bill:update', async (_e, input) => {
       expectedPaymentDate = defaultExpected.toISOString().slice(0,10)
     }
 
-    await client.query(
-      `UPDATE invoice 
-       SET number=$1, client_id=$2, issue_date=$3, expected_payment_date=$4, amount=$5, currency=$6, description=$7, notes=$8, updated_at=current_timestamp
-       WHERE id=$9`,
-      [data.number, clientId, data.issueDate, expectedPaymentDate, data.amount, data.currency, data.description, data.notes || null, data.id]
-    )
+    // Keep stored lines unless the caller sends new ones (or only a new amount)
+    const lines = data.lines?.length || data.amount !== undefined ? resolveLines(data) : null
 
-    return { ok: true }
+    const { totals, draft } = await client.transaction(async (tx: any) => {
+      // Numbers reserved from a series are final; renumbering would leave a gap
+      const current = await tx.query(
+        `SELECT i.number, i.series_id, i.status, i.kind, i.project_id, i.issue_date, i.currency, i.description, c.name AS client_name
+         FROM invoice i
+         LEFT JOIN client c ON i.client_id = c.id
+         WHERE i.id = $1`,
+        [data.id]
+      )
+      const currentRow = current.rows[0] as any
+      if (!currentRow) {
+        throw new Error('Bill not found')
+      }
+      if (currentRow.series_id && currentRow.number !== data.number) {
+        throw new Error(`Invoice number ${currentRow.number} was assigned from a numbering series and cannot be changed`)
+      }
+      // Issued invoices and credit notes keep what they bill; only their
+      // notes, due date and project can still change
+      if (currentRow.kind === 'CREDIT_NOTE' || currentRow.status !== 'DRAFT') {
+        if (lines || data.taxRateId !== undefined || data.withholdingRateId !== undefined) {
+          await assertLinesEditable(data.id, tx)
+        }
+        const changed = currentRow.number !== data.number
+          || currentRow.client_name !== data.clientName
+          || toDateString(currentRow.issue_date) !== data.issueDate
+          || currentRow.currency !== data.currency
+          || (currentRow.description || '') !== (data.description || '')
+        if (changed) {
+          throw new Error(currentRow.kind === 'CREDIT_NOTE'
+            ? 'The number, client, date, currency and description of a credit note cannot be edited'
+            : `Invoice ${currentRow.number} has been issued; correct it with a credit note`)
+        }
+      }
+      const clientId = await findOrCreateClient(data.clientName, tx)
+      // The project must still belong to the client, which may have changed
+      const projectId = data.projectId !== undefined ? data.projectId : currentRow?.project_id
+      await assertProjectOfClient(projectId, clientId, tx)
+      await tx.query(
+        `UPDATE invoice
+         SET number=$1, client_id=$2, issue_date=$3, expected_payment_date=$4, currency=$5, description=$6, notes=$7, project_id=$8, updated_at=current_timestamp
+         WHERE id=$9`,
+        [data.number, clientId, data.issueDate, expectedPaymentDate, data.currency, data.description, data.notes || null, projectId || null, data.id]
+      )
+      // Tax selection only changes when the caller sends it; lines inheriting
+      // the invoice rate are re-resolved so they pick up the new percentage
+      const taxChanged = data.taxRateId !== undefined || data.withholdingRateId !== undefined
+      if (taxChanged) {
+        await tx.query(
+          'UPDATE invoice SET tax_rate_id = $1, withholding_rate_id = $2 WHERE id = $3',
+          [data.taxRateId ?? null, data.withholdingRateId ?? null, data.id]
+        )
+      }
+      let totals: TaxSummary
+      if (lines) {
+        totals = await replaceInvoiceLines(data.id, lines, tx)
+      } else if (taxChanged) {
+        totals = await replaceInvoiceLines(data.id, await getInvoiceLines(data.id, tx), tx)
+      } else if (currentRow.status !== 'DRAFT') {
+        // An issued total stays as billed, whatever the tax rates are now
+        totals = await getInvoiceTaxSummary(data.id, tx)
+        await convertInvoice(data.id, tx)
+      } else {
+        totals = await refreshInvoiceTotals(data.id, tx)
+      }
+      // A new total can settle the invoice or leave part of it unpaid
+      await refreshPaymentStatus(data.id, tx)
+      return { totals, draft: currentRow.status === 'DRAFT' }
+    }) as { totals: TaxSummary; draft: boolean }
+    // The PDF of an issued document is the one the client received
+    if (draft) {
+      await redrawInvoicePdf(data.id)
+    }
+
+    return { ok: true, totals }
   } catch (error) {
     return { error: { code: 'UPDATE_BILL_ERROR', message: error instanceof Error ? error.message : 'Unknown error' } }
   }
 })
 
+ipcMain.handle('bill:getLines', async (_e, billId: string) => {
+  try {
+    const validatedId = z.string().min(1).parse(billId)
+    const lines = await getInvoiceLines(validatedId)
+    return { lines, totals: await getInvoiceTaxSummary(validatedId) }
+  } catch (error) {
+    return { error: { code: 'GET_LINES_ERROR', message: error instanceof Error ? error.message : 'Unknown error' } }
+  }
+})
+
+ipcMain.handle('bill:addLine', async (_e, billId: string, line: unknown) => {
+  try {
+    const validatedId = z.string().min(1).parse(billId)
+    const data = invoiceLineInputSchema.parse(line)
+    const totals = await client.transaction((tx: any) => addInvoiceLine(validatedId, data, tx)) as TaxSummary
+    await redrawInvoicePdf(validatedId)
+    return { ok: true, lines: await getInvoiceLines(validatedId), totals }
+  } catch (error) {
+    return { error: { code: 'ADD_LINE_ERROR', message: error instanceof Error ? error.message : 'Unknown error' } }
+  }
+})
+
+ipcMain.handle('bill:updateLine', async (_e, lineId: string, line: unknown) => {
+  try {
+    const validatedId = z.string().min(1).parse(lineId)
+    const data = invoiceLineInputSchema.parse(line)
+    const { invoiceId, totals } = await client.transaction((tx: any) => updateInvoiceLine(validatedId, data, tx)) as { invoiceId: string; totals: TaxSummary }
+    await redrawInvoicePdf(invoiceId)
+    return { ok: true, lines: await getInvoiceLines(invoiceId), totals }
+  } catch (error) {
+    return { error: { code: 'UPDATE_LINE_ERROR', message: error instanceof Error ? error.message : 'Unknown error' } }
+  }
+})
+
+ipcMain.handle('bill:deleteLine', async (_e, lineId: string) => {
+  try {
+    const validatedId = z.string().min(1).parse(lineId)
+    const { invoiceId, totals } = await client.transaction((tx: any) => deleteInvoiceLine(validatedId, tx)) as { invoiceId: string; totals: TaxSummary }
+    await redrawInvoicePdf(invoiceId)
+    return { ok: true, lines: await getInvoiceLines(invoiceId), totals }
+  } catch (error) {
+    return { error: { code: 'DELETE_LINE_ERROR', message: error instanceof Error ? error.message : 'Unknown error' } }
+  }
+})
+
+ipcMain.handle('bill:reorderLines', async (_e, billId: string, lineIds: unknown) => {
+  try {
+    const validatedId = z.string().min(1).parse(billId)
+    const validatedLineIds = z.array(z.string().min(1)).parse(lineIds)
+    await client.transaction((tx: any) => reorderInvoiceLines(validatedId, validatedLineIds, tx))
+    await redrawInvoicePdf(validatedId)
+    return { ok: true, lines: await getInvoiceLines(validatedId) }
+  } catch (error) {
+    return { error: { code: 'REORDER_LINES_ERROR', message: error instanceof Error ? error.message : 'Unknown error' } }
+  }
+})
+
 ipcMain.handle('bill:updateStatus', async (_, billId: string, status: string) => {
   try {
     const validatedId = z.string().min(1).parse(billId)
     const validatedStatus = z.enum(['DRAFT', 'SENT', 'PAID', 'CANCELLED']).parse(status)
     
-    const paidAt = validatedStatus === 'PAID' ? new Date().toISOString() : null
+    const current = await client.query('SELECT status, kind FROM invoice WHERE id = $1', [validatedId])
+    const currentRow = current.rows[0] as any
+    if (!currentRow) {
+      return { error: { code: 'BILL_NOT_FOUND', message: 'Bill not found' } }
+    }
     
-    await client.query(
-      'UPDATE invoice SET status = $1, paid_at = $2, updated_at = current_timestamp WHERE id = $3',
-      [validatedStatus, paidAt, validatedId]
-    )
+    // What a cancelled draft billed was released, so it stays cancelled
+    if (currentRow.status === 'CANCELLED') {
+      return { error: { code: 'UPDATE_STATUS_ERROR', message: 'Cancelled documents cannot change status' } }
+    }
+    
+    // Issued documents stay on record: they never go back to draft, from
+    // where they could be deleted, and are never cancelled
+    if ((validatedStatus === 'DRAFT' || validatedStatus === 'CANCELLED') && ISSUED_STATUSES.includes(currentRow.status)) {
+      return { error: { code: 'UPDATE_STATUS_ERROR', message: currentRow.kind === 'CREDIT_NOTE' ? 'Issued credit notes cannot be set back to draft or cancelled' : 'Issued invoices cannot be set back to draft or cancelled; issue a credit note instead' } }
+    }
+    
+    // Invoice payment statuses follow the payment ledger: marking as paid
+    // records a payment for whatever is still owed
+    if (currentRow.kind !== 'CREDIT_NOTE') {
+      if (validatedStatus === 'PAID') {
+        const balance = await client.transaction(async (tx: any) => {
+          const balance = await getPaymentBalance(validatedId, tx)
+          if (Number(balance.outstanding) <= 0) {
+            return refreshPaymentStatus(validatedId, tx)
+          }
+          const recorded = await recordPayment({
+            invoiceId: validatedId,
+            date: new Date().toISOString().slice(0, 10),
+            amount: balance.outstanding,
+            notes: 'Marked as paid'
+          }, tx)
+          return recorded.balance
+        }) as PaymentBalance
+        return { ok: true, balance }
+      }
+      const payments = await client.query('SELECT 1 FROM payment WHERE invoice_id = $1 LIMIT 1', [validatedId])
+      if (payments.rows.length > 0) {
+        return { error: { code: 'UPDATE_STATUS_ERROR', message: 'This invoice has payments; delete them to mark it as unpaid' } }
+      }
+    }
+    
+    const paidAt = validatedStatus === 'PAID' ? new Date().toISOString() : null
+    await client.transaction(async (tx: any) => {
+      if (validatedStatus === 'CANCELLED') {
+        await cancelDraft(validatedId, tx)
+        return
+      }
+      const res = await tx.query(
+        'UPDATE invoice SET status = $1, paid_at = $2, updated_at = current_timestamp WHERE id = $3 RETURNING original_invoice_id',
+        [validatedStatus, paidAt, validatedId]
+      )
+      // An issued credit note reduces what is owed on its invoice
+      const originalId = (res.rows[0] as any)?.original_invoice_id
+      if (originalId) {
+        await refreshPaymentStatus(originalId, tx)
+      }
+    })
     
     return { ok: true }
   } catch (error) {
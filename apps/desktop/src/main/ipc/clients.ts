@@ -2,13 +2,17 @@ import { ipcMain } from 'electron'
 import { z } from 'zod'
 import { client } from '@bills/db'
 import { generateId } from './utils'
+import { INVOICE_LANGUAGES } from '../i18n'
 
 const createClientSchema = z.object({
   name: z.string().min(1),
   email: z.string().email().optional().or(z.literal('')),
   taxId: z.string().optional().or(z.literal('')),
   address: z.string().optional().or(z.literal('')),
-  phone: z.string().optional().or(z.literal(''))
+  phone: z.string().optional().or(z.literal('')),
+  remindersOptOut: z.boolean().optional(),
+  language: z.enum(INVOICE_LANGUAGES).optional().or(z.literal('')),
+  locale: z.string().max(16).optional().or(z.literal('')) // Overrides the language's number and date formats, e.g. 'en-US'
 })
 
 const updateClientSchema = z.object({
@@ -17,7 +21,10 @@ const updateClientSchema = z.object({
   email: z.string().email().optional().or(z.literal('')),
   taxId: z.string().optional().or(z.literal('')),
   address: z.string().optional().or(z.literal('')),
-  phone: z.string().optional().or(z.literal(''))
+  phone: z.string().optional().or(z.literal('')),
+  remindersOptOut: z.boolean().optional(),
+  language: z.enum(INVOICE_LANGUAGES).optional().or(z.literal('')),
+  locale: z.string().max(16).optional().or(z.literal('')) // Overrides the language's number and date formats, e.g. 'en-US'
 })
 
 
@@ -43,8 +50,8 @@ ipcMain.handle('client:create', async (_e, input) => {
     const data = createClientSchema.parse(input)
     const id = generateId()
     await client.query(
-      'INSERT INTO client (id, name, email, tax_id, address, phone, created_at, updated_at) VALUES ($1, $2, $3, $4, $5, $6, current_timestamp, current_timestamp)',
-      [id, data.name, data.email || null, data.taxId || null, data.address || null, data.phone || null]
+      'INSERT INTO client (id, name, email, tax_id, address, phone, reminders_opt_out, language, locale, created_at, updated_at) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, current_timestamp, current_timestamp)',
+      [id, data.name, data.email || null, data.taxId || null, data.address || null, data.phone || null, !!data.remindersOptOut, data.language || null, data.locale || null]
     )
     return { ok: true, id }
   } catch (error) {
@@ -56,7 +63,7 @@ ipcMain.handle('client:create', async (_e, input) => {
 ipcMain.handle('client:get', async (_e, id: string) => {
   try {
     const validated = z.string().min(1).parse(id)
-    const res = await client.query('SELECT id, name, email, tax_id, address, phone, created_at, updated_at FROM client WHERE id = $1', [validated])
+    const res = await client.query('SELECT id, name, email, tax_id, address, phone, reminders_opt_out, language, locale, created_at, updated_at FROM client WHERE id = $1', [validated])
     const row = res.rows[0] as any
     if (!row) return { error: { code: 'CLIENT_NOT_FOUND', message: 'Client not found' } }
     return { client: {
@@ -66,6 +73,9 @@ ipcMain.handle('client:get', async (_e, id: string) => {
       taxId: row.tax_id,
       address: row.address,
       phone: row.phone,
+      remindersOptOut: !!row.reminders_opt_out,
+      language: row.language,
+      locale: row.locale,
       createdAt: row.created_at,
       updatedAt: row.updated_at
     }}
@@ -78,8 +88,8 @@ ipcMain.handle('client:update', async (_e, input) => {
   try {
     const data = updateClientSchema.parse(input)
     await client.query(
-      `UPDATE client SET name=$1, email=$2, tax_id=$3, address=$4, phone=$5, updated_at=current_timestamp WHERE id=$6`,
-      [data.name, data.email || null, data.taxId || null, data.address || null, data.phone || null, data.id]
+      `UPDATE client SET name=$1, email=$2, tax_id=$3, address=$4, phone=$5, reminders_opt_out=COALESCE($6, reminders_opt_out), language=$7, locale=$8, updated_at=current_timestamp WHERE id=$9`,
+      [data.name, data.email || null, data.taxId || null, data.address || null, data.phone || null, data.remindersOptOut ?? null, data.language || null, data.locale || null, data.id]
     )
     return { ok: true }
   } catch (error) {
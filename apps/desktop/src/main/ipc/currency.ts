@@ -0,0 +1,87 @@
+import { ipcMain, dialog } from 'electron'
+import { promises as fs } from 'node:fs'
+import { z } from 'zod'
+import { client, createAutoBackupIfPossible } from '@bills/db'
+import {
+  exchangeRateInputSchema,
+  getBaseCurrency,
+  setBaseCurrency,
+  getExchangeRates,
+  saveExchangeRate,
+  deleteExchangeRate,
+  importExchangeRates,
+  convertPendingAmounts,
+  getMissingRates
+} from '../currency'
+
+// Base currency, its exchange rates and the currencies still missing a rate
+ipcMain.handle('currency:getRates', async () => {
+  try {
+    return { baseCurrency: await getBaseCurrency(), rates: await getExchangeRates(), missing: await getMissingRates() }
+  } catch (error) {
+    return { error: { code: 'GET_EXCHANGE_RATES_ERROR', message: error instanceof Error ? error.message : 'Unknown error' } }
+  }
+})
+
+// Converts every invoice, payment and expense again against the new base
+ipcMain.handle('currency:setBase', async (_e, currency: unknown) => {
+  try {
+    const code = z.string().parse(currency)
+    const missing = await client.transaction((tx: any) => setBaseCurrency(code, tx))
+    createAutoBackupIfPossible()
+    return { ok: true, missing }
+  } catch (error) {
+    return { error: { code: 'SET_BASE_CURRENCY_ERROR', message: error instanceof Error ? error.message : 'Unknown error' } }
+  }
+})
+
+// A new rate also converts the documents that were waiting for it
+ipcMain.handle('currency:saveRate', async (_e, input: unknown) => {
+  try {
+    const data = exchangeRateInputSchema.parse(input)
+    const id = await client.transaction(async (tx: any) => {
+      const id = await saveExchangeRate(data, 'MANUAL', tx)
+      await convertPendingAmounts(tx)
+      return id
+    })
+    createAutoBackupIfPossible()
+    return { ok: true, id, missing: await getMissingRates() }
+  } catch (error) {
+    return { error: { code: 'SAVE_EXCHANGE_RATE_ERROR', message: error instanceof Error ? error.message : 'Unknown error' } }
+  }
+})
+
+// Documents already converted keep the rate they were converted with
+ipcMain.handle('currency:deleteRate', async (_e, rateId: unknown) => {
+  try {
+    const id = z.string().min(1).parse(rateId)
+    await deleteExchangeRate(id)
+    createAutoBackupIfPossible()
+    return { ok: true }
+  } catch (error) {
+    return { error: { code: 'DELETE_EXCHANGE_RATE_ERROR', message: error instanceof Error ? error.message : 'Unknown error' } }
+  }
+})
+
+// Pick a CSV file of `date,currency,rate` rows and import it
+ipcMain.handle('currency:importRates', async () => {
+  try {
+    const result = await dialog.showOpenDialog({
+      title: 'Import Exchange Rates',
+      properties: ['openFile'],
+      filters: [{ name: 'CSV', extensions: ['csv', 'txt'] }]
+    })
+    if (result.canceled || result.filePaths.length === 0) {
+      return { canceled: true }
+    }
+    const text = await fs.readFile(result.filePaths[0], 'utf-8')
+    const { imported, problems } = await client.transaction((tx: any) => importExchangeRates(text, tx)) as { imported: number; problems: string[] }
+    if (problems.length > 0) {
+      return { error: { code: 'INVALID_EXCHANGE_RATES', message: problems.join('; ') }, problems }
+    }
+    createAutoBackupIfPossible()
+    return { ok: true, imported, missing: await getMissingRates() }
+  } catch (error) {
+    return { error: { code: 'IMPORT_EXCHANGE_RATES_ERROR', message: error instanceof Error ? error.message : 'Unknown error' } }
+  }
+})
@@ -6,6 +6,9 @@ import {
   client,
 } from "@bills/db";
 import { z } from "zod";
+import { getAgingReport } from "../receivables";
+import { convertPendingAmounts, getBaseCurrency, getMissingRates } from "../currency";
+import { creditedAmountSql } from "../payments";
 
 // Backup and Restore IPC Handlers
 
@@ -96,18 +99,27 @@ ipcMain.handle("data:getBills", async (_, filters: unknown) => {
         i.expected_payment_date,
         i.amount,
         i.currency,
+        i.exchange_rate,
+        i.base_amount,
         i.status,
         i.file_path,
         i.folder_path,
         i.description,
         i.notes,
         i.paid_at,
+        i.kind,
+        i.original_invoice_id,
+        i.project_id,
+        p.name as project_name,
+        (SELECT COALESCE(SUM(p.amount), 0) FROM payment p WHERE p.invoice_id = i.id) as paid_amount,
+        ${creditedAmountSql("i.id")} as credited_amount,
         i.created_at,
         i.updated_at,
         c.name as client_name,
         c.email as client_email
       FROM invoice i
       LEFT JOIN client c ON i.client_id = c.id
+      LEFT JOIN project p ON i.project_id = p.id
     `;
 
     const queryParams: any[] = [];
@@ -131,17 +143,28 @@ ipcMain.handle("data:getBills", async (_, filters: unknown) => {
       expectedPaymentDate: row.expected_payment_date,
       amount: row.amount,
       currency: row.currency,
+      exchangeRate: row.exchange_rate,
+      baseAmount: row.base_amount,
       status: row.status,
       filePath: row.file_path,
       folderPath: row.folder_path,
       description: row.description,
       notes: row.notes,
       paidAt: row.paid_at,
+      kind: row.kind || "INVOICE",
+      originalInvoiceId: row.original_invoice_id,
+      projectId: row.project_id,
+      projectName: row.project_name,
+      paidAmount: row.paid_amount,
+      // Credit notes are negative and reduce what is owed
+      outstanding: row.kind === "CREDIT_NOTE"
+        ? "0.00"
+        : Math.max(parseFloat(row.amount) + parseFloat(row.credited_amount) - parseFloat(row.paid_amount), 0).toFixed(2),
       createdAt: row.created_at,
       updatedAt: row.updated_at,
     }));
 
-    return { bills };
+    return { bills, baseCurrency: await getBaseCurrency() };
   } catch (error) {
     console.error("❌ Failed to get bills:", error);
     return {
@@ -173,14 +196,23 @@ ipcMain.handle("data:getExpenses", async (_, filters: unknown) => {
         e.date,
         e.amount,
         e.currency,
+        e.exchange_rate,
+        e.base_amount,
         e.file_path,
         e.notes,
         e.created_at,
         e.updated_at,
         i.number as invoice_number,
-        i.id as invoice_id
+        i.id as invoice_id,
+        e.project_id,
+        p.name as project_name,
+        e.billable_client_id,
+        bc.name as billable_client_name,
+        e.markup
       FROM expense e
       LEFT JOIN invoice i ON e.invoice_id = i.id
+      LEFT JOIN project p ON e.project_id = p.id
+      LEFT JOIN client bc ON e.billable_client_id = bc.id
     `;
 
     const queryParams: any[] = [];
@@ -211,15 +243,22 @@ ipcMain.handle("data:getExpenses", async (_, filters: unknown) => {
       date: row.date,
       amount: row.amount,
       currency: row.currency,
+      exchangeRate: row.exchange_rate,
+      baseAmount: row.base_amount,
       filePath: row.file_path,
       notes: row.notes,
       invoiceNumber: row.invoice_number,
       invoiceId: row.invoice_id,
+      projectId: row.project_id,
+      projectName: row.project_name,
+      billableClientId: row.billable_client_id,
+      billableClientName: row.billable_client_name,
+      markup: row.markup,
       createdAt: row.created_at,
       updatedAt: row.updated_at,
     }));
 
-    return { expenses };
+    return { expenses, baseCurrency: await getBaseCurrency() };
   } catch (error) {
     console.error("❌ Failed to get expenses:", error);
     return {
@@ -238,15 +277,21 @@ ipcMain.handle("data:getStats", async () => {
     const currentYear = now.getFullYear();
     const lastYear = currentYear - 1;
 
-    // Get total income (all invoices)
+    // Every sum below is in the base currency. Documents in other currencies
+    // without a rate for their date are left out and listed in missingRates.
+    await convertPendingAmounts();
+    const baseCurrency = await getBaseCurrency();
+
+    // Get total income (all invoices). Credit notes are stored with negative
+    // amounts, so every income sum below is already net of them.
     const totalIncomeResult = await client.query(
-      "SELECT COALESCE(SUM(amount), 0) as total FROM invoice"
+      "SELECT COALESCE(SUM(base_amount), 0) as total FROM invoice WHERE status <> 'CANCELLED'"
     );
     const totalIncome = totalIncomeResult.rows[0] as { total: string };
 
     // Get total expenses
     const totalExpensesResult = await client.query(
-      "SELECT COALESCE(SUM(amount), 0) as total FROM expense"
+      "SELECT COALESCE(SUM(base_amount), 0) as total FROM expense"
     );
     const totalExpenses = totalExpensesResult.rows[0] as { total: string };
 
@@ -256,14 +301,14 @@ ipcMain.handle("data:getStats", async () => {
 
     // Get last year income
     const lastYearIncomeResult = await client.query(
-      "SELECT COALESCE(SUM(amount), 0) as total FROM invoice WHERE EXTRACT(YEAR FROM issue_date) = $1",
+      "SELECT COALESCE(SUM(base_amount), 0) as total FROM invoice WHERE status <> 'CANCELLED' AND EXTRACT(YEAR FROM issue_date) = $1",
       [lastYear]
     );
     const lastYearIncome = lastYearIncomeResult.rows[0] as { total: string };
 
     // Get last year expenses
     const lastYearExpensesResult = await client.query(
-      "SELECT COALESCE(SUM(amount), 0) as total FROM expense WHERE EXTRACT(YEAR FROM date) = $1",
+      "SELECT COALESCE(SUM(base_amount), 0) as total FROM expense WHERE EXTRACT(YEAR FROM date) = $1",
       [lastYear]
     );
     const lastYearExpenses = lastYearExpensesResult.rows[0] as { total: string };
@@ -283,8 +328,9 @@ ipcMain.handle("data:getStats", async () => {
             WHEN EXTRACT(MONTH FROM issue_date) BETWEEN 7 AND 9 THEN 3
             ELSE 4
           END as quarter,
-          COALESCE(SUM(amount), 0) as income
+          COALESCE(SUM(base_amount), 0) as income
         FROM invoice 
+        WHERE status <> 'CANCELLED'
         GROUP BY EXTRACT(YEAR FROM issue_date), 
           CASE 
             WHEN EXTRACT(MONTH FROM issue_date) BETWEEN 1 AND 3 THEN 1
@@ -302,7 +348,7 @@ ipcMain.handle("data:getStats", async () => {
             WHEN EXTRACT(MONTH FROM date) BETWEEN 7 AND 9 THEN 3
             ELSE 4
           END as quarter,
-          COALESCE(SUM(amount), 0) as expenses
+          COALESCE(SUM(base_amount), 0) as expenses
         FROM expense 
         GROUP BY EXTRACT(YEAR FROM date), 
           CASE 
@@ -334,7 +380,7 @@ ipcMain.handle("data:getStats", async () => {
 
     // Get current year data for comparison
     const currentYearIncomeResult = await client.query(
-      "SELECT COALESCE(SUM(amount), 0) as total FROM invoice WHERE EXTRACT(YEAR FROM issue_date) = $1",
+      "SELECT COALESCE(SUM(base_amount), 0) as total FROM invoice WHERE status <> 'CANCELLED' AND EXTRACT(YEAR FROM issue_date) = $1",
       [currentYear]
     );
     const currentYearIncome = currentYearIncomeResult.rows[0] as {
@@ -342,7 +388,7 @@ ipcMain.handle("data:getStats", async () => {
     };
 
     const currentYearExpensesResult = await client.query(
-      "SELECT COALESCE(SUM(amount), 0) as total FROM expense WHERE EXTRACT(YEAR FROM date) = $1",
+      "SELECT COALESCE(SUM(base_amount), 0) as total FROM expense WHERE EXTRACT(YEAR FROM date) = $1",
       [currentYear]
     );
     const currentYearExpenses = currentYearExpensesResult.rows[0] as {
@@ -353,7 +399,28 @@ ipcMain.handle("data:getStats", async () => {
       parseFloat(currentYearIncome.total) -
       parseFloat(currentYearExpenses.total);
 
+    // Totals in the currencies the documents were issued in
+    const byCurrencyResult = await client.query(`
+      SELECT currency, SUM(income) as income, SUM(expenses) as expenses
+      FROM (
+        SELECT COALESCE(currency, 'EUR') as currency, amount as income, 0 as expenses FROM invoice WHERE status <> 'CANCELLED'
+        UNION ALL
+        SELECT COALESCE(currency, 'EUR') as currency, 0 as income, amount as expenses FROM expense
+      ) documents
+      GROUP BY currency
+      ORDER BY currency
+    `);
+
+    const byCurrency = byCurrencyResult.rows.map((row: any) => ({
+      currency: row.currency,
+      income: parseFloat(row.income),
+      expenses: parseFloat(row.expenses),
+    }));
+
     return {
+      baseCurrency,
+      byCurrency,
+      missingRates: await getMissingRates(),
       totals: {
         income: parseFloat(totalIncome.total),
         expenses: parseFloat(totalExpenses.total),
@@ -381,3 +448,18 @@ ipcMain.handle("data:getStats", async () => {
     };
   }
 });
+
+// Outstanding receivables per client, bucketed by days past due
+ipcMain.handle("data:getAgingReport", async () => {
+  try {
+    return { report: await getAgingReport() };
+  } catch (error) {
+    console.error("❌ Failed to get aging report:", error);
+    return {
+      error: {
+        code: "GET_AGING_REPORT_ERROR",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+    };
+  }
+});
@@ -1,24 +1,73 @@
 import { ipcMain } from 'electron'
 import { z } from 'zod'
-import nodemailer from 'nodemailer'
 import { client } from '@bills/db'
+import { getEmailHistory } from '../email-log'
+import { getEmailTemplate } from '../email-templates'
+import { getClientLanguage, invoiceLabels } from '../i18n'
+import { getSmtpConfig } from '../mail'
+import { getUndeliveredEmails, retryOutboxEmail, sendOrQueue } from '../outbox'
+import { getQuote, loadQuoteTemplateContext } from '../quotes'
+import { LINE_VARIABLES, loadTemplateContext, renderTemplate, TEMPLATE_HELPERS, TEMPLATE_VARIABLES, templateProblems, type TemplateContext } from '../templates'
 
+// Subject and body default to those of the library template, if one is given
 const sendInvoiceEmailSchema = z.object({
   billId: z.string().min(1),
-  subject: z.string().min(1),
-  htmlBody: z.string().min(1),
+  templateId: z.string().optional(),
+  subject: z.string().min(1).optional(),
+  htmlBody: z.string().min(1).optional(),
   attachmentPath: z.string().optional(),
   ccEmails: z.array(z.string().email()).optional()
 })
 
-async function getSmtpConfig(): Promise<any> {
-  try {
-    const result = await client.query('SELECT smtp_config FROM setting WHERE id = 1')
-    const text = (result.rows?.[0] as any)?.smtp_config as string | undefined
-    return text ? JSON.parse(text) : null
-  } catch (error) {
-    return null
+const renderEmailSchema = z.object({
+  billId: z.string().min(1),
+  templateId: z.string().optional(),
+  subject: z.string().optional(),
+  htmlBody: z.string().optional()
+})
+
+// Quotes are sent with their PDF, the one they are sent for
+const sendQuoteEmailSchema = z.object({
+  quoteId: z.string().min(1),
+  templateId: z.string().optional(),
+  subject: z.string().min(1).optional(),
+  htmlBody: z.string().min(1).optional(),
+  attachPdf: z.boolean().default(true),
+  ccEmails: z.array(z.string().email()).optional()
+})
+
+const renderQuoteEmailSchema = z.object({
+  quoteId: z.string().min(1),
+  templateId: z.string().optional(),
+  subject: z.string().optional(),
+  htmlBody: z.string().optional()
+})
+
+/**
+ * Subject and body are templates, filled in with the invoice (or quote)
+ * they are sent for, whose context `loadContext` builds. A library template
+ * supplies whichever of them isn't given. Dates and amounts follow the
+ * client's language, or the template's for clients without one.
+ */
+async function renderEmail(
+  loadContext: (locale?: string) => Promise<TemplateContext>,
+  email: { templateId?: string; subject?: string; htmlBody?: string }
+) {
+  const template = email.templateId ? await getEmailTemplate(email.templateId) : null
+  if (email.templateId && !template) {
+    return { error: { code: 'TEMPLATE_NOT_FOUND', message: 'Email template not found' } }
+  }
+  const subject = email.subject ?? template?.subjectTemplate ?? ''
+  const htmlBody = email.htmlBody ?? template?.bodyTemplate ?? ''
+  if (!subject.trim() || !htmlBody.trim()) {
+    return { error: { code: 'VALIDATION_ERROR', message: 'Subject and body are required' } }
+  }
+  const problems = templateProblems({ Subject: subject, Body: htmlBody })
+  if (problems.length > 0) {
+    return { error: { code: 'INVALID_TEMPLATE', message: problems.join('; ') } }
   }
+  const context = await loadContext(template?.language)
+  return { subject: renderTemplate(subject, context), html: renderTemplate(htmlBody, context, { html: true }) }
 }
 
 async function getBillDetails(billId: string) {
@@ -30,7 +79,8 @@ async function getBillDetails(billId: string) {
         i.currency,
         i.file_path,
         c.name as client_name,
-        c.email as client_email
+        c.email as client_email,
+        c.language as client_language
       FROM invoice i
       LEFT JOIN client c ON i.client_id = c.id
       WHERE i.id = $1
@@ -47,23 +97,14 @@ async function getBillDetails(billId: string) {
       currency: row.currency,
       filePath: row.file_path,
       clientName: row.client_name,
-      clientEmail: row.client_email
+      clientEmail: row.client_email,
+      clientLanguage: row.client_language
     }
   } catch (error) {
     return null
   }
 }
 
-async function getCompanyProfile(): Promise<any> {
-  try {
-    const result = await client.query('SELECT company_profile FROM setting WHERE id = 1')
-    const text = (result.rows?.[0] as any)?.company_profile as string | undefined
-    return text ? JSON.parse(text) : null
-  } catch (error) {
-    return null
-  }
-}
-
 ipcMain.handle('email:sendInvoice', async (_, data: unknown) => {
   try {
     // Validate input
@@ -81,70 +122,47 @@ ipcMain.handle('email:sendInvoice', async (_, data: unknown) => {
       return { error: { code: 'BILL_NOT_FOUND', message: 'Bill not found' } }
     }
     
-    // Get company profile for sender info
-    const companyProfile = await getCompanyProfile()
-    
     // Check if client has email
     if (!billDetails.clientEmail) {
       return { error: { code: 'NO_CLIENT_EMAIL', message: 'Client email address is not available' } }
     }
     
-    // Create transporter
-    const transporter = nodemailer.createTransporter({
-      host: smtpConfig.host,
-      port: smtpConfig.port,
-      secure: smtpConfig.secure,
-      auth: {
-        user: smtpConfig.user,
-        pass: smtpConfig.password
-      }
-    })
-    
-    // Verify connection
-    await transporter.verify()
-    
-    // Prepare email options
-    const fromEmail = companyProfile?.email || smtpConfig.user
-    const fromName = companyProfile?.name || 'Billing App'
-    
-    const mailOptions: any = {
-      from: `${fromName} <${fromEmail}>`,
-      to: billDetails.clientEmail,
-      subject: parsed.subject,
-      html: parsed.htmlBody
+    const rendered = await renderEmail(locale => loadTemplateContext(parsed.billId, { locale }), parsed)
+    if ('error' in rendered) {
+      return rendered
     }
     
-    // Add CC recipients if provided
-    if (parsed.ccEmails && parsed.ccEmails.length > 0) {
-      mailOptions.cc = parsed.ccEmails.join(', ')
-    }
+    // Send through the outbox: if the SMTP server can't be reached the email is
+    // retried later. A draft is issued (SENT) once its email leaves
+    const result = await sendOrQueue({
+      invoiceId: parsed.billId,
+      source: 'MANUAL',
+      to: [billDetails.clientEmail],
+      cc: parsed.ccEmails,
+      subject: rendered.subject,
+      html: rendered.html,
+      attachments: billDetails.filePath && parsed.attachmentPath
+        ? [{ filename: invoiceLabels(billDetails.clientLanguage).invoiceFile(billDetails.number), path: parsed.attachmentPath }]
+        : []
+    }, { markInvoiceSent: true })
     
-    // Add attachment if PDF file exists
-    if (billDetails.filePath && parsed.attachmentPath) {
-      try {
-        const fs = await import('node:fs')
-        await fs.promises.access(parsed.attachmentPath)
-        mailOptions.attachments = [{
-          filename: `Factura-${billDetails.number}.pdf`,
-          path: parsed.attachmentPath
-        }]
-      } catch (error) {
-        console.warn('PDF attachment not found, sending without attachment:', error)
+    if (result.status === 'QUEUED') {
+      return {
+        queued: true,
+        outboxId: result.outboxId,
+        message: result.error,
+        recipient: billDetails.clientEmail,
+        subject: rendered.subject
       }
     }
     
-    // Send email
-    const info = await transporter.sendMail(mailOptions)
-    
-    const ccInfo = parsed.ccEmails && parsed.ccEmails.length > 0 ? ` (CC: ${parsed.ccEmails.join(', ')})` : ''
-    console.log(`📧 Email sent to ${billDetails.clientEmail}${ccInfo} - Message ID: ${info.messageId}`)
-    
     return { 
       success: true, 
-      messageId: info.messageId,
+      messageId: result.messageId,
       recipient: billDetails.clientEmail,
       ccRecipients: parsed.ccEmails,
-      subject: parsed.subject
+      subject: rendered.subject,
+      warning: result.warning
     }
   } catch (error) {
     console.error('Email sending error:', error)
@@ -161,3 +179,90 @@ ipcMain.handle('email:sendInvoice', async (_, data: unknown) => {
     }
   }
 })
+
+// Emails sent (or attempted) for an invoice, and those still in the outbox
+ipcMain.handle('email:getHistory', async (_e, billId: string) => {
+  try {
+    const id = z.string().min(1).parse(billId)
+    return { emails: await getEmailHistory(id), pending: await getUndeliveredEmails(id) }
+  } catch (error) {
+    return { error: { code: 'GET_EMAIL_HISTORY_ERROR', message: error instanceof Error ? error.message : 'Unknown error' } }
+  }
+})
+
+// Try an undelivered email again right away
+ipcMain.handle('email:retry', async (_e, outboxId: string) => {
+  try {
+    const id = z.string().min(1).parse(outboxId)
+    return { ok: true, result: await retryOutboxEmail(id) }
+  } catch (error) {
+    return { error: { code: 'RETRY_EMAIL_ERROR', message: error instanceof Error ? error.message : 'Unknown error' } }
+  }
+})
+
+// Preview of an invoice email as it would be sent
+ipcMain.handle('email:render', async (_e, data: unknown) => {
+  try {
+    const parsed = renderEmailSchema.parse(data)
+    return await renderEmail(locale => loadTemplateContext(parsed.billId, { locale }), parsed)
+  } catch (error) {
+    return { error: { code: 'RENDER_EMAIL_ERROR', message: error instanceof Error ? error.message : 'Unknown error' } }
+  }
+})
+
+// A draft quote becomes SENT once the email leaves, now or later from the outbox
+ipcMain.handle('email:sendQuote', async (_e, data: unknown) => {
+  try {
+    const parsed = sendQuoteEmailSchema.parse(data)
+    const smtpConfig = await getSmtpConfig()
+    if (!smtpConfig) {
+      return { error: { code: 'NO_SMTP_CONFIG', message: 'SMTP configuration is not set up' } }
+    }
+    const quote = await getQuote(parsed.quoteId)
+    if (!quote.clientEmail) {
+      return { error: { code: 'NO_CLIENT_EMAIL', message: 'Client email address is not available' } }
+    }
+    const rendered = await renderEmail(locale => loadQuoteTemplateContext(parsed.quoteId, { locale }), parsed)
+    if ('error' in rendered) {
+      return rendered
+    }
+
+    const labels = invoiceLabels((await getClientLanguage({ id: quote.clientId })).language)
+    const result = await sendOrQueue({
+      invoiceId: null,
+      quoteId: quote.id,
+      source: 'MANUAL',
+      to: [quote.clientEmail],
+      cc: parsed.ccEmails,
+      subject: rendered.subject,
+      html: rendered.html,
+      attachments: parsed.attachPdf && quote.filePath
+        ? [{ filename: labels.quoteFile(quote.number), path: quote.filePath }]
+        : []
+    })
+    if (result.status === 'QUEUED') {
+      return { queued: true, outboxId: result.outboxId, message: result.error, recipient: quote.clientEmail, subject: rendered.subject }
+    }
+    return { success: true, messageId: result.messageId, recipient: quote.clientEmail, ccRecipients: parsed.ccEmails, subject: rendered.subject, warning: result.warning }
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return { error: { code: 'VALIDATION_ERROR', message: 'Invalid email data provided' } }
+    }
+    return { error: { code: 'EMAIL_SEND_ERROR', message: error instanceof Error ? error.message : 'Unknown email error' } }
+  }
+})
+
+// Preview of a quote email as it would be sent
+ipcMain.handle('email:renderQuote', async (_e, data: unknown) => {
+  try {
+    const parsed = renderQuoteEmailSchema.parse(data)
+    return await renderEmail(locale => loadQuoteTemplateContext(parsed.quoteId, { locale }), parsed)
+  } catch (error) {
+    return { error: { code: 'RENDER_EMAIL_ERROR', message: error instanceof Error ? error.message : 'Unknown error' } }
+  }
+})
+
+// Variables and helpers available in email templates
+ipcMain.handle('email:getTemplateCatalogue', async () => {
+  return { variables: TEMPLATE_VARIABLES, lineVariables: LINE_VARIABLES, helpers: TEMPLATE_HELPERS }
+})
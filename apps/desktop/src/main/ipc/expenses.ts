@@ -7,13 +7,24 @@ import { generateObject } from 'ai'
 import { client, createAutoBackupIfPossible } from '@bills/db'
 import { getDataRoot, getExpensesFolder, ensureDirectoryExists } from './settings'
 import { generateId, createError } from './utils'
+import { convertExpense, currencyCodeSchema, getBaseCurrency } from '../currency'
+import { getUnbilledExpenses, expensesToLines, markExpensesBilled, addExpensesToDraft } from '../billable-expenses'
+import { createBill, redrawInvoicePdf } from './bills'
+import { getInvoiceLines } from '../invoice-lines'
+
+const markupSchema = z.string().refine(v => v.trim() !== '' && !isNaN(Number(v)) && Number(v) >= 0 && Number(v) < 1000, {
+  message: 'Invalid markup percentage'
+})
 
 const addExpenseSchema = z.object({
   date: z.string(), // ISO date string
   amount: z.string(),
+  currency: currencyCodeSchema.optional(), // The base currency when not given
   vendor: z.string().min(1),
   category: z.string().min(1),
-  invoiceId: z.string().optional(),
+  projectId: z.string().optional().nullable(),
+  billableClientId: z.string().optional().nullable(), // Client the expense is rebilled to
+  markup: markupSchema.optional(), // Percentage added when rebilled
   notes: z.string().optional(),
   filePath: z.string().optional() // Temporary file path for copying
 })
@@ -22,12 +33,25 @@ const updateExpenseSchema = z.object({
   id: z.string().min(1),
   date: z.string(),
   amount: z.string(),
+  currency: currencyCodeSchema.optional(), // Unchanged when not given
   vendor: z.string().min(1),
   category: z.string().min(1),
-  invoiceId: z.string().optional(),
+  projectId: z.string().optional().nullable(), // Unchanged when not given
+  billableClientId: z.string().optional().nullable(), // Unchanged when not given
+  markup: markupSchema.optional(), // Unchanged when not given
   notes: z.string().optional()
 })
 
+const billExpensesSchema = z.object({
+  clientId: z.string().min(1),
+  expenseIds: z.array(z.string().min(1)).min(1, 'Pick the expenses to bill'),
+  invoiceId: z.string().optional().nullable(), // A draft of the client; a new invoice when not given
+  issueDate: z.string().optional(), // Defaults to today
+  description: z.string().optional(),
+  taxRateId: z.string().optional().nullable(),
+  withholdingRateId: z.string().optional().nullable()
+})
+
 
 ipcMain.handle('expense:add', async (_, input) => {
   try {
@@ -71,10 +95,11 @@ ipcMain.handle('expense:add', async (_, input) => {
     }
     
     await client.query(
-      `INSERT INTO expense (id, invoice_id, vendor, category, date, amount, currency, notes, file_path, created_at, updated_at)
-       VALUES ($1, $2, $3, $4, $5, $6, 'EUR', $7, $8, current_timestamp, current_timestamp)`,
-      [expenseId, data.invoiceId || null, data.vendor, data.category, data.date, data.amount, data.notes || null, finalFilePath]
+      `INSERT INTO expense (id, vendor, category, date, amount, currency, notes, file_path, project_id, billable_client_id, markup, created_at, updated_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, current_timestamp, current_timestamp)`,
+      [expenseId, data.vendor, data.category, data.date, data.amount, data.currency || await getBaseCurrency(), data.notes || null, finalFilePath, data.projectId || null, data.billableClientId || null, data.markup || '0']
     )
+    await convertExpense(expenseId)
     
     // Create automatic backup after successful expense creation
     createAutoBackupIfPossible() // Don't await to avoid slowing down the UI response
@@ -96,14 +121,23 @@ ipcMain.handle('expense:get', async (_e, expenseId: string) => {
         e.date,
         e.amount,
         e.currency,
+        e.exchange_rate,
+        e.base_amount,
         e.file_path,
         e.notes,
         e.created_at,
         e.updated_at,
         i.number as invoice_number,
-        i.id as invoice_id
+        i.id as invoice_id,
+        e.project_id,
+        p.name as project_name,
+        e.billable_client_id,
+        bc.name as billable_client_name,
+        e.markup
       FROM expense e
       LEFT JOIN invoice i ON e.invoice_id = i.id
+      LEFT JOIN project p ON e.project_id = p.id
+      LEFT JOIN client bc ON e.billable_client_id = bc.id
       WHERE e.id = $1
       LIMIT 1`,
       [validatedId]
@@ -118,10 +152,18 @@ ipcMain.handle('expense:get', async (_e, expenseId: string) => {
         date: row.date,
         amount: row.amount,
         currency: row.currency,
+        exchangeRate: row.exchange_rate,
+        baseAmount: row.base_amount,
+        baseCurrency: await getBaseCurrency(),
         filePath: row.file_path,
         notes: row.notes,
         invoiceNumber: row.invoice_number,
         invoiceId: row.invoice_id,
+        projectId: row.project_id,
+        projectName: row.project_name,
+        billableClientId: row.billable_client_id,
+        billableClientName: row.billable_client_name,
+        markup: row.markup,
         createdAt: row.created_at,
         updatedAt: row.updated_at
       }
@@ -134,12 +176,36 @@ ipcMain.handle('expense:get', async (_e, expenseId: string) => {
 ipcMain.handle('expense:update', async (_e, input) => {
   try {
     const data = updateExpenseSchema.parse(input)
+
+    // A rebilled expense keeps what it was billed at
+    const current = await client.query(
+      `SELECT e.amount, e.currency, e.billable_client_id, e.markup, i.number AS invoice_number
+       FROM expense e LEFT JOIN invoice i ON e.invoice_id = i.id
+       WHERE e.id = $1`,
+      [data.id]
+    )
+    const currentRow = current.rows[0] as any
+    if (!currentRow) return { error: { code: 'EXPENSE_NOT_FOUND', message: 'Expense not found' } }
+    if (currentRow.invoice_number) {
+      const changed = Number(data.amount) !== Number(currentRow.amount)
+        || (data.currency !== undefined && data.currency !== currentRow.currency)
+        || (data.billableClientId !== undefined && (data.billableClientId || null) !== currentRow.billable_client_id)
+        || (data.markup !== undefined && Number(data.markup) !== Number(currentRow.markup))
+      if (changed) {
+        return { error: { code: 'UPDATE_EXPENSE_ERROR', message: `This expense was billed on invoice ${currentRow.invoice_number}; its amount and billing cannot change` } }
+      }
+    }
+
     await client.query(
       `UPDATE expense 
-       SET vendor=$1, category=$2, date=$3, amount=$4, notes=$5, invoice_id=$6, updated_at=current_timestamp
-       WHERE id=$7`,
-      [data.vendor, data.category, data.date, data.amount, data.notes || null, data.invoiceId || null, data.id]
+       SET vendor=$1, category=$2, date=$3, amount=$4, notes=$5, currency=COALESCE($6, currency),
+         project_id=CASE WHEN $7::boolean THEN project_id ELSE $8 END,
+         billable_client_id=CASE WHEN $9::boolean THEN billable_client_id ELSE $10 END,
+         markup=COALESCE($11, markup), updated_at=current_timestamp
+       WHERE id=$12`,
+      [data.vendor, data.category, data.date, data.amount, data.notes || null, data.currency ?? null, data.projectId === undefined, data.projectId || null, data.billableClientId === undefined, data.billableClientId || null, data.markup ?? null, data.id]
     )
+    await convertExpense(data.id)
     
     // Create automatic backup after successful expense update
     createAutoBackupIfPossible() // Don't await to avoid slowing down the UI response
@@ -256,12 +322,19 @@ ipcMain.handle('expense:delete', async (_, expenseId: string) => {
     const validatedId = z.string().min(1).parse(expenseId)
     
     // Get expense info
-    const result = await client.query('SELECT file_path FROM expense WHERE id = $1', [validatedId])
+    const result = await client.query(
+      'SELECT e.file_path, i.number AS invoice_number FROM expense e LEFT JOIN invoice i ON e.invoice_id = i.id WHERE e.id = $1',
+      [validatedId]
+    )
     const expense = result.rows[0]
     
     if (!expense) {
       return { error: { code: 'EXPENSE_NOT_FOUND', message: 'Expense not found' } }
     }
+    // Rebilled expenses stay on record with the invoice that carries them
+    if ((expense as any).invoice_number) {
+      return { error: { code: 'DELETE_EXPENSE_ERROR', message: `This expense was billed on invoice ${(expense as any).invoice_number}` } }
+    }
     
     // Move file to trash if it exists
     if ((expense as any).file_path) {
@@ -286,6 +359,67 @@ ipcMain.handle('expense:delete', async (_, expenseId: string) => {
   }
 })
 
+// What a client's unbilled expenses would put on an invoice
+ipcMain.handle('expense:unbilled', async (_e, clientId: unknown) => {
+  try {
+    const expenses = await getUnbilledExpenses(z.string().min(1).parse(clientId))
+    return { expenses, lines: expensesToLines(expenses) }
+  } catch (error) {
+    return createError('UNBILLED_EXPENSES_ERROR', error)
+  }
+})
+
+// Bill unbilled expenses of a client on a new draft invoice, or add them to one of its drafts
+ipcMain.handle('expense:bill', async (_e, input) => {
+  try {
+    const data = billExpensesSchema.parse(input)
+    const expenses = (await getUnbilledExpenses(data.clientId)).filter(expense => data.expenseIds.includes(expense.id))
+    if (expenses.length !== new Set(data.expenseIds).size) {
+      return { error: { code: 'BILL_EXPENSES_ERROR', message: 'Some of these expenses are not billable to this client or were billed meanwhile' } }
+    }
+
+    if (data.invoiceId) {
+      const invoiceId = data.invoiceId
+      const { number } = await client.transaction((tx: any) => addExpensesToDraft(invoiceId, expenses, tx)) as { number: string }
+      await redrawInvoicePdf(invoiceId)
+      createAutoBackupIfPossible()
+      return { ok: true, invoiceId, number, expenses: expenses.length }
+    }
+
+    // An invoice has one currency, and expenses are passed through in theirs
+    if (new Set(expenses.map(expense => expense.currency)).size > 1) {
+      return { error: { code: 'BILL_EXPENSES_ERROR', message: 'Expenses in different currencies go on separate invoices' } }
+    }
+    const clientRes = await client.query('SELECT name FROM client WHERE id = $1', [data.clientId])
+    const clientRow = clientRes.rows[0] as { name: string } | undefined
+    if (!clientRow) {
+      return { error: { code: 'BILL_EXPENSES_ERROR', message: 'Client not found' } }
+    }
+    const created = await createBill({
+      clientId: data.clientId,
+      clientName: clientRow.name,
+      issueDate: data.issueDate || new Date().toISOString().slice(0, 10),
+      currency: expenses[0].currency,
+      description: data.description,
+      lines: expensesToLines(expenses),
+      taxRateId: data.taxRateId,
+      withholdingRateId: data.withholdingRateId,
+      source: { type: 'auto' }
+    }, async (tx, invoiceId) => {
+      // Stored in the order given: one line per expense
+      const stored = await getInvoiceLines(invoiceId, tx)
+      await markExpensesBilled(expenses.map(expense => expense.id), invoiceId, stored.map(line => line.id), tx)
+    })
+    if ('error' in created) {
+      return created
+    }
+    createAutoBackupIfPossible()
+    return { ok: true, invoiceId: created.id, number: created.number, expenses: expenses.length }
+  } catch (error) {
+    return createError('BILL_EXPENSES_ERROR', error)
+  }
+})
+
 // Extract fields from an attached expense file using AI
 const ExtractedExpenseFieldsSchema = z.object({
   vendor: z.string().optional(),
@@ -0,0 +1,99 @@
+import { ipcMain } from 'electron'
+import { z } from 'zod'
+import { client } from '@bills/db'
+import { generateId } from './utils'
+import { numberingSeriesSchema, mapSeriesRow, formatInvoiceNumber } from '../numbering'
+
+// List numbering series with an example of their next number
+ipcMain.handle('numbering:list', async () => {
+  try {
+    const res = await client.query(`
+      SELECT s.*,
+        (SELECT COUNT(*) FROM invoice i WHERE i.series_id = s.id) + (SELECT COUNT(*) FROM quote q WHERE q.series_id = s.id) AS invoice_count
+      FROM numbering_series s
+      ORDER BY s.kind DESC, s.is_default DESC, s.created_at
+    `)
+    const today = new Date().toISOString().slice(0, 10)
+    return {
+      series: res.rows.map((row: any) => {
+        const series = mapSeriesRow(row)
+        return {
+          ...series,
+          invoiceCount: Number(row.invoice_count),
+          example: formatInvoiceNumber(series, today, series.nextSeq)
+        }
+      })
+    }
+  } catch (error) {
+    return { error: { code: 'GET_NUMBERING_SERIES_ERROR', message: error instanceof Error ? error.message : 'Unknown error' } }
+  }
+})
+
+// Create or update a series; the counter can only be set before the series is used
+ipcMain.handle('numbering:save', async (_e, input) => {
+  try {
+    const data = numberingSeriesSchema.parse(input)
+    const id = data.id || generateId()
+
+    await client.transaction(async (tx: any) => {
+      const existing = await tx.query('SELECT * FROM numbering_series WHERE id = $1', [id])
+      const kind = existing.rows.length > 0 ? mapSeriesRow(existing.rows[0]).kind : data.kind
+      if (data.isDefault) {
+        await tx.query('UPDATE numbering_series SET is_default = false WHERE id <> $1 AND kind = $2 AND is_default', [id, kind])
+      }
+
+      if (existing.rows.length === 0) {
+        await tx.query(
+          `INSERT INTO numbering_series (id, name, prefix, pattern, reset_yearly, next_seq, is_default, kind, created_at, updated_at)
+           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, current_timestamp, current_timestamp)`,
+          [id, data.name, data.prefix, data.pattern, data.resetYearly, data.nextSeq ?? 1, !!data.isDefault, kind]
+        )
+        return
+      }
+
+      const current = mapSeriesRow(existing.rows[0])
+      if (data.nextSeq !== undefined && data.nextSeq !== current.nextSeq) {
+        const used = await tx.query('SELECT 1 FROM invoice WHERE series_id = $1 UNION ALL SELECT 1 FROM quote WHERE series_id = $1 LIMIT 1', [id])
+        if (used.rows.length > 0) {
+          throw new Error(`${current.name} already has invoices; changing its counter would break the sequence`)
+        }
+      }
+      if (current.isDefault && data.isDefault === false) {
+        throw new Error('Pick another default series instead of unsetting this one')
+      }
+      await tx.query(
+        `UPDATE numbering_series
+         SET name = $1, prefix = $2, pattern = $3, reset_yearly = $4, next_seq = $5, is_default = $6, updated_at = current_timestamp
+         WHERE id = $7`,
+        [data.name, data.prefix, data.pattern, data.resetYearly, data.nextSeq ?? current.nextSeq, data.isDefault ?? current.isDefault, id]
+      )
+    })
+
+    return { ok: true, id }
+  } catch (error) {
+    return { error: { code: 'SAVE_NUMBERING_SERIES_ERROR', message: error instanceof Error ? error.message : 'Unknown error' } }
+  }
+})
+
+// Delete a series that has never been used and is not the default
+ipcMain.handle('numbering:delete', async (_e, seriesId: string) => {
+  try {
+    const id = z.string().min(1).parse(seriesId)
+    const res = await client.query('SELECT * FROM numbering_series WHERE id = $1', [id])
+    const row = res.rows[0] as any
+    if (!row) {
+      return { error: { code: 'NUMBERING_SERIES_NOT_FOUND', message: 'Numbering series not found' } }
+    }
+    if (row.is_default) {
+      return { error: { code: 'DELETE_NUMBERING_SERIES_ERROR', message: 'The default series cannot be deleted' } }
+    }
+    const used = await client.query('SELECT 1 FROM invoice WHERE series_id = $1 UNION ALL SELECT 1 FROM quote WHERE series_id = $1 LIMIT 1', [id])
+    if (used.rows.length > 0) {
+      return { error: { code: 'DELETE_NUMBERING_SERIES_ERROR', message: 'Series with invoices cannot be deleted' } }
+    }
+    await client.query('DELETE FROM numbering_series WHERE id = $1', [id])
+    return { ok: true }
+  } catch (error) {
+    return { error: { code: 'DELETE_NUMBERING_SERIES_ERROR', message: error instanceof Error ? error.message : 'Unknown error' } }
+  }
+})
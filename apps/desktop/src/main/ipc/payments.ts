@@ -0,0 +1,36 @@
+import { ipcMain } from 'electron'
+import { z } from 'zod'
+import { client, createAutoBackupIfPossible } from '@bills/db'
+import { paymentInputSchema, getPayments, getPaymentBalance, recordPayment, deletePayment, PaymentBalance } from '../payments'
+
+// Payment history and balance of an invoice
+ipcMain.handle('payment:list', async (_e, invoiceId: string) => {
+  try {
+    const id = z.string().min(1).parse(invoiceId)
+    return { payments: await getPayments(id), balance: await getPaymentBalance(id) }
+  } catch (error) {
+    return { error: { code: 'GET_PAYMENTS_ERROR', message: error instanceof Error ? error.message : 'Unknown error' } }
+  }
+})
+
+ipcMain.handle('payment:record', async (_e, input) => {
+  try {
+    const data = paymentInputSchema.parse(input)
+    const { id, balance } = await client.transaction((tx: any) => recordPayment(data, tx)) as { id: string; balance: PaymentBalance }
+    createAutoBackupIfPossible()
+    return { ok: true, id, payments: await getPayments(data.invoiceId), balance }
+  } catch (error) {
+    return { error: { code: 'RECORD_PAYMENT_ERROR', message: error instanceof Error ? error.message : 'Unknown error' } }
+  }
+})
+
+ipcMain.handle('payment:delete', async (_e, paymentId: string) => {
+  try {
+    const id = z.string().min(1).parse(paymentId)
+    const { invoiceId, balance } = await client.transaction((tx: any) => deletePayment(id, tx)) as { invoiceId: string; balance: PaymentBalance }
+    createAutoBackupIfPossible()
+    return { ok: true, payments: await getPayments(invoiceId), balance }
+  } catch (error) {
+    return { error: { code: 'DELETE_PAYMENT_ERROR', message: error instanceof Error ? error.message : 'Unknown error' } }
+  }
+})
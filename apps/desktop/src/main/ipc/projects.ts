@@ -0,0 +1,71 @@
+import { ipcMain } from 'electron'
+import { z } from 'zod'
+import { createAutoBackupIfPossible } from '@bills/db'
+import { convertPendingAmounts, getBaseCurrency } from '../currency'
+import {
+  projectInputSchema,
+  listProjects,
+  getProject,
+  createProject,
+  updateProject,
+  deleteProject,
+  getProjectProfitability
+} from '../projects'
+
+ipcMain.handle('project:list', async () => {
+  try {
+    return { projects: await listProjects() }
+  } catch (error) {
+    return { error: { code: 'LIST_PROJECTS_ERROR', message: error instanceof Error ? error.message : 'Unknown error' } }
+  }
+})
+
+// Income, expenses and hours of every project, in the base currency
+ipcMain.handle('project:profitability', async () => {
+  try {
+    await convertPendingAmounts()
+    return { projects: await getProjectProfitability(), baseCurrency: await getBaseCurrency() }
+  } catch (error) {
+    return { error: { code: 'PROJECT_PROFITABILITY_ERROR', message: error instanceof Error ? error.message : 'Unknown error' } }
+  }
+})
+
+ipcMain.handle('project:get', async (_e, projectId: unknown) => {
+  try {
+    const id = z.string().min(1).parse(projectId)
+    return { project: await getProject(id) }
+  } catch (error) {
+    return { error: { code: 'GET_PROJECT_ERROR', message: error instanceof Error ? error.message : 'Unknown error' } }
+  }
+})
+
+ipcMain.handle('project:create', async (_e, input) => {
+  try {
+    const project = await createProject(projectInputSchema.parse(input))
+    createAutoBackupIfPossible()
+    return { ok: true, project }
+  } catch (error) {
+    return { error: { code: 'CREATE_PROJECT_ERROR', message: error instanceof Error ? error.message : 'Unknown error' } }
+  }
+})
+
+ipcMain.handle('project:update', async (_e, projectId: unknown, input: unknown) => {
+  try {
+    const id = z.string().min(1).parse(projectId)
+    const project = await updateProject(id, projectInputSchema.parse(input))
+    createAutoBackupIfPossible()
+    return { ok: true, project }
+  } catch (error) {
+    return { error: { code: 'UPDATE_PROJECT_ERROR', message: error instanceof Error ? error.message : 'Unknown error' } }
+  }
+})
+
+ipcMain.handle('project:delete', async (_e, projectId: unknown) => {
+  try {
+    const id = z.string().min(1).parse(projectId)
+    await deleteProject(id)
+    return { ok: true }
+  } catch (error) {
+    return { error: { code: 'DELETE_PROJECT_ERROR', message: error instanceof Error ? error.message : 'Unknown error' } }
+  }
+})
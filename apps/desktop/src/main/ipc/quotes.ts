@@ -0,0 +1,253 @@
+import { ipcMain, app } from 'electron'
+import { promises as fs } from 'node:fs'
+import { join } from 'node:path'
+import { z } from 'zod'
+import { client, createAutoBackupIfPossible } from '@bills/db'
+import { generateInvoicePdf } from '../pdf'
+import { getClientLanguage } from '../i18n'
+import { getCompanyProfile } from '../mail'
+import { toInvoiceItems, type Queryable } from '../invoice-lines'
+import { peekInvoiceNumber } from '../numbering'
+import {
+  Quote,
+  QuoteInput,
+  quoteInputSchema,
+  quoteStatusSchema,
+  listQuotes,
+  getQuote,
+  getQuoteLines,
+  getQuoteTaxSummary,
+  prepareQuoteTaxes,
+  createQuote,
+  updateQuote,
+  setQuoteStatus,
+  deleteQuote,
+  assertConvertible,
+  markQuoteConverted
+} from '../quotes'
+import { getDataRoot, getQuotesFolder, ensureDirectoryExists } from './settings'
+import { createBill, findOrCreateClient, getClientParty } from './bills'
+
+const nextNumberSchema = z.object({
+  seriesId: z.string().optional().nullable(),
+  issueDate: z.string().optional() // YYYY-MM-DD, defaults to today
+})
+
+const previewQuoteSchema = quoteInputSchema.extend({
+  number: z.string().min(1)
+})
+
+// The client picked in the form, or the one with that name (created if new)
+async function resolveClientId(data: Pick<QuoteInput, 'clientId' | 'clientName'>, tx: Queryable): Promise<string> {
+  return data.clientId || findOrCreateClient(data.clientName, tx)
+}
+
+// Draw a stored quote into its folder (or `outputPath`)
+async function writeQuotePdf(quote: Quote, outputPath: string): Promise<void> {
+  const totals = await getQuoteTaxSummary(quote.id)
+  await generateInvoicePdf({
+    ...await getClientLanguage({ id: quote.clientId }),
+    number: quote.number,
+    clientName: quote.clientName,
+    issueDate: quote.issueDate,
+    expectedPaymentDate: quote.validUntil,
+    amount: totals.total,
+    currency: quote.currency,
+    outputPath,
+    seller: await getCompanyProfile(),
+    client: await getClientParty({ id: quote.clientId, name: quote.clientName }),
+    items: toInvoiceItems(await getQuoteLines(quote.id)),
+    taxSummary: totals,
+    description: quote.description,
+    notes: quote.notes,
+    quote: { validUntil: quote.validUntil }
+  })
+}
+
+// Quotes go in /quotes/YYYY/MM/YYYY-MM-DD__Client__P-####/
+async function saveQuotePdf(quote: Quote): Promise<void> {
+  if (!quote.folderPath || !quote.filePath) return
+  try {
+    await ensureDirectoryExists(quote.folderPath)
+    await writeQuotePdf(quote, quote.filePath)
+  } catch (pdfError) {
+    console.warn('PDF generation failed, continuing without PDF:', pdfError)
+  }
+}
+
+ipcMain.handle('quote:list', async () => {
+  try {
+    return { quotes: await listQuotes() }
+  } catch (error) {
+    return { error: { code: 'LIST_QUOTES_ERROR', message: error instanceof Error ? error.message : 'Unknown error' } }
+  }
+})
+
+ipcMain.handle('quote:get', async (_e, quoteId: unknown) => {
+  try {
+    const id = z.string().min(1).parse(quoteId)
+    const quote = await getQuote(id)
+    return { quote, lines: await getQuoteLines(id), totals: await getQuoteTaxSummary(id) }
+  } catch (error) {
+    return { error: { code: 'GET_QUOTE_ERROR', message: error instanceof Error ? error.message : 'Unknown error' } }
+  }
+})
+
+// Upcoming number of a quote series (not reserved until the quote is created)
+ipcMain.handle('quote:nextNumber', async (_e, input) => {
+  try {
+    const data = nextNumberSchema.parse(input ?? {})
+    return await peekInvoiceNumber(data.seriesId, data.issueDate, 'QUOTE')
+  } catch (error) {
+    return { error: { code: 'NEXT_NUMBER_ERROR', message: error instanceof Error ? error.message : 'Unknown error' } }
+  }
+})
+
+// PDF of a quote not saved yet, as a data URL
+ipcMain.handle('quote:preview', async (_e, input) => {
+  try {
+    const data = previewQuoteSchema.parse(input)
+    const { lines, totals } = await prepareQuoteTaxes(data.lines, data.taxRateId, data.withholdingRateId)
+    const tempDir = await fs.mkdtemp(join(app.getPath('temp'), 'quote-preview-'))
+    const pdfPath = join(tempDir, 'preview.pdf')
+    const validUntil = data.validUntil || data.issueDate
+
+    await generateInvoicePdf({
+      ...await getClientLanguage({ id: data.clientId, name: data.clientName }),
+      number: data.number,
+      clientName: data.clientName,
+      issueDate: data.issueDate,
+      expectedPaymentDate: validUntil,
+      amount: totals.total,
+      currency: data.currency,
+      outputPath: pdfPath,
+      seller: await getCompanyProfile(),
+      client: await getClientParty({ id: data.clientId, name: data.clientName }),
+      items: toInvoiceItems(lines),
+      taxSummary: totals,
+      description: data.description,
+      notes: data.notes || null,
+      quote: { validUntil }
+    })
+
+    const buf = await fs.readFile(pdfPath)
+    return { dataUrl: `data:application/pdf;base64,${Buffer.from(buf).toString('base64')}`, totals }
+  } catch (error) {
+    return { error: { code: 'PREVIEW_ERROR', message: error instanceof Error ? error.message : 'Unknown error' } }
+  }
+})
+
+ipcMain.handle('quote:create', async (_e, input) => {
+  try {
+    const data = quoteInputSchema.parse(input)
+    const dataRoot = await getDataRoot()
+    if (!dataRoot) {
+      return { error: { code: 'NO_DATA_ROOT', message: 'Data root folder not configured' } }
+    }
+    const quotesRoot = await getQuotesFolder(dataRoot)
+    const [year, month] = data.issueDate.split('-')
+
+    // The number is reserved in the same transaction as the insert, like invoice numbers
+    const created = await client.transaction(async (tx: any) => createQuote(data, await resolveClientId(data, tx), number => {
+      const folderName = `${data.issueDate}__${data.clientName.replace(/[^a-zA-Z0-9]/g, '_')}__${number}`
+      return join(quotesRoot, year, month, folderName)
+    }, tx)) as Awaited<ReturnType<typeof createQuote>>
+
+    await saveQuotePdf(await getQuote(created.id))
+    createAutoBackupIfPossible()
+    return { ok: true, ...created }
+  } catch (error) {
+    return { error: { code: 'CREATE_QUOTE_ERROR', message: error instanceof Error ? error.message : 'Unknown error' } }
+  }
+})
+
+ipcMain.handle('quote:update', async (_e, quoteId: unknown, input: unknown) => {
+  try {
+    const id = z.string().min(1).parse(quoteId)
+    const data = quoteInputSchema.parse(input)
+    const totals = await client.transaction(async (tx: any) => updateQuote(id, data, await resolveClientId(data, tx), tx))
+    await saveQuotePdf(await getQuote(id))
+    createAutoBackupIfPossible()
+    return { ok: true, totals }
+  } catch (error) {
+    return { error: { code: 'UPDATE_QUOTE_ERROR', message: error instanceof Error ? error.message : 'Unknown error' } }
+  }
+})
+
+ipcMain.handle('quote:updateStatus', async (_e, quoteId: unknown, status: unknown) => {
+  try {
+    const id = z.string().min(1).parse(quoteId)
+    const quote = await setQuoteStatus(id, quoteStatusSchema.parse(status))
+    createAutoBackupIfPossible()
+    return { ok: true, quote }
+  } catch (error) {
+    return { error: { code: 'UPDATE_QUOTE_STATUS_ERROR', message: error instanceof Error ? error.message : 'Unknown error' } }
+  }
+})
+
+ipcMain.handle('quote:delete', async (_e, quoteId: unknown) => {
+  try {
+    const id = z.string().min(1).parse(quoteId)
+    const folderPath = await deleteQuote(id)
+
+    // Move folder to trash if it exists
+    if (folderPath) {
+      try {
+        await fs.access(folderPath)
+        const { moveToTrash } = await import('./system')
+        const trashed = await moveToTrash(folderPath)
+        if (!trashed) {
+          console.warn('Failed to move folder to trash:', folderPath)
+        }
+      } catch {
+        // Folder doesn't exist
+      }
+    }
+    return { ok: true }
+  } catch (error) {
+    return { error: { code: 'DELETE_QUOTE_ERROR', message: error instanceof Error ? error.message : 'Unknown error' } }
+  }
+})
+
+// Turn a quote into a draft invoice with the same client, lines and taxes, issued today
+ipcMain.handle('quote:convert', async (_e, quoteId: unknown) => {
+  try {
+    const id = z.string().min(1).parse(quoteId)
+    const quote = await getQuote(id)
+    assertConvertible(quote)
+    const lines = await getQuoteLines(id)
+
+    const created = await createBill({
+      clientId: quote.clientId,
+      clientName: quote.clientName,
+      issueDate: new Date().toISOString().slice(0, 10),
+      currency: quote.currency,
+      description: quote.description || undefined,
+      notes: quote.notes || undefined,
+      lines: lines.map(line => ({
+        description: line.description,
+        quantity: line.quantity,
+        unit: line.unit,
+        unitPrice: line.unitPrice,
+        discount: line.discount,
+        taxRateId: line.taxRateId
+      })),
+      taxRateId: quote.taxRateId,
+      withholdingRateId: quote.withholdingRateId,
+      source: { type: 'auto' }
+    }, async (tx, invoiceId) => {
+      // Checked again on the locked row: a second convert (a double click, a
+      // retry) waits for the first and then rolls back with its series number
+      await tx.query('SELECT id FROM quote WHERE id = $1 FOR UPDATE', [id])
+      assertConvertible(await getQuote(id, tx))
+      await markQuoteConverted(id, invoiceId, tx)
+    })
+    if ('error' in created) {
+      return created
+    }
+    createAutoBackupIfPossible()
+    return { ok: true, invoiceId: created.id, number: created.number }
+  } catch (error) {
+    return { error: { code: 'CONVERT_QUOTE_ERROR', message: error instanceof Error ? error.message : 'Unknown error' } }
+  }
+})
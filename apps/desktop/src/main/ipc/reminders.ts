@@ -0,0 +1,50 @@
+import { ipcMain } from 'electron'
+import { z } from 'zod'
+import { createAutoBackupIfPossible } from '@bills/db'
+import { reminderStepSchema, getReminderSteps, saveReminderStep, deleteReminderStep, getInvoiceReminders } from '../reminders'
+import { templateProblems } from '../templates'
+
+// Configured reminder sequence, ordered by offset from the due date
+ipcMain.handle('reminder:listSteps', async () => {
+  try {
+    return { steps: await getReminderSteps() }
+  } catch (error) {
+    return { error: { code: 'GET_REMINDER_STEPS_ERROR', message: error instanceof Error ? error.message : 'Unknown error' } }
+  }
+})
+
+ipcMain.handle('reminder:saveStep', async (_e, input) => {
+  try {
+    const data = reminderStepSchema.parse(input)
+    const problems = templateProblems({ Subject: data.subjectTemplate, Body: data.bodyTemplate })
+    if (problems.length > 0) {
+      return { error: { code: 'INVALID_TEMPLATE', message: problems.join('; ') } }
+    }
+    const id = await saveReminderStep(data)
+    createAutoBackupIfPossible()
+    return { ok: true, id }
+  } catch (error) {
+    return { error: { code: 'SAVE_REMINDER_STEP_ERROR', message: error instanceof Error ? error.message : 'Unknown error' } }
+  }
+})
+
+ipcMain.handle('reminder:deleteStep', async (_e, stepId: string) => {
+  try {
+    const id = z.string().min(1).parse(stepId)
+    await deleteReminderStep(id)
+    createAutoBackupIfPossible()
+    return { ok: true }
+  } catch (error) {
+    return { error: { code: 'DELETE_REMINDER_STEP_ERROR', message: error instanceof Error ? error.message : 'Unknown error' } }
+  }
+})
+
+// Reminders sent for an invoice
+ipcMain.handle('reminder:list', async (_e, invoiceId: string) => {
+  try {
+    const id = z.string().min(1).parse(invoiceId)
+    return { reminders: await getInvoiceReminders(id) }
+  } catch (error) {
+    return { error: { code: 'GET_REMINDERS_ERROR', message: error instanceof Error ? error.message : 'Unknown error' } }
+  }
+})
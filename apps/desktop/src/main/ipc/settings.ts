@@ -4,6 +4,11 @@ import { join, dirname } from 'node:path'
 import { z } from 'zod'
 import { client,  checkForBackupFiles, createDataBackup, getSQLScriptContent } from '@bills/db'
 import { encryptSecret, decryptSecret, hasSessionKey } from '../secrets'
+import { getTaxRates, taxRatesSchema, DEFAULT_TAX_RATES } from '../tax'
+import { PDF_THEMES, isHexColor } from '../pdf'
+
+// Logos are kept in the company profile as data URLs, so they are backed up with it
+const MAX_LOGO_BYTES = 512 * 1024
 
 const companyProfileSchema = z.object({
   name: z.string().optional(),
@@ -11,10 +16,15 @@ const companyProfileSchema = z.object({
   email: z.string().optional(),
   phone: z.string().optional(),
   taxId: z.string().optional(),
+  countryCode: z.string().regex(/^[A-Z]{2}$/, 'Country must be a two-letter code such as ES').optional().nullable(),
   bankName: z.string().optional(),
   bankAccount: z.string().optional(),
   iban: z.string().optional(),
-  swift: z.string().optional()
+  swift: z.string().optional(),
+  logo: z.string().regex(/^data:image\/(png|jpe?g);base64,/i, 'Logo must be a PNG or JPEG image').optional().nullable(),
+  accentColor: z.string().refine(isHexColor, 'Accent colour must be like #1f2937').optional().nullable(),
+  invoiceTheme: z.enum(PDF_THEMES.map(theme => theme.id) as [string, ...string[]]).optional().nullable(),
+  facturX: z.boolean().optional().nullable() // Issue PDF/A-3 invoices with embedded Factur-X data
 })
 
 const smtpConfigSchema = z.object({
@@ -77,6 +87,10 @@ async function getExpensesFolder(dataRoot: string): Promise<string> {
   return join(dataRoot, 'expenses')
 }
 
+async function getQuotesFolder(dataRoot: string): Promise<string> {
+  return join(dataRoot, 'quotes')
+}
+
 async function migrateDataToNewFolder(oldDataRoot: string | null, newDataRoot: string): Promise<void> {
   if (!oldDataRoot || oldDataRoot === newDataRoot) return
 
@@ -84,8 +98,10 @@ async function migrateDataToNewFolder(oldDataRoot: string | null, newDataRoot: s
   
   const oldBillsFolder = join(oldDataRoot, 'bills')
   const oldExpensesFolder = join(oldDataRoot, 'expenses')
+  const oldQuotesFolder = join(oldDataRoot, 'quotes')
   const newBillsFolder = await getBillsFolder(newDataRoot)
   const newExpensesFolder = await getExpensesFolder(newDataRoot)
+  const newQuotesFolder = await getQuotesFolder(newDataRoot)
 
   // Ensure new directories exist
   await ensureDirectoryExists(newBillsFolder)
@@ -125,6 +141,23 @@ async function migrateDataToNewFolder(oldDataRoot: string | null, newDataRoot: s
     console.log('No expenses folder to migrate or error:', error)
   }
 
+  // Copy quotes if old folder exists
+  try {
+    await fs.access(oldQuotesFolder)
+    const quoteFiles = await fs.readdir(oldQuotesFolder, { recursive: true })
+    for (const file of quoteFiles) {
+      const oldPath = join(oldQuotesFolder, file as string)
+      const newPath = join(newQuotesFolder, file as string)
+      const stat = await fs.stat(oldPath)
+      if (stat.isFile()) {
+        await ensureDirectoryExists(dirname(newPath))
+        await fs.copyFile(oldPath, newPath)
+      }
+    }
+  } catch (error) {
+    console.log('No quotes folder to migrate or error:', error)
+  }
+
   // Update file paths in database
   await client.query(`
     UPDATE invoice 
@@ -143,6 +176,15 @@ async function migrateDataToNewFolder(oldDataRoot: string | null, newDataRoot: s
     WHERE file_path LIKE $1 || '%'
   `, [oldDataRoot, newDataRoot])
 
+  await client.query(`
+    UPDATE quote 
+    SET 
+      file_path = REPLACE(file_path, $1, $2),
+      folder_path = REPLACE(folder_path, $1, $2),
+      updated_at = current_timestamp
+    WHERE file_path LIKE $1 || '%' OR folder_path LIKE $1 || '%'
+  `, [oldDataRoot, newDataRoot])
+
   console.log('✅ Data migration completed')
 }
 
@@ -454,6 +496,33 @@ ipcMain.handle('settings:saveCompanyProfile', async (_e, profile: unknown) => {
   }
 })
 
+// Built-in invoice themes the company profile can pick
+ipcMain.handle('settings:getInvoiceThemes', async () => {
+  return { themes: PDF_THEMES.map(({ id, name, description, accentColor }) => ({ id, name, description, accentColor })) }
+})
+
+// Pick the company logo; returned as a data URL for the profile
+ipcMain.handle('settings:selectLogo', async () => {
+  try {
+    const result = await dialog.showOpenDialog({
+      title: 'Select Company Logo',
+      properties: ['openFile'],
+      filters: [{ name: 'Images', extensions: ['png', 'jpg', 'jpeg'] }]
+    })
+    if (result.canceled || result.filePaths.length === 0) {
+      return { canceled: true }
+    }
+    const filePath = result.filePaths[0]
+    const buf = await fs.readFile(filePath)
+    if (buf.length > MAX_LOGO_BYTES) {
+      return { error: { code: 'LOGO_TOO_LARGE', message: `The logo must be smaller than ${MAX_LOGO_BYTES / 1024} KB` } }
+    }
+    const mime = /\.png$/i.test(filePath) ? 'image/png' : 'image/jpeg'
+    return { logo: `data:${mime};base64,${buf.toString('base64')}` }
+  } catch (error) {
+    return { error: { code: 'SELECT_LOGO_ERROR', message: error instanceof Error ? error.message : 'Unknown error' } }
+  }
+})
 
 // New functions for handling existing config files
 async function loadConfigFromFolder(folderPath: string): Promise<{ version: string; dataRoot: string; billsFolder: string; expensesFolder: string; lastUpdated: string } | null> {
@@ -630,6 +699,41 @@ ipcMain.handle('settings:saveSmtpConfig', async (_e, config: unknown) => {
   }
 })
 
+ipcMain.handle('settings:getTaxRates', async () => {
+  try {
+    return { rates: await getTaxRates(), defaults: DEFAULT_TAX_RATES }
+  } catch (error) {
+    return { error: { code: 'GET_TAX_RATES_ERROR', message: error instanceof Error ? error.message : 'Unknown error' } }
+  }
+})
+
+ipcMain.handle('settings:saveTaxRates', async (_e, rates: unknown) => {
+  try {
+    // Validate
+    const parsed = taxRatesSchema.parse(rates)
+    const text = JSON.stringify(parsed)
+    const now = new Date().toISOString()
+    
+    // First, try to update existing record
+    const updateResult = await client.query(`
+      UPDATE setting 
+      SET tax_rates = $1, updated_at = $2
+      WHERE id = 1
+    `, [text, now])
+    
+    // If no rows were affected, insert new record
+    if (updateResult.affectedRows === 0) {
+      await client.query(`
+        INSERT INTO setting (id, tax_rates, created_at, updated_at)
+        VALUES (1, $1, $2, $2)
+      `, [text, now])
+    }
+    return { ok: true }
+  } catch (error) {
+    return { error: { code: 'SAVE_TAX_RATES_ERROR', message: error instanceof Error ? error.message : 'Unknown error' } }
+  }
+})
+
 // Supabase configuration handlers
 ipcMain.handle('settings:getSupabaseConfig', async () => {
   try {
@@ -860,4 +964,4 @@ ipcMain.handle('settings:downloadSQLScript', async () => {
   }
 })
 
-export { getDataRoot, getBillsFolder, getExpensesFolder, ensureDirectoryExists, loadConfigFromFolder }
+export { getDataRoot, getBillsFolder, getExpensesFolder, getQuotesFolder, ensureDirectoryExists, loadConfigFromFolder }
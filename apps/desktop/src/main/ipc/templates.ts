@@ -0,0 +1,70 @@
+import { ipcMain } from 'electron'
+import { z } from 'zod'
+import { createAutoBackupIfPossible } from '@bills/db'
+import {
+  EMAIL_TEMPLATE_KINDS,
+  emailTemplateSchema,
+  getEmailTemplates,
+  saveEmailTemplate,
+  deleteEmailTemplate,
+  getEmailTemplateVersions,
+  restoreEmailTemplateVersion
+} from '../email-templates'
+import { templateProblems } from '../templates'
+
+// Templates of the library, optionally only those of one kind
+ipcMain.handle('emailTemplate:list', async (_e, kind?: string) => {
+  try {
+    const parsed = z.enum(EMAIL_TEMPLATE_KINDS).optional().parse(kind ?? undefined)
+    return { templates: await getEmailTemplates(parsed) }
+  } catch (error) {
+    return { error: { code: 'GET_EMAIL_TEMPLATES_ERROR', message: error instanceof Error ? error.message : 'Unknown error' } }
+  }
+})
+
+ipcMain.handle('emailTemplate:save', async (_e, input) => {
+  try {
+    const data = emailTemplateSchema.parse(input)
+    const problems = templateProblems({ Subject: data.subjectTemplate, Body: data.bodyTemplate })
+    if (problems.length > 0) {
+      return { error: { code: 'INVALID_TEMPLATE', message: problems.join('; ') } }
+    }
+    const id = await saveEmailTemplate(data)
+    createAutoBackupIfPossible()
+    return { ok: true, id }
+  } catch (error) {
+    return { error: { code: 'SAVE_EMAIL_TEMPLATE_ERROR', message: error instanceof Error ? error.message : 'Unknown error' } }
+  }
+})
+
+ipcMain.handle('emailTemplate:delete', async (_e, templateId: string) => {
+  try {
+    const id = z.string().min(1).parse(templateId)
+    await deleteEmailTemplate(id)
+    createAutoBackupIfPossible()
+    return { ok: true }
+  } catch (error) {
+    return { error: { code: 'DELETE_EMAIL_TEMPLATE_ERROR', message: error instanceof Error ? error.message : 'Unknown error' } }
+  }
+})
+
+// Earlier wordings of a template
+ipcMain.handle('emailTemplate:versions', async (_e, templateId: string) => {
+  try {
+    const id = z.string().min(1).parse(templateId)
+    return { versions: await getEmailTemplateVersions(id) }
+  } catch (error) {
+    return { error: { code: 'GET_EMAIL_TEMPLATE_VERSIONS_ERROR', message: error instanceof Error ? error.message : 'Unknown error' } }
+  }
+})
+
+ipcMain.handle('emailTemplate:restoreVersion', async (_e, templateId: string, version: number) => {
+  try {
+    const id = z.string().min(1).parse(templateId)
+    await restoreEmailTemplateVersion(id, z.number().int().min(1).parse(version))
+    createAutoBackupIfPossible()
+    return { ok: true }
+  } catch (error) {
+    return { error: { code: 'RESTORE_EMAIL_TEMPLATE_ERROR', message: error instanceof Error ? error.message : 'Unknown error' } }
+  }
+})
@@ -0,0 +1,161 @@
+import { ipcMain } from 'electron'
+import { z } from 'zod'
+import { client, createAutoBackupIfPossible } from '@bills/db'
+import { getClientLanguage, invoiceLabels } from '../i18n'
+import {
+  TimeEntry,
+  timeEntryInputSchema,
+  timerInputSchema,
+  timeRangeSchema,
+  listTimeEntries,
+  createTimeEntry,
+  updateTimeEntry,
+  deleteTimeEntry,
+  getRunningTimer,
+  startTimer,
+  stopTimer,
+  getUnbilledTime,
+  groupTimeEntries,
+  markTimeBilled
+} from '../time-tracking'
+import { getInvoiceLines } from '../invoice-lines'
+import { createBill } from './bills'
+
+const billTimeSchema = z.object({
+  clientId: z.string().min(1),
+  from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  issueDate: z.string().optional(), // Defaults to today
+  currency: z.string().default('EUR'),
+  description: z.string().optional(),
+  taxRateId: z.string().optional().nullable(),
+  withholdingRateId: z.string().optional().nullable()
+})
+
+// Unbilled hours of a client and the invoice lines they would become
+async function unbilledTimeFor(clientId: string, from: string, to: string): Promise<{ entries: TimeEntry[]; groups: ReturnType<typeof groupTimeEntries> }> {
+  const entries = await getUnbilledTime(clientId, from, to)
+  const { language } = await getClientLanguage({ id: clientId })
+  return { entries, groups: groupTimeEntries(entries, invoiceLabels(language).defaultDescription) }
+}
+
+ipcMain.handle('time:list', async (_e, input) => {
+  try {
+    const range = timeRangeSchema.parse(input)
+    return { entries: await listTimeEntries(range) }
+  } catch (error) {
+    return { error: { code: 'LIST_TIME_ERROR', message: error instanceof Error ? error.message : 'Unknown error' } }
+  }
+})
+
+ipcMain.handle('time:create', async (_e, input) => {
+  try {
+    const entry = await createTimeEntry(timeEntryInputSchema.parse(input))
+    createAutoBackupIfPossible()
+    return { ok: true, entry }
+  } catch (error) {
+    return { error: { code: 'CREATE_TIME_ERROR', message: error instanceof Error ? error.message : 'Unknown error' } }
+  }
+})
+
+ipcMain.handle('time:update', async (_e, entryId: unknown, input: unknown) => {
+  try {
+    const id = z.string().min(1).parse(entryId)
+    const entry = await updateTimeEntry(id, timeEntryInputSchema.parse(input))
+    createAutoBackupIfPossible()
+    return { ok: true, entry }
+  } catch (error) {
+    return { error: { code: 'UPDATE_TIME_ERROR', message: error instanceof Error ? error.message : 'Unknown error' } }
+  }
+})
+
+ipcMain.handle('time:delete', async (_e, entryId: unknown) => {
+  try {
+    const id = z.string().min(1).parse(entryId)
+    await deleteTimeEntry(id)
+    return { ok: true }
+  } catch (error) {
+    return { error: { code: 'DELETE_TIME_ERROR', message: error instanceof Error ? error.message : 'Unknown error' } }
+  }
+})
+
+ipcMain.handle('time:running', async () => {
+  try {
+    return { entry: await getRunningTimer() }
+  } catch (error) {
+    return { error: { code: 'GET_TIMER_ERROR', message: error instanceof Error ? error.message : 'Unknown error' } }
+  }
+})
+
+ipcMain.handle('time:start', async (_e, input) => {
+  try {
+    return { ok: true, entry: await startTimer(timerInputSchema.parse(input)) }
+  } catch (error) {
+    return { error: { code: 'START_TIMER_ERROR', message: error instanceof Error ? error.message : 'Unknown error' } }
+  }
+})
+
+ipcMain.handle('time:stop', async () => {
+  try {
+    const entry = await stopTimer()
+    createAutoBackupIfPossible()
+    return { ok: true, entry }
+  } catch (error) {
+    return { error: { code: 'STOP_TIMER_ERROR', message: error instanceof Error ? error.message : 'Unknown error' } }
+  }
+})
+
+// What billing a client's hours in a period would put on the invoice
+ipcMain.handle('time:unbilled', async (_e, input) => {
+  try {
+    const data = billTimeSchema.pick({ clientId: true, from: true, to: true }).parse(input)
+    const { entries, groups } = await unbilledTimeFor(data.clientId, data.from, data.to)
+    return { entries, lines: groups.map(group => group.line) }
+  } catch (error) {
+    return { error: { code: 'UNBILLED_TIME_ERROR', message: error instanceof Error ? error.message : 'Unknown error' } }
+  }
+})
+
+// Bill the unbilled hours of a client in a period on a new draft invoice
+ipcMain.handle('time:bill', async (_e, input) => {
+  try {
+    const data = billTimeSchema.parse(input)
+    const { entries, groups } = await unbilledTimeFor(data.clientId, data.from, data.to)
+    if (entries.length === 0) {
+      return { error: { code: 'NO_UNBILLED_TIME', message: 'This client has no unbilled hours in that period' } }
+    }
+    const clientRes = await client.query('SELECT name FROM client WHERE id = $1', [data.clientId])
+    const clientRow = clientRes.rows[0] as { name: string } | undefined
+    if (!clientRow) {
+      return { error: { code: 'BILL_TIME_ERROR', message: 'Client not found' } }
+    }
+
+    // The invoice goes on the project when all the hours are of one project
+    const projectIds = new Set(entries.map(entry => entry.projectId))
+    const created = await createBill({
+      clientId: data.clientId,
+      clientName: clientRow.name,
+      issueDate: data.issueDate || new Date().toISOString().slice(0, 10),
+      currency: data.currency,
+      description: data.description,
+      lines: groups.map(group => group.line),
+      taxRateId: data.taxRateId,
+      withholdingRateId: data.withholdingRateId,
+      projectId: projectIds.size === 1 ? entries[0].projectId : null,
+      source: { type: 'auto' }
+    }, async (tx, invoiceId) => {
+      // Stored in the order given: each line takes the hours it bills
+      const stored = await getInvoiceLines(invoiceId, tx)
+      for (let i = 0; i < groups.length; i++) {
+        await markTimeBilled(groups[i].entryIds, invoiceId, stored[i].id, tx)
+      }
+    })
+    if ('error' in created) {
+      return created
+    }
+    createAutoBackupIfPossible()
+    return { ok: true, invoiceId: created.id, number: created.number, entries: entries.length }
+  } catch (error) {
+    return { error: { code: 'BILL_TIME_ERROR', message: error instanceof Error ? error.message : 'Unknown error' } }
+  }
+})
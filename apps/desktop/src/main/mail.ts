@@ -0,0 +1,113 @@
+import nodemailer from 'nodemailer'
+import { promises as fs } from 'node:fs'
+import { client } from '@bills/db'
+import { EmailSource, logEmail } from './email-log'
+
+/**
+ * Mail service
+ *
+ * The one place that talks to the SMTP server: manual sends, automations and
+ * payment reminders all go through deliverEmail, which logs every attempt in
+ * the email log. Emails that must not be lost are queued in the outbox first
+ * (see outbox.ts) and delivered from there; subjects and bodies are rendered
+ * beforehand with the template engine (see templates.ts).
+ */
+
+export interface EmailAttachment {
+  filename: string
+  path: string
+}
+
+export interface OutgoingEmail {
+  invoiceId: string | null
+  quoteId?: string | null // A draft quote becomes SENT once its email is delivered
+  source: EmailSource
+  to: string[]
+  cc?: string[]
+  subject: string
+  html: string
+  attachments?: EmailAttachment[]
+}
+
+export async function getSmtpConfig(): Promise<any> {
+  try {
+    const result = await client.query('SELECT smtp_config FROM setting WHERE id = 1')
+    const text = (result.rows?.[0] as any)?.smtp_config as string | undefined
+    return text ? JSON.parse(text) : null
+  } catch (error) {
+    return null
+  }
+}
+
+export async function getCompanyProfile(): Promise<any> {
+  try {
+    const result = await client.query('SELECT company_profile FROM setting WHERE id = 1')
+    const text = (result.rows?.[0] as any)?.company_profile as string | undefined
+    return text ? JSON.parse(text) : null
+  } catch (error) {
+    return null
+  }
+}
+
+export function createMailTransport(smtpConfig: any) {
+  return nodemailer.createTransport({
+    host: smtpConfig.host,
+    port: smtpConfig.port,
+    secure: smtpConfig.secure,
+    auth: {
+      user: smtpConfig.user,
+      pass: smtpConfig.password
+    }
+  })
+}
+
+export function senderAddress(companyProfile: any, smtpConfig: any): string {
+  const fromEmail = companyProfile?.email || smtpConfig.user
+  const fromName = companyProfile?.name || 'Billing App'
+  return `${fromName} <${fromEmail}>`
+}
+
+// An email whose attachment has gone missing is not sent: without its PDF it
+// would reach the client incomplete, so the send fails and stays in the outbox
+async function existingAttachments(attachments: EmailAttachment[]): Promise<EmailAttachment[]> {
+  for (const attachment of attachments) {
+    try {
+      await fs.access(attachment.path)
+    } catch {
+      throw new Error(`Attachment not found: ${attachment.path}`)
+    }
+  }
+  return attachments
+}
+
+/** Send an email now and log the attempt; throws if the SMTP server doesn't accept it */
+export async function deliverEmail(email: OutgoingEmail): Promise<{ messageId: string }> {
+  const logEntry = { invoiceId: email.invoiceId, source: email.source, recipients: email.to, cc: email.cc, subject: email.subject }
+  try {
+    const smtpConfig = await getSmtpConfig()
+    if (!smtpConfig) {
+      throw new Error('SMTP configuration is not set up')
+    }
+    const companyProfile = await getCompanyProfile()
+
+    const mailOptions: any = {
+      from: senderAddress(companyProfile, smtpConfig),
+      to: email.to.join(', '),
+      subject: email.subject,
+      html: email.html,
+      attachments: await existingAttachments(email.attachments || [])
+    }
+    if (email.cc && email.cc.length > 0) {
+      mailOptions.cc = email.cc.join(', ')
+    }
+
+    const info = await createMailTransport(smtpConfig).sendMail(mailOptions)
+    const ccInfo = email.cc && email.cc.length > 0 ? ` (CC: ${email.cc.join(', ')})` : ''
+    console.log(`📧 Email sent to ${email.to.join(', ')}${ccInfo} - Message ID: ${info.messageId}`)
+    await logEmail({ ...logEntry, messageId: info.messageId })
+    return { messageId: info.messageId }
+  } catch (error) {
+    await logEmail({ ...logEntry, error: error instanceof Error ? error.message : 'Unknown email error' })
+    throw error
+  }
+}
@@ -0,0 +1,161 @@
+import { z } from 'zod'
+import { client } from '@bills/db'
+import type { Queryable } from './invoice-lines'
+
+/**
+ * Invoice numbering series
+ *
+ * Each series owns a counter (`next_seq`) and a pattern such as
+ * `{PREFIX}{YYYY}-{SEQ:4}`. Numbers are only consumed by reserveInvoiceNumber,
+ * which must run in the same transaction as the invoice insert so a failed
+ * save never leaves a gap. peekInvoiceNumber shows the upcoming number
+ * without consuming it. Invoices, credit notes and quotes use separate
+ * series; each kind has its own default.
+ */
+
+export const seriesKindSchema = z.enum(['INVOICE', 'CREDIT_NOTE', 'QUOTE'])
+
+export type SeriesKind = z.infer<typeof seriesKindSchema>
+
+// How each kind's documents are named in messages
+const KIND_NAMES: Record<SeriesKind, { one: string; many: string }> = {
+  INVOICE: { one: 'invoice', many: 'invoices' },
+  CREDIT_NOTE: { one: 'credit note', many: 'credit notes' },
+  QUOTE: { one: 'quote', many: 'quotes' }
+}
+
+export const numberingSeriesSchema = z.object({
+  id: z.string().optional(),
+  name: z.string().min(1),
+  prefix: z.string().default(''),
+  pattern: z.string().min(1).refine(p => /\{SEQ(:\d+)?\}/.test(p), {
+    message: 'Pattern must contain a {SEQ} or {SEQ:n} token'
+  }),
+  resetYearly: z.boolean().default(true),
+  nextSeq: z.number().int().min(1).optional(),
+  isDefault: z.boolean().optional(),
+  kind: seriesKindSchema.default('INVOICE') // Fixed once the series exists
+})
+
+export type NumberingSeriesInput = z.infer<typeof numberingSeriesSchema>
+
+export interface NumberingSeries {
+  id: string
+  name: string
+  prefix: string
+  pattern: string
+  resetYearly: boolean
+  currentYear: number | null
+  nextSeq: number
+  isDefault: boolean
+  kind: SeriesKind
+}
+
+export function mapSeriesRow(row: any): NumberingSeries {
+  return {
+    id: row.id,
+    name: row.name,
+    prefix: row.prefix || '',
+    pattern: row.pattern,
+    resetYearly: !!row.reset_yearly,
+    currentYear: row.current_year ?? null,
+    nextSeq: Number(row.next_seq),
+    isDefault: !!row.is_default,
+    kind: row.kind || 'INVOICE'
+  }
+}
+
+function today(): string {
+  return new Date().toISOString().slice(0, 10)
+}
+
+// Year and month straight from a YYYY-MM-DD issue date (no timezone shifts)
+function dateParts(issueDate: string): { year: string; month: string } {
+  const match = /^(\d{4})-(\d{2})/.exec(issueDate)
+  if (!match) {
+    throw new Error(`Invalid issue date: ${issueDate}`)
+  }
+  return { year: match[1], month: match[2] }
+}
+
+/** Expand the pattern tokens for a given issue date (YYYY-MM-DD) and sequence value */
+export function formatInvoiceNumber(series: Pick<NumberingSeries, 'pattern' | 'prefix'>, issueDate: string, seq: number): string {
+  const { year, month } = dateParts(issueDate)
+  return series.pattern
+    .replace(/\{PREFIX\}/g, series.prefix || '')
+    .replace(/\{YYYY\}/g, year)
+    .replace(/\{YY\}/g, year.slice(-2))
+    .replace(/\{MM\}/g, month)
+    .replace(/\{SEQ(?::(\d+))?\}/g, (_m, width) => String(seq).padStart(width ? Number(width) : 1, '0'))
+}
+
+// The given series, or the default one of the kind; `lock` adds FOR UPDATE
+async function findSeries(db: Queryable, id: string | null | undefined, kind: SeriesKind, lock: boolean): Promise<NumberingSeries> {
+  const forUpdate = lock ? ' FOR UPDATE' : ''
+  const res = id
+    ? await db.query(`SELECT * FROM numbering_series WHERE id = $1${forUpdate}`, [id])
+    : await db.query(`SELECT * FROM numbering_series WHERE kind = $1 ORDER BY is_default DESC, created_at LIMIT 1${forUpdate}`, [kind])
+  const row = res.rows[0]
+  if (!row) {
+    throw new Error(id ? `Numbering series not found: ${id}` : `No numbering series configured for ${KIND_NAMES[kind].many}`)
+  }
+  const series = mapSeriesRow(row)
+  if (series.kind !== kind) {
+    throw new Error(`${series.name} is not a ${KIND_NAMES[kind].one} series`)
+  }
+  return series
+}
+
+export async function getNumberingSeries(id?: string | null, kind: SeriesKind = 'INVOICE', db: Queryable = client): Promise<NumberingSeries> {
+  return findSeries(db, id, kind, false)
+}
+
+// Sequence value the series would use for an invoice issued in `year`
+function sequenceFor(series: NumberingSeries, year: number): number {
+  if (!series.resetYearly || series.currentYear === null || series.currentYear === year) {
+    return series.nextSeq
+  }
+  if (year < series.currentYear) {
+    throw new Error(`${series.name} has already moved on to ${series.currentYear}; ${KIND_NAMES[series.kind].many} cannot be issued in ${year}`)
+  }
+  return 1
+}
+
+// Quotes are numbered apart from invoices and credit notes
+async function numberExists(db: Queryable, number: string, kind: SeriesKind): Promise<boolean> {
+  const table = kind === 'QUOTE' ? 'quote' : 'invoice'
+  const res = await db.query(`SELECT 1 FROM ${table} WHERE number = $1 LIMIT 1`, [number])
+  return res.rows.length > 0
+}
+
+// Numbers typed by hand before series existed are skipped instead of colliding
+async function firstFreeNumber(db: Queryable, series: NumberingSeries, issueDate: string, seq: number): Promise<{ number: string; seq: number }> {
+  let number = formatInvoiceNumber(series, issueDate, seq)
+  while (await numberExists(db, number, series.kind)) {
+    seq += 1
+    number = formatInvoiceNumber(series, issueDate, seq)
+  }
+  return { number, seq }
+}
+
+/** Next number of a series without consuming it (for forms and previews) */
+export async function peekInvoiceNumber(seriesId?: string | null, issueDate: string = today(), kind: SeriesKind = 'INVOICE', db: Queryable = client): Promise<{ number: string; seriesId: string }> {
+  const series = await findSeries(db, seriesId, kind, false)
+  const { number } = await firstFreeNumber(db, series, issueDate, sequenceFor(series, Number(dateParts(issueDate).year)))
+  return { number, seriesId: series.id }
+}
+
+/**
+ * Consume the next number of a series. Must be called with the transaction
+ * that inserts the invoice so the counter only advances when it is saved.
+ */
+export async function reserveInvoiceNumber(db: Queryable, seriesId?: string | null, issueDate: string = today(), kind: SeriesKind = 'INVOICE'): Promise<{ number: string; seriesId: string }> {
+  const series = await findSeries(db, seriesId, kind, true)
+  const year = Number(dateParts(issueDate).year)
+  const { number, seq } = await firstFreeNumber(db, series, issueDate, sequenceFor(series, year))
+  await db.query(
+    'UPDATE numbering_series SET next_seq = $1, current_year = $2, updated_at = current_timestamp WHERE id = $3',
+    [seq + 1, series.resetYearly ? year : series.currentYear, series.id]
+  )
+  return { number, seriesId: series.id }
+}
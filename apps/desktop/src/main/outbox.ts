@@ -0,0 +1,217 @@
+import { client } from '@bills/db'
+import { generateId } from './ipc/utils'
+import type { Queryable } from './invoice-lines'
+import { deliverEmail, OutgoingEmail } from './mail'
+import { refreshPaymentStatus } from './payments'
+
+/**
+ * Email outbox
+ *
+ * Emails are stored before they are sent, so a send that fails (SMTP down, no
+ * connection) is retried instead of lost: after each failure the next attempt
+ * is pushed back exponentially, from one minute up to six hours, and the email
+ * is given up as FAILED after MAX_ATTEMPTS. The scheduler processes the outbox
+ * every minute while the machine is online and right away when it reconnects.
+ * Invoices queued with `markInvoiceSent` stay DRAFT until their email leaves,
+ * and so do the draft quotes of quote emails.
+ */
+
+export const MAX_ATTEMPTS = 10
+
+export interface OutboxEmail {
+  id: string
+  invoiceId: string | null
+  source: OutgoingEmail['source']
+  recipients: string[]
+  subject: string
+  status: 'PENDING' | 'SENT' | 'FAILED'
+  attempts: number
+  nextAttemptAt: string
+  lastError: string | null
+  createdAt: string
+}
+
+export type SendResult =
+  | { status: 'SENT'; outboxId: string; messageId: string; warning?: string }
+  | { status: 'QUEUED'; outboxId: string; error: string }
+
+function parseJson<T>(text: string | null, fallback: T): T {
+  if (!text) return fallback
+  try {
+    return JSON.parse(text)
+  } catch {
+    return fallback
+  }
+}
+
+function mapOutboxRow(row: any): OutboxEmail {
+  return {
+    id: row.id,
+    invoiceId: row.invoice_id ?? null,
+    source: row.source,
+    recipients: parseJson(row.recipients, []),
+    subject: row.subject,
+    status: row.status,
+    attempts: Number(row.attempts),
+    nextAttemptAt: row.next_attempt_at,
+    lastError: row.last_error ?? null,
+    createdAt: row.created_at
+  }
+}
+
+/** Delay before the next attempt after `attempts` failures */
+export function retryDelayMs(attempts: number): number {
+  return Math.min(60_000 * 2 ** Math.max(attempts - 1, 0), 6 * 60 * 60_000)
+}
+
+/** Store an email for delivery; returns the outbox id */
+export async function queueEmail(email: OutgoingEmail, options: { markInvoiceSent?: boolean } = {}, db: Queryable = client): Promise<string> {
+  const id = generateId()
+  await db.query(
+    `INSERT INTO email_outbox (id, invoice_id, source, recipients, cc, subject, html, attachments, mark_invoice_sent, quote_id, status, attempts, next_attempt_at, created_at, updated_at)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, 'PENDING', 0, current_timestamp, current_timestamp, current_timestamp)`,
+    [
+      id,
+      email.invoiceId,
+      email.source,
+      JSON.stringify(email.to),
+      email.cc && email.cc.length > 0 ? JSON.stringify(email.cc) : null,
+      email.subject,
+      email.html,
+      email.attachments && email.attachments.length > 0 ? JSON.stringify(email.attachments) : null,
+      !!options.markInvoiceSent,
+      email.quoteId ?? null
+    ]
+  )
+  return id
+}
+
+// Ids being delivered right now (the timer, a reconnect and a manual send can overlap)
+const inFlight = new Set<string>()
+
+// Try to deliver a pending outbox email and record the outcome
+async function attemptDelivery(id: string): Promise<SendResult | null> {
+  if (inFlight.has(id)) return null
+  inFlight.add(id)
+  try {
+    // Re-read the row: another run may have delivered it since it was listed
+    const res = await client.query(`SELECT * FROM email_outbox WHERE id = $1 AND status = 'PENDING'`, [id])
+    return res.rows[0] ? await deliverRow(res.rows[0]) : null
+  } finally {
+    inFlight.delete(id)
+  }
+}
+
+async function deliverRow(row: any): Promise<SendResult> {
+  const email: OutgoingEmail = {
+    invoiceId: row.invoice_id ?? null,
+    quoteId: row.quote_id ?? null,
+    source: row.source,
+    to: parseJson(row.recipients, []),
+    cc: parseJson(row.cc, []),
+    subject: row.subject,
+    html: row.html,
+    attachments: parseJson(row.attachments, [])
+  }
+
+  let messageId: string
+  try {
+    ({ messageId } = await deliverEmail(email))
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown email error'
+    const attempts = Number(row.attempts) + 1
+    const giveUp = attempts >= MAX_ATTEMPTS
+    await client.query(
+      `UPDATE email_outbox SET attempts = $2, status = $3, last_error = $4, next_attempt_at = $5 WHERE id = $1`,
+      [row.id, attempts, giveUp ? 'FAILED' : 'PENDING', message, new Date(Date.now() + retryDelayMs(attempts)).toISOString()]
+    )
+    if (giveUp) {
+      console.error(`❌ Giving up on email "${row.subject}" after ${attempts} attempts: ${message}`)
+    }
+    return { status: 'QUEUED', outboxId: row.id, error: message }
+  }
+
+  // The email has left: whatever fails from here on, it must never be retried
+  try {
+    await client.transaction(async (tx: any) => {
+      await tx.query(
+        `UPDATE email_outbox SET status = 'SENT', attempts = attempts + 1, message_id = $2, last_error = NULL WHERE id = $1`,
+        [row.id, messageId]
+      )
+      if (row.mark_invoice_sent && row.invoice_id) {
+        const issued = await tx.query(
+          `UPDATE invoice SET status = 'SENT', updated_at = current_timestamp WHERE id = $1 AND status = 'DRAFT' RETURNING original_invoice_id`,
+          [row.invoice_id]
+        )
+        // An issued credit note reduces what is owed on its invoice
+        const originalId = (issued.rows[0] as any)?.original_invoice_id
+        if (originalId) {
+          await refreshPaymentStatus(originalId, tx)
+        }
+      }
+      if (row.quote_id) {
+        await tx.query(
+          `UPDATE quote SET status = 'SENT', updated_at = current_timestamp WHERE id = $1 AND status = 'DRAFT'`,
+          [row.quote_id]
+        )
+      }
+    })
+    return { status: 'SENT', outboxId: row.id, messageId }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown database error'
+    console.error(`Email "${row.subject}" was sent but recording it failed:`, error)
+    await client.query(
+      `UPDATE email_outbox SET status = 'SENT', attempts = attempts + 1, message_id = $2, last_error = $3 WHERE id = $1`,
+      [row.id, messageId, message]
+    )
+    return { status: 'SENT', outboxId: row.id, messageId, warning: `Marking its ${row.quote_id ? 'quote' : 'invoice'} as sent failed: ${message}` }
+  }
+}
+
+/** Queue an email and try to send it straight away; on failure it stays queued for retries */
+export async function sendOrQueue(email: OutgoingEmail, options: { markInvoiceSent?: boolean } = {}): Promise<SendResult> {
+  const id = await queueEmail(email, options)
+  return (await attemptDelivery(id)) ?? { status: 'QUEUED', outboxId: id, error: 'Already being sent' }
+}
+
+/**
+ * Deliver pending emails whose next attempt is due (all pending ones when
+ * `force` is set, e.g. right after reconnecting); returns how many were sent
+ * and how many are still waiting.
+ */
+export async function processOutbox(force = false): Promise<{ sent: number; pending: number }> {
+  const res = await client.query(
+    `SELECT id FROM email_outbox
+     WHERE status = 'PENDING' AND ($1 OR next_attempt_at <= current_timestamp)
+     ORDER BY created_at`,
+    [force]
+  )
+  let sent = 0
+  for (const row of res.rows as any[]) {
+    const result = await attemptDelivery(row.id)
+    if (result?.status === 'SENT') sent += 1
+  }
+  const pending = await client.query(`SELECT COUNT(*) AS count FROM email_outbox WHERE status = 'PENDING'`)
+  return { sent, pending: Number((pending.rows[0] as any).count) }
+}
+
+/** Emails of an invoice that have not left yet (pending or given up) */
+export async function getUndeliveredEmails(invoiceId: string, db: Queryable = client): Promise<OutboxEmail[]> {
+  const res = await db.query(
+    `SELECT * FROM email_outbox WHERE invoice_id = $1 AND status <> 'SENT' ORDER BY created_at DESC`,
+    [invoiceId]
+  )
+  return res.rows.map(mapOutboxRow)
+}
+
+/** Put an undelivered email back in the queue for an immediate attempt */
+export async function retryOutboxEmail(id: string): Promise<SendResult> {
+  const res = await client.query(
+    `UPDATE email_outbox SET status = 'PENDING', attempts = 0, next_attempt_at = current_timestamp WHERE id = $1 AND status <> 'SENT' RETURNING id`,
+    [id]
+  )
+  if (res.rows.length === 0) {
+    throw new Error('Email not found or already sent')
+  }
+  return (await attemptDelivery(id)) ?? { status: 'QUEUED', outboxId: id, error: 'Already being sent' }
+}
@@ -0,0 +1,204 @@
+import { z } from 'zod'
+import { client } from '@bills/db'
+import { generateId } from './ipc/utils'
+import type { Queryable } from './invoice-lines'
+import { roundCents } from './tax'
+import { convertPayment } from './currency'
+
+/**
+ * Invoice payments
+ *
+ * Payments are a ledger: an invoice is PARTIALLY_PAID while its payments
+ * don't cover the balance and PAID once they do, and OVERDUE when a balance
+ * is left after its expected payment date. The status and `paid_at` are
+ * derived from the ledger after every change, and the balance due is the
+ * invoice total minus its issued credit notes and payments.
+ */
+
+export const paymentMethodSchema = z.enum(['TRANSFER', 'CARD', 'CASH', 'DIRECT_DEBIT', 'OTHER'])
+
+export const paymentInputSchema = z.object({
+  invoiceId: z.string().min(1),
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Invalid payment date'),
+  amount: z.string().refine(v => v.trim() !== '' && Number(v) > 0, {
+    message: 'Payment amount must be greater than zero'
+  }),
+  method: paymentMethodSchema.optional().nullable(),
+  reference: z.string().optional().nullable(),
+  notes: z.string().optional().nullable()
+})
+
+export type PaymentMethod = z.infer<typeof paymentMethodSchema>
+export type PaymentInput = z.infer<typeof paymentInputSchema>
+
+export interface Payment {
+  id: string
+  invoiceId: string
+  date: string
+  amount: string
+  method: PaymentMethod | null
+  reference: string | null
+  notes: string | null
+  baseAmount: string | null // In the base currency, at the rate of the payment date
+  createdAt: string
+}
+
+export interface PaymentBalance {
+  total: string // Invoice total
+  credited: string // Credited by credit notes (positive)
+  paid: string
+  outstanding: string
+  status: string
+}
+
+// PGlite returns `date` columns as Date objects
+function toDateString(value: unknown): string {
+  return value instanceof Date ? value.toISOString().slice(0, 10) : String(value)
+}
+
+function mapPaymentRow(row: any): Payment {
+  return {
+    id: row.id,
+    invoiceId: row.invoice_id,
+    date: toDateString(row.date),
+    amount: String(row.amount),
+    method: row.method ?? null,
+    reference: row.reference ?? null,
+    notes: row.notes ?? null,
+    baseAmount: row.base_amount === null || row.base_amount === undefined ? null : String(row.base_amount),
+    createdAt: row.created_at
+  }
+}
+
+export async function getPayments(invoiceId: string, db: Queryable = client): Promise<Payment[]> {
+  const res = await db.query(
+    'SELECT * FROM payment WHERE invoice_id = $1 ORDER BY date, created_at',
+    [invoiceId]
+  )
+  return res.rows.map(mapPaymentRow)
+}
+
+/**
+ * Sum (negative) of the credit notes of `invoiceRef`, a column or parameter
+ * holding the invoice id. Only issued credit notes reduce what is owed;
+ * `includeDrafts` also counts drafts, for what is already being credited.
+ * Cancelled credit notes credit nothing.
+ */
+export function creditedAmountSql(invoiceRef: string, includeDrafts = false): string {
+  const statuses = includeDrafts ? "cn.status <> 'CANCELLED'" : "cn.status NOT IN ('DRAFT', 'CANCELLED')"
+  return `(SELECT COALESCE(SUM(cn.amount), 0) FROM invoice cn WHERE cn.original_invoice_id = ${invoiceRef} AND cn.kind = 'CREDIT_NOTE' AND ${statuses})`
+}
+
+/** Totals of an invoice, what has been credited and paid, and what is still owed */
+export async function getPaymentBalance(invoiceId: string, db: Queryable = client): Promise<PaymentBalance> {
+  const res = await db.query(
+    `SELECT i.amount, i.status,
+       ${creditedAmountSql('i.id')} AS credited,
+       (SELECT COALESCE(SUM(p.amount), 0) FROM payment p WHERE p.invoice_id = i.id) AS paid
+     FROM invoice i
+     WHERE i.id = $1`,
+    [invoiceId]
+  )
+  const row = res.rows[0] as any
+  if (!row) {
+    throw new Error('Invoice not found')
+  }
+  const total = Number(row.amount)
+  const credited = -Number(row.credited)
+  const paid = Number(row.paid)
+  return {
+    total: total.toFixed(2),
+    credited: credited.toFixed(2),
+    paid: paid.toFixed(2),
+    outstanding: Math.max(roundCents(total - credited - paid), 0).toFixed(2),
+    status: row.status
+  }
+}
+
+// Statuses of issued invoices that still follow the ledger and the due date
+const OPEN_STATUSES = ['SENT', 'PARTIALLY_PAID', 'OVERDUE', 'PAID']
+
+/**
+ * Derive PAID / PARTIALLY_PAID / OVERDUE from the ledger and the due date. An
+ * invoice whose payments are all removed goes back to SENT (or OVERDUE);
+ * drafts and cancelled invoices keep their status until a payment is recorded.
+ */
+export async function refreshPaymentStatus(invoiceId: string, db: Queryable = client): Promise<PaymentBalance> {
+  const balance = await getPaymentBalance(invoiceId, db)
+  const paid = Number(balance.paid)
+  const outstanding = Number(balance.outstanding)
+
+  let status = balance.status
+  let paidAt: string | null = null
+  if (paid > 0 && outstanding <= 0) {
+    status = 'PAID'
+    const last = await db.query('SELECT MAX(date) AS date FROM payment WHERE invoice_id = $1', [invoiceId])
+    paidAt = toDateString((last.rows[0] as any).date)
+  } else if (outstanding <= 0) {
+    // Fully credited: nothing is owed any more
+    if (status === 'OVERDUE') status = 'SENT'
+  } else if (paid > 0 || OPEN_STATUSES.includes(status)) {
+    const pastDue = await isPastDue(invoiceId, db)
+    status = pastDue ? 'OVERDUE' : paid > 0 ? 'PARTIALLY_PAID' : 'SENT'
+  }
+
+  await db.query(
+    'UPDATE invoice SET status = $1, paid_at = $2, updated_at = current_timestamp WHERE id = $3',
+    [status, paidAt, invoiceId]
+  )
+  return { ...balance, status }
+}
+
+// Invoices without an expected payment date are due 30 days after issue
+async function isPastDue(invoiceId: string, db: Queryable): Promise<boolean> {
+  const res = await db.query(
+    'SELECT COALESCE(expected_payment_date, issue_date + 30) < $2 AS past_due FROM invoice WHERE id = $1',
+    [invoiceId, today()]
+  )
+  return !!(res.rows[0] as any)?.past_due
+}
+
+function today(): string {
+  return new Date().toISOString().slice(0, 10)
+}
+
+/** Add a payment to an invoice; it cannot exceed the balance still owed */
+export async function recordPayment(data: PaymentInput, db: Queryable = client): Promise<{ id: string; balance: PaymentBalance }> {
+  const invoiceRes = await db.query('SELECT kind, status FROM invoice WHERE id = $1', [data.invoiceId])
+  const invoice = invoiceRes.rows[0] as any
+  if (!invoice) {
+    throw new Error('Invoice not found')
+  }
+  if (invoice.kind === 'CREDIT_NOTE') {
+    throw new Error('Payments are recorded on the invoice, not on its credit notes')
+  }
+  if (invoice.status === 'CANCELLED') {
+    throw new Error('Cancelled invoices cannot receive payments')
+  }
+
+  const balance = await getPaymentBalance(data.invoiceId, db)
+  const amount = roundCents(Number(data.amount))
+  if (amount > Number(balance.outstanding)) {
+    throw new Error(`The payment exceeds the outstanding balance of ${balance.outstanding}`)
+  }
+
+  const id = generateId()
+  await db.query(
+    `INSERT INTO payment (id, invoice_id, date, amount, method, reference, notes, created_at, updated_at)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, current_timestamp, current_timestamp)`,
+    [id, data.invoiceId, data.date, amount.toFixed(2), data.method || null, data.reference || null, data.notes || null]
+  )
+  await convertPayment(id, db)
+  return { id, balance: await refreshPaymentStatus(data.invoiceId, db) }
+}
+
+/** Remove a payment; returns the owning invoice id and its new balance */
+export async function deletePayment(paymentId: string, db: Queryable = client): Promise<{ invoiceId: string; balance: PaymentBalance }> {
+  const existing = await db.query('SELECT invoice_id FROM payment WHERE id = $1', [paymentId])
+  const invoiceId = (existing.rows[0] as any)?.invoice_id as string | undefined
+  if (!invoiceId) {
+    throw new Error('Payment not found')
+  }
+  await db.query('DELETE FROM payment WHERE id = $1', [paymentId])
+  return { invoiceId, balance: await refreshPaymentStatus(invoiceId, db) }
+}
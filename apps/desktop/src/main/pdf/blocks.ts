@@ -0,0 +1,482 @@
+import type { InvoiceLabels } from "../i18n";
+import type { InvoiceData, InvoiceItem, LayoutBlock, RenderContext } from "./types";
+
+type BlockOf<T extends LayoutBlock["type"]> = Extract<LayoutBlock, { type: T }>;
+
+// Draws a block starting at `y` and returns where the next one starts
+type BlockRenderer<T extends LayoutBlock["type"]> = (ctx: RenderContext, block: BlockOf<T>, y: number) => number;
+
+const LOGO_WIDTH = 120;
+const LOGO_HEIGHT = 50;
+const BAND_HEIGHT = 100;
+const KEEP_WITH_TOTALS = 2; // Item rows that move to the next page with the totals rather than leave them alone
+
+const num = (value?: string | null) => parseFloat(value || "0") || 0;
+
+function drawWrappedText(
+  doc: PDFKit.PDFDocument,
+  text: string,
+  x: number,
+  y: number,
+  options: { font: string; size: number; color: string; maxWidth: number }
+): number {
+  try {
+    doc.font(options.font).fontSize(options.size).fillColor(options.color);
+    doc.text(text, x, y, { width: options.maxWidth, align: "left" });
+    return doc.y;
+  } catch (error) {
+    console.warn("Font error, falling back to Helvetica:", error);
+    doc.font("Helvetica").fontSize(options.size);
+    doc.text(text, x, y, { width: options.maxWidth, align: "left" });
+    return doc.y;
+  }
+}
+
+function useFont(ctx: RenderContext, bold: boolean, size: number, color = ctx.palette.text) {
+  ctx.doc.font(bold ? ctx.theme.fonts.bold : ctx.theme.fonts.regular).fontSize(size).fillColor(color);
+}
+
+function drawRule(ctx: RenderContext, y: number, color = ctx.palette.rule, lineWidth = 1) {
+  ctx.doc
+    .save()
+    .moveTo(ctx.margin, y)
+    .lineTo(ctx.width - ctx.margin, y)
+    .lineWidth(lineWidth)
+    .strokeColor(color)
+    .stroke()
+    .restore();
+}
+
+// A logo that can't be decoded is left out rather than failing the invoice
+function drawLogo(ctx: RenderContext, x: number, y: number, align: "left" | "right"): boolean {
+  if (!ctx.logo) return false;
+  try {
+    ctx.doc.image(ctx.logo, x, y, { fit: [LOGO_WIDTH, LOGO_HEIGHT], align: align === "right" ? "right" : undefined, valign: "center" });
+    return true;
+  } catch (error) {
+    console.warn("Could not draw the company logo:", error);
+    return false;
+  }
+}
+
+/** Start a new page; blocks continue from its top margin */
+function newPage(ctx: RenderContext): number {
+  ctx.doc.addPage();
+  return ctx.margin;
+}
+
+/** `y` if `height` more fits on the current page, else the top of a new one */
+function ensureSpace(ctx: RenderContext, y: number, height: number): number {
+  return y + height <= ctx.pageBottom ? y : newPage(ctx);
+}
+
+/** FACTURA, FACTURA RECTIFICATIVA or PRESSUPOST, in the client's language */
+export function documentTitle(data: InvoiceData, labels: InvoiceLabels): string {
+  if (data.quote) return labels.quote;
+  return data.creditNote ? labels.creditNote : labels.invoice;
+}
+
+/**
+ * Number every page once the whole invoice is laid out, and repeat the
+ * invoice number at the top of the pages after the first.
+ */
+export function drawPageNumbers(ctx: RenderContext) {
+  const { doc, data, labels, margin, width } = ctx;
+  const title = documentTitle(data, labels);
+  const range = doc.bufferedPageRange();
+  for (let i = 0; i < range.count; i++) {
+    doc.switchToPage(range.start + i);
+    // Writing in the bottom margin would otherwise start yet another page
+    const bottom = doc.page.margins.bottom;
+    doc.page.margins.bottom = 0;
+    useFont(ctx, false, 8, ctx.palette.muted);
+    if (i > 0) {
+      doc.text(`${title} ${data.number}`, margin, margin - 22, { lineBreak: false });
+    }
+    const pageText = labels.page(i + 1, range.count);
+    doc.text(pageText, width - margin - doc.widthOfString(pageText), doc.page.height - 45, { lineBreak: false });
+    doc.page.margins.bottom = bottom;
+  }
+}
+
+/** The invoice lines, or a single line for its description and amount */
+export function invoiceItems(ctx: RenderContext): InvoiceItem[] {
+  const { data } = ctx;
+  return data.items && data.items.length
+    ? data.items
+    : [{ description: data.description || ctx.labels.defaultDescription, amount: data.amount }];
+}
+
+const drawHeader: BlockRenderer<"header"> = (ctx, block, y) => {
+  const { doc, data, labels, palette, margin, width } = ctx;
+  const title = documentTitle(data, labels);
+  const top = block.band ? 0 : y;
+
+  if (block.band) {
+    doc.save().rect(0, 0, width, BAND_HEIGHT).fill(palette.accent).restore();
+  }
+
+  // A left logo pushes a left-aligned title aside; a centred title goes under it
+  let titleLeft = margin;
+  let titleTop = block.band ? (BAND_HEIGHT - block.titleSize) / 2 : top;
+  let logoBottom = top;
+  if (block.logo !== "none") {
+    const logoY = block.band ? (BAND_HEIGHT - LOGO_HEIGHT) / 2 : top;
+    const logoX = block.logo === "left" ? margin : width - margin - LOGO_WIDTH;
+    if (drawLogo(ctx, logoX, logoY, block.logo)) {
+      logoBottom = logoY + LOGO_HEIGHT + 10;
+      if (block.align === "center" && !block.band) titleTop = logoBottom;
+      else if (block.logo === "left") titleLeft += LOGO_WIDTH + 16;
+    }
+  }
+
+  useFont(ctx, true, block.titleSize, block.band ? "#ffffff" : palette.accent);
+  const titleWidth = doc.widthOfString(title);
+  const titleX = block.align === "center" ? (width - titleWidth) / 2 : titleLeft;
+  doc.text(title, titleX, titleTop, { lineBreak: false });
+
+  return block.band ? BAND_HEIGHT + 20 : Math.max(titleTop + block.titleSize + 12, logoBottom);
+};
+
+function sellerLines(ctx: RenderContext): { contact: string[]; bank: string } {
+  const s = ctx.data.seller || {};
+  const contact: string[] = [];
+  if (s.taxId) contact.push(`${ctx.labels.taxId}: ${s.taxId}`);
+  if (s.address) contact.push(s.address);
+  if (s.phone) contact.push(s.phone);
+  if (s.email) contact.push(s.email);
+  return { contact, bank: [s.bankName, s.bankAccount, s.iban, s.swift].filter(Boolean).join(" · ") };
+}
+
+function clientLines(ctx: RenderContext): string[] {
+  const { data, labels } = ctx;
+  const lines: string[] = [];
+  if (data.client?.name || data.clientName) lines.push(data.client?.name || data.clientName);
+  if (data.client?.address) lines.push(data.client.address);
+  if (data.client?.taxId) lines.push(`${labels.taxId}: ${data.client.taxId}`);
+  if (data.client?.phone) lines.push(data.client.phone);
+  if (data.client?.email) lines.push(data.client.email);
+  return lines;
+}
+
+// Seller name, contact details and bank account in a column of the given width
+function drawSellerColumn(ctx: RenderContext, x: number, y: number, columnWidth: number, nameSize: number): number {
+  const { doc } = ctx;
+  const name = ctx.data.seller?.name;
+  if (name) {
+    useFont(ctx, true, nameSize);
+    doc.text(name, x, y, { width: columnWidth });
+    y = doc.y + 6;
+  }
+  const { contact, bank } = sellerLines(ctx);
+  useFont(ctx, false, 10);
+  for (const line of contact) {
+    doc.text(line, x, y, { width: columnWidth });
+    y = doc.y + 1;
+  }
+  if (bank) {
+    doc.text(bank, x, y + 1, { width: columnWidth });
+    y = doc.y + 3;
+  }
+  return y;
+}
+
+function drawClientColumn(ctx: RenderContext, x: number, y: number, columnWidth: number, labelColor: string): number {
+  const { doc } = ctx;
+  useFont(ctx, true, 10, labelColor);
+  doc.text(ctx.data.quote ? ctx.labels.quoteTo : ctx.labels.billTo, x, y, { width: columnWidth });
+  y = doc.y + 3;
+  useFont(ctx, false, 10);
+  for (const line of clientLines(ctx)) {
+    doc.text(line, x, y, { width: columnWidth });
+    y = doc.y + 1;
+  }
+  return y;
+}
+
+const drawSeller: BlockRenderer<"seller"> = (ctx, _block, y) => {
+  if (!ctx.data.seller) return y;
+  return drawSellerColumn(ctx, ctx.margin, y, ctx.width - ctx.margin * 2, 16) + 10;
+};
+
+const drawClient: BlockRenderer<"client"> = (ctx, _block, y) => {
+  return drawClientColumn(ctx, ctx.margin, y, ctx.width - ctx.margin * 2, ctx.palette.text) + 10;
+};
+
+const drawParties: BlockRenderer<"parties"> = (ctx, _block, y) => {
+  const gap = 24;
+  const columnWidth = (ctx.width - ctx.margin * 2 - gap) / 2;
+  const sellerEnd = ctx.data.seller ? drawSellerColumn(ctx, ctx.margin, y, columnWidth, 14) : y;
+  const clientEnd = drawClientColumn(ctx, ctx.margin + columnWidth + gap, y, columnWidth, ctx.palette.muted);
+  return Math.max(sellerEnd, clientEnd) + 12;
+};
+
+const drawDetails: BlockRenderer<"details"> = (ctx, block, y) => {
+  const { doc, data, labels, margin, width } = ctx;
+  const dates: Array<[string, string]> = [
+    [labels.date, ctx.formatDate(data.issueDate)],
+    [data.quote ? labels.quoteNumber : labels.number, data.number],
+  ];
+  if (data.quote) {
+    dates.push([labels.validUntil, ctx.formatDate(data.quote.validUntil)]);
+  } else if (data.expectedPaymentDate) {
+    dates.push([labels.dueDate, ctx.formatDate(data.expectedPaymentDate)]);
+  }
+  const rectification: Array<[string, string]> = [];
+  if (data.creditNote) {
+    const originalDate = ctx.formatDate(data.creditNote.originalIssueDate);
+    rectification.push([labels.rectifies, labels.rectifiedInvoice(data.creditNote.originalNumber, originalDate)]);
+    if (data.creditNote.reason) rectification.push([labels.reason, data.creditNote.reason]);
+  }
+
+  // Label and value pairs, with the values lined up after the widest label
+  const drawStacked = (rows: Array<[string, string]>, startY: number): number => {
+    useFont(ctx, true, 10);
+    const valueX = margin + Math.max(...rows.map(([label]) => doc.widthOfString(label))) + 12;
+    let rowY = startY;
+    for (const [label, value] of rows) {
+      useFont(ctx, true, 10);
+      doc.text(label, margin, rowY, { lineBreak: false });
+      rowY = drawWrappedText(doc, value, valueX, rowY, {
+        font: ctx.theme.fonts.regular,
+        size: 10,
+        color: ctx.palette.text,
+        maxWidth: width - margin - valueX,
+      }) + 4;
+    }
+    return rowY;
+  };
+
+  if (!block.inline) {
+    return drawStacked([...dates, ...rectification], y) + 8;
+  }
+
+  // Dates and number in a row of columns, label above value
+  const columnWidth = (width - margin * 2) / dates.length;
+  dates.forEach(([label, value], i) => {
+    const x = margin + columnWidth * i;
+    useFont(ctx, true, 8, ctx.palette.muted);
+    doc.text(label, x, y, { width: columnWidth - 8, lineBreak: false });
+    useFont(ctx, true, 10);
+    doc.text(value, x, y + 12, { width: columnWidth - 8, lineBreak: false });
+  });
+  y += 34;
+  if (rectification.length) y = drawStacked(rectification, y) + 4;
+  return y;
+};
+
+const drawItems: BlockRenderer<"items"> = (ctx, block, y) => {
+  const { doc, labels, palette, margin, width } = ctx;
+  const items = invoiceItems(ctx);
+  const hasDetail = items.some(
+    (item) => item.unitPrice !== undefined && (items.length > 1 || num(item.quantity) !== 1 || !!item.unit)
+  );
+  const hasDiscount = items.some((item) => num(item.discount) !== 0);
+  const hasTax = items.some((item) => num(item.taxRate) !== 0);
+
+  // Columns are laid out right to left; description takes the remaining width
+  const columns: Array<{ key: string; label: string; width: number }> = [];
+  if (hasDetail) {
+    columns.push({ key: "quantity", label: labels.quantity, width: 55 });
+    columns.push({ key: "unitPrice", label: labels.unitPrice, width: 75 });
+  }
+  if (hasDiscount) columns.push({ key: "discount", label: labels.discount, width: 40 });
+  if (hasTax) columns.push({ key: "taxRate", label: labels.tax, width: 40 });
+  columns.push({ key: "amount", label: labels.amount, width: 85 });
+
+  const tableRight = width - margin - 10;
+  const columnRights: number[] = [];
+  let right = tableRight;
+  for (let i = columns.length - 1; i >= 0; i--) {
+    columnRights[i] = right;
+    right -= columns[i].width;
+  }
+  const descColWidth = right - (margin + 10) - 8;
+  const compact = columns.length > 1;
+  const headerSize = compact ? 9 : 12;
+  const headerHeight = compact ? 22 : 28;
+  const rowSize = compact ? 10 : 11;
+
+  // Header row, on a band of the accent colour or under a rule; repeated on every page
+  const drawHeaderRow = (top: number): number => {
+    if (block.headerFill) {
+      doc.save().rect(margin, top, width - margin * 2, headerHeight).fill(palette.accent).restore();
+    } else {
+      drawRule(ctx, top);
+    }
+    const headerY = block.headerFill ? top + (headerHeight - headerSize) / 2 : top + 15;
+    useFont(ctx, true, headerSize, block.headerFill ? "#ffffff" : palette.text);
+    doc.text(labels.description, margin + 10, headerY, { lineBreak: false });
+    columns.forEach((column, i) => {
+      doc.text(column.label, columnRights[i] - doc.widthOfString(column.label), headerY, { lineBreak: false });
+    });
+    return block.headerFill ? top + headerHeight + 8 : headerY + headerHeight;
+  };
+  const headerRowHeight = block.headerFill ? headerHeight + 8 : 15 + headerHeight;
+
+  // Space each row takes; the last rows need room for the totals after them too
+  useFont(ctx, false, rowSize);
+  const rowHeights = items.map((item) => doc.heightOfString(item.description, { width: descColWidth - 4 }) + 12);
+  const keepFrom = Math.max(items.length - KEEP_WITH_TOTALS, 0);
+  const totalsHeight = ctx.theme.layout.some((b) => b.type === "totals") ? measureTotals(ctx) : 0;
+  const spaceFor = (index: number) =>
+    index === keepFrom
+      ? rowHeights.slice(index).reduce((sum, height) => sum + height, 0) + totalsHeight
+      : rowHeights[index];
+
+  y = drawHeaderRow(ensureSpace(ctx, y + 10, headerRowHeight + spaceFor(0)));
+
+  // Rows
+  items.forEach((item, index) => {
+    if (index > 0 && y + spaceFor(index) > ctx.pageBottom) {
+      y = drawHeaderRow(newPage(ctx));
+    }
+    const cells: Record<string, string> = {
+      quantity: `${num(item.quantity || "1").toLocaleString(ctx.locale, { maximumFractionDigits: 3 })}${item.unit ? ` ${item.unit}` : ""}`,
+      unitPrice: ctx.formatAmount(num(item.unitPrice ?? item.amount)),
+      discount: num(item.discount) ? `${num(item.discount)}%` : "",
+      taxRate: `${num(item.taxRate)}%`,
+      amount: ctx.formatAmount(num(item.amount)),
+    };
+    if (block.zebra && index % 2 === 1) {
+      doc.save().rect(margin, y - 4, width - margin * 2, rowHeights[index] - 2).fill(palette.accentTint).restore();
+    }
+    const startY = y;
+    y = drawWrappedText(doc, item.description, margin + 12, y, {
+      font: ctx.theme.fonts.regular,
+      size: rowSize,
+      color: palette.text,
+      maxWidth: descColWidth - 4,
+    });
+    columns.forEach((column, i) => {
+      const valueText = cells[column.key];
+      doc.text(valueText, columnRights[i] - doc.widthOfString(valueText), startY, { lineBreak: false });
+    });
+    y += 6;
+    if (!block.zebra) drawRule(ctx, y - 2, "#eeeeee", 0.6);
+    y += 6;
+  });
+  return y;
+};
+
+// Subtotal, one row per tax rate and withholding, only when something applies
+function invoiceSummary(ctx: RenderContext): { rows: Array<[string, number]>; total: number } {
+  const { data, labels } = ctx;
+  let subtotal = 0;
+  let taxTotal = 0;
+  for (const item of invoiceItems(ctx)) {
+    const amount = num(item.amount);
+    subtotal += amount;
+    taxTotal += item.taxAmount !== undefined && item.taxAmount !== null
+      ? num(item.taxAmount)
+      : Math.round(amount * num(item.taxRate)) / 100;
+  }
+  taxTotal = Math.round(taxTotal * 100) / 100;
+
+  const rows: Array<[string, number]> = [];
+  if (data.taxSummary) {
+    const applied = data.taxSummary.breakdown.filter((entry) => num(entry.amount) !== 0);
+    if (applied.length) {
+      rows.push([labels.taxableBase, num(data.taxSummary.subtotal)]);
+      for (const entry of applied) {
+        const label = entry.name.includes("%") ? entry.name : `${entry.name} (${entry.rate}%)`;
+        rows.push([label.toUpperCase(), num(entry.amount)]);
+      }
+    }
+    return { rows, total: num(data.taxSummary.total) };
+  }
+  if (taxTotal !== 0) {
+    rows.push([labels.taxableBase, subtotal], [labels.taxes, taxTotal]);
+  }
+  return { rows, total: subtotal + taxTotal };
+}
+
+function measureTotals(ctx: RenderContext): number {
+  const { rows } = invoiceSummary(ctx);
+  return (rows.length ? 4 + rows.length * 16 : 0) + 52;
+}
+
+const drawTotals: BlockRenderer<"totals"> = (ctx, block, y) => {
+  const { doc, labels, palette, margin, width } = ctx;
+  const { rows, total } = invoiceSummary(ctx);
+  y = ensureSpace(ctx, y, measureTotals(ctx));
+  if (rows.length) {
+    y += 4;
+    useFont(ctx, false, 11);
+    for (const [label, value] of rows) {
+      doc.text(label, margin + 14, y, { lineBreak: false });
+      const valueText = ctx.formatAmount(value);
+      doc.text(valueText, width - margin - doc.widthOfString(valueText) - 14, y, { lineBreak: false });
+      y += 16;
+    }
+  }
+
+  // Total, in a tinted box when the theme has one
+  y += 8;
+  if (block.box) {
+    doc.save().roundedRect(margin, y, width - margin * 2, 34, 4).fill(palette.accentTint).restore();
+  }
+  useFont(ctx, true, 13, palette.accent);
+  doc.text(labels.total, margin + 14, y + 10, { lineBreak: false });
+  const totalText = ctx.formatAmount(total);
+  doc.text(totalText, width - margin - doc.widthOfString(totalText) - 14, y + 10, { lineBreak: false });
+  return y + 44;
+};
+
+// Long notes flow onto the next pages; the heading stays with their first lines
+const drawNotes: BlockRenderer<"notes"> = (ctx, _block, y) => {
+  if (!ctx.data.notes) return y;
+  y = ensureSpace(ctx, y + 12, 50);
+  useFont(ctx, true, 11);
+  ctx.doc.text(ctx.labels.notes, ctx.margin, y);
+  return drawWrappedText(ctx.doc, ctx.data.notes, ctx.margin, y + 14, {
+    font: ctx.theme.fonts.regular,
+    size: 10,
+    color: ctx.palette.text,
+    maxWidth: ctx.width - ctx.margin * 2,
+  }) + 8;
+};
+
+// Payment terms and legal mentions, kept together at the bottom of the last page
+const drawFooter: BlockRenderer<"footer"> = (ctx, _block, y) => {
+  const { doc, data, labels, margin, width } = ctx;
+  const textWidth = width - margin * 2;
+  const paymentText = data.quote ? labels.quoteTerms : data.creditNote ? labels.refundTerms : labels.paymentTerms;
+  const legalText = (data.taxSummary?.legalMentions || []).join("\n");
+
+  useFont(ctx, true, 11);
+  const termsHeight = doc.heightOfString(paymentText, { width: textWidth }) + 6;
+  useFont(ctx, false, 9);
+  const legalHeight = legalText ? doc.heightOfString(legalText, { width: textWidth }) : 0;
+  const top = Math.min(doc.page.height - 150, ctx.pageBottom - termsHeight - legalHeight);
+  if (y > top) newPage(ctx);
+
+  useFont(ctx, true, 11);
+  doc.text(paymentText, margin, top, { width: textWidth });
+  if (legalText) {
+    drawWrappedText(doc, legalText, margin, top + termsHeight, {
+      font: ctx.theme.fonts.regular,
+      size: 9,
+      color: ctx.palette.muted,
+      maxWidth: textWidth,
+    });
+  }
+  return y;
+};
+
+const RENDERERS: { [T in LayoutBlock["type"]]: BlockRenderer<T> } = {
+  header: drawHeader,
+  seller: drawSeller,
+  client: drawClient,
+  parties: drawParties,
+  details: drawDetails,
+  items: drawItems,
+  totals: drawTotals,
+  notes: drawNotes,
+  footer: drawFooter,
+};
+
+export function drawBlock(ctx: RenderContext, block: LayoutBlock, y: number): number {
+  const render = RENDERERS[block.type] as BlockRenderer<typeof block.type>;
+  return render(ctx, block as never, y);
+}
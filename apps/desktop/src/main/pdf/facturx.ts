@@ -0,0 +1,253 @@
+import { existsSync } from "node:fs";
+import { amount, decimal, escapeXml, num, partyCountry, unitCode, vatBreakdown, vatCategory, vatId } from "../einvoice/xml";
+import { getPdfTheme } from "./themes";
+import type { InvoiceData, InvoiceItem } from "./types";
+
+/**
+ * Factur-X / ZUGFeRD invoices
+ *
+ * A Factur-X invoice is a PDF/A-3 file carrying the same invoice as
+ * structured data: a UN/CEFACT Cross Industry Invoice XML (BASIC profile)
+ * embedded as `factur-x.xml` and announced in the XMP metadata, so the
+ * client's accounts payable system can book it without reading the PDF.
+ * PDF/A only allows embedded fonts, so these invoices are set in a TrueType
+ * font found on the system instead of the built-in PDF fonts.
+ */
+
+export const FACTURX_FILENAME = "factur-x.xml";
+const FACTURX_PROFILE = "BASIC";
+const GUIDELINE_ID = "urn:cen.eu:en16931:2017#compliant#urn:factur-x.eu:1p0:basic";
+
+// TrueType fonts PDF/A files can embed, by platform; the first pair found is used
+const SANS_FONTS = [
+  ["C:\\Windows\\Fonts\\arial.ttf", "C:\\Windows\\Fonts\\arialbd.ttf"],
+  ["/System/Library/Fonts/Supplemental/Arial.ttf", "/System/Library/Fonts/Supplemental/Arial Bold.ttf"],
+  ["/Library/Fonts/Arial.ttf", "/Library/Fonts/Arial Bold.ttf"],
+  ["/usr/share/fonts/truetype/liberation/LiberationSans-Regular.ttf", "/usr/share/fonts/truetype/liberation/LiberationSans-Bold.ttf"],
+  ["/usr/share/fonts/truetype/dejavu/DejaVuSans.ttf", "/usr/share/fonts/truetype/dejavu/DejaVuSans-Bold.ttf"],
+  ["/usr/share/fonts/TTF/DejaVuSans.ttf", "/usr/share/fonts/TTF/DejaVuSans-Bold.ttf"],
+];
+const SERIF_FONTS = [
+  ["C:\\Windows\\Fonts\\times.ttf", "C:\\Windows\\Fonts\\timesbd.ttf"],
+  ["/System/Library/Fonts/Supplemental/Times New Roman.ttf", "/System/Library/Fonts/Supplemental/Times New Roman Bold.ttf"],
+  ["/usr/share/fonts/truetype/liberation/LiberationSerif-Regular.ttf", "/usr/share/fonts/truetype/liberation/LiberationSerif-Bold.ttf"],
+  ["/usr/share/fonts/truetype/dejavu/DejaVuSerif.ttf", "/usr/share/fonts/truetype/dejavu/DejaVuSerif-Bold.ttf"],
+];
+
+/** Regular and bold font files to embed, serif ones for serif themes when available */
+export function findEmbeddableFonts(serif: boolean): { regular: string; bold: string } | null {
+  const candidates = serif ? [...SERIF_FONTS, ...SANS_FONTS] : SANS_FONTS;
+  const found = candidates.find((pair) => pair.every((path) => existsSync(path)));
+  return found ? { regular: found[0], bold: found[1] } : null;
+}
+
+export function isSerifTheme(themeId?: string | null): boolean {
+  return getPdfTheme(themeId).fonts.regular.startsWith("Times");
+}
+
+// Dates in the CII `102` format: YYYYMMDD
+function date102(date: string): string {
+  return date.slice(0, 10).replace(/-/g, "");
+}
+
+function tradeParty(tag: string, party: { name?: string; address?: string; email?: string; taxId?: string }, country: string): string {
+  const lines = (party.address || "").split(/\r?\n/).map((line) => line.trim()).filter(Boolean);
+  const address = [
+    lines[0] && `<ram:LineOne>${escapeXml(lines[0])}</ram:LineOne>`,
+    lines[1] && `<ram:LineTwo>${escapeXml(lines[1])}</ram:LineTwo>`,
+    lines.length > 2 && `<ram:LineThree>${escapeXml(lines.slice(2).join(", "))}</ram:LineThree>`,
+    `<ram:CountryID>${country}</ram:CountryID>`,
+  ].filter(Boolean).join("");
+  return [
+    `<ram:${tag}>`,
+    `<ram:Name>${escapeXml(party.name || "")}</ram:Name>`,
+    `<ram:PostalTradeAddress>${address}</ram:PostalTradeAddress>`,
+    party.email ? `<ram:URIUniversalCommunication><ram:URIID schemeID="EM">${escapeXml(party.email)}</ram:URIID></ram:URIUniversalCommunication>` : "",
+    party.taxId ? `<ram:SpecifiedTaxRegistration><ram:ID schemeID="VA">${escapeXml(vatId(party.taxId, country))}</ram:ID></ram:SpecifiedTaxRegistration>` : "",
+    `</ram:${tag}>`,
+  ].join("");
+}
+
+function lineItem(item: InvoiceItem, index: number, sign: number): string {
+  const quantity = sign * num(item.quantity ?? 1);
+  const netPrice = num(item.unitPrice ?? item.amount) * (1 - num(item.discount) / 100);
+  const rate = num(item.taxRate);
+  return [
+    "<ram:IncludedSupplyChainTradeLineItem>",
+    `<ram:AssociatedDocumentLineDocument><ram:LineID>${index + 1}</ram:LineID></ram:AssociatedDocumentLineDocument>`,
+    `<ram:SpecifiedTradeProduct><ram:Name>${escapeXml(item.description)}</ram:Name></ram:SpecifiedTradeProduct>`,
+    `<ram:SpecifiedLineTradeAgreement><ram:NetPriceProductTradePrice><ram:ChargeAmount>${decimal(netPrice)}</ram:ChargeAmount></ram:NetPriceProductTradePrice></ram:SpecifiedLineTradeAgreement>`,
+    `<ram:SpecifiedLineTradeDelivery><ram:BilledQuantity unitCode="${unitCode(item.unit)}">${decimal(quantity)}</ram:BilledQuantity></ram:SpecifiedLineTradeDelivery>`,
+    "<ram:SpecifiedLineTradeSettlement>",
+    `<ram:ApplicableTradeTax><ram:TypeCode>VAT</ram:TypeCode><ram:CategoryCode>${vatCategory(rate)}</ram:CategoryCode><ram:RateApplicablePercent>${decimal(rate)}</ram:RateApplicablePercent></ram:ApplicableTradeTax>`,
+    `<ram:SpecifiedTradeSettlementLineMonetarySummation><ram:LineTotalAmount>${amount(sign * num(item.amount))}</ram:LineTotalAmount></ram:SpecifiedTradeSettlementLineMonetarySummation>`,
+    "</ram:SpecifiedLineTradeSettlement>",
+    "</ram:IncludedSupplyChainTradeLineItem>",
+  ].join("");
+}
+
+/**
+ * Cross Industry Invoice XML of an invoice (Factur-X BASIC profile). Credit
+ * notes are typed 381 with positive amounts and refer to the invoice they
+ * rectify.
+ */
+export function buildFacturXml(data: InvoiceData): string {
+  const seller = data.seller || {};
+  const buyer = data.client || { name: data.clientName };
+  const sellerCountry = (seller.countryCode || "").toUpperCase();
+  const buyerCountry = (buyer.countryCode || "").toUpperCase() || partyCountry(buyer.taxId, sellerCountry);
+  const sign = data.creditNote ? -1 : 1;
+  const summary = data.taxSummary!;
+  const groups = vatBreakdown(data.taxSummary, sign);
+  const lineTotal = sign * num(summary.subtotal);
+  const taxTotal = sign * num(summary.taxAmount);
+  const notes = [data.description, data.notes, data.creditNote?.reason].filter((note): note is string => !!note);
+
+  const paymentMeans = seller.iban
+    ? `<ram:SpecifiedTradeSettlementPaymentMeans><ram:TypeCode>58</ram:TypeCode><ram:PayeePartyCreditorFinancialAccount><ram:IBANID>${escapeXml(seller.iban.replace(/\s/g, ""))}</ram:IBANID></ram:PayeePartyCreditorFinancialAccount></ram:SpecifiedTradeSettlementPaymentMeans>`
+    : "";
+  const taxes = groups.map((group) => [
+    "<ram:ApplicableTradeTax>",
+    `<ram:CalculatedAmount>${amount(group.tax)}</ram:CalculatedAmount>`,
+    "<ram:TypeCode>VAT</ram:TypeCode>",
+    group.category === "E" ? `<ram:ExemptionReason>${escapeXml(group.reason || "Exempt")}</ram:ExemptionReason>` : "",
+    `<ram:BasisAmount>${amount(group.base)}</ram:BasisAmount>`,
+    `<ram:CategoryCode>${group.category}</ram:CategoryCode>`,
+    `<ram:RateApplicablePercent>${decimal(group.rate)}</ram:RateApplicablePercent>`,
+    "</ram:ApplicableTradeTax>",
+  ].join("")).join("");
+  const paymentTerms = data.expectedPaymentDate && !data.creditNote
+    ? `<ram:SpecifiedTradePaymentTerms><ram:DueDateDateTime><udt:DateTimeString format="102">${date102(data.expectedPaymentDate)}</udt:DateTimeString></ram:DueDateDateTime></ram:SpecifiedTradePaymentTerms>`
+    : "";
+  const reference = data.creditNote
+    ? `<ram:InvoiceReferencedDocument><ram:IssuerAssignedID>${escapeXml(data.creditNote.originalNumber)}</ram:IssuerAssignedID><ram:FormattedIssueDateTime><qdt:DateTimeString format="102">${date102(data.creditNote.originalIssueDate)}</qdt:DateTimeString></ram:FormattedIssueDateTime></ram:InvoiceReferencedDocument>`
+    : "";
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rsm:CrossIndustryInvoice xmlns:rsm="urn:un:unece:uncefact:data:standard:CrossIndustryInvoice:100" xmlns:ram="urn:un:unece:uncefact:data:standard:ReusableAggregateBusinessInformationEntity:100" xmlns:qdt="urn:un:unece:uncefact:data:standard:QualifiedDataType:100" xmlns:udt="urn:un:unece:uncefact:data:standard:UnqualifiedDataType:100">',
+    `<rsm:ExchangedDocumentContext><ram:GuidelineSpecifiedDocumentContextParameter><ram:ID>${GUIDELINE_ID}</ram:ID></ram:GuidelineSpecifiedDocumentContextParameter></rsm:ExchangedDocumentContext>`,
+    "<rsm:ExchangedDocument>",
+    `<ram:ID>${escapeXml(data.number)}</ram:ID>`,
+    `<ram:TypeCode>${data.creditNote ? 381 : 380}</ram:TypeCode>`,
+    `<ram:IssueDateTime><udt:DateTimeString format="102">${date102(data.issueDate)}</udt:DateTimeString></ram:IssueDateTime>`,
+    ...notes.map((note) => `<ram:IncludedNote><ram:Content>${escapeXml(note)}</ram:Content></ram:IncludedNote>`),
+    "</rsm:ExchangedDocument>",
+    "<rsm:SupplyChainTradeTransaction>",
+    ...(data.items || []).map((item, index) => lineItem(item, index, sign)),
+    "<ram:ApplicableHeaderTradeAgreement>",
+    tradeParty("SellerTradeParty", seller, sellerCountry),
+    tradeParty("BuyerTradeParty", { ...buyer, name: buyer.name || data.clientName }, buyerCountry),
+    "</ram:ApplicableHeaderTradeAgreement>",
+    "<ram:ApplicableHeaderTradeDelivery/>",
+    "<ram:ApplicableHeaderTradeSettlement>",
+    `<ram:InvoiceCurrencyCode>${escapeXml(data.currency)}</ram:InvoiceCurrencyCode>`,
+    paymentMeans,
+    taxes,
+    paymentTerms,
+    "<ram:SpecifiedTradeSettlementHeaderMonetarySummation>",
+    `<ram:LineTotalAmount>${amount(lineTotal)}</ram:LineTotalAmount>`,
+    `<ram:TaxBasisTotalAmount>${amount(lineTotal)}</ram:TaxBasisTotalAmount>`,
+    `<ram:TaxTotalAmount currencyID="${escapeXml(data.currency)}">${amount(taxTotal)}</ram:TaxTotalAmount>`,
+    `<ram:GrandTotalAmount>${amount(lineTotal + taxTotal)}</ram:GrandTotalAmount>`,
+    `<ram:DuePayableAmount>${amount(lineTotal + taxTotal)}</ram:DuePayableAmount>`,
+    "</ram:SpecifiedTradeSettlementHeaderMonetarySummation>",
+    reference,
+    "</ram:ApplicableHeaderTradeSettlement>",
+    "</rsm:SupplyChainTradeTransaction>",
+    "</rsm:CrossIndustryInvoice>",
+  ].join("\n");
+}
+
+/**
+ * What keeps an invoice from being a conforming Factur-X file, in words the
+ * user can act on; empty when it can be issued. The number is not checked,
+ * as it is only reserved once the invoice is stored.
+ */
+export function facturXProblems(data: Omit<InvoiceData, "number" | "outputPath">): string[] {
+  const problems: string[] = [];
+  const seller = data.seller || {};
+  if (!seller.name?.trim()) problems.push("The company profile has no name");
+  if (!seller.taxId?.trim()) problems.push("The company profile has no VAT number");
+  if (!/^[A-Z]{2}$/i.test(seller.countryCode || "")) problems.push("The company profile has no country (two-letter code such as ES)");
+  if (!(data.client?.name || data.clientName)?.trim()) problems.push("The invoice has no client");
+  if (!/^[A-Z]{3}$/.test(data.currency)) problems.push(`"${data.currency}" is not an ISO 4217 currency code`);
+  if (isNaN(new Date(data.issueDate).getTime())) problems.push("The issue date is not valid");
+
+  const items = data.items || [];
+  if (!items.length) problems.push("The invoice has no lines");
+  items.forEach((item, index) => {
+    if (!item.description?.trim()) problems.push(`Line ${index + 1} has no description`);
+    if (item.quantity === undefined || num(item.quantity) === 0) problems.push(`Line ${index + 1} has no quantity`);
+  });
+
+  const summary = data.taxSummary;
+  if (!summary) {
+    problems.push("The invoice has no tax breakdown");
+  } else {
+    const linesTotal = items.reduce((sum, item) => sum + num(item.amount), 0);
+    if (Math.abs(linesTotal - num(summary.subtotal)) >= 0.005) {
+      problems.push("The lines do not add up to the taxable base");
+    }
+    if (num(summary.withholdingAmount) !== 0) {
+      problems.push("Withholding taxes (such as IRPF) cannot be expressed in Factur-X data");
+    } else if (Math.abs(num(summary.subtotal) + num(summary.taxAmount) - num(summary.total)) >= 0.005) {
+      problems.push("The taxable base and taxes do not add up to the total");
+    }
+  }
+
+  if (!findEmbeddableFonts(isSerifTheme(data.seller?.invoiceTheme))) {
+    problems.push("No TrueType font was found to embed (PDF/A does not allow the built-in PDF fonts)");
+  }
+  return problems;
+}
+
+// Factur-X extension schema and properties, added to the XMP metadata (PDF/A-3 requires the schema)
+function facturXMetadata(): string {
+  const property = (name: string, description: string) => `
+                    <rdf:li rdf:parseType="Resource">
+                        <pdfaProperty:name>${name}</pdfaProperty:name>
+                        <pdfaProperty:valueType>Text</pdfaProperty:valueType>
+                        <pdfaProperty:category>external</pdfaProperty:category>
+                        <pdfaProperty:description>${description}</pdfaProperty:description>
+                    </rdf:li>`;
+  return `
+        <rdf:Description rdf:about="" xmlns:pdfaExtension="http://www.aiim.org/pdfa/ns/extension/" xmlns:pdfaSchema="http://www.aiim.org/pdfa/ns/schema#" xmlns:pdfaProperty="http://www.aiim.org/pdfa/ns/property#">
+            <pdfaExtension:schemas>
+                <rdf:Bag>
+                    <rdf:li rdf:parseType="Resource">
+                        <pdfaSchema:schema>Factur-X PDFA Extension Schema</pdfaSchema:schema>
+                        <pdfaSchema:namespaceURI>urn:factur-x:pdfa:CrossIndustryDocument:invoice:1p0#</pdfaSchema:namespaceURI>
+                        <pdfaSchema:prefix>fx</pdfaSchema:prefix>
+                        <pdfaSchema:property>
+                            <rdf:Seq>${property("DocumentFileName", "The name of the embedded XML document")}${property("DocumentType", "The type of the hybrid document in capital letters, e.g. INVOICE or ORDER")}${property("Version", "The actual version of the standard applying to the embedded XML document")}${property("ConformanceLevel", "The conformance level of the embedded XML document")}
+                            </rdf:Seq>
+                        </pdfaSchema:property>
+                    </rdf:li>
+                </rdf:Bag>
+            </pdfaExtension:schemas>
+        </rdf:Description>
+        <rdf:Description rdf:about="" xmlns:fx="urn:factur-x:pdfa:CrossIndustryDocument:invoice:1p0#">
+            <fx:DocumentType>INVOICE</fx:DocumentType>
+            <fx:DocumentFileName>${FACTURX_FILENAME}</fx:DocumentFileName>
+            <fx:Version>1.0</fx:Version>
+            <fx:ConformanceLevel>${FACTURX_PROFILE}</fx:ConformanceLevel>
+        </rdf:Description>
+        `;
+}
+
+/** Attach the invoice XML to a PDF/A-3 document as its alternative representation */
+export function embedFacturX(doc: PDFKit.PDFDocument, data: InvoiceData): void {
+  const now = new Date();
+  // `relationship` is missing from @types/pdfkit; PDF/A-3 requires it on associated files
+  const options = {
+    name: FACTURX_FILENAME,
+    type: "text/xml",
+    description: "Factur-X invoice",
+    relationship: "Alternative",
+    creationDate: now,
+    modifiedDate: now,
+  };
+  doc.file(Buffer.from(buildFacturXml(data), "utf-8"), options);
+  doc.appendXML(facturXMetadata());
+}
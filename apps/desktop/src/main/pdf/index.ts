@@ -0,0 +1,152 @@
+import PDFDocument from "pdfkit";
+import { createWriteStream } from "node:fs";
+import { invoiceLabels, resolveLocale } from "../i18n";
+import { documentTitle, drawBlock, drawPageNumbers } from "./blocks";
+import { embedFacturX, facturXProblems, findEmbeddableFonts, isSerifTheme } from "./facturx";
+import { getPdfTheme, themePalette } from "./themes";
+import type { InvoiceData, RenderContext } from "./types";
+
+/**
+ * Invoice PDFs
+ *
+ * An invoice is drawn by its company's theme: a list of layout blocks
+ * (header, parties, items table, totals, footer...) with the fonts and
+ * colours they use, see `themes.ts`. The company profile picks the theme
+ * and can add a logo and an accent colour; each block is drawn by its
+ * renderer in `blocks.ts`. Item tables longer than a page continue on the
+ * next with their header repeated, the totals never start a page without
+ * the last rows, and every page is numbered. Companies that issue Factur-X
+ * invoices get PDF/A-3 files with the invoice data embedded, see
+ * `facturx.ts`; an invoice that would not conform is not written at all.
+ * Quotes are drawn the same way under a PRESSUPOST title, with their
+ * validity date in place of the due date.
+ */
+
+export type { Branding, CreditNoteReference, InvoiceData, InvoiceItem, Party, PdfTheme, QuoteReference } from "./types";
+export { DEFAULT_THEME_ID, PDF_THEMES, getPdfTheme, isHexColor } from "./themes";
+export { buildFacturXml, facturXProblems } from "./facturx";
+
+// Bottom margin of every page, where its number goes
+const PAGE_NUMBER_SPACE = 70;
+
+function formatCurrency(value: number, currency: string, locale: string): string {
+  try {
+    return new Intl.NumberFormat(locale, {
+      style: "currency",
+      currency,
+    }).format(value);
+  } catch {
+    return `${value.toFixed(2)} ${currency}`;
+  }
+}
+
+function formatLongDate(date: string, locale: string): string {
+  return new Date(date).toLocaleDateString(locale, {
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+  });
+}
+
+// PDF/A metadata repeats the document info in XMP, which PDFKit writes unescaped
+function xmpSafe(text: string): string {
+  return text.replace(/[<>&]/g, " ").replace(/\s+/g, " ").trim();
+}
+
+// Image bytes of a `data:image/...;base64,` logo
+function decodeLogo(logo?: string | null): Buffer | null {
+  const match = logo ? /^data:image\/(png|jpe?g);base64,(.+)$/i.exec(logo) : null;
+  return match ? Buffer.from(match[2], "base64") : null;
+}
+
+export async function generateInvoicePdf(data: InvoiceData): Promise<void> {
+  return new Promise((resolve, reject) => {
+    try {
+      const labels = invoiceLabels(data.language);
+      const locale = resolveLocale(data.language, data.locale);
+      let theme = getPdfTheme(data.seller?.invoiceTheme);
+      const title = documentTitle(data, labels);
+      const margin = 50;
+
+      // Quotes are not invoices, so they are never written as Factur-X
+      const facturX = !!data.seller?.facturX && !data.quote;
+      if (facturX) {
+        const problems = facturXProblems(data);
+        if (problems.length) {
+          throw new Error(`Invoice ${data.number} is not a valid Factur-X invoice: ${problems.join("; ")}`);
+        }
+      }
+      const fonts = facturX ? findEmbeddableFonts(isSerifTheme(theme.id)) : null;
+      const info = {
+        Title: `${title.charAt(0)}${title.slice(1).toLowerCase()} ${data.number}`,
+        Author: data.seller?.name || "Billing App",
+        Subject: data.quote ? labels.quoteFor(data.clientName) : labels.invoiceFor(data.clientName),
+        Creator: "Billing App",
+        Producer: facturX ? "Billing App" : "PDFKit", // PDF/A wants it to match the XMP producer
+      };
+
+      const doc = new PDFDocument({
+        size: "A4",
+        margins: { top: margin, left: margin, right: margin, bottom: PAGE_NUMBER_SPACE },
+        bufferPages: true, // Pages are numbered once all of them exist
+        info: facturX
+          ? { ...info, Title: xmpSafe(info.Title), Author: xmpSafe(info.Author), Subject: xmpSafe(info.Subject) }
+          : info,
+        ...(fonts && {
+          subset: "PDF/A-3b" as const,
+          pdfVersion: "1.7" as const,
+          lang: data.language || "ca",
+          font: fonts.regular, // Never fall back to the built-in Helvetica
+        }),
+      });
+      if (fonts) {
+        doc.registerFont("Embedded", fonts.regular);
+        doc.registerFont("Embedded-Bold", fonts.bold);
+        theme = { ...theme, fonts: { regular: "Embedded", bold: "Embedded-Bold" } };
+      }
+
+      const out = createWriteStream(data.outputPath);
+      doc.pipe(out);
+
+      // Handle stream events properly
+      out.on("error", (error) => {
+        console.error("PDF write stream error:", error);
+        reject(error);
+      });
+
+      out.on("finish", () => {
+        console.log("PDF generated successfully:", data.outputPath);
+        resolve();
+      });
+
+      const ctx: RenderContext = {
+        doc,
+        data,
+        labels,
+        locale,
+        theme,
+        palette: themePalette(theme, data.seller?.accentColor),
+        logo: decodeLogo(data.seller?.logo),
+        margin,
+        width: doc.page.width,
+        pageBottom: doc.page.height - PAGE_NUMBER_SPACE,
+        formatAmount: (value) => formatCurrency(value, data.currency, locale),
+        formatDate: (date) => formatLongDate(date, locale),
+      };
+
+      let y = margin;
+      for (const block of theme.layout) {
+        y = drawBlock(ctx, block, y);
+      }
+      drawPageNumbers(ctx);
+      if (facturX) {
+        embedFacturX(doc, data);
+      }
+
+      doc.end();
+    } catch (error) {
+      console.error("PDF generation error:", error);
+      reject(error);
+    }
+  });
+}
@@ -0,0 +1,101 @@
+import type { Palette, PdfTheme } from "./types";
+
+export const DEFAULT_THEME_ID = "classic";
+
+export const PDF_THEMES: PdfTheme[] = [
+  {
+    id: "classic",
+    name: "Classic",
+    description: "Centred title with the company and client stacked, as invoices have always looked",
+    fonts: { regular: "Helvetica", bold: "Helvetica-Bold" },
+    colors: { text: "#1f2937", muted: "#6b7280", rule: "#e5e7eb" },
+    accentColor: "#1f2937",
+    layout: [
+      { type: "header", align: "center", logo: "left", band: false, titleSize: 28 },
+      { type: "seller" },
+      { type: "details", inline: false },
+      { type: "client" },
+      { type: "items", headerFill: false, zebra: false },
+      { type: "totals", box: false },
+      { type: "notes" },
+      { type: "footer" },
+    ],
+  },
+  {
+    id: "modern",
+    name: "Modern",
+    description: "Accent-coloured band with the logo, company and client side by side, shaded table",
+    fonts: { regular: "Helvetica", bold: "Helvetica-Bold" },
+    colors: { text: "#111827", muted: "#6b7280", rule: "#e5e7eb" },
+    accentColor: "#2563eb",
+    layout: [
+      { type: "header", align: "left", logo: "right", band: true, titleSize: 24 },
+      { type: "parties" },
+      { type: "details", inline: true },
+      { type: "items", headerFill: true, zebra: true },
+      { type: "totals", box: true },
+      { type: "notes" },
+      { type: "footer" },
+    ],
+  },
+  {
+    id: "minimal",
+    name: "Minimal",
+    description: "Small type and thin rules, with the accent colour only on the title and total",
+    fonts: { regular: "Helvetica", bold: "Helvetica-Bold" },
+    colors: { text: "#374151", muted: "#9ca3af", rule: "#f3f4f6" },
+    accentColor: "#0f766e",
+    layout: [
+      { type: "header", align: "left", logo: "left", band: false, titleSize: 18 },
+      { type: "details", inline: true },
+      { type: "parties" },
+      { type: "items", headerFill: false, zebra: false },
+      { type: "totals", box: false },
+      { type: "notes" },
+      { type: "footer" },
+    ],
+  },
+  {
+    id: "serif",
+    name: "Serif",
+    description: "Times typeface with a right-aligned logo, for a traditional letterhead look",
+    fonts: { regular: "Times-Roman", bold: "Times-Bold" },
+    colors: { text: "#1c1917", muted: "#78716c", rule: "#e7e5e4" },
+    accentColor: "#7c2d12",
+    layout: [
+      { type: "header", align: "left", logo: "right", band: false, titleSize: 26 },
+      { type: "seller" },
+      { type: "client" },
+      { type: "details", inline: false },
+      { type: "items", headerFill: false, zebra: true },
+      { type: "totals", box: true },
+      { type: "notes" },
+      { type: "footer" },
+    ],
+  },
+];
+
+/** The theme with the given id; the classic one for unknown ids */
+export function getPdfTheme(id?: string | null): PdfTheme {
+  return PDF_THEMES.find((theme) => theme.id === id) || PDF_THEMES.find((theme) => theme.id === DEFAULT_THEME_ID)!;
+}
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+export function isHexColor(value: unknown): value is string {
+  return typeof value === "string" && HEX_COLOR.test(value);
+}
+
+// Mix a #rrggbb colour with white; `amount` 0 keeps it, 1 gives white
+function lighten(hex: string, amount: number): string {
+  const channels = [1, 3, 5].map((i) => parseInt(hex.slice(i, i + 2), 16));
+  return `#${channels
+    .map((c) => Math.round(c + (255 - c) * amount).toString(16).padStart(2, "0"))
+    .join("")}`;
+}
+
+/** Colours of a theme with the company's accent colour, if it has a valid one */
+export function themePalette(theme: PdfTheme, accentColor?: string | null): Palette {
+  const accent = isHexColor(accentColor) ? accentColor : theme.accentColor;
+  return { ...theme.colors, accent, accentTint: lighten(accent, 0.9) };
+}
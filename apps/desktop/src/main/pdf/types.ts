@@ -0,0 +1,118 @@
+import type { TaxSummary } from "../tax";
+import type { InvoiceLabels } from "../i18n";
+
+export interface Party {
+  name?: string;
+  address?: string;
+  email?: string;
+  phone?: string;
+  taxId?: string;
+  countryCode?: string | null; // ISO 3166 alpha-2, e.g. ES
+}
+
+export interface BankInfo {
+  bankName?: string;
+  bankAccount?: string;
+  iban?: string;
+  swift?: string;
+}
+
+// How the company's invoices look; stored in its company profile
+export interface Branding {
+  logo?: string | null; // PNG or JPEG data URL
+  accentColor?: string | null; // #rrggbb
+  invoiceTheme?: string | null; // Id of a built-in theme
+  facturX?: boolean | null; // PDF/A-3 with the invoice embedded as Factur-X XML
+}
+
+export interface InvoiceItem {
+  description: string;
+  amount: string; // Net amount (after discount, before tax)
+  quantity?: string;
+  unit?: string | null;
+  unitPrice?: string;
+  discount?: string | null; // Percentage
+  taxRate?: string | null; // Percentage
+  taxAmount?: string | null;
+}
+
+// Reference printed on rectifying invoices (credit notes)
+export interface CreditNoteReference {
+  originalNumber: string;
+  originalIssueDate: string;
+  reason?: string | null;
+}
+
+// Validity printed on quotes
+export interface QuoteReference {
+  validUntil: string;
+}
+
+export interface InvoiceData {
+  number: string;
+  clientName: string;
+  issueDate: string;
+  expectedPaymentDate?: string;
+  amount: string;
+  currency: string;
+  outputPath: string;
+  seller?: (Party & BankInfo & Branding) | null;
+  client?: Party | null;
+  items?: InvoiceItem[];
+  taxSummary?: TaxSummary | null; // Breakdown and legal mentions; computed from items when missing
+  description?: string | null;
+  notes?: string | null;
+  creditNote?: CreditNoteReference | null; // Switches to the FACTURA RECTIFICATIVA layout
+  quote?: QuoteReference | null; // Drawn as a PRESSUPOST (never as Factur-X)
+  language?: string | null; // Client's language for the labels; Catalan when missing
+  locale?: string | null; // Client's number/date formats; defaults to the language's
+}
+
+/**
+ * A block of the invoice layout, drawn top to bottom in the order a theme
+ * lists them. The footer is pinned to the bottom of the page.
+ */
+export type LayoutBlock =
+  | { type: "header"; align: "left" | "center"; logo: "left" | "right" | "none"; band: boolean; titleSize: number }
+  | { type: "seller" }
+  | { type: "client" }
+  | { type: "parties" } // Seller and client side by side
+  | { type: "details"; inline: boolean } // Date, number, due date and rectified invoice
+  | { type: "items"; headerFill: boolean; zebra: boolean }
+  | { type: "totals"; box: boolean }
+  | { type: "notes" }
+  | { type: "footer" };
+
+export interface PdfTheme {
+  id: string;
+  name: string;
+  description: string;
+  fonts: { regular: string; bold: string };
+  colors: { text: string; muted: string; rule: string };
+  accentColor: string; // Used when the company profile has none
+  layout: LayoutBlock[];
+}
+
+export interface Palette {
+  text: string;
+  muted: string;
+  rule: string;
+  accent: string;
+  accentTint: string; // Light background in the accent's hue
+}
+
+// What every block renderer draws with
+export interface RenderContext {
+  doc: PDFKit.PDFDocument;
+  data: InvoiceData;
+  labels: InvoiceLabels;
+  locale: string;
+  theme: PdfTheme;
+  palette: Palette;
+  logo: Buffer | null;
+  margin: number;
+  width: number; // Of the page
+  pageBottom: number; // Lowest point content reaches before the page number
+  formatAmount: (value: number) => string;
+  formatDate: (date: string) => string;
+}
@@ -0,0 +1,197 @@
+import { z } from 'zod'
+import { client } from '@bills/db'
+import { generateId } from './ipc/utils'
+import type { Queryable } from './invoice-lines'
+import { roundCents } from './tax'
+
+/**
+ * Projects
+ *
+ * A project is an engagement with one client. Invoices of that client,
+ * expenses and time entries can be linked to it, and its profitability is
+ * the income invoiced on it minus the expenses linked to it, both in the
+ * base currency and counted as the dashboard counts them (cancelled
+ * invoices left out, credit notes netted). The budget is what the client
+ * agreed to pay, so it is compared with the income invoiced so far.
+ */
+
+export const projectStatusSchema = z.enum(['ACTIVE', 'ON_HOLD', 'COMPLETED'])
+
+export type ProjectStatus = z.infer<typeof projectStatusSchema>
+
+const amountString = z.string().refine(v => v.trim() !== '' && !isNaN(Number(v)) && Number(v) >= 0, {
+  message: 'Invalid amount'
+})
+
+export const projectInputSchema = z.object({
+  clientId: z.string().min(1, 'Client is required'),
+  name: z.string().trim().min(1, 'Project name is required'),
+  budget: amountString.optional().nullable(),
+  hourlyRate: amountString.optional().nullable(),
+  status: projectStatusSchema.default('ACTIVE'),
+  notes: z.string().optional().nullable()
+})
+
+export type ProjectInput = z.infer<typeof projectInputSchema>
+
+export interface Project {
+  id: string
+  clientId: string
+  clientName: string
+  name: string
+  budget: string | null
+  hourlyRate: string | null
+  status: ProjectStatus
+  notes: string | null
+  createdAt: string
+  updatedAt: string
+}
+
+export interface ProjectProfitability extends Project {
+  invoiced: string // Income invoiced on the project, in the base currency
+  expenses: string // Expenses linked to it, in the base currency
+  profit: string
+  budgetUsed: number | null // Share of the budget invoiced so far (1 = all of it)
+  hours: string // Hours tracked on it
+  unbilledHours: string
+  unbilledAmount: string // Value of the unbilled hours at their rates
+  unconverted: number // Invoices and expenses left out for want of an exchange rate
+}
+
+const PROJECT_SELECT = `
+  SELECT p.*, c.name AS client_name
+  FROM project p
+  LEFT JOIN client c ON c.id = p.client_id`
+
+function mapProjectRow(row: any): Project {
+  return {
+    id: row.id,
+    clientId: row.client_id,
+    clientName: row.client_name || '',
+    name: row.name,
+    budget: row.budget === null || row.budget === undefined ? null : String(row.budget),
+    hourlyRate: row.hourly_rate === null || row.hourly_rate === undefined ? null : String(row.hourly_rate),
+    status: row.status || 'ACTIVE',
+    notes: row.notes ?? null,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  }
+}
+
+export async function listProjects(db: Queryable = client): Promise<Project[]> {
+  const res = await db.query(`${PROJECT_SELECT} ORDER BY c.name, p.name`)
+  return res.rows.map(mapProjectRow)
+}
+
+export async function getProject(projectId: string, db: Queryable = client): Promise<Project> {
+  const res = await db.query(`${PROJECT_SELECT} WHERE p.id = $1`, [projectId])
+  const row = res.rows[0]
+  if (!row) {
+    throw new Error('Project not found')
+  }
+  return mapProjectRow(row)
+}
+
+/** Invoices and time entries only go on projects of their own client */
+export async function assertProjectOfClient(projectId: string | null | undefined, clientId: string, db: Queryable = client): Promise<void> {
+  if (!projectId) return
+  const project = await getProject(projectId, db)
+  if (project.clientId !== clientId) {
+    throw new Error(`Project ${project.name} belongs to ${project.clientName}`)
+  }
+}
+
+export async function createProject(data: ProjectInput, db: Queryable = client): Promise<Project> {
+  const id = generateId()
+  await db.query(
+    `INSERT INTO project (id, client_id, name, budget, hourly_rate, status, notes, created_at, updated_at)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, current_timestamp, current_timestamp)`,
+    [id, data.clientId, data.name, data.budget || null, data.hourlyRate || null, data.status, data.notes || null]
+  )
+  return getProject(id, db)
+}
+
+/** A project keeps its client once invoices or hours of that client are linked to it */
+export async function updateProject(projectId: string, data: ProjectInput, db: Queryable = client): Promise<Project> {
+  const project = await getProject(projectId, db)
+  if (project.clientId !== data.clientId) {
+    const linked = await db.query(
+      `SELECT 1 FROM invoice WHERE project_id = $1
+       UNION ALL SELECT 1 FROM time_entry WHERE project_id = $1
+       LIMIT 1`,
+      [projectId]
+    )
+    if (linked.rows.length > 0) {
+      throw new Error(`Project ${project.name} has invoices or hours of ${project.clientName}; its client cannot change`)
+    }
+  }
+  await db.query(
+    `UPDATE project
+     SET client_id=$1, name=$2, budget=$3, hourly_rate=$4, status=$5, notes=$6, updated_at=current_timestamp
+     WHERE id=$7`,
+    [data.clientId, data.name, data.budget || null, data.hourlyRate || null, data.status, data.notes || null, projectId]
+  )
+  return getProject(projectId, db)
+}
+
+/** Only projects nothing is linked to can be deleted; others are marked completed */
+export async function deleteProject(projectId: string, db: Queryable = client): Promise<void> {
+  const project = await getProject(projectId, db)
+  const linked = await db.query(
+    `SELECT 1 FROM invoice WHERE project_id = $1
+     UNION ALL SELECT 1 FROM expense WHERE project_id = $1
+     UNION ALL SELECT 1 FROM time_entry WHERE project_id = $1
+     LIMIT 1`,
+    [projectId]
+  )
+  if (linked.rows.length > 0) {
+    throw new Error(`Project ${project.name} has invoices, expenses or hours; mark it completed instead`)
+  }
+  await db.query('DELETE FROM project WHERE id = $1', [projectId])
+}
+
+/** Income, expenses and hours of every project; amounts must have been converted to the base currency first */
+export async function getProjectProfitability(db: Queryable = client): Promise<ProjectProfitability[]> {
+  const res = await db.query(`
+    SELECT p.*, c.name AS client_name,
+      COALESCE(inv.total, 0) AS invoiced,
+      COALESCE(exp.total, 0) AS expenses,
+      COALESCE(inv.unconverted, 0) + COALESCE(exp.unconverted, 0) AS unconverted,
+      COALESCE(t.hours, 0) AS hours,
+      COALESCE(t.unbilled_hours, 0) AS unbilled_hours,
+      COALESCE(t.unbilled_amount, 0) AS unbilled_amount
+    FROM project p
+    LEFT JOIN client c ON c.id = p.client_id
+    LEFT JOIN (
+      SELECT project_id, SUM(base_amount) AS total, COUNT(*) FILTER (WHERE base_amount IS NULL) AS unconverted
+      FROM invoice WHERE status <> 'CANCELLED' GROUP BY project_id
+    ) inv ON inv.project_id = p.id
+    LEFT JOIN (
+      SELECT project_id, SUM(base_amount) AS total, COUNT(*) FILTER (WHERE base_amount IS NULL) AS unconverted
+      FROM expense GROUP BY project_id
+    ) exp ON exp.project_id = p.id
+    LEFT JOIN (
+      SELECT project_id, SUM(hours) AS hours,
+        SUM(hours) FILTER (WHERE invoice_id IS NULL) AS unbilled_hours,
+        SUM(ROUND(hours * rate, 2)) FILTER (WHERE invoice_id IS NULL) AS unbilled_amount
+      FROM time_entry GROUP BY project_id
+    ) t ON t.project_id = p.id
+    ORDER BY c.name, p.name`)
+
+  return res.rows.map((row: any) => {
+    const invoiced = Number(row.invoiced)
+    const expenses = Number(row.expenses)
+    const budget = row.budget === null || row.budget === undefined ? null : Number(row.budget)
+    return {
+      ...mapProjectRow(row),
+      invoiced: roundCents(invoiced).toFixed(2),
+      expenses: roundCents(expenses).toFixed(2),
+      profit: roundCents(invoiced - expenses).toFixed(2),
+      budgetUsed: budget ? invoiced / budget : null,
+      hours: Number(row.hours).toFixed(2),
+      unbilledHours: Number(row.unbilled_hours).toFixed(2),
+      unbilledAmount: roundCents(Number(row.unbilled_amount)).toFixed(2),
+      unconverted: Number(row.unconverted)
+    }
+  })
+}
@@ -0,0 +1,375 @@
+import { join } from 'node:path'
+import { z } from 'zod'
+import { client } from '@bills/db'
+import { generateId } from './ipc/utils'
+import { invoiceLineInputSchema, type InvoiceLineInput, type Queryable, type ResolvedLineInput } from './invoice-lines'
+import { TaxSummary, computeLineAmounts, getTaxRates, resolveLineTaxes, summarizeTaxes, taxSummaryFromRow } from './tax'
+import { reserveInvoiceNumber } from './numbering'
+import { getCompanyProfile } from './mail'
+import { emailLocale } from './i18n'
+import { templateContext, type TemplateContext } from './templates'
+
+/**
+ * Quotes
+ *
+ * A quote is written like an invoice (client, lines, taxes) but numbered in
+ * its own series, and it never counts as income or as money owed. It is
+ * valid until a date: quotes still waiting for an answer after it become
+ * EXPIRED, which expireQuotes records whenever quotes are read. The client
+ * accepts or rejects it; an accepted quote is turned into an invoice once,
+ * by copying its client and lines, and keeps a link to that invoice.
+ */
+
+export const QUOTE_VALIDITY_DAYS = 30
+
+export const quoteStatusSchema = z.enum(['DRAFT', 'SENT', 'ACCEPTED', 'REJECTED', 'EXPIRED'])
+
+export type QuoteStatus = z.infer<typeof quoteStatusSchema>
+
+// Quotes still waiting for the client's answer
+const OPEN_STATUSES: QuoteStatus[] = ['DRAFT', 'SENT']
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Dates are written YYYY-MM-DD')
+
+export const quoteInputSchema = z.object({
+  clientId: z.string().optional(),
+  clientName: z.string().min(1),
+  issueDate: isoDate,
+  validUntil: isoDate.optional(), // Defaults to QUOTE_VALIDITY_DAYS after the issue date
+  currency: z.string().default('EUR'),
+  seriesId: z.string().optional().nullable(), // Falls back to the default quote series
+  description: z.string().optional(),
+  notes: z.string().optional(),
+  lines: z.array(invoiceLineInputSchema).min(1, 'A quote needs at least one line'),
+  taxRateId: z.string().optional().nullable(), // Falls back to the default tax rate
+  withholdingRateId: z.string().optional().nullable()
+})
+
+export type QuoteInput = z.infer<typeof quoteInputSchema>
+
+export interface Quote {
+  id: string
+  number: string
+  clientId: string
+  clientName: string
+  clientEmail: string | null
+  issueDate: string
+  validUntil: string
+  status: QuoteStatus
+  amount: string
+  currency: string
+  description: string | null
+  notes: string | null
+  taxRateId: string | null
+  withholdingRateId: string | null
+  seriesId: string | null
+  invoiceId: string | null // Invoice the quote was converted into
+  invoiceNumber: string | null
+  filePath: string | null
+  folderPath: string | null
+  createdAt: string
+  updatedAt: string
+}
+
+export interface QuoteLine {
+  id: string
+  quoteId: string
+  position: number
+  description: string
+  quantity: string
+  unit: string | null
+  unitPrice: string
+  discount: string
+  taxRate: string
+  taxRateId: string | null
+  amount: string
+  taxAmount: string
+}
+
+const QUOTE_SELECT = `
+  SELECT q.*, c.name AS client_name, c.email AS client_email, i.number AS invoice_number
+  FROM quote q
+  LEFT JOIN client c ON c.id = q.client_id
+  LEFT JOIN invoice i ON i.id = q.invoice_id`
+
+function today(): string {
+  return new Date().toISOString().slice(0, 10)
+}
+
+// PGlite returns `date` columns as Date objects
+function toDateString(value: unknown): string {
+  return value instanceof Date ? value.toISOString().slice(0, 10) : String(value)
+}
+
+function mapQuoteRow(row: any): Quote {
+  return {
+    id: row.id,
+    number: row.number,
+    clientId: row.client_id,
+    clientName: row.client_name || '',
+    clientEmail: row.client_email || null,
+    issueDate: toDateString(row.issue_date),
+    validUntil: toDateString(row.valid_until),
+    status: row.status || 'DRAFT',
+    amount: String(row.amount),
+    currency: row.currency || 'EUR',
+    description: row.description ?? null,
+    notes: row.notes ?? null,
+    taxRateId: row.tax_rate_id ?? null,
+    withholdingRateId: row.withholding_rate_id ?? null,
+    seriesId: row.series_id ?? null,
+    invoiceId: row.invoice_id ?? null,
+    invoiceNumber: row.invoice_number ?? null,
+    filePath: row.file_path ?? null,
+    folderPath: row.folder_path ?? null,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  }
+}
+
+function mapQuoteLineRow(row: any): QuoteLine {
+  return {
+    id: row.id,
+    quoteId: row.quote_id,
+    position: row.position,
+    description: row.description,
+    quantity: String(row.quantity),
+    unit: row.unit,
+    unitPrice: String(row.unit_price),
+    discount: String(row.discount ?? '0'),
+    taxRate: String(row.tax_rate ?? '0'),
+    taxRateId: row.tax_rate_id ?? null,
+    amount: String(row.amount),
+    taxAmount: String(row.tax_amount ?? '0')
+  }
+}
+
+// The given validity date, or the default one counted from the issue date
+function validUntilFor(data: Pick<QuoteInput, 'issueDate' | 'validUntil'>): string {
+  if (data.validUntil) {
+    if (data.validUntil < data.issueDate) {
+      throw new Error('A quote cannot be valid until a date before its issue date')
+    }
+    return data.validUntil
+  }
+  const date = new Date(`${data.issueDate}T00:00:00Z`)
+  date.setUTCDate(date.getUTCDate() + QUOTE_VALIDITY_DAYS)
+  return date.toISOString().slice(0, 10)
+}
+
+/** Mark the quotes nobody answered before their validity date as EXPIRED; returns how many */
+export async function expireQuotes(asOf: string = today(), db: Queryable = client): Promise<number> {
+  const res = await db.query(
+    `UPDATE quote SET status = 'EXPIRED', updated_at = current_timestamp
+     WHERE status IN ('DRAFT', 'SENT') AND valid_until < $1
+     RETURNING id`,
+    [asOf]
+  )
+  return res.rows.length
+}
+
+export async function listQuotes(db: Queryable = client): Promise<Quote[]> {
+  await expireQuotes(today(), db)
+  const res = await db.query(`${QUOTE_SELECT} ORDER BY q.issue_date DESC, q.number DESC`)
+  return res.rows.map(mapQuoteRow)
+}
+
+export async function getQuote(quoteId: string, db: Queryable = client): Promise<Quote> {
+  await expireQuotes(today(), db)
+  const res = await db.query(`${QUOTE_SELECT} WHERE q.id = $1`, [quoteId])
+  const row = res.rows[0]
+  if (!row) {
+    throw new Error('Quote not found')
+  }
+  return mapQuoteRow(row)
+}
+
+export async function getQuoteLines(quoteId: string, db: Queryable = client): Promise<QuoteLine[]> {
+  const res = await db.query(
+    'SELECT * FROM quote_line WHERE quote_id = $1 ORDER BY position, created_at',
+    [quoteId]
+  )
+  return res.rows.map(mapQuoteLineRow)
+}
+
+/** Totals and tax breakdown as last stored on the quote */
+export async function getQuoteTaxSummary(quoteId: string, db: Queryable = client): Promise<TaxSummary> {
+  const res = await db.query(
+    'SELECT amount, subtotal, tax_amount, withholding_amount, tax_breakdown FROM quote WHERE id = $1',
+    [quoteId]
+  )
+  const row = res.rows[0]
+  if (!row) {
+    throw new Error('Quote not found')
+  }
+  return taxSummaryFromRow(row)
+}
+
+/** Resolve the line tax percentages and compute the totals, as for an invoice */
+export async function prepareQuoteTaxes(lines: InvoiceLineInput[], taxRateId?: string | null, withholdingRateId?: string | null, db: Queryable = client): Promise<{ lines: ResolvedLineInput[]; totals: TaxSummary }> {
+  const rates = await getTaxRates(db)
+  const resolved = resolveLineTaxes(lines, rates, taxRateId)
+  return { lines: resolved, totals: summarizeTaxes(resolved, rates, taxRateId, withholdingRateId) }
+}
+
+// Replace every line of a quote and store its totals
+async function storeQuoteLines(db: Queryable, quoteId: string, lines: ResolvedLineInput[], totals: TaxSummary): Promise<void> {
+  await db.query('DELETE FROM quote_line WHERE quote_id = $1', [quoteId])
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i]
+    const { amount, taxAmount } = computeLineAmounts(line)
+    await db.query(
+      `INSERT INTO quote_line (id, quote_id, position, description, quantity, unit, unit_price, discount, tax_rate, tax_rate_id, amount, tax_amount, created_at, updated_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, current_timestamp, current_timestamp)`,
+      [generateId(), quoteId, i, line.description, line.quantity, line.unit || null, line.unitPrice, line.discount || '0', line.taxRate || '0', line.taxRateId || null, amount, taxAmount]
+    )
+  }
+  await db.query(
+    `UPDATE quote
+     SET amount = $1, subtotal = $2, tax_amount = $3, withholding_amount = $4, tax_breakdown = $5, updated_at = current_timestamp
+     WHERE id = $6`,
+    [totals.total, totals.subtotal, totals.taxAmount, totals.withholdingAmount, JSON.stringify(totals.breakdown), quoteId]
+  )
+}
+
+/**
+ * Store a new DRAFT quote with a number reserved from its series. Must run
+ * in a transaction so the counter only advances when the quote is saved;
+ * `folderFor` places the quote's folder once its number is known.
+ */
+export async function createQuote(
+  data: QuoteInput,
+  clientId: string,
+  folderFor: (number: string) => string,
+  db: Queryable = client
+): Promise<{ id: string; number: string; validUntil: string; folderPath: string; filePath: string; totals: TaxSummary }> {
+  const validUntil = validUntilFor(data)
+  const { lines, totals } = await prepareQuoteTaxes(data.lines, data.taxRateId, data.withholdingRateId, db)
+  const { number, seriesId } = await reserveInvoiceNumber(db, data.seriesId, data.issueDate, 'QUOTE')
+  const id = generateId()
+  const folderPath = folderFor(number)
+  const filePath = join(folderPath, 'quote.pdf')
+  await db.query(
+    `INSERT INTO quote (id, number, client_id, issue_date, valid_until, amount, currency, status, file_path, folder_path, description, notes, tax_rate_id, withholding_rate_id, series_id, created_at, updated_at)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, 'DRAFT', $8, $9, $10, $11, $12, $13, $14, current_timestamp, current_timestamp)`,
+    [id, number, clientId, data.issueDate, validUntil, totals.total, data.currency, filePath, folderPath, data.description || null, data.notes || null, data.taxRateId || null, data.withholdingRateId || null, seriesId]
+  )
+  await storeQuoteLines(db, id, lines, totals)
+  return { id, number, validUntil, folderPath, filePath, totals }
+}
+
+/**
+ * Rewrite a quote still waiting for an answer. Its number stays. An expired
+ * quote given a new validity date goes back to DRAFT, to be sent again.
+ */
+export async function updateQuote(quoteId: string, data: QuoteInput, clientId: string, db: Queryable = client): Promise<TaxSummary> {
+  const quote = await getQuote(quoteId, db)
+  if (quote.invoiceId) {
+    throw new Error(`Quote ${quote.number} was converted into invoice ${quote.invoiceNumber}; it can no longer be edited`)
+  }
+  if (quote.status === 'ACCEPTED' || quote.status === 'REJECTED') {
+    throw new Error(`Quote ${quote.number} was ${quote.status.toLowerCase()}; set it back to sent to edit it`)
+  }
+  const validUntil = validUntilFor(data)
+  const status = quote.status === 'EXPIRED' && validUntil >= today() ? 'DRAFT' : quote.status
+  const { lines, totals } = await prepareQuoteTaxes(data.lines, data.taxRateId, data.withholdingRateId, db)
+  await db.query(
+    `UPDATE quote
+     SET client_id=$1, issue_date=$2, valid_until=$3, currency=$4, description=$5, notes=$6, tax_rate_id=$7, withholding_rate_id=$8, status=$9, updated_at=current_timestamp
+     WHERE id=$10`,
+    [clientId, data.issueDate, validUntil, data.currency, data.description || null, data.notes || null, data.taxRateId || null, data.withholdingRateId || null, status, quoteId]
+  )
+  await storeQuoteLines(db, quoteId, lines, totals)
+  return totals
+}
+
+/**
+ * Record the client's answer (or that the quote was sent). Converted quotes
+ * keep their status; quotes past their validity date need a new one before
+ * they can be sent or accepted again, and only expire on their own.
+ */
+export async function setQuoteStatus(quoteId: string, status: QuoteStatus, db: Queryable = client): Promise<Quote> {
+  const quote = await getQuote(quoteId, db)
+  if (quote.invoiceId) {
+    throw new Error(`Quote ${quote.number} was converted into an invoice; its status can no longer change`)
+  }
+  if (status === 'EXPIRED' || status === 'DRAFT') {
+    throw new Error(status === 'EXPIRED' ? 'Quotes expire on their own after their validity date' : 'Quotes cannot go back to draft')
+  }
+  if (status !== 'REJECTED' && quote.validUntil < today()) {
+    throw new Error(`Quote ${quote.number} expired on ${quote.validUntil}; give it a new validity date first`)
+  }
+  await db.query(
+    'UPDATE quote SET status = $1, updated_at = current_timestamp WHERE id = $2',
+    [status, quoteId]
+  )
+  return { ...quote, status }
+}
+
+/** Check that a quote can become an invoice: not converted yet, and neither rejected nor expired */
+export function assertConvertible(quote: Quote): void {
+  if (quote.invoiceId) {
+    throw new Error(`Quote ${quote.number} was already converted into invoice ${quote.invoiceNumber}`)
+  }
+  if (!OPEN_STATUSES.includes(quote.status) && quote.status !== 'ACCEPTED') {
+    throw new Error(`Quote ${quote.number} is ${quote.status.toLowerCase()}; only open or accepted quotes become invoices`)
+  }
+}
+
+/** Link a quote to the invoice it became; converting a quote also accepts it */
+export async function markQuoteConverted(quoteId: string, invoiceId: string, db: Queryable = client): Promise<void> {
+  await db.query(
+    `UPDATE quote SET invoice_id = $1, status = 'ACCEPTED', updated_at = current_timestamp WHERE id = $2`,
+    [invoiceId, quoteId]
+  )
+}
+
+/** Quotes can be deleted until they become an invoice; returns the folder to trash */
+export async function deleteQuote(quoteId: string, db: Queryable = client): Promise<string | null> {
+  const quote = await getQuote(quoteId, db)
+  if (quote.invoiceId) {
+    throw new Error(`Quote ${quote.number} was converted into an invoice and cannot be deleted`)
+  }
+  await db.query('DELETE FROM quote WHERE id = $1', [quoteId])
+  return quote.folderPath
+}
+
+/**
+ * Context of a stored quote for email templates. The quote fills the
+ * `invoice.*` variables, with its validity date as `invoice.dueDate`, so
+ * quote templates use the same variables as invoice ones.
+ */
+export async function loadQuoteTemplateContext(quoteId: string, options: { locale?: string } = {}, db: Queryable = client): Promise<TemplateContext> {
+  const res = await db.query(
+    `SELECT q.number, q.issue_date, q.valid_until, q.description, q.currency, q.subtotal, q.tax_amount, q.amount,
+       c.name AS client_name, c.email AS client_email, c.tax_id AS client_tax_id, c.address AS client_address,
+       c.language AS client_language, c.locale AS client_locale
+     FROM quote q
+     LEFT JOIN client c ON c.id = q.client_id
+     WHERE q.id = $1`,
+    [quoteId]
+  )
+  const row = res.rows[0] as any
+  if (!row) {
+    throw new Error('Quote not found')
+  }
+
+  return templateContext({
+    client: { name: row.client_name, email: row.client_email, taxId: row.client_tax_id, address: row.client_address },
+    seller: await getCompanyProfile(),
+    invoice: {
+      number: row.number,
+      issueDate: toDateString(row.issue_date),
+      dueDate: toDateString(row.valid_until),
+      description: row.description,
+      currency: row.currency,
+      subtotal: row.subtotal ?? row.amount,
+      taxAmount: row.tax_amount ?? 0,
+      total: row.amount,
+      lines: await getQuoteLines(quoteId, db)
+    },
+    // Nothing is owed on a quote, nor overdue
+    asOf: toDateString(row.issue_date),
+    locale: emailLocale(row.client_language, row.client_locale, options.locale)
+  })
+}
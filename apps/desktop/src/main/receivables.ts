@@ -0,0 +1,153 @@
+import { client } from '@bills/db'
+import type { Queryable } from './invoice-lines'
+import { roundCents } from './tax'
+import { convertPendingAmounts, getBaseCurrency } from './currency'
+import { creditedAmountSql } from './payments'
+
+/**
+ * Receivables
+ *
+ * What clients still owe: issued invoices with an outstanding balance (total
+ * minus credit notes and payments). Invoices without an expected payment date
+ * are due 30 days after issue. The scheduler flags past-due invoices as
+ * OVERDUE once a day, and the aging report buckets balances by days overdue,
+ * per currency and converted to the base currency at each invoice's rate.
+ */
+
+export const AGING_BUCKETS = ['current', '1-30', '31-60', '61-90', '90+'] as const
+
+export type AgingBucket = typeof AGING_BUCKETS[number]
+
+export type AgingAmounts = Record<AgingBucket, string> & { total: string }
+
+export interface AgingReportRow extends AgingAmounts {
+  clientId: string
+  clientName: string
+  currency: string
+  invoiceCount: number
+}
+
+export interface AgingReport {
+  asOf: string
+  clients: AgingReportRow[]
+  totals: Array<AgingAmounts & { currency: string }> // One entry per currency
+  baseCurrency: string
+  baseTotals: AgingAmounts // Every currency converted at the rate of its invoices
+  unconverted: number // Invoices left out of baseTotals for lack of a rate
+}
+
+// Open invoices with their outstanding balance and due date (also used by payment reminders)
+export const RECEIVABLES_SQL = `
+  SELECT * FROM (
+    SELECT
+      i.id,
+      i.client_id,
+      c.name AS client_name,
+      i.currency,
+      i.exchange_rate,
+      COALESCE(i.expected_payment_date, i.issue_date + 30) AS due_date,
+      i.amount
+        + ${creditedAmountSql('i.id')}
+        - (SELECT COALESCE(SUM(p.amount), 0) FROM payment p WHERE p.invoice_id = i.id) AS outstanding
+    FROM invoice i
+    LEFT JOIN client c ON i.client_id = c.id
+    WHERE i.kind = 'INVOICE' AND i.status IN ('SENT', 'PARTIALLY_PAID', 'OVERDUE')
+  ) r
+  WHERE r.outstanding > 0
+`
+
+function today(): string {
+  return new Date().toISOString().slice(0, 10)
+}
+
+// PGlite returns `date` columns as Date objects
+function toDateString(value: unknown): string {
+  return value instanceof Date ? value.toISOString().slice(0, 10) : String(value)
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(to) - Date.parse(from)) / 86_400_000)
+}
+
+export function agingBucket(daysOverdue: number): AgingBucket {
+  if (daysOverdue <= 0) return 'current'
+  if (daysOverdue <= 30) return '1-30'
+  if (daysOverdue <= 60) return '31-60'
+  if (daysOverdue <= 90) return '61-90'
+  return '90+'
+}
+
+function emptyAmounts(): Record<AgingBucket | 'total', number> {
+  return { current: 0, '1-30': 0, '31-60': 0, '61-90': 0, '90+': 0, total: 0 }
+}
+
+function formatAmounts(amounts: Record<AgingBucket | 'total', number>): AgingAmounts {
+  const formatted = {} as AgingAmounts
+  for (const key of [...AGING_BUCKETS, 'total'] as const) {
+    formatted[key] = roundCents(amounts[key]).toFixed(2)
+  }
+  return formatted
+}
+
+/** Flag sent or partially paid invoices whose balance is past due; returns how many changed */
+export async function markOverdueInvoices(asOf: string = today(), db: Queryable = client): Promise<number> {
+  const res = await db.query(
+    `UPDATE invoice SET status = 'OVERDUE', updated_at = current_timestamp
+     WHERE status IN ('SENT', 'PARTIALLY_PAID')
+       AND id IN (SELECT id FROM (${RECEIVABLES_SQL}) receivable WHERE receivable.due_date < $1)
+     RETURNING id`,
+    [asOf]
+  )
+  return res.rows.length
+}
+
+/** Outstanding balances per client (and currency), bucketed by days past due */
+export async function getAgingReport(asOf: string = today(), db: Queryable = client): Promise<AgingReport> {
+  await convertPendingAmounts(db)
+  const res = await db.query(`${RECEIVABLES_SQL} ORDER BY r.client_name, r.due_date`)
+
+  const clients = new Map<string, { row: Omit<AgingReportRow, keyof AgingAmounts>; amounts: Record<AgingBucket | 'total', number> }>()
+  const totals = new Map<string, Record<AgingBucket | 'total', number>>()
+  const baseTotals = emptyAmounts()
+  let unconverted = 0
+
+  for (const row of res.rows as any[]) {
+    const outstanding = Number(row.outstanding)
+    const bucket = agingBucket(daysBetween(toDateString(row.due_date), asOf))
+    const currency = row.currency || 'EUR'
+    const key = `${row.client_id}:${currency}`
+
+    let entry = clients.get(key)
+    if (!entry) {
+      entry = {
+        row: { clientId: row.client_id, clientName: row.client_name || 'Unknown client', currency, invoiceCount: 0 },
+        amounts: emptyAmounts()
+      }
+      clients.set(key, entry)
+    }
+    entry.row.invoiceCount += 1
+    entry.amounts[bucket] += outstanding
+    entry.amounts.total += outstanding
+
+    const currencyTotals = totals.get(currency) ?? emptyAmounts()
+    currencyTotals[bucket] += outstanding
+    currencyTotals.total += outstanding
+    totals.set(currency, currencyTotals)
+
+    if (row.exchange_rate === null || row.exchange_rate === undefined) {
+      unconverted += 1
+    } else {
+      baseTotals[bucket] += outstanding * Number(row.exchange_rate)
+      baseTotals.total += outstanding * Number(row.exchange_rate)
+    }
+  }
+
+  return {
+    asOf,
+    clients: Array.from(clients.values()).map(({ row, amounts }) => ({ ...row, ...formatAmounts(amounts) })),
+    totals: Array.from(totals.entries()).map(([currency, amounts]) => ({ currency, ...formatAmounts(amounts) })),
+    baseCurrency: await getBaseCurrency(db),
+    baseTotals: formatAmounts(baseTotals),
+    unconverted
+  }
+}
@@ -0,0 +1,178 @@
+import { client } from '@bills/db'
+import type { Queryable } from './invoice-lines'
+
+/**
+ * Recurrence engine for automation rules
+ *
+ * A rule repeats every `interval` weeks, months or years counted from its
+ * start date (bi-weekly = every 2 weeks, quarterly = every 3 months). Weekly
+ * rules fall on a weekday; monthly and yearly rules on a day of the month
+ * (clamped to short months) or on the month's last business day, and yearly
+ * rules in a given month. A rule stops after its end date or after
+ * `maxOccurrences` periods, like an RRULE COUNT: a period that is skipped or
+ * whose draft is rejected counts as well. All dates are YYYY-MM-DD strings.
+ */
+
+export type Frequency = 'WEEKLY' | 'MONTHLY' | 'YEARLY'
+
+export interface Recurrence {
+  frequency: Frequency
+  interval: number
+  dayOfMonth: number
+  weekday: number | null // 0 = Sunday; defaults to the start date's weekday
+  monthOfYear: number | null // 1-12; defaults to the start date's month
+  lastBusinessDay: boolean
+  startDate: string
+  endDate: string | null
+  maxOccurrences: number | null
+}
+
+const DAY_MS = 86_400_000
+
+// PGlite returns `date` columns as Date objects
+function toDateString(value: unknown): string {
+  return value instanceof Date ? value.toISOString().slice(0, 10) : String(value)
+}
+
+function parseDate(date: string): Date {
+  return new Date(`${date}T00:00:00Z`)
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10)
+}
+
+export function addDays(date: string, days: number): string {
+  return formatDate(new Date(parseDate(date).getTime() + days * DAY_MS))
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate()
+}
+
+// The date a monthly/yearly rule falls on in a given month (0-based)
+function dayInMonth(rule: Recurrence, year: number, month: number): Date {
+  const lastDay = daysInMonth(year, month)
+  if (!rule.lastBusinessDay) {
+    return new Date(Date.UTC(year, month, Math.min(rule.dayOfMonth, lastDay)))
+  }
+  const date = new Date(Date.UTC(year, month, lastDay))
+  while (date.getUTCDay() === 0 || date.getUTCDay() === 6) {
+    date.setUTCDate(date.getUTCDate() - 1)
+  }
+  return date
+}
+
+// The k-th candidate date of the schedule, counting from the start date's period
+function candidate(rule: Recurrence, start: Date, k: number): Date {
+  const step = k * rule.interval
+  switch (rule.frequency) {
+    case 'WEEKLY': {
+      const weekday = rule.weekday ?? start.getUTCDay()
+      const first = start.getTime() + ((weekday - start.getUTCDay() + 7) % 7) * DAY_MS
+      return new Date(first + step * 7 * DAY_MS)
+    }
+    case 'MONTHLY': {
+      const month = start.getUTCMonth() + step
+      return dayInMonth(rule, start.getUTCFullYear() + Math.floor(month / 12), month % 12)
+    }
+    case 'YEARLY': {
+      const month = (rule.monthOfYear ?? start.getUTCMonth() + 1) - 1
+      return dayInMonth(rule, start.getUTCFullYear() + step, month)
+    }
+  }
+}
+
+// Rough index of the first candidate on or after `from`, so long-running rules don't loop from the start
+function estimateIndex(rule: Recurrence, start: Date, from: Date): number {
+  let periods: number
+  switch (rule.frequency) {
+    case 'WEEKLY':
+      periods = Math.floor((from.getTime() - start.getTime()) / (7 * DAY_MS))
+      break
+    case 'MONTHLY':
+      periods = (from.getUTCFullYear() - start.getUTCFullYear()) * 12 + from.getUTCMonth() - start.getUTCMonth()
+      break
+    case 'YEARLY':
+      periods = from.getUTCFullYear() - start.getUTCFullYear()
+      break
+  }
+  return Math.max(Math.floor(periods / rule.interval) - 1, 0)
+}
+
+/**
+ * The first occurrence on or after `from`, or null once the rule is over
+ * (past its end date or `occurrenceCount` has reached the maximum).
+ */
+export function nextOccurrence(rule: Recurrence, from: string, occurrenceCount = 0): string | null {
+  if (rule.maxOccurrences !== null && occurrenceCount >= rule.maxOccurrences) {
+    return null
+  }
+
+  const start = parseDate(rule.startDate)
+  const earliest = parseDate(from) > start ? parseDate(from) : start
+  let k = estimateIndex(rule, start, earliest)
+  let date = candidate(rule, start, k)
+  // Candidates only move forward, so this takes a couple of steps at most
+  for (let guard = 0; date < earliest && guard < 1000; guard++) {
+    k += 1
+    date = candidate(rule, start, k)
+  }
+
+  const next = formatDate(date)
+  return rule.endDate && next > rule.endDate ? null : next
+}
+
+export function recurrenceFromRow(row: any): Recurrence {
+  return {
+    frequency: row.frequency || 'MONTHLY',
+    interval: Number(row.interval_count) || 1,
+    dayOfMonth: Number(row.day_of_month),
+    weekday: row.weekday ?? null,
+    monthOfYear: row.month_of_year ?? null,
+    lastBusinessDay: !!row.last_business_day,
+    startDate: row.start_date ? toDateString(row.start_date) : toDateString(row.created_at ?? new Date()).slice(0, 10),
+    endDate: row.end_date ? toDateString(row.end_date) : null,
+    maxOccurrences: row.max_occurrences ?? null
+  }
+}
+
+/**
+ * Move a rule past the period scheduled on `scheduledDate` (its current
+ * next due date) to the following occurrence, counted from the schedule
+ * rather than from when the run happened so late runs don't shift the cycle.
+ * A period that was already in the run ledger was counted when first
+ * claimed, so pass `countOccurrence` false to move past it again.
+ * Returns the new next due date, or null when the rule is over (it is then
+ * deactivated) or was already moved past that period.
+ */
+export async function advanceAutomationRule(ruleId: string, scheduledDate: string, countOccurrence = true, db: Queryable = client): Promise<string | null> {
+  const res = await db.query('SELECT * FROM automation_rule WHERE id = $1', [ruleId])
+  const row = res.rows[0] as any
+  if (!row) {
+    throw new Error('Automation rule not found')
+  }
+
+  const occurrenceCount = (Number(row.occurrence_count) || 0) + (countOccurrence ? 1 : 0)
+  const nextDue = nextOccurrence(recurrenceFromRow(row), addDays(scheduledDate, 1), occurrenceCount)
+
+  // Only moves the rule if nobody else has advanced it since it was read
+  const updated = await db.query(`
+    UPDATE automation_rule
+    SET
+      next_due_date = $3,
+      occurrence_count = $4,
+      is_active = CASE WHEN $3::date IS NULL THEN false ELSE is_active END,
+      updated_at = current_timestamp
+    WHERE id = $1 AND next_due_date = $2
+    RETURNING id
+  `, [ruleId, scheduledDate, nextDue, occurrenceCount])
+  if (updated.rows.length === 0) {
+    return null
+  }
+
+  if (!nextDue) {
+    console.log(`🏁 Automation rule "${row.name}" has finished its schedule`)
+  }
+  return nextDue
+}
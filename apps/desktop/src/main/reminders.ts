@@ -0,0 +1,218 @@
+import { z } from 'zod'
+import { client } from '@bills/db'
+import { generateId } from './ipc/utils'
+import type { Queryable } from './invoice-lines'
+import { invoiceLabels } from './i18n'
+import { RECEIVABLES_SQL } from './receivables'
+import { deliverEmail, getSmtpConfig } from './mail'
+import { loadTemplateContext, renderTemplate } from './templates'
+
+/**
+ * Payment reminders (dunning)
+ *
+ * A sequence of steps, each `offset_days` away from the due date (negative =
+ * before it), with its own subject and body. The daily job sends every unpaid
+ * invoice the latest step it has reached, once: an invoice that is already
+ * late does not get the earlier reminders in a burst, and before-due steps
+ * are skipped once the due date has passed. Every attempt is logged in
+ * `payment_reminder`, and clients who opted out are never reminded.
+ */
+
+export const reminderStepSchema = z.object({
+  id: z.string().optional(),
+  name: z.string().min(1),
+  offsetDays: z.number().int().min(-365).max(365),
+  subjectTemplate: z.string().min(1),
+  bodyTemplate: z.string().min(1),
+  isActive: z.boolean().default(true)
+})
+
+export type ReminderStepInput = z.infer<typeof reminderStepSchema>
+
+export interface ReminderStep {
+  id: string
+  name: string
+  offsetDays: number
+  subjectTemplate: string
+  bodyTemplate: string
+  isActive: boolean
+}
+
+export interface PaymentReminder {
+  id: string
+  invoiceId: string
+  stepId: string | null
+  stepName: string | null
+  offsetDays: number
+  recipient: string
+  subject: string
+  status: 'SENT' | 'FAILED'
+  error: string | null
+  sentAt: string
+}
+
+function mapStepRow(row: any): ReminderStep {
+  return {
+    id: row.id,
+    name: row.name,
+    offsetDays: Number(row.offset_days),
+    subjectTemplate: row.subject_template,
+    bodyTemplate: row.body_template,
+    isActive: !!row.is_active
+  }
+}
+
+function mapReminderRow(row: any): PaymentReminder {
+  return {
+    id: row.id,
+    invoiceId: row.invoice_id,
+    stepId: row.step_id ?? null,
+    stepName: row.step_name ?? null,
+    offsetDays: Number(row.offset_days),
+    recipient: row.recipient,
+    subject: row.subject,
+    status: row.status,
+    error: row.error ?? null,
+    sentAt: row.sent_at
+  }
+}
+
+function today(): string {
+  return new Date().toISOString().slice(0, 10)
+}
+
+// PGlite returns `date` columns as Date objects
+function toDateString(value: unknown): string {
+  return value instanceof Date ? value.toISOString().slice(0, 10) : String(value)
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(to) - Date.parse(from)) / 86_400_000)
+}
+
+export async function getReminderSteps(db: Queryable = client): Promise<ReminderStep[]> {
+  const res = await db.query('SELECT * FROM reminder_step ORDER BY offset_days, created_at')
+  return res.rows.map(mapStepRow)
+}
+
+export async function saveReminderStep(data: ReminderStepInput, db: Queryable = client): Promise<string> {
+  const id = data.id || generateId()
+  const params = [id, data.name, data.offsetDays, data.subjectTemplate, data.bodyTemplate, data.isActive]
+  const existing = await db.query('SELECT 1 FROM reminder_step WHERE id = $1', [id])
+  if (existing.rows.length > 0) {
+    await db.query(
+      `UPDATE reminder_step
+       SET name = $2, offset_days = $3, subject_template = $4, body_template = $5, is_active = $6, updated_at = current_timestamp
+       WHERE id = $1`,
+      params
+    )
+  } else {
+    await db.query(
+      `INSERT INTO reminder_step (id, name, offset_days, subject_template, body_template, is_active, created_at, updated_at)
+       VALUES ($1, $2, $3, $4, $5, $6, current_timestamp, current_timestamp)`,
+      params
+    )
+  }
+  return id
+}
+
+/** Remove a step; reminders already sent keep their log entry */
+export async function deleteReminderStep(id: string, db: Queryable = client): Promise<void> {
+  await db.query('DELETE FROM reminder_step WHERE id = $1', [id])
+}
+
+/** Reminders sent (or attempted) for an invoice, newest first */
+export async function getInvoiceReminders(invoiceId: string, db: Queryable = client): Promise<PaymentReminder[]> {
+  const res = await db.query(
+    `SELECT r.*, s.name AS step_name
+     FROM payment_reminder r
+     LEFT JOIN reminder_step s ON r.step_id = s.id
+     WHERE r.invoice_id = $1
+     ORDER BY r.sent_at DESC`,
+    [invoiceId]
+  )
+  return res.rows.map(mapReminderRow)
+}
+
+/**
+ * The step to send for an invoice `daysFromDue` days after its due date
+ * (negative before it), given the steps it was already sent; null if none.
+ */
+export function dueReminderStep(steps: ReminderStep[], daysFromDue: number, sentStepIds: Set<string>): ReminderStep | null {
+  const reached = steps
+    .filter(step => step.isActive && step.offsetDays <= daysFromDue)
+    .sort((a, b) => b.offsetDays - a.offsetDays)
+  const latest = reached[0]
+  if (!latest || sentStepIds.has(latest.id)) return null
+  if (latest.offsetDays < 0 && daysFromDue > 0) return null
+  const laterSent = steps.some(step => sentStepIds.has(step.id) && step.offsetDays > latest.offsetDays)
+  return laterSent ? null : latest
+}
+
+/** Send the reminders due on `asOf` and log each attempt; returns how many were sent and failed */
+export async function sendDueReminders(asOf: string = today(), db: Queryable = client): Promise<{ sent: number; failed: number }> {
+  const steps = (await getReminderSteps(db)).filter(step => step.isActive)
+  if (steps.length === 0) {
+    return { sent: 0, failed: 0 }
+  }
+
+  const res = await db.query(
+    `SELECT r.id, r.due_date, i.number, i.file_path, c.email AS client_email, c.language AS client_language,
+       (SELECT string_agg(pr.step_id, ',') FROM payment_reminder pr WHERE pr.invoice_id = r.id AND pr.status = 'SENT') AS sent_step_ids
+     FROM (${RECEIVABLES_SQL}) r
+     JOIN invoice i ON i.id = r.id
+     JOIN client c ON c.id = r.client_id
+     WHERE c.email IS NOT NULL AND c.email <> '' AND c.reminders_opt_out IS NOT TRUE
+     ORDER BY r.due_date`
+  )
+
+  const due = (res.rows as any[])
+    .map(row => {
+      const dueDate = toDateString(row.due_date)
+      const daysFromDue = daysBetween(dueDate, asOf)
+      const sentStepIds = new Set<string>(row.sent_step_ids ? String(row.sent_step_ids).split(',') : [])
+      return { row, step: dueReminderStep(steps, daysFromDue, sentStepIds) }
+    })
+    .filter(entry => entry.step !== null)
+  if (due.length === 0) {
+    return { sent: 0, failed: 0 }
+  }
+
+  if (!(await getSmtpConfig())) {
+    throw new Error('SMTP configuration is not set up')
+  }
+
+  let sent = 0
+  let failed = 0
+  for (const { row, step } of due) {
+    // Sent directly rather than through the outbox: a failed reminder is simply tried again the next day
+    let subject = step!.subjectTemplate
+    let error: string | null = null
+    try {
+      const context = await loadTemplateContext(row.id, { asOf }, db)
+      subject = renderTemplate(step!.subjectTemplate, context)
+      await deliverEmail({
+        invoiceId: row.id,
+        source: 'REMINDER',
+        to: [row.client_email],
+        subject,
+        html: renderTemplate(step!.bodyTemplate, context, { html: true }),
+        attachments: row.file_path ? [{ filename: invoiceLabels(row.client_language).invoiceFile(row.number), path: row.file_path }] : []
+      })
+      sent += 1
+      console.log(`📨 Reminder "${step!.name}" sent to ${row.client_email} for invoice ${row.number}`)
+    } catch (e) {
+      error = e instanceof Error ? e.message : 'Unknown email error'
+      failed += 1
+      console.error(`❌ Failed to send reminder for invoice ${row.number}:`, e)
+    }
+
+    await db.query(
+      `INSERT INTO payment_reminder (id, invoice_id, step_id, offset_days, recipient, subject, status, error, sent_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, current_timestamp)`,
+      [generateId(), row.id, step!.id, step!.offsetDays, row.client_email, subject, error ? 'FAILED' : 'SENT', error]
+    )
+  }
+
+  return { sent, failed }
+}
@@ -0,0 +1,280 @@
+import { z } from 'zod'
+import { client } from '@bills/db'
+import type { Queryable } from './invoice-lines'
+
+/**
+ * Tax engine
+ *
+ * Tax rates are user-defined and stored as JSON in `setting.tax_rates`.
+ * Each line either references a rate or inherits the invoice's rate (the
+ * default rate when the invoice has none). Taxes are grouped per rate into a
+ * breakdown, and an optional withholding rate (IRPF and similar, stored as a
+ * negative percentage) applies to the subtotal.
+ */
+
+const decimalString = z.string().refine(v => v.trim() !== '' && !isNaN(Number(v)), {
+  message: 'Invalid number'
+})
+
+export const taxKindSchema = z.enum(['STANDARD', 'REDUCED', 'EXEMPT', 'WITHHOLDING'])
+
+export const taxRateSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  rate: decimalString, // percentage, negative for withholdings
+  kind: taxKindSchema,
+  legalMention: z.string().optional().nullable(),
+  isDefault: z.boolean().optional()
+}).superRefine((rate, ctx) => {
+  const value = Number(rate.rate)
+  if (rate.kind === 'WITHHOLDING' && value > 0) {
+    ctx.addIssue({ code: 'custom', path: ['rate'], message: `${rate.name}: withholding rates must be zero or negative` })
+  }
+  if (rate.kind !== 'WITHHOLDING' && value < 0) {
+    ctx.addIssue({ code: 'custom', path: ['rate'], message: `${rate.name}: only withholding rates can be negative` })
+  }
+  if (rate.kind === 'EXEMPT' && value !== 0) {
+    ctx.addIssue({ code: 'custom', path: ['rate'], message: `${rate.name}: exempt rates must be 0%` })
+  }
+})
+
+export const taxRatesSchema = z.array(taxRateSchema).superRefine((rates, ctx) => {
+  const ids = new Set<string>()
+  for (const rate of rates) {
+    if (ids.has(rate.id)) {
+      ctx.addIssue({ code: 'custom', message: `Duplicate tax rate id: ${rate.id}` })
+    }
+    ids.add(rate.id)
+  }
+  const defaults = rates.filter(r => r.isDefault)
+  if (defaults.length > 1) {
+    ctx.addIssue({ code: 'custom', message: 'Only one tax rate can be the default' })
+  }
+  if (defaults.some(r => r.kind === 'WITHHOLDING')) {
+    ctx.addIssue({ code: 'custom', message: 'A withholding rate cannot be the default tax rate' })
+  }
+})
+
+export type TaxKind = z.infer<typeof taxKindSchema>
+export type TaxRate = z.infer<typeof taxRateSchema>
+
+export const DEFAULT_TAX_RATES: TaxRate[] = [
+  {
+    id: 'igi-exempt',
+    name: 'IGI exempt',
+    rate: '0',
+    kind: 'EXEMPT',
+    legalMention: "Factura exempta d'IGI segons l'article 43.2 i l'article 15 de la Llei 11/2012 de l'Impost General Indirecte (IGI)",
+    isDefault: true
+  },
+  { id: 'igi-general', name: 'IGI 4.5%', rate: '4.5', kind: 'STANDARD' },
+  { id: 'igi-reduced', name: 'IGI 1%', rate: '1', kind: 'REDUCED' },
+  { id: 'iva-general', name: 'IVA 21%', rate: '21', kind: 'STANDARD' },
+  { id: 'iva-reduced', name: 'IVA 10%', rate: '10', kind: 'REDUCED' },
+  { id: 'iva-super-reduced', name: 'IVA 4%', rate: '4', kind: 'REDUCED' },
+  { id: 'irpf-15', name: 'IRPF -15%', rate: '-15', kind: 'WITHHOLDING' }
+]
+
+export interface TaxableLine {
+  quantity: string
+  unitPrice: string
+  discount?: string | null
+  taxRate?: string | null
+  taxRateId?: string | null
+}
+
+export interface TaxBreakdownEntry {
+  taxRateId: string | null
+  name: string
+  rate: string
+  kind: TaxKind
+  base: string
+  amount: string
+  legalMention?: string | null
+}
+
+export interface TaxSummary {
+  subtotal: string
+  taxAmount: string
+  withholdingAmount: string
+  total: string
+  breakdown: TaxBreakdownEntry[]
+  legalMentions: string[]
+}
+
+export function roundCents(value: number): number {
+  return Math.round((value + Number.EPSILON) * 100) / 100
+}
+
+function toNumber(value: string | number | null | undefined): number {
+  const n = Number(value ?? 0)
+  return isNaN(n) ? 0 : n
+}
+
+function formatRate(value: number): string {
+  return String(Math.round(value * 100) / 100)
+}
+
+/** Net amount (after discount) and tax amount of a single line, rounded to cents */
+export function computeLineAmounts(line: TaxableLine): { amount: string; taxAmount: string } {
+  const gross = toNumber(line.quantity) * toNumber(line.unitPrice)
+  const amount = roundCents(gross * (1 - toNumber(line.discount) / 100))
+  const taxAmount = roundCents(amount * toNumber(line.taxRate) / 100)
+  return { amount: amount.toFixed(2), taxAmount: taxAmount.toFixed(2) }
+}
+
+export async function getTaxRates(db: Queryable = client): Promise<TaxRate[]> {
+  try {
+    const res = await db.query('SELECT tax_rates FROM setting WHERE id = 1')
+    const text = (res.rows?.[0] as any)?.tax_rates as string | undefined
+    if (!text) return DEFAULT_TAX_RATES
+    return taxRatesSchema.parse(JSON.parse(text))
+  } catch (error) {
+    console.warn('Invalid tax rates in settings, using defaults:', error)
+    return DEFAULT_TAX_RATES
+  }
+}
+
+export function findTaxRate(rates: TaxRate[], id: string | null | undefined): TaxRate | null {
+  if (!id) return null
+  return rates.find(r => r.id === id) || null
+}
+
+export function getDefaultTaxRate(rates: TaxRate[]): TaxRate | null {
+  return rates.find(r => r.isDefault) || null
+}
+
+// The invoice rate, or the default rate when the invoice doesn't pick one
+function getInvoiceTaxRate(rates: TaxRate[], invoiceTaxRateId?: string | null): TaxRate | null {
+  const invoiceRate = invoiceTaxRateId ? findTaxRate(rates, invoiceTaxRateId) : getDefaultTaxRate(rates)
+  if (invoiceTaxRateId && !invoiceRate) {
+    throw new Error(`Unknown tax rate: ${invoiceTaxRateId}`)
+  }
+  if (invoiceRate?.kind === 'WITHHOLDING') {
+    throw new Error(`${invoiceRate.name} is a withholding and cannot be used as the invoice tax`)
+  }
+  return invoiceRate
+}
+
+/**
+ * Snapshot each line's percentage from its own rate or the invoice rate.
+ * Lines keep `taxRateId` null when they inherit, so a later change of the
+ * invoice rate applies to them.
+ */
+export function resolveLineTaxes<T extends TaxableLine>(lines: T[], rates: TaxRate[], invoiceTaxRateId?: string | null): Array<T & { taxRate: string }> {
+  const invoiceRate = getInvoiceTaxRate(rates, invoiceTaxRateId)
+  return lines.map(line => {
+    if (line.taxRateId) {
+      const rate = findTaxRate(rates, line.taxRateId)
+      if (!rate) throw new Error(`Unknown tax rate: ${line.taxRateId}`)
+      if (rate.kind === 'WITHHOLDING') throw new Error(`${rate.name} is a withholding and cannot be applied to a line`)
+      return { ...line, taxRate: rate.rate }
+    }
+    return { ...line, taxRateId: null, taxRate: invoiceRate?.rate ?? '0' }
+  })
+}
+
+/** Base, per-rate taxes, withholding and total for lines whose percentages are already resolved */
+export function summarizeTaxes(lines: TaxableLine[], rates: TaxRate[], invoiceTaxRateId?: string | null, withholdingRateId?: string | null): TaxSummary {
+  const invoiceRate = invoiceTaxRateId ? findTaxRate(rates, invoiceTaxRateId) : getDefaultTaxRate(rates)
+  const groups = new Map<string, { entry: TaxBreakdownEntry; base: number; amount: number }>()
+  let subtotal = 0
+  let taxAmount = 0
+
+  for (const line of lines) {
+    const computed = computeLineAmounts(line)
+    const net = Number(computed.amount)
+    const tax = Number(computed.taxAmount)
+    subtotal += net
+    taxAmount += tax
+
+    // A rate removed from settings (or changed since) falls back to a plain percentage group
+    const candidate = line.taxRateId ? findTaxRate(rates, line.taxRateId) : invoiceRate
+    const rateValue = toNumber(line.taxRate)
+    const rate = candidate && toNumber(candidate.rate) === rateValue ? candidate : null
+    const key = rate ? rate.id : `custom:${formatRate(rateValue)}`
+    let group = groups.get(key)
+    if (!group) {
+      group = {
+        entry: {
+          taxRateId: rate?.id ?? null,
+          name: rate?.name ?? `${formatRate(rateValue)}%`,
+          rate: formatRate(rateValue),
+          kind: rate?.kind ?? (rateValue === 0 ? 'EXEMPT' : 'STANDARD'),
+          base: '0',
+          amount: '0',
+          legalMention: rate?.legalMention || null
+        },
+        base: 0,
+        amount: 0
+      }
+      groups.set(key, group)
+    }
+    group.base += net
+    group.amount += tax
+  }
+
+  subtotal = roundCents(subtotal)
+  taxAmount = roundCents(taxAmount)
+
+  const breakdown: TaxBreakdownEntry[] = Array.from(groups.values()).map(g => ({
+    ...g.entry,
+    base: roundCents(g.base).toFixed(2),
+    amount: roundCents(g.amount).toFixed(2)
+  }))
+
+  let withholdingAmount = 0
+  if (withholdingRateId) {
+    const withholding = findTaxRate(rates, withholdingRateId)
+    if (!withholding) throw new Error(`Unknown withholding rate: ${withholdingRateId}`)
+    if (withholding.kind !== 'WITHHOLDING') throw new Error(`${withholding.name} is not a withholding rate`)
+    withholdingAmount = roundCents(subtotal * toNumber(withholding.rate) / 100)
+    breakdown.push({
+      taxRateId: withholding.id,
+      name: withholding.name,
+      rate: formatRate(toNumber(withholding.rate)),
+      kind: 'WITHHOLDING',
+      base: subtotal.toFixed(2),
+      amount: withholdingAmount.toFixed(2),
+      legalMention: withholding.legalMention || null
+    })
+  }
+
+  const legalMentions: string[] = []
+  for (const entry of breakdown) {
+    if (entry.legalMention && !legalMentions.includes(entry.legalMention)) {
+      legalMentions.push(entry.legalMention)
+    }
+  }
+
+  return {
+    subtotal: subtotal.toFixed(2),
+    taxAmount: taxAmount.toFixed(2),
+    withholdingAmount: withholdingAmount.toFixed(2),
+    total: roundCents(subtotal + taxAmount + withholdingAmount).toFixed(2),
+    breakdown,
+    legalMentions
+  }
+}
+
+/** Rebuild the summary stored on an invoice row (subtotal, tax_amount, withholding_amount, tax_breakdown) */
+export function taxSummaryFromRow(row: any): TaxSummary {
+  let breakdown: TaxBreakdownEntry[] = []
+  if (row.tax_breakdown) {
+    try { breakdown = JSON.parse(row.tax_breakdown) } catch {}
+  }
+  const legalMentions: string[] = []
+  for (const entry of breakdown) {
+    if (entry.legalMention && !legalMentions.includes(entry.legalMention)) {
+      legalMentions.push(entry.legalMention)
+    }
+  }
+  return {
+    subtotal: String(row.subtotal ?? row.amount),
+    taxAmount: String(row.tax_amount ?? '0.00'),
+    withholdingAmount: String(row.withholding_amount ?? '0.00'),
+    total: String(row.amount),
+    breakdown,
+    legalMentions
+  }
+}
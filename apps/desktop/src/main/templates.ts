@@ -0,0 +1,515 @@
+import { client } from '@bills/db'
+import { getInvoiceLines, type Queryable } from './invoice-lines'
+import { getPaymentBalance } from './payments'
+import { getCompanyProfile } from './mail'
+import { emailLocale } from './i18n'
+
+/**
+ * Email templates
+ *
+ * The one template language for automation, reminder and manual emails.
+ * `{{ invoice.number }}` inserts a variable (HTML-escaped in bodies) and
+ * helpers format it: `{{ invoice.total | currency }}`,
+ * `{{ invoice.dueDate | date "long" }}`. `{{#if invoice.outstanding}}` …
+ * `{{else}}` … `{{/if}}` (or `#unless`) add conditionals and
+ * `{{#each invoice.lines}}` … `{{/each}}` repeats a block per line, where
+ * the line's own fields are in scope. Only variables from TEMPLATE_VARIABLES
+ * are accepted, so a typo is reported when the template is saved instead of
+ * reaching a client. Templates written with the older `{invoiceNumber}`
+ * placeholders keep working through LEGACY_PLACEHOLDERS.
+ */
+
+export interface TemplateVariable {
+  name: string
+  description: string
+  example: string
+}
+
+export const TEMPLATE_VARIABLES: TemplateVariable[] = [
+  { name: 'client.name', description: 'Client name', example: 'Acme SL' },
+  { name: 'client.email', description: 'Client email address', example: 'billing@acme.com' },
+  { name: 'client.taxId', description: 'Client tax id', example: 'B12345678' },
+  { name: 'client.address', description: 'Client address', example: 'Av. Meritxell 1, Andorra la Vella' },
+  { name: 'seller.name', description: 'Your company name', example: 'My Company' },
+  { name: 'seller.email', description: 'Your email address', example: 'hello@mycompany.com' },
+  { name: 'seller.phone', description: 'Your phone number', example: '+376 000 000' },
+  { name: 'seller.taxId', description: 'Your tax id', example: 'L-123456-X' },
+  { name: 'seller.address', description: 'Your address', example: 'Carrer Major 1, Escaldes' },
+  { name: 'invoice.number', description: 'Invoice number', example: 'F2026-0001' },
+  { name: 'invoice.issueDate', description: 'Issue date (YYYY-MM-DD; use | date to format it)', example: '2026-10-01' },
+  { name: 'invoice.dueDate', description: 'Due date (YYYY-MM-DD; use | date to format it)', example: '2026-10-31' },
+  { name: 'invoice.description', description: 'Invoice description', example: 'Monthly retainer' },
+  { name: 'invoice.currency', description: 'Currency code', example: 'EUR' },
+  { name: 'invoice.subtotal', description: 'Total before taxes (use | currency to format it)', example: '1000.00' },
+  { name: 'invoice.taxAmount', description: 'Taxes', example: '45.00' },
+  { name: 'invoice.total', description: 'Invoice total', example: '1045.00' },
+  { name: 'invoice.outstanding', description: 'Balance still owed (total minus credit notes and payments)', example: '1045.00' },
+  { name: 'invoice.daysOverdue', description: 'Days past the due date (0 when not due yet)', example: '12' },
+  { name: 'invoice.lines', description: 'Invoice lines, for {{#each invoice.lines}}', example: '' },
+  { name: 'payment.iban', description: 'Your IBAN', example: 'AD12 0001 2030 2003 5910 0100' },
+  { name: 'payment.bankName', description: 'Your bank', example: 'Andbank' },
+  { name: 'payment.swift', description: 'Your SWIFT/BIC code', example: 'BACAADAD' },
+  { name: 'payment.text', description: 'Payment details in one line, built from your bank details', example: 'IBAN AD12 0001 2030 2003 5910 0100 · SWIFT BACAADAD · Andbank' }
+]
+
+// Fields of each line inside {{#each invoice.lines}}
+export const LINE_VARIABLES: TemplateVariable[] = [
+  { name: 'description', description: 'Line description', example: 'Consulting' },
+  { name: 'quantity', description: 'Quantity', example: '10' },
+  { name: 'unit', description: 'Unit', example: 'h' },
+  { name: 'unitPrice', description: 'Unit price', example: '100.00' },
+  { name: 'amount', description: 'Net amount of the line', example: '1000.00' },
+  { name: 'taxRate', description: 'Tax percentage', example: '4.5' }
+]
+
+export const TEMPLATE_HELPERS: Array<{ name: string; usage: string; description: string }> = [
+  { name: 'currency', usage: '{{ invoice.total | currency }}', description: 'Amount in the invoice currency; an optional locale overrides the template locale' },
+  { name: 'date', usage: '{{ invoice.dueDate | date "long" }}', description: 'Date as "short" (default), "medium" or "long"; an optional second argument sets the locale' },
+  { name: 'number', usage: '{{ quantity | number 2 }}', description: 'Number with the given decimals' },
+  { name: 'upper', usage: '{{ client.name | upper }}', description: 'Upper case' },
+  { name: 'lower', usage: '{{ client.email | lower }}', description: 'Lower case' },
+  { name: 'default', usage: '{{ client.taxId | default "-" }}', description: 'Fallback when the value is empty' }
+]
+
+// Older `{name}` placeholders and the expression each one stands for
+export const LEGACY_PLACEHOLDERS: Record<string, string> = {
+  invoiceNumber: 'invoice.number',
+  clientName: 'client.name',
+  companyName: 'seller.name',
+  amount: 'invoice.total | currency',
+  description: 'invoice.description',
+  dueDate: 'invoice.dueDate',
+  outstanding: 'invoice.outstanding | currency',
+  daysOverdue: 'invoice.daysOverdue'
+}
+
+export const DEFAULT_LOCALE = 'ca-ES'
+
+export interface TemplateLine {
+  description: string
+  quantity: number
+  unit: string | null
+  unitPrice: number
+  amount: number
+  taxRate: number
+}
+
+export interface TemplateContext {
+  locale: string
+  client: { name: string; email: string; taxId: string; address: string }
+  seller: { name: string; email: string; phone: string; taxId: string; address: string }
+  invoice: {
+    number: string
+    issueDate: string
+    dueDate: string
+    description: string
+    currency: string
+    subtotal: number
+    taxAmount: number
+    total: number
+    outstanding: number
+    daysOverdue: number
+    lines: TemplateLine[]
+  }
+  payment: { iban: string; bankName: string; swift: string; text: string }
+}
+
+type Filter = { name: string; args: Array<string | number> }
+
+type TemplateNode =
+  | { type: 'text'; text: string }
+  | { type: 'value'; path: string; filters: Filter[]; source: string }
+  | { type: 'if'; path: string; negate: boolean; then: TemplateNode[]; otherwise: TemplateNode[] }
+  | { type: 'each'; path: string; body: TemplateNode[]; otherwise: TemplateNode[] }
+
+const TAG = /\{\{\s*([\s\S]*?)\s*\}\}/g
+// `{name}` not part of a `{{ }}` tag
+const LEGACY_TAG = /(?<!\{)\{(\w+)\}(?!\})/g
+
+const VARIABLE_NAMES = new Set(TEMPLATE_VARIABLES.map(v => v.name))
+const LINE_NAMES = new Set(LINE_VARIABLES.map(v => v.name))
+const HELPER_NAMES = new Set(TEMPLATE_HELPERS.map(h => h.name))
+const LIST_VARIABLES = new Set(['invoice.lines'])
+
+// Rewrite known `{name}` placeholders as the `{{ }}` expressions they stand for
+function upgradeLegacyPlaceholders(template: string): string {
+  return template.replace(LEGACY_TAG, (match, name) =>
+    Object.prototype.hasOwnProperty.call(LEGACY_PLACEHOLDERS, name) ? `{{ ${LEGACY_PLACEHOLDERS[name]} }}` : match)
+}
+
+function parseArgs(text: string, source: string): Array<string | number> {
+  const args: Array<string | number> = []
+  const pattern = /"([^"]*)"|(-?\d+(?:\.\d+)?)|(\S+)/g
+  let match: RegExpExecArray | null
+  while ((match = pattern.exec(text))) {
+    if (match[3] !== undefined) {
+      throw new Error(`Helper arguments must be quoted text or numbers in {{ ${source} }}`)
+    }
+    args.push(match[1] !== undefined ? match[1] : Number(match[2]))
+  }
+  return args
+}
+
+function parseValue(expression: string): TemplateNode {
+  const [path, ...filters] = expression.split('|').map(part => part.trim())
+  if (!/^[\w.]+$/.test(path)) {
+    throw new Error(`Invalid expression {{ ${expression} }}`)
+  }
+  return {
+    type: 'value',
+    path,
+    source: expression,
+    filters: filters.map(filter => {
+      const [, name, rest] = /^(\w+)\s*([\s\S]*)$/.exec(filter) || []
+      if (!name) {
+        throw new Error(`Invalid helper in {{ ${expression} }}`)
+      }
+      return { name, args: parseArgs(rest, expression) }
+    })
+  }
+}
+
+/** Parse a template into nodes; throws on unbalanced or malformed tags */
+function parseTemplate(template: string): TemplateNode[] {
+  const root: TemplateNode[] = []
+  // Open blocks, innermost last; `target` is the list new nodes go to
+  const stack: Array<{ node: Extract<TemplateNode, { type: 'if' | 'each' }>; keyword: string; target: TemplateNode[] }> = []
+  let target = root
+  let last = 0
+
+  const source = upgradeLegacyPlaceholders(template)
+  for (const match of source.matchAll(TAG)) {
+    if (match.index! > last) {
+      target.push({ type: 'text', text: source.slice(last, match.index) })
+    }
+    last = match.index! + match[0].length
+    const tag = match[1]
+
+    const open = /^#(if|unless|each)\s+([\w.]+)$/.exec(tag)
+    if (open) {
+      const node: Extract<TemplateNode, { type: 'if' | 'each' }> = open[1] === 'each'
+        ? { type: 'each', path: open[2], body: [], otherwise: [] }
+        : { type: 'if', path: open[2], negate: open[1] === 'unless', then: [], otherwise: [] }
+      target.push(node)
+      stack.push({ node, keyword: open[1], target })
+      target = node.type === 'each' ? node.body : node.then
+    } else if (tag === 'else') {
+      const block = stack[stack.length - 1]
+      if (!block) {
+        throw new Error('{{else}} outside of an {{#if}} or {{#each}} block')
+      }
+      target = block.node.otherwise
+    } else if (/^\/(if|unless|each)$/.test(tag)) {
+      const block = stack.pop()
+      if (!block || block.keyword !== tag.slice(1)) {
+        throw new Error(`Unexpected {{${tag}}}${block ? `; {{#${block.keyword}}} is still open` : ''}`)
+      }
+      target = block.target
+    } else if (tag.startsWith('#') || tag.startsWith('/')) {
+      throw new Error(`Unknown block {{${tag}}}`)
+    } else {
+      target.push(parseValue(tag))
+    }
+  }
+  if (stack.length > 0) {
+    throw new Error(`{{#${stack[stack.length - 1].keyword}}} is never closed`)
+  }
+  if (last < source.length) {
+    target.push({ type: 'text', text: source.slice(last) })
+  }
+  return root
+}
+
+// Unknown variables and helpers, given the names in scope (inside #each the line fields too)
+function checkNodes(nodes: TemplateNode[], inLines: boolean, problems: Set<string>) {
+  const known = (path: string) => VARIABLE_NAMES.has(path) || (inLines && LINE_NAMES.has(path))
+  for (const node of nodes) {
+    if (node.type === 'value') {
+      if (!known(node.path)) {
+        problems.add(`Unknown variable {{ ${node.path} }}`)
+      } else if (LIST_VARIABLES.has(node.path)) {
+        problems.add(`{{ ${node.path} }} is a list; use {{#each ${node.path}}}`)
+      }
+      for (const filter of node.filters) {
+        if (!HELPER_NAMES.has(filter.name)) {
+          problems.add(`Unknown helper "${filter.name}" in {{ ${node.source} }}`)
+        }
+      }
+    } else if (node.type === 'if') {
+      if (!known(node.path)) {
+        problems.add(`Unknown variable {{#if ${node.path}}}`)
+      }
+      checkNodes(node.then, inLines, problems)
+      checkNodes(node.otherwise, inLines, problems)
+    } else if (node.type === 'each') {
+      if (!LIST_VARIABLES.has(node.path)) {
+        problems.add(`{{#each ${node.path}}} can only loop over ${[...LIST_VARIABLES].join(', ')}`)
+      }
+      checkNodes(node.body, true, problems)
+      checkNodes(node.otherwise, inLines, problems)
+    }
+  }
+}
+
+/** Problems found in a template (syntax errors, unknown variables or helpers); empty when it is valid */
+export function validateTemplate(template: string): string[] {
+  let nodes: TemplateNode[]
+  try {
+    nodes = parseTemplate(template)
+  } catch (error) {
+    return [error instanceof Error ? error.message : 'Invalid template']
+  }
+  const problems = new Set<string>()
+  checkNodes(nodes, false, problems)
+  for (const match of template.matchAll(LEGACY_TAG)) {
+    if (!Object.prototype.hasOwnProperty.call(LEGACY_PLACEHOLDERS, match[1])) {
+      problems.add(`Unknown variable {${match[1]}}`)
+    }
+  }
+  return [...problems]
+}
+
+/** Problems of several templates at once, each prefixed with its label ("Subject: ...") */
+export function templateProblems(templates: Record<string, string>): string[] {
+  return Object.entries(templates).flatMap(([label, template]) =>
+    validateTemplate(template).map(problem => `${label}: ${problem}`))
+}
+
+/** Throw a readable error if any of the named templates is invalid */
+export function assertValidTemplates(templates: Record<string, string>): void {
+  const problems = templateProblems(templates)
+  if (problems.length > 0) {
+    throw new Error(problems.join('; '))
+  }
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === null || value === undefined || value === '' || value === 0 || (Array.isArray(value) && value.length === 0)
+}
+
+function lookup(scopes: any[], path: string): unknown {
+  for (let i = scopes.length - 1; i >= 0; i--) {
+    let value: any = scopes[i]
+    for (const key of path.split('.')) {
+      value = value !== null && typeof value === 'object' ? value[key] : undefined
+    }
+    if (value !== undefined) return value
+  }
+  return undefined
+}
+
+function formatDate(value: unknown, style: string, locale: string): string {
+  if (!value) return ''
+  const date = new Date(`${String(value).slice(0, 10)}T00:00:00Z`)
+  if (Number.isNaN(date.getTime())) return String(value)
+  const options: Intl.DateTimeFormatOptions = style === 'long'
+    ? { day: 'numeric', month: 'long', year: 'numeric' }
+    : style === 'medium'
+      ? { day: 'numeric', month: 'short', year: 'numeric' }
+      : { day: '2-digit', month: '2-digit', year: 'numeric' }
+  return new Intl.DateTimeFormat(locale, { ...options, timeZone: 'UTC' }).format(date)
+}
+
+function applyFilter(value: unknown, filter: Filter, context: TemplateContext): unknown {
+  const [first, second] = filter.args
+  switch (filter.name) {
+    case 'currency': {
+      const locale = typeof first === 'string' ? first : context.locale
+      const currency = context.invoice.currency || 'EUR'
+      try {
+        return new Intl.NumberFormat(locale, { style: 'currency', currency }).format(Number(value) || 0)
+      } catch {
+        return `${(Number(value) || 0).toFixed(2)} ${currency}`
+      }
+    }
+    case 'date':
+      return formatDate(value, typeof first === 'string' ? first : 'short', typeof second === 'string' ? second : context.locale)
+    case 'number': {
+      const decimals = typeof first === 'number' ? first : 2
+      return new Intl.NumberFormat(context.locale, { minimumFractionDigits: decimals, maximumFractionDigits: decimals }).format(Number(value) || 0)
+    }
+    case 'upper':
+      return String(value ?? '').toUpperCase()
+    case 'lower':
+      return String(value ?? '').toLowerCase()
+    case 'default':
+      return isEmpty(value) ? first ?? '' : value
+    default:
+      return value
+  }
+}
+
+function renderNodes(nodes: TemplateNode[], scopes: any[], context: TemplateContext, html: boolean): string {
+  let out = ''
+  for (const node of nodes) {
+    if (node.type === 'text') {
+      out += node.text
+    } else if (node.type === 'value') {
+      const value = node.filters.reduce((current, filter) => applyFilter(current, filter, context), lookup(scopes, node.path))
+      const text = value === null || value === undefined ? '' : String(value)
+      out += html ? escapeHtml(text) : text
+    } else if (node.type === 'if') {
+      const truthy = !isEmpty(lookup(scopes, node.path))
+      out += renderNodes(truthy !== node.negate ? node.then : node.otherwise, scopes, context, html)
+    } else {
+      const items = lookup(scopes, node.path)
+      if (Array.isArray(items) && items.length > 0) {
+        for (const item of items) {
+          out += renderNodes(node.body, [...scopes, item], context, html)
+        }
+      } else {
+        out += renderNodes(node.otherwise, scopes, context, html)
+      }
+    }
+  }
+  return out
+}
+
+/**
+ * Render a template; values are HTML-escaped when `html` is set (email
+ * bodies). Throws if the template is invalid, so nothing with an unknown
+ * variable is ever sent.
+ */
+export function renderTemplate(template: string, context: TemplateContext, options: { html?: boolean } = {}): string {
+  const problems = validateTemplate(template)
+  if (problems.length > 0) {
+    throw new Error(problems.join('; '))
+  }
+  return renderNodes(parseTemplate(template), [context], context, !!options.html)
+}
+
+// PGlite returns `date` columns as Date objects
+function toDateString(value: unknown): string {
+  return value instanceof Date ? value.toISOString().slice(0, 10) : value ? String(value) : ''
+}
+
+function paymentText(seller: any): string {
+  return [
+    seller?.iban ? `IBAN ${seller.iban}` : seller?.bankAccount,
+    seller?.swift ? `SWIFT ${seller.swift}` : null,
+    seller?.bankName
+  ].filter(Boolean).join(' · ')
+}
+
+export interface TemplateData {
+  client: { name?: string | null; email?: string | null; taxId?: string | null; address?: string | null }
+  seller: any // Company profile
+  invoice: {
+    number: string
+    issueDate: string
+    dueDate?: string | null
+    description?: string | null
+    currency?: string | null
+    subtotal?: string | number | null
+    taxAmount?: string | number | null
+    total: string | number
+    outstanding?: string | number | null
+    lines?: Array<{ description: string; quantity?: string | number; unit?: string | null; unitPrice?: string | number; amount: string | number; taxRate?: string | number | null }>
+  }
+  asOf?: string // For daysOverdue; defaults to today
+  locale?: string
+}
+
+/** Build the context of a template from an invoice that may not be stored yet (previews) */
+export function templateContext(data: TemplateData): TemplateContext {
+  const seller = data.seller || {}
+  const invoice = data.invoice
+  const total = Number(invoice.total) || 0
+  const dueDate = invoice.dueDate || ''
+  const asOf = data.asOf || new Date().toISOString().slice(0, 10)
+  const daysOverdue = dueDate ? Math.max(Math.round((Date.parse(asOf) - Date.parse(dueDate)) / 86_400_000), 0) : 0
+
+  return {
+    locale: data.locale || DEFAULT_LOCALE,
+    client: {
+      name: data.client.name || '',
+      email: data.client.email || '',
+      taxId: data.client.taxId || '',
+      address: data.client.address || ''
+    },
+    seller: {
+      name: seller.name || 'Your Company',
+      email: seller.email || '',
+      phone: seller.phone || '',
+      taxId: seller.taxId || '',
+      address: seller.address || ''
+    },
+    invoice: {
+      number: invoice.number,
+      issueDate: invoice.issueDate,
+      dueDate,
+      description: invoice.description || '',
+      currency: invoice.currency || 'EUR',
+      subtotal: Number(invoice.subtotal ?? total) || 0,
+      taxAmount: Number(invoice.taxAmount ?? 0) || 0,
+      total,
+      outstanding: Number(invoice.outstanding ?? total) || 0,
+      daysOverdue,
+      lines: (invoice.lines || []).map(line => ({
+        description: line.description,
+        quantity: Number(line.quantity ?? 1) || 0,
+        unit: line.unit || null,
+        unitPrice: Number(line.unitPrice ?? line.amount) || 0,
+        amount: Number(line.amount) || 0,
+        taxRate: Number(line.taxRate ?? 0) || 0
+      }))
+    },
+    payment: {
+      iban: seller.iban || '',
+      bankName: seller.bankName || '',
+      swift: seller.swift || '',
+      text: paymentText(seller)
+    }
+  }
+}
+
+/**
+ * Context of a stored invoice: its client, lines, balance and the seller's
+ * profile. Amounts and dates follow the client's language; `locale` (the
+ * template's language) only applies to clients without one.
+ */
+export async function loadTemplateContext(invoiceId: string, options: { asOf?: string; locale?: string } = {}, db: Queryable = client): Promise<TemplateContext> {
+  const res = await db.query(
+    `SELECT i.number, i.issue_date, COALESCE(i.expected_payment_date, i.issue_date + 30) AS due_date,
+       i.description, i.currency, i.subtotal, i.tax_amount, i.amount,
+       c.name AS client_name, c.email AS client_email, c.tax_id AS client_tax_id, c.address AS client_address,
+       c.language AS client_language, c.locale AS client_locale
+     FROM invoice i
+     LEFT JOIN client c ON c.id = i.client_id
+     WHERE i.id = $1`,
+    [invoiceId]
+  )
+  const row = res.rows[0] as any
+  if (!row) {
+    throw new Error('Invoice not found')
+  }
+  const balance = await getPaymentBalance(invoiceId, db)
+
+  return templateContext({
+    client: { name: row.client_name, email: row.client_email, taxId: row.client_tax_id, address: row.client_address },
+    seller: await getCompanyProfile(),
+    invoice: {
+      number: row.number,
+      issueDate: toDateString(row.issue_date),
+      dueDate: toDateString(row.due_date),
+      description: row.description,
+      currency: row.currency,
+      subtotal: row.subtotal ?? row.amount,
+      taxAmount: row.tax_amount ?? 0,
+      total: row.amount,
+      outstanding: balance.outstanding,
+      lines: await getInvoiceLines(invoiceId, db)
+    },
+    asOf: options.asOf,
+    locale: emailLocale(row.client_language, row.client_locale, options.locale)
+  })
+}
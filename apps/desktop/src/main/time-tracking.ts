@@ -0,0 +1,250 @@
+import { z } from 'zod'
+import { client } from '@bills/db'
+import { generateId } from './ipc/utils'
+import type { InvoiceLineInput, Queryable } from './invoice-lines'
+import { assertProjectOfClient } from './projects'
+
+/**
+ * Time tracking
+ *
+ * Hours worked for a client, optionally on one of its projects, are time
+ * entries: typed into the weekly timesheet or recorded with the timer,
+ * which runs on one entry at a time and adds the elapsed time to its hours
+ * when stopped. Unbilled hours of a
+ * client are billed on a new invoice, one line per project and rate, and
+ * the entries keep the invoice and line they were billed on so they are
+ * never billed twice. Deleting or cancelling that invoice, or removing the
+ * line, leaves them unbilled again.
+ */
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Dates are written YYYY-MM-DD')
+
+const decimalString = z.string().refine(v => v.trim() !== '' && !isNaN(Number(v)) && Number(v) >= 0, {
+  message: 'Invalid number'
+})
+
+export const timeEntryInputSchema = z.object({
+  clientId: z.string().min(1, 'Client is required'),
+  projectId: z.string().optional().nullable(), // A project of the entry's client
+  date: isoDate,
+  hours: decimalString.refine(v => Number(v) <= 24, { message: 'A day has 24 hours at most' }),
+  rate: decimalString, // Hourly rate
+  description: z.string().optional().nullable()
+})
+
+export const timerInputSchema = timeEntryInputSchema.omit({ date: true, hours: true })
+
+export const timeRangeSchema = z.object({
+  from: isoDate,
+  to: isoDate,
+  clientId: z.string().optional().nullable()
+})
+
+export type TimeEntryInput = z.infer<typeof timeEntryInputSchema>
+export type TimerInput = z.infer<typeof timerInputSchema>
+export type TimeRange = z.infer<typeof timeRangeSchema>
+
+export interface TimeEntry {
+  id: string
+  clientId: string
+  clientName: string
+  projectId: string | null
+  project: string | null // Project name
+  date: string
+  hours: string
+  rate: string
+  amount: string // hours × rate
+  description: string | null
+  running: boolean
+  elapsedSeconds: number // Timed so far, while the timer runs
+  invoiceId: string | null // Invoice the hours were billed on
+  invoiceNumber: string | null
+  createdAt: string
+}
+
+const TIME_ENTRY_SELECT = `
+  SELECT t.*, c.name AS client_name, p.name AS project_name, i.number AS invoice_number,
+    ROUND(t.hours * t.rate, 2) AS amount,
+    COALESCE(EXTRACT(EPOCH FROM (current_timestamp - t.started_at)), 0) AS elapsed_seconds
+  FROM time_entry t
+  LEFT JOIN client c ON c.id = t.client_id
+  LEFT JOIN project p ON p.id = t.project_id
+  LEFT JOIN invoice i ON i.id = t.invoice_id`
+
+function today(): string {
+  return new Date().toISOString().slice(0, 10)
+}
+
+// PGlite returns `date` columns as Date objects
+function toDateString(value: unknown): string {
+  return value instanceof Date ? value.toISOString().slice(0, 10) : String(value)
+}
+
+function mapTimeEntryRow(row: any): TimeEntry {
+  return {
+    id: row.id,
+    clientId: row.client_id,
+    clientName: row.client_name || '',
+    projectId: row.project_id ?? null,
+    project: row.project_name ?? null,
+    date: toDateString(row.date),
+    hours: String(row.hours),
+    rate: String(row.rate),
+    amount: String(row.amount),
+    description: row.description ?? null,
+    running: !!row.started_at,
+    elapsedSeconds: Math.max(0, Math.floor(Number(row.elapsed_seconds) || 0)),
+    invoiceId: row.invoice_id ?? null,
+    invoiceNumber: row.invoice_number ?? null,
+    createdAt: row.created_at
+  }
+}
+
+/** Entries dated within a range (both ends included), optionally of one client */
+export async function listTimeEntries(range: TimeRange, db: Queryable = client): Promise<TimeEntry[]> {
+  const params: unknown[] = [range.from, range.to]
+  let where = 't.date BETWEEN $1 AND $2'
+  if (range.clientId) {
+    params.push(range.clientId)
+    where += ` AND t.client_id = $${params.length}`
+  }
+  const res = await db.query(`${TIME_ENTRY_SELECT} WHERE ${where} ORDER BY t.date, t.created_at`, params)
+  return res.rows.map(mapTimeEntryRow)
+}
+
+export async function getTimeEntry(entryId: string, db: Queryable = client): Promise<TimeEntry> {
+  const res = await db.query(`${TIME_ENTRY_SELECT} WHERE t.id = $1`, [entryId])
+  const row = res.rows[0]
+  if (!row) {
+    throw new Error('Time entry not found')
+  }
+  return mapTimeEntryRow(row)
+}
+
+// Billed hours are part of an invoice and stay as they were billed
+function assertUnbilled(entry: TimeEntry): void {
+  if (entry.invoiceId) {
+    throw new Error(`These hours were billed on invoice ${entry.invoiceNumber}`)
+  }
+}
+
+export async function createTimeEntry(data: TimeEntryInput, db: Queryable = client): Promise<TimeEntry> {
+  await assertProjectOfClient(data.projectId, data.clientId, db)
+  const id = generateId()
+  await db.query(
+    `INSERT INTO time_entry (id, client_id, project_id, date, hours, rate, description, created_at, updated_at)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, current_timestamp, current_timestamp)`,
+    [id, data.clientId, data.projectId || null, data.date, data.hours, data.rate, data.description?.trim() || null]
+  )
+  return getTimeEntry(id, db)
+}
+
+export async function updateTimeEntry(entryId: string, data: TimeEntryInput, db: Queryable = client): Promise<TimeEntry> {
+  assertUnbilled(await getTimeEntry(entryId, db))
+  await assertProjectOfClient(data.projectId, data.clientId, db)
+  await db.query(
+    `UPDATE time_entry
+     SET client_id=$1, project_id=$2, date=$3, hours=$4, rate=$5, description=$6, updated_at=current_timestamp
+     WHERE id=$7`,
+    [data.clientId, data.projectId || null, data.date, data.hours, data.rate, data.description?.trim() || null, entryId]
+  )
+  return getTimeEntry(entryId, db)
+}
+
+export async function deleteTimeEntry(entryId: string, db: Queryable = client): Promise<void> {
+  assertUnbilled(await getTimeEntry(entryId, db))
+  await db.query('DELETE FROM time_entry WHERE id = $1', [entryId])
+}
+
+/** The entry whose timer is running, if any */
+export async function getRunningTimer(db: Queryable = client): Promise<TimeEntry | null> {
+  const res = await db.query(`${TIME_ENTRY_SELECT} WHERE t.started_at IS NOT NULL LIMIT 1`)
+  return res.rows[0] ? mapTimeEntryRow(res.rows[0]) : null
+}
+
+/** Start timing a new entry dated today; only one timer runs at a time */
+export async function startTimer(data: TimerInput, db: Queryable = client): Promise<TimeEntry> {
+  const running = await getRunningTimer(db)
+  if (running) {
+    throw new Error(`A timer is already running for ${running.clientName}; stop it first`)
+  }
+  await assertProjectOfClient(data.projectId, data.clientId, db)
+  const id = generateId()
+  await db.query(
+    `INSERT INTO time_entry (id, client_id, project_id, date, hours, rate, description, started_at, created_at, updated_at)
+     VALUES ($1, $2, $3, $4, 0, $5, $6, current_timestamp, current_timestamp, current_timestamp)`,
+    [id, data.clientId, data.projectId || null, today(), data.rate, data.description?.trim() || null]
+  )
+  return getTimeEntry(id, db)
+}
+
+/** Stop the running timer, adding the time elapsed (to the hundredth of an hour) to its entry */
+export async function stopTimer(db: Queryable = client): Promise<TimeEntry> {
+  const running = await getRunningTimer(db)
+  if (!running) {
+    throw new Error('No timer is running')
+  }
+  await db.query(
+    `UPDATE time_entry
+     SET hours = LEAST(24, ROUND(hours + EXTRACT(EPOCH FROM (current_timestamp - started_at)) / 3600, 2)),
+       started_at = NULL, updated_at = current_timestamp
+     WHERE id = $1`,
+    [running.id]
+  )
+  return getTimeEntry(running.id, db)
+}
+
+/** Hours of a client not billed yet, within a range; running timers are left out */
+export async function getUnbilledTime(clientId: string, from: string, to: string, db: Queryable = client): Promise<TimeEntry[]> {
+  const res = await db.query(
+    `${TIME_ENTRY_SELECT}
+     WHERE t.client_id = $1 AND t.date BETWEEN $2 AND $3
+       AND t.invoice_id IS NULL AND t.started_at IS NULL AND t.hours > 0
+     ORDER BY t.date, t.created_at`,
+    [clientId, from, to]
+  )
+  return res.rows.map(mapTimeEntryRow)
+}
+
+/**
+ * Invoice lines for time entries: one per project and hourly rate, in the
+ * order the projects were first worked on. Hours without a project are
+ * described as `fallbackDescription`.
+ */
+export function timeEntriesToLines(entries: TimeEntry[], fallbackDescription: string): InvoiceLineInput[] {
+  return groupTimeEntries(entries, fallbackDescription).map(group => group.line)
+}
+
+/** The same lines, each with the entries it bills */
+export function groupTimeEntries(entries: TimeEntry[], fallbackDescription: string): Array<{ line: InvoiceLineInput; entryIds: string[] }> {
+  const groups = new Map<string, { project: string | null; rate: string; hours: number; entryIds: string[] }>()
+  for (const entry of entries) {
+    const key = `${entry.projectId ?? ''}\u0000${Number(entry.rate)}`
+    const group = groups.get(key) ?? { project: entry.project, rate: entry.rate, hours: 0, entryIds: [] }
+    group.hours += Number(entry.hours)
+    group.entryIds.push(entry.id)
+    groups.set(key, group)
+  }
+  return [...groups.values()].map(group => ({
+    line: {
+      description: group.project || fallbackDescription,
+      quantity: group.hours.toFixed(2),
+      unit: 'h',
+      unitPrice: group.rate
+    },
+    entryIds: group.entryIds
+  }))
+}
+
+/** Link time entries to the invoice line they were billed on; fails if any was billed meanwhile */
+export async function markTimeBilled(entryIds: string[], invoiceId: string, lineId: string, db: Queryable = client): Promise<void> {
+  const res = await db.query(
+    `UPDATE time_entry SET invoice_id = $1, invoice_line_id = $2, updated_at = current_timestamp
+     WHERE id = ANY($3) AND invoice_id IS NULL
+     RETURNING id`,
+    [invoiceId, lineId, entryIds]
+  )
+  if (res.rows.length !== entryIds.length) {
+    throw new Error('Some of these hours were billed on another invoice meanwhile')
+  }
+}
@@ -1,29 +1,399 @@
 import { contextBridge, ipcRenderer } from 'electron'
 
 // API types for better TypeScript support
+export interface InvoiceLineInput {
+  id?: string
+  description: string
+  quantity: string
+  unit?: string | null
+  unitPrice: string
+  discount?: string | null
+  taxRateId?: string | null
+}
+
+export interface TaxRate {
+  id: string
+  name: string
+  rate: string
+  kind: 'STANDARD' | 'REDUCED' | 'EXEMPT' | 'WITHHOLDING'
+  legalMention?: string | null
+  isDefault?: boolean
+}
+
+export interface TaxBreakdownEntry {
+  taxRateId: string | null
+  name: string
+  rate: string
+  kind: TaxRate['kind']
+  base: string
+  amount: string
+  legalMention?: string | null
+}
+
+export interface InvoiceTotals {
+  subtotal: string
+  taxAmount: string
+  withholdingAmount: string
+  total: string
+  breakdown: TaxBreakdownEntry[]
+  legalMentions: string[]
+}
+
+export interface NumberingSeries {
+  id: string
+  name: string
+  prefix: string
+  pattern: string
+  resetYearly: boolean
+  currentYear: number | null
+  nextSeq: number
+  isDefault: boolean
+  kind: 'INVOICE' | 'CREDIT_NOTE' | 'QUOTE'
+}
+
 export interface BillInput {
   clientId?: string
   clientName: string
   issueDate: string
   expectedPaymentDate?: string
-  amount: string
+  amount?: string
   currency?: string
-  number: string
+  number?: string // Omit to reserve the next number of seriesId
+  seriesId?: string | null
   description?: string
   notes?: string
+  lines?: InvoiceLineInput[]
+  taxRateId?: string | null
+  withholdingRateId?: string | null
+  projectId?: string | null // A project of the invoice's client
   source: { type: 'auto' } | { type: 'file'; path: string }
 }
 
+// Look of the company's invoice PDFs
+export interface InvoiceBranding {
+  logo?: string | null // PNG or JPEG data URL
+  accentColor?: string | null // #rrggbb
+  invoiceTheme?: string | null
+}
+
+export interface InvoiceTheme {
+  id: string
+  name: string
+  description: string
+  accentColor: string // Used when the profile has none
+}
+
+// Whether previewed invoices would be issued as Factur-X, and what keeps them from conforming
+export interface FacturXCheck {
+  enabled: boolean
+  problems: string[]
+}
+
+export interface CreditNoteInput {
+  invoiceId: string
+  reason: string
+  issueDate?: string
+  seriesId?: string | null
+  lines?: InvoiceLineInput[] // Omit to credit the whole invoice
+}
+
+export type QuoteStatus = 'DRAFT' | 'SENT' | 'ACCEPTED' | 'REJECTED' | 'EXPIRED'
+
+export interface QuoteInput {
+  clientId?: string
+  clientName: string
+  issueDate: string
+  validUntil?: string // Defaults to 30 days after the issue date
+  currency?: string
+  seriesId?: string | null // Falls back to the default quote series
+  description?: string
+  notes?: string
+  lines: InvoiceLineInput[]
+  taxRateId?: string | null
+  withholdingRateId?: string | null
+}
+
+export interface Quote {
+  id: string
+  number: string
+  clientId: string
+  clientName: string
+  clientEmail: string | null
+  issueDate: string
+  validUntil: string
+  status: QuoteStatus
+  amount: string
+  currency: string
+  description: string | null
+  notes: string | null
+  taxRateId: string | null
+  withholdingRateId: string | null
+  seriesId: string | null
+  invoiceId: string | null // Invoice the quote was converted into
+  invoiceNumber: string | null
+  filePath: string | null
+  folderPath: string | null
+  createdAt: string
+  updatedAt: string
+}
+
+export type ProjectStatus = 'ACTIVE' | 'ON_HOLD' | 'COMPLETED'
+
+export interface ProjectInput {
+  clientId: string
+  name: string
+  budget?: string | null
+  hourlyRate?: string | null
+  status?: ProjectStatus
+  notes?: string | null
+}
+
+export interface Project {
+  id: string
+  clientId: string
+  clientName: string
+  name: string
+  budget: string | null
+  hourlyRate: string | null
+  status: ProjectStatus
+  notes: string | null
+  createdAt: string
+  updatedAt: string
+}
+
+export interface ProjectProfitability extends Project {
+  invoiced: string // Base currency
+  expenses: string // Base currency
+  profit: string
+  budgetUsed: number | null // Share of the budget invoiced so far (1 = all of it)
+  hours: string
+  unbilledHours: string
+  unbilledAmount: string
+  unconverted: number // Invoices and expenses left out for want of an exchange rate
+}
+
+export interface TimeEntryInput {
+  clientId: string
+  projectId?: string | null
+  date: string
+  hours: string
+  rate: string // Hourly rate
+  description?: string | null
+}
+
+export interface TimeEntry {
+  id: string
+  clientId: string
+  clientName: string
+  projectId: string | null
+  project: string | null // Project name
+  date: string
+  hours: string
+  rate: string
+  amount: string
+  description: string | null
+  running: boolean
+  elapsedSeconds: number // Timed so far, while the timer runs
+  invoiceId: string | null // Invoice the hours were billed on
+  invoiceNumber: string | null
+  createdAt: string
+}
+
+export type PaymentMethod = 'TRANSFER' | 'CARD' | 'CASH' | 'DIRECT_DEBIT' | 'OTHER'
+
+export interface PaymentInput {
+  invoiceId: string
+  date: string // YYYY-MM-DD
+  amount: string
+  method?: PaymentMethod | null
+  reference?: string | null
+  notes?: string | null
+}
+
+export interface Payment extends Required<Omit<PaymentInput, 'method'>> {
+  id: string
+  method: PaymentMethod | null
+  baseAmount: string | null // In the base currency, at the rate of the payment date
+  createdAt: string
+}
+
+export interface PaymentBalance {
+  total: string
+  credited: string
+  paid: string
+  outstanding: string
+  status: string
+}
+
+export interface ReminderStep {
+  id: string
+  name: string
+  offsetDays: number // Relative to the due date: negative = before, positive = after
+  subjectTemplate: string
+  bodyTemplate: string
+  isActive: boolean
+}
+
+export interface PaymentReminder {
+  id: string
+  invoiceId: string
+  stepId: string | null
+  stepName: string | null
+  offsetDays: number
+  recipient: string
+  subject: string
+  status: 'SENT' | 'FAILED'
+  error: string | null
+  sentAt: string
+}
+
+export interface EmailLogEntry {
+  id: string
+  invoiceId: string | null
+  source: 'MANUAL' | 'AUTOMATION' | 'REMINDER'
+  recipients: string[]
+  cc: string[]
+  subject: string
+  messageId: string | null
+  status: 'SENT' | 'FAILED'
+  error: string | null
+  sentAt: string
+}
+
+export interface TemplateCatalogue {
+  variables: Array<{ name: string; description: string; example: string }>
+  lineVariables: Array<{ name: string; description: string; example: string }> // Inside {{#each invoice.lines}}
+  helpers: Array<{ name: string; usage: string; description: string }>
+}
+
+export type EmailTemplateKind = 'INVOICE' | 'REMINDER' | 'PAYMENT_THANKS' | 'CREDIT_NOTE' | 'QUOTE'
+
+export interface EmailTemplate {
+  id: string
+  name: string
+  kind: EmailTemplateKind
+  language: string // Locale, e.g. 'es-ES'; also formats dates and amounts
+  subjectTemplate: string
+  bodyTemplate: string
+  version: number
+  ruleCount: number // Automation rules using it
+  updatedAt: string
+}
+
+export interface EmailTemplateVersion {
+  version: number
+  subjectTemplate: string
+  bodyTemplate: string
+  replacedAt: string
+}
+
+export interface OutboxEmail {
+  id: string
+  invoiceId: string | null
+  source: EmailLogEntry['source']
+  recipients: string[]
+  subject: string
+  status: 'PENDING' | 'SENT' | 'FAILED'
+  attempts: number
+  nextAttemptAt: string
+  lastError: string | null
+  createdAt: string
+}
+
+export interface AutomationRun {
+  id: string
+  ruleId: string
+  ruleName: string
+  clientName: string | null
+  periodKey: string
+  scheduledDate: string
+  invoiceId: string | null
+  status: 'PROCESSING' | 'COMPLETED' | 'FAILED' | 'LATE' | 'AWAITING_APPROVAL' | 'SKIPPED'
+  error: string | null
+  processedAt: string | null
+}
+
+export interface AutomationApproval extends AutomationRun {
+  invoiceNumber: string | null
+  issueDate: string | null
+  amount: string | null
+  currency: string
+}
+
+export interface AutomationPreview {
+  issueDate: string
+  number: string
+  totals: InvoiceTotals
+  currency: string
+  to: string[]
+  cc: string[]
+  subject: string
+  html: string
+  dataUrl: string
+}
+
+export interface AutomationSimulation {
+  from: string
+  until: string
+  currency: string
+  total: string
+  occurrences: string[]
+}
+
+export type AgingAmounts = Record<'current' | '1-30' | '31-60' | '61-90' | '90+' | 'total', string>
+
+export interface AgingReport {
+  asOf: string
+  clients: Array<AgingAmounts & { clientId: string; clientName: string; currency: string; invoiceCount: number }>
+  totals: Array<AgingAmounts & { currency: string }>
+  baseCurrency: string
+  baseTotals: AgingAmounts
+  unconverted: number
+}
+
+export interface ExchangeRate {
+  id: string
+  currency: string
+  baseCurrency: string
+  date: string // YYYY-MM-DD; applies until the next rate of the currency
+  rate: string // Units of the base currency per unit of `currency`
+  source: 'MANUAL' | 'CSV'
+  updatedAt: string
+}
+
+// A currency with documents dated before its first rate
+export interface MissingRate {
+  currency: string
+  fromDate: string
+  documents: number
+}
+
 export interface ExpenseInput {
   date: string
   amount: string
+  currency?: string
   vendor: string
   category: string
-  invoiceId?: string
+  projectId?: string | null
+  billableClientId?: string | null // Client the expense is rebilled to
+  markup?: string // Percentage added when rebilled
   notes?: string
   filePath?: string
 }
 
+export interface BillableExpense {
+  id: string
+  clientId: string
+  vendor: string
+  category: string
+  date: string
+  amount: string
+  currency: string
+  markup: string
+  billedAmount: string // amount plus the markup
+  notes: string | null
+}
+
 export interface ApiResponse<T = any> {
   ok?: boolean
   error?: {
@@ -66,14 +436,33 @@ const api = {
     ipcRenderer.invoke('folder:ensureDir', path),
   
   // Bill operations
-  createBill: (input: BillInput): Promise<ApiResponse<{ id: string; folderPath: string; filePath: string }>> =>
+  createBill: (input: BillInput): Promise<ApiResponse<{ id: string; number: string; folderPath: string; filePath: string; totals: InvoiceTotals }>> =>
     ipcRenderer.invoke('bill:create', input),
-  previewBill: (input: Omit<BillInput, 'source' | 'clientId'> & { clientId?: string; expectedPaymentDate?: string; description?: string }): Promise<ApiResponse<{ dataUrl: string }>> =>
+  getNextBillNumber: (input?: { seriesId?: string | null; issueDate?: string }): Promise<ApiResponse<{ number: string; seriesId: string }>> =>
+    ipcRenderer.invoke('bill:nextNumber', input),
+  // Writes invoice.ubl.xml / invoice.facturae.xml next to the PDF; EINVOICE_INVALID errors come with `problems`
+  exportEInvoice: (billId: string, format: 'ubl' | 'facturae'): Promise<ApiResponse<{ filePath: string }>> =>
+    ipcRenderer.invoke('bill:exportEInvoice', billId, format),
+  createCreditNote: (input: CreditNoteInput): Promise<ApiResponse<{ id: string; number: string; folderPath: string; filePath: string; totals: InvoiceTotals }>> =>
+    ipcRenderer.invoke('bill:createCreditNote', input),
+  previewBill: (input: Omit<BillInput, 'source' | 'clientId' | 'number'> & { number: string; clientId?: string; expectedPaymentDate?: string; description?: string; branding?: InvoiceBranding }): Promise<ApiResponse<{ dataUrl: string; totals: InvoiceTotals; facturX: FacturXCheck }>> =>
     ipcRenderer.invoke('bill:preview', input),
   getBill: (id: string): Promise<ApiResponse<{ bill: any }>> =>
     ipcRenderer.invoke('bill:get', id),
-  updateBill: (input: { id: string; clientName: string; issueDate: string; expectedPaymentDate?: string; amount: string; currency?: string; number: string; description?: string; notes?: string }): Promise<ApiResponse> =>
+  updateBill: (input: { id: string; clientName: string; issueDate: string; expectedPaymentDate?: string; amount?: string; currency?: string; number: string; description?: string; notes?: string; lines?: InvoiceLineInput[]; taxRateId?: string | null; withholdingRateId?: string | null; projectId?: string | null }): Promise<ApiResponse<{ totals: InvoiceTotals }>> =>
     ipcRenderer.invoke('bill:update', input),
+
+  // Invoice line operations
+  getBillLines: (billId: string): Promise<ApiResponse<{ lines: any[]; totals: InvoiceTotals }>> =>
+    ipcRenderer.invoke('bill:getLines', billId),
+  addBillLine: (billId: string, line: InvoiceLineInput): Promise<ApiResponse<{ lines: any[]; totals: InvoiceTotals }>> =>
+    ipcRenderer.invoke('bill:addLine', billId, line),
+  updateBillLine: (lineId: string, line: InvoiceLineInput): Promise<ApiResponse<{ lines: any[]; totals: InvoiceTotals }>> =>
+    ipcRenderer.invoke('bill:updateLine', lineId, line),
+  deleteBillLine: (lineId: string): Promise<ApiResponse<{ lines: any[]; totals: InvoiceTotals }>> =>
+    ipcRenderer.invoke('bill:deleteLine', lineId),
+  reorderBillLines: (billId: string, lineIds: string[]): Promise<ApiResponse<{ lines: any[] }>> =>
+    ipcRenderer.invoke('bill:reorderLines', billId, lineIds),
   
   deleteBill: (id: string): Promise<ApiResponse> =>
     ipcRenderer.invoke('bill:delete', id),
@@ -84,13 +473,77 @@ const api = {
   extractBillFields: (filePath: string): Promise<ApiResponse<{ fields?: { clientName?: string; issueDate?: string; expectedPaymentDate?: string; amount?: string; currency?: string; number?: string; description?: string; notes?: string } }>> =>
     ipcRenderer.invoke('bill:extractFields', filePath),
   
+  // Quote operations
+  getQuotes: (): Promise<ApiResponse<{ quotes: Quote[] }>> =>
+    ipcRenderer.invoke('quote:list'),
+  getQuote: (id: string): Promise<ApiResponse<{ quote: Quote; lines: any[]; totals: InvoiceTotals }>> =>
+    ipcRenderer.invoke('quote:get', id),
+  getNextQuoteNumber: (input?: { seriesId?: string | null; issueDate?: string }): Promise<ApiResponse<{ number: string; seriesId: string }>> =>
+    ipcRenderer.invoke('quote:nextNumber', input),
+  previewQuote: (input: QuoteInput & { number: string }): Promise<ApiResponse<{ dataUrl: string; totals: InvoiceTotals }>> =>
+    ipcRenderer.invoke('quote:preview', input),
+  createQuote: (input: QuoteInput): Promise<ApiResponse<{ id: string; number: string; validUntil: string; folderPath: string; filePath: string; totals: InvoiceTotals }>> =>
+    ipcRenderer.invoke('quote:create', input),
+  updateQuote: (id: string, input: QuoteInput): Promise<ApiResponse<{ totals: InvoiceTotals }>> =>
+    ipcRenderer.invoke('quote:update', id, input),
+  // SENT, ACCEPTED or REJECTED; quotes expire on their own
+  updateQuoteStatus: (id: string, status: QuoteStatus): Promise<ApiResponse<{ quote: Quote }>> =>
+    ipcRenderer.invoke('quote:updateStatus', id, status),
+  deleteQuote: (id: string): Promise<ApiResponse> =>
+    ipcRenderer.invoke('quote:delete', id),
+  // Creates a draft invoice with the quote's client and lines
+  convertQuote: (id: string): Promise<ApiResponse<{ invoiceId: string; number: string }>> =>
+    ipcRenderer.invoke('quote:convert', id),
+
+  // Time tracking
+  getTimeEntries: (range: { from: string; to: string; clientId?: string | null }): Promise<ApiResponse<{ entries: TimeEntry[] }>> =>
+    ipcRenderer.invoke('time:list', range),
+  createTimeEntry: (input: TimeEntryInput): Promise<ApiResponse<{ entry: TimeEntry }>> =>
+    ipcRenderer.invoke('time:create', input),
+  updateTimeEntry: (id: string, input: TimeEntryInput): Promise<ApiResponse<{ entry: TimeEntry }>> =>
+    ipcRenderer.invoke('time:update', id, input),
+  deleteTimeEntry: (id: string): Promise<ApiResponse> =>
+    ipcRenderer.invoke('time:delete', id),
+  getRunningTimer: (): Promise<ApiResponse<{ entry: TimeEntry | null }>> =>
+    ipcRenderer.invoke('time:running'),
+  // Starts a new entry dated today; one timer runs at a time
+  startTimer: (input: Omit<TimeEntryInput, 'date' | 'hours'>): Promise<ApiResponse<{ entry: TimeEntry }>> =>
+    ipcRenderer.invoke('time:start', input),
+  stopTimer: (): Promise<ApiResponse<{ entry: TimeEntry }>> =>
+    ipcRenderer.invoke('time:stop'),
+  getUnbilledTime: (input: { clientId: string; from: string; to: string }): Promise<ApiResponse<{ entries: TimeEntry[]; lines: InvoiceLineInput[] }>> =>
+    ipcRenderer.invoke('time:unbilled', input),
+  // Creates a draft invoice with one line per project and rate
+  billTime: (input: { clientId: string; from: string; to: string; issueDate?: string; currency?: string; description?: string; taxRateId?: string | null; withholdingRateId?: string | null }): Promise<ApiResponse<{ invoiceId: string; number: string; entries: number }>> =>
+    ipcRenderer.invoke('time:bill', input),
+
+  // Projects
+  getProjects: (): Promise<ApiResponse<{ projects: Project[] }>> =>
+    ipcRenderer.invoke('project:list'),
+  getProjectProfitability: (): Promise<ApiResponse<{ projects: ProjectProfitability[]; baseCurrency: string }>> =>
+    ipcRenderer.invoke('project:profitability'),
+  getProject: (id: string): Promise<ApiResponse<{ project: Project }>> =>
+    ipcRenderer.invoke('project:get', id),
+  createProject: (input: ProjectInput): Promise<ApiResponse<{ project: Project }>> =>
+    ipcRenderer.invoke('project:create', input),
+  updateProject: (id: string, input: ProjectInput): Promise<ApiResponse<{ project: Project }>> =>
+    ipcRenderer.invoke('project:update', id, input),
+  // Refused once invoices, expenses or hours are linked to the project
+  deleteProject: (id: string): Promise<ApiResponse> =>
+    ipcRenderer.invoke('project:delete', id),
+
   // Expense operations
   addExpense: (input: ExpenseInput): Promise<ApiResponse<{ id: string }>> =>
     ipcRenderer.invoke('expense:add', input),
   getExpense: (id: string): Promise<ApiResponse<{ expense: any }>> =>
     ipcRenderer.invoke('expense:get', id),
-  updateExpense: (input: { id: string; vendor: string; category: string; date: string; amount: string; notes?: string; invoiceId?: string }): Promise<ApiResponse> =>
+  updateExpense: (input: { id: string; vendor: string; category: string; date: string; amount: string; currency?: string; notes?: string; projectId?: string | null; billableClientId?: string | null; markup?: string }): Promise<ApiResponse> =>
     ipcRenderer.invoke('expense:update', input),
+  getUnbilledExpenses: (clientId: string): Promise<ApiResponse<{ expenses: BillableExpense[]; lines: InvoiceLineInput[] }>> =>
+    ipcRenderer.invoke('expense:unbilled', clientId),
+  // Creates a draft invoice with one line per expense, or adds them to invoiceId (a draft of the client)
+  billExpenses: (input: { clientId: string; expenseIds: string[]; invoiceId?: string | null; issueDate?: string; description?: string; taxRateId?: string | null; withholdingRateId?: string | null }): Promise<ApiResponse<{ invoiceId: string; number: string; expenses: number }>> =>
+    ipcRenderer.invoke('expense:bill', input),
   
   attachExpenseFile: (expenseId: string): Promise<ApiResponse<{ filePath?: string }>> =>
     ipcRenderer.invoke('expense:attachFile', expenseId),
@@ -152,6 +605,8 @@ const api = {
     
   getStats: (): Promise<ApiResponse> =>
     ipcRenderer.invoke('data:getStats'),
+  getAgingReport: (): Promise<ApiResponse<{ report: AgingReport }>> =>
+    ipcRenderer.invoke('data:getAgingReport'),
     
   // Backup and Restore operations
   createBackup: (dataRootPath: string): Promise<ApiResponse> =>
@@ -166,11 +621,11 @@ const api = {
   // Clients
   getClients: (): Promise<ApiResponse<{ clients: Array<{ id: string; name: string; email?: string; taxId?: string; address?: string; phone?: string }> }>> =>
     ipcRenderer.invoke('client:getAll'),
-  createClient: (input: { name: string; email?: string; taxId?: string; address?: string; phone?: string }): Promise<ApiResponse<{ id: string }>> =>
+  createClient: (input: { name: string; email?: string; taxId?: string; address?: string; phone?: string; remindersOptOut?: boolean; language?: string; locale?: string }): Promise<ApiResponse<{ id: string }>> =>
     ipcRenderer.invoke('client:create', input),
   getClient: (id: string): Promise<ApiResponse<{ client: any }>> =>
     ipcRenderer.invoke('client:get', id),
-  updateClient: (input: { id: string; name: string; email?: string; taxId?: string; address?: string; phone?: string }): Promise<ApiResponse> =>
+  updateClient: (input: { id: string; name: string; email?: string; taxId?: string; address?: string; phone?: string; remindersOptOut?: boolean; language?: string; locale?: string }): Promise<ApiResponse> =>
     ipcRenderer.invoke('client:update', input),
   hideClient: (id: string): Promise<ApiResponse> =>
     ipcRenderer.invoke('client:hide', id),
@@ -182,6 +637,10 @@ const api = {
     ipcRenderer.invoke('settings:getCompanyProfile'),
   saveCompanyProfile: (profile: any): Promise<ApiResponse> =>
     ipcRenderer.invoke('settings:saveCompanyProfile', profile),
+  getInvoiceThemes: (): Promise<ApiResponse<{ themes: InvoiceTheme[] }>> =>
+    ipcRenderer.invoke('settings:getInvoiceThemes'),
+  selectLogo: (): Promise<ApiResponse<{ logo?: string; canceled?: boolean }>> =>
+    ipcRenderer.invoke('settings:selectLogo'),
 
   // SMTP configuration
   getSmtpConfig: (): Promise<ApiResponse<{ config: any }>> =>
@@ -189,13 +648,84 @@ const api = {
   saveSmtpConfig: (config: any): Promise<ApiResponse> =>
     ipcRenderer.invoke('settings:saveSmtpConfig', config),
 
+  // Tax rates
+  getTaxRates: (): Promise<ApiResponse<{ rates: TaxRate[]; defaults: TaxRate[] }>> =>
+    ipcRenderer.invoke('settings:getTaxRates'),
+  saveTaxRates: (rates: TaxRate[]): Promise<ApiResponse> =>
+    ipcRenderer.invoke('settings:saveTaxRates', rates),
+
+  // Numbering series
+  getNumberingSeries: (): Promise<ApiResponse<{ series: Array<NumberingSeries & { invoiceCount: number; example: string }> }>> =>
+    ipcRenderer.invoke('numbering:list'),
+  saveNumberingSeries: (series: { id?: string; name: string; prefix?: string; pattern: string; resetYearly?: boolean; nextSeq?: number; isDefault?: boolean; kind?: 'INVOICE' | 'CREDIT_NOTE' | 'QUOTE' }): Promise<ApiResponse<{ id: string }>> =>
+    ipcRenderer.invoke('numbering:save', series),
+  deleteNumberingSeries: (id: string): Promise<ApiResponse> =>
+    ipcRenderer.invoke('numbering:delete', id),
+
+  // Base currency and exchange rates
+  getExchangeRates: (): Promise<ApiResponse<{ baseCurrency: string; rates: ExchangeRate[]; missing: MissingRate[] }>> =>
+    ipcRenderer.invoke('currency:getRates'),
+  setBaseCurrency: (currency: string): Promise<ApiResponse<{ missing: MissingRate[] }>> =>
+    ipcRenderer.invoke('currency:setBase', currency),
+  saveExchangeRate: (rate: { currency: string; date: string; rate: string }): Promise<ApiResponse<{ id: string; missing: MissingRate[] }>> =>
+    ipcRenderer.invoke('currency:saveRate', rate),
+  deleteExchangeRate: (id: string): Promise<ApiResponse> =>
+    ipcRenderer.invoke('currency:deleteRate', id),
+  importExchangeRates: (): Promise<ApiResponse<{ imported: number; missing: MissingRate[]; problems?: string[] }>> =>
+    ipcRenderer.invoke('currency:importRates'),
+
+  // Payments
+  getPayments: (invoiceId: string): Promise<ApiResponse<{ payments: Payment[]; balance: PaymentBalance }>> =>
+    ipcRenderer.invoke('payment:list', invoiceId),
+  recordPayment: (payment: PaymentInput): Promise<ApiResponse<{ id: string; payments: Payment[]; balance: PaymentBalance }>> =>
+    ipcRenderer.invoke('payment:record', payment),
+  deletePayment: (id: string): Promise<ApiResponse<{ payments: Payment[]; balance: PaymentBalance }>> =>
+    ipcRenderer.invoke('payment:delete', id),
+
+  // Payment reminders
+  getReminderSteps: (): Promise<ApiResponse<{ steps: ReminderStep[] }>> =>
+    ipcRenderer.invoke('reminder:listSteps'),
+  saveReminderStep: (step: Omit<ReminderStep, 'id'> & { id?: string }): Promise<ApiResponse<{ id: string }>> =>
+    ipcRenderer.invoke('reminder:saveStep', step),
+  deleteReminderStep: (id: string): Promise<ApiResponse> =>
+    ipcRenderer.invoke('reminder:deleteStep', id),
+  getPaymentReminders: (invoiceId: string): Promise<ApiResponse<{ reminders: PaymentReminder[] }>> =>
+    ipcRenderer.invoke('reminder:list', invoiceId),
+
   // SQL Script Download
   downloadSQLScript: (): Promise<ApiResponse<{ filePath?: string; size?: number }>> =>
     ipcRenderer.invoke('settings:downloadSQLScript'),
 
   // Email operations
-  sendInvoiceEmail: (data: { billId: string; subject: string; htmlBody: string; attachmentPath?: string }): Promise<ApiResponse> =>
+  // Subject and body are templates filled in with the invoice (by default those of
+  // `templateId`); resolves with `queued: true` when the email couldn't leave yet
+  // and will be retried from the outbox
+  sendInvoiceEmail: (data: { billId: string; templateId?: string; subject?: string; htmlBody?: string; attachmentPath?: string }): Promise<ApiResponse> =>
     ipcRenderer.invoke('email:sendInvoice', data),
+  getEmailHistory: (billId: string): Promise<ApiResponse<{ emails: EmailLogEntry[]; pending: OutboxEmail[] }>> =>
+    ipcRenderer.invoke('email:getHistory', billId),
+  retryEmail: (outboxId: string): Promise<ApiResponse<{ result: { status: 'SENT' | 'QUEUED'; outboxId: string; messageId?: string; warning?: string; error?: string } }>> =>
+    ipcRenderer.invoke('email:retry', outboxId),
+  renderInvoiceEmail: (data: { billId: string; templateId?: string; subject?: string; htmlBody?: string }): Promise<ApiResponse<{ subject: string; html: string }>> =>
+    ipcRenderer.invoke('email:render', data),
+  sendQuoteEmail: (data: { quoteId: string; templateId?: string; subject?: string; htmlBody?: string; attachPdf?: boolean }): Promise<ApiResponse> =>
+    ipcRenderer.invoke('email:sendQuote', data),
+  renderQuoteEmail: (data: { quoteId: string; templateId?: string; subject?: string; htmlBody?: string }): Promise<ApiResponse<{ subject: string; html: string }>> =>
+    ipcRenderer.invoke('email:renderQuote', data),
+  getEmailTemplateCatalogue: (): Promise<ApiResponse<TemplateCatalogue>> =>
+    ipcRenderer.invoke('email:getTemplateCatalogue'),
+
+  // Email template library
+  getEmailTemplates: (kind?: EmailTemplateKind): Promise<ApiResponse<{ templates: EmailTemplate[] }>> =>
+    ipcRenderer.invoke('emailTemplate:list', kind),
+  saveEmailTemplate: (template: { id?: string; name: string; kind: EmailTemplateKind; language: string; subjectTemplate: string; bodyTemplate: string }): Promise<ApiResponse<{ id: string }>> =>
+    ipcRenderer.invoke('emailTemplate:save', template),
+  deleteEmailTemplate: (id: string): Promise<ApiResponse> =>
+    ipcRenderer.invoke('emailTemplate:delete', id),
+  getEmailTemplateVersions: (id: string): Promise<ApiResponse<{ versions: EmailTemplateVersion[] }>> =>
+    ipcRenderer.invoke('emailTemplate:versions', id),
+  restoreEmailTemplateVersion: (id: string, version: number): Promise<ApiResponse> =>
+    ipcRenderer.invoke('emailTemplate:restoreVersion', id, version),
 
   // Supabase / Sync
   getSupabaseConfig: (): Promise<ApiResponse<{ config: { url: string | null; key: string | null; enabled: boolean; lastSyncAt?: string | null } }>> =>
@@ -233,6 +763,24 @@ const api = {
     ipcRenderer.invoke('automation:toggleRule', id),
   getDueAutomationRules: (): Promise<ApiResponse<{ rules: any[] }>> =>
     ipcRenderer.invoke('automation:getDueRules'),
+  getPendingAutomationRuns: (): Promise<ApiResponse<{ runs: AutomationRun[] }>> =>
+    ipcRenderer.invoke('automation:getPendingRuns'),
+  confirmAutomationRun: (runId: string): Promise<ApiResponse<{ invoiceId?: string; awaitingApproval: boolean }>> =>
+    ipcRenderer.invoke('automation:confirmRun', runId),
+  skipAutomationRun: (runId: string): Promise<ApiResponse> =>
+    ipcRenderer.invoke('automation:skipRun', runId),
+  getAutomationApprovals: (): Promise<ApiResponse<{ approvals: AutomationApproval[] }>> =>
+    ipcRenderer.invoke('automation:getApprovals'),
+  countAutomationApprovals: (): Promise<ApiResponse<{ count: number }>> =>
+    ipcRenderer.invoke('automation:countApprovals'),
+  approveAutomationRun: (runId: string): Promise<ApiResponse<{ invoiceId?: string }>> =>
+    ipcRenderer.invoke('automation:approveRun', runId),
+  rejectAutomationRun: (runId: string): Promise<ApiResponse> =>
+    ipcRenderer.invoke('automation:rejectRun', runId),
+  previewAutomationRule: (ruleId: string, date?: string): Promise<ApiResponse<AutomationPreview>> =>
+    ipcRenderer.invoke('automation:preview', { ruleId, date }),
+  simulateAutomationRule: (ruleId: string, months?: number): Promise<ApiResponse<AutomationSimulation>> =>
+    ipcRenderer.invoke('automation:simulate', ruleId, months),
 
   // AI operations (unified)
   analyzeDocument: (input: { filePath: string; documentType: 'expense' | 'bill'; extractionFields?: string[] }): Promise<ApiResponse<{ backend: 'local' | 'openai' | 'ollama'; confidence: number; fields: any }>> =>
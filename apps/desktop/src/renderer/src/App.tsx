@@ -13,10 +13,23 @@ import BillsPage from './pages/bills'
 import BillsNewPage from './pages/bills/New'
 import BillsEditPage from './pages/bills/Edit'
 import BillsViewPage from './pages/bills/View'
+import QuotesPage from './pages/quotes'
+import QuotesFormPage from './pages/quotes/New'
+import QuotesViewPage from './pages/quotes/View'
+import TimePage from './pages/time'
+import TimeBillPage from './pages/time/Bill'
+import ProjectsPage from './pages/projects'
+import ProjectsFormPage from './pages/projects/New'
 import ExpensesPage from './pages/expenses'
 import ExpensesViewPage from './pages/expenses/View'
+import ExpensesBillPage from './pages/expenses/Bill'
 import SettingsPage from './pages/settings'
 import SettingsMyDataPage from './pages/settings/MyData'
+import SettingsTaxRatesPage from './pages/settings/TaxRates'
+import SettingsNumberingPage from './pages/settings/Numbering'
+import SettingsRemindersPage from './pages/settings/Reminders'
+import SettingsEmailTemplatesPage from './pages/settings/EmailTemplates'
+import SettingsCurrenciesPage from './pages/settings/Currencies'
 import AutomationPage from './pages/automation'
 
 function App() {
@@ -54,11 +67,26 @@ function App() {
                     <Route path="/bills/:id/view" element={<BillsViewPage />} />
                     <Route path="/bills/:id/edit" element={<BillsEditPage />} />
                     <Route path="/bills/:id" element={<BillsEditPage />} />
+                    <Route path="/quotes" element={<QuotesPage />} />
+                    <Route path="/quotes/new" element={<QuotesFormPage />} />
+                    <Route path="/quotes/:id/view" element={<QuotesViewPage />} />
+                    <Route path="/quotes/:id/edit" element={<QuotesFormPage />} />
+                    <Route path="/time" element={<TimePage />} />
+                    <Route path="/time/bill" element={<TimeBillPage />} />
+                    <Route path="/projects" element={<ProjectsPage />} />
+                    <Route path="/projects/new" element={<ProjectsFormPage />} />
+                    <Route path="/projects/:id/edit" element={<ProjectsFormPage />} />
                     <Route path="/expenses" element={<ExpensesPage />} />
                     <Route path="/expenses/:id/view" element={<ExpensesViewPage />} />
+                    <Route path="/expenses/bill" element={<ExpensesBillPage />} />
                     <Route path="/automation" element={<AutomationPage />} />
                     <Route path="/settings" element={<SettingsPage />} />
                     <Route path="/settings/my-data" element={<SettingsMyDataPage />} />
+                    <Route path="/settings/tax-rates" element={<SettingsTaxRatesPage />} />
+                    <Route path="/settings/numbering" element={<SettingsNumberingPage />} />
+                    <Route path="/settings/reminders" element={<SettingsRemindersPage />} />
+                    <Route path="/settings/email-templates" element={<SettingsEmailTemplatesPage />} />
+                    <Route path="/settings/currencies" element={<SettingsCurrenciesPage />} />
                   </Routes>
                 </main>
               </div>
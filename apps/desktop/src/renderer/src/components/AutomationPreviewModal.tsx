@@ -0,0 +1,234 @@
+import { useEffect, useState } from 'react'
+
+interface AutomationPreviewModalProps {
+  isOpen: boolean
+  onClose: () => void
+  rule: { id: string; name: string; nextDueDate?: string } | null
+}
+
+interface Preview {
+  issueDate: string
+  number: string
+  totals: { subtotal: string; taxAmount: string; withholdingAmount: string; total: string }
+  currency: string
+  to: string[]
+  cc: string[]
+  subject: string
+  html: string
+  dataUrl: string
+}
+
+interface Simulation {
+  from: string
+  until: string
+  currency: string
+  total: string
+  occurrences: string[]
+}
+
+const MONTH_FORMAT = new Intl.DateTimeFormat('ca-ES', { month: 'long', year: 'numeric', timeZone: 'UTC' })
+
+function formatCurrency(amount: string | number, currency: string) {
+  try {
+    return new Intl.NumberFormat('ca-ES', { style: 'currency', currency }).format(Number(amount))
+  } catch {
+    return `${amount} ${currency}`
+  }
+}
+
+function formatDate(date: string) {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString('ca-ES', { timeZone: 'UTC' })
+}
+
+// The months covered by the simulation, each with the dates it would invoice
+function monthsOf(simulation: Simulation): Array<{ key: string; label: string; dates: string[] }> {
+  const months: Array<{ key: string; label: string; dates: string[] }> = []
+  const cursor = new Date(`${simulation.from.slice(0, 7)}-01T00:00:00Z`)
+  while (cursor.toISOString().slice(0, 7) <= simulation.until.slice(0, 7)) {
+    const key = cursor.toISOString().slice(0, 7)
+    months.push({ key, label: MONTH_FORMAT.format(cursor), dates: simulation.occurrences.filter(d => d.startsWith(key)) })
+    cursor.setUTCMonth(cursor.getUTCMonth() + 1)
+  }
+  return months
+}
+
+export function AutomationPreviewModal({ isOpen, onClose, rule }: AutomationPreviewModalProps) {
+  const [date, setDate] = useState('')
+  const [preview, setPreview] = useState<Preview | null>(null)
+  const [simulation, setSimulation] = useState<Simulation | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!isOpen || !rule) return
+    setDate(rule.nextDueDate || new Date().toISOString().slice(0, 10))
+    setPreview(null)
+    setSimulation(null)
+    setError(null)
+    const load = async () => {
+      if (!window.api) return
+      const result = await window.api.simulateAutomationRule(rule.id, 12)
+      if (result.error) {
+        setError(result.error.message)
+      } else {
+        setSimulation(result as unknown as Simulation)
+      }
+    }
+    load()
+  }, [isOpen, rule])
+
+  useEffect(() => {
+    if (!isOpen || !rule || !date) return
+    let active = true
+    const load = async () => {
+      if (!window.api) return
+      setLoading(true)
+      try {
+        const result = await window.api.previewAutomationRule(rule.id, date)
+        if (!active) return
+        if (result.error) {
+          setError(result.error.message)
+        } else {
+          setError(null)
+          setPreview(result as unknown as Preview)
+        }
+      } finally {
+        if (active) setLoading(false)
+      }
+    }
+    load()
+    return () => {
+      active = false
+    }
+  }, [isOpen, rule, date])
+
+  if (!isOpen || !rule) return null
+
+  const months = simulation ? monthsOf(simulation) : []
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg w-full max-w-6xl max-h-[90vh] overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700 flex items-center gap-4">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100">
+              Preview: {rule.name}
+            </h2>
+            <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+              Nothing is created or sent from this preview.
+            </p>
+          </div>
+          <label className="ml-auto text-sm text-gray-700 dark:text-gray-300 flex items-center gap-2">
+            Run on
+            <input
+              type="date"
+              value={date}
+              onChange={(e) => setDate(e.target.value)}
+              className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md
+                focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400
+                bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+            />
+          </label>
+        </div>
+
+        <div className="px-6 py-4 max-h-[70vh] overflow-y-auto space-y-6">
+          {error && (
+            <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-md p-3">
+              <p className="text-sm text-red-800 dark:text-red-200">❌ {error}</p>
+            </div>
+          )}
+
+          {preview && (
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <div className="space-y-3 text-sm text-gray-700 dark:text-gray-300">
+                <div className="grid grid-cols-[120px_1fr] gap-y-1">
+                  <span className="text-gray-500">Invoice number</span>
+                  <span className="font-medium">{preview.number}</span>
+                  <span className="text-gray-500">Issue date</span>
+                  <span>{formatDate(preview.issueDate)}</span>
+                  <span className="text-gray-500">Total</span>
+                  <span className="font-medium">{formatCurrency(preview.totals.total, preview.currency)}</span>
+                  <span className="text-gray-500">To</span>
+                  <span>{preview.to.join(', ') || '—'}</span>
+                  {preview.cc.length > 0 && (
+                    <>
+                      <span className="text-gray-500">CC</span>
+                      <span>{preview.cc.join(', ')}</span>
+                    </>
+                  )}
+                  <span className="text-gray-500">Subject</span>
+                  <span className="font-medium">{preview.subject}</span>
+                </div>
+                <iframe
+                  srcDoc={preview.html}
+                  sandbox=""
+                  className="w-full h-64 rounded-md border border-gray-200 dark:border-gray-700 bg-white"
+                  title="Email Preview"
+                />
+                <p className="text-xs text-gray-500">
+                  The number is the next one of the default series today; it may change if other invoices are issued before the run.
+                </p>
+              </div>
+              <iframe
+                src={preview.dataUrl}
+                className="w-full h-[60vh] rounded-lg border"
+                title="Invoice Preview"
+              />
+            </div>
+          )}
+          {!preview && loading && (
+            <div className="text-sm text-gray-500">Generating preview...</div>
+          )}
+
+          {simulation && (
+            <div>
+              <div className="flex items-baseline gap-3 mb-3">
+                <h3 className="text-base font-semibold text-gray-900 dark:text-gray-100">Next 12 months</h3>
+                <span className="text-sm text-gray-600 dark:text-gray-400">
+                  {simulation.occurrences.length} invoice(s), {formatCurrency(Number(simulation.total) * simulation.occurrences.length, simulation.currency)} in total
+                </span>
+              </div>
+              <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-6 gap-2">
+                {months.map(month => (
+                  <div
+                    key={month.key}
+                    className={`rounded-md border p-2 text-sm ${month.dates.length > 0
+                      ? 'border-blue-200 bg-blue-50 dark:border-blue-800 dark:bg-blue-900/20'
+                      : 'border-gray-200 dark:border-gray-700'}`}
+                  >
+                    <div className="font-medium text-gray-900 dark:text-gray-100 capitalize">{month.label}</div>
+                    {month.dates.length === 0 ? (
+                      <div className="text-xs text-gray-500">—</div>
+                    ) : (
+                      month.dates.map(d => (
+                        <button
+                          key={d}
+                          type="button"
+                          onClick={() => setDate(d)}
+                          className={`block text-xs text-left hover:underline ${d === date ? 'font-semibold text-blue-700 dark:text-blue-300' : 'text-gray-700 dark:text-gray-300'}`}
+                        >
+                          {formatDate(d)} · {formatCurrency(simulation.total, simulation.currency)}
+                        </button>
+                      ))
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="px-6 py-4 border-t border-gray-200 dark:border-gray-700 flex justify-end">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-600
+              hover:bg-gray-200 dark:hover:bg-gray-500 rounded-md transition-colors"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
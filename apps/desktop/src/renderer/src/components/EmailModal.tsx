@@ -1,8 +1,9 @@
-import { useState, useEffect } from 'react'
+import { Fragment, useState, useEffect } from 'react'
 
 interface Bill {
   id: string
   number: string
+  clientId?: string
   clientName: string
   clientEmail?: string
   amount: string
@@ -10,63 +11,147 @@ interface Bill {
   filePath?: string
 }
 
+interface TemplateCatalogue {
+  variables: Array<{ name: string; description: string; example: string }>
+  lineVariables: Array<{ name: string; description: string; example: string }>
+  helpers: Array<{ name: string; usage: string; description: string }>
+}
+
+interface LibraryTemplate {
+  id: string
+  name: string
+  kind: 'INVOICE' | 'REMINDER' | 'PAYMENT_THANKS' | 'CREDIT_NOTE' | 'QUOTE'
+  language: string
+  subjectTemplate: string
+  bodyTemplate: string
+}
+
+const KIND_LABELS: Record<LibraryTemplate['kind'], string> = {
+  INVOICE: 'Invoice delivery',
+  REMINDER: 'Payment reminder',
+  PAYMENT_THANKS: 'Payment thank-you',
+  CREDIT_NOTE: 'Credit note',
+  QUOTE: 'Quote'
+}
+
 interface EmailModalProps {
   isOpen: boolean
   onClose: () => void
   bill: Bill | null
+  document?: 'INVOICE' | 'QUOTE' // What `bill` is; quotes are sent with quote templates
+  onSent?: () => void
 }
 
-export function EmailModal({ isOpen, onClose, bill }: EmailModalProps) {
-  const [subject, setSubject] = useState('')
-  const [htmlBody, setHtmlBody] = useState('')
-  const [sending, setSending] = useState(false)
-  const [companyName, setCompanyName] = useState('')
+// Filled in with the invoice, client and company when the email is sent
+const DEFAULT_SUBJECT = 'Factura {{ invoice.number }} - {{ seller.name }}'
 
-  useEffect(() => {
-    if (isOpen && bill) {
-      // Load company profile to get company name
-      loadCompanyProfile()
-      
-      // Set default subject
-      setSubject(`Factura ${bill.number} - ${companyName || 'Your Company'}`)
-      
-      // Set default HTML body
-      setHtmlBody(`
-<p>Estimado/a ${bill.clientName},</p>
+const DEFAULT_BODY = `
+<p>Estimado/a {{ client.name }},</p>
 
-<p>Le adjuntamos la factura <strong>${bill.number}</strong> por un importe de <strong>${formatCurrency(bill.amount, bill.currency)}</strong>.</p>
+<p>Le adjuntamos la factura <strong>{{ invoice.number }}</strong> por un importe de <strong>{{ invoice.total | currency }}</strong>.</p>
 
 <p>Si tiene alguna pregunta sobre esta factura, no dude en contactarnos.</p>
 
 <p>Gracias por su confianza.</p>
 
 <p>Saludos cordiales,<br>
-${companyName || 'Your Company'}</p>
-      `.trim())
+{{ seller.name }}</p>
+`.trim()
+
+// Quotes fill the invoice variables, with their validity date as invoice.dueDate
+const DEFAULT_QUOTE_SUBJECT = 'Presupuesto {{ invoice.number }} - {{ seller.name }}'
+
+const DEFAULT_QUOTE_BODY = `
+<p>Estimado/a {{ client.name }},</p>
+
+<p>Le adjuntamos el presupuesto <strong>{{ invoice.number }}</strong> por un importe de <strong>{{ invoice.total | currency }}</strong>, válido hasta el {{ invoice.dueDate | date "long" }}.</p>
+
+<p>Quedamos a su disposición para cualquier aclaración.</p>
+
+<p>Saludos cordiales,<br>
+{{ seller.name }}</p>
+`.trim()
+
+export function EmailModal({ isOpen, onClose, bill, document = 'INVOICE', onSent }: EmailModalProps) {
+  const isQuote = document === 'QUOTE'
+  const defaultSubject = isQuote ? DEFAULT_QUOTE_SUBJECT : DEFAULT_SUBJECT
+  const defaultBody = isQuote ? DEFAULT_QUOTE_BODY : DEFAULT_BODY
+  const [subject, setSubject] = useState('')
+  const [htmlBody, setHtmlBody] = useState('')
+  const [sending, setSending] = useState(false)
+  const [catalogue, setCatalogue] = useState<TemplateCatalogue | null>(null)
+  const [library, setLibrary] = useState<LibraryTemplate[]>([])
+  const [templateId, setTemplateId] = useState('')
+  const [showVariables, setShowVariables] = useState(false)
+  const [preview, setPreview] = useState<{ subject: string; html: string } | null>(null)
+  const [previewError, setPreviewError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (isOpen && bill) {
+      setSubject(defaultSubject)
+      setHtmlBody(defaultBody)
+      setTemplateId('')
+      setPreview(null)
+      setPreviewError(null)
+      loadCatalogue()
+      loadLibrary()
     }
-  }, [isOpen, bill, companyName])
+  }, [isOpen, bill])
 
-  const loadCompanyProfile = async () => {
+  // Start from the first template of the document's kind in the client's language, else any
+  const loadLibrary = async () => {
     try {
       if (!window.api) return
-      const result = await window.api.getCompanyProfile()
-      if (!result.error && result.profile?.name) {
-        setCompanyName(result.profile.name)
+      const result = await window.api.getEmailTemplates()
+      if (!result.error) {
+        const templates = (result.templates || []) as LibraryTemplate[]
+        setLibrary(templates)
+        const clientRes = bill?.clientId ? await window.api.getClient(bill.clientId) : null
+        const language = clientRes?.client?.language || 'ca'
+        const invoiceTemplates = templates.filter(t => t.kind === document)
+        const first = invoiceTemplates.find(t => t.language.slice(0, 2) === language) || invoiceTemplates[0]
+        if (first) applyTemplate(first)
       }
     } catch (error) {
-      console.error('Failed to load company profile:', error)
+      console.error('Failed to load email templates:', error)
     }
   }
 
-  const formatCurrency = (amount: string, currency: string) => {
+  const applyTemplate = (template: LibraryTemplate | undefined) => {
+    setTemplateId(template?.id || '')
+    setSubject(template?.subjectTemplate || defaultSubject)
+    setHtmlBody(template?.bodyTemplate || defaultBody)
+    setPreview(null)
+    setPreviewError(null)
+  }
+
+  const loadCatalogue = async () => {
     try {
-      const value = parseFloat(amount)
-      return new Intl.NumberFormat('ca-ES', {
-        style: 'currency',
-        currency: currency
-      }).format(value)
-    } catch {
-      return `${amount} ${currency}`
+      if (!window.api) return
+      const result = await window.api.getEmailTemplateCatalogue()
+      if (!result.error) {
+        setCatalogue(result as unknown as TemplateCatalogue)
+      }
+    } catch (error) {
+      console.error('Failed to load template variables:', error)
+    }
+  }
+
+  const handlePreview = async () => {
+    if (!bill || !window.api) return
+    if (preview) {
+      setPreview(null)
+      return
+    }
+    const email = { templateId: templateId || undefined, subject, htmlBody }
+    const result = isQuote
+      ? await window.api.renderQuoteEmail({ quoteId: bill.id, ...email })
+      : await window.api.renderInvoiceEmail({ billId: bill.id, ...email })
+    if (result.error) {
+      setPreviewError(result.error.message)
+    } else {
+      setPreviewError(null)
+      setPreview(result as unknown as { subject: string; html: string })
     }
   }
 
@@ -81,17 +166,21 @@ ${companyName || 'Your Company'}</p>
     setSending(true)
     
     try {
-      const result = await window.api.sendInvoiceEmail({
-        billId: bill.id,
-        subject,
-        htmlBody,
-        attachmentPath: bill.filePath
-      })
+      const email = { templateId: templateId || undefined, subject, htmlBody }
+      const result = isQuote
+        ? await window.api.sendQuoteEmail({ quoteId: bill.id, ...email, attachPdf: !!bill.filePath })
+        : await window.api.sendInvoiceEmail({ billId: bill.id, ...email, attachmentPath: bill.filePath })
       
       if (result.error) {
         alert(`Failed to send email: ${result.error.message}`)
+      } else if (result.queued) {
+        alert(`The email could not be sent right now (${result.message}). It has been queued and will be retried automatically.`)
+        onClose()
       } else {
-        alert(`Email sent successfully to ${bill.clientEmail}`)
+        alert(result.warning
+          ? `Email sent to ${bill.clientEmail}. ${result.warning}`
+          : `Email sent successfully to ${bill.clientEmail}`)
+        onSent?.()
         onClose()
       }
     } catch (error) {
@@ -104,6 +193,7 @@ ${companyName || 'Your Company'}</p>
   const handleCancel = () => {
     setSubject('')
     setHtmlBody('')
+    setPreview(null)
     onClose()
   }
 
@@ -114,7 +204,7 @@ ${companyName || 'Your Company'}</p>
       <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg w-full max-w-2xl max-h-[90vh] overflow-hidden">
         <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700">
           <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100">
-            Send Invoice via Email
+            {isQuote ? 'Send Quote via Email' : 'Send Invoice via Email'}
           </h2>
           <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
             To: {bill.clientEmail || 'No email available'}
@@ -131,6 +221,34 @@ ${companyName || 'Your Company'}</p>
               </div>
             )}
             
+            {library.length > 0 && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  Template
+                </label>
+                <select
+                  value={templateId}
+                  onChange={(e) => applyTemplate(library.find(t => t.id === e.target.value))}
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md 
+                    focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400
+                    bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+                  disabled={!bill.clientEmail}
+                >
+                  <option value="">Custom</option>
+                  {(Object.keys(KIND_LABELS) as LibraryTemplate['kind'][]).map(kind => {
+                    const templates = library.filter(t => t.kind === kind)
+                    return templates.length > 0 && (
+                      <optgroup key={kind} label={KIND_LABELS[kind]}>
+                        {templates.map(t => (
+                          <option key={t.id} value={t.id}>{t.name} ({t.language})</option>
+                        ))}
+                      </optgroup>
+                    )
+                  })}
+                </select>
+              </div>
+            )}
+
             <div>
               <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
                 Subject
@@ -138,7 +256,7 @@ ${companyName || 'Your Company'}</p>
               <input
                 type="text"
                 value={subject}
-                onChange={(e) => setSubject(e.target.value)}
+                onChange={(e) => { setSubject(e.target.value); setPreview(null) }}
                 className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md 
                   focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400
                   bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
@@ -147,25 +265,95 @@ ${companyName || 'Your Company'}</p>
             </div>
             
             <div>
-              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-                Email Body (HTML)
-              </label>
-              <textarea
-                value={htmlBody}
-                onChange={(e) => setHtmlBody(e.target.value)}
-                rows={12}
-                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md 
-                  focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400
-                  bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100
-                  font-mono text-sm resize-none"
-                disabled={!bill.clientEmail}
-              />
+              <div className="flex items-center justify-between mb-1">
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                  Email Body (HTML)
+                </label>
+                <div className="flex gap-3 text-xs">
+                  <button
+                    type="button"
+                    onClick={() => setShowVariables(!showVariables)}
+                    className="text-blue-600 dark:text-blue-400 hover:underline"
+                  >
+                    {showVariables ? 'Hide variables' : 'Variables'}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={handlePreview}
+                    className="text-blue-600 dark:text-blue-400 hover:underline"
+                  >
+                    {preview ? 'Edit' : 'Preview'}
+                  </button>
+                </div>
+              </div>
+              {preview ? (
+                <div className="space-y-2">
+                  <p className="text-sm text-gray-700 dark:text-gray-300">
+                    <span className="text-gray-500">Subject:</span> <span className="font-medium">{preview.subject}</span>
+                  </p>
+                  <iframe
+                    srcDoc={preview.html}
+                    sandbox=""
+                    className="w-full h-64 rounded-md border border-gray-200 dark:border-gray-700 bg-white"
+                    title="Email Preview"
+                  />
+                </div>
+              ) : (
+                <textarea
+                  value={htmlBody}
+                  onChange={(e) => { setHtmlBody(e.target.value); setPreviewError(null) }}
+                  rows={12}
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md 
+                    focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400
+                    bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100
+                    font-mono text-sm resize-none"
+                  disabled={!bill.clientEmail}
+                />
+              )}
+              {previewError && (
+                <p className="mt-1 text-sm text-red-600 dark:text-red-400">{previewError}</p>
+              )}
             </div>
+
+            {showVariables && catalogue && (
+              <div className="bg-gray-50 dark:bg-gray-900/40 border border-gray-200 dark:border-gray-700 rounded-md p-3 text-xs text-gray-700 dark:text-gray-300 space-y-2">
+                <p>
+                  Insert values with <code>{'{{ client.name }}'}</code>, format them with helpers such as <code>{'{{ invoice.total | currency }}'}</code>,
+                  and use <code>{'{{#if invoice.description}}...{{/if}}'}</code> or <code>{'{{#each invoice.lines}}...{{/each}}'}</code>.
+                </p>
+                <div className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-0.5">
+                  {catalogue.variables.map(variable => (
+                    <Fragment key={variable.name}>
+                      <code>{variable.name}</code>
+                      <span className="text-gray-500">{variable.description}</span>
+                    </Fragment>
+                  ))}
+                </div>
+                <p className="font-medium">Inside {'{{#each invoice.lines}}'}</p>
+                <div className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-0.5">
+                  {catalogue.lineVariables.map(variable => (
+                    <Fragment key={variable.name}>
+                      <code>{variable.name}</code>
+                      <span className="text-gray-500">{variable.description}</span>
+                    </Fragment>
+                  ))}
+                </div>
+                <p className="font-medium">Helpers</p>
+                <div className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-0.5">
+                  {catalogue.helpers.map(helper => (
+                    <Fragment key={helper.name}>
+                      <code>{helper.usage}</code>
+                      <span className="text-gray-500">{helper.description}</span>
+                    </Fragment>
+                  ))}
+                </div>
+              </div>
+            )}
             
             {bill.filePath && (
               <div className="bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-md p-3">
                 <p className="text-sm text-blue-800 dark:text-blue-200">
-                  📎 The PDF invoice will be attached to this email.
+                  📎 The PDF {isQuote ? 'quote' : 'invoice'} will be attached to this email.
                 </p>
               </div>
             )}
@@ -0,0 +1,227 @@
+export interface InvoiceLineDraft {
+  key: string
+  id?: string // Stored line being edited; kept so what it bills stays billed
+  description: string
+  quantity: string
+  unit: string
+  unitPrice: string
+  discount: string
+  taxRateId: string // '' inherits the invoice tax rate
+}
+
+export interface TaxRateOption {
+  id: string
+  name: string
+  rate: string
+  kind: 'STANDARD' | 'REDUCED' | 'EXEMPT' | 'WITHHOLDING'
+}
+
+export interface InvoiceTotalsView {
+  subtotal: string
+  total: string
+  breakdown: Array<{ name: string; rate: string; kind: string; amount: string }>
+}
+
+let draftCounter = 0
+
+export function createLineDraft(partial: Partial<Omit<InvoiceLineDraft, 'key'>> = {}): InvoiceLineDraft {
+  draftCounter += 1
+  return {
+    key: `line-${Date.now()}-${draftCounter}`,
+    description: '',
+    quantity: '1',
+    unit: '',
+    unitPrice: '',
+    discount: '',
+    taxRateId: '',
+    ...partial
+  }
+}
+
+// Map lines returned by bill:get into editable drafts
+export function linesToDrafts(lines: Array<{ id?: string; description: string; quantity: string; unit?: string | null; unitPrice: string; discount?: string | null; taxRateId?: string | null }>): InvoiceLineDraft[] {
+  return lines.map(line => createLineDraft({
+    id: line.id,
+    description: line.description,
+    quantity: String(parseFloat(line.quantity)),
+    unit: line.unit || '',
+    unitPrice: line.unitPrice,
+    discount: parseFloat(line.discount || '0') ? String(parseFloat(line.discount as string)) : '',
+    taxRateId: line.taxRateId || ''
+  }))
+}
+
+function isNumber(value: string): boolean {
+  return value.trim() !== '' && !isNaN(Number(value))
+}
+
+// Only complete lines are sent to the main process
+export function draftsToLineInputs(drafts: InvoiceLineDraft[]) {
+  return drafts
+    .filter(d => d.description.trim() && isNumber(d.unitPrice))
+    .map(d => ({
+      id: d.id,
+      description: d.description.trim(),
+      quantity: isNumber(d.quantity) ? d.quantity : '1',
+      unit: d.unit.trim() || null,
+      unitPrice: d.unitPrice,
+      discount: isNumber(d.discount) ? d.discount : null,
+      taxRateId: d.taxRateId || null
+    }))
+}
+
+export function validateLineDrafts(drafts: InvoiceLineDraft[]): string[] {
+  const errors: string[] = []
+  const filled = drafts.filter(d => d.description.trim() || d.unitPrice.trim())
+  if (filled.length === 0) errors.push('At least one invoice line is required')
+  filled.forEach((d, idx) => {
+    const label = `Line ${idx + 1}`
+    if (!d.description.trim()) errors.push(`${label}: description is required`)
+    if (!isNumber(d.unitPrice)) errors.push(`${label}: unit price must be a valid number`)
+    if (d.quantity.trim() && !isNumber(d.quantity)) errors.push(`${label}: quantity must be a valid number`)
+    if (d.discount.trim() && !isNumber(d.discount)) errors.push(`${label}: discount must be a valid number`)
+  })
+  return errors
+}
+
+// Display-only estimate; the main process recomputes totals when saving
+function lineNet(d: InvoiceLineDraft): number {
+  const qty = isNumber(d.quantity) ? Number(d.quantity) : 1
+  const price = isNumber(d.unitPrice) ? Number(d.unitPrice) : 0
+  const discount = isNumber(d.discount) ? Number(d.discount) : 0
+  return Math.round(qty * price * (1 - discount / 100) * 100) / 100
+}
+
+function formatMoney(value: number, currency: string): string {
+  try {
+    return new Intl.NumberFormat('ca-ES', { style: 'currency', currency }).format(value)
+  } catch {
+    return `${value.toFixed(2)} ${currency}`
+  }
+}
+
+interface InvoiceLinesEditorProps {
+  lines: InvoiceLineDraft[]
+  currency: string
+  taxRates: TaxRateOption[]
+  totals?: InvoiceTotalsView | null // Computed by the main process (preview)
+  onChange: (lines: InvoiceLineDraft[]) => void
+  onBlur?: () => void
+}
+
+const inputClass = 'w-full p-2 rounded-lg text-sm bg-background text-foreground placeholder-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary/20 transition-all'
+
+export function InvoiceLinesEditor({ lines, currency, taxRates, totals, onChange, onBlur }: InvoiceLinesEditorProps) {
+  const updateLine = (key: string, field: keyof Omit<InvoiceLineDraft, 'key'>, value: string) => {
+    onChange(lines.map(l => (l.key === key ? { ...l, [field]: value } : l)))
+  }
+
+  const removeLine = (key: string) => {
+    const next = lines.filter(l => l.key !== key)
+    onChange(next.length ? next : [createLineDraft()])
+  }
+
+  const moveLine = (index: number, delta: number) => {
+    const target = index + delta
+    if (target < 0 || target >= lines.length) return
+    const next = [...lines]
+    const [moved] = next.splice(index, 1)
+    next.splice(target, 0, moved)
+    onChange(next)
+  }
+
+  const subtotal = lines.reduce((sum, l) => sum + lineNet(l), 0)
+  const lineTaxRates = taxRates.filter(r => r.kind !== 'WITHHOLDING')
+  const appliedTaxes = (totals?.breakdown || []).filter(entry => parseFloat(entry.amount) !== 0)
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <label className="block text-sm font-medium text-card-foreground">Lines *</label>
+        <button type="button" onClick={() => onChange([...lines, createLineDraft()])} className="btn btn-link text-xs">
+          Add line
+        </button>
+      </div>
+
+      <div className="space-y-3">
+        {lines.map((line, idx) => (
+          <div key={line.key} className="rounded-xl bg-muted/30 p-3">
+            <div className="flex items-start gap-2">
+              <textarea
+                value={line.description}
+                onChange={(e) => updateLine(line.key, 'description', e.target.value)}
+                onBlur={onBlur}
+                placeholder="Description"
+                rows={1}
+                className={`${inputClass} resize-y whitespace-pre-wrap break-words`}
+              />
+              <div className="flex items-center gap-1 shrink-0">
+                <button type="button" onClick={() => moveLine(idx, -1)} disabled={idx === 0} className="btn btn-ghost btn-sm" title="Move up">↑</button>
+                <button type="button" onClick={() => moveLine(idx, 1)} disabled={idx === lines.length - 1} className="btn btn-ghost btn-sm" title="Move down">↓</button>
+                <button type="button" onClick={() => removeLine(line.key)} className="btn btn-ghost btn-sm text-destructive" title="Remove line">✕</button>
+              </div>
+            </div>
+            <div className="grid grid-cols-2 sm:grid-cols-6 gap-2 mt-2 items-end">
+              <div>
+                <div className="text-xs text-muted-foreground mb-1">Qty</div>
+                <input type="number" step="0.001" value={line.quantity} onChange={(e) => updateLine(line.key, 'quantity', e.target.value)} onBlur={onBlur} className={inputClass} />
+              </div>
+              <div>
+                <div className="text-xs text-muted-foreground mb-1">Unit</div>
+                <input type="text" value={line.unit} onChange={(e) => updateLine(line.key, 'unit', e.target.value)} onBlur={onBlur} placeholder="h" className={inputClass} />
+              </div>
+              <div>
+                <div className="text-xs text-muted-foreground mb-1">Unit price</div>
+                <input type="number" step="0.01" value={line.unitPrice} onChange={(e) => updateLine(line.key, 'unitPrice', e.target.value)} onBlur={onBlur} placeholder="0.00" className={inputClass} />
+              </div>
+              <div>
+                <div className="text-xs text-muted-foreground mb-1">Disc. %</div>
+                <input type="number" step="0.01" value={line.discount} onChange={(e) => updateLine(line.key, 'discount', e.target.value)} onBlur={onBlur} placeholder="0" className={inputClass} />
+              </div>
+              <div>
+                <div className="text-xs text-muted-foreground mb-1">Tax</div>
+                <select value={line.taxRateId} onChange={(e) => updateLine(line.key, 'taxRateId', e.target.value)} onBlur={onBlur} className={inputClass}>
+                  <option value="">Invoice tax</option>
+                  {lineTaxRates.map(rate => (
+                    <option key={rate.id} value={rate.id}>{rate.name}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="text-right text-sm font-medium text-card-foreground pb-2">
+                {formatMoney(lineNet(line), currency)}
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="mt-3 space-y-1 text-sm">
+        {totals ? (
+          <>
+            {appliedTaxes.length > 0 && (
+              <div className="flex justify-between text-muted-foreground">
+                <span>Subtotal</span>
+                <span>{formatMoney(parseFloat(totals.subtotal), currency)}</span>
+              </div>
+            )}
+            {appliedTaxes.map((entry, idx) => (
+              <div key={idx} className="flex justify-between text-muted-foreground">
+                <span>{entry.name}</span>
+                <span>{formatMoney(parseFloat(entry.amount), currency)}</span>
+              </div>
+            ))}
+            <div className="flex justify-between font-semibold text-card-foreground">
+              <span>Total</span>
+              <span>{formatMoney(parseFloat(totals.total), currency)}</span>
+            </div>
+          </>
+        ) : (
+          <div className="flex justify-between font-semibold text-card-foreground">
+            <span>Subtotal</span>
+            <span>{formatMoney(subtotal, currency)}</span>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
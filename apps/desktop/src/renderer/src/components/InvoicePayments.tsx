@@ -0,0 +1,155 @@
+import { useState } from 'react'
+
+export interface PaymentView {
+  id: string
+  date: string
+  amount: string
+  method: string | null
+  reference: string | null
+  notes: string | null
+}
+
+export interface PaymentBalanceView {
+  total: string
+  credited: string
+  paid: string
+  outstanding: string
+  status: string
+}
+
+interface InvoicePaymentsProps {
+  invoiceId: string
+  currency: string
+  payments: PaymentView[]
+  balance: PaymentBalanceView
+  onChange: (payments: PaymentView[], balance: PaymentBalanceView) => void
+}
+
+const METHOD_LABELS: Record<string, string> = {
+  TRANSFER: 'Bank transfer',
+  CARD: 'Card',
+  CASH: 'Cash',
+  DIRECT_DEBIT: 'Direct debit',
+  OTHER: 'Other'
+}
+
+const inputClass = 'w-full p-2 rounded-lg text-sm bg-background text-foreground placeholder-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary/20 transition-all'
+
+function today(): string {
+  return new Date().toISOString().slice(0, 10)
+}
+
+// Payment history, outstanding balance and a form to record instalments
+export function InvoicePayments({ invoiceId, currency, payments, balance, onChange }: InvoicePaymentsProps) {
+  const [date, setDate] = useState(today())
+  const [amount, setAmount] = useState('')
+  const [method, setMethod] = useState('TRANSFER')
+  const [reference, setReference] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const format = (value: string) => `${currency} ${parseFloat(value).toFixed(2)}`
+  const outstanding = parseFloat(balance.outstanding)
+
+  const onRecord = async () => {
+    setSaving(true)
+    setError(null)
+    try {
+      const api: any = window.api
+      const res = await api.recordPayment({
+        invoiceId,
+        date,
+        amount: amount || balance.outstanding,
+        method,
+        reference: reference.trim() || null
+      })
+      if (res.error) throw new Error(res.error.message)
+      setAmount('')
+      setReference('')
+      onChange(res.payments, res.balance)
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to record payment')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const onDelete = async (payment: PaymentView) => {
+    if (!window.confirm(`Delete the payment of ${format(payment.amount)} from ${payment.date}?`)) return
+    const api: any = window.api
+    const res = await api.deletePayment(payment.id)
+    if (res.error) {
+      setError(res.error.message)
+      return
+    }
+    onChange(res.payments, res.balance)
+  }
+
+  return (
+    <div className="space-y-3">
+      {payments.length > 0 && (
+        <table className="w-full text-sm">
+          <tbody>
+            {payments.map(payment => (
+              <tr key={payment.id} className="border-b last:border-0 align-top">
+                <td className="py-2 pr-2 text-card-foreground">{new Date(payment.date).toLocaleDateString()}</td>
+                <td className="py-2 px-2 text-muted-foreground">
+                  {payment.method ? METHOD_LABELS[payment.method] || payment.method : '—'}
+                  {payment.reference && <div className="text-xs">{payment.reference}</div>}
+                  {payment.notes && <div className="text-xs">{payment.notes}</div>}
+                </td>
+                <td className="py-2 px-2 text-right font-medium">{format(payment.amount)}</td>
+                <td className="py-2 pl-2 text-right">
+                  <button type="button" onClick={() => onDelete(payment)} className="btn btn-ghost btn-sm text-destructive">Delete</button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      <div className="space-y-1 text-sm">
+        {parseFloat(balance.credited) > 0 && (
+          <div className="flex justify-between text-muted-foreground">
+            <span>Credited</span>
+            <span>-{format(balance.credited)}</span>
+          </div>
+        )}
+        <div className="flex justify-between text-muted-foreground">
+          <span>Paid</span>
+          <span>{format(balance.paid)}</span>
+        </div>
+        <div className="flex justify-between font-semibold text-card-foreground">
+          <span>Outstanding</span>
+          <span>{format(balance.outstanding)}</span>
+        </div>
+      </div>
+
+      {outstanding > 0 && balance.status !== 'CANCELLED' && (
+        <div className="grid grid-cols-2 sm:grid-cols-5 gap-2 items-end">
+          <input type="date" value={date} onChange={e => setDate(e.target.value)} className={inputClass} />
+          <input
+            type="number"
+            step="0.01"
+            min="0.01"
+            value={amount}
+            placeholder={balance.outstanding}
+            onChange={e => setAmount(e.target.value)}
+            className={inputClass}
+          />
+          <select value={method} onChange={e => setMethod(e.target.value)} className={inputClass}>
+            {Object.entries(METHOD_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+          <input value={reference} onChange={e => setReference(e.target.value)} placeholder="Reference" className={inputClass} />
+          <button type="button" onClick={onRecord} disabled={saving} className="btn btn-primary btn-sm">
+            {saving ? 'Saving...' : 'Record payment'}
+          </button>
+        </div>
+      )}
+
+      {error && <div className="text-destructive text-sm">{error}</div>}
+    </div>
+  )
+}
@@ -0,0 +1,51 @@
+import type { TaxRateOption } from './InvoiceLinesEditor'
+
+interface InvoiceTaxFieldsProps {
+  taxRates: TaxRateOption[]
+  taxRateId: string
+  withholdingRateId: string
+  onChange: (field: 'taxRateId' | 'withholdingRateId', value: string) => void
+}
+
+const selectClass = 'w-full p-3 rounded-xl text-base bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-primary/20 transition-all'
+
+// Invoice-level tax (inherited by lines without their own rate) and optional withholding
+export function InvoiceTaxFields({ taxRates, taxRateId, withholdingRateId, onChange }: InvoiceTaxFieldsProps) {
+  const taxOptions = taxRates.filter(r => r.kind !== 'WITHHOLDING')
+  const withholdingOptions = taxRates.filter(r => r.kind === 'WITHHOLDING')
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+      <div>
+        <label className="block text-sm font-medium mb-2 text-card-foreground">
+          Tax
+        </label>
+        <select
+          value={taxRateId}
+          onChange={(e) => onChange('taxRateId', e.target.value)}
+          className={selectClass}
+        >
+          <option value="">Default rate</option>
+          {taxOptions.map(rate => (
+            <option key={rate.id} value={rate.id}>{rate.name}</option>
+          ))}
+        </select>
+      </div>
+      <div>
+        <label className="block text-sm font-medium mb-2 text-card-foreground">
+          Withholding
+        </label>
+        <select
+          value={withholdingRateId}
+          onChange={(e) => onChange('withholdingRateId', e.target.value)}
+          className={selectClass}
+        >
+          <option value="">None</option>
+          {withholdingOptions.map(rate => (
+            <option key={rate.id} value={rate.id}>{rate.name}</option>
+          ))}
+        </select>
+      </div>
+    </div>
+  )
+}
@@ -1,6 +1,9 @@
+import { useEffect, useState } from "react";
 import { Link, useLocation } from "react-router-dom";
 import logoUrl from "../../logo.png";
 
+export const APPROVALS_CHANGED_EVENT = "automation-approvals-changed";
+
 interface SideNavigationProps {
   isCollapsed: boolean;
   onToggleCollapse: () => void;
@@ -49,6 +52,37 @@ const navigationItems = [
       </svg>
     )
   },
+  {
+    path: "/quotes",
+    label: "Quotes",
+    icon: (
+      <svg className="h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+        <path d="M14 3H7a2 2 0 0 0-2 2v14a2 2 0 0 0 2 2h10a2 2 0 0 0 2-2V8z" strokeWidth={2} />
+        <polyline points="14 3 14 8 19 8" strokeWidth={2} />
+        <line x1="9" y1="13" x2="15" y2="13" strokeWidth={2} />
+        <line x1="9" y1="17" x2="13" y2="17" strokeWidth={2} />
+      </svg>
+    )
+  },
+  {
+    path: "/time",
+    label: "Time",
+    icon: (
+      <svg className="h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+        <circle cx="12" cy="12" r="9" strokeWidth={2} />
+        <polyline points="12 7 12 12 15 14" strokeWidth={2} />
+      </svg>
+    )
+  },
+  {
+    path: "/projects",
+    label: "Projects",
+    icon: (
+      <svg className="h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+        <path d="M3 7a2 2 0 0 1 2-2h4l2 2h8a2 2 0 0 1 2 2v8a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2z" strokeWidth={2} />
+      </svg>
+    )
+  },
   {
     path: "/expenses",
     label: "Expenses",
@@ -76,6 +110,28 @@ const navigationItems = [
 export function SideNavigation({ isCollapsed, onToggleCollapse }: SideNavigationProps) {
   const location = useLocation();
   const isActive = (href: string) => location.pathname === href;
+  const [pendingApprovals, setPendingApprovals] = useState(0);
+
+  // Automated invoices waiting for approval; refreshed on navigation, every
+  // minute and whenever the automation page approves or rejects one
+  useEffect(() => {
+    const loadApprovals = async () => {
+      if (!window.api) return;
+      const result = await window.api.countAutomationApprovals();
+      if (!result.error) {
+        setPendingApprovals(result.count);
+      }
+    };
+    loadApprovals();
+    const interval = setInterval(loadApprovals, 60_000);
+    window.addEventListener(APPROVALS_CHANGED_EVENT, loadApprovals);
+    return () => {
+      clearInterval(interval);
+      window.removeEventListener(APPROVALS_CHANGED_EVENT, loadApprovals);
+    };
+  }, [location.pathname]);
+
+  const badges: Record<string, number> = { "/automation": pendingApprovals };
 
   return (
     <div className={`fixed left-0 top-10 h-screen bg-background z-40 ${
@@ -108,14 +164,25 @@ export function SideNavigation({ isCollapsed, onToggleCollapse }: SideNavigation
                 className={navItemClass(isActive(item.path), isCollapsed)}
                 title={isCollapsed ? item.label : undefined}
               >
-                <div className="flex-shrink-0">
+                <div className="relative flex-shrink-0">
                   {item.icon}
+                  {isCollapsed && badges[item.path] > 0 && (
+                    <span className="absolute -top-1 -right-1 h-2 w-2 rounded-full bg-red-500" />
+                  )}
                 </div>
                 {!isCollapsed && (
                   <span className="transition-opacity duration-300">
                     {item.label}
                   </span>
                 )}
+                {!isCollapsed && badges[item.path] > 0 && (
+                  <span
+                    className="ml-auto min-w-5 px-1.5 rounded-full bg-red-500 text-white text-xs font-medium text-center"
+                    title={`${badges[item.path]} invoice(s) waiting for approval`}
+                  >
+                    {badges[item.path]}
+                  </span>
+                )}
               </Link>
             ))}
           </div>
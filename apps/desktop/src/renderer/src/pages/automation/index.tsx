@@ -1,6 +1,8 @@
 import { useEffect, useState } from 'react'
 import { useNavigate } from 'react-router-dom'
 import { PageHeader } from '../../components/PageHeader'
+import { AutomationPreviewModal } from '../../components/AutomationPreviewModal'
+import { APPROVALS_CHANGED_EVENT } from '../../components/SideNavigation'
 
 interface AutomationRule {
   id: string
@@ -14,6 +16,18 @@ interface AutomationRule {
   description: string
   subjectTemplate: string
   bodyTemplate: string
+  emailTemplateId: string | null
+  emailTemplateName: string | null
+  frequency: Frequency
+  interval: number
+  weekday: number | null
+  monthOfYear: number | null
+  lastBusinessDay: boolean
+  startDate: string
+  endDate: string | null
+  maxOccurrences: number | null
+  occurrenceCount: number
+  requireApproval: boolean
   isActive: boolean
   lastSentDate?: string
   nextDueDate?: string
@@ -21,16 +35,98 @@ interface AutomationRule {
   updatedAt: string
 }
 
+type Frequency = 'WEEKLY' | 'MONTHLY' | 'YEARLY'
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
+const MONTHS = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December']
+const FREQUENCY_UNITS: Record<Frequency, string> = { WEEKLY: 'week', MONTHLY: 'month', YEARLY: 'year' }
+
+// Common schedules; anything else is edited as "Custom"
+const SCHEDULE_PRESETS = [
+  { key: 'weekly', label: 'Weekly', frequency: 'WEEKLY', interval: 1, lastBusinessDay: false },
+  { key: 'biweekly', label: 'Every 2 weeks', frequency: 'WEEKLY', interval: 2, lastBusinessDay: false },
+  { key: 'monthly', label: 'Monthly', frequency: 'MONTHLY', interval: 1, lastBusinessDay: false },
+  { key: 'lastBusinessDay', label: 'Last business day of month', frequency: 'MONTHLY', interval: 1, lastBusinessDay: true },
+  { key: 'quarterly', label: 'Quarterly', frequency: 'MONTHLY', interval: 3, lastBusinessDay: false },
+  { key: 'yearly', label: 'Yearly', frequency: 'YEARLY', interval: 1, lastBusinessDay: false }
+] as const
+
+// Schedule fields of the form; dates and the limit are kept as input strings
+const EMPTY_SCHEDULE = {
+  frequency: 'MONTHLY' as Frequency,
+  interval: 1,
+  weekday: 1,
+  monthOfYear: 1,
+  lastBusinessDay: false,
+  startDate: '',
+  endDate: '',
+  maxOccurrences: ''
+}
+
+function schedulePresetKey(schedule: { frequency: Frequency; interval: number; lastBusinessDay: boolean }): string {
+  const preset = SCHEDULE_PRESETS.find(p =>
+    p.frequency === schedule.frequency && p.interval === schedule.interval && p.lastBusinessDay === schedule.lastBusinessDay)
+  return preset ? preset.key : 'custom'
+}
+
+function describeSchedule(rule: AutomationRule): string {
+  const unit = FREQUENCY_UNITS[rule.frequency] || 'month'
+  const every = rule.interval === 1 ? `Every ${unit}` : `Every ${rule.interval} ${unit}s`
+  const day = rule.lastBusinessDay ? 'last business day' : `day ${rule.dayOfMonth}`
+  switch (rule.frequency) {
+    case 'WEEKLY':
+      return `${every} on ${WEEKDAYS[rule.weekday ?? new Date(rule.startDate).getUTCDay()]}`
+    case 'YEARLY':
+      return `${every}, ${MONTHS[(rule.monthOfYear ?? new Date(rule.startDate).getUTCMonth() + 1) - 1]} ${day}`
+    default:
+      return `${every}, ${day}`
+  }
+}
+
+interface EmailTemplateOption {
+  id: string
+  name: string
+  language: string
+  subjectTemplate: string
+  bodyTemplate: string
+}
+
 interface Client {
   id: string
   name: string
   email?: string
 }
 
+interface AutomationRun {
+  id: string
+  ruleName: string
+  clientName: string | null
+  scheduledDate: string
+  status: 'LATE' | 'FAILED'
+  error: string | null
+}
+
+// A draft created by a rule that requires approval
+interface AutomationApproval {
+  id: string
+  ruleName: string
+  clientName: string | null
+  scheduledDate: string
+  invoiceId: string | null
+  invoiceNumber: string | null
+  amount: string | null
+  currency: string
+}
+
 export default function AutomationPage() {
   const navigate = useNavigate()
   const [rules, setRules] = useState<AutomationRule[]>([])
   const [clients, setClients] = useState<Client[]>([])
+  const [emailTemplates, setEmailTemplates] = useState<EmailTemplateOption[]>([])
+  const [pendingRuns, setPendingRuns] = useState<AutomationRun[]>([])
+  const [approvals, setApprovals] = useState<AutomationApproval[]>([])
+  const [busyRunId, setBusyRunId] = useState<string | null>(null)
+  const [previewRule, setPreviewRule] = useState<AutomationRule | null>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   
@@ -41,22 +137,25 @@ export default function AutomationPage() {
     clientId: '',
     name: '',
     dayOfMonth: 1,
+    ...EMPTY_SCHEDULE,
     amount: '',
     currency: 'EUR',
     description: '',
-    subjectTemplate: 'Factura {invoiceNumber} - {companyName}',
-    bodyTemplate: `<p>Estimado/a {clientName},</p>
+    subjectTemplate: 'Factura {{ invoice.number }} - {{ seller.name }}',
+    bodyTemplate: `<p>Estimado/a {{ client.name }},</p>
 
-<p>Le adjuntamos la factura <strong>{invoiceNumber}</strong> por un importe de <strong>{amount}</strong>.</p>
+<p>Le adjuntamos la factura <strong>{{ invoice.number }}</strong> por un importe de <strong>{{ invoice.total | currency }}</strong>.</p>
 
-<p>Concepto: {description}</p>
+<p>Concepto: {{ invoice.description }}</p>
 
 <p>Si tiene alguna pregunta sobre esta factura, no dude en contactarnos.</p>
 
 <p>Gracias por su confianza.</p>
 
 <p>Saludos cordiales,<br>
-{companyName}</p>`,
+{{ seller.name }}</p>`,
+    emailTemplateId: '',
+    requireApproval: false,
     isActive: true
   })
 
@@ -76,6 +175,30 @@ export default function AutomationPage() {
         setRules(rulesResult.rules || [])
       }
       
+      // Load missed and failed runs waiting for confirmation
+      const runsResult = await window.api.getPendingAutomationRuns()
+      if (runsResult.error) {
+        setError(runsResult.error.message)
+      } else {
+        setPendingRuns((runsResult.runs || []) as AutomationRun[])
+      }
+      
+      // Load drafts waiting for approval
+      const approvalsResult = await window.api.getAutomationApprovals()
+      if (approvalsResult.error) {
+        setError(approvalsResult.error.message)
+      } else {
+        setApprovals(approvalsResult.approvals || [])
+      }
+      
+      // Load the invoice templates of the email library
+      const templatesResult = await window.api.getEmailTemplates('INVOICE')
+      if (templatesResult.error) {
+        setError(templatesResult.error.message)
+      } else {
+        setEmailTemplates(templatesResult.templates || [])
+      }
+      
       // Load clients
       const clientsResult = await window.api.getClients()
       if (clientsResult.error) {
@@ -94,23 +217,43 @@ export default function AutomationPage() {
     setFormData(prev => ({ ...prev, [field]: value }))
   }
 
+  // A library template's wording is also kept on the rule, for when the template is deleted
+  const handleEmailTemplateChange = (templateId: string) => {
+    const template = emailTemplates.find(t => t.id === templateId)
+    setFormData(prev => ({
+      ...prev,
+      emailTemplateId: templateId,
+      ...(template ? { subjectTemplate: template.subjectTemplate, bodyTemplate: template.bodyTemplate } : {})
+    }))
+  }
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     
     if (!window.api) return
     
+    const payload = {
+      ...formData,
+      weekday: formData.frequency === 'WEEKLY' ? formData.weekday : null,
+      monthOfYear: formData.frequency === 'YEARLY' ? formData.monthOfYear : null,
+      startDate: formData.startDate || null,
+      endDate: formData.endDate || null,
+      maxOccurrences: formData.maxOccurrences ? parseInt(formData.maxOccurrences) : null,
+      emailTemplateId: formData.emailTemplateId || null
+    }
+    
     try {
       if (editingRule) {
         const result = await window.api.updateAutomationRule({
           id: editingRule.id,
-          ...formData
+          ...payload
         })
         if (result.error) {
           setError(result.error.message)
           return
         }
       } else {
-        const result = await window.api.createAutomationRule(formData)
+        const result = await window.api.createAutomationRule(payload)
         if (result.error) {
           setError(result.error.message)
           return
@@ -124,22 +267,25 @@ export default function AutomationPage() {
         clientId: '',
         name: '',
         dayOfMonth: 1,
+        ...EMPTY_SCHEDULE,
         amount: '',
         currency: 'EUR',
         description: '',
-        subjectTemplate: 'Factura {invoiceNumber} - {companyName}',
-        bodyTemplate: `<p>Estimado/a {clientName},</p>
+        subjectTemplate: 'Factura {{ invoice.number }} - {{ seller.name }}',
+        bodyTemplate: `<p>Estimado/a {{ client.name }},</p>
 
-<p>Le adjuntamos la factura <strong>{invoiceNumber}</strong> por un importe de <strong>{amount}</strong>.</p>
+<p>Le adjuntamos la factura <strong>{{ invoice.number }}</strong> por un importe de <strong>{{ invoice.total | currency }}</strong>.</p>
 
-<p>Concepto: {description}</p>
+<p>Concepto: {{ invoice.description }}</p>
 
 <p>Si tiene alguna pregunta sobre esta factura, no dude en contactarnos.</p>
 
 <p>Gracias por su confianza.</p>
 
 <p>Saludos cordiales,<br>
-{companyName}</p>`,
+{{ seller.name }}</p>`,
+        emailTemplateId: '',
+        requireApproval: false,
         isActive: true
       })
       
@@ -150,21 +296,87 @@ export default function AutomationPage() {
   }
 
   const handleEdit = (rule: AutomationRule) => {
+    const template = emailTemplates.find(t => t.id === rule.emailTemplateId)
     setEditingRule(rule)
     setFormData({
       clientId: rule.clientId,
       name: rule.name,
       dayOfMonth: rule.dayOfMonth,
+      frequency: rule.frequency,
+      interval: rule.interval,
+      weekday: rule.weekday ?? new Date(rule.startDate).getUTCDay(),
+      monthOfYear: rule.monthOfYear ?? new Date(rule.startDate).getUTCMonth() + 1,
+      lastBusinessDay: rule.lastBusinessDay,
+      startDate: rule.startDate || '',
+      endDate: rule.endDate || '',
+      maxOccurrences: rule.maxOccurrences ? String(rule.maxOccurrences) : '',
       amount: rule.amount,
       currency: rule.currency,
       description: rule.description,
-      subjectTemplate: rule.subjectTemplate,
-      bodyTemplate: rule.bodyTemplate,
+      subjectTemplate: template?.subjectTemplate ?? rule.subjectTemplate,
+      bodyTemplate: template?.bodyTemplate ?? rule.bodyTemplate,
+      emailTemplateId: rule.emailTemplateId || '',
+      requireApproval: rule.requireApproval,
       isActive: rule.isActive
     })
     setShowForm(true)
   }
 
+  const handleSchedulePreset = (key: string) => {
+    const preset = SCHEDULE_PRESETS.find(p => p.key === key)
+    if (!preset) return
+    setFormData(prev => ({
+      ...prev,
+      frequency: preset.frequency,
+      interval: preset.interval,
+      lastBusinessDay: preset.lastBusinessDay
+    }))
+  }
+
+  const handleRun = async (run: AutomationRun, action: 'confirm' | 'skip') => {
+    if (!window.api) return
+    if (action === 'skip' && !confirm(`Skip the ${formatDate(run.scheduledDate)} invoice of "${run.ruleName}"? It won't be sent.`)) return
+    
+    setBusyRunId(run.id)
+    try {
+      const result = action === 'confirm'
+        ? await window.api.confirmAutomationRun(run.id)
+        : await window.api.skipAutomationRun(run.id)
+      if (result.error) {
+        setError(result.error.message)
+      }
+      await loadData()
+      // Confirmed runs of rules that require approval come back as drafts to approve
+      window.dispatchEvent(new Event(APPROVALS_CHANGED_EVENT))
+    } catch (error) {
+      setError(action === 'confirm' ? 'Failed to send the invoice' : 'Failed to skip the run')
+    } finally {
+      setBusyRunId(null)
+    }
+  }
+
+  const handleApproval = async (approval: AutomationApproval, action: 'approve' | 'reject') => {
+    if (!window.api) return
+    const label = approval.invoiceNumber ? `invoice ${approval.invoiceNumber}` : `the ${formatDate(approval.scheduledDate)} invoice`
+    if (action === 'reject' && !confirm(`Reject ${label} of "${approval.ruleName}"? The draft is cancelled and this period won't be invoiced.`)) return
+    
+    setBusyRunId(approval.id)
+    try {
+      const result = action === 'approve'
+        ? await window.api.approveAutomationRun(approval.id)
+        : await window.api.rejectAutomationRun(approval.id)
+      if (result.error) {
+        setError(result.error.message)
+      }
+      await loadData()
+      window.dispatchEvent(new Event(APPROVALS_CHANGED_EVENT))
+    } catch (error) {
+      setError(action === 'approve' ? 'Failed to send the invoice' : 'Failed to reject the invoice')
+    } finally {
+      setBusyRunId(null)
+    }
+  }
+
   const handleDelete = async (rule: AutomationRule) => {
     if (!window.api) return
     
@@ -252,6 +464,110 @@ export default function AutomationPage() {
         </div>
       )}
 
+      {pendingRuns.length > 0 && (
+        <div className="bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-md p-4 mb-6">
+          <p className="text-amber-800 dark:text-amber-200 text-sm font-medium mb-1">
+            ⏳ {pendingRuns.length} automated invoice(s) need your confirmation
+          </p>
+          <p className="text-amber-800 dark:text-amber-200 text-sm mb-3">
+            These runs were missed while the app was closed or failed. Send each invoice now or skip its period.
+          </p>
+          <div className="grid gap-2">
+            {pendingRuns.map(run => (
+              <div key={run.id} className="flex flex-wrap items-center gap-3 text-sm bg-card rounded-md px-3 py-2">
+                <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${
+                  run.status === 'FAILED'
+                    ? 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300'
+                    : 'bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-300'
+                }`}>
+                  {run.status === 'FAILED' ? 'Failed' : 'Missed'}
+                </span>
+                <span className="font-medium text-card-foreground">{run.ruleName}</span>
+                <span className="text-muted-foreground">{run.clientName}</span>
+                <span className="text-muted-foreground">due {formatDate(run.scheduledDate)}</span>
+                {run.error && <span className="text-red-600 dark:text-red-400 truncate max-w-[280px]" title={run.error}>{run.error}</span>}
+                <div className="ml-auto flex gap-2">
+                  <button
+                    className="btn btn-primary btn-sm"
+                    disabled={busyRunId !== null}
+                    onClick={() => handleRun(run, 'confirm')}
+                  >
+                    {busyRunId === run.id ? 'Sending...' : 'Send now'}
+                  </button>
+                  <button
+                    className="btn btn-outline btn-sm"
+                    disabled={busyRunId !== null}
+                    onClick={() => handleRun(run, 'skip')}
+                  >
+                    Skip
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {approvals.length > 0 && (
+        <div className="bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-md p-4 mb-6">
+          <p className="text-blue-800 dark:text-blue-200 text-sm font-medium mb-1">
+            📝 {approvals.length} automated invoice(s) waiting for approval
+          </p>
+          <p className="text-blue-800 dark:text-blue-200 text-sm mb-3">
+            Review each draft (you can edit it before approving). Approving sends it to the client; rejecting cancels it and skips its period.
+          </p>
+          <div className="grid gap-2">
+            {approvals.map(approval => (
+              <div key={approval.id} className="flex flex-wrap items-center gap-3 text-sm bg-card rounded-md px-3 py-2">
+                <span className="font-medium text-card-foreground">{approval.ruleName}</span>
+                <span className="text-muted-foreground">{approval.clientName}</span>
+                <span className="text-muted-foreground">due {formatDate(approval.scheduledDate)}</span>
+                {approval.invoiceId ? (
+                  <>
+                    <button
+                      className="text-blue-600 dark:text-blue-400 hover:underline"
+                      onClick={() => navigate(`/bills/${approval.invoiceId}/view`)}
+                    >
+                      {approval.invoiceNumber}
+                    </button>
+                    <span className="font-medium text-card-foreground">
+                      {formatCurrency(approval.amount || '0', approval.currency)}
+                    </span>
+                  </>
+                ) : (
+                  <span className="text-red-600 dark:text-red-400">The draft was deleted</span>
+                )}
+                <div className="ml-auto flex gap-2">
+                  {approval.invoiceId && (
+                    <button
+                      className="btn btn-outline btn-sm"
+                      disabled={busyRunId !== null}
+                      onClick={() => navigate(`/bills/${approval.invoiceId}/edit`)}
+                    >
+                      Edit
+                    </button>
+                  )}
+                  <button
+                    className="btn btn-primary btn-sm"
+                    disabled={busyRunId !== null || !approval.invoiceId}
+                    onClick={() => handleApproval(approval, 'approve')}
+                  >
+                    {busyRunId === approval.id ? 'Sending...' : 'Approve & send'}
+                  </button>
+                  <button
+                    className="btn btn-outline btn-sm"
+                    disabled={busyRunId !== null}
+                    onClick={() => handleApproval(approval, 'reject')}
+                  >
+                    Reject
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       <div className="flex justify-between items-center mb-6">
         <h1 className="text-2xl font-bold text-foreground">Automation Rules</h1>
         <button
@@ -292,7 +608,7 @@ export default function AutomationPage() {
                 <th className="p-4 text-left font-semibold text-muted-foreground">Status</th>
                 <th className="p-4 text-left font-semibold text-muted-foreground">Rule Name</th>
                 <th className="p-4 text-left font-semibold text-muted-foreground">Client</th>
-                <th className="p-4 text-left font-semibold text-muted-foreground">Day of Month</th>
+                <th className="p-4 text-left font-semibold text-muted-foreground">Schedule</th>
                 <th className="p-4 text-left font-semibold text-muted-foreground">Amount</th>
                 <th className="p-4 text-left font-semibold text-muted-foreground">Last Sent</th>
                 <th className="p-4 text-left font-semibold text-muted-foreground">Next Due</th>
@@ -315,7 +631,19 @@ export default function AutomationPage() {
                     </button>
                   </td>
                   <td className="p-4">
-                    <div className="font-medium text-card-foreground">{rule.name}</div>
+                    <div className="font-medium text-card-foreground">
+                      {rule.name}
+                      {rule.requireApproval && (
+                        <span className="ml-2 px-1.5 py-0.5 rounded text-xs font-normal bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300">
+                          Approval
+                        </span>
+                      )}
+                      {rule.emailTemplateName && (
+                        <span className="ml-2 px-1.5 py-0.5 rounded text-xs font-normal bg-gray-100 text-gray-700 dark:bg-gray-900/30 dark:text-gray-300">
+                          ✉ {rule.emailTemplateName}
+                        </span>
+                      )}
+                    </div>
                     <div className="text-sm text-muted-foreground truncate max-w-[200px]">
                       {rule.description}
                     </div>
@@ -324,8 +652,15 @@ export default function AutomationPage() {
                     <div className="font-medium text-card-foreground">{rule.clientName}</div>
                     <div className="text-sm text-muted-foreground">{rule.clientEmail}</div>
                   </td>
-                  <td className="p-4 text-card-foreground">
-                    Day {rule.dayOfMonth}
+                  <td className="p-4">
+                    <div className="text-card-foreground">{describeSchedule(rule)}</div>
+                    {(rule.endDate || rule.maxOccurrences) && (
+                      <div className="text-sm text-muted-foreground">
+                        {rule.maxOccurrences ? `${rule.occurrenceCount} of ${rule.maxOccurrences} done` : ''}
+                        {rule.maxOccurrences && rule.endDate ? ' · ' : ''}
+                        {rule.endDate ? `until ${formatDate(rule.endDate)}` : ''}
+                      </div>
+                    )}
                   </td>
                   <td className="p-4 font-medium text-card-foreground">
                     {formatCurrency(rule.amount, rule.currency)}
@@ -334,10 +669,20 @@ export default function AutomationPage() {
                     {formatDate(rule.lastSentDate)}
                   </td>
                   <td className="p-4 text-card-foreground">
-                    {formatDate(rule.nextDueDate)}
+                    {rule.nextDueDate ? formatDate(rule.nextDueDate) : (rule.occurrenceCount > 0 ? 'Finished' : '-')}
                   </td>
                   <td className="p-4">
                     <div className="flex gap-2">
+                      <button 
+                        className="btn btn-outline btn-sm"
+                        onClick={() => setPreviewRule(rule)}
+                      >
+                        <svg className="h-4 w-4 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z" />
+                        </svg>
+                        Preview
+                      </button>
                       <button 
                         className="btn btn-outline btn-sm"
                         onClick={() => handleEdit(rule)}
@@ -365,6 +710,12 @@ export default function AutomationPage() {
         )}
       </div>
 
+      <AutomationPreviewModal
+        isOpen={previewRule !== null}
+        onClose={() => setPreviewRule(null)}
+        rule={previewRule}
+      />
+
       {/* Form Modal */}
       {showForm && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
@@ -418,21 +769,171 @@ export default function AutomationPage() {
               <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                 <div>
                   <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-                    Day of Month *
+                    Schedule *
+                  </label>
+                  <select
+                    value={schedulePresetKey(formData)}
+                    onChange={(e) => handleSchedulePreset(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md 
+                      focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400
+                      bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+                  >
+                    {SCHEDULE_PRESETS.map(preset => (
+                      <option key={preset.key} value={preset.key}>{preset.label}</option>
+                    ))}
+                    <option value="custom" disabled>Custom</option>
+                  </select>
+                </div>
+                
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                    Repeat Every
+                  </label>
+                  <div className="flex gap-2">
+                    <input
+                      type="number"
+                      value={formData.interval}
+                      onChange={(e) => handleFormChange('interval', parseInt(e.target.value) || 1)}
+                      min="1"
+                      max="60"
+                      className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md 
+                        focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400
+                        bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+                    />
+                    <select
+                      value={formData.frequency}
+                      onChange={(e) => handleFormChange('frequency', e.target.value)}
+                      className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md 
+                        focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400
+                        bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+                    >
+                      <option value="WEEKLY">week(s)</option>
+                      <option value="MONTHLY">month(s)</option>
+                      <option value="YEARLY">year(s)</option>
+                    </select>
+                  </div>
+                </div>
+                
+                {formData.frequency === 'WEEKLY' ? (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                      On *
+                    </label>
+                    <select
+                      value={formData.weekday}
+                      onChange={(e) => handleFormChange('weekday', parseInt(e.target.value))}
+                      className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md 
+                        focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400
+                        bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+                    >
+                      {WEEKDAYS.map((day, index) => (
+                        <option key={day} value={index}>{day}</option>
+                      ))}
+                    </select>
+                  </div>
+                ) : (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                      On *
+                    </label>
+                    <div className="flex gap-2">
+                      {formData.frequency === 'YEARLY' && (
+                        <select
+                          value={formData.monthOfYear}
+                          onChange={(e) => handleFormChange('monthOfYear', parseInt(e.target.value))}
+                          className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md 
+                            focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400
+                            bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+                        >
+                          {MONTHS.map((month, index) => (
+                            <option key={month} value={index + 1}>{month}</option>
+                          ))}
+                        </select>
+                      )}
+                      {!formData.lastBusinessDay && (
+                        <input
+                          type="number"
+                          value={formData.dayOfMonth}
+                          onChange={(e) => handleFormChange('dayOfMonth', parseInt(e.target.value) || 1)}
+                          min="1"
+                          max="31"
+                          title="Day of month (moved to the month's last day in shorter months)"
+                          className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md 
+                            focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400
+                            bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+                          required
+                        />
+                      )}
+                    </div>
+                    <label className="flex items-center mt-2 text-sm text-gray-700 dark:text-gray-300">
+                      <input
+                        type="checkbox"
+                        checked={formData.lastBusinessDay}
+                        onChange={(e) => handleFormChange('lastBusinessDay', e.target.checked)}
+                        className="rounded border-gray-300 text-blue-600 focus:ring-blue-500 mr-2"
+                      />
+                      Last business day of the month
+                    </label>
+                  </div>
+                )}
+              </div>
+              
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                    Start Date
+                  </label>
+                  <input
+                    type="date"
+                    value={formData.startDate}
+                    onChange={(e) => handleFormChange('startDate', e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md 
+                      focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400
+                      bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+                  />
+                  <p className="text-xs text-gray-500 mt-1">
+                    Intervals count from here (defaults to today)
+                  </p>
+                </div>
+                
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                    End Date
+                  </label>
+                  <input
+                    type="date"
+                    value={formData.endDate}
+                    onChange={(e) => handleFormChange('endDate', e.target.value)}
+                    min={formData.startDate || undefined}
+                    className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md 
+                      focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400
+                      bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+                  />
+                </div>
+                
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                    Max Occurrences
                   </label>
                   <input
                     type="number"
-                    value={formData.dayOfMonth}
-                    onChange={(e) => handleFormChange('dayOfMonth', parseInt(e.target.value) || 1)}
+                    value={formData.maxOccurrences}
+                    onChange={(e) => handleFormChange('maxOccurrences', e.target.value)}
                     min="1"
-                    max="31"
+                    placeholder="No limit"
                     className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md 
                       focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400
                       bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
-                    required
                   />
+                  {editingRule && editingRule.occurrenceCount > 0 && (
+                    <p className="text-xs text-gray-500 mt-1">
+                      {editingRule.occurrenceCount} already done, skipped periods included
+                    </p>
+                  )}
                 </div>
-                
+              </div>
+              
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 <div>
                   <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
                     Amount *
@@ -484,6 +985,29 @@ export default function AutomationPage() {
                 />
               </div>
               
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  Email Template
+                </label>
+                <select
+                  value={formData.emailTemplateId}
+                  onChange={(e) => handleEmailTemplateChange(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md 
+                    focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400
+                    bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+                >
+                  <option value="">Custom wording for this rule</option>
+                  {emailTemplates.map(template => (
+                    <option key={template.id} value={template.id}>{template.name} ({template.language})</option>
+                  ))}
+                </select>
+                <p className="text-xs text-gray-500 mt-1">
+                  {formData.emailTemplateId
+                    ? 'The email uses the current wording of this template; edit it under Settings → Email Templates.'
+                    : 'Pick an invoice template from Settings → Email Templates to share its wording between rules.'}
+                </p>
+              </div>
+              
               <div>
                 <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
                   Email Subject Template *
@@ -492,13 +1016,15 @@ export default function AutomationPage() {
                   type="text"
                   value={formData.subjectTemplate}
                   onChange={(e) => handleFormChange('subjectTemplate', e.target.value)}
+                  readOnly={!!formData.emailTemplateId}
                   className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md 
                     focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400
-                    bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+                    bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100
+                    read-only:opacity-60"
                   required
                 />
                 <p className="text-xs text-gray-500 mt-1">
-                  Available variables: {'{invoiceNumber}'}, {'{clientName}'}, {'{companyName}'}
+                  Use variables such as {'{{ invoice.number }}'}, {'{{ client.name }}'} or {'{{ seller.name }}'}
                 </p>
               </div>
               
@@ -509,18 +1035,34 @@ export default function AutomationPage() {
                 <textarea
                   value={formData.bodyTemplate}
                   onChange={(e) => handleFormChange('bodyTemplate', e.target.value)}
+                  readOnly={!!formData.emailTemplateId}
                   rows={8}
                   className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md 
                     focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400
                     bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100
-                    font-mono text-sm"
+                    font-mono text-sm read-only:opacity-60"
                   required
                 />
                 <p className="text-xs text-gray-500 mt-1">
-                  Available variables: {'{invoiceNumber}'}, {'{clientName}'}, {'{companyName}'}, {'{amount}'}, {'{description}'}
+                  Use variables such as {'{{ invoice.total | currency }}'} or {'{{ invoice.dueDate | date "long" }}'},
+                  conditionals ({'{{#if invoice.description}}...{{/if}}'}) and loops ({'{{#each invoice.lines}}...{{/each}}'}).
+                  The full list is shown in the email dialog of any invoice.
                 </p>
               </div>
               
+              <div className="flex items-center">
+                <input
+                  type="checkbox"
+                  id="requireApproval"
+                  checked={formData.requireApproval}
+                  onChange={(e) => handleFormChange('requireApproval', e.target.checked)}
+                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                <label htmlFor="requireApproval" className="ml-2 text-sm text-gray-700 dark:text-gray-300">
+                  Require approval (invoices are created as drafts and only sent once you approve them)
+                </label>
+              </div>
+              
               <div className="flex items-center">
                 <input
                   type="checkbox"
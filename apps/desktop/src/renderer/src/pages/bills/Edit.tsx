@@ -1,6 +1,8 @@
 import { useEffect, useMemo, useState } from 'react'
 import { useNavigate, useParams } from 'react-router-dom'
 import { PageHeader } from '../../components/PageHeader'
+import { InvoiceLinesEditor, InvoiceTotalsView, TaxRateOption, createLineDraft, draftsToLineInputs, linesToDrafts, validateLineDrafts } from '../../components/InvoiceLinesEditor'
+import { InvoiceTaxFields } from '../../components/InvoiceTaxFields'
 
 interface Bill {
   id: string
@@ -13,6 +15,7 @@ interface Bill {
   amount: string
   currency: string
   status: string
+  kind?: 'INVOICE' | 'CREDIT_NOTE'
   filePath?: string
   folderPath?: string
   description?: string
@@ -20,6 +23,11 @@ interface Bill {
   paidAt?: string
   createdAt: string
   updatedAt: string
+  taxRateId?: string | null
+  withholdingRateId?: string | null
+  seriesId?: string | null
+  projectId?: string | null
+  lines?: Array<{ id?: string; description: string; quantity: string; unit?: string | null; unitPrice: string; discount?: string | null; taxRateId?: string | null }>
 }
 
 export default function EditBillPage() {
@@ -30,16 +38,24 @@ export default function EditBillPage() {
     clientName: '',
     issueDate: new Date().toISOString().split('T')[0],
     expectedPaymentDate: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
-    amount: '',
     currency: 'EUR',
     number: '',
     description: '',
-    notes: ''
+    notes: '',
+    taxRateId: '',
+    withholdingRateId: '',
+    projectId: ''
   })
+  const [lines, setLines] = useState(() => [createLineDraft()])
+  const [taxRates, setTaxRates] = useState<TaxRateOption[]>([])
+  const [totals, setTotals] = useState<InvoiceTotalsView | null>(null)
   const [pdfUrl, setPdfUrl] = useState<string | null>(null)
   const [clients, setClients] = useState<Array<{ id: string; name: string }>>([])
+  const [projects, setProjects] = useState<Array<{ id: string; clientId: string; name: string; status: string }>>([])
   const [loading, setLoading] = useState(false)
   const [loadingBill, setLoadingBill] = useState(true)
+  const [numberLocked, setNumberLocked] = useState(false)
+  const [contentLocked, setContentLocked] = useState(false)
   const [errors, setErrors] = useState<string[]>([])
 
   // Load bill data
@@ -90,12 +106,21 @@ export default function EditBillPage() {
             clientName: bill.clientName || '',
             issueDate: formatDateForInput(bill.issueDate),
             expectedPaymentDate: formatDateForInput(bill.expectedPaymentDate) || new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
-            amount: bill.amount || '',
             currency: bill.currency || 'EUR',
             number: bill.number || '',
             description: bill.description || '',
-            notes: bill.notes || ''
+            notes: bill.notes || '',
+            taxRateId: bill.taxRateId || '',
+            withholdingRateId: bill.withholdingRateId || '',
+            projectId: bill.projectId || ''
           })
+          // Numbers reserved from a series cannot be changed
+          setNumberLocked(!!bill.seriesId)
+          // Issued invoices and credit notes only take new notes, due date and project
+          setContentLocked(bill.kind === 'CREDIT_NOTE' || bill.status !== 'DRAFT')
+          setLines(bill.lines && bill.lines.length
+            ? linesToDrafts(bill.lines)
+            : [createLineDraft({ description: bill.description || '', unitPrice: bill.amount || '' })])
           
           // Load PDF if file exists
           if (bill.filePath) {
@@ -119,7 +144,7 @@ export default function EditBillPage() {
     loadBill()
   }, [id])
 
-  // Load clients for selection
+  // Load clients and their projects for selection
   useEffect(() => {
     let mounted = true
     const load = async () => {
@@ -130,6 +155,27 @@ export default function EditBillPage() {
       if (!res.error && res.clients) {
         setClients(res.clients)
       }
+      const projectsRes = await api.getProjects()
+      if (!mounted) return
+      if (!projectsRes.error) {
+        setProjects(projectsRes.projects)
+      }
+    }
+    load()
+    return () => { mounted = false }
+  }, [])
+
+  // Load tax rates for the invoice and line selectors
+  useEffect(() => {
+    let mounted = true
+    const load = async () => {
+      if (!window.api) return
+      const api: any = window.api
+      const res = await api.getTaxRates()
+      if (!mounted) return
+      if (!res.error && res.rates) {
+        setTaxRates(res.rates)
+      }
     }
     load()
     return () => { mounted = false }
@@ -138,6 +184,12 @@ export default function EditBillPage() {
   // Selected client object
   const selectedClient = useMemo(() => clients.find(c => c.id === formData.clientId) || null, [clients, formData.clientId])
 
+  // Open projects of the selected client, plus the invoice's own
+  const clientProjects = useMemo(
+    () => projects.filter(p => p.clientId === formData.clientId && (p.status !== 'COMPLETED' || p.id === formData.projectId)),
+    [projects, formData.clientId, formData.projectId]
+  )
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     setErrors([])
@@ -160,10 +212,8 @@ export default function EditBillPage() {
       // Validate
       const validationErrors: string[] = []
       if (!(formData.clientId || formData.clientName.trim())) validationErrors.push('Client is required')
-      if (!formData.amount.trim()) validationErrors.push('Amount is required')
       if (!formData.number.trim()) validationErrors.push('Invoice number is required')
-      if (!formData.description.trim()) validationErrors.push('Description is required')
-      if (isNaN(parseFloat(formData.amount))) validationErrors.push('Amount must be a valid number')
+      if (!contentLocked) validationErrors.push(...validateLineDrafts(lines))
 
       if (validationErrors.length > 0) {
         setErrors(validationErrors)
@@ -178,11 +228,16 @@ export default function EditBillPage() {
         clientName: selectedClient?.name || formData.clientName.trim(),
         issueDate: formData.issueDate,
         expectedPaymentDate: formData.expectedPaymentDate,
-        amount: formData.amount.trim(),
         currency: formData.currency,
         number: formData.number.trim(),
         description: formData.description.trim() || undefined,
-        notes: formData.notes.trim() || undefined
+        notes: formData.notes.trim() || undefined,
+        ...(contentLocked ? {} : {
+          lines: draftsToLineInputs(lines),
+          taxRateId: formData.taxRateId || null,
+          withholdingRateId: formData.withholdingRateId || null
+        }),
+        projectId: formData.projectId || null
       })
 
       if (result.error) {
@@ -214,29 +269,35 @@ export default function EditBillPage() {
         if (!window.api) return
         
         const clientName = selectedClient?.name || formData.clientName || 'Cliente'
-        const amount = formData.amount && !isNaN(parseFloat(formData.amount)) ? formData.amount : '0'
         const number = formData.number || 'INV-EDIT-001'
         
         // Only generate preview if we have minimal data
-        if (clientName && amount && number) {
+        if (clientName && number) {
           const res = await window.api.previewBill({
+            clientId: formData.clientId || undefined,
             clientName,
             issueDate: formData.issueDate,
             expectedPaymentDate: formData.expectedPaymentDate,
-            amount,
+            amount: '0',
+            lines: draftsToLineInputs(lines),
+            taxRateId: formData.taxRateId || null,
+            withholdingRateId: formData.withholdingRateId || null,
             currency: formData.currency,
             number,
             description: formData.description,
             notes: formData.notes
           })
-          if (active && !res.error) setPdfUrl(res.dataUrl)
+          if (active && !res.error) {
+            setPdfUrl(res.dataUrl)
+            setTotals(res.totals)
+          }
         }
       } catch {}
     }
     // Reduced timeout for responsive preview
     const t = setTimeout(run, 150)
     return () => { active = false; clearTimeout(t) }
-  }, [formData, selectedClient])
+  }, [formData, lines, selectedClient])
 
   // Handle blur events to trigger PDF rendering
   const handleInputBlur = () => {
@@ -246,21 +307,27 @@ export default function EditBillPage() {
         if (!window.api) return
         
         const clientName = selectedClient?.name || formData.clientName || 'Cliente'
-        const amount = formData.amount && !isNaN(parseFloat(formData.amount)) ? formData.amount : '0'
         const number = formData.number || 'INV-EDIT-001'
         
-        if (clientName && amount && number) {
+        if (clientName && number) {
           const res = await window.api.previewBill({
+            clientId: formData.clientId || undefined,
             clientName,
             issueDate: formData.issueDate,
             expectedPaymentDate: formData.expectedPaymentDate,
-            amount,
+            amount: '0',
+            lines: draftsToLineInputs(lines),
+            taxRateId: formData.taxRateId || null,
+            withholdingRateId: formData.withholdingRateId || null,
             currency: formData.currency,
             number,
             description: formData.description,
             notes: formData.notes
           })
-          if (!res.error) setPdfUrl(res.dataUrl)
+          if (!res.error) {
+            setPdfUrl(res.dataUrl)
+            setTotals(res.totals)
+          }
         }
       } catch {}
     }
@@ -306,8 +373,9 @@ export default function EditBillPage() {
               <div className="grid gap-2">
                 <select
                   value={formData.clientId}
-                  onChange={(e) => handleInputChange('clientId', e.target.value)}
+                  onChange={(e) => setFormData(prev => ({ ...prev, clientId: e.target.value, projectId: '' }))}
                   onBlur={handleInputBlur}
+                  disabled={contentLocked}
                   className="w-full p-3 rounded-xl text-base bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-primary/20 transition-all"
                 >
                   <option value="">— Select client —</option>
@@ -322,6 +390,7 @@ export default function EditBillPage() {
                     onChange={(e) => handleInputChange('clientName', e.target.value)}
                     onBlur={handleInputBlur}
                     placeholder="Or type client name"
+                    readOnly={contentLocked}
                     className="w-full p-3 rounded-xl text-base bg-background text-foreground placeholder-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary/20 transition-all"
                   />
                 )}
@@ -340,7 +409,9 @@ export default function EditBillPage() {
                   onChange={(e) => handleInputChange('number', e.target.value)}
                   onBlur={handleInputBlur}
                   placeholder="INV-2024-01-001"
-                  className="w-full p-3 rounded-xl text-base bg-background text-foreground placeholder-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary/20 transition-all"
+                  readOnly={numberLocked}
+                  title={numberLocked ? 'Assigned from a numbering series' : undefined}
+                  className="w-full p-3 rounded-xl text-base bg-background text-foreground placeholder-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary/20 transition-all read-only:text-muted-foreground"
                   required
                 />
               </div>
@@ -354,6 +425,7 @@ export default function EditBillPage() {
                   value={formData.issueDate}
                   onChange={(e) => handleInputChange('issueDate', e.target.value)}
                   onBlur={handleInputBlur}
+                  readOnly={contentLocked}
                   className="w-full p-3  rounded-xl text-base bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-primary/20 transition-all"
                   required
                 />
@@ -373,24 +445,8 @@ export default function EditBillPage() {
               </div>
             </div>
 
-            {/* Amount and Currency */}
+            {/* Currency */}
             <div className="grid grid-cols-1 sm:grid-cols-4 gap-4">
-              <div className="sm:col-span-3">
-                <label className="block text-sm font-medium mb-2 text-card-foreground">
-                  Amount *
-                </label>
-                <input
-                  type="number"
-                  step="0.01"
-                  value={formData.amount}
-                  onChange={(e) => handleInputChange('amount', e.target.value)}
-                  onBlur={handleInputBlur}
-                  placeholder="0.00"
-                  className="w-full p-3 rounded-xl text-base bg-background text-foreground placeholder-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary/20 transition-all"
-                  required
-                />
-              </div>
-
               <div>
                 <label className="block text-sm font-medium mb-2 text-card-foreground">
                   Currency
@@ -399,6 +455,7 @@ export default function EditBillPage() {
                   value={formData.currency}
                   onChange={(e) => handleInputChange('currency', e.target.value)}
                   onBlur={handleInputBlur}
+                  disabled={contentLocked}
                   className="w-full p-3  rounded-xl text-base bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-primary/20 transition-all"
                 >
                   <option value="EUR">EUR</option>
@@ -406,21 +463,57 @@ export default function EditBillPage() {
                   <option value="GBP">GBP</option>
                 </select>
               </div>
+
+              {clientProjects.length > 0 && (
+                <div className="sm:col-span-2">
+                  <label className="block text-sm font-medium mb-2 text-card-foreground">
+                    Project
+                  </label>
+                  <select
+                    value={formData.projectId}
+                    onChange={(e) => handleInputChange('projectId', e.target.value)}
+                    className="w-full p-3 rounded-xl text-base bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-primary/20 transition-all"
+                  >
+                    <option value="">— No project —</option>
+                    {clientProjects.map(p => (
+                      <option key={p.id} value={p.id}>{p.name}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
             </div>
 
+            {/* Lines */}
+            {contentLocked ? (
+              <p className="text-sm text-muted-foreground">
+                Issued invoices and credit notes keep their client, issue date, currency, description, lines and taxes. Only the due date, project and observations can still change.
+              </p>
+            ) : (
+              <>
+                <InvoiceTaxFields
+                  taxRates={taxRates}
+                  taxRateId={formData.taxRateId}
+                  withholdingRateId={formData.withholdingRateId}
+                  onChange={(field, value) => handleInputChange(field, value)}
+                />
+
+                <InvoiceLinesEditor lines={lines} currency={formData.currency} taxRates={taxRates} totals={totals} onChange={setLines} onBlur={handleInputBlur} />
+              </>
+            )}
+
             {/* Description */}
             <div>
               <label className="block text-sm font-medium mb-2 text-card-foreground">
-                Description *
+                Description
               </label>
               <textarea
                 value={formData.description}
                 onChange={(e) => handleInputChange('description', e.target.value)}
                 onBlur={handleInputBlur}
-                placeholder="Service or product description"
+                readOnly={contentLocked}
+                placeholder="Short summary of the invoice (optional)"
                 rows={2}
                 className="w-full p-3 rounded-xl text-base bg-background text-foreground placeholder-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary/20 transition-all resize-y whitespace-pre-wrap break-words"
-                required
               />
             </div>
 
@@ -1,6 +1,11 @@
 import { useEffect, useMemo, useState } from 'react'
 import { useNavigate } from 'react-router-dom'
 import { PageHeader } from '../../components/PageHeader'
+import { InvoiceLinesEditor, InvoiceTotalsView, TaxRateOption, createLineDraft, draftsToLineInputs, validateLineDrafts } from '../../components/InvoiceLinesEditor'
+import { InvoiceTaxFields } from '../../components/InvoiceTaxFields'
+
+// Series select value for numbers typed by hand
+const MANUAL_NUMBER = 'manual'
 
 export default function NewBillPage() {
   const navigate = useNavigate()
@@ -9,38 +14,65 @@ export default function NewBillPage() {
     clientName: '',
     issueDate: new Date().toISOString().split('T')[0],
     expectedPaymentDate: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
-    amount: '',
     currency: 'EUR',
     number: '',
+    seriesId: '',
     description: '',
-    notes: ''
+    notes: '',
+    taxRateId: '',
+    withholdingRateId: '',
+    projectId: ''
   })
+  const [lines, setLines] = useState(() => [createLineDraft()])
+  const [taxRates, setTaxRates] = useState<TaxRateOption[]>([])
+  const [totals, setTotals] = useState<InvoiceTotalsView | null>(null)
   const [pdfSource, setPdfSource] = useState<'auto' | 'file'>('auto')
   const [pickedFile, setPickedFile] = useState<string | null>(null)
   const [previewUrl, setPreviewUrl] = useState<string | null>(null)
+  const [facturXProblems, setFacturXProblems] = useState<string[]>([])
   const [clients, setClients] = useState<Array<{ id: string; name: string }>>([])
+  const [projects, setProjects] = useState<Array<{ id: string; clientId: string; name: string; status: string }>>([])
+  const [series, setSeries] = useState<Array<{ id: string; name: string; isDefault: boolean }>>([])
   const [loading, setLoading] = useState(false)
   const [errors, setErrors] = useState<string[]>([])
   const [extracting, setExtracting] = useState(false)
 
-  // Auto-generate invoice number
-  const generateInvoiceNumber = () => {
-    const now = new Date()
-    const year = now.getFullYear()
-    const month = String(now.getMonth() + 1).padStart(2, '0')
-    const random = String(Math.floor(Math.random() * 1000)).padStart(3, '0')
-    return `INV-${year}-${month}-${random}`
-  }
-
-  // Set default invoice number on component mount
+  // Load numbering series and preselect the default one
   useEffect(() => {
-    setFormData(prev => ({
-      ...prev,
-      number: prev.number || generateInvoiceNumber()
-    }))
-    // eslint-disable-next-line react-hooks/exhaustive-deps
+    let mounted = true
+    const load = async () => {
+      if (!window.api) return
+      const api: any = window.api
+      const res = await api.getNumberingSeries()
+      if (!mounted || res.error) return
+      // Credit notes and quotes are numbered in series of their own
+      const invoiceSeries = res.series.filter((s: any) => s.kind === 'INVOICE')
+      setSeries(invoiceSeries)
+      const defaultSeries = invoiceSeries.find((s: any) => s.isDefault) || invoiceSeries[0]
+      setFormData(prev => ({ ...prev, seriesId: prev.seriesId || (defaultSeries ? defaultSeries.id : MANUAL_NUMBER) }))
+    }
+    load()
+    return () => { mounted = false }
   }, [])
 
+  // Show the upcoming number of the selected series; it is only reserved on save
+  useEffect(() => {
+    let active = true
+    const run = async () => {
+      if (!window.api || !formData.seriesId || formData.seriesId === MANUAL_NUMBER) return
+      const api: any = window.api
+      const res = await api.getNextBillNumber({ seriesId: formData.seriesId, issueDate: formData.issueDate })
+      if (!active) return
+      if (res.error) {
+        setErrors([res.error.message])
+        return
+      }
+      setFormData(prev => ({ ...prev, number: res.number }))
+    }
+    run()
+    return () => { active = false }
+  }, [formData.seriesId, formData.issueDate])
+
   // Load clients for selection
   useEffect(() => {
     let mounted = true
@@ -52,6 +84,29 @@ export default function NewBillPage() {
       if (!res.error && res.clients) {
         setClients(res.clients)
       }
+      const projectsRes = await api.getProjects()
+      if (!mounted) return
+      if (!projectsRes.error) {
+        setProjects(projectsRes.projects)
+      }
+    }
+    load()
+    return () => { mounted = false }
+  }, [])
+
+  // Load tax rates and preselect the default one
+  useEffect(() => {
+    let mounted = true
+    const load = async () => {
+      if (!window.api) return
+      const api: any = window.api
+      const res = await api.getTaxRates()
+      if (!mounted || res.error) return
+      setTaxRates(res.rates)
+      const defaultRate = res.rates.find((r: any) => r.isDefault)
+      if (defaultRate) {
+        setFormData(prev => ({ ...prev, taxRateId: prev.taxRateId || defaultRate.id }))
+      }
     }
     load()
     return () => { mounted = false }
@@ -60,6 +115,12 @@ export default function NewBillPage() {
   // Selected client object
   const selectedClient = useMemo(() => clients.find(c => c.id === formData.clientId) || null, [clients, formData.clientId])
 
+  // Open projects of the selected client
+  const clientProjects = useMemo(
+    () => projects.filter(p => p.clientId === formData.clientId && p.status !== 'COMPLETED'),
+    [projects, formData.clientId]
+  )
+
   // Live preview (real-time on every input change)
   useEffect(() => {
     let active = true
@@ -74,33 +135,37 @@ export default function NewBillPage() {
           return
         }
         const clientName = selectedClient?.name || formData.clientName || 'Cliente'
-        const amount = formData.amount && !isNaN(parseFloat(formData.amount)) ? formData.amount : '0'
-        const number = formData.number || generateInvoiceNumber()
-        if (!formData.number) {
-          // persist generated number so the user sees it
-          setFormData(prev => ({ ...prev, number }))
-        }
+        const lineInputs = draftsToLineInputs(lines)
+        const number = formData.number || 'DRAFT'
         
         // Only generate preview if we have minimal data
-        if (clientName && amount && number) {
+        if (clientName && number) {
           const res = await window.api.previewBill({
+            clientId: formData.clientId || undefined,
             clientName,
             issueDate: formData.issueDate,
             expectedPaymentDate: formData.expectedPaymentDate,
-            amount,
+            amount: '0',
+            lines: lineInputs,
+            taxRateId: formData.taxRateId || null,
+            withholdingRateId: formData.withholdingRateId || null,
             currency: formData.currency,
             number,
             description: formData.description,
             notes: formData.notes
           })
-          if (active && !res.error) setPreviewUrl(res.dataUrl)
+          if (active && !res.error) {
+            setPreviewUrl(res.dataUrl)
+            setTotals(res.totals)
+            setFacturXProblems(res.facturX?.problems || [])
+          }
         }
       } catch {}
     }
     // Reduced timeout for more responsive preview
     const t = setTimeout(run, 150)
     return () => { active = false; clearTimeout(t) }
-  }, [formData, selectedClient, pdfSource, pickedFile])
+  }, [formData, lines, selectedClient, pdfSource, pickedFile])
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
@@ -117,10 +182,8 @@ export default function NewBillPage() {
       // Validate
       const validationErrors: string[] = []
       if (!(formData.clientId || formData.clientName.trim())) validationErrors.push('Client is required')
-      if (!formData.amount.trim()) validationErrors.push('Amount is required')
       if (!formData.number.trim()) validationErrors.push('Invoice number is required')
-      if (!formData.description.trim()) validationErrors.push('Description is required')
-      if (isNaN(parseFloat(formData.amount))) validationErrors.push('Amount must be a valid number')
+      validationErrors.push(...validateLineDrafts(lines))
       if (pdfSource === 'file' && !pickedFile) validationErrors.push('Please select a PDF file')
 
       if (validationErrors.length > 0) {
@@ -136,11 +199,15 @@ export default function NewBillPage() {
         clientName: selectedClient?.name || formData.clientName.trim(),
         issueDate: formData.issueDate,
         expectedPaymentDate: formData.expectedPaymentDate,
-        amount: formData.amount.trim(),
         currency: formData.currency,
-        number: formData.number.trim(),
+        number: formData.seriesId === MANUAL_NUMBER ? formData.number.trim() : undefined,
+        seriesId: formData.seriesId === MANUAL_NUMBER ? null : formData.seriesId || null,
         description: formData.description.trim() || undefined,
         notes: formData.notes.trim() || undefined,
+        lines: draftsToLineInputs(lines),
+        taxRateId: formData.taxRateId || null,
+        withholdingRateId: formData.withholdingRateId || null,
+        projectId: formData.projectId || null,
         source: pdfSource === 'auto' ? { type: 'auto' } : { type: 'file', path: pickedFile as string }
       })
 
@@ -189,16 +256,21 @@ export default function NewBillPage() {
         setExtracting(false)
         return
       }
-      const fields = res.fields as Partial<typeof formData> | undefined
+      const fields = res.fields as (Partial<typeof formData> & { amount?: string }) | undefined
       if (fields) {
+        // The document only gives us a total, so it becomes a single line
+        if (fields.amount) {
+          setLines([createLineDraft({ description: fields.description || 'Serveis professionals', unitPrice: fields.amount })])
+        }
         setFormData(prev => ({
           ...prev,
           clientName: fields.clientName ?? prev.clientName,
           issueDate: fields.issueDate ?? prev.issueDate,
           expectedPaymentDate: fields.expectedPaymentDate ?? prev.expectedPaymentDate,
-          amount: fields.amount ?? prev.amount,
           currency: fields.currency ?? prev.currency,
+          // A number read from an existing PDF is kept as typed
           number: fields.number ?? prev.number,
+          seriesId: fields.number ? MANUAL_NUMBER : prev.seriesId,
           description: fields.description ?? prev.description,
           notes: fields.notes ?? prev.notes
         }))
@@ -240,7 +312,7 @@ export default function NewBillPage() {
               <div className="grid gap-2">
                 <select
                   value={formData.clientId}
-                  onChange={(e) => handleInputChange('clientId', e.target.value)}
+                  onChange={(e) => setFormData(prev => ({ ...prev, clientId: e.target.value, projectId: '' }))}
                   className="w-full p-3 rounded-xl text-base bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-primary/20 transition-all"
                 >
                   <option value="">— Select client —</option>
@@ -266,12 +338,24 @@ export default function NewBillPage() {
                 <label className="block text-sm font-medium mb-2 text-card-foreground">
                   Invoice Number *
                 </label>
+                <select
+                  value={formData.seriesId}
+                  onChange={(e) => handleInputChange('seriesId', e.target.value)}
+                  className="w-full p-3 mb-2 rounded-xl text-base bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-primary/20 transition-all"
+                >
+                  {series.map(s => (
+                    <option key={s.id} value={s.id}>{s.name}</option>
+                  ))}
+                  <option value={MANUAL_NUMBER}>Manual number</option>
+                </select>
                 <input
                   type="text"
                   value={formData.number}
                   onChange={(e) => handleInputChange('number', e.target.value)}
                   placeholder="INV-2024-01-001"
-                  className="w-full p-3 rounded-xl text-base bg-background text-foreground placeholder-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary/20 transition-all"
+                  readOnly={formData.seriesId !== MANUAL_NUMBER}
+                  title={formData.seriesId !== MANUAL_NUMBER ? 'Assigned from the series when the bill is created' : undefined}
+                  className="w-full p-3 rounded-xl text-base bg-background text-foreground placeholder-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary/20 transition-all read-only:text-muted-foreground"
                   required
                 />
               </div>
@@ -302,23 +386,8 @@ export default function NewBillPage() {
               </div>
             </div>
 
-            {/* Amount and Currency */}
+            {/* Currency */}
             <div className="grid grid-cols-1 sm:grid-cols-4 gap-4">
-              <div className="sm:col-span-3">
-                <label className="block text-sm font-medium mb-2 text-card-foreground">
-                  Amount *
-                </label>
-                <input
-                  type="number"
-                  step="0.01"
-                  value={formData.amount}
-                  onChange={(e) => handleInputChange('amount', e.target.value)}
-                  placeholder="0.00"
-                  className="w-full p-3 rounded-xl text-base bg-background text-foreground placeholder-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary/20 transition-all"
-                  required
-                />
-              </div>
-
               <div>
                 <label className="block text-sm font-medium mb-2 text-card-foreground">
                   Currency
@@ -333,6 +402,24 @@ export default function NewBillPage() {
                   <option value="GBP">GBP</option>
                 </select>
               </div>
+
+              {clientProjects.length > 0 && (
+                <div className="sm:col-span-2">
+                  <label className="block text-sm font-medium mb-2 text-card-foreground">
+                    Project
+                  </label>
+                  <select
+                    value={formData.projectId}
+                    onChange={(e) => handleInputChange('projectId', e.target.value)}
+                    className="w-full p-3 rounded-xl text-base bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-primary/20 transition-all"
+                  >
+                    <option value="">— No project —</option>
+                    {clientProjects.map(p => (
+                      <option key={p.id} value={p.id}>{p.name}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
             </div>
 
             {/* PDF Source */}
@@ -384,18 +471,27 @@ export default function NewBillPage() {
               )}
             </div>
 
+            {/* Lines */}
+            <InvoiceTaxFields
+              taxRates={taxRates}
+              taxRateId={formData.taxRateId}
+              withholdingRateId={formData.withholdingRateId}
+              onChange={(field, value) => handleInputChange(field, value)}
+            />
+
+            <InvoiceLinesEditor lines={lines} currency={formData.currency} taxRates={taxRates} totals={totals} onChange={setLines} />
+
             {/* Description */}
             <div>
               <label className="block text-sm font-medium mb-2 text-card-foreground">
-                Description *
+                Description
               </label>
               <textarea
                 value={formData.description}
                 onChange={(e) => handleInputChange('description', e.target.value)}
-                placeholder="Service or product description"
+                placeholder="Short summary of the invoice (optional)"
                 rows={2}
                 className="w-full p-3 rounded-xl text-base bg-background text-foreground placeholder-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary/20 transition-all resize-y whitespace-pre-wrap break-words"
-                required
               />
             </div>
 
@@ -437,6 +533,16 @@ export default function NewBillPage() {
       {/* Preview */}
       <div className="apple-card bg-card p-4 xl:h-[calc(100vh-160px)]">
         <div className="text-sm font-medium text-card-foreground mb-2">PDF Preview</div>
+        {pdfSource === 'auto' && facturXProblems.length > 0 && (
+          <div className="rounded-lg bg-amber-50 dark:bg-amber-900/20 p-3 mb-3 text-sm text-amber-800 dark:text-amber-300">
+            <div className="font-medium mb-1">This invoice cannot be issued as Factur-X yet:</div>
+            <ul className="list-disc pl-5">
+              {facturXProblems.map((problem, idx) => (
+                <li key={idx}>{problem}</li>
+              ))}
+            </ul>
+          </div>
+        )}
         {previewUrl ? (
           <iframe 
             src={previewUrl} 
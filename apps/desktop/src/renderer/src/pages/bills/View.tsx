@@ -1,6 +1,7 @@
 import { useEffect, useState } from 'react'
 import { useNavigate, useParams } from 'react-router-dom'
 import { PageHeader } from '../../components/PageHeader'
+import { InvoicePayments, PaymentBalanceView, PaymentView } from '../../components/InvoicePayments'
 
 interface Bill {
   id: string
@@ -8,27 +9,88 @@ interface Bill {
   clientId: string
   clientName: string
   clientEmail?: string
+  projectName?: string | null
   issueDate: string
   expectedPaymentDate?: string
   amount: string
   currency: string
+  exchangeRate?: string | null // Snapshot of the rate to the base currency on the issue date
+  baseAmount?: string | null
+  baseCurrency?: string
   status: string
   filePath?: string
   folderPath?: string
   description?: string
   notes?: string
   paidAt?: string
+  kind?: 'INVOICE' | 'CREDIT_NOTE'
+  originalInvoiceId?: string | null
+  originalNumber?: string | null
+  creditReason?: string | null
+  creditNotes?: Array<{ id: string; number: string; issueDate: string; amount: string; status: string }>
+  payments?: PaymentView[]
+  balance?: PaymentBalanceView
   createdAt: string
   updatedAt: string
+  lines?: Array<{ id: string; description: string; quantity: string; unit?: string | null; unitPrice: string; discount: string; taxRate: string; amount: string }>
+  totals?: {
+    subtotal: string
+    total: string
+    breakdown: Array<{ name: string; rate: string; kind: string; base: string; amount: string }>
+    legalMentions: string[]
+  }
+}
+
+interface EmailLogEntry {
+  id: string
+  source: 'MANUAL' | 'AUTOMATION' | 'REMINDER'
+  recipients: string[]
+  cc: string[]
+  subject: string
+  messageId: string | null
+  status: 'SENT' | 'FAILED'
+  error: string | null
+  sentAt: string
+}
+
+interface OutboxEmail {
+  id: string
+  source: EmailLogEntry['source']
+  recipients: string[]
+  subject: string
+  status: 'PENDING' | 'SENT' | 'FAILED'
+  attempts: number
+  nextAttemptAt: string
+  lastError: string | null
 }
 
+const EMAIL_SOURCES: Record<EmailLogEntry['source'], string> = {
+  MANUAL: 'Sent by hand',
+  AUTOMATION: 'Automation',
+  REMINDER: 'Payment reminder'
+}
+
+// Payment status badges; drafts and sent invoices show as unpaid
+const STATUS_BADGES: Record<string, { label: string; className: string }> = {
+  PAID: { label: '✓ Paid', className: 'bg-emerald-100 text-emerald-800 dark:bg-emerald-900/30 dark:text-emerald-300' },
+  PARTIALLY_PAID: { label: 'Partially paid', className: 'bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-300' },
+  OVERDUE: { label: 'Overdue', className: 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300' },
+  SENT: { label: 'Unpaid', className: 'bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300' }
+}
+
+// Issued invoices, the ones credit notes rectify (ISSUED_STATUSES in the main process)
+const ISSUED_STATUSES = ['SENT', 'PARTIALLY_PAID', 'OVERDUE', 'PAID']
+
 export default function ViewBillPage() {
   const navigate = useNavigate()
   const { id } = useParams<{ id: string }>()
   const [bill, setBill] = useState<Bill | null>(null)
   const [pdfUrl, setPdfUrl] = useState<string | null>(null)
+  const [emails, setEmails] = useState<EmailLogEntry[]>([])
+  const [pendingEmails, setPendingEmails] = useState<OutboxEmail[]>([])
   const [loading, setLoading] = useState(true)
   const [errors, setErrors] = useState<string[]>([])
+  const [eInvoiceExport, setEInvoiceExport] = useState<{ filePath?: string; problems: string[] } | null>(null)
 
   // Load bill data
   useEffect(() => {
@@ -48,6 +110,8 @@ export default function ViewBillPage() {
         if (result.bill) {
           setBill(result.bill)
           
+          await loadEmailHistory(result.bill.id)
+          
           // Load PDF if file exists
           if (result.bill.filePath) {
             try {
@@ -70,6 +134,27 @@ export default function ViewBillPage() {
     loadBill()
   }, [id])
 
+  const loadEmailHistory = async (billId: string) => {
+    const api: any = window.api
+    const historyResult = await api.getEmailHistory(billId)
+    if (!historyResult.error) {
+      setEmails(historyResult.emails || [])
+      setPendingEmails(historyResult.pending || [])
+    }
+  }
+
+  const handleRetryEmail = async (outboxId: string) => {
+    if (!window.api || !bill) return
+    const api: any = window.api
+    const res = await api.retryEmail(outboxId)
+    if (res.error) {
+      alert(res.error.message)
+    } else if (res.result.status === 'QUEUED') {
+      alert(`The email could not be sent: ${res.result.error}`)
+    }
+    await loadEmailHistory(bill.id)
+  }
+
   const handleEditBill = () => {
     const confirmed = window.confirm('Si editamos la factura, la anterior será eliminada, ¿estás seguro?')
     if (confirmed && id) {
@@ -77,6 +162,44 @@ export default function ViewBillPage() {
     }
   }
 
+  // Sent invoices are corrected with a credit note, never edited or deleted
+  const handleCreditNote = async () => {
+    if (!window.api || !bill) return
+    const reason = window.prompt(`Reason for the credit note rectifying ${bill.number}:`)
+    if (!reason || !reason.trim()) return
+    const api: any = window.api
+    const res = await api.createCreditNote({ invoiceId: bill.id, reason: reason.trim() })
+    if (res.error) {
+      alert(res.error.message)
+      return
+    }
+    navigate(`/bills/${res.id}/view`)
+  }
+
+  // Drafts handed over outside the app (on paper, by another mail client) are issued by hand
+  const handleMarkSent = async () => {
+    if (!window.api || !bill) return
+    if (!window.confirm(`Mark ${bill.number} as sent? Once issued it can no longer be deleted.`)) return
+    const res = await window.api.updateBillStatus(bill.id, 'SENT')
+    if (res.error) {
+      alert(res.error.message)
+      return
+    }
+    setBill({ ...bill, status: 'SENT' })
+  }
+
+  // Structured XML next to the PDF; problems are listed instead when the invoice does not conform
+  const handleExportEInvoice = async (format: 'ubl' | 'facturae') => {
+    if (!window.api || !bill) return
+    setEInvoiceExport(null)
+    const res = await window.api.exportEInvoice(bill.id, format)
+    if (res.error) {
+      setEInvoiceExport({ problems: res.problems || [res.error.message] })
+      return
+    }
+    setEInvoiceExport({ filePath: res.filePath, problems: [] })
+  }
+
   const handleOpenFolder = async () => {
     if (!window.api || !bill?.folderPath) return
 
@@ -137,11 +260,14 @@ export default function ViewBillPage() {
     )
   }
 
+  const isCreditNote = bill.kind === 'CREDIT_NOTE'
+  const canCredit = !isCreditNote && ISSUED_STATUSES.includes(bill.status)
+
     return (
       <div className="min-h-screen bg-background p-3 sm:p-6">
         <PageHeader 
           title="View Bill" 
-          subtitle={`Bill ${bill.number}`}
+          subtitle={isCreditNote ? `Credit note ${bill.number}` : `Bill ${bill.number}`}
           rightSlot={(
             <div className="flex flex-wrap gap-2">
               <button
@@ -150,15 +276,17 @@ export default function ViewBillPage() {
               >
                 Back to Bills
               </button>
-              <button
-                onClick={handleEditBill}
-                className="btn btn-primary"
-              >
-                <svg className="h-4 w-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5M18.5 2.5a2.121 2.121 0 113 3L12 15l-4 1 1-4 9.5-9.5z" />
-                </svg>
-                Edit Bill
-              </button>
+              {!isCreditNote && (
+                <button
+                  onClick={handleEditBill}
+                  className="btn btn-primary"
+                >
+                  <svg className="h-4 w-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5M18.5 2.5a2.121 2.121 0 113 3L12 15l-4 1 1-4 9.5-9.5z" />
+                  </svg>
+                  Edit Bill
+                </button>
+              )}
             </div>
           )}
         />
@@ -172,7 +300,7 @@ export default function ViewBillPage() {
             <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 sm:gap-6">
               <div>
                 <label className="block text-sm font-medium text-muted-foreground mb-1">
-                  Invoice Number
+                  {isCreditNote ? 'Credit Note Number' : 'Invoice Number'}
                 </label>
                 <div className="text-card-foreground font-medium text-lg">
                   {bill.number}
@@ -184,11 +312,9 @@ export default function ViewBillPage() {
                   Status
                 </label>
                 <span className={`px-3 py-1 rounded-full text-xs font-medium ${
-                  bill.status === 'PAID' 
-                    ? 'bg-emerald-100 text-emerald-800 dark:bg-emerald-900/30 dark:text-emerald-300' 
-                    : 'bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300'
+                  STATUS_BADGES[bill.status]?.className || STATUS_BADGES.SENT.className
                 }`}>
-                  {bill.status === 'PAID' ? '✓ Paid' : 'Unpaid'}
+                  {STATUS_BADGES[bill.status]?.label || 'Unpaid'}
                 </span>
               </div>
 
@@ -204,6 +330,11 @@ export default function ViewBillPage() {
                     {bill.clientEmail}
                   </div>
                 )}
+                {bill.projectName && (
+                  <div className="text-muted-foreground text-sm mt-1">
+                    Project: {bill.projectName}
+                  </div>
+                )}
               </div>
 
               <div>
@@ -213,6 +344,13 @@ export default function ViewBillPage() {
                 <div className="text-card-foreground font-medium text-xl">
                   {formatCurrency(bill.amount, bill.currency)}
                 </div>
+                {bill.baseCurrency && bill.currency !== bill.baseCurrency && (
+                  <div className="text-sm text-muted-foreground">
+                    {bill.baseAmount != null
+                      ? `≈ ${formatCurrency(bill.baseAmount, bill.baseCurrency)} at ${Number(bill.exchangeRate)}`
+                      : `No ${bill.currency} rate for this date yet`}
+                  </div>
+                )}
               </div>
 
               <div>
@@ -254,6 +392,154 @@ export default function ViewBillPage() {
               </div>
             </div>
 
+            {isCreditNote && (
+              <div className="bg-muted/50 rounded-lg p-4 text-sm space-y-1">
+                <div className="text-card-foreground">
+                  Rectifies invoice{' '}
+                  {bill.originalInvoiceId ? (
+                    <button onClick={() => navigate(`/bills/${bill.originalInvoiceId}/view`)} className="font-medium underline">
+                      {bill.originalNumber}
+                    </button>
+                  ) : bill.originalNumber}
+                </div>
+                {bill.creditReason && <div className="text-muted-foreground whitespace-pre-wrap">{bill.creditReason}</div>}
+              </div>
+            )}
+
+            {bill.creditNotes && bill.creditNotes.length > 0 && (
+              <div>
+                <label className="block text-sm font-medium text-muted-foreground mb-2">
+                  Credit Notes
+                </label>
+                <div className="space-y-1 text-sm">
+                  {bill.creditNotes.map(note => (
+                    <div key={note.id} className="flex justify-between">
+                      <button onClick={() => navigate(`/bills/${note.id}/view`)} className="font-medium underline text-card-foreground">
+                        {note.number}
+                      </button>
+                      <span className="text-muted-foreground">{formatDate(note.issueDate)}</span>
+                      <span className="font-medium">{formatCurrency(note.amount, bill.currency)}</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {bill.lines && bill.lines.length > 0 && (
+              <div>
+                <label className="block text-sm font-medium text-muted-foreground mb-2">
+                  Lines
+                </label>
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-muted-foreground border-b">
+                        <th className="py-2 pr-2 font-medium">Description</th>
+                        <th className="py-2 px-2 font-medium text-right">Qty</th>
+                        <th className="py-2 px-2 font-medium text-right">Unit price</th>
+                        <th className="py-2 px-2 font-medium text-right">Disc.</th>
+                        <th className="py-2 px-2 font-medium text-right">Tax</th>
+                        <th className="py-2 pl-2 font-medium text-right">Amount</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {bill.lines.map(line => (
+                        <tr key={line.id} className="border-b last:border-0 align-top">
+                          <td className="py-2 pr-2 text-card-foreground whitespace-pre-wrap break-words">{line.description}</td>
+                          <td className="py-2 px-2 text-right">{parseFloat(line.quantity)}{line.unit ? ` ${line.unit}` : ''}</td>
+                          <td className="py-2 px-2 text-right">{formatCurrency(line.unitPrice, bill.currency)}</td>
+                          <td className="py-2 px-2 text-right">{parseFloat(line.discount) ? `${parseFloat(line.discount)}%` : '—'}</td>
+                          <td className="py-2 px-2 text-right">{parseFloat(line.taxRate) ? `${parseFloat(line.taxRate)}%` : '—'}</td>
+                          <td className="py-2 pl-2 text-right font-medium">{formatCurrency(line.amount, bill.currency)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+                {bill.totals && (
+                  <div className="mt-3 space-y-1 text-sm">
+                    <div className="flex justify-between text-muted-foreground">
+                      <span>Subtotal</span>
+                      <span>{formatCurrency(bill.totals.subtotal, bill.currency)}</span>
+                    </div>
+                    {bill.totals.breakdown.map((entry, idx) => (
+                      <div key={idx} className="flex justify-between text-muted-foreground">
+                        <span>{entry.name} <span className="text-xs">on {formatCurrency(entry.base, bill.currency)}</span></span>
+                        <span>{formatCurrency(entry.amount, bill.currency)}</span>
+                      </div>
+                    ))}
+                    <div className="flex justify-between font-semibold text-card-foreground">
+                      <span>Total</span>
+                      <span>{formatCurrency(bill.totals.total, bill.currency)}</span>
+                    </div>
+                    {bill.totals.legalMentions.map((mention, idx) => (
+                      <div key={idx} className="text-xs text-muted-foreground pt-1">{mention}</div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+
+            {!isCreditNote && bill.balance && (
+              <div>
+                <label className="block text-sm font-medium text-muted-foreground mb-2">
+                  Payments
+                </label>
+                <InvoicePayments
+                  invoiceId={bill.id}
+                  currency={bill.currency}
+                  payments={bill.payments || []}
+                  balance={bill.balance}
+                  onChange={(payments, balance) => setBill(prev => prev && { ...prev, payments, balance, status: balance.status })}
+                />
+              </div>
+            )}
+
+            {(emails.length > 0 || pendingEmails.length > 0) && (
+              <div>
+                <label className="block text-sm font-medium text-muted-foreground mb-2">
+                  Email History
+                </label>
+                <div className="space-y-2 text-sm">
+                  {pendingEmails.map(email => (
+                    <div key={email.id} className="rounded-lg bg-amber-50 dark:bg-amber-900/20 p-2">
+                      <div className="flex justify-between gap-4">
+                        <span className="font-medium text-card-foreground break-words">{email.subject}</span>
+                        <span className={`whitespace-nowrap ${email.status === 'FAILED' ? 'text-destructive' : 'text-amber-700 dark:text-amber-300'}`}>
+                          {email.status === 'FAILED'
+                            ? `Gave up after ${email.attempts} attempts`
+                            : `Queued · next try ${new Date(email.nextAttemptAt).toLocaleString()}`}
+                        </span>
+                      </div>
+                      <div className="flex justify-between gap-4 text-xs text-muted-foreground">
+                        <span className="break-words">
+                          {EMAIL_SOURCES[email.source]} · To {email.recipients.join(', ')}
+                          {email.lastError && ` · ${email.lastError}`}
+                        </span>
+                        <button onClick={() => handleRetryEmail(email.id)} className="btn btn-ghost btn-sm">Retry now</button>
+                      </div>
+                    </div>
+                  ))}
+                  {emails.map(email => (
+                    <div key={email.id} className="rounded-lg bg-muted/30 p-2">
+                      <div className="flex justify-between gap-4">
+                        <span className="font-medium text-card-foreground break-words">{email.subject}</span>
+                        <span className={`whitespace-nowrap ${email.status === 'FAILED' ? 'text-destructive' : 'text-muted-foreground'}`}>
+                          {email.status === 'FAILED' ? 'Failed' : 'Sent'} {new Date(email.sentAt).toLocaleString()}
+                        </span>
+                      </div>
+                      <div className="text-xs text-muted-foreground break-words">
+                        {EMAIL_SOURCES[email.source]} · To {email.recipients.join(', ')}
+                        {email.cc.length > 0 && ` · CC ${email.cc.join(', ')}`}
+                        {email.messageId && ` · ${email.messageId}`}
+                      </div>
+                      {email.error && <div className="text-xs text-destructive break-words">{email.error}</div>}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
             {bill.description && (
               <div>
                 <label className="block text-sm font-medium text-muted-foreground mb-2">
@@ -276,17 +562,52 @@ export default function ViewBillPage() {
               </div>
             )}
 
+            {eInvoiceExport && (
+              eInvoiceExport.filePath ? (
+                <div className="text-sm p-3 rounded-lg bg-emerald-100 text-emerald-800 dark:bg-emerald-900/30 dark:text-emerald-300 break-all">
+                  Saved {eInvoiceExport.filePath}
+                </div>
+              ) : (
+                <div className="text-sm p-3 rounded-lg bg-destructive/10 text-destructive">
+                  <div className="font-medium mb-1">The e-invoice was not saved:</div>
+                  <ul className="list-disc pl-5">
+                    {eInvoiceExport.problems.map((problem, idx) => (
+                      <li key={idx}>{problem}</li>
+                    ))}
+                  </ul>
+                </div>
+              )
+            )}
+
             {/* Actions */}
             <div className="flex flex-wrap gap-3 pt-4 border-t">
-              <button
-                onClick={handleEditBill}
-                className="btn btn-primary"
-              >
-                <svg className="h-4 w-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5M18.5 2.5a2.121 2.121 0 113 3L12 15l-4 1 1-4 9.5-9.5z" />
-                </svg>
-                Edit Bill
-              </button>
+              {!isCreditNote && (
+                <button
+                  onClick={handleEditBill}
+                  className="btn btn-primary"
+                >
+                  <svg className="h-4 w-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5M18.5 2.5a2.121 2.121 0 113 3L12 15l-4 1 1-4 9.5-9.5z" />
+                  </svg>
+                  Edit Bill
+                </button>
+              )}
+              {bill.status === 'DRAFT' && (
+                <button
+                  onClick={handleMarkSent}
+                  className="btn btn-outline"
+                >
+                  Mark as Sent
+                </button>
+              )}
+              {canCredit && (
+                <button
+                  onClick={handleCreditNote}
+                  className="btn btn-outline"
+                >
+                  Issue Credit Note
+                </button>
+              )}
               {bill.folderPath && (
                 <button
                   onClick={handleOpenFolder}
@@ -298,6 +619,16 @@ export default function ViewBillPage() {
                   Open Folder
                 </button>
               )}
+              {bill.folderPath && (
+                <>
+                  <button onClick={() => handleExportEInvoice('ubl')} className="btn btn-outline" title="UBL 2.1, Peppol BIS Billing 3.0">
+                    Export UBL
+                  </button>
+                  <button onClick={() => handleExportEInvoice('facturae')} className="btn btn-outline" title="Facturae 3.2.2, unsigned">
+                    Export Facturae
+                  </button>
+                </>
+              )}
             </div>
           </div>
         </div>
@@ -7,21 +7,34 @@ import { SmartSearch } from '../../components/SmartSearch'
 interface Bill {
   id: string
   number: string
+  clientId?: string
   clientName: string
   clientEmail?: string
   issueDate: string
   dueDate?: string
   amount: string
   currency: string
+  baseAmount?: string | null // In the base currency; null until a rate for the issue date exists
   status: string
   filePath?: string
   folderPath?: string
   notes?: string
   paidAt?: string
+  kind?: 'INVOICE' | 'CREDIT_NOTE'
+  outstanding?: string
   createdAt: string
   updatedAt: string
 }
 
+// Payment status badges; drafts and sent invoices show as unpaid
+const STATUS_BADGES: Record<string, { label: string; className: string }> = {
+  PAID: { label: '✓ Paid', className: 'bg-emerald-100 text-emerald-800 dark:bg-emerald-900/30 dark:text-emerald-300' },
+  PARTIALLY_PAID: { label: 'Partially paid', className: 'bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-300' },
+  OVERDUE: { label: 'Overdue', className: 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300' },
+  SENT: { label: 'Unpaid', className: 'bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300' },
+  CANCELLED: { label: 'Cancelled', className: 'bg-muted text-muted-foreground' }
+}
+
 interface SearchFilters {
   text: string
   year?: string
@@ -42,6 +55,7 @@ interface Predictor {
 export default function BillsPage() {
   const navigate = useNavigate()
   const [bills, setBills] = useState<Bill[]>([])
+  const [baseCurrency, setBaseCurrency] = useState('EUR')
   const [filteredBills, setFilteredBills] = useState<Bill[]>([])
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
@@ -106,7 +120,7 @@ export default function BillsPage() {
       .forEach(([status, count]) => {
         preds.push({
           id: `status-${status}`,
-          label: status === 'PAID' ? 'Paid' : 'Unpaid',
+          label: status === 'PAID' ? 'Paid' : STATUS_BADGES[status]?.label || 'Unpaid',
           type: 'status',
           value: status,
           count
@@ -185,6 +199,7 @@ export default function BillsPage() {
       }
       const data = result as any
       setBills(data.bills || [])
+      setBaseCurrency(data.baseCurrency || 'EUR')
     } catch (error) {
       // Fallback to empty list if API unavailable
       setBills([])
@@ -194,12 +209,17 @@ export default function BillsPage() {
   }
 
   const handleTogglePaid = async (bill: Bill) => {
-    if (!window.api) return
+    if (!window.api || bill.status === 'CANCELLED') return
+
+    // Paid invoices have payments, which are removed from the bill's page;
+    // paid credit notes are issued and stay paid
+    if (bill.status === 'PAID') {
+      navigate(`/bills/${bill.id}/view`)
+      return
+    }
 
-    const newStatus = bill.status === 'PAID' ? 'DRAFT' : 'PAID'
-    
     try {
-      const result = await window.api.updateBillStatus(bill.id, newStatus)
+      const result = await window.api.updateBillStatus(bill.id, 'PAID')
       
       if (result.error) {
         alert(`Failed to update status: ${result.error.message}`)
@@ -209,7 +229,7 @@ export default function BillsPage() {
       // Update local state immediately for better UX
       setBills(bills.map(b => 
         b.id === bill.id 
-          ? { ...b, status: newStatus, paidAt: newStatus === 'PAID' ? new Date().toISOString() : undefined }
+          ? { ...b, status: 'PAID', paidAt: new Date().toISOString(), outstanding: '0.00' }
           : b
       ))
     } catch (error) {
@@ -232,6 +252,12 @@ export default function BillsPage() {
         return
       }
       
+      // Drafts numbered from a series are cancelled rather than removed
+      if (result.cancelled) {
+        setBills(bills.map(b => b.id === bill.id ? { ...b, status: 'CANCELLED' } : b))
+        return
+      }
+
       // Remove from local state
       setBills(bills.filter(b => b.id !== bill.id))
     } catch (error) {
@@ -368,6 +394,11 @@ export default function BillsPage() {
                 <tr key={bill.id} className="border-b  hover:bg-muted/50 transition-colors">
                   <td className="p-3 font-medium text-card-foreground">
                     {bill.number}
+                    {bill.kind === 'CREDIT_NOTE' && (
+                      <span className="ml-2 px-2 py-0.5 rounded-full text-xs font-medium bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-300">
+                        Credit note
+                      </span>
+                    )}
                   </td>
                   <td className="p-3">
                     <div>
@@ -382,17 +413,23 @@ export default function BillsPage() {
                   </td>
                   <td className="p-3 font-medium text-card-foreground">
                     {formatCurrency(bill.amount, bill.currency)}
+                    {bill.currency !== baseCurrency && (
+                      <div className="text-xs text-muted-foreground">
+                        {bill.baseAmount != null ? `≈ ${formatCurrency(bill.baseAmount, baseCurrency)}` : `No ${bill.currency} rate yet`}
+                      </div>
+                    )}
+                    {(bill.status === 'PARTIALLY_PAID' || bill.status === 'OVERDUE') && bill.outstanding && (
+                      <div className="text-xs text-muted-foreground">{formatCurrency(bill.outstanding, bill.currency)} due</div>
+                    )}
                   </td>
                   <td className="p-3">
                     <button
                       onClick={() => handleTogglePaid(bill)}
                       className={`px-3 py-1 rounded-full border-none text-xs font-medium cursor-pointer transition-all hover:scale-105 active:scale-95 ${
-                        bill.status === 'PAID' 
-                          ? 'bg-emerald-100 text-emerald-800 dark:bg-emerald-900/30 dark:text-emerald-300' 
-                          : 'bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300'
+                        STATUS_BADGES[bill.status]?.className || STATUS_BADGES.SENT.className
                       }`}
                     >
-                      {bill.status === 'PAID' ? '✓ Paid' : 'Unpaid'}
+                      {STATUS_BADGES[bill.status]?.label || 'Unpaid'}
                     </button>
                   </td>
                   <td className="p-3">
@@ -460,6 +497,7 @@ export default function BillsPage() {
         isOpen={emailModalOpen}
         onClose={handleCloseEmailModal}
         bill={selectedBillForEmail}
+        onSent={fetchBills}
       />
     </div>
   )
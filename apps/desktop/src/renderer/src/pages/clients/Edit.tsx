@@ -1,10 +1,19 @@
 import { useEffect, useState } from 'react'
 import { useParams, useNavigate } from 'react-router-dom'
 
+// Languages invoices and emails can be written in
+const LANGUAGES = [
+  { value: 'ca', label: 'Català' },
+  { value: 'es', label: 'Español' },
+  { value: 'en', label: 'English' },
+  { value: 'fr', label: 'Français' }
+]
+
 export default function EditClientPage() {
   const navigate = useNavigate()
   const { id: clientId } = useParams<{ id: string }>()
-  const [form, setForm] = useState({ name: '', email: '', taxId: '', address: '', phone: '' })
+  const [form, setForm] = useState({ name: '', email: '', taxId: '', address: '', phone: '', language: '', locale: '' })
+  const [remindersOptOut, setRemindersOptOut] = useState(false)
   const [loading, setLoading] = useState(true)
   const [saving, setSaving] = useState(false)
   const [error, setError] = useState<string | null>(null)
@@ -24,8 +33,11 @@ export default function EditClientPage() {
           email: c.email || '',
           taxId: c.taxId || '',
           address: c.address || '',
-          phone: c.phone || ''
+          phone: c.phone || '',
+          language: c.language || '',
+          locale: c.locale || ''
         })
+        setRemindersOptOut(!!c.remindersOptOut)
       } catch (e) {
         setError(e instanceof Error ? e.message : 'Failed to load client')
       } finally {
@@ -51,7 +63,10 @@ export default function EditClientPage() {
         email: form.email.trim() || undefined, 
         taxId: form.taxId.trim() || undefined, 
         address: form.address.trim() || undefined, 
-        phone: form.phone.trim() || undefined 
+        phone: form.phone.trim() || undefined,
+        remindersOptOut,
+        language: form.language,
+        locale: form.locale.trim()
       })
       if (res.error) throw new Error(res.error.message)
       navigate('/clients')
@@ -123,6 +138,35 @@ export default function EditClientPage() {
               className="w-full p-3 rounded-xl bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-primary/20 transition-all" 
             />
           </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium mb-2 text-card-foreground">Invoice language</label>
+              <select 
+                value={form.language} 
+                onChange={e=>set('language', e.target.value)} 
+                className="w-full p-3 rounded-xl bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-primary/20 transition-all"
+              >
+                <option value="">Default (Català)</option>
+                {LANGUAGES.map(language => <option key={language.value} value={language.value}>{language.label}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium mb-2 text-card-foreground">Number and date format</label>
+              <input 
+                value={form.locale} 
+                onChange={e=>set('locale', e.target.value)} 
+                placeholder="As the language, or e.g. en-US" 
+                className="w-full p-3 rounded-xl bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-primary/20 transition-all" 
+              />
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground -mt-2 m-0">
+            Invoices for this client are printed in this language, and emails use the template of that language when the library has one.
+          </p>
+          <label className="flex items-center gap-2 text-sm text-card-foreground">
+            <input type="checkbox" checked={remindersOptOut} onChange={e => setRemindersOptOut(e.target.checked)} />
+            Don't send payment reminders to this client
+          </label>
           <div className="flex gap-3 pt-2 border-t border-border mt-2">
             <button type="button" onClick={()=>navigate(-1)} className="btn btn-secondary btn-lg">Cancel</button>
             <button type="submit" disabled={saving} className="btn btn-primary btn-lg">{saving ? 'Saving...' : 'Save Changes'}</button>
@@ -1,8 +1,12 @@
 import { useEffect, useState } from 'react'
+import { Link } from 'react-router-dom'
 import { PageHeader } from '../../components/PageHeader'
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, ResponsiveContainer, LineChart, Line } from 'recharts'
 
 interface DashboardStats {
+  baseCurrency: string // Every total below is in this currency
+  byCurrency: Array<{ currency: string; income: number; expenses: number }> // Original amounts, unconverted
+  missingRates: Array<{ currency: string; fromDate: string; documents: number }>
   totals: {
     income: number
     expenses: number
@@ -28,8 +32,29 @@ interface DashboardStats {
   }[]
 }
 
+type AgingAmounts = Record<'current' | '1-30' | '31-60' | '61-90' | '90+' | 'total', string>
+
+interface AgingReport {
+  asOf: string
+  clients: Array<AgingAmounts & { clientId: string; clientName: string; currency: string; invoiceCount: number }>
+  totals: Array<AgingAmounts & { currency: string }>
+  baseCurrency: string
+  baseTotals: AgingAmounts
+  unconverted: number
+}
+
+const AGING_COLUMNS: Array<{ key: keyof AgingAmounts; label: string }> = [
+  { key: 'current', label: 'Current' },
+  { key: '1-30', label: '1–30 days' },
+  { key: '31-60', label: '31–60 days' },
+  { key: '61-90', label: '61–90 days' },
+  { key: '90+', label: '90+ days' },
+  { key: 'total', label: 'Total' }
+]
+
 export default function DashboardPage() {
   const [stats, setStats] = useState<DashboardStats | null>(null)
+  const [aging, setAging] = useState<AgingReport | null>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
 
@@ -51,6 +76,11 @@ export default function DashboardPage() {
       
       // Cast result to DashboardStats since we know the structure from our IPC handler
       setStats(result as DashboardStats)
+
+      const agingResult = await window.api.getAgingReport()
+      if (!agingResult.error && agingResult.report) {
+        setAging(agingResult.report)
+      }
     } catch (err) {
       setError('Failed to load dashboard statistics')
     } finally {
@@ -58,7 +88,7 @@ export default function DashboardPage() {
     }
   }
 
-  const formatCurrency = (amount: number, currency = 'EUR') => {
+  const formatCurrency = (amount: number, currency = stats?.baseCurrency || 'EUR') => {
     return new Intl.NumberFormat('en-US', {
       style: 'currency',
       currency,
@@ -66,6 +96,15 @@ export default function DashboardPage() {
     }).format(amount)
   }
 
+  // Chart axis labels such as €12k, in the base currency
+  const formatAxisThousands = (value: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: stats?.baseCurrency || 'EUR',
+      maximumFractionDigits: 0,
+    }).format(value / 1000) + 'k'
+  }
+
   if (loading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -93,6 +132,14 @@ export default function DashboardPage() {
   return (
     <div className="space-y-8">
       <PageHeader title="Financial Dashboard" subtitle="Overview of your business finances" />
+
+      {stats.missingRates.length > 0 && (
+        <div className="text-sm p-3 rounded-lg bg-amber-100 text-amber-900 dark:bg-amber-900/30 dark:text-amber-200">
+          Some amounts are left out of the totals because they have no rate to {stats.baseCurrency}:{' '}
+          {stats.missingRates.map(entry => `${entry.currency} from ${entry.fromDate} (${entry.documents})`).join(', ')}.{' '}
+          <Link to="/settings/currencies" className="underline">Add exchange rates</Link>
+        </div>
+      )}
       
       {/* Total Financial Summary */}
       <section className="space-y-4">
@@ -125,8 +172,98 @@ export default function DashboardPage() {
             </div>
           </div>
         </div>
+        {stats.byCurrency.some(entry => entry.currency !== stats.baseCurrency) && (
+          <div className="apple-card bg-card p-6">
+            <h3 className="text-lg font-semibold text-card-foreground mb-2">By Currency</h3>
+            <p className="text-sm text-muted-foreground mb-3">Original amounts before conversion to {stats.baseCurrency}.</p>
+            <div className="space-y-2">
+              {stats.byCurrency.map(entry => (
+                <div key={entry.currency} className="flex justify-between items-center text-sm">
+                  <span className="text-muted-foreground">{entry.currency}</span>
+                  <span>
+                    <span className="text-green-500">{formatCurrency(entry.income, entry.currency)}</span>
+                    {' / '}
+                    <span className="text-red-500">{formatCurrency(entry.expenses, entry.currency)}</span>
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
       </section>
 
+      {/* Receivables Aging */}
+      {aging && (
+        <section className="space-y-4">
+          <h2 className="text-2xl font-bold text-card-foreground">Receivables Aging</h2>
+          {aging.clients.length > 0 ? (
+            <div className="apple-card bg-card p-6 overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-muted-foreground border-b">
+                    <th className="py-2 pr-2 font-medium">Client</th>
+                    {AGING_COLUMNS.map(column => (
+                      <th key={column.key} className="py-2 px-2 font-medium text-right">{column.label}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {aging.clients.map(row => (
+                    <tr key={`${row.clientId}-${row.currency}`} className="border-b last:border-0">
+                      <td className="py-2 pr-2 text-card-foreground">
+                        {row.clientName}
+                        <span className="text-xs text-muted-foreground ml-2">{row.invoiceCount} invoice{row.invoiceCount === 1 ? '' : 's'}</span>
+                      </td>
+                      {AGING_COLUMNS.map(column => (
+                        <td
+                          key={column.key}
+                          className={`py-2 px-2 text-right ${column.key === 'total' ? 'font-medium' : ''} ${column.key !== 'current' && column.key !== 'total' && parseFloat(row[column.key]) > 0 ? 'text-red-500' : ''}`}
+                        >
+                          {parseFloat(row[column.key]) ? formatCurrency(parseFloat(row[column.key]), row.currency) : '—'}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+                <tfoot>
+                  {aging.totals.map(total => (
+                    <tr key={total.currency} className="border-t font-semibold text-card-foreground">
+                      <td className="py-2 pr-2">Total{aging.totals.length > 1 ? ` (${total.currency})` : ''}</td>
+                      {AGING_COLUMNS.map(column => (
+                        <td key={column.key} className="py-2 px-2 text-right">
+                          {formatCurrency(parseFloat(total[column.key]), total.currency)}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                  {aging.totals.some(total => total.currency !== aging.baseCurrency) && (
+                    <tr className="border-t font-semibold text-card-foreground">
+                      <td className="py-2 pr-2">
+                        Total in {aging.baseCurrency}
+                        {aging.unconverted > 0 && (
+                          <div className="text-xs font-normal text-muted-foreground">
+                            {aging.unconverted} invoice{aging.unconverted === 1 ? '' : 's'} without a rate left out
+                          </div>
+                        )}
+                      </td>
+                      {AGING_COLUMNS.map(column => (
+                        <td key={column.key} className="py-2 px-2 text-right">
+                          {formatCurrency(parseFloat(aging.baseTotals[column.key]), aging.baseCurrency)}
+                        </td>
+                      ))}
+                    </tr>
+                  )}
+                </tfoot>
+              </table>
+            </div>
+          ) : (
+            <div className="apple-card bg-card p-6 text-center">
+              <div className="text-muted-foreground">Nothing is owed right now.</div>
+            </div>
+          )}
+        </section>
+      )}
+
       {/* Year Comparison */}
       <section className="space-y-4">
         <h2 className="text-2xl font-bold text-card-foreground">Year Comparison</h2>
@@ -200,7 +337,7 @@ export default function DashboardPage() {
                       <YAxis 
                         tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 12 }}
                         axisLine={{ stroke: 'hsl(var(--border))' }}
-                        tickFormatter={(value) => `€${(value / 1000).toFixed(0)}k`}
+                        tickFormatter={formatAxisThousands}
                       />
                       <Bar dataKey="income" fill="#22c55e" name="Income" />
                       <Bar dataKey="expenses" fill="#ef4444" name="Expenses" />
@@ -223,7 +360,7 @@ export default function DashboardPage() {
                       <YAxis 
                         tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 12 }}
                         axisLine={{ stroke: 'hsl(var(--border))' }}
-                        tickFormatter={(value) => `€${(value / 1000).toFixed(0)}k`}
+                        tickFormatter={formatAxisThousands}
                       />
                       <Line 
                         type="monotone" 
@@ -0,0 +1,212 @@
+import { useEffect, useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { PageHeader } from '../../components/PageHeader'
+import { TaxRateOption } from '../../components/InvoiceLinesEditor'
+import { InvoiceTaxFields } from '../../components/InvoiceTaxFields'
+
+interface BillableExpense {
+  id: string
+  vendor: string
+  category: string
+  date: string
+  amount: string
+  currency: string
+  markup: string
+  billedAmount: string
+  notes: string | null
+}
+
+interface DraftInvoice {
+  id: string
+  number: string
+  clientId: string
+  currency: string
+  kind: string
+}
+
+const fieldClass = 'w-full p-3 rounded-xl text-base bg-background text-foreground placeholder-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary/20 transition-all'
+
+// Pass a client's unbilled expenses through onto a new invoice or one of its drafts
+export default function ExpensesBillPage() {
+  const navigate = useNavigate()
+  const [clients, setClients] = useState<Array<{ id: string; name: string }>>([])
+  const [taxRates, setTaxRates] = useState<TaxRateOption[]>([])
+  const [drafts, setDrafts] = useState<DraftInvoice[]>([])
+  const [formData, setFormData] = useState({
+    clientId: '',
+    invoiceId: '', // Empty bills on a new invoice
+    taxRateId: '',
+    withholdingRateId: ''
+  })
+  const [expenses, setExpenses] = useState<BillableExpense[]>([])
+  const [selected, setSelected] = useState<string[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const load = async () => {
+      if (!window.api) return
+      const api: any = window.api
+      const [clientsRes, ratesRes, draftsRes] = await Promise.all([api.getClients(), api.getTaxRates(), api.getBills({ status: 'DRAFT' })])
+      if (!clientsRes.error) setClients(clientsRes.clients || [])
+      if (!draftsRes.error) setDrafts((draftsRes.bills || []).filter((bill: DraftInvoice) => bill.kind !== 'CREDIT_NOTE'))
+      if (!ratesRes.error) {
+        setTaxRates(ratesRes.rates)
+        const defaultRate = ratesRes.rates.find((r: any) => r.isDefault)
+        setFormData(prev => ({ ...prev, taxRateId: prev.taxRateId || defaultRate?.id || '' }))
+      }
+    }
+    load()
+  }, [])
+
+  // Unbilled expenses of the selected client, all picked to start with
+  useEffect(() => {
+    let active = true
+    const run = async () => {
+      if (!window.api || !formData.clientId) {
+        setExpenses([])
+        setSelected([])
+        return
+      }
+      const res = await window.api.getUnbilledExpenses(formData.clientId)
+      if (!active) return
+      if (res.error) {
+        setError(res.error.message)
+        return
+      }
+      setError(null)
+      setExpenses(res.expenses)
+      setSelected(res.expenses.map((expense: BillableExpense) => expense.id))
+    }
+    run()
+    return () => { active = false }
+  }, [formData.clientId])
+
+  const handleInputChange = (field: string, value: string) => {
+    setFormData(prev => ({ ...prev, [field]: value, ...(field === 'clientId' ? { invoiceId: '' } : {}) }))
+  }
+
+  const toggle = (expenseId: string) => {
+    setSelected(prev => prev.includes(expenseId) ? prev.filter(id => id !== expenseId) : [...prev, expenseId])
+  }
+
+  const handleBill = async () => {
+    if (!window.api || selected.length === 0) return
+    setLoading(true)
+    try {
+      const res = await window.api.billExpenses({
+        clientId: formData.clientId,
+        expenseIds: selected,
+        invoiceId: formData.invoiceId || null,
+        taxRateId: formData.taxRateId || null,
+        withholdingRateId: formData.withholdingRateId || null
+      })
+      if (res.error) {
+        setError(res.error.message)
+        return
+      }
+      navigate(`/bills/${res.invoiceId}/view`)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const clientDrafts = drafts.filter(draft => draft.clientId === formData.clientId)
+  const picked = expenses.filter(expense => selected.includes(expense.id))
+  const currencies = [...new Set(picked.map(expense => expense.currency))]
+
+  return (
+    <div className="min-h-screen bg-background p-3 sm:p-6">
+      <PageHeader title="Bill Expenses" subtitle="Pass costs paid for a client through onto an invoice, one line per expense" />
+
+      <div className="apple-card bg-card p-4 sm:p-6 lg:p-8 w-full">
+        {error && (
+          <div className="bg-destructive/10 border-destructive/20 rounded-xl p-3 mb-6 text-destructive text-sm">{error}</div>
+        )}
+
+        <div className="grid gap-5">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium mb-2 text-card-foreground">Client *</label>
+              <select value={formData.clientId} onChange={(e) => handleInputChange('clientId', e.target.value)} className={fieldClass}>
+                <option value="">— Select client —</option>
+                {clients.map(c => (
+                  <option key={c.id} value={c.id}>{c.name}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium mb-2 text-card-foreground">Invoice</label>
+              <select value={formData.invoiceId} onChange={(e) => handleInputChange('invoiceId', e.target.value)} className={fieldClass} disabled={!formData.clientId}>
+                <option value="">New draft invoice</option>
+                {clientDrafts.map(draft => (
+                  <option key={draft.id} value={draft.id}>Add to draft {draft.number} ({draft.currency})</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {!formData.invoiceId && (
+            <InvoiceTaxFields
+              taxRates={taxRates}
+              taxRateId={formData.taxRateId}
+              withholdingRateId={formData.withholdingRateId}
+              onChange={(field, value) => handleInputChange(field, value)}
+            />
+          )}
+
+          {formData.clientId && (
+            expenses.length === 0 ? (
+              <div className="text-muted-foreground text-sm py-6 text-center">No unbilled expenses for this client. Mark expenses as billable to it when you add them.</div>
+            ) : (
+              <div>
+                <div className="text-sm font-medium text-card-foreground mb-2">
+                  {picked.length} of {expenses.length} {expenses.length === 1 ? 'expense' : 'expenses'} picked
+                </div>
+                <table className="w-full border-collapse">
+                  <thead>
+                    <tr className="bg-muted border-b">
+                      <th className="p-3" />
+                      <th className="p-3 text-left font-semibold text-muted-foreground">Date</th>
+                      <th className="p-3 text-left font-semibold text-muted-foreground">Expense</th>
+                      <th className="p-3 text-right font-semibold text-muted-foreground">Amount</th>
+                      <th className="p-3 text-right font-semibold text-muted-foreground">Markup</th>
+                      <th className="p-3 text-right font-semibold text-muted-foreground">Billed</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {expenses.map(expense => (
+                      <tr key={expense.id} className="border-b">
+                        <td className="p-3">
+                          <input type="checkbox" checked={selected.includes(expense.id)} onChange={() => toggle(expense.id)} />
+                        </td>
+                        <td className="p-3 text-card-foreground">{new Date(`${expense.date}T00:00:00`).toLocaleDateString()}</td>
+                        <td className="p-3">
+                          <div className="text-card-foreground">{expense.vendor}</div>
+                          <div className="text-sm text-muted-foreground">{expense.category}</div>
+                        </td>
+                        <td className="p-3 text-right text-card-foreground">{expense.currency} {Number(expense.amount).toFixed(2)}</td>
+                        <td className="p-3 text-right text-card-foreground">{Number(expense.markup) > 0 ? `${Number(expense.markup)}%` : '—'}</td>
+                        <td className="p-3 text-right font-medium text-card-foreground">{expense.currency} {Number(expense.billedAmount).toFixed(2)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                {!formData.invoiceId && currencies.length > 1 && (
+                  <div className="text-sm text-destructive mt-3">The picked expenses are in {currencies.join(' and ')}; bill each currency on its own invoice.</div>
+                )}
+              </div>
+            )
+          )}
+
+          <div className="flex gap-3 pt-2 border-t mt-2">
+            <button type="button" onClick={() => navigate('/expenses')} className="btn btn-secondary btn-lg">Cancel</button>
+            <button type="button" onClick={handleBill} disabled={loading || picked.length === 0} className="btn btn-primary btn-lg">
+              {loading ? 'Billing...' : formData.invoiceId ? 'Add to Invoice' : 'Create Invoice'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
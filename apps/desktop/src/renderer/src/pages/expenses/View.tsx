@@ -13,6 +13,9 @@ interface Expense {
   notes?: string
   invoiceNumber?: string
   invoiceId?: string
+  projectName?: string | null
+  billableClientName?: string | null
+  markup?: string | null
   createdAt: string
   updatedAt: string
 }
@@ -176,13 +179,31 @@ export default function ViewExpensePage() {
 
               <div>
                 <label className="block text-sm font-medium text-muted-foreground mb-1">
-                  Invoice Number
+                  Rebilling
                 </label>
                 <div className="text-card-foreground">
-                  {expense.invoiceNumber || 'N/A'}
+                  {expense.billableClientName
+                    ? `Billable to ${expense.billableClientName}${Number(expense.markup) > 0 ? ` (+${Number(expense.markup)}%)` : ''}`
+                    : 'Not billable'}
                 </div>
+                {expense.invoiceId && (
+                  <button onClick={() => navigate(`/bills/${expense.invoiceId}/view`)} className="btn btn-link text-sm">
+                    Billed on invoice {expense.invoiceNumber}
+                  </button>
+                )}
               </div>
 
+              {expense.projectName && (
+                <div>
+                  <label className="block text-sm font-medium text-muted-foreground mb-1">
+                    Project
+                  </label>
+                  <div className="text-card-foreground">
+                    {expense.projectName}
+                  </div>
+                </div>
+              )}
+
               <div>
                 <label className="block text-sm font-medium text-muted-foreground mb-1">
                   Created At
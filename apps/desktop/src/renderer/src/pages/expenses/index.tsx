@@ -10,10 +10,14 @@ interface Expense {
   date: string
   amount: string
   currency: string
+  baseAmount?: string | null // In the base currency; null until a rate for the date exists
   filePath?: string
   notes?: string
   invoiceNumber?: string
   invoiceId?: string
+  projectName?: string | null
+  billableClientId?: string | null // Client the expense is rebilled to
+  billableClientName?: string | null
   createdAt: string
   updatedAt: string
 }
@@ -36,6 +40,7 @@ interface Predictor {
 export default function ExpensesPage() {
   const navigate = useNavigate()
   const [expenses, setExpenses] = useState<Expense[]>([])
+  const [baseCurrency, setBaseCurrency] = useState('EUR')
   const [filteredExpenses, setFilteredExpenses] = useState<Expense[]>([])
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
@@ -45,6 +50,10 @@ export default function ExpensesPage() {
     category: '',
     date: new Date().toISOString().split('T')[0],
     amount: '',
+    currency: '', // Empty uses the base currency
+    projectId: '',
+    billableClientId: '',
+    markup: '',
     notes: ''
   })
   const [formLoading, setFormLoading] = useState(false)
@@ -52,9 +61,19 @@ export default function ExpensesPage() {
   const [searchFilters, setSearchFilters] = useState<SearchFilters>({ text: '' })
   const [fileAttached, setFileAttached] = useState(false)
   const [attachedFilePath, setAttachedFilePath] = useState<string | null>(null)
+  const [projects, setProjects] = useState<Array<{ id: string; clientName: string; name: string; status: string }>>([])
+  const [clients, setClients] = useState<Array<{ id: string; name: string }>>([])
 
   useEffect(() => {
     fetchExpenses()
+    const loadProjects = async () => {
+      if (!window.api) return
+      const res = await window.api.getProjects()
+      if (!res.error) setProjects(res.projects.filter((p: { status: string }) => p.status !== 'COMPLETED'))
+      const clientsRes = await window.api.getClients()
+      if (!clientsRes.error) setClients(clientsRes.clients || [])
+    }
+    loadProjects()
   }, [])
 
   // Generate predictors from expenses data
@@ -182,6 +201,10 @@ export default function ExpensesPage() {
       category: '',
       date: new Date().toISOString().split('T')[0],
       amount: '',
+      currency: '',
+      projectId: '',
+      billableClientId: '',
+      markup: '',
       notes: ''
     })
     setError(null)
@@ -236,6 +259,10 @@ export default function ExpensesPage() {
         category: formData.category.trim(),
         date: formData.date,
         amount: formData.amount.trim(),
+        currency: formData.currency || undefined,
+        projectId: formData.projectId || null,
+        billableClientId: formData.billableClientId || null,
+        markup: formData.billableClientId && formData.markup ? formData.markup : undefined,
         notes: formData.notes.trim() || undefined,
         filePath: attachedFilePath || undefined
       }
@@ -294,6 +321,7 @@ export default function ExpensesPage() {
         return
       }
       setExpenses(result.expenses || [])
+      setBaseCurrency(result.baseCurrency || 'EUR')
     } catch (error) {
       // Fallback to empty list if API unavailable
       setExpenses([])
@@ -365,12 +393,17 @@ export default function ExpensesPage() {
         title="Expenses" 
         subtitle="Track your business expenses"
         rightSlot={(
-          <button
-            onClick={() => showForm ? cancelForm() : setShowForm(true)}
-            className={`btn btn-lg ${showForm ? 'btn-selected' : ''}`}
-          >
-            {showForm ? 'Cancel' : '+ Add Expense'}
-          </button>
+          <div className="flex gap-2">
+            <button onClick={() => navigate('/expenses/bill')} className="btn btn-lg">
+              Bill Expenses
+            </button>
+            <button
+              onClick={() => showForm ? cancelForm() : setShowForm(true)}
+              className={`btn btn-lg ${showForm ? 'btn-selected' : ''}`}
+            >
+              {showForm ? 'Cancel' : '+ Add Expense'}
+            </button>
+          </div>
         )}
       />
 
@@ -449,18 +482,80 @@ export default function ExpensesPage() {
                 <label className="block text-sm font-medium mb-2 text-card-foreground">
                   Amount *
                 </label>
-                <input
-                  type="number"
-                  step="0.01"
-                  value={formData.amount}
-                  onChange={(e) => setFormData(prev => ({ ...prev, amount: e.target.value }))}
-                  placeholder="0.00"
-                  className="w-full p-3  rounded-xl text-sm bg-background text-foreground placeholder-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary/20 transition-all"
-                  required
-                />
+                <div className="flex gap-2">
+                  <input
+                    type="number"
+                    step="0.01"
+                    value={formData.amount}
+                    onChange={(e) => setFormData(prev => ({ ...prev, amount: e.target.value }))}
+                    placeholder="0.00"
+                    className="w-full p-3  rounded-xl text-sm bg-background text-foreground placeholder-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary/20 transition-all"
+                    required
+                  />
+                  <select
+                    value={formData.currency || baseCurrency}
+                    onChange={(e) => setFormData(prev => ({ ...prev, currency: e.target.value }))}
+                    className="p-3 rounded-xl text-sm bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-primary/20 transition-all"
+                  >
+                    {['EUR', 'USD', 'GBP', 'CHF'].map(code => <option key={code} value={code}>{code}</option>)}
+                  </select>
+                </div>
               </div>
             </div>
 
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+              {projects.length > 0 && (
+                <div>
+                  <label className="block text-sm font-medium mb-2 text-card-foreground">
+                    Project
+                  </label>
+                  <select
+                    value={formData.projectId}
+                    onChange={(e) => setFormData(prev => ({ ...prev, projectId: e.target.value }))}
+                    className="w-full p-3  rounded-xl text-sm bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-primary/20 transition-all"
+                  >
+                    <option value="">— No project —</option>
+                    {projects.map(p => (
+                      <option key={p.id} value={p.id}>{p.clientName} · {p.name}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
+              <div>
+                <label className="block text-sm font-medium mb-2 text-card-foreground">
+                  Billable to
+                </label>
+                <select
+                  value={formData.billableClientId}
+                  onChange={(e) => setFormData(prev => ({ ...prev, billableClientId: e.target.value }))}
+                  className="w-full p-3  rounded-xl text-sm bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-primary/20 transition-all"
+                >
+                  <option value="">— Not billable —</option>
+                  {clients.map(c => (
+                    <option key={c.id} value={c.id}>{c.name}</option>
+                  ))}
+                </select>
+              </div>
+
+              {formData.billableClientId && (
+                <div>
+                  <label className="block text-sm font-medium mb-2 text-card-foreground">
+                    Markup %
+                  </label>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={formData.markup}
+                    onChange={(e) => setFormData(prev => ({ ...prev, markup: e.target.value }))}
+                    placeholder="0"
+                    className="w-full p-3  rounded-xl text-sm bg-background text-foreground placeholder-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary/20 transition-all"
+                  />
+                </div>
+              )}
+            </div>
+
             <div className="mb-5">
               <label className="block text-sm font-medium mb-2 text-card-foreground">
                 Notes
@@ -595,6 +690,14 @@ export default function ExpensesPage() {
                   </td>
                   <td className="p-3 font-medium text-card-foreground">
                     {expense.vendor}
+                    {expense.projectName && (
+                      <div className="text-xs font-normal text-muted-foreground">{expense.projectName}</div>
+                    )}
+                    {expense.invoiceId ? (
+                      <span className="inline-block mt-1 px-2 py-0.5 rounded-full text-xs font-medium bg-emerald-100 text-emerald-800 dark:bg-emerald-900/30 dark:text-emerald-300">Billed · {expense.invoiceNumber}</span>
+                    ) : expense.billableClientId && (
+                      <span className="inline-block mt-1 px-2 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300">Billable · {expense.billableClientName}</span>
+                    )}
                   </td>
                   <td className="p-3">
                     <span className="px-2 py-1 bg-secondary text-secondary-foreground rounded-full text-xs font-medium">
@@ -603,6 +706,11 @@ export default function ExpensesPage() {
                   </td>
                   <td className="p-3 font-medium text-card-foreground">
                     {formatCurrency(expense.amount, expense.currency)}
+                    {expense.currency !== baseCurrency && (
+                      <div className="text-xs text-muted-foreground">
+                        {expense.baseAmount != null ? `≈ ${formatCurrency(expense.baseAmount, baseCurrency)}` : `No ${expense.currency} rate yet`}
+                      </div>
+                    )}
                   </td>
                   <td className="p-3">
                     {expense.filePath ? (
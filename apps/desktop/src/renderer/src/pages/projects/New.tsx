@@ -0,0 +1,167 @@
+import { useEffect, useState } from 'react'
+import { useNavigate, useParams } from 'react-router-dom'
+import { PageHeader } from '../../components/PageHeader'
+
+const fieldClass = 'w-full p-3 rounded-xl text-base bg-background text-foreground placeholder-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary/20 transition-all'
+
+// New project, or /projects/:id/edit
+export default function ProjectFormPage() {
+  const navigate = useNavigate()
+  const { id } = useParams<{ id: string }>()
+  const [formData, setFormData] = useState({
+    clientId: '',
+    name: '',
+    budget: '',
+    hourlyRate: '',
+    status: 'ACTIVE' as 'ACTIVE' | 'ON_HOLD' | 'COMPLETED',
+    notes: ''
+  })
+  const [clients, setClients] = useState<Array<{ id: string; name: string }>>([])
+  const [loading, setLoading] = useState(false)
+  const [errors, setErrors] = useState<string[]>([])
+
+  useEffect(() => {
+    let mounted = true
+    const load = async () => {
+      if (!window.api) return
+      const clientsRes = await window.api.getClients()
+      if (!mounted) return
+      if (!clientsRes.error) setClients(clientsRes.clients || [])
+
+      if (id) {
+        const res = await window.api.getProject(id)
+        if (!mounted) return
+        if (res.error) {
+          setErrors([res.error.message])
+          return
+        }
+        const project = res.project
+        setFormData({
+          clientId: project.clientId,
+          name: project.name,
+          budget: project.budget || '',
+          hourlyRate: project.hourlyRate || '',
+          status: project.status,
+          notes: project.notes || ''
+        })
+      }
+    }
+    load()
+    return () => { mounted = false }
+  }, [id])
+
+  const handleInputChange = (field: string, value: string) => {
+    setFormData(prev => ({ ...prev, [field]: value }))
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!window.api) return
+    const validationErrors: string[] = []
+    if (!formData.clientId) validationErrors.push('Client is required')
+    if (!formData.name.trim()) validationErrors.push('Project name is required')
+    if (validationErrors.length > 0) {
+      setErrors(validationErrors)
+      return
+    }
+
+    setErrors([])
+    setLoading(true)
+    try {
+      const input = {
+        clientId: formData.clientId,
+        name: formData.name.trim(),
+        budget: formData.budget || null,
+        hourlyRate: formData.hourlyRate || null,
+        status: formData.status,
+        notes: formData.notes.trim() || null
+      }
+      const res = id ? await window.api.updateProject(id, input) : await window.api.createProject(input)
+      if (res.error) {
+        setErrors([res.error.message])
+        return
+      }
+      navigate('/projects')
+    } catch {
+      setErrors([id ? 'Failed to update project' : 'Failed to create project'])
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-background p-3 sm:p-6">
+      <PageHeader title={id ? 'Edit Project' : 'New Project'} subtitle={id ? formData.name : 'Track the income, expenses and hours of an engagement'} />
+
+      <div className="apple-card bg-card p-4 sm:p-6 lg:p-8 w-full max-w-3xl">
+        {errors.length > 0 && (
+          <div className="bg-destructive/10 border-destructive/20 rounded-xl p-3 mb-6">
+            {errors.map((error, idx) => (
+              <div key={idx} className="text-destructive text-sm">{error}</div>
+            ))}
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit}>
+          <div className="grid gap-5">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium mb-2 text-card-foreground">Client *</label>
+                <select value={formData.clientId} onChange={(e) => handleInputChange('clientId', e.target.value)} className={fieldClass} required>
+                  <option value="">— Select client —</option>
+                  {clients.map(c => (
+                    <option key={c.id} value={c.id}>{c.name}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium mb-2 text-card-foreground">Name *</label>
+                <input type="text" value={formData.name} onChange={(e) => handleInputChange('name', e.target.value)} placeholder="Website redesign" className={fieldClass} required />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              <div>
+                <label className="block text-sm font-medium mb-2 text-card-foreground">Budget</label>
+                <input type="number" min="0" step="0.01" value={formData.budget} onChange={(e) => handleInputChange('budget', e.target.value)} placeholder="Agreed with the client" className={fieldClass} />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium mb-2 text-card-foreground">Hourly Rate</label>
+                <input type="number" min="0" step="0.01" value={formData.hourlyRate} onChange={(e) => handleInputChange('hourlyRate', e.target.value)} placeholder="For tracked hours" className={fieldClass} />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium mb-2 text-card-foreground">Status</label>
+                <select value={formData.status} onChange={(e) => handleInputChange('status', e.target.value)} className={fieldClass}>
+                  <option value="ACTIVE">Active</option>
+                  <option value="ON_HOLD">On hold</option>
+                  <option value="COMPLETED">Completed</option>
+                </select>
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium mb-2 text-card-foreground">Notes</label>
+              <textarea
+                value={formData.notes}
+                onChange={(e) => handleInputChange('notes', e.target.value)}
+                placeholder="Scope, contacts, deadlines... (optional)"
+                rows={3}
+                className={`${fieldClass} resize-y whitespace-pre-wrap break-words`}
+              />
+            </div>
+
+            <div className="flex gap-3 pt-2 border-t mt-2">
+              <button type="button" onClick={() => navigate(-1)} className="btn btn-secondary btn-lg">Cancel</button>
+              <button type="submit" disabled={loading} className="btn btn-primary btn-lg">
+                {loading ? 'Saving...' : id ? 'Save Project' : 'Create Project'}
+              </button>
+            </div>
+          </div>
+        </form>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,197 @@
+import { useEffect, useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { PageHeader } from '../../components/PageHeader'
+
+type ProjectStatus = 'ACTIVE' | 'ON_HOLD' | 'COMPLETED'
+
+interface ProjectProfitability {
+  id: string
+  clientName: string
+  name: string
+  budget: string | null
+  status: ProjectStatus
+  invoiced: string
+  expenses: string
+  profit: string
+  budgetUsed: number | null
+  hours: string
+  unbilledHours: string
+  unbilledAmount: string
+  unconverted: number
+}
+
+const PROJECT_STATUS_BADGES: Record<ProjectStatus, { label: string; className: string }> = {
+  ACTIVE: { label: 'Active', className: 'bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300' },
+  ON_HOLD: { label: 'On hold', className: 'bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-300' },
+  COMPLETED: { label: '✓ Completed', className: 'bg-emerald-100 text-emerald-800 dark:bg-emerald-900/30 dark:text-emerald-300' }
+}
+
+const FILTERS: Array<{ value: ProjectStatus | ''; label: string }> = [
+  { value: '', label: 'All' },
+  { value: 'ACTIVE', label: 'Active' },
+  { value: 'ON_HOLD', label: 'On hold' },
+  { value: 'COMPLETED', label: 'Completed' }
+]
+
+export default function ProjectsPage() {
+  const navigate = useNavigate()
+  const [projects, setProjects] = useState<ProjectProfitability[]>([])
+  const [baseCurrency, setBaseCurrency] = useState('EUR')
+  const [filter, setFilter] = useState<ProjectStatus | ''>('')
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchProjects = async () => {
+    try {
+      if (!window.api) return
+      const res = await window.api.getProjectProfitability()
+      if (res.error) {
+        setError(res.error.message)
+        return
+      }
+      setProjects(res.projects || [])
+      setBaseCurrency(res.baseCurrency || 'EUR')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchProjects()
+  }, [])
+
+  const handleDelete = async (project: ProjectProfitability) => {
+    if (!window.api) return
+    if (!window.confirm(`Delete project ${project.name}?`)) return
+    const res = await window.api.deleteProject(project.id)
+    if (res.error) {
+      alert(`Failed to delete project: ${res.error.message}`)
+      return
+    }
+    setProjects(projects.filter(p => p.id !== project.id))
+  }
+
+  const formatCurrency = (amount: string) => `${baseCurrency} ${parseFloat(amount).toFixed(2)}`
+
+  const shown = projects.filter(project => !filter || project.status === filter)
+
+  if (loading) {
+    return (
+      <div className="p-6 text-center min-h-screen bg-background flex items-center justify-center">
+        <div className="text-muted-foreground">Loading projects...</div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="w-full py-6">
+      <PageHeader
+        title="Projects"
+        subtitle="What each engagement has earned against its budget"
+        rightSlot={(
+          <button onClick={() => navigate('/projects/new')} className="btn btn-primary">
+            <svg className="h-4 w-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+            </svg>
+            New Project
+          </button>
+        )}
+      />
+
+      {error && (
+        <div className="bg-destructive/10 text-destructive text-sm rounded-xl p-3 mb-6">{error}</div>
+      )}
+
+      <div className="flex flex-wrap gap-2 mb-6">
+        {FILTERS.map(option => (
+          <button
+            key={option.value}
+            onClick={() => setFilter(option.value)}
+            className={`btn btn-sm ${filter === option.value ? 'btn-selected' : ''}`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="dashboard-card bg-card p-6">
+        {shown.length === 0 ? (
+          <div className="flex flex-col items-center justify-center py-12 text-center">
+            <h3 className="text-lg font-semibold mb-2 text-card-foreground">
+              {projects.length === 0 ? 'No projects yet' : 'No projects found'}
+            </h3>
+            <p className="text-muted-foreground max-w-sm">
+              {projects.length === 0
+                ? 'Group the invoices, expenses and hours of an engagement in a project to see whether it pays off.'
+                : 'No projects have this status.'}
+            </p>
+          </div>
+        ) : (
+          <table className="w-full border-collapse">
+            <thead>
+              <tr className="bg-muted border-b">
+                <th className="p-3 text-left font-semibold text-muted-foreground">Project</th>
+                <th className="p-3 text-right font-semibold text-muted-foreground">Budget</th>
+                <th className="p-3 text-right font-semibold text-muted-foreground">Invoiced</th>
+                <th className="p-3 text-right font-semibold text-muted-foreground">Expenses</th>
+                <th className="p-3 text-right font-semibold text-muted-foreground">Profit</th>
+                <th className="p-3 text-right font-semibold text-muted-foreground">Hours</th>
+                <th className="p-3 text-left font-semibold text-muted-foreground">Status</th>
+                <th className="p-3 text-left font-semibold text-muted-foreground">Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {shown.map(project => (
+                <tr key={project.id} className="border-b hover:bg-muted/50 transition-colors">
+                  <td className="p-3">
+                    <div className="font-medium text-card-foreground">{project.name}</div>
+                    <div className="text-sm text-muted-foreground">{project.clientName}</div>
+                  </td>
+                  <td className="p-3 text-right text-card-foreground">
+                    {project.budget !== null ? formatCurrency(project.budget) : '—'}
+                    {project.budgetUsed !== null && (
+                      <div className={`text-xs ${project.budgetUsed > 1 ? 'text-destructive' : 'text-muted-foreground'}`}>
+                        {Math.round(project.budgetUsed * 100)}% invoiced
+                      </div>
+                    )}
+                  </td>
+                  <td className="p-3 text-right text-card-foreground">{formatCurrency(project.invoiced)}</td>
+                  <td className="p-3 text-right text-card-foreground">{formatCurrency(project.expenses)}</td>
+                  <td className={`p-3 text-right font-medium ${Number(project.profit) < 0 ? 'text-destructive' : 'text-card-foreground'}`}>
+                    {formatCurrency(project.profit)}
+                    {project.unconverted > 0 && (
+                      <div className="text-xs font-normal text-muted-foreground">{project.unconverted} without exchange rate</div>
+                    )}
+                  </td>
+                  <td className="p-3 text-right text-card-foreground">
+                    {Number(project.hours).toFixed(2)}
+                    {Number(project.unbilledHours) > 0 && (
+                      <div className="text-xs text-muted-foreground">
+                        {Number(project.unbilledHours).toFixed(2)} h unbilled · {Number(project.unbilledAmount).toFixed(2)} at their rates
+                      </div>
+                    )}
+                  </td>
+                  <td className="p-3">
+                    <span className={`px-3 py-1 rounded-full text-xs font-medium ${PROJECT_STATUS_BADGES[project.status].className}`}>
+                      {PROJECT_STATUS_BADGES[project.status].label}
+                    </span>
+                  </td>
+                  <td className="p-3">
+                    <div className="flex gap-2">
+                      <button className="btn btn-outline btn-sm" onClick={() => navigate(`/projects/${project.id}/edit`)}>
+                        Edit
+                      </button>
+                      <button className="btn btn-destructive btn-sm" onClick={() => handleDelete(project)}>
+                        Delete
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,313 @@
+import { useEffect, useMemo, useState } from 'react'
+import { useNavigate, useParams } from 'react-router-dom'
+import { PageHeader } from '../../components/PageHeader'
+import { InvoiceLinesEditor, InvoiceTotalsView, TaxRateOption, createLineDraft, draftsToLineInputs, linesToDrafts, validateLineDrafts } from '../../components/InvoiceLinesEditor'
+import { InvoiceTaxFields } from '../../components/InvoiceTaxFields'
+
+const fieldClass = 'w-full p-3 rounded-xl text-base bg-background text-foreground placeholder-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary/20 transition-all'
+
+const today = () => new Date().toISOString().slice(0, 10)
+
+// Quotes are valid for 30 days unless another date is picked
+const inThirtyDays = (date: string) => {
+  const d = new Date(`${date}T00:00:00Z`)
+  d.setUTCDate(d.getUTCDate() + 30)
+  return d.toISOString().slice(0, 10)
+}
+
+// New quote, or /quotes/:id/edit for one still waiting for an answer
+export default function QuoteFormPage() {
+  const navigate = useNavigate()
+  const { id } = useParams<{ id: string }>()
+  const [formData, setFormData] = useState({
+    clientId: '',
+    clientName: '',
+    issueDate: today(),
+    validUntil: inThirtyDays(today()),
+    currency: 'EUR',
+    number: '',
+    seriesId: '',
+    description: '',
+    notes: '',
+    taxRateId: '',
+    withholdingRateId: ''
+  })
+  const [lines, setLines] = useState(() => [createLineDraft()])
+  const [taxRates, setTaxRates] = useState<TaxRateOption[]>([])
+  const [totals, setTotals] = useState<InvoiceTotalsView | null>(null)
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null)
+  const [clients, setClients] = useState<Array<{ id: string; name: string }>>([])
+  const [series, setSeries] = useState<Array<{ id: string; name: string; isDefault: boolean }>>([])
+  const [loading, setLoading] = useState(false)
+  const [errors, setErrors] = useState<string[]>([])
+
+  // Clients, tax rates and quote series; an edited quote keeps its own values
+  useEffect(() => {
+    let mounted = true
+    const load = async () => {
+      if (!window.api) return
+      const api: any = window.api
+      const [clientsRes, ratesRes, seriesRes] = await Promise.all([api.getClients(), api.getTaxRates(), api.getNumberingSeries()])
+      if (!mounted) return
+      if (!clientsRes.error) setClients(clientsRes.clients || [])
+      if (!ratesRes.error) setTaxRates(ratesRes.rates)
+      const quoteSeries = seriesRes.error ? [] : seriesRes.series.filter((s: any) => s.kind === 'QUOTE')
+      setSeries(quoteSeries)
+
+      if (id) {
+        const res = await window.api.getQuote(id)
+        if (!mounted) return
+        if (res.error) {
+          setErrors([res.error.message])
+          return
+        }
+        const quote = res.quote
+        setFormData({
+          clientId: quote.clientId,
+          clientName: quote.clientName,
+          issueDate: quote.issueDate,
+          validUntil: quote.validUntil,
+          currency: quote.currency,
+          number: quote.number,
+          seriesId: quote.seriesId || '',
+          description: quote.description || '',
+          notes: quote.notes || '',
+          taxRateId: quote.taxRateId || '',
+          withholdingRateId: quote.withholdingRateId || ''
+        })
+        setLines(linesToDrafts(res.lines))
+        return
+      }
+      const defaultSeries = quoteSeries.find((s: any) => s.isDefault) || quoteSeries[0]
+      const defaultRate = ratesRes.error ? null : ratesRes.rates.find((r: any) => r.isDefault)
+      setFormData(prev => ({
+        ...prev,
+        seriesId: prev.seriesId || defaultSeries?.id || '',
+        taxRateId: prev.taxRateId || defaultRate?.id || ''
+      }))
+    }
+    load()
+    return () => { mounted = false }
+  }, [id])
+
+  // Show the upcoming number of the selected series; it is only reserved on save
+  useEffect(() => {
+    let active = true
+    const run = async () => {
+      if (id || !window.api || !formData.seriesId) return
+      const res = await window.api.getNextQuoteNumber({ seriesId: formData.seriesId, issueDate: formData.issueDate })
+      if (!active) return
+      if (res.error) {
+        setErrors([res.error.message])
+        return
+      }
+      setFormData(prev => ({ ...prev, number: res.number }))
+    }
+    run()
+    return () => { active = false }
+  }, [id, formData.seriesId, formData.issueDate])
+
+  const selectedClient = useMemo(() => clients.find(c => c.id === formData.clientId) || null, [clients, formData.clientId])
+
+  const toInput = () => ({
+    clientId: formData.clientId || undefined,
+    clientName: selectedClient?.name || formData.clientName.trim(),
+    issueDate: formData.issueDate,
+    validUntil: formData.validUntil || undefined,
+    currency: formData.currency,
+    seriesId: formData.seriesId || null,
+    description: formData.description.trim() || undefined,
+    notes: formData.notes.trim() || undefined,
+    lines: draftsToLineInputs(lines),
+    taxRateId: formData.taxRateId || null,
+    withholdingRateId: formData.withholdingRateId || null
+  })
+
+  // Live preview
+  useEffect(() => {
+    let active = true
+    const run = async () => {
+      try {
+        const input = toInput()
+        if (!window.api || input.lines.length === 0) return
+        const res = await window.api.previewQuote({ ...input, clientName: input.clientName || 'Cliente', number: formData.number || 'DRAFT' })
+        if (active && !res.error) {
+          setPreviewUrl(res.dataUrl)
+          setTotals(res.totals)
+        }
+      } catch {}
+    }
+    const t = setTimeout(run, 150)
+    return () => { active = false; clearTimeout(t) }
+  }, [formData, lines, selectedClient])
+
+  const handleInputChange = (field: string, value: string) => {
+    setFormData(prev => ({
+      ...prev,
+      [field]: value,
+      // Moving the issue date moves a validity date that was left at the default
+      ...(field === 'issueDate' && prev.validUntil === inThirtyDays(prev.issueDate) ? { validUntil: inThirtyDays(value) } : {})
+    }))
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!window.api) return
+    const validationErrors: string[] = []
+    if (!(formData.clientId || formData.clientName.trim())) validationErrors.push('Client is required')
+    if (formData.validUntil && formData.validUntil < formData.issueDate) validationErrors.push('The quote cannot expire before its issue date')
+    validationErrors.push(...validateLineDrafts(lines))
+    if (validationErrors.length > 0) {
+      setErrors(validationErrors)
+      return
+    }
+
+    setErrors([])
+    setLoading(true)
+    try {
+      const res = id ? await window.api.updateQuote(id, toInput()) : await window.api.createQuote(toInput())
+      if (res.error) {
+        setErrors([res.error.message])
+        return
+      }
+      navigate(`/quotes/${id || res.id}/view`)
+    } catch {
+      setErrors([id ? 'Failed to update quote' : 'Failed to create quote'])
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-background p-3 sm:p-6">
+      <PageHeader title={id ? 'Edit Quote' : 'New Quote'} subtitle={id ? `Quote ${formData.number}` : 'Estimate the work before you invoice it'} />
+
+      <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+        <div className="apple-card bg-card p-4 sm:p-6 lg:p-8 w-full min-w-0">
+          {errors.length > 0 && (
+            <div className="bg-destructive/10 border-destructive/20 rounded-xl p-3 mb-6">
+              {errors.map((error, idx) => (
+                <div key={idx} className="text-destructive text-sm">{error}</div>
+              ))}
+            </div>
+          )}
+
+          <form onSubmit={handleSubmit}>
+            <div className="grid gap-5">
+              <div>
+                <label className="block text-sm font-medium mb-3 text-card-foreground">Client</label>
+                <div className="grid gap-2">
+                  <select value={formData.clientId} onChange={(e) => handleInputChange('clientId', e.target.value)} className={fieldClass}>
+                    <option value="">— Select client —</option>
+                    {clients.map(c => (
+                      <option key={c.id} value={c.id}>{c.name}</option>
+                    ))}
+                  </select>
+                  {!formData.clientId && (
+                    <input
+                      type="text"
+                      value={formData.clientName}
+                      onChange={(e) => handleInputChange('clientName', e.target.value)}
+                      placeholder="Or type client name"
+                      className={fieldClass}
+                    />
+                  )}
+                </div>
+              </div>
+
+              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+                <div className="sm:col-span-2 lg:col-span-1">
+                  <label className="block text-sm font-medium mb-2 text-card-foreground">Quote Number</label>
+                  {!id && (
+                    <select value={formData.seriesId} onChange={(e) => handleInputChange('seriesId', e.target.value)} className={`${fieldClass} mb-2`}>
+                      {series.map(s => (
+                        <option key={s.id} value={s.id}>{s.name}</option>
+                      ))}
+                    </select>
+                  )}
+                  <input
+                    type="text"
+                    value={formData.number}
+                    readOnly
+                    title={id ? 'Quote numbers do not change' : 'Assigned from the series when the quote is created'}
+                    className={`${fieldClass} read-only:text-muted-foreground`}
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium mb-2 text-card-foreground">Issue Date *</label>
+                  <input type="date" value={formData.issueDate} onChange={(e) => handleInputChange('issueDate', e.target.value)} className={fieldClass} required />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium mb-2 text-card-foreground">Valid Until *</label>
+                  <input type="date" value={formData.validUntil} min={formData.issueDate} onChange={(e) => handleInputChange('validUntil', e.target.value)} className={fieldClass} required />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-1 sm:grid-cols-4 gap-4">
+                <div>
+                  <label className="block text-sm font-medium mb-2 text-card-foreground">Currency</label>
+                  <select value={formData.currency} onChange={(e) => handleInputChange('currency', e.target.value)} className={fieldClass}>
+                    <option value="EUR">EUR</option>
+                    <option value="USD">USD</option>
+                    <option value="GBP">GBP</option>
+                  </select>
+                </div>
+              </div>
+
+              <InvoiceTaxFields
+                taxRates={taxRates}
+                taxRateId={formData.taxRateId}
+                withholdingRateId={formData.withholdingRateId}
+                onChange={(field, value) => handleInputChange(field, value)}
+              />
+
+              <InvoiceLinesEditor lines={lines} currency={formData.currency} taxRates={taxRates} totals={totals} onChange={setLines} />
+
+              <div>
+                <label className="block text-sm font-medium mb-2 text-card-foreground">Description</label>
+                <textarea
+                  value={formData.description}
+                  onChange={(e) => handleInputChange('description', e.target.value)}
+                  placeholder="Short summary of the work quoted (optional)"
+                  rows={2}
+                  className={`${fieldClass} resize-y whitespace-pre-wrap break-words`}
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium mb-2 text-card-foreground">Observations</label>
+                <textarea
+                  value={formData.notes}
+                  onChange={(e) => handleInputChange('notes', e.target.value)}
+                  placeholder="Conditions, delivery times... (optional)"
+                  rows={3}
+                  className={`${fieldClass} resize-y whitespace-pre-wrap break-words`}
+                />
+              </div>
+
+              <div className="flex gap-3 pt-2 border-t mt-2">
+                <button type="button" onClick={() => navigate(-1)} className="btn btn-secondary btn-lg">Cancel</button>
+                <button type="submit" disabled={loading} className="btn btn-primary btn-lg">
+                  {loading ? 'Saving...' : id ? 'Save Quote' : 'Create Quote'}
+                </button>
+              </div>
+            </div>
+          </form>
+        </div>
+
+        <div className="apple-card bg-card p-4 xl:h-[calc(100vh-160px)]">
+          <div className="text-sm font-medium text-card-foreground mb-2">PDF Preview</div>
+          {previewUrl ? (
+            <iframe src={previewUrl} className="w-full h-[70vh] xl:h-full rounded-lg border" title="Quote Preview" />
+          ) : (
+            <div className="h-[70vh] xl:h-full grid place-items-center text-muted-foreground text-sm">
+              Fill out the form to generate a preview
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,354 @@
+import { useEffect, useMemo, useState } from 'react'
+import { useNavigate, useParams } from 'react-router-dom'
+import { PageHeader } from '../../components/PageHeader'
+import { EmailModal } from '../../components/EmailModal'
+
+type QuoteStatus = 'DRAFT' | 'SENT' | 'ACCEPTED' | 'REJECTED' | 'EXPIRED'
+
+interface Quote {
+  id: string
+  number: string
+  clientId: string
+  clientName: string
+  clientEmail: string | null
+  issueDate: string
+  validUntil: string
+  status: QuoteStatus
+  amount: string
+  currency: string
+  description: string | null
+  notes: string | null
+  invoiceId: string | null
+  invoiceNumber: string | null
+  filePath: string | null
+  folderPath: string | null
+}
+
+interface QuoteLine {
+  id: string
+  description: string
+  quantity: string
+  unit: string | null
+  unitPrice: string
+  discount: string
+  taxRate: string
+  amount: string
+}
+
+interface QuoteTotals {
+  subtotal: string
+  total: string
+  breakdown: Array<{ name: string; base: string; amount: string }>
+  legalMentions: string[]
+}
+
+const QUOTE_STATUS_BADGES: Record<QuoteStatus, { label: string; className: string }> = {
+  DRAFT: { label: 'Draft', className: 'bg-muted text-muted-foreground' },
+  SENT: { label: 'Sent', className: 'bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300' },
+  ACCEPTED: { label: '✓ Accepted', className: 'bg-emerald-100 text-emerald-800 dark:bg-emerald-900/30 dark:text-emerald-300' },
+  REJECTED: { label: 'Rejected', className: 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300' },
+  EXPIRED: { label: 'Expired', className: 'bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-300' }
+}
+
+export default function ViewQuotePage() {
+  const navigate = useNavigate()
+  const { id } = useParams<{ id: string }>()
+  const [quote, setQuote] = useState<Quote | null>(null)
+  const [lines, setLines] = useState<QuoteLine[]>([])
+  const [totals, setTotals] = useState<QuoteTotals | null>(null)
+  const [pdfUrl, setPdfUrl] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [emailOpen, setEmailOpen] = useState(false)
+
+  // The email modal takes the quote in the shape of a bill
+  const emailDocument = useMemo(() => quote && {
+    id: quote.id,
+    number: quote.number,
+    clientId: quote.clientId,
+    clientName: quote.clientName,
+    clientEmail: quote.clientEmail || undefined,
+    amount: quote.amount,
+    currency: quote.currency,
+    filePath: quote.filePath || undefined
+  }, [quote])
+
+  const load = async () => {
+    if (!id || !window.api) return
+    try {
+      const res = await window.api.getQuote(id)
+      if (res.error) {
+        setError(res.error.message)
+        return
+      }
+      setQuote(res.quote)
+      setLines(res.lines || [])
+      setTotals(res.totals)
+      if (res.quote.filePath) {
+        const pdf = await window.api.fileToDataUrl(res.quote.filePath)
+        if (!pdf.error) setPdfUrl(pdf.dataUrl)
+      }
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    load()
+  }, [id])
+
+  const handleStatus = async (status: QuoteStatus) => {
+    if (!quote || !window.api) return
+    setBusy(true)
+    setError(null)
+    const res = await window.api.updateQuoteStatus(quote.id, status)
+    setBusy(false)
+    if (res.error) {
+      setError(res.error.message)
+      return
+    }
+    setQuote(res.quote)
+  }
+
+  // The invoice is a draft with the quote's client and lines, issued today
+  const handleConvert = async () => {
+    if (!quote || !window.api) return
+    if (!window.confirm(`Create an invoice from quote ${quote.number}? The quote is marked as accepted.`)) return
+    setBusy(true)
+    setError(null)
+    const res = await window.api.convertQuote(quote.id)
+    setBusy(false)
+    if (res.error) {
+      setError(res.error.message)
+      return
+    }
+    navigate(`/bills/${res.invoiceId}/view`)
+  }
+
+  const handleDelete = async () => {
+    if (!quote || !window.api) return
+    if (!window.confirm(`Delete quote ${quote.number}? Its folder is moved to the trash.`)) return
+    const res = await window.api.deleteQuote(quote.id)
+    if (res.error) {
+      setError(res.error.message)
+      return
+    }
+    navigate('/quotes')
+  }
+
+  const formatCurrency = (amount: string, currency: string) => `${currency} ${parseFloat(amount).toFixed(2)}`
+
+  const formatDate = (dateString: string) => new Date(dateString).toLocaleDateString()
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-background p-6 flex items-center justify-center">
+        <div className="text-muted-foreground">Loading quote...</div>
+      </div>
+    )
+  }
+
+  if (!quote) {
+    return (
+      <div className="min-h-screen bg-background p-6">
+        <PageHeader title="View Quote" />
+        <div className="text-destructive text-sm">{error || 'Quote not found'}</div>
+        <button onClick={() => navigate('/quotes')} className="btn btn-secondary mt-6">Back to Quotes</button>
+      </div>
+    )
+  }
+
+  const converted = !!quote.invoiceId
+  const answered = quote.status === 'ACCEPTED' || quote.status === 'REJECTED'
+  const open = quote.status === 'DRAFT' || quote.status === 'SENT'
+
+  return (
+    <div className="min-h-screen bg-background p-3 sm:p-6">
+      <PageHeader
+        title="View Quote"
+        subtitle={`Quote ${quote.number}`}
+        rightSlot={(
+          <button onClick={() => navigate('/quotes')} className="btn btn-secondary">Back to Quotes</button>
+        )}
+      />
+
+      <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+        <div className="apple-card bg-card p-4 sm:p-6 lg:p-8">
+          <div className="space-y-6">
+            {error && (
+              <div className="text-sm p-3 rounded-lg bg-destructive/10 text-destructive">{error}</div>
+            )}
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 sm:gap-6">
+              <div>
+                <label className="block text-sm font-medium text-muted-foreground mb-1">Quote Number</label>
+                <div className="text-card-foreground font-medium text-lg">{quote.number}</div>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-muted-foreground mb-1">Status</label>
+                <span className={`px-3 py-1 rounded-full text-xs font-medium ${QUOTE_STATUS_BADGES[quote.status].className}`}>
+                  {QUOTE_STATUS_BADGES[quote.status].label}
+                </span>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-muted-foreground mb-1">Client</label>
+                <div className="text-card-foreground font-medium">{quote.clientName}</div>
+                {quote.clientEmail && <div className="text-muted-foreground text-sm mt-1">{quote.clientEmail}</div>}
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-muted-foreground mb-1">Amount</label>
+                <div className="text-card-foreground font-medium text-xl">{formatCurrency(quote.amount, quote.currency)}</div>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-muted-foreground mb-1">Issue Date</label>
+                <div className="text-card-foreground">{formatDate(quote.issueDate)}</div>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-muted-foreground mb-1">Valid Until</label>
+                <div className="text-card-foreground">{formatDate(quote.validUntil)}</div>
+              </div>
+            </div>
+
+            {converted && (
+              <div className="bg-muted/50 rounded-lg p-4 text-sm text-card-foreground">
+                Converted into invoice{' '}
+                <button onClick={() => navigate(`/bills/${quote.invoiceId}/view`)} className="font-medium underline">
+                  {quote.invoiceNumber}
+                </button>
+              </div>
+            )}
+            {quote.status === 'EXPIRED' && (
+              <div className="text-sm p-3 rounded-lg bg-amber-100 text-amber-900 dark:bg-amber-900/30 dark:text-amber-200">
+                This quote expired without an answer. Edit it to give it a new validity date and send it again.
+              </div>
+            )}
+
+            {lines.length > 0 && (
+              <div>
+                <label className="block text-sm font-medium text-muted-foreground mb-2">Lines</label>
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-muted-foreground border-b">
+                        <th className="py-2 pr-2 font-medium">Description</th>
+                        <th className="py-2 px-2 font-medium text-right">Qty</th>
+                        <th className="py-2 px-2 font-medium text-right">Unit price</th>
+                        <th className="py-2 px-2 font-medium text-right">Disc.</th>
+                        <th className="py-2 px-2 font-medium text-right">Tax</th>
+                        <th className="py-2 pl-2 font-medium text-right">Amount</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {lines.map(line => (
+                        <tr key={line.id} className="border-b last:border-0 align-top">
+                          <td className="py-2 pr-2 text-card-foreground whitespace-pre-wrap break-words">{line.description}</td>
+                          <td className="py-2 px-2 text-right">{parseFloat(line.quantity)}{line.unit ? ` ${line.unit}` : ''}</td>
+                          <td className="py-2 px-2 text-right">{formatCurrency(line.unitPrice, quote.currency)}</td>
+                          <td className="py-2 px-2 text-right">{parseFloat(line.discount) ? `${parseFloat(line.discount)}%` : '—'}</td>
+                          <td className="py-2 px-2 text-right">{parseFloat(line.taxRate) ? `${parseFloat(line.taxRate)}%` : '—'}</td>
+                          <td className="py-2 pl-2 text-right font-medium">{formatCurrency(line.amount, quote.currency)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+                {totals && (
+                  <div className="mt-3 space-y-1 text-sm">
+                    <div className="flex justify-between text-muted-foreground">
+                      <span>Subtotal</span>
+                      <span>{formatCurrency(totals.subtotal, quote.currency)}</span>
+                    </div>
+                    {totals.breakdown.map((entry, idx) => (
+                      <div key={idx} className="flex justify-between text-muted-foreground">
+                        <span>{entry.name} <span className="text-xs">on {formatCurrency(entry.base, quote.currency)}</span></span>
+                        <span>{formatCurrency(entry.amount, quote.currency)}</span>
+                      </div>
+                    ))}
+                    <div className="flex justify-between font-semibold text-card-foreground">
+                      <span>Total</span>
+                      <span>{formatCurrency(totals.total, quote.currency)}</span>
+                    </div>
+                  </div>
+                )}
+              </div>
+            )}
+
+            {quote.description && (
+              <div>
+                <label className="block text-sm font-medium text-muted-foreground mb-2">Description</label>
+                <div className="text-card-foreground bg-muted/50 rounded-lg p-4 whitespace-pre-wrap break-words">{quote.description}</div>
+              </div>
+            )}
+
+            {quote.notes && (
+              <div>
+                <label className="block text-sm font-medium text-muted-foreground mb-2">Notes</label>
+                <div className="text-card-foreground bg-muted/50 rounded-lg p-4 whitespace-pre-wrap break-words">{quote.notes}</div>
+              </div>
+            )}
+
+            {/* Actions */}
+            <div className="flex flex-wrap gap-3 pt-4 border-t">
+              {!converted && (open || quote.status === 'ACCEPTED') && (
+                <button onClick={handleConvert} disabled={busy} className="btn btn-primary">
+                  Convert to Invoice
+                </button>
+              )}
+              {!converted && open && (
+                <>
+                  <button onClick={() => handleStatus('ACCEPTED')} disabled={busy} className="btn btn-outline">Mark Accepted</button>
+                  <button onClick={() => handleStatus('REJECTED')} disabled={busy} className="btn btn-outline">Mark Rejected</button>
+                </>
+              )}
+              {!converted && quote.status === 'DRAFT' && (
+                <button onClick={() => handleStatus('SENT')} disabled={busy} className="btn btn-outline">Mark Sent</button>
+              )}
+              {!converted && answered && (
+                <button onClick={() => handleStatus('SENT')} disabled={busy} className="btn btn-outline" title="Back to waiting for the client's answer">
+                  Reopen
+                </button>
+              )}
+              {!converted && !answered && (
+                <button onClick={() => navigate(`/quotes/${quote.id}/edit`)} className="btn btn-outline">Edit Quote</button>
+              )}
+              {open && (
+                <button
+                  onClick={() => setEmailOpen(true)}
+                  disabled={!quote.clientEmail}
+                  title={quote.clientEmail ? 'Send quote via email' : 'Client email address not available'}
+                  className="btn btn-outline"
+                >
+                  Send Email
+                </button>
+              )}
+              {quote.folderPath && (
+                <button onClick={() => window.api.openPath(quote.folderPath!)} className="btn btn-outline">Open Folder</button>
+              )}
+              {!converted && (
+                <button onClick={handleDelete} className="btn btn-destructive">Delete</button>
+              )}
+            </div>
+          </div>
+        </div>
+
+        <div className="apple-card bg-card p-4 xl:h-[calc(100vh-160px)]">
+          <div className="text-sm font-medium text-card-foreground mb-2">PDF Preview</div>
+          {pdfUrl ? (
+            <iframe src={pdfUrl} className="w-full h-[70vh] xl:h-full rounded-lg border" title="Quote Preview" />
+          ) : (
+            <div className="h-[70vh] xl:h-full grid place-items-center text-muted-foreground text-sm">No PDF available</div>
+          )}
+        </div>
+      </div>
+
+      <EmailModal
+        isOpen={emailOpen}
+        onClose={() => setEmailOpen(false)}
+        bill={emailDocument}
+        document="QUOTE"
+        onSent={load}
+      />
+    </div>
+  )
+}
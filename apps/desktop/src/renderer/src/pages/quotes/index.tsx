@@ -0,0 +1,189 @@
+import { useEffect, useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { PageHeader } from '../../components/PageHeader'
+
+type QuoteStatus = 'DRAFT' | 'SENT' | 'ACCEPTED' | 'REJECTED' | 'EXPIRED'
+
+interface Quote {
+  id: string
+  number: string
+  clientName: string
+  clientEmail: string | null
+  issueDate: string
+  validUntil: string
+  status: QuoteStatus
+  amount: string
+  currency: string
+  invoiceId: string | null
+  invoiceNumber: string | null
+  folderPath: string | null
+}
+
+const QUOTE_STATUS_BADGES: Record<QuoteStatus, { label: string; className: string }> = {
+  DRAFT: { label: 'Draft', className: 'bg-muted text-muted-foreground' },
+  SENT: { label: 'Sent', className: 'bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300' },
+  ACCEPTED: { label: '✓ Accepted', className: 'bg-emerald-100 text-emerald-800 dark:bg-emerald-900/30 dark:text-emerald-300' },
+  REJECTED: { label: 'Rejected', className: 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300' },
+  EXPIRED: { label: 'Expired', className: 'bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-300' }
+}
+
+const FILTERS: Array<{ value: QuoteStatus | 'OPEN' | ''; label: string }> = [
+  { value: '', label: 'All' },
+  { value: 'OPEN', label: 'Awaiting answer' },
+  { value: 'ACCEPTED', label: 'Accepted' },
+  { value: 'REJECTED', label: 'Rejected' },
+  { value: 'EXPIRED', label: 'Expired' }
+]
+
+export default function QuotesPage() {
+  const navigate = useNavigate()
+  const [quotes, setQuotes] = useState<Quote[]>([])
+  const [filter, setFilter] = useState<QuoteStatus | 'OPEN' | ''>('')
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchQuotes = async () => {
+    try {
+      if (!window.api) return
+      const res = await window.api.getQuotes()
+      if (res.error) {
+        setError(res.error.message)
+        return
+      }
+      setQuotes(res.quotes || [])
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchQuotes()
+  }, [])
+
+  const handleDelete = async (quote: Quote) => {
+    if (!window.api) return
+    if (!window.confirm(`Delete quote ${quote.number}? Its folder is moved to the trash.`)) return
+    const res = await window.api.deleteQuote(quote.id)
+    if (res.error) {
+      alert(`Failed to delete quote: ${res.error.message}`)
+      return
+    }
+    setQuotes(quotes.filter(q => q.id !== quote.id))
+  }
+
+  const formatCurrency = (amount: string, currency: string) => `${currency} ${parseFloat(amount).toFixed(2)}`
+
+  const formatDate = (dateString: string) => new Date(dateString).toLocaleDateString()
+
+  const shown = quotes.filter(quote => !filter
+    || (filter === 'OPEN' ? quote.status === 'DRAFT' || quote.status === 'SENT' : quote.status === filter))
+
+  if (loading) {
+    return (
+      <div className="p-6 text-center min-h-screen bg-background flex items-center justify-center">
+        <div className="text-muted-foreground">Loading quotes...</div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="w-full py-6">
+      <PageHeader
+        title="Quotes"
+        subtitle="Estimates for your clients, ready to become invoices"
+        rightSlot={(
+          <button onClick={() => navigate('/quotes/new')} className="btn btn-primary">
+            <svg className="h-4 w-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+            </svg>
+            New Quote
+          </button>
+        )}
+      />
+
+      {error && (
+        <div className="bg-destructive/10 text-destructive text-sm rounded-xl p-3 mb-6">{error}</div>
+      )}
+
+      <div className="flex flex-wrap gap-2 mb-6">
+        {FILTERS.map(option => (
+          <button
+            key={option.value}
+            onClick={() => setFilter(option.value)}
+            className={`btn btn-sm ${filter === option.value ? 'btn-selected' : ''}`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="dashboard-card bg-card p-6">
+        {shown.length === 0 ? (
+          <div className="flex flex-col items-center justify-center py-12 text-center">
+            <h3 className="text-lg font-semibold mb-2 text-card-foreground">
+              {quotes.length === 0 ? 'No quotes yet' : 'No quotes found'}
+            </h3>
+            <p className="text-muted-foreground max-w-sm">
+              {quotes.length === 0
+                ? 'Send a quote before the work starts; once the client accepts it, it becomes an invoice in one click.'
+                : 'No quotes have this status.'}
+            </p>
+          </div>
+        ) : (
+          <table className="w-full border-collapse">
+            <thead>
+              <tr className="bg-muted border-b">
+                <th className="p-3 text-left font-semibold text-muted-foreground">Number</th>
+                <th className="p-3 text-left font-semibold text-muted-foreground">Client</th>
+                <th className="p-3 text-left font-semibold text-muted-foreground">Date</th>
+                <th className="p-3 text-left font-semibold text-muted-foreground">Valid until</th>
+                <th className="p-3 text-left font-semibold text-muted-foreground">Amount</th>
+                <th className="p-3 text-left font-semibold text-muted-foreground">Status</th>
+                <th className="p-3 text-left font-semibold text-muted-foreground">Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {shown.map(quote => (
+                <tr key={quote.id} className="border-b hover:bg-muted/50 transition-colors">
+                  <td className="p-3 font-medium text-card-foreground">{quote.number}</td>
+                  <td className="p-3">
+                    <div className="font-medium text-card-foreground">{quote.clientName}</div>
+                    {quote.clientEmail && <div className="text-sm text-muted-foreground">{quote.clientEmail}</div>}
+                  </td>
+                  <td className="p-3 text-card-foreground">{formatDate(quote.issueDate)}</td>
+                  <td className="p-3 text-card-foreground">{formatDate(quote.validUntil)}</td>
+                  <td className="p-3 font-medium text-card-foreground">{formatCurrency(quote.amount, quote.currency)}</td>
+                  <td className="p-3">
+                    <span className={`px-3 py-1 rounded-full text-xs font-medium ${QUOTE_STATUS_BADGES[quote.status].className}`}>
+                      {QUOTE_STATUS_BADGES[quote.status].label}
+                    </span>
+                    {quote.invoiceId && (
+                      <div className="text-xs text-muted-foreground mt-1">Invoice {quote.invoiceNumber}</div>
+                    )}
+                  </td>
+                  <td className="p-3">
+                    <div className="flex gap-2">
+                      <button className="btn btn-outline btn-sm" onClick={() => navigate(`/quotes/${quote.id}/view`)}>
+                        View
+                      </button>
+                      {quote.folderPath && (
+                        <button className="btn btn-outline btn-sm" onClick={() => window.api.openPath(quote.folderPath!)}>
+                          Open
+                        </button>
+                      )}
+                      {!quote.invoiceId && (
+                        <button className="btn btn-destructive btn-sm" onClick={() => handleDelete(quote)}>
+                          Delete
+                        </button>
+                      )}
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,202 @@
+import { useEffect, useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+
+type ExchangeRate = {
+  id: string
+  currency: string
+  baseCurrency: string
+  date: string
+  rate: string // Units of the base currency per unit of `currency`
+  source: 'MANUAL' | 'CSV'
+}
+
+// A currency with documents dated before its first rate
+type MissingRate = {
+  currency: string
+  fromDate: string
+  documents: number
+}
+
+const CURRENCIES = ['EUR', 'USD', 'GBP', 'CHF']
+
+const inputClass = 'w-full p-2 rounded-lg text-sm bg-background text-foreground placeholder-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary/20 transition-all'
+
+const today = () => new Date().toISOString().slice(0, 10)
+
+export default function CurrenciesPage() {
+  const navigate = useNavigate()
+  const [baseCurrency, setBaseCurrency] = useState('EUR')
+  const [rates, setRates] = useState<ExchangeRate[]>([])
+  const [missing, setMissing] = useState<MissingRate[]>([])
+  const [draft, setDraft] = useState({ currency: 'USD', date: today(), rate: '' })
+  const [busy, setBusy] = useState(false)
+  const [message, setMessage] = useState<string | null>(null)
+  const [problems, setProblems] = useState<string[]>([])
+
+  const load = async () => {
+    if (!window.api) return
+    const res = await window.api.getExchangeRates()
+    if (res.error) {
+      setMessage(res.error.message)
+      return
+    }
+    setBaseCurrency(res.baseCurrency)
+    setDraft(prev => (prev.currency === res.baseCurrency ? { ...prev, currency: CURRENCIES.find(code => code !== res.baseCurrency)! } : prev))
+    setRates(res.rates || [])
+    setMissing(res.missing || [])
+  }
+
+  useEffect(() => {
+    load()
+  }, [])
+
+  const run = async (action: () => Promise<{ error?: { message: string }; problems?: string[] } & Record<string, any>>, success: string) => {
+    setBusy(true)
+    setMessage(null)
+    setProblems([])
+    try {
+      const res = await action()
+      if (res.error) {
+        setMessage(res.problems ? 'The file was not imported:' : res.error.message)
+        setProblems(res.problems || [])
+        return
+      }
+      if (!res.canceled) {
+        setMessage(success)
+        await load()
+      }
+    } catch (e) {
+      setMessage(e instanceof Error ? e.message : 'Failed to save')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const onChangeBase = (currency: string) => {
+    if (currency === baseCurrency) return
+    if (!window.confirm(`Add everything up in ${currency}? Every invoice, payment and expense is converted again with the rates to ${currency}.`)) return
+    run(() => window.api.setBaseCurrency(currency), 'Saved!')
+  }
+
+  const onAdd = () => {
+    run(async () => {
+      const res = await window.api.saveExchangeRate({ ...draft, rate: draft.rate.trim().replace(',', '.') })
+      if (!res.error) setDraft(prev => ({ ...prev, rate: '' }))
+      return res
+    }, 'Saved!')
+  }
+
+  const onDelete = (rate: ExchangeRate) => {
+    if (!window.confirm(`Delete the ${rate.currency} rate of ${rate.date}? Documents already converted with it keep their amounts.`)) return
+    run(() => window.api.deleteExchangeRate(rate.id), 'Saved!')
+  }
+
+  const onImport = () => {
+    run(() => window.api.importExchangeRates(), 'Saved!')
+  }
+
+  return (
+    <div className="min-h-screen bg-background p-6">
+      <div className="flex items-center gap-4 mb-6">
+        <button onClick={() => navigate(-1)} className="btn btn-secondary btn-sm">← Back</button>
+        <h1 className="text-3xl font-bold text-foreground m-0">Currencies</h1>
+      </div>
+
+      <div className="apple-card bg-card p-8 max-w-4xl grid gap-4">
+        {message && (
+          <div className={`text-sm p-3 rounded-lg ${message === 'Saved!'
+            ? 'bg-emerald-100 text-emerald-800 dark:bg-emerald-900/30 dark:text-emerald-300'
+            : 'bg-destructive/10 text-destructive'}`}>
+            {message}
+            {problems.length > 0 && (
+              <ul className="list-disc ml-5 mt-1">
+                {problems.map(problem => <li key={problem}>{problem}</li>)}
+              </ul>
+            )}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 sm:grid-cols-4 gap-2 items-end">
+          <div>
+            <div className="text-xs text-muted-foreground mb-1">Base currency</div>
+            <select value={baseCurrency} disabled={busy} onChange={e => onChangeBase(e.target.value)} className={inputClass}>
+              {CURRENCIES.map(code => <option key={code} value={code}>{code}</option>)}
+            </select>
+          </div>
+          <p className="sm:col-span-3 text-muted-foreground text-sm m-0">
+            The dashboard and reports add everything up in {baseCurrency}. Invoices, payments and expenses in other currencies are converted with the rate of their date (issue date, payment date or expense date), which is kept with the document.
+          </p>
+        </div>
+
+        {missing.length > 0 && (
+          <div className="text-sm p-3 rounded-lg bg-amber-100 text-amber-900 dark:bg-amber-900/30 dark:text-amber-200">
+            Some documents cannot be converted to {baseCurrency} yet and are left out of the totals:
+            <ul className="list-disc ml-5 mt-1">
+              {missing.map(entry => (
+                <li key={entry.currency}>
+                  {entry.currency}: {entry.documents} document{entry.documents === 1 ? '' : 's'}, add a rate on or before {entry.fromDate}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <div className="rounded-xl bg-muted/30 p-3 grid grid-cols-1 sm:grid-cols-4 gap-2 items-end">
+          <div>
+            <div className="text-xs text-muted-foreground mb-1">Currency</div>
+            <select value={draft.currency} onChange={e => setDraft(prev => ({ ...prev, currency: e.target.value }))} className={inputClass}>
+              {CURRENCIES.filter(code => code !== baseCurrency).map(code => <option key={code} value={code}>{code}</option>)}
+            </select>
+          </div>
+          <div>
+            <div className="text-xs text-muted-foreground mb-1">From date</div>
+            <input type="date" value={draft.date} onChange={e => setDraft(prev => ({ ...prev, date: e.target.value }))} className={inputClass} />
+          </div>
+          <div>
+            <div className="text-xs text-muted-foreground mb-1">{baseCurrency} per 1 {draft.currency}</div>
+            <input value={draft.rate} onChange={e => setDraft(prev => ({ ...prev, rate: e.target.value }))} placeholder="0.92" className={inputClass} />
+          </div>
+          <button type="button" onClick={onAdd} disabled={busy || !draft.rate.trim()} className="btn btn-primary btn-sm">
+            Add rate
+          </button>
+        </div>
+
+        {rates.length > 0 ? (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-muted-foreground border-b">
+                <th className="py-2 pr-2 font-medium">Currency</th>
+                <th className="py-2 px-2 font-medium">From</th>
+                <th className="py-2 px-2 font-medium text-right">Rate</th>
+                <th className="py-2 px-2 font-medium">Source</th>
+                <th className="py-2 pl-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {rates.map(rate => (
+                <tr key={rate.id} className="border-b last:border-0 text-card-foreground">
+                  <td className="py-2 pr-2">{rate.currency}</td>
+                  <td className="py-2 px-2">{rate.date}</td>
+                  <td className="py-2 px-2 text-right">1 {rate.currency} = {rate.rate} {rate.baseCurrency}</td>
+                  <td className="py-2 px-2 text-muted-foreground">{rate.source === 'CSV' ? 'Imported' : 'Typed in'}</td>
+                  <td className="py-2 pl-2 text-right">
+                    <button type="button" onClick={() => onDelete(rate)} disabled={busy} className="btn btn-ghost btn-sm text-destructive">Remove</button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        ) : (
+          <p className="text-muted-foreground text-sm m-0">No exchange rates yet.</p>
+        )}
+
+        <div className="flex flex-wrap items-center gap-3 pt-2 border-t border-border mt-2">
+          <button type="button" onClick={onImport} disabled={busy} className="btn btn-lg">Import CSV</button>
+          <span className="text-muted-foreground text-sm">
+            One rate per line: <code>date,currency,rate</code>, e.g. <code>2026-01-31,USD,0.9215</code> for {baseCurrency} per 1 USD. A header row may name the columns in another order.
+          </span>
+        </div>
+      </div>
+    </div>
+  )
+}
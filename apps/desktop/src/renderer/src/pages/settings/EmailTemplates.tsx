@@ -0,0 +1,266 @@
+import { useEffect, useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+
+type Kind = 'INVOICE' | 'REMINDER' | 'PAYMENT_THANKS' | 'CREDIT_NOTE' | 'QUOTE'
+
+type Template = {
+  id?: string
+  name: string
+  kind: Kind
+  language: string
+  subjectTemplate: string
+  bodyTemplate: string
+  version?: number
+  ruleCount?: number
+}
+
+type Version = {
+  version: number
+  subjectTemplate: string
+  bodyTemplate: string
+  replacedAt: string
+}
+
+const KINDS: Array<{ value: Kind; label: string }> = [
+  { value: 'INVOICE', label: 'Invoice delivery' },
+  { value: 'REMINDER', label: 'Payment reminder' },
+  { value: 'PAYMENT_THANKS', label: 'Payment thank-you' },
+  { value: 'CREDIT_NOTE', label: 'Credit note' },
+  { value: 'QUOTE', label: 'Quote' }
+]
+
+const LANGUAGES = [
+  { value: 'ca-ES', label: 'Català' },
+  { value: 'es-ES', label: 'Español' },
+  { value: 'en-GB', label: 'English' },
+  { value: 'fr-FR', label: 'Français' }
+]
+
+// Starting wording for a new template of each kind
+const SUGGESTED_TEMPLATES: Record<Kind, Template> = {
+  INVOICE: {
+    name: 'Invoice',
+    kind: 'INVOICE',
+    language: 'es-ES',
+    subjectTemplate: 'Factura {{ invoice.number }} - {{ seller.name }}',
+    bodyTemplate: '<p>Estimado/a {{ client.name }},</p><p>Le adjuntamos la factura <strong>{{ invoice.number }}</strong> por un importe de <strong>{{ invoice.total | currency }}</strong>, con vencimiento el {{ invoice.dueDate | date "long" }}.</p>{{#if payment.iban}}<p>Puede realizar el pago a: {{ payment.text }}</p>{{/if}}<p>Saludos cordiales,<br>{{ seller.name }}</p>'
+  },
+  REMINDER: {
+    name: 'Reminder',
+    kind: 'REMINDER',
+    language: 'es-ES',
+    subjectTemplate: 'Recordatorio: factura {{ invoice.number }} pendiente',
+    bodyTemplate: '<p>Estimado/a {{ client.name }},</p><p>Le recordamos que la factura {{ invoice.number }} venció el {{ invoice.dueDate | date "long" }} y quedan {{ invoice.outstanding | currency }} pendientes.</p><p>Saludos cordiales,<br>{{ seller.name }}</p>'
+  },
+  PAYMENT_THANKS: {
+    name: 'Payment received',
+    kind: 'PAYMENT_THANKS',
+    language: 'es-ES',
+    subjectTemplate: 'Hemos recibido su pago de la factura {{ invoice.number }}',
+    bodyTemplate: '<p>Estimado/a {{ client.name }},</p><p>Gracias por el pago de la factura {{ invoice.number }}.{{#if invoice.outstanding}} Quedan {{ invoice.outstanding | currency }} pendientes.{{/if}}</p><p>Saludos cordiales,<br>{{ seller.name }}</p>'
+  },
+  CREDIT_NOTE: {
+    name: 'Credit note',
+    kind: 'CREDIT_NOTE',
+    language: 'es-ES',
+    subjectTemplate: 'Factura rectificativa {{ invoice.number }} - {{ seller.name }}',
+    bodyTemplate: '<p>Estimado/a {{ client.name }},</p><p>Le adjuntamos la factura rectificativa <strong>{{ invoice.number }}</strong> por un importe de <strong>{{ invoice.total | currency }}</strong>.</p><p>Saludos cordiales,<br>{{ seller.name }}</p>'
+  },
+  // In quote emails `invoice.*` is the quote and `invoice.dueDate` its validity date
+  QUOTE: {
+    name: 'Quote',
+    kind: 'QUOTE',
+    language: 'es-ES',
+    subjectTemplate: 'Presupuesto {{ invoice.number }} - {{ seller.name }}',
+    bodyTemplate: '<p>Estimado/a {{ client.name }},</p><p>Le adjuntamos el presupuesto <strong>{{ invoice.number }}</strong> por un importe de <strong>{{ invoice.total | currency }}</strong>, válido hasta el {{ invoice.dueDate | date "long" }}.</p><p>Quedamos a su disposición para cualquier consulta.</p><p>Saludos cordiales,<br>{{ seller.name }}</p>'
+  }
+}
+
+const inputClass = 'w-full p-2 rounded-lg text-sm bg-background text-foreground placeholder-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary/20 transition-all'
+
+export default function EmailTemplatesPage() {
+  const navigate = useNavigate()
+  const [templates, setTemplates] = useState<Template[]>([])
+  const [savingKey, setSavingKey] = useState<string | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+  const [history, setHistory] = useState<{ id: string; versions: Version[] } | null>(null)
+
+  const load = async () => {
+    if (!window.api) return
+    const res = await window.api.getEmailTemplates()
+    if (res.error) {
+      setMessage(res.error.message)
+      return
+    }
+    setTemplates(res.templates || [])
+  }
+
+  useEffect(() => {
+    load()
+  }, [])
+
+  const update = (index: number, patch: Partial<Template>) => {
+    setTemplates(prev => prev.map((t, i) => (i === index ? { ...t, ...patch } : t)))
+  }
+
+  const addTemplate = (kind: Kind) => {
+    setTemplates(prev => [...prev, { ...SUGGESTED_TEMPLATES[kind] }])
+  }
+
+  const onSave = async (index: number) => {
+    const item = templates[index]
+    setSavingKey(item.id || `new-${index}`)
+    setMessage(null)
+    try {
+      if (!window.api) throw new Error('API not available')
+      const res = await window.api.saveEmailTemplate({
+        id: item.id,
+        name: item.name.trim(),
+        kind: item.kind,
+        language: item.language,
+        subjectTemplate: item.subjectTemplate,
+        bodyTemplate: item.bodyTemplate
+      })
+      if (res.error) throw new Error(res.error.message)
+      setMessage('Saved!')
+      await load()
+    } catch (e) {
+      setMessage(e instanceof Error ? e.message : 'Failed to save')
+    } finally {
+      setSavingKey(null)
+    }
+  }
+
+  const onDelete = async (index: number) => {
+    const item = templates[index]
+    if (!item.id) {
+      setTemplates(prev => prev.filter((_, i) => i !== index))
+      return
+    }
+    const usage = item.ruleCount ? ` ${item.ruleCount} automation rule(s) use it and will keep its current wording.` : ''
+    if (!window.confirm(`Delete the template "${item.name}"?${usage}`)) return
+    const res = await window.api.deleteEmailTemplate(item.id)
+    if (res.error) {
+      setMessage(res.error.message)
+      return
+    }
+    await load()
+  }
+
+  const toggleHistory = async (id: string) => {
+    if (history?.id === id) {
+      setHistory(null)
+      return
+    }
+    const res = await window.api.getEmailTemplateVersions(id)
+    if (res.error) {
+      setMessage(res.error.message)
+      return
+    }
+    setHistory({ id, versions: res.versions || [] })
+  }
+
+  const onRestore = async (id: string, version: number) => {
+    if (!window.confirm(`Restore version ${version}? The current wording is kept in the history.`)) return
+    const res = await window.api.restoreEmailTemplateVersion(id, version)
+    if (res.error) {
+      setMessage(res.error.message)
+      return
+    }
+    setHistory(null)
+    await load()
+  }
+
+  return (
+    <div className="min-h-screen bg-background p-6">
+      <div className="flex items-center gap-4 mb-6">
+        <button onClick={() => navigate(-1)} className="btn btn-secondary btn-sm">← Back</button>
+        <h1 className="text-3xl font-bold text-foreground m-0">Email Templates</h1>
+      </div>
+
+      <div className="apple-card bg-card p-8 max-w-4xl grid gap-4">
+        {message && (
+          <div className={`text-sm p-3 rounded-lg ${message === 'Saved!'
+            ? 'bg-emerald-100 text-emerald-800 dark:bg-emerald-900/30 dark:text-emerald-300'
+            : 'bg-destructive/10 text-destructive'}`}>
+            {message}
+          </div>
+        )}
+        <p className="text-muted-foreground text-sm m-0">
+          Reusable wording for the emails you send. Automation rules and the send dialog of an invoice can use a template, so changing it here changes every email that uses it. Each change is kept in the template's history.
+          Templates use the same variables as any email, such as <code>{'{{ client.name }}'}</code> or <code>{'{{ invoice.total | currency }}'}</code>; dates and amounts are formatted in the template's language.
+        </p>
+
+        {templates.map((item, index) => (
+          <div key={item.id || `new-${index}`} className="rounded-xl bg-muted/30 p-3 grid gap-2">
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-2 items-end">
+              <div>
+                <div className="text-xs text-muted-foreground mb-1">Name</div>
+                <input value={item.name} onChange={e => update(index, { name: e.target.value })} placeholder="Invoice (formal)" className={inputClass} />
+              </div>
+              <div>
+                <div className="text-xs text-muted-foreground mb-1">Kind</div>
+                <select value={item.kind} onChange={e => update(index, { kind: e.target.value as Kind })} className={inputClass}>
+                  {KINDS.map(kind => <option key={kind.value} value={kind.value}>{kind.label}</option>)}
+                </select>
+              </div>
+              <div>
+                <div className="text-xs text-muted-foreground mb-1">Language</div>
+                <select value={item.language} onChange={e => update(index, { language: e.target.value })} className={inputClass}>
+                  {LANGUAGES.map(language => <option key={language.value} value={language.value}>{language.label}</option>)}
+                  {!LANGUAGES.some(language => language.value === item.language) && <option value={item.language}>{item.language}</option>}
+                </select>
+              </div>
+            </div>
+            <div>
+              <div className="text-xs text-muted-foreground mb-1">Subject</div>
+              <input value={item.subjectTemplate} onChange={e => update(index, { subjectTemplate: e.target.value })} className={inputClass} />
+            </div>
+            <div>
+              <div className="text-xs text-muted-foreground mb-1">Body (HTML)</div>
+              <textarea value={item.bodyTemplate} onChange={e => update(index, { bodyTemplate: e.target.value })} rows={5} className={`${inputClass} resize-y font-mono`} />
+            </div>
+            <div className="flex flex-wrap items-center gap-4 text-sm text-muted-foreground">
+              {item.id && <span>Version {item.version}</span>}
+              {!!item.ruleCount && <span>Used by {item.ruleCount} automation rule(s)</span>}
+              <div className="ml-auto flex gap-2">
+                {item.id && (item.version ?? 1) > 1 && (
+                  <button type="button" onClick={() => toggleHistory(item.id!)} className="btn btn-ghost btn-sm">
+                    {history?.id === item.id ? 'Hide history' : 'History'}
+                  </button>
+                )}
+                <button type="button" onClick={() => onSave(index)} disabled={savingKey !== null} className="btn btn-primary btn-sm">
+                  {savingKey === (item.id || `new-${index}`) ? 'Saving...' : 'Save'}
+                </button>
+                <button type="button" onClick={() => onDelete(index)} className="btn btn-ghost btn-sm text-destructive">Remove</button>
+              </div>
+            </div>
+            {history && history.id === item.id && (
+              <div className="grid gap-2 border-t border-border pt-2">
+                {history.versions.map(version => (
+                  <div key={version.version} className="text-sm grid gap-1">
+                    <div className="flex items-center gap-3">
+                      <span className="font-medium text-card-foreground">Version {version.version}</span>
+                      <span className="text-muted-foreground">replaced {new Date(version.replacedAt).toLocaleString()}</span>
+                      <button type="button" onClick={() => onRestore(item.id!, version.version)} className="btn btn-ghost btn-sm ml-auto">Restore</button>
+                    </div>
+                    <div className="text-muted-foreground">{version.subjectTemplate}</div>
+                    <pre className="text-xs whitespace-pre-wrap bg-background rounded-lg p-2 m-0">{version.bodyTemplate}</pre>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        ))}
+
+        <div className="flex flex-wrap gap-3 pt-2 border-t border-border mt-2">
+          {KINDS.map(kind => (
+            <button key={kind.value} type="button" onClick={() => addTemplate(kind.value)} className="btn btn-lg">
+              Add {kind.label.toLowerCase()}
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -7,10 +7,30 @@ type Profile = {
   email?: string
   phone?: string
   taxId?: string
+  countryCode?: string | null
   bankName?: string
   bankAccount?: string
   iban?: string
   swift?: string
+  logo?: string | null
+  accentColor?: string | null
+  invoiceTheme?: string | null
+  facturX?: boolean | null
+}
+
+type Theme = { id: string; name: string; description: string; accentColor: string }
+
+// Invoice drawn in the live preview of the chosen theme
+const SAMPLE_INVOICE = {
+  clientName: 'Sample Client S.L.',
+  number: 'F2026-0001',
+  amount: '0',
+  currency: 'EUR',
+  lines: [
+    { description: 'Consulting services', quantity: '10', unit: 'h', unitPrice: '60' },
+    { description: 'Website maintenance', quantity: '1', unitPrice: '250' }
+  ],
+  notes: 'Thank you for your business.'
 }
 
 export default function MyDataPage() {
@@ -18,6 +38,8 @@ export default function MyDataPage() {
   const [profile, setProfile] = useState<Profile>({})
   const [loading, setLoading] = useState(false)
   const [message, setMessage] = useState<string | null>(null)
+  const [themes, setThemes] = useState<Theme[]>([])
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null)
 
   useEffect(() => {
     let mounted = true
@@ -27,12 +49,44 @@ export default function MyDataPage() {
       const res = await api.getCompanyProfile()
       if (!mounted) return
       if (!res.error) setProfile(res.profile || {})
+      const themesRes = await window.api.getInvoiceThemes()
+      if (mounted && !themesRes.error) setThemes(themesRes.themes || [])
     }
     run()
     return () => { mounted = false }
   }, [])
 
-  const set = (k: keyof Profile, v: string) => setProfile(prev => ({ ...prev, [k]: v }))
+  const set = (k: keyof Profile, v: string | boolean | null) => setProfile(prev => ({ ...prev, [k]: v }))
+
+  const selectedTheme = themes.find(t => t.id === (profile.invoiceTheme || 'classic'))
+
+  // Live preview of the unsaved logo, colour and theme
+  useEffect(() => {
+    let active = true
+    const run = async () => {
+      try {
+        if (!window.api) return
+        const res = await window.api.previewBill({
+          ...SAMPLE_INVOICE,
+          issueDate: new Date().toISOString().slice(0, 10),
+          branding: { logo: profile.logo || null, accentColor: profile.accentColor || null, invoiceTheme: profile.invoiceTheme || null }
+        })
+        if (active && !res.error) setPreviewUrl(res.dataUrl)
+      } catch {}
+    }
+    const t = setTimeout(run, 300)
+    return () => { active = false; clearTimeout(t) }
+  }, [profile.logo, profile.accentColor, profile.invoiceTheme])
+
+  const onSelectLogo = async () => {
+    setMessage(null)
+    const res = await window.api.selectLogo()
+    if (res.error) {
+      setMessage(res.error.message)
+      return
+    }
+    if (res.logo) set('logo', res.logo)
+  }
 
   const onSave = async () => {
     setLoading(true)
@@ -57,7 +111,8 @@ export default function MyDataPage() {
         <h1 className="text-3xl font-bold text-foreground m-0">My Data</h1>
       </div>
 
-      <div className="apple-card bg-card p-8 max-w-2xl grid gap-4">
+      <div className="grid gap-6 xl:grid-cols-[minmax(0,42rem)_1fr] items-start">
+      <div className="apple-card bg-card p-8 grid gap-4">
         {message && (
           <div className={`text-sm p-3 rounded-lg ${message === 'Saved!' 
             ? 'bg-emerald-100 text-emerald-800 dark:bg-emerald-900/30 dark:text-emerald-300' 
@@ -69,19 +124,99 @@ export default function MyDataPage() {
         <Field label="Address" value={profile.address || ''} onChange={v=>set('address', v)} />
         <Field label="Email" value={profile.email || ''} onChange={v=>set('email', v)} />
         <Field label="Phone" value={profile.phone || ''} onChange={v=>set('phone', v)} />
-        <Field label="Tax ID" value={profile.taxId || ''} onChange={v=>set('taxId', v)} />
+        <div className="grid grid-cols-1 md:grid-cols-[1fr_10rem] gap-4">
+          <Field label="Tax ID" value={profile.taxId || ''} onChange={v=>set('taxId', v)} />
+          <Field label="Country (e.g. ES)" value={profile.countryCode || ''} onChange={v=>set('countryCode', v.trim().toUpperCase().slice(0, 2) || null)} />
+        </div>
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
           <Field label="Bank Name" value={profile.bankName || ''} onChange={v=>set('bankName', v)} />
           <Field label="Bank Account" value={profile.bankAccount || ''} onChange={v=>set('bankAccount', v)} />
           <Field label="IBAN" value={profile.iban || ''} onChange={v=>set('iban', v)} />
           <Field label="SWIFT" value={profile.swift || ''} onChange={v=>set('swift', v)} />
         </div>
+
+        <div className="pt-2 border-t border-border mt-2 grid gap-4">
+          <div>
+            <h2 className="text-lg font-semibold text-card-foreground m-0">Invoice appearance</h2>
+            <p className="text-muted-foreground text-sm m-0">The layout, colour and logo of the PDF invoices you send.</p>
+          </div>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            {themes.map(theme => (
+              <button
+                key={theme.id}
+                type="button"
+                onClick={() => set('invoiceTheme', theme.id)}
+                className={`text-left p-3 rounded-xl border transition-all ${selectedTheme?.id === theme.id ? 'border-primary ring-2 ring-primary/20' : 'border-border hover:bg-muted/40'}`}
+              >
+                <div className="flex items-center gap-2 font-medium text-card-foreground">
+                  <span className="inline-block h-3 w-3 rounded-full" style={{ background: theme.accentColor }} />
+                  {theme.name}
+                </div>
+                <div className="text-xs text-muted-foreground mt-1">{theme.description}</div>
+              </button>
+            ))}
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 items-start">
+            <div>
+              <label className="block text-sm font-medium mb-2 text-card-foreground">Accent colour</label>
+              <div className="flex items-center gap-3">
+                <input
+                  type="color"
+                  value={profile.accentColor || selectedTheme?.accentColor || '#1f2937'}
+                  onChange={e => set('accentColor', e.target.value)}
+                  className="h-10 w-14 rounded-lg bg-background cursor-pointer"
+                />
+                {profile.accentColor && (
+                  <button type="button" onClick={() => set('accentColor', null)} className="btn btn-ghost btn-sm">Use the theme's</button>
+                )}
+              </div>
+            </div>
+            <div>
+              <label className="block text-sm font-medium mb-2 text-card-foreground">Logo</label>
+              <div className="flex items-center gap-3">
+                {profile.logo && <img src={profile.logo} alt="Company logo" className="h-10 max-w-[8rem] object-contain rounded bg-white p-1" />}
+                <button type="button" onClick={onSelectLogo} className="btn btn-secondary btn-sm">{profile.logo ? 'Change' : 'Choose image'}</button>
+                {profile.logo && <button type="button" onClick={() => set('logo', null)} className="btn btn-ghost btn-sm text-destructive">Remove</button>}
+              </div>
+              <div className="text-xs text-muted-foreground mt-1">PNG or JPEG, up to 512 KB</div>
+            </div>
+          </div>
+        </div>
+
+        <div className="pt-2 border-t border-border mt-2 grid gap-2">
+          <div>
+            <h2 className="text-lg font-semibold text-card-foreground m-0">Electronic invoices</h2>
+            <p className="text-muted-foreground text-sm m-0">Some clients' accounts payable systems only accept invoices with the data embedded.</p>
+          </div>
+          <label className="flex items-start gap-2 text-sm text-card-foreground">
+            <input
+              type="checkbox"
+              checked={!!profile.facturX}
+              onChange={e => set('facturX', e.target.checked)}
+              className="rounded border-gray-300 text-blue-600 focus:ring-blue-500 mt-0.5"
+            />
+            <span>
+              Issue Factur-X / ZUGFeRD invoices
+              <span className="block text-xs text-muted-foreground">PDF/A-3 files with the invoice embedded as XML. Needs the name, tax ID and country above; new invoices list anything else missing before they are saved.</span>
+            </span>
+          </label>
+        </div>
         <div className="flex gap-3 pt-2 border-t border-border mt-2">
           <button onClick={onSave} disabled={loading} className="btn btn-primary btn-lg">
             {loading ? 'Saving...' : 'Save'}
           </button>
         </div>
       </div>
+
+      <div className="apple-card bg-card p-4">
+        <div className="text-sm font-medium text-card-foreground mb-2">Invoice preview</div>
+        {previewUrl ? (
+          <iframe src={previewUrl} className="w-full h-[75vh] rounded-lg border" title="Invoice Preview" />
+        ) : (
+          <div className="h-[75vh] grid place-items-center text-muted-foreground text-sm">Generating preview...</div>
+        )}
+      </div>
+      </div>
     </div>
   )
 }
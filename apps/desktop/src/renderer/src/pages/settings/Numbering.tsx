@@ -0,0 +1,188 @@
+import { useEffect, useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+
+type Series = {
+  id?: string
+  name: string
+  prefix: string
+  pattern: string
+  resetYearly: boolean
+  nextSeq: number
+  isDefault: boolean
+  kind: 'INVOICE' | 'CREDIT_NOTE' | 'QUOTE'
+  invoiceCount?: number
+  example?: string
+}
+
+const inputClass = 'w-full p-2 rounded-lg text-sm bg-background text-foreground placeholder-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary/20 transition-all'
+
+export default function NumberingPage() {
+  const navigate = useNavigate()
+  const [series, setSeries] = useState<Series[]>([])
+  const [savingKey, setSavingKey] = useState<string | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+
+  const load = async () => {
+    if (!window.api) return
+    const api: any = window.api
+    const res = await api.getNumberingSeries()
+    if (res.error) {
+      setMessage(res.error.message)
+      return
+    }
+    setSeries(res.series || [])
+  }
+
+  useEffect(() => {
+    load()
+  }, [])
+
+  const update = (index: number, patch: Partial<Series>) => {
+    setSeries(prev => prev.map((s, i) => (i === index ? { ...s, ...patch } : s)))
+  }
+
+  const addSeries = () => {
+    setSeries(prev => [...prev, { name: '', prefix: '', pattern: '{PREFIX}{YYYY}-{SEQ:4}', resetYearly: true, nextSeq: 1, isDefault: false, kind: 'INVOICE' }])
+  }
+
+  const onSave = async (index: number) => {
+    const item = series[index]
+    setSavingKey(item.id || `new-${index}`)
+    setMessage(null)
+    try {
+      if (!window.api) throw new Error('API not available')
+      const api: any = window.api
+      const res = await api.saveNumberingSeries({
+        id: item.id,
+        name: item.name.trim(),
+        prefix: item.prefix,
+        pattern: item.pattern.trim(),
+        resetYearly: item.resetYearly,
+        nextSeq: Number(item.nextSeq) || 1,
+        isDefault: item.isDefault,
+        kind: item.kind
+      })
+      if (res.error) throw new Error(res.error.message)
+      setMessage('Saved!')
+      await load()
+    } catch (e) {
+      setMessage(e instanceof Error ? e.message : 'Failed to save')
+    } finally {
+      setSavingKey(null)
+    }
+  }
+
+  const onDelete = async (index: number) => {
+    const item = series[index]
+    if (!item.id) {
+      setSeries(prev => prev.filter((_, i) => i !== index))
+      return
+    }
+    if (!window.confirm(`Delete the series "${item.name}"?`)) return
+    const api: any = window.api
+    const res = await api.deleteNumberingSeries(item.id)
+    if (res.error) {
+      setMessage(res.error.message)
+      return
+    }
+    await load()
+  }
+
+  return (
+    <div className="min-h-screen bg-background p-6">
+      <div className="flex items-center gap-4 mb-6">
+        <button onClick={() => navigate(-1)} className="btn btn-secondary btn-sm">← Back</button>
+        <h1 className="text-3xl font-bold text-foreground m-0">Invoice Numbering</h1>
+      </div>
+
+      <div className="apple-card bg-card p-8 max-w-4xl grid gap-4">
+        {message && (
+          <div className={`text-sm p-3 rounded-lg ${message === 'Saved!'
+            ? 'bg-emerald-100 text-emerald-800 dark:bg-emerald-900/30 dark:text-emerald-300'
+            : 'bg-destructive/10 text-destructive'}`}>
+            {message}
+          </div>
+        )}
+        <p className="text-muted-foreground text-sm m-0">
+          Numbers are assigned when a bill is saved, without gaps. Invoices and credit notes are numbered in separate series, each with its own default. Patterns can use <code>{'{PREFIX}'}</code>, <code>{'{YYYY}'}</code>, <code>{'{YY}'}</code>, <code>{'{MM}'}</code> and <code>{'{SEQ:4}'}</code> (sequence padded to 4 digits).
+        </p>
+
+        {series.map((item, index) => {
+          const used = (item.invoiceCount || 0) > 0
+          return (
+            <div key={item.id || `new-${index}`} className="rounded-xl bg-muted/30 p-3 grid gap-2">
+              <div className="grid grid-cols-1 sm:grid-cols-5 gap-2 items-end">
+                <div>
+                  <div className="text-xs text-muted-foreground mb-1">Name</div>
+                  <input value={item.name} onChange={e => update(index, { name: e.target.value })} placeholder="Invoices" className={inputClass} />
+                </div>
+                <div>
+                  <div className="text-xs text-muted-foreground mb-1">Documents</div>
+                  <select
+                    value={item.kind}
+                    disabled={!!item.id}
+                    onChange={e => update(index, { kind: e.target.value as Series['kind'], isDefault: false })}
+                    className={inputClass}
+                  >
+                    <option value="INVOICE">Invoices</option>
+                    <option value="CREDIT_NOTE">Credit notes</option>
+                    <option value="QUOTE">Quotes</option>
+                  </select>
+                </div>
+                <div>
+                  <div className="text-xs text-muted-foreground mb-1">Prefix</div>
+                  <input value={item.prefix} onChange={e => update(index, { prefix: e.target.value })} placeholder="F" className={inputClass} />
+                </div>
+                <div>
+                  <div className="text-xs text-muted-foreground mb-1">Pattern</div>
+                  <input value={item.pattern} onChange={e => update(index, { pattern: e.target.value })} className={inputClass} />
+                </div>
+                <div>
+                  <div className="text-xs text-muted-foreground mb-1">Next number</div>
+                  <input
+                    type="number"
+                    min={1}
+                    value={item.nextSeq}
+                    disabled={used}
+                    title={used ? 'The counter of a series in use cannot be changed' : undefined}
+                    onChange={e => update(index, { nextSeq: Number(e.target.value) })}
+                    className={inputClass}
+                  />
+                </div>
+              </div>
+              <div className="flex flex-wrap items-center gap-4 text-sm text-card-foreground">
+                <label className="flex items-center gap-2">
+                  <input type="checkbox" checked={item.resetYearly} onChange={e => update(index, { resetYearly: e.target.checked })} />
+                  Restart every year
+                </label>
+                <label className="flex items-center gap-2">
+                  <input
+                    type="radio"
+                    name={`default-series-${item.kind}`}
+                    checked={item.isDefault}
+                    onChange={() => setSeries(prev => prev.map((s, i) => (s.kind === item.kind ? { ...s, isDefault: i === index } : s)))}
+                  />
+                  Default
+                </label>
+                {item.example && <span className="text-muted-foreground">Next: {item.example}</span>}
+                {used && <span className="text-muted-foreground">{item.invoiceCount} {item.kind === 'QUOTE' ? 'quotes' : 'invoices'}</span>}
+                <div className="ml-auto flex gap-2">
+                  <button type="button" onClick={() => onSave(index)} disabled={savingKey !== null} className="btn btn-primary btn-sm">
+                    {savingKey === (item.id || `new-${index}`) ? 'Saving...' : 'Save'}
+                  </button>
+                  {!item.isDefault && !used && (
+                    <button type="button" onClick={() => onDelete(index)} className="btn btn-ghost btn-sm text-destructive">Remove</button>
+                  )}
+                </div>
+              </div>
+            </div>
+          )
+        })}
+
+        <div className="flex gap-3 pt-2 border-t border-border mt-2">
+          <button type="button" onClick={addSeries} className="btn btn-lg">Add series</button>
+        </div>
+      </div>
+    </div>
+  )
+}
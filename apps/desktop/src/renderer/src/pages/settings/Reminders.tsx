@@ -0,0 +1,183 @@
+import { useEffect, useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+
+type Step = {
+  id?: string
+  name: string
+  offsetDays: number
+  subjectTemplate: string
+  bodyTemplate: string
+  isActive: boolean
+}
+
+// Suggested sequence: a heads-up before the due date, then two follow-ups
+const SUGGESTED_STEPS: Step[] = [
+  {
+    name: 'Upcoming due date',
+    offsetDays: -3,
+    subjectTemplate: 'Invoice {{ invoice.number }} is due on {{ invoice.dueDate | date }}',
+    bodyTemplate: '<p>Hello {{ client.name }},</p><p>This is a friendly reminder that invoice {{ invoice.number }} for {{ invoice.outstanding | currency }} is due on {{ invoice.dueDate | date }}.</p><p>Kind regards,<br>{{ seller.name }}</p>',
+    isActive: true
+  },
+  {
+    name: 'First reminder',
+    offsetDays: 7,
+    subjectTemplate: 'Reminder: invoice {{ invoice.number }} is overdue',
+    bodyTemplate: '<p>Hello {{ client.name }},</p><p>Invoice {{ invoice.number }} was due on {{ invoice.dueDate | date }} and {{ invoice.outstanding | currency }} is still outstanding. Please arrange the payment at your earliest convenience.</p><p>Kind regards,<br>{{ seller.name }}</p>',
+    isActive: true
+  },
+  {
+    name: 'Final reminder',
+    offsetDays: 21,
+    subjectTemplate: 'Final reminder: invoice {{ invoice.number }} is {{ invoice.daysOverdue }} days overdue',
+    bodyTemplate: '<p>Hello {{ client.name }},</p><p>Invoice {{ invoice.number }} is now {{ invoice.daysOverdue }} days overdue with {{ invoice.outstanding | currency }} outstanding. Please settle it as soon as possible or contact us if there is an issue.</p><p>Kind regards,<br>{{ seller.name }}</p>',
+    isActive: true
+  }
+]
+
+const inputClass = 'w-full p-2 rounded-lg text-sm bg-background text-foreground placeholder-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary/20 transition-all'
+
+function describeOffset(days: number): string {
+  if (days === 0) return 'On the due date'
+  return days < 0 ? `${-days} days before the due date` : `${days} days after the due date`
+}
+
+export default function RemindersPage() {
+  const navigate = useNavigate()
+  const [steps, setSteps] = useState<Step[]>([])
+  const [savingKey, setSavingKey] = useState<string | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+
+  const load = async () => {
+    if (!window.api) return
+    const api: any = window.api
+    const res = await api.getReminderSteps()
+    if (res.error) {
+      setMessage(res.error.message)
+      return
+    }
+    setSteps(res.steps || [])
+  }
+
+  useEffect(() => {
+    load()
+  }, [])
+
+  const update = (index: number, patch: Partial<Step>) => {
+    setSteps(prev => prev.map((s, i) => (i === index ? { ...s, ...patch } : s)))
+  }
+
+  const addStep = () => {
+    const suggestion = SUGGESTED_STEPS[Math.min(steps.length, SUGGESTED_STEPS.length - 1)]
+    setSteps(prev => [...prev, { ...suggestion }])
+  }
+
+  const onSave = async (index: number) => {
+    const item = steps[index]
+    setSavingKey(item.id || `new-${index}`)
+    setMessage(null)
+    try {
+      if (!window.api) throw new Error('API not available')
+      const api: any = window.api
+      const res = await api.saveReminderStep({
+        id: item.id,
+        name: item.name.trim(),
+        offsetDays: Math.trunc(Number(item.offsetDays) || 0),
+        subjectTemplate: item.subjectTemplate,
+        bodyTemplate: item.bodyTemplate,
+        isActive: item.isActive
+      })
+      if (res.error) throw new Error(res.error.message)
+      setMessage('Saved!')
+      await load()
+    } catch (e) {
+      setMessage(e instanceof Error ? e.message : 'Failed to save')
+    } finally {
+      setSavingKey(null)
+    }
+  }
+
+  const onDelete = async (index: number) => {
+    const item = steps[index]
+    if (!item.id) {
+      setSteps(prev => prev.filter((_, i) => i !== index))
+      return
+    }
+    if (!window.confirm(`Delete the reminder "${item.name}"?`)) return
+    const api: any = window.api
+    const res = await api.deleteReminderStep(item.id)
+    if (res.error) {
+      setMessage(res.error.message)
+      return
+    }
+    await load()
+  }
+
+  return (
+    <div className="min-h-screen bg-background p-6">
+      <div className="flex items-center gap-4 mb-6">
+        <button onClick={() => navigate(-1)} className="btn btn-secondary btn-sm">← Back</button>
+        <h1 className="text-3xl font-bold text-foreground m-0">Payment Reminders</h1>
+      </div>
+
+      <div className="apple-card bg-card p-8 max-w-4xl grid gap-4">
+        {message && (
+          <div className={`text-sm p-3 rounded-lg ${message === 'Saved!'
+            ? 'bg-emerald-100 text-emerald-800 dark:bg-emerald-900/30 dark:text-emerald-300'
+            : 'bg-destructive/10 text-destructive'}`}>
+            {message}
+          </div>
+        )}
+        <p className="text-muted-foreground text-sm m-0">
+          Unpaid invoices are checked every morning. Each reminder is sent once, by email, when the invoice reaches its day; an invoice that is already late only gets the latest reminder due. Clients can be opted out from their profile.
+          Templates can use variables such as <code>{'{{ client.name }}'}</code>, <code>{'{{ invoice.number }}'}</code>, <code>{'{{ invoice.outstanding | currency }}'}</code>, <code>{'{{ invoice.dueDate | date "long" }}'}</code>, <code>{'{{ invoice.daysOverdue }}'}</code> and <code>{'{{ seller.name }}'}</code>, plus <code>{'{{#if}}'}</code> conditions and <code>{'{{#each invoice.lines}}'}</code> loops.
+        </p>
+
+        {steps.map((item, index) => (
+          <div key={item.id || `new-${index}`} className="rounded-xl bg-muted/30 p-3 grid gap-2">
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-2 items-end">
+              <div>
+                <div className="text-xs text-muted-foreground mb-1">Name</div>
+                <input value={item.name} onChange={e => update(index, { name: e.target.value })} placeholder="First reminder" className={inputClass} />
+              </div>
+              <div>
+                <div className="text-xs text-muted-foreground mb-1">Days from due date</div>
+                <input
+                  type="number"
+                  value={item.offsetDays}
+                  onChange={e => update(index, { offsetDays: Number(e.target.value) })}
+                  className={inputClass}
+                />
+              </div>
+              <div className="text-sm text-muted-foreground pb-2">{describeOffset(Number(item.offsetDays) || 0)}</div>
+            </div>
+            <div>
+              <div className="text-xs text-muted-foreground mb-1">Subject</div>
+              <input value={item.subjectTemplate} onChange={e => update(index, { subjectTemplate: e.target.value })} className={inputClass} />
+            </div>
+            <div>
+              <div className="text-xs text-muted-foreground mb-1">Body (HTML)</div>
+              <textarea value={item.bodyTemplate} onChange={e => update(index, { bodyTemplate: e.target.value })} rows={4} className={`${inputClass} resize-y`} />
+            </div>
+            <div className="flex flex-wrap items-center gap-4 text-sm text-card-foreground">
+              <label className="flex items-center gap-2">
+                <input type="checkbox" checked={item.isActive} onChange={e => update(index, { isActive: e.target.checked })} />
+                Active
+              </label>
+              <div className="ml-auto flex gap-2">
+                <button type="button" onClick={() => onSave(index)} disabled={savingKey !== null} className="btn btn-primary btn-sm">
+                  {savingKey === (item.id || `new-${index}`) ? 'Saving...' : 'Save'}
+                </button>
+                <button type="button" onClick={() => onDelete(index)} className="btn btn-ghost btn-sm text-destructive">Remove</button>
+              </div>
+            </div>
+          </div>
+        ))}
+
+        <div className="flex gap-3 pt-2 border-t border-border mt-2">
+          <button type="button" onClick={addStep} className="btn btn-lg">Add reminder</button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,161 @@
+import { useEffect, useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+
+type TaxKind = 'STANDARD' | 'REDUCED' | 'EXEMPT' | 'WITHHOLDING'
+
+type TaxRate = {
+  id: string
+  name: string
+  rate: string
+  kind: TaxKind
+  legalMention?: string | null
+  isDefault?: boolean
+}
+
+const KIND_LABELS: Record<TaxKind, string> = {
+  STANDARD: 'Standard',
+  REDUCED: 'Reduced',
+  EXEMPT: 'Exempt',
+  WITHHOLDING: 'Withholding'
+}
+
+const inputClass = 'w-full p-2 rounded-lg text-sm bg-background text-foreground placeholder-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary/20 transition-all'
+
+export default function TaxRatesPage() {
+  const navigate = useNavigate()
+  const [rates, setRates] = useState<TaxRate[]>([])
+  const [defaults, setDefaults] = useState<TaxRate[]>([])
+  const [loading, setLoading] = useState(false)
+  const [message, setMessage] = useState<string | null>(null)
+
+  useEffect(() => {
+    let mounted = true
+    const run = async () => {
+      if (!window.api) return
+      const api: any = window.api
+      const res = await api.getTaxRates()
+      if (!mounted) return
+      if (!res.error) {
+        setRates(res.rates || [])
+        setDefaults(res.defaults || [])
+      }
+    }
+    run()
+    return () => { mounted = false }
+  }, [])
+
+  const update = (id: string, patch: Partial<TaxRate>) => {
+    setRates(prev => prev.map(r => (r.id === id ? { ...r, ...patch } : r)))
+  }
+
+  const setDefault = (id: string) => {
+    setRates(prev => prev.map(r => ({ ...r, isDefault: r.id === id })))
+  }
+
+  const addRate = () => {
+    setRates(prev => [...prev, { id: `rate-${Date.now()}`, name: '', rate: '0', kind: 'STANDARD', legalMention: '' }])
+  }
+
+  const removeRate = (id: string) => {
+    setRates(prev => prev.filter(r => r.id !== id))
+  }
+
+  const onSave = async () => {
+    setLoading(true)
+    setMessage(null)
+    try {
+      if (!window.api) throw new Error('API not available')
+      const api: any = window.api
+      const payload = rates.map(r => ({
+        ...r,
+        name: r.name.trim(),
+        legalMention: r.legalMention?.trim() || null,
+        isDefault: !!r.isDefault
+      }))
+      const res = await api.saveTaxRates(payload)
+      if (res.error) throw new Error(res.error.message)
+      setMessage('Saved!')
+    } catch (e) {
+      setMessage(e instanceof Error ? e.message : 'Failed to save')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-background p-6">
+      <div className="flex items-center gap-4 mb-6">
+        <button onClick={() => navigate(-1)} className="btn btn-secondary btn-sm">← Back</button>
+        <h1 className="text-3xl font-bold text-foreground m-0">Tax Rates</h1>
+      </div>
+
+      <div className="apple-card bg-card p-8 max-w-4xl grid gap-4">
+        {message && (
+          <div className={`text-sm p-3 rounded-lg ${message === 'Saved!'
+            ? 'bg-emerald-100 text-emerald-800 dark:bg-emerald-900/30 dark:text-emerald-300'
+            : 'bg-destructive/10 text-destructive'}`}>
+            {message}
+          </div>
+        )}
+        <p className="text-muted-foreground text-sm m-0">
+          The default rate applies to new invoices. Withholdings (e.g. IRPF) use a negative percentage and are applied on the subtotal.
+          Legal mentions are printed on the PDF of every invoice using the rate.
+        </p>
+
+        {rates.map(rate => (
+          <div key={rate.id} className="rounded-xl bg-muted/30 p-3 grid gap-2">
+            <div className="grid grid-cols-1 sm:grid-cols-4 gap-2 items-end">
+              <div className="sm:col-span-2">
+                <div className="text-xs text-muted-foreground mb-1">Name</div>
+                <input value={rate.name} onChange={e => update(rate.id, { name: e.target.value })} placeholder="IVA 21%" className={inputClass} />
+              </div>
+              <div>
+                <div className="text-xs text-muted-foreground mb-1">Rate %</div>
+                <input type="number" step="0.01" value={rate.rate} onChange={e => update(rate.id, { rate: e.target.value })} className={inputClass} />
+              </div>
+              <div>
+                <div className="text-xs text-muted-foreground mb-1">Kind</div>
+                <select value={rate.kind} onChange={e => update(rate.id, { kind: e.target.value as TaxKind })} className={inputClass}>
+                  {(Object.keys(KIND_LABELS) as TaxKind[]).map(kind => (
+                    <option key={kind} value={kind}>{KIND_LABELS[kind]}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+            <div>
+              <div className="text-xs text-muted-foreground mb-1">Legal mention</div>
+              <textarea
+                value={rate.legalMention || ''}
+                onChange={e => update(rate.id, { legalMention: e.target.value })}
+                placeholder="Printed on invoices using this rate (optional)"
+                rows={1}
+                className={`${inputClass} resize-y whitespace-pre-wrap break-words`}
+              />
+            </div>
+            <div className="flex items-center justify-between">
+              <label className="flex items-center gap-2 text-sm text-card-foreground">
+                <input
+                  type="radio"
+                  name="default-tax-rate"
+                  checked={!!rate.isDefault}
+                  disabled={rate.kind === 'WITHHOLDING'}
+                  onChange={() => setDefault(rate.id)}
+                />
+                Default
+              </label>
+              <button type="button" onClick={() => removeRate(rate.id)} className="btn btn-ghost btn-sm text-destructive">Remove</button>
+            </div>
+          </div>
+        ))}
+
+        <div className="flex gap-3 pt-2 border-t border-border mt-2">
+          <button onClick={onSave} disabled={loading} className="btn btn-primary btn-lg">
+            {loading ? 'Saving...' : 'Save'}
+          </button>
+          <button type="button" onClick={addRate} className="btn btn-lg">Add rate</button>
+          <button type="button" onClick={() => setRates(defaults)} className="btn btn-secondary btn-lg">Restore defaults</button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -469,6 +469,66 @@ export default function SettingsPage() {
           </button>
         </div>
 
+        {/* Tax rates quick access */}
+        <div className="apple-card bg-card p-6">
+          <h2 className="text-xl font-semibold mb-4 text-card-foreground">Tax Rates</h2>
+          <p className="text-muted-foreground text-sm mb-4">Configure the taxes, withholdings and legal mentions applied to your invoices.</p>
+          <button 
+            onClick={() => navigate('/settings/tax-rates')}
+            className="btn btn-primary btn-lg"
+          >
+            Edit Tax Rates
+          </button>
+        </div>
+
+        {/* Currencies quick access */}
+        <div className="apple-card bg-card p-6">
+          <h2 className="text-xl font-semibold mb-4 text-card-foreground">Currencies</h2>
+          <p className="text-muted-foreground text-sm mb-4">Choose the currency your dashboard adds everything up in, and keep the exchange rates for invoices and expenses in other currencies.</p>
+          <button 
+            onClick={() => navigate('/settings/currencies')}
+            className="btn btn-primary btn-lg"
+          >
+            Edit Currencies
+          </button>
+        </div>
+
+        {/* Invoice numbering quick access */}
+        <div className="apple-card bg-card p-6">
+          <h2 className="text-xl font-semibold mb-4 text-card-foreground">Invoice Numbering</h2>
+          <p className="text-muted-foreground text-sm mb-4">Define the numbering series used to assign sequential invoice numbers.</p>
+          <button 
+            onClick={() => navigate('/settings/numbering')}
+            className="btn btn-primary btn-lg"
+          >
+            Edit Numbering
+          </button>
+        </div>
+
+        {/* Payment reminders quick access */}
+        <div className="apple-card bg-card p-6">
+          <h2 className="text-xl font-semibold mb-4 text-card-foreground">Payment Reminders</h2>
+          <p className="text-muted-foreground text-sm mb-4">Set up the reminder emails sent to clients before and after an invoice is due.</p>
+          <button 
+            onClick={() => navigate('/settings/reminders')}
+            className="btn btn-primary btn-lg"
+          >
+            Edit Reminders
+          </button>
+        </div>
+
+        {/* Email templates quick access */}
+        <div className="apple-card bg-card p-6">
+          <h2 className="text-xl font-semibold mb-4 text-card-foreground">Email Templates</h2>
+          <p className="text-muted-foreground text-sm mb-4">Keep the wording of your invoice, reminder, thank-you and credit note emails in one place, in every language you need.</p>
+          <button 
+            onClick={() => navigate('/settings/email-templates')}
+            className="btn btn-primary btn-lg"
+          >
+            Edit Templates
+          </button>
+        </div>
+
         {/* Password Configuration */}
         <div className="apple-card bg-card p-6">
           <h2 className="text-xl font-semibold mb-4 text-card-foreground">
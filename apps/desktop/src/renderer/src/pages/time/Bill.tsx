@@ -0,0 +1,197 @@
+import { useEffect, useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { PageHeader } from '../../components/PageHeader'
+import { TaxRateOption } from '../../components/InvoiceLinesEditor'
+import { InvoiceTaxFields } from '../../components/InvoiceTaxFields'
+
+interface TimeEntry {
+  id: string
+  project: string | null
+  date: string
+  hours: string
+  rate: string
+  amount: string
+  description: string | null
+}
+
+interface TimeLine {
+  description: string
+  quantity: string
+  unit?: string | null
+  unitPrice: string
+}
+
+const fieldClass = 'w-full p-3 rounded-xl text-base bg-background text-foreground placeholder-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary/20 transition-all'
+
+const today = () => new Date().toISOString().slice(0, 10)
+
+// Bill the hours of a client in a period on a new draft invoice
+export default function TimeBillPage() {
+  const navigate = useNavigate()
+  const [clients, setClients] = useState<Array<{ id: string; name: string }>>([])
+  const [taxRates, setTaxRates] = useState<TaxRateOption[]>([])
+  const [formData, setFormData] = useState({
+    clientId: '',
+    from: `${today().slice(0, 8)}01`, // This month so far
+    to: today(),
+    currency: 'EUR',
+    taxRateId: '',
+    withholdingRateId: ''
+  })
+  const [entries, setEntries] = useState<TimeEntry[]>([])
+  const [lines, setLines] = useState<TimeLine[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const load = async () => {
+      if (!window.api) return
+      const api: any = window.api
+      const [clientsRes, ratesRes] = await Promise.all([api.getClients(), api.getTaxRates()])
+      if (!clientsRes.error) setClients(clientsRes.clients || [])
+      if (!ratesRes.error) {
+        setTaxRates(ratesRes.rates)
+        const defaultRate = ratesRes.rates.find((r: any) => r.isDefault)
+        setFormData(prev => ({ ...prev, taxRateId: prev.taxRateId || defaultRate?.id || '' }))
+      }
+    }
+    load()
+  }, [])
+
+  // Unbilled hours of the selected client and period
+  useEffect(() => {
+    let active = true
+    const run = async () => {
+      if (!window.api || !formData.clientId || !formData.from || !formData.to) {
+        setEntries([])
+        setLines([])
+        return
+      }
+      const res = await window.api.getUnbilledTime({ clientId: formData.clientId, from: formData.from, to: formData.to })
+      if (!active) return
+      if (res.error) {
+        setError(res.error.message)
+        return
+      }
+      setError(null)
+      setEntries(res.entries)
+      setLines(res.lines)
+    }
+    run()
+    return () => { active = false }
+  }, [formData.clientId, formData.from, formData.to])
+
+  const handleInputChange = (field: string, value: string) => {
+    setFormData(prev => ({ ...prev, [field]: value }))
+  }
+
+  const handleBill = async () => {
+    if (!window.api || entries.length === 0) return
+    setLoading(true)
+    try {
+      const res = await window.api.billTime(formData)
+      if (res.error) {
+        setError(res.error.message)
+        return
+      }
+      navigate(`/bills/${res.invoiceId}/view`)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const totalHours = entries.reduce((sum, entry) => sum + Number(entry.hours), 0)
+  const subtotal = entries.reduce((sum, entry) => sum + Number(entry.amount), 0)
+
+  return (
+    <div className="min-h-screen bg-background p-3 sm:p-6">
+      <PageHeader title="Bill Unbilled Time" subtitle="Turn a client's hours into a draft invoice, one line per project" />
+
+      <div className="apple-card bg-card p-4 sm:p-6 lg:p-8 w-full">
+        {error && (
+          <div className="bg-destructive/10 border-destructive/20 rounded-xl p-3 mb-6 text-destructive text-sm">{error}</div>
+        )}
+
+        <div className="grid gap-5">
+          <div className="grid grid-cols-1 sm:grid-cols-4 gap-4">
+            <div>
+              <label className="block text-sm font-medium mb-2 text-card-foreground">Client *</label>
+              <select value={formData.clientId} onChange={(e) => handleInputChange('clientId', e.target.value)} className={fieldClass}>
+                <option value="">— Select client —</option>
+                {clients.map(c => (
+                  <option key={c.id} value={c.id}>{c.name}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium mb-2 text-card-foreground">From</label>
+              <input type="date" value={formData.from} max={formData.to} onChange={(e) => handleInputChange('from', e.target.value)} className={fieldClass} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium mb-2 text-card-foreground">To</label>
+              <input type="date" value={formData.to} min={formData.from} onChange={(e) => handleInputChange('to', e.target.value)} className={fieldClass} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium mb-2 text-card-foreground">Currency</label>
+              <select value={formData.currency} onChange={(e) => handleInputChange('currency', e.target.value)} className={fieldClass}>
+                <option value="EUR">EUR</option>
+                <option value="USD">USD</option>
+                <option value="GBP">GBP</option>
+              </select>
+            </div>
+          </div>
+
+          <InvoiceTaxFields
+            taxRates={taxRates}
+            taxRateId={formData.taxRateId}
+            withholdingRateId={formData.withholdingRateId}
+            onChange={(field, value) => handleInputChange(field, value)}
+          />
+
+          {formData.clientId && (
+            lines.length === 0 ? (
+              <div className="text-muted-foreground text-sm py-6 text-center">No unbilled hours for this client in that period.</div>
+            ) : (
+              <div>
+                <div className="text-sm font-medium text-card-foreground mb-2">
+                  Invoice lines · {entries.length} {entries.length === 1 ? 'entry' : 'entries'}, {totalHours.toFixed(2)} h
+                </div>
+                <table className="w-full border-collapse">
+                  <thead>
+                    <tr className="bg-muted border-b">
+                      <th className="p-3 text-left font-semibold text-muted-foreground">Description</th>
+                      <th className="p-3 text-right font-semibold text-muted-foreground">Hours</th>
+                      <th className="p-3 text-right font-semibold text-muted-foreground">Rate</th>
+                      <th className="p-3 text-right font-semibold text-muted-foreground">Amount</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {lines.map((line, idx) => (
+                      <tr key={idx} className="border-b">
+                        <td className="p-3 text-card-foreground">{line.description}</td>
+                        <td className="p-3 text-right text-card-foreground">{line.quantity}</td>
+                        <td className="p-3 text-right text-card-foreground">{Number(line.unitPrice).toFixed(2)}</td>
+                        <td className="p-3 text-right font-medium text-card-foreground">{(Number(line.quantity) * Number(line.unitPrice)).toFixed(2)}</td>
+                      </tr>
+                    ))}
+                    <tr>
+                      <td colSpan={3} className="p-3 text-right text-muted-foreground">Subtotal before taxes</td>
+                      <td className="p-3 text-right font-semibold text-card-foreground">{formData.currency} {subtotal.toFixed(2)}</td>
+                    </tr>
+                  </tbody>
+                </table>
+              </div>
+            )
+          )}
+
+          <div className="flex gap-3 pt-2 border-t mt-2">
+            <button type="button" onClick={() => navigate('/time')} className="btn btn-secondary btn-lg">Cancel</button>
+            <button type="button" onClick={handleBill} disabled={loading || entries.length === 0} className="btn btn-primary btn-lg">
+              {loading ? 'Creating...' : 'Create Invoice'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
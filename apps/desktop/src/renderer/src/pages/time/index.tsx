@@ -0,0 +1,373 @@
+import { useEffect, useMemo, useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { PageHeader } from '../../components/PageHeader'
+
+interface TimeEntry {
+  id: string
+  clientId: string
+  clientName: string
+  projectId: string | null
+  project: string | null
+  date: string
+  hours: string
+  rate: string
+  amount: string
+  description: string | null
+  running: boolean
+  elapsedSeconds: number
+  invoiceId: string | null
+  invoiceNumber: string | null
+}
+
+interface Project {
+  id: string
+  clientId: string
+  name: string
+  hourlyRate: string | null
+  status: string
+}
+
+const fieldClass = 'w-full p-3 rounded-xl text-base bg-background text-foreground placeholder-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary/20 transition-all'
+
+const today = () => new Date().toISOString().slice(0, 10)
+
+const addDays = (date: string, days: number) => {
+  const d = new Date(`${date}T00:00:00Z`)
+  d.setUTCDate(d.getUTCDate() + days)
+  return d.toISOString().slice(0, 10)
+}
+
+// Timesheet weeks start on Monday
+const mondayOf = (date: string) => addDays(date, -((new Date(`${date}T00:00:00Z`).getUTCDay() + 6) % 7))
+
+const formatElapsed = (seconds: number) => {
+  const h = Math.floor(seconds / 3600)
+  const m = Math.floor((seconds % 3600) / 60)
+  const s = seconds % 60
+  return [h, m, s].map(n => String(n).padStart(2, '0')).join(':')
+}
+
+const formatDay = (date: string) => new Date(`${date}T00:00:00`).toLocaleDateString(undefined, { weekday: 'long', day: 'numeric', month: 'short' })
+
+const emptyEntry = () => ({ clientId: '', projectId: '', date: today(), hours: '', rate: '', description: '' })
+
+export default function TimePage() {
+  const navigate = useNavigate()
+  const [weekStart, setWeekStart] = useState(() => mondayOf(today()))
+  const [entries, setEntries] = useState<TimeEntry[]>([])
+  const [clients, setClients] = useState<Array<{ id: string; name: string }>>([])
+  const [projects, setProjects] = useState<Project[]>([])
+  const [running, setRunning] = useState<TimeEntry | null>(null)
+  const [timerStartedAt, setTimerStartedAt] = useState(0) // Date.now() when the timer would have read 0
+  const [now, setNow] = useState(() => Date.now())
+  const [timerForm, setTimerForm] = useState({ clientId: '', projectId: '', description: '', rate: '' })
+  const [entryForm, setEntryForm] = useState(emptyEntry)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const weekEnd = addDays(weekStart, 6)
+
+  const fetchEntries = async () => {
+    try {
+      if (!window.api) return
+      const res = await window.api.getTimeEntries({ from: weekStart, to: weekEnd })
+      if (res.error) {
+        setError(res.error.message)
+        return
+      }
+      setEntries(res.entries)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const fetchTimer = async () => {
+    if (!window.api) return
+    const res = await window.api.getRunningTimer()
+    if (res.error) {
+      setError(res.error.message)
+      return
+    }
+    setRunning(res.entry)
+    if (res.entry) setTimerStartedAt(Date.now() - res.entry.elapsedSeconds * 1000)
+  }
+
+  useEffect(() => {
+    const load = async () => {
+      if (!window.api) return
+      const res = await window.api.getClients()
+      if (!res.error) setClients(res.clients || [])
+      const projectsRes = await window.api.getProjects()
+      if (!projectsRes.error) setProjects(projectsRes.projects || [])
+    }
+    load()
+    fetchTimer()
+  }, [])
+
+  useEffect(() => {
+    fetchEntries()
+  }, [weekStart])
+
+  // Tick the running timer every second
+  useEffect(() => {
+    if (!running) return
+    const t = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(t)
+  }, [running])
+
+  const days = useMemo(() => Array.from({ length: 7 }, (_, i) => addDays(weekStart, i)), [weekStart])
+
+  const hoursOf = (list: TimeEntry[]) => list.reduce((sum, entry) => sum + Number(entry.hours), 0)
+
+  // Open projects of a client, plus the one already picked
+  const projectsOf = (clientId: string, selectedId: string) =>
+    projects.filter(p => p.clientId === clientId && (p.status !== 'COMPLETED' || p.id === selectedId))
+
+  // Picking a project brings in its hourly rate
+  const withProject = <T extends { projectId: string; rate: string }>(form: T, projectId: string): T => {
+    const project = projects.find(p => p.id === projectId)
+    return { ...form, projectId, rate: project?.hourlyRate ?? form.rate }
+  }
+
+  const handleStart = async () => {
+    if (!window.api) return
+    if (!timerForm.clientId) {
+      setError('Pick a client to start the timer')
+      return
+    }
+    setError(null)
+    const res = await window.api.startTimer({ ...timerForm, rate: timerForm.rate || '0' })
+    if (res.error) {
+      setError(res.error.message)
+      return
+    }
+    setRunning(res.entry)
+    setTimerStartedAt(Date.now())
+    setNow(Date.now())
+    fetchEntries()
+  }
+
+  const handleStop = async () => {
+    if (!window.api) return
+    const res = await window.api.stopTimer()
+    if (res.error) {
+      setError(res.error.message)
+      return
+    }
+    setRunning(null)
+    fetchEntries()
+  }
+
+  const handleEdit = (entry: TimeEntry) => {
+    setEditingId(entry.id)
+    setEntryForm({
+      clientId: entry.clientId,
+      projectId: entry.projectId || '',
+      date: entry.date,
+      hours: entry.hours,
+      rate: entry.rate,
+      description: entry.description || ''
+    })
+  }
+
+  const handleCancelEdit = () => {
+    setEditingId(null)
+    setEntryForm(emptyEntry())
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!window.api) return
+    if (!entryForm.clientId || !entryForm.hours) {
+      setError('Client and hours are required')
+      return
+    }
+    setError(null)
+    setSaving(true)
+    try {
+      const input = { ...entryForm, rate: entryForm.rate || '0' }
+      const res = editingId ? await window.api.updateTimeEntry(editingId, input) : await window.api.createTimeEntry(input)
+      if (res.error) {
+        setError(res.error.message)
+        return
+      }
+      // Keep client, project and rate for the next entry of the same work
+      setEditingId(null)
+      setEntryForm(prev => ({ ...prev, hours: '', description: '' }))
+      fetchEntries()
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async (entry: TimeEntry) => {
+    if (!window.api) return
+    if (!window.confirm(`Delete ${entry.hours} h for ${entry.clientName}?`)) return
+    const res = await window.api.deleteTimeEntry(entry.id)
+    if (res.error) {
+      alert(`Failed to delete entry: ${res.error.message}`)
+      return
+    }
+    if (entry.running) setRunning(null)
+    setEntries(entries.filter(e => e.id !== entry.id))
+  }
+
+  if (loading) {
+    return (
+      <div className="p-6 text-center min-h-screen bg-background flex items-center justify-center">
+        <div className="text-muted-foreground">Loading timesheet...</div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="w-full py-6">
+      <PageHeader
+        title="Time"
+        subtitle="Hours worked for your clients, ready to be billed"
+        rightSlot={(
+          <button onClick={() => navigate('/time/bill')} className="btn btn-primary">
+            Bill Unbilled Time
+          </button>
+        )}
+      />
+
+      {error && (
+        <div className="bg-destructive/10 text-destructive text-sm rounded-xl p-3 mb-6">{error}</div>
+      )}
+
+      <div className="dashboard-card bg-card p-6 mb-6">
+        <h2 className="text-lg font-semibold text-card-foreground mb-4">Timer</h2>
+        {running ? (
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <div>
+              <div className="font-medium text-card-foreground">
+                {running.clientName}{running.project ? ` · ${running.project}` : ''}
+              </div>
+              {running.description && <div className="text-sm text-muted-foreground">{running.description}</div>}
+            </div>
+            <div className="flex items-center gap-4">
+              <span className="text-2xl font-mono text-card-foreground">{formatElapsed(Math.max(0, Math.floor((now - timerStartedAt) / 1000)))}</span>
+              <button onClick={handleStop} className="btn btn-destructive">Stop</button>
+            </div>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 sm:grid-cols-5 gap-3">
+            <select value={timerForm.clientId} onChange={(e) => setTimerForm({ ...timerForm, clientId: e.target.value, projectId: '' })} className={fieldClass}>
+              <option value="">— Select client —</option>
+              {clients.map(c => (
+                <option key={c.id} value={c.id}>{c.name}</option>
+              ))}
+            </select>
+            <select value={timerForm.projectId} onChange={(e) => setTimerForm(withProject(timerForm, e.target.value))} className={fieldClass} disabled={!timerForm.clientId}>
+              <option value="">— No project —</option>
+              {projectsOf(timerForm.clientId, timerForm.projectId).map(p => (
+                <option key={p.id} value={p.id}>{p.name}</option>
+              ))}
+            </select>
+            <input type="text" value={timerForm.description} onChange={(e) => setTimerForm({ ...timerForm, description: e.target.value })} placeholder="What are you working on?" className={fieldClass} />
+            <input type="number" min="0" step="0.01" value={timerForm.rate} onChange={(e) => setTimerForm({ ...timerForm, rate: e.target.value })} placeholder="Hourly rate" className={fieldClass} />
+            <button onClick={handleStart} className="btn btn-primary">Start</button>
+          </div>
+        )}
+      </div>
+
+      <div className="dashboard-card bg-card p-6 mb-6">
+        <h2 className="text-lg font-semibold text-card-foreground mb-4">{editingId ? 'Edit Entry' : 'Add Hours'}</h2>
+        <form onSubmit={handleSubmit} className="grid grid-cols-1 sm:grid-cols-6 gap-3">
+          <select value={entryForm.clientId} onChange={(e) => setEntryForm({ ...entryForm, clientId: e.target.value, projectId: '' })} className={fieldClass}>
+            <option value="">— Select client —</option>
+            {clients.map(c => (
+              <option key={c.id} value={c.id}>{c.name}</option>
+            ))}
+          </select>
+          <select value={entryForm.projectId} onChange={(e) => setEntryForm(withProject(entryForm, e.target.value))} className={fieldClass} disabled={!entryForm.clientId}>
+            <option value="">— No project —</option>
+            {projectsOf(entryForm.clientId, entryForm.projectId).map(p => (
+              <option key={p.id} value={p.id}>{p.name}</option>
+            ))}
+          </select>
+          <input type="date" value={entryForm.date} onChange={(e) => setEntryForm({ ...entryForm, date: e.target.value })} className={fieldClass} required />
+          <input type="number" min="0" max="24" step="0.25" value={entryForm.hours} onChange={(e) => setEntryForm({ ...entryForm, hours: e.target.value })} placeholder="Hours" className={fieldClass} required />
+          <input type="number" min="0" step="0.01" value={entryForm.rate} onChange={(e) => setEntryForm({ ...entryForm, rate: e.target.value })} placeholder="Hourly rate" className={fieldClass} />
+          <input type="text" value={entryForm.description} onChange={(e) => setEntryForm({ ...entryForm, description: e.target.value })} placeholder="Description" className={fieldClass} />
+          <div className="sm:col-span-6 flex gap-3">
+            <button type="submit" disabled={saving} className="btn btn-primary">
+              {saving ? 'Saving...' : editingId ? 'Save Entry' : 'Add Entry'}
+            </button>
+            {editingId && (
+              <button type="button" onClick={handleCancelEdit} className="btn btn-secondary">Cancel</button>
+            )}
+          </div>
+        </form>
+      </div>
+
+      <div className="dashboard-card bg-card p-6">
+        <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+          <h2 className="text-lg font-semibold text-card-foreground">
+            Week of {formatDay(weekStart)} · {hoursOf(entries).toFixed(2)} h
+          </h2>
+          <div className="flex gap-2">
+            <button className="btn btn-outline btn-sm" onClick={() => setWeekStart(addDays(weekStart, -7))}>← Previous</button>
+            <button className="btn btn-outline btn-sm" onClick={() => setWeekStart(mondayOf(today()))}>This Week</button>
+            <button className="btn btn-outline btn-sm" onClick={() => setWeekStart(addDays(weekStart, 7))}>Next →</button>
+          </div>
+        </div>
+
+        <table className="w-full border-collapse">
+          <thead>
+            <tr className="bg-muted border-b">
+              <th className="p-3 text-left font-semibold text-muted-foreground">Client</th>
+              <th className="p-3 text-left font-semibold text-muted-foreground">Project</th>
+              <th className="p-3 text-left font-semibold text-muted-foreground">Description</th>
+              <th className="p-3 text-right font-semibold text-muted-foreground">Hours</th>
+              <th className="p-3 text-right font-semibold text-muted-foreground">Rate</th>
+              <th className="p-3 text-right font-semibold text-muted-foreground">Amount</th>
+              <th className="p-3 text-left font-semibold text-muted-foreground">Actions</th>
+            </tr>
+          </thead>
+          <tbody>
+            {days.map(day => {
+              const dayEntries = entries.filter(entry => entry.date === day)
+              return [
+                <tr key={day} className="border-b bg-muted/30">
+                  <td colSpan={3} className="p-3 font-medium text-card-foreground capitalize">{formatDay(day)}</td>
+                  <td className="p-3 text-right font-medium text-card-foreground">{hoursOf(dayEntries).toFixed(2)}</td>
+                  <td colSpan={3} />
+                </tr>,
+                ...dayEntries.map(entry => (
+                  <tr key={entry.id} className="border-b hover:bg-muted/50 transition-colors">
+                    <td className="p-3 text-card-foreground">{entry.clientName}</td>
+                    <td className="p-3 text-card-foreground">{entry.project || '—'}</td>
+                    <td className="p-3 text-muted-foreground">
+                      {entry.description || ''}
+                      {entry.running && <span className="ml-2 px-2 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300">Running</span>}
+                      {entry.invoiceId && <span className="ml-2 px-2 py-0.5 rounded-full text-xs font-medium bg-emerald-100 text-emerald-800 dark:bg-emerald-900/30 dark:text-emerald-300">Billed · {entry.invoiceNumber}</span>}
+                    </td>
+                    <td className="p-3 text-right text-card-foreground">{Number(entry.hours).toFixed(2)}</td>
+                    <td className="p-3 text-right text-card-foreground">{Number(entry.rate).toFixed(2)}</td>
+                    <td className="p-3 text-right font-medium text-card-foreground">{Number(entry.amount).toFixed(2)}</td>
+                    <td className="p-3">
+                      {entry.invoiceId ? (
+                        <button className="btn btn-outline btn-sm" onClick={() => navigate(`/bills/${entry.invoiceId}/view`)}>
+                          Invoice
+                        </button>
+                      ) : (
+                        <div className="flex gap-2">
+                          <button className="btn btn-outline btn-sm" onClick={() => handleEdit(entry)}>Edit</button>
+                          <button className="btn btn-destructive btn-sm" onClick={() => handleDelete(entry)}>Delete</button>
+                        </div>
+                      )}
+                    </td>
+                  </tr>
+                ))
+              ]
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
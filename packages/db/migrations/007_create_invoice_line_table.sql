@@ -0,0 +1,42 @@
+-- Migration: Create invoice_line table
+-- Description: Stores the individual line items of an invoice (quantity, unit price, discount, tax)
+-- Date: 2026-10-18
+
+CREATE TABLE IF NOT EXISTS invoice_line (
+  id TEXT PRIMARY KEY,
+  invoice_id TEXT NOT NULL REFERENCES invoice(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL DEFAULT 0,
+  description TEXT NOT NULL,
+  quantity NUMERIC(12,3) NOT NULL DEFAULT 1,
+  unit TEXT,
+  unit_price NUMERIC(12,2) NOT NULL,
+  discount NUMERIC(5,2) DEFAULT 0, -- Percentage discount applied to quantity * unit_price
+  tax_rate NUMERIC(5,2) DEFAULT 0, -- Percentage tax applied to the discounted line amount
+  amount NUMERIC(12,2) NOT NULL, -- Line net amount (after discount, before tax)
+  tax_amount NUMERIC(12,2) DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Create indexes for better query performance
+CREATE INDEX IF NOT EXISTS idx_invoice_line_invoice_id ON invoice_line(invoice_id);
+CREATE INDEX IF NOT EXISTS idx_invoice_line_position ON invoice_line(invoice_id, position);
+
+-- Add RLS (Row Level Security) policies if needed
+-- ALTER TABLE invoice_line ENABLE ROW LEVEL SECURITY;
+
+-- Create trigger to automatically update updated_at
+CREATE TRIGGER update_invoice_line_updated_at 
+  BEFORE UPDATE ON invoice_line 
+  FOR EACH ROW 
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Add constraint to ensure discount is a valid percentage
+ALTER TABLE invoice_line ADD CONSTRAINT check_invoice_line_discount_valid 
+  CHECK (discount >= 0 AND discount <= 100);
+
+-- Backfill one line per existing invoice so totals can be recomputed from lines
+INSERT INTO invoice_line (id, invoice_id, position, description, quantity, unit_price, amount)
+SELECT i.id || '-1', i.id, 0, COALESCE(NULLIF(i.description, ''), 'Serveis professionals'), 1, i.amount, i.amount
+FROM invoice i
+WHERE NOT EXISTS (SELECT 1 FROM invoice_line l WHERE l.invoice_id = i.id);
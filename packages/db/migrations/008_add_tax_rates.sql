@@ -0,0 +1,22 @@
+-- Migration: Add configurable tax rates
+-- Description: Stores tax rate definitions in settings and the base/tax/withholding breakdown on invoices
+-- Date: 2026-10-18
+
+-- Tax rate definitions (JSON array managed from the app settings)
+ALTER TABLE setting ADD COLUMN IF NOT EXISTS tax_rates TEXT;
+
+-- Invoice-level tax selection and stored breakdown
+ALTER TABLE invoice ADD COLUMN IF NOT EXISTS tax_rate_id TEXT;
+ALTER TABLE invoice ADD COLUMN IF NOT EXISTS withholding_rate_id TEXT;
+ALTER TABLE invoice ADD COLUMN IF NOT EXISTS subtotal NUMERIC(12,2);
+ALTER TABLE invoice ADD COLUMN IF NOT EXISTS tax_amount NUMERIC(12,2);
+ALTER TABLE invoice ADD COLUMN IF NOT EXISTS withholding_amount NUMERIC(12,2);
+ALTER TABLE invoice ADD COLUMN IF NOT EXISTS tax_breakdown TEXT; -- JSON array of per-rate bases and amounts
+
+-- Per-line tax rate reference
+ALTER TABLE invoice_line ADD COLUMN IF NOT EXISTS tax_rate_id TEXT;
+
+-- Existing invoices had no tax applied
+UPDATE invoice
+SET subtotal = amount, tax_amount = 0, withholding_amount = 0
+WHERE subtotal IS NULL;
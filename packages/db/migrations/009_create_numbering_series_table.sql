@@ -0,0 +1,38 @@
+-- Migration: Create numbering_series table
+-- Description: Gapless invoice numbering series with pattern tokens and optional yearly reset
+-- Date: 2026-10-18
+
+CREATE TABLE IF NOT EXISTS numbering_series (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  prefix TEXT DEFAULT '',
+  pattern TEXT NOT NULL DEFAULT '{PREFIX}{YYYY}-{SEQ:4}', -- Tokens: {PREFIX}, {YYYY}, {YY}, {MM}, {SEQ:n}
+  reset_yearly BOOLEAN DEFAULT TRUE,
+  current_year INTEGER, -- Year next_seq belongs to when reset_yearly is set
+  next_seq INTEGER NOT NULL DEFAULT 1,
+  is_default BOOLEAN DEFAULT FALSE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Only one series can be the default
+CREATE UNIQUE INDEX IF NOT EXISTS idx_numbering_series_default ON numbering_series(is_default) WHERE is_default;
+
+-- Create trigger to automatically update updated_at
+CREATE TRIGGER update_numbering_series_updated_at
+  BEFORE UPDATE ON numbering_series
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Add constraint to ensure the counter stays positive
+ALTER TABLE numbering_series ADD CONSTRAINT check_numbering_series_next_seq_positive
+  CHECK (next_seq >= 1);
+
+-- Link invoices to the series their number was reserved from
+ALTER TABLE invoice ADD COLUMN IF NOT EXISTS series_id TEXT REFERENCES numbering_series(id);
+CREATE INDEX IF NOT EXISTS idx_invoice_series_id ON invoice(series_id);
+
+-- Default series
+INSERT INTO numbering_series (id, name, prefix, pattern, reset_yearly, next_seq, is_default)
+SELECT 'default', 'Invoices', '', '{PREFIX}{YYYY}-{SEQ:4}', TRUE, 1, TRUE
+WHERE NOT EXISTS (SELECT 1 FROM numbering_series);
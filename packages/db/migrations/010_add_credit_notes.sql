@@ -0,0 +1,28 @@
+-- Migration: Add credit notes
+-- Description: Rectifying invoices (credit notes) linked to the invoice they correct, numbered in their own series
+-- Date: 2026-10-18
+
+-- Document kind and link to the rectified invoice
+ALTER TABLE invoice ADD COLUMN IF NOT EXISTS kind TEXT DEFAULT 'INVOICE'; -- 'INVOICE' | 'CREDIT_NOTE'
+ALTER TABLE invoice ADD COLUMN IF NOT EXISTS original_invoice_id TEXT REFERENCES invoice(id);
+ALTER TABLE invoice ADD COLUMN IF NOT EXISTS credit_reason TEXT;
+CREATE INDEX IF NOT EXISTS idx_invoice_original_invoice_id ON invoice(original_invoice_id);
+
+-- Add constraint to ensure only credit notes reference an original invoice
+ALTER TABLE invoice ADD CONSTRAINT check_invoice_kind_valid
+  CHECK (kind IN ('INVOICE', 'CREDIT_NOTE') AND (kind = 'CREDIT_NOTE' OR original_invoice_id IS NULL));
+
+-- Credit notes carry negative amounts; invoices still cannot
+ALTER TABLE invoice DROP CONSTRAINT IF EXISTS check_amount_positive;
+ALTER TABLE invoice ADD CONSTRAINT check_amount_positive
+  CHECK (amount >= 0 OR kind = 'CREDIT_NOTE');
+
+-- Numbering series are scoped to a document kind, with one default per kind
+ALTER TABLE numbering_series ADD COLUMN IF NOT EXISTS kind TEXT DEFAULT 'INVOICE';
+DROP INDEX IF EXISTS idx_numbering_series_default;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_numbering_series_default ON numbering_series(kind) WHERE is_default;
+
+-- Default credit note series
+INSERT INTO numbering_series (id, name, prefix, pattern, reset_yearly, next_seq, is_default, kind)
+SELECT 'credit-notes', 'Credit notes', 'R', '{PREFIX}{YYYY}-{SEQ:4}', TRUE, 1, TRUE, 'CREDIT_NOTE'
+WHERE NOT EXISTS (SELECT 1 FROM numbering_series WHERE kind = 'CREDIT_NOTE');
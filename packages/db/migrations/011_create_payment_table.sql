@@ -0,0 +1,40 @@
+-- Migration: Create payment table
+-- Description: Ledger of payments received for each invoice (instalments) and the PARTIALLY_PAID status
+-- Date: 2026-10-18
+
+CREATE TABLE IF NOT EXISTS payment (
+  id TEXT PRIMARY KEY,
+  invoice_id TEXT NOT NULL REFERENCES invoice(id) ON DELETE CASCADE,
+  date DATE NOT NULL,
+  amount NUMERIC(12,2) NOT NULL,
+  method TEXT, -- 'TRANSFER' | 'CARD' | 'CASH' | 'DIRECT_DEBIT' | 'OTHER'
+  reference TEXT, -- Bank reference, receipt number...
+  notes TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Create indexes for better query performance
+CREATE INDEX IF NOT EXISTS idx_payment_invoice_id ON payment(invoice_id);
+CREATE INDEX IF NOT EXISTS idx_payment_date ON payment(date);
+
+-- Create trigger to automatically update updated_at
+CREATE TRIGGER update_payment_updated_at 
+  BEFORE UPDATE ON payment 
+  FOR EACH ROW 
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Add constraint to ensure payment amounts are positive
+ALTER TABLE payment ADD CONSTRAINT check_payment_amount_positive CHECK (amount > 0);
+
+-- Invoices paid in instalments are PARTIALLY_PAID until the balance is settled
+ALTER TABLE invoice DROP CONSTRAINT IF EXISTS check_status_valid;
+ALTER TABLE invoice ADD CONSTRAINT check_status_valid 
+  CHECK (status IN ('DRAFT', 'SENT', 'PARTIALLY_PAID', 'PAID', 'OVERDUE', 'CANCELLED'));
+
+-- Invoices already marked as paid get a single payment for their full amount
+INSERT INTO payment (id, invoice_id, date, amount, notes)
+SELECT i.id || '-paid', i.id, COALESCE(i.paid_at::date, i.issue_date), i.amount, 'Marked as paid'
+FROM invoice i
+WHERE i.status = 'PAID' AND i.amount > 0
+  AND NOT EXISTS (SELECT 1 FROM payment p WHERE p.invoice_id = i.id);
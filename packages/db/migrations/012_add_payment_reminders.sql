@@ -0,0 +1,44 @@
+-- Migration: Add payment reminders
+-- Description: Configurable reminder sequence for unpaid invoices, a log of reminders sent and a per-client opt-out
+-- Date: 2026-10-18
+
+CREATE TABLE IF NOT EXISTS reminder_step (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  offset_days INTEGER NOT NULL, -- Days relative to the due date: negative = before, positive = after
+  subject_template TEXT NOT NULL,
+  body_template TEXT NOT NULL,
+  is_active BOOLEAN DEFAULT true,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS payment_reminder (
+  id TEXT PRIMARY KEY,
+  invoice_id TEXT NOT NULL REFERENCES invoice(id) ON DELETE CASCADE,
+  step_id TEXT REFERENCES reminder_step(id) ON DELETE SET NULL,
+  offset_days INTEGER NOT NULL, -- Copied from the step so the log survives step changes
+  recipient TEXT NOT NULL,
+  subject TEXT NOT NULL,
+  status TEXT NOT NULL, -- 'SENT' | 'FAILED'
+  error TEXT,
+  sent_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Create indexes for better query performance
+CREATE INDEX IF NOT EXISTS idx_reminder_step_offset_days ON reminder_step(offset_days);
+CREATE INDEX IF NOT EXISTS idx_payment_reminder_invoice_id ON payment_reminder(invoice_id);
+CREATE INDEX IF NOT EXISTS idx_payment_reminder_step_id ON payment_reminder(step_id);
+
+-- Create trigger to automatically update updated_at
+CREATE TRIGGER update_reminder_step_updated_at 
+  BEFORE UPDATE ON reminder_step 
+  FOR EACH ROW 
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Add constraint to ensure valid reminder statuses
+ALTER TABLE payment_reminder ADD CONSTRAINT check_payment_reminder_status_valid 
+  CHECK (status IN ('SENT', 'FAILED'));
+
+-- Clients can opt out of payment reminders
+ALTER TABLE client ADD COLUMN IF NOT EXISTS reminders_opt_out BOOLEAN DEFAULT false;
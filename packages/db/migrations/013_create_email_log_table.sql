@@ -0,0 +1,26 @@
+-- Migration: Create email_log table
+-- Description: Record of every invoice email sent (or attempted) by hand, by automations and by payment reminders
+-- Date: 2026-10-18
+
+CREATE TABLE IF NOT EXISTS email_log (
+  id TEXT PRIMARY KEY,
+  invoice_id TEXT REFERENCES invoice(id) ON DELETE CASCADE,
+  source TEXT NOT NULL, -- 'MANUAL' | 'AUTOMATION' | 'REMINDER'
+  recipients TEXT NOT NULL, -- JSON array of To addresses
+  cc TEXT, -- JSON array of CC addresses
+  subject TEXT NOT NULL,
+  message_id TEXT, -- Message-ID returned by the SMTP server
+  status TEXT NOT NULL, -- 'SENT' | 'FAILED'
+  error TEXT,
+  sent_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Create indexes for better query performance
+CREATE INDEX IF NOT EXISTS idx_email_log_invoice_id ON email_log(invoice_id);
+CREATE INDEX IF NOT EXISTS idx_email_log_sent_at ON email_log(sent_at);
+
+-- Add constraints to ensure valid sources and statuses
+ALTER TABLE email_log ADD CONSTRAINT check_email_log_source_valid 
+  CHECK (source IN ('MANUAL', 'AUTOMATION', 'REMINDER'));
+ALTER TABLE email_log ADD CONSTRAINT check_email_log_status_valid 
+  CHECK (status IN ('SENT', 'FAILED'));
@@ -0,0 +1,36 @@
+-- Migration: Create email_outbox table
+-- Description: Persistent queue of outgoing emails, retried with exponential backoff until the SMTP server accepts them
+-- Date: 2026-10-18
+
+CREATE TABLE IF NOT EXISTS email_outbox (
+  id TEXT PRIMARY KEY,
+  invoice_id TEXT REFERENCES invoice(id) ON DELETE CASCADE,
+  source TEXT NOT NULL, -- 'MANUAL' | 'AUTOMATION' | 'REMINDER'
+  recipients TEXT NOT NULL, -- JSON array of To addresses
+  cc TEXT, -- JSON array of CC addresses
+  subject TEXT NOT NULL,
+  html TEXT NOT NULL,
+  attachments TEXT, -- JSON array: [{ filename, path }]
+  mark_invoice_sent BOOLEAN DEFAULT false, -- Move the invoice from DRAFT to SENT once delivered
+  status TEXT DEFAULT 'PENDING', -- 'PENDING' | 'SENT' | 'FAILED' (gave up after the last retry)
+  attempts INTEGER DEFAULT 0,
+  next_attempt_at TIMESTAMPTZ DEFAULT NOW(),
+  last_error TEXT,
+  message_id TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Create indexes for better query performance
+CREATE INDEX IF NOT EXISTS idx_email_outbox_status_next_attempt ON email_outbox(status, next_attempt_at);
+CREATE INDEX IF NOT EXISTS idx_email_outbox_invoice_id ON email_outbox(invoice_id);
+
+-- Create trigger to automatically update updated_at
+CREATE TRIGGER update_email_outbox_updated_at 
+  BEFORE UPDATE ON email_outbox 
+  FOR EACH ROW 
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Add constraint to ensure valid statuses
+ALTER TABLE email_outbox ADD CONSTRAINT check_email_outbox_status_valid 
+  CHECK (status IN ('PENDING', 'SENT', 'FAILED'));
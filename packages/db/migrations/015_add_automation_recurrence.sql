@@ -0,0 +1,28 @@
+-- Migration: Add recurrence to automation rules
+-- Description: Weekly, monthly and yearly schedules with an interval, last-business-day option, start/end dates and an occurrence limit
+-- Date: 2026-10-18
+
+ALTER TABLE automation_rule ADD COLUMN IF NOT EXISTS frequency TEXT DEFAULT 'MONTHLY'; -- 'WEEKLY' | 'MONTHLY' | 'YEARLY'
+ALTER TABLE automation_rule ADD COLUMN IF NOT EXISTS interval_count INTEGER DEFAULT 1; -- Every N weeks/months/years (quarterly = 3 months)
+ALTER TABLE automation_rule ADD COLUMN IF NOT EXISTS weekday INTEGER; -- Weekly rules: 0 = Sunday
+ALTER TABLE automation_rule ADD COLUMN IF NOT EXISTS month_of_year INTEGER; -- Yearly rules
+ALTER TABLE automation_rule ADD COLUMN IF NOT EXISTS last_business_day BOOLEAN DEFAULT false;
+ALTER TABLE automation_rule ADD COLUMN IF NOT EXISTS start_date DATE; -- First possible occurrence; intervals count from here
+ALTER TABLE automation_rule ADD COLUMN IF NOT EXISTS end_date DATE;
+ALTER TABLE automation_rule ADD COLUMN IF NOT EXISTS max_occurrences INTEGER;
+ALTER TABLE automation_rule ADD COLUMN IF NOT EXISTS occurrence_count INTEGER DEFAULT 0;
+
+-- Constraints
+ALTER TABLE automation_rule ADD CONSTRAINT check_automation_rule_frequency_valid
+  CHECK (frequency IN ('WEEKLY', 'MONTHLY', 'YEARLY'));
+ALTER TABLE automation_rule ADD CONSTRAINT check_automation_rule_interval_positive
+  CHECK (interval_count >= 1);
+ALTER TABLE automation_rule ADD CONSTRAINT check_automation_rule_weekday_valid
+  CHECK (weekday IS NULL OR (weekday >= 0 AND weekday <= 6));
+ALTER TABLE automation_rule ADD CONSTRAINT check_automation_rule_month_valid
+  CHECK (month_of_year IS NULL OR (month_of_year >= 1 AND month_of_year <= 12));
+
+-- Existing rules are monthly and continue from their next due date
+UPDATE automation_rule
+SET start_date = COALESCE(next_due_date, created_at::date)
+WHERE start_date IS NULL;
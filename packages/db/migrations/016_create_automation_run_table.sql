@@ -0,0 +1,32 @@
+-- Migration: Create automation_run table
+-- Description: Ledger of automation runs, one per rule and period, so each period is invoiced exactly once and missed runs can be confirmed or skipped
+-- Date: 2026-10-18
+
+CREATE TABLE IF NOT EXISTS automation_run (
+  id TEXT PRIMARY KEY,
+  rule_id TEXT NOT NULL REFERENCES automation_rule(id) ON DELETE CASCADE,
+  period_key TEXT NOT NULL, -- Scheduled occurrence date (YYYY-MM-DD)
+  scheduled_date DATE NOT NULL,
+  invoice_id TEXT REFERENCES invoice(id) ON DELETE SET NULL,
+  status TEXT NOT NULL, -- 'PROCESSING' | 'COMPLETED' | 'FAILED' | 'LATE' (missed, awaiting confirmation) | 'SKIPPED'
+  error TEXT,
+  processed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- One run per rule and period
+CREATE UNIQUE INDEX IF NOT EXISTS idx_automation_run_rule_period ON automation_run(rule_id, period_key);
+
+-- Create indexes for better query performance
+CREATE INDEX IF NOT EXISTS idx_automation_run_status ON automation_run(status);
+
+-- Create trigger to automatically update updated_at
+CREATE TRIGGER update_automation_run_updated_at 
+  BEFORE UPDATE ON automation_run 
+  FOR EACH ROW 
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Add constraint to ensure valid statuses
+ALTER TABLE automation_run ADD CONSTRAINT check_automation_run_status_valid 
+  CHECK (status IN ('PROCESSING', 'COMPLETED', 'FAILED', 'LATE', 'SKIPPED'));
@@ -0,0 +1,10 @@
+-- Migration: Add approval to automation rules
+-- Description: Rules can require approval, creating a draft that waits in the automation_run ledger until it is approved (sent) or rejected (period skipped)
+-- Date: 2026-10-18
+
+ALTER TABLE automation_rule ADD COLUMN IF NOT EXISTS require_approval BOOLEAN DEFAULT false;
+
+-- Runs of such rules wait as AWAITING_APPROVAL with their draft invoice
+ALTER TABLE automation_run DROP CONSTRAINT IF EXISTS check_automation_run_status_valid;
+ALTER TABLE automation_run ADD CONSTRAINT check_automation_run_status_valid 
+  CHECK (status IN ('PROCESSING', 'COMPLETED', 'FAILED', 'LATE', 'AWAITING_APPROVAL', 'SKIPPED'));
@@ -0,0 +1,43 @@
+-- Migration: Create email_template tables
+-- Description: Library of named, versioned email templates in several languages that automation rules and manual emails can use
+-- Date: 2026-10-18
+
+CREATE TABLE IF NOT EXISTS email_template (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  kind TEXT NOT NULL, -- 'INVOICE' | 'REMINDER' | 'PAYMENT_THANKS' | 'CREDIT_NOTE'
+  language TEXT NOT NULL DEFAULT 'ca-ES', -- Locale the wording is in; also formats its dates and amounts
+  subject_template TEXT NOT NULL,
+  body_template TEXT NOT NULL,
+  version INTEGER NOT NULL DEFAULT 1, -- Bumped on every change of the wording
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Previous wordings of each template
+CREATE TABLE IF NOT EXISTS email_template_version (
+  id TEXT PRIMARY KEY,
+  template_id TEXT NOT NULL REFERENCES email_template(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  subject_template TEXT NOT NULL,
+  body_template TEXT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW() -- When this version was replaced
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_email_template_version_template ON email_template_version(template_id, version);
+
+-- Create indexes for better query performance
+CREATE INDEX IF NOT EXISTS idx_email_template_kind ON email_template(kind);
+
+-- Create trigger to automatically update updated_at
+CREATE TRIGGER update_email_template_updated_at 
+  BEFORE UPDATE ON email_template 
+  FOR EACH ROW 
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Add constraint to ensure valid kinds
+ALTER TABLE email_template ADD CONSTRAINT check_email_template_kind_valid 
+  CHECK (kind IN ('INVOICE', 'REMINDER', 'PAYMENT_THANKS', 'CREDIT_NOTE'));
+
+-- Automation rules can use a template from the library instead of their own wording
+ALTER TABLE automation_rule ADD COLUMN IF NOT EXISTS email_template_id TEXT REFERENCES email_template(id) ON DELETE SET NULL;
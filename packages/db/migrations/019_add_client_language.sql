@@ -0,0 +1,11 @@
+-- Migration: Add language to clients
+-- Description: Each client can have the language its invoices and emails are written in, and a locale overriding that language's number and date formats
+-- Date: 2026-10-18
+
+-- 'ca', 'es', 'en' or 'fr'; invoices stay in Catalan when it is not set
+ALTER TABLE client ADD COLUMN IF NOT EXISTS language TEXT;
+ALTER TABLE client ADD COLUMN IF NOT EXISTS locale TEXT;
+
+ALTER TABLE client DROP CONSTRAINT IF EXISTS check_client_language_valid;
+ALTER TABLE client ADD CONSTRAINT check_client_language_valid 
+  CHECK (language IS NULL OR language IN ('ca', 'es', 'en', 'fr'));
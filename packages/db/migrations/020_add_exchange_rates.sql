@@ -0,0 +1,45 @@
+-- Migration: Add exchange rates and base-currency amounts
+-- Description: A base currency setting, dated exchange rates (typed in or imported from CSV) and the rate and converted amount snapshotted on invoices, payments and expenses
+-- Date: 2026-10-18
+
+-- Currency dashboards and reports add everything up in
+ALTER TABLE setting ADD COLUMN IF NOT EXISTS base_currency TEXT DEFAULT 'EUR';
+
+CREATE TABLE IF NOT EXISTS exchange_rate (
+  id TEXT PRIMARY KEY,
+  currency TEXT NOT NULL, -- ISO 4217 code converted from
+  base_currency TEXT NOT NULL, -- ISO 4217 code converted to
+  date DATE NOT NULL, -- Rates apply from this date until the next one of the same currency
+  rate NUMERIC(18,8) NOT NULL, -- Units of base_currency per unit of currency
+  source TEXT DEFAULT 'MANUAL', -- 'MANUAL' | 'CSV'
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (currency, base_currency, date)
+);
+
+-- Create indexes for better query performance
+CREATE INDEX IF NOT EXISTS idx_exchange_rate_lookup ON exchange_rate(currency, base_currency, date);
+
+-- Create trigger to automatically update updated_at
+CREATE TRIGGER update_exchange_rate_updated_at 
+  BEFORE UPDATE ON exchange_rate 
+  FOR EACH ROW 
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE exchange_rate ADD CONSTRAINT check_exchange_rate_positive CHECK (rate > 0);
+ALTER TABLE exchange_rate ADD CONSTRAINT check_exchange_rate_source_valid CHECK (source IN ('MANUAL', 'CSV'));
+
+-- Rate and converted amount at the document date; null until a rate for that date exists
+ALTER TABLE invoice ADD COLUMN IF NOT EXISTS exchange_rate NUMERIC(18,8);
+ALTER TABLE invoice ADD COLUMN IF NOT EXISTS base_amount NUMERIC(12,2);
+ALTER TABLE payment ADD COLUMN IF NOT EXISTS exchange_rate NUMERIC(18,8);
+ALTER TABLE payment ADD COLUMN IF NOT EXISTS base_amount NUMERIC(12,2);
+ALTER TABLE expense ADD COLUMN IF NOT EXISTS exchange_rate NUMERIC(18,8);
+ALTER TABLE expense ADD COLUMN IF NOT EXISTS base_amount NUMERIC(12,2);
+
+-- Documents already in the base currency convert at 1
+UPDATE invoice SET exchange_rate = 1, base_amount = amount WHERE exchange_rate IS NULL AND COALESCE(currency, 'EUR') = 'EUR';
+UPDATE expense SET exchange_rate = 1, base_amount = amount WHERE exchange_rate IS NULL AND COALESCE(currency, 'EUR') = 'EUR';
+UPDATE payment p SET exchange_rate = 1, base_amount = p.amount
+FROM invoice i
+WHERE p.invoice_id = i.id AND p.exchange_rate IS NULL AND COALESCE(i.currency, 'EUR') = 'EUR';
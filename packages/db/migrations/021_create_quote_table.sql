@@ -0,0 +1,81 @@
+-- Migration: Create quote tables
+-- Description: Quotes (estimates) with their own numbering series, validity date and lines, which convert into invoices
+-- Date: 2026-10-18
+
+CREATE TABLE IF NOT EXISTS quote (
+  id TEXT PRIMARY KEY,
+  number TEXT UNIQUE NOT NULL,
+  client_id TEXT NOT NULL REFERENCES client(id),
+  issue_date DATE NOT NULL,
+  valid_until DATE NOT NULL, -- Past this date an unanswered quote is EXPIRED
+  amount NUMERIC(12,2) NOT NULL,
+  currency TEXT DEFAULT 'EUR',
+  status TEXT DEFAULT 'DRAFT', -- 'DRAFT' | 'SENT' | 'ACCEPTED' | 'REJECTED' | 'EXPIRED'
+  file_path TEXT,
+  folder_path TEXT,
+  description TEXT,
+  notes TEXT,
+  tax_rate_id TEXT,
+  withholding_rate_id TEXT,
+  subtotal NUMERIC(12,2),
+  tax_amount NUMERIC(12,2),
+  withholding_amount NUMERIC(12,2),
+  tax_breakdown TEXT, -- JSON array, as on invoices
+  series_id TEXT REFERENCES numbering_series(id),
+  invoice_id TEXT REFERENCES invoice(id) ON DELETE SET NULL, -- Invoice the quote was converted into
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS quote_line (
+  id TEXT PRIMARY KEY,
+  quote_id TEXT NOT NULL REFERENCES quote(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL DEFAULT 0,
+  description TEXT NOT NULL,
+  quantity NUMERIC(12,3) NOT NULL DEFAULT 1,
+  unit TEXT,
+  unit_price NUMERIC(12,2) NOT NULL,
+  discount NUMERIC(5,2) DEFAULT 0,
+  tax_rate NUMERIC(5,2) DEFAULT 0,
+  amount NUMERIC(12,2) NOT NULL,
+  tax_amount NUMERIC(12,2) DEFAULT 0,
+  tax_rate_id TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Create indexes for better query performance
+CREATE INDEX IF NOT EXISTS idx_quote_client_id ON quote(client_id);
+CREATE INDEX IF NOT EXISTS idx_quote_status ON quote(status);
+CREATE INDEX IF NOT EXISTS idx_quote_line_quote_id ON quote_line(quote_id, position);
+
+-- Create triggers to automatically update updated_at
+CREATE TRIGGER update_quote_updated_at 
+  BEFORE UPDATE ON quote 
+  FOR EACH ROW 
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_quote_line_updated_at 
+  BEFORE UPDATE ON quote_line 
+  FOR EACH ROW 
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Add constraints to ensure valid data
+ALTER TABLE quote ADD CONSTRAINT check_quote_status_valid 
+  CHECK (status IN ('DRAFT', 'SENT', 'ACCEPTED', 'REJECTED', 'EXPIRED'));
+
+ALTER TABLE quote ADD CONSTRAINT check_quote_valid_until 
+  CHECK (valid_until >= issue_date);
+
+ALTER TABLE quote_line ADD CONSTRAINT check_quote_line_discount_valid 
+  CHECK (discount >= 0 AND discount <= 100);
+
+-- Default quote series
+INSERT INTO numbering_series (id, name, prefix, pattern, reset_yearly, next_seq, is_default, kind)
+SELECT 'quotes', 'Quotes', 'P', '{PREFIX}{YYYY}-{SEQ:4}', TRUE, 1, TRUE, 'QUOTE'
+WHERE NOT EXISTS (SELECT 1 FROM numbering_series WHERE kind = 'QUOTE');
+
+-- Quotes get their own email templates
+ALTER TABLE email_template DROP CONSTRAINT IF EXISTS check_email_template_kind_valid;
+ALTER TABLE email_template ADD CONSTRAINT check_email_template_kind_valid 
+  CHECK (kind IN ('INVOICE', 'REMINDER', 'PAYMENT_THANKS', 'CREDIT_NOTE', 'QUOTE'));
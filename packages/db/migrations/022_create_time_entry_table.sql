@@ -0,0 +1,34 @@
+-- Migration: Create time_entry table
+-- Description: Hours worked for clients (typed in or timed), billed on invoices grouped by project
+-- Date: 2026-10-18
+
+CREATE TABLE IF NOT EXISTS time_entry (
+  id TEXT PRIMARY KEY,
+  client_id TEXT NOT NULL REFERENCES client(id),
+  project TEXT, -- Hours of the same project are billed on one invoice line
+  date DATE NOT NULL,
+  hours NUMERIC(6,2) NOT NULL DEFAULT 0,
+  rate NUMERIC(12,2) NOT NULL DEFAULT 0, -- Hourly rate
+  description TEXT,
+  started_at TIMESTAMPTZ, -- Set while the entry's timer is running
+  invoice_id TEXT REFERENCES invoice(id) ON DELETE SET NULL, -- Invoice the hours were billed on
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Create indexes for better query performance
+CREATE INDEX IF NOT EXISTS idx_time_entry_date ON time_entry(date);
+CREATE INDEX IF NOT EXISTS idx_time_entry_unbilled ON time_entry(client_id, date) WHERE invoice_id IS NULL;
+
+-- Create trigger to automatically update updated_at
+CREATE TRIGGER update_time_entry_updated_at 
+  BEFORE UPDATE ON time_entry 
+  FOR EACH ROW 
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Add constraints to ensure valid data
+ALTER TABLE time_entry ADD CONSTRAINT check_time_entry_hours_valid 
+  CHECK (hours >= 0 AND hours <= 24);
+
+ALTER TABLE time_entry ADD CONSTRAINT check_time_entry_rate_positive 
+  CHECK (rate >= 0);
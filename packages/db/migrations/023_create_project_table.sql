@@ -0,0 +1,47 @@
+-- Migration: Create project table
+-- Description: Projects (engagements) of a client with a budget, status and hourly rate, linked from invoices, expenses and time entries
+-- Date: 2026-10-18
+
+CREATE TABLE IF NOT EXISTS project (
+  id TEXT PRIMARY KEY,
+  client_id TEXT NOT NULL REFERENCES client(id),
+  name TEXT NOT NULL,
+  budget NUMERIC(12,2), -- In the base currency; null when the project has none
+  hourly_rate NUMERIC(12,2), -- Rate its time entries start from
+  status TEXT DEFAULT 'ACTIVE', -- 'ACTIVE' | 'ON_HOLD' | 'COMPLETED'
+  notes TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE invoice ADD COLUMN IF NOT EXISTS project_id TEXT REFERENCES project(id) ON DELETE SET NULL;
+ALTER TABLE expense ADD COLUMN IF NOT EXISTS project_id TEXT REFERENCES project(id) ON DELETE SET NULL;
+ALTER TABLE time_entry ADD COLUMN IF NOT EXISTS project_id TEXT REFERENCES project(id) ON DELETE SET NULL;
+
+-- Time entries named their project; each name becomes a project of the entry's client
+INSERT INTO project (id, client_id, name)
+SELECT DISTINCT ON (client_id, project) md5(client_id || ':' || project), client_id, project
+FROM time_entry
+WHERE project IS NOT NULL;
+
+UPDATE time_entry SET project_id = md5(client_id || ':' || project) WHERE project IS NOT NULL;
+
+ALTER TABLE time_entry DROP COLUMN IF EXISTS project;
+
+-- Create indexes for better query performance
+CREATE INDEX IF NOT EXISTS idx_project_client_id ON project(client_id);
+CREATE INDEX IF NOT EXISTS idx_invoice_project_id ON invoice(project_id);
+CREATE INDEX IF NOT EXISTS idx_expense_project_id ON expense(project_id);
+
+-- Create trigger to automatically update updated_at
+CREATE TRIGGER update_project_updated_at 
+  BEFORE UPDATE ON project 
+  FOR EACH ROW 
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Add constraints to ensure valid data
+ALTER TABLE project ADD CONSTRAINT check_project_status_valid 
+  CHECK (status IN ('ACTIVE', 'ON_HOLD', 'COMPLETED'));
+
+ALTER TABLE project ADD CONSTRAINT check_project_budget_positive 
+  CHECK (budget IS NULL OR budget >= 0);
@@ -0,0 +1,18 @@
+-- Migration: Add billable expenses
+-- Description: Expenses rebilled to a client with an optional markup, on invoices that leave them unbilled again when deleted
+-- Date: 2026-10-18
+
+ALTER TABLE expense ADD COLUMN IF NOT EXISTS billable_client_id TEXT REFERENCES client(id) ON DELETE SET NULL; -- Client the expense is rebilled to
+ALTER TABLE expense ADD COLUMN IF NOT EXISTS markup NUMERIC(5,2) DEFAULT 0; -- Percentage added to the amount when rebilled
+
+-- Deleting a draft invoice leaves the expenses rebilled on it unbilled again
+ALTER TABLE expense DROP CONSTRAINT IF EXISTS expense_invoice_id_fkey;
+ALTER TABLE expense ADD CONSTRAINT expense_invoice_id_fkey
+  FOREIGN KEY (invoice_id) REFERENCES invoice(id) ON DELETE SET NULL;
+
+-- Create indexes for better query performance
+CREATE INDEX IF NOT EXISTS idx_expense_unbilled ON expense(billable_client_id, date) WHERE invoice_id IS NULL;
+
+-- Add constraints to ensure valid data
+ALTER TABLE expense ADD CONSTRAINT check_expense_markup_valid 
+  CHECK (markup >= 0);
@@ -0,0 +1,5 @@
+-- Migration: Add the quote of outbox emails
+-- Description: Quote emails queued while SMTP is unreachable move their draft quote to SENT once delivered
+-- Date: 2026-10-19
+
+ALTER TABLE email_outbox ADD COLUMN IF NOT EXISTS quote_id TEXT REFERENCES quote(id) ON DELETE CASCADE; -- Quote the email sends
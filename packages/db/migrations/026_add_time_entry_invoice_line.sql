@@ -0,0 +1,8 @@
+-- Migration: Add the invoice line of time entries
+-- Description: Hours know the invoice line billing them, so removing the line leaves them unbilled again
+-- Date: 2026-10-19
+
+ALTER TABLE time_entry ADD COLUMN IF NOT EXISTS invoice_line_id TEXT REFERENCES invoice_line(id) ON DELETE SET NULL; -- Line of the invoice billing the hours
+
+-- Create indexes for better query performance
+CREATE INDEX IF NOT EXISTS idx_time_entry_invoice_line ON time_entry(invoice_line_id);
@@ -0,0 +1,8 @@
+-- Migration: Add the invoice line of rebilled expenses
+-- Description: Rebilled expenses know the invoice line billing them, so removing the line leaves them unbilled again
+-- Date: 2026-10-19
+
+ALTER TABLE expense ADD COLUMN IF NOT EXISTS invoice_line_id TEXT REFERENCES invoice_line(id) ON DELETE SET NULL; -- Line of the invoice rebilling the expense
+
+-- Create indexes for better query performance
+CREATE INDEX IF NOT EXISTS idx_expense_invoice_line ON expense(invoice_line_id);
@@ -0,0 +1,5 @@
+-- Migration: Add the origin of invoice PDFs
+-- Description: Invoices know whether their PDF was generated or uploaded, so editing them never overwrites an uploaded document
+-- Date: 2026-10-19
+
+ALTER TABLE invoice ADD COLUMN IF NOT EXISTS pdf_source TEXT DEFAULT 'GENERATED'; -- 'GENERATED' | 'UPLOADED'
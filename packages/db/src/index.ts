@@ -264,12 +264,249 @@ async function runSimpleMigrations() {
     } catch (error) {
       console.log('ℹ️ Could not add Supabase columns - likely already exist');
     }
+
+    // Add tax columns for configurable tax rates
+    try {
+      const currentClient = getClient();
+      await currentClient.query(`ALTER TABLE setting ADD COLUMN IF NOT EXISTS tax_rates text;`);
+      await currentClient.query(`ALTER TABLE invoice ADD COLUMN IF NOT EXISTS tax_rate_id text;`);
+      await currentClient.query(`ALTER TABLE invoice ADD COLUMN IF NOT EXISTS withholding_rate_id text;`);
+      await currentClient.query(`ALTER TABLE invoice ADD COLUMN IF NOT EXISTS subtotal numeric(12,2);`);
+      await currentClient.query(`ALTER TABLE invoice ADD COLUMN IF NOT EXISTS tax_amount numeric(12,2);`);
+      await currentClient.query(`ALTER TABLE invoice ADD COLUMN IF NOT EXISTS withholding_amount numeric(12,2);`);
+      await currentClient.query(`ALTER TABLE invoice ADD COLUMN IF NOT EXISTS tax_breakdown text;`);
+      await currentClient.query(`ALTER TABLE invoice_line ADD COLUMN IF NOT EXISTS tax_rate_id text;`);
+      await currentClient.query(`
+        UPDATE invoice
+        SET subtotal = amount, tax_amount = 0, withholding_amount = 0
+        WHERE subtotal IS NULL;
+      `);
+      console.log('✅ Ensured tax columns exist on setting, invoice and invoice_line');
+    } catch (error) {
+      console.log('ℹ️ Could not add tax columns - likely already exist');
+    }
+
+    // Link invoices to numbering series and make sure a default series exists
+    try {
+      const currentClient = getClient();
+      await currentClient.query(`ALTER TABLE invoice ADD COLUMN IF NOT EXISTS series_id text references numbering_series(id);`);
+      await currentClient.query(`ALTER TABLE numbering_series ADD COLUMN IF NOT EXISTS kind text default 'INVOICE';`);
+      await ensureDefaultNumberingSeries();
+      console.log('✅ Ensured numbering series are set up');
+    } catch (error) {
+      console.log('ℹ️ Could not set up numbering series - likely already exist');
+    }
+
+    // Add credit note columns to invoice table
+    try {
+      const currentClient = getClient();
+      await currentClient.query(`ALTER TABLE invoice ADD COLUMN IF NOT EXISTS kind text default 'INVOICE';`);
+      await currentClient.query(`ALTER TABLE invoice ADD COLUMN IF NOT EXISTS original_invoice_id text references invoice(id);`);
+      await currentClient.query(`ALTER TABLE invoice ADD COLUMN IF NOT EXISTS credit_reason text;`);
+      console.log('✅ Ensured credit note columns exist on invoice');
+    } catch (error) {
+      console.log('ℹ️ Could not add credit note columns - likely already exist');
+    }
+
+    // Add payment reminder opt-out to client table
+    try {
+      const currentClient = getClient();
+      await currentClient.query(`ALTER TABLE client ADD COLUMN IF NOT EXISTS reminders_opt_out boolean default false;`);
+      console.log('✅ Ensured reminders_opt_out column exists on client');
+    } catch (error) {
+      console.log('ℹ️ Could not add reminders_opt_out column - likely already exists');
+    }
+
+    // Add recurrence columns to automation_rule table
+    try {
+      const currentClient = getClient();
+      await currentClient.query(`ALTER TABLE automation_rule ADD COLUMN IF NOT EXISTS frequency text default 'MONTHLY';`);
+      await currentClient.query(`ALTER TABLE automation_rule ADD COLUMN IF NOT EXISTS interval_count integer default 1;`);
+      await currentClient.query(`ALTER TABLE automation_rule ADD COLUMN IF NOT EXISTS weekday integer;`);
+      await currentClient.query(`ALTER TABLE automation_rule ADD COLUMN IF NOT EXISTS month_of_year integer;`);
+      await currentClient.query(`ALTER TABLE automation_rule ADD COLUMN IF NOT EXISTS last_business_day boolean default false;`);
+      await currentClient.query(`ALTER TABLE automation_rule ADD COLUMN IF NOT EXISTS start_date date;`);
+      await currentClient.query(`ALTER TABLE automation_rule ADD COLUMN IF NOT EXISTS end_date date;`);
+      await currentClient.query(`ALTER TABLE automation_rule ADD COLUMN IF NOT EXISTS max_occurrences integer;`);
+      await currentClient.query(`ALTER TABLE automation_rule ADD COLUMN IF NOT EXISTS occurrence_count integer default 0;`);
+      console.log('✅ Ensured recurrence columns exist on automation_rule');
+    } catch (error) {
+      console.log('ℹ️ Could not add recurrence columns - likely already exist');
+    }
+
+    // Add approval flag to automation_rule table
+    try {
+      const currentClient = getClient();
+      await currentClient.query(`ALTER TABLE automation_rule ADD COLUMN IF NOT EXISTS require_approval boolean default false;`);
+      console.log('✅ Ensured require_approval column exists on automation_rule');
+    } catch (error) {
+      console.log('ℹ️ Could not add require_approval column - likely already exists');
+    }
+
+    // Let automation rules use a template from the email template library
+    try {
+      const currentClient = getClient();
+      await currentClient.query(`ALTER TABLE automation_rule ADD COLUMN IF NOT EXISTS email_template_id text references email_template(id) on delete set null;`);
+      console.log('✅ Ensured email_template_id column exists on automation_rule');
+    } catch (error) {
+      console.log('ℹ️ Could not add email_template_id column - likely already exists');
+    }
+
+    // Add invoice language and locale to client table
+    try {
+      const currentClient = getClient();
+      await currentClient.query(`ALTER TABLE client ADD COLUMN IF NOT EXISTS language text;`);
+      await currentClient.query(`ALTER TABLE client ADD COLUMN IF NOT EXISTS locale text;`);
+      console.log('✅ Ensured language columns exist on client');
+    } catch (error) {
+      console.log('ℹ️ Could not add language columns - likely already exist');
+    }
+
+    // Add the base currency and the exchange rate snapshots of invoices, payments and expenses
+    try {
+      const currentClient = getClient();
+      await currentClient.query(`ALTER TABLE setting ADD COLUMN IF NOT EXISTS base_currency text default 'EUR';`);
+      for (const table of ['invoice', 'payment', 'expense']) {
+        await currentClient.query(`ALTER TABLE ${table} ADD COLUMN IF NOT EXISTS exchange_rate numeric(18,8);`);
+        await currentClient.query(`ALTER TABLE ${table} ADD COLUMN IF NOT EXISTS base_amount numeric(12,2);`);
+      }
+      console.log('✅ Ensured exchange rate columns exist');
+    } catch (error) {
+      console.log('ℹ️ Could not add exchange rate columns - likely already exist');
+    }
+
+    // Link invoices, expenses and time entries to projects
+    try {
+      const currentClient = getClient();
+      for (const table of ['invoice', 'expense', 'time_entry']) {
+        await currentClient.query(`ALTER TABLE ${table} ADD COLUMN IF NOT EXISTS project_id text references project(id) on delete set null;`);
+      }
+      await backfillTimeEntryProjects();
+      console.log('✅ Ensured project columns exist');
+    } catch (error) {
+      console.log('ℹ️ Could not add project columns - likely already exist');
+    }
+
+    // Rebillable expenses
+    try {
+      const currentClient = getClient();
+      await currentClient.query(`ALTER TABLE expense ADD COLUMN IF NOT EXISTS billable_client_id text references client(id) on delete set null;`);
+      await currentClient.query(`ALTER TABLE expense ADD COLUMN IF NOT EXISTS markup numeric(5,2) default 0;`);
+      await relaxExpenseInvoiceKey();
+      console.log('✅ Ensured billable expense columns exist');
+    } catch (error) {
+      console.log('ℹ️ Could not add billable expense columns - likely already exist');
+    }
+
+    // Quote emails waiting in the outbox
+    try {
+      const currentClient = getClient();
+      await currentClient.query(`ALTER TABLE email_outbox ADD COLUMN IF NOT EXISTS quote_id text references quote(id) on delete cascade;`);
+      console.log('✅ Ensured outbox quote column exists');
+    } catch (error) {
+      console.log('ℹ️ Could not add outbox quote column - likely already exists');
+    }
+
+    // Invoice lines billing time entries
+    try {
+      const currentClient = getClient();
+      await currentClient.query(`ALTER TABLE time_entry ADD COLUMN IF NOT EXISTS invoice_line_id text references invoice_line(id) on delete set null;`);
+      console.log('✅ Ensured time entry invoice line column exists');
+    } catch (error) {
+      console.log('ℹ️ Could not add time entry invoice line column - likely already exists');
+    }
+
+    // Invoice lines rebilling expenses
+    try {
+      const currentClient = getClient();
+      await currentClient.query(`ALTER TABLE expense ADD COLUMN IF NOT EXISTS invoice_line_id text references invoice_line(id) on delete set null;`);
+      console.log('✅ Ensured expense invoice line column exists');
+    } catch (error) {
+      console.log('ℹ️ Could not add expense invoice line column - likely already exists');
+    }
+
+    // Origin of the invoice PDF
+    try {
+      const currentClient = getClient();
+      await currentClient.query(`ALTER TABLE invoice ADD COLUMN IF NOT EXISTS pdf_source text default 'GENERATED';`);
+      console.log('✅ Ensured invoice pdf_source column exists');
+    } catch (error) {
+      console.log('ℹ️ Could not add invoice pdf_source column - likely already exists');
+    }
+
+    // Record the payment of invoices marked as paid before the payment ledger existed
+    try {
+      await backfillPayments();
+      console.log('✅ Ensured paid invoices have a payment');
+    } catch (error) {
+      console.log('ℹ️ Could not backfill payments - this is normal for new installations');
+    }
+
+    // Give invoices created before line items existed a single line
+    try {
+      await backfillInvoiceLines();
+      console.log('✅ Ensured every invoice has at least one line');
+    } catch (error) {
+      console.log('ℹ️ Could not backfill invoice lines - this is normal for new installations');
+    }
     
   } catch (error) {
     console.log('ℹ️ Migrations skipped - database may be freshly initialized');
   }
 }
 
+/** Create one line (description + amount) for every invoice that has none */
+async function backfillInvoiceLines() {
+  const currentClient = getClient();
+  await currentClient.query(`
+    INSERT INTO invoice_line (id, invoice_id, position, description, quantity, unit_price, amount)
+    SELECT i.id || '-1', i.id, 0, COALESCE(NULLIF(i.description, ''), 'Serveis professionals'), 1, i.amount, i.amount
+    FROM invoice i
+    WHERE NOT EXISTS (SELECT 1 FROM invoice_line l WHERE l.invoice_id = i.id);
+  `);
+}
+
+/** Turn the project names typed on time entries into projects of their client */
+async function backfillTimeEntryProjects() {
+  const currentClient = getClient();
+  const column = await currentClient.query(
+    "SELECT 1 FROM information_schema.columns WHERE table_name = 'time_entry' AND column_name = 'project'"
+  );
+  if (column.rows.length === 0) return;
+  await currentClient.query(`
+    INSERT INTO project (id, client_id, name)
+    SELECT DISTINCT ON (client_id, project) md5(client_id || ':' || project), client_id, project
+    FROM time_entry
+    WHERE project IS NOT NULL
+    ON CONFLICT (id) DO NOTHING;
+  `);
+  await currentClient.query(`UPDATE time_entry SET project_id = md5(client_id || ':' || project) WHERE project IS NOT NULL AND project_id IS NULL;`);
+  await currentClient.query(`ALTER TABLE time_entry DROP COLUMN project;`);
+}
+
+/** Deleting an invoice leaves the expenses rebilled on it unbilled again */
+async function relaxExpenseInvoiceKey() {
+  const currentClient = getClient();
+  const key = await currentClient.query(
+    "SELECT confdeltype FROM pg_constraint WHERE conname = 'expense_invoice_id_fkey'"
+  );
+  if ((key.rows[0] as any)?.confdeltype === 'n') return;
+  await currentClient.query(`ALTER TABLE expense DROP CONSTRAINT IF EXISTS expense_invoice_id_fkey;`);
+  await currentClient.query(`ALTER TABLE expense ADD CONSTRAINT expense_invoice_id_fkey FOREIGN KEY (invoice_id) REFERENCES invoice(id) ON DELETE SET NULL;`);
+}
+
+/** Create a payment for the full amount of every paid invoice that has none */
+async function backfillPayments() {
+  const currentClient = getClient();
+  await currentClient.query(`
+    INSERT INTO payment (id, invoice_id, date, amount, notes)
+    SELECT i.id || '-paid', i.id, COALESCE(i.paid_at::date, i.issue_date), i.amount, 'Marked as paid'
+    FROM invoice i
+    WHERE i.status = 'PAID' AND i.amount > 0
+      AND NOT EXISTS (SELECT 1 FROM payment p WHERE p.invoice_id = i.id);
+  `);
+}
+
 export async function healthcheck(): Promise<boolean> {
   try {
     const currentClient = getClient();
@@ -283,6 +520,26 @@ export async function healthcheck(): Promise<boolean> {
 
 // Backup and Restore Functions
 
+/** Create the default invoice, credit note and quote series when missing */
+async function ensureDefaultNumberingSeries() {
+  const currentClient = getClient();
+  await currentClient.query(`
+    INSERT INTO numbering_series (id, name, prefix, pattern, reset_yearly, next_seq, is_default, kind)
+    SELECT 'default', 'Invoices', '', '{PREFIX}{YYYY}-{SEQ:4}', true, 1, true, 'INVOICE'
+    WHERE NOT EXISTS (SELECT 1 FROM numbering_series WHERE kind = 'INVOICE');
+  `);
+  await currentClient.query(`
+    INSERT INTO numbering_series (id, name, prefix, pattern, reset_yearly, next_seq, is_default, kind)
+    SELECT 'credit-notes', 'Credit notes', 'R', '{PREFIX}{YYYY}-{SEQ:4}', true, 1, true, 'CREDIT_NOTE'
+    WHERE NOT EXISTS (SELECT 1 FROM numbering_series WHERE kind = 'CREDIT_NOTE');
+  `);
+  await currentClient.query(`
+    INSERT INTO numbering_series (id, name, prefix, pattern, reset_yearly, next_seq, is_default, kind)
+    SELECT 'quotes', 'Quotes', 'P', '{PREFIX}{YYYY}-{SEQ:4}', true, 1, true, 'QUOTE'
+    WHERE NOT EXISTS (SELECT 1 FROM numbering_series WHERE kind = 'QUOTE');
+  `);
+}
+
 export interface BackupData {
   version: string;
   timestamp: string;
@@ -291,6 +548,21 @@ export interface BackupData {
   expenses: any[];
   settings: any[];
   automation_rules: any[];
+  invoice_lines?: any[];
+  numbering_series?: any[];
+  payments?: any[];
+  reminder_steps?: any[];
+  payment_reminders?: any[];
+  email_logs?: any[];
+  email_outbox?: any[];
+  automation_runs?: any[];
+  email_templates?: any[];
+  email_template_versions?: any[];
+  exchange_rates?: any[];
+  quotes?: any[];
+  quote_lines?: any[];
+  time_entries?: any[];
+  projects?: any[];
 }
 
 /** Create a full backup of all database data */
@@ -305,6 +577,21 @@ export async function backupAllData(): Promise<BackupData> {
     const expenses = await currentClient.query('SELECT * FROM expense ORDER BY created_at');
     const settings = await currentClient.query('SELECT * FROM setting ORDER BY id');
     const automationRules = await currentClient.query('SELECT * FROM automation_rule ORDER BY created_at');
+    const invoiceLines = await currentClient.query('SELECT * FROM invoice_line ORDER BY invoice_id, position');
+    const numberingSeries = await currentClient.query('SELECT * FROM numbering_series ORDER BY created_at');
+    const payments = await currentClient.query('SELECT * FROM payment ORDER BY invoice_id, date, created_at');
+    const reminderSteps = await currentClient.query('SELECT * FROM reminder_step ORDER BY offset_days');
+    const paymentReminders = await currentClient.query('SELECT * FROM payment_reminder ORDER BY invoice_id, sent_at');
+    const emailLogs = await currentClient.query('SELECT * FROM email_log ORDER BY sent_at');
+    const emailOutbox = await currentClient.query('SELECT * FROM email_outbox ORDER BY created_at');
+    const automationRuns = await currentClient.query('SELECT * FROM automation_run ORDER BY rule_id, scheduled_date');
+    const emailTemplates = await currentClient.query('SELECT * FROM email_template ORDER BY created_at');
+    const emailTemplateVersions = await currentClient.query('SELECT * FROM email_template_version ORDER BY template_id, version');
+    const exchangeRates = await currentClient.query('SELECT * FROM exchange_rate ORDER BY currency, date');
+    const quotes = await currentClient.query('SELECT * FROM quote ORDER BY created_at');
+    const quoteLines = await currentClient.query('SELECT * FROM quote_line ORDER BY quote_id, position');
+    const timeEntries = await currentClient.query('SELECT * FROM time_entry ORDER BY date, created_at');
+    const projects = await currentClient.query('SELECT * FROM project ORDER BY created_at');
     
     const backup: BackupData = {
       version: '1.0.0',
@@ -313,11 +600,26 @@ export async function backupAllData(): Promise<BackupData> {
       invoices: invoices.rows || [],
       expenses: expenses.rows || [],
       settings: settings.rows || [],
-      automation_rules: automationRules.rows || []
+      automation_rules: automationRules.rows || [],
+      invoice_lines: invoiceLines.rows || [],
+      numbering_series: numberingSeries.rows || [],
+      payments: payments.rows || [],
+      reminder_steps: reminderSteps.rows || [],
+      payment_reminders: paymentReminders.rows || [],
+      email_logs: emailLogs.rows || [],
+      email_outbox: emailOutbox.rows || [],
+      automation_runs: automationRuns.rows || [],
+      email_templates: emailTemplates.rows || [],
+      email_template_versions: emailTemplateVersions.rows || [],
+      exchange_rates: exchangeRates.rows || [],
+      quotes: quotes.rows || [],
+      quote_lines: quoteLines.rows || [],
+      time_entries: timeEntries.rows || [],
+      projects: projects.rows || []
     };
     
     console.log('✅ Database backup created successfully');
-    console.log(`📊 Backup stats: ${backup.clients.length} clients, ${backup.invoices.length} invoices, ${backup.expenses.length} expenses, ${backup.settings.length} settings, ${backup.automation_rules.length} automation rules`);
+    console.log(`📊 Backup stats: ${backup.clients.length} clients, ${backup.invoices.length} invoices, ${backup.expenses.length} expenses, ${backup.settings.length} settings, ${backup.automation_rules.length} automation rules, ${backup.invoice_lines?.length || 0} invoice lines, ${backup.numbering_series?.length || 0} numbering series, ${backup.payments?.length || 0} payments, ${backup.reminder_steps?.length || 0} reminder steps, ${backup.payment_reminders?.length || 0} payment reminders, ${backup.email_logs?.length || 0} email logs, ${backup.email_outbox?.length || 0} outbox emails, ${backup.automation_runs?.length || 0} automation runs, ${backup.email_templates?.length || 0} email templates, ${backup.exchange_rates?.length || 0} exchange rates, ${backup.quotes?.length || 0} quotes, ${backup.time_entries?.length || 0} time entries, ${backup.projects?.length || 0} projects`);
     
     return backup;
   } catch (error) {
@@ -351,18 +653,48 @@ export async function createDataBackup(dataRootPath: string): Promise<void> {
     await fs.writeFile(join(backupFolder, 'expenses.json'), JSON.stringify(backup.expenses, null, 2), 'utf-8');
     await fs.writeFile(join(backupFolder, 'settings.json'), JSON.stringify(backup.settings, null, 2), 'utf-8');
     await fs.writeFile(join(backupFolder, 'automation-rules.json'), JSON.stringify(backup.automation_rules, null, 2), 'utf-8');
+    await fs.writeFile(join(backupFolder, 'invoice-lines.json'), JSON.stringify(backup.invoice_lines || [], null, 2), 'utf-8');
+    await fs.writeFile(join(backupFolder, 'numbering-series.json'), JSON.stringify(backup.numbering_series || [], null, 2), 'utf-8');
+    await fs.writeFile(join(backupFolder, 'payments.json'), JSON.stringify(backup.payments || [], null, 2), 'utf-8');
+    await fs.writeFile(join(backupFolder, 'reminder-steps.json'), JSON.stringify(backup.reminder_steps || [], null, 2), 'utf-8');
+    await fs.writeFile(join(backupFolder, 'payment-reminders.json'), JSON.stringify(backup.payment_reminders || [], null, 2), 'utf-8');
+    await fs.writeFile(join(backupFolder, 'email-log.json'), JSON.stringify(backup.email_logs || [], null, 2), 'utf-8');
+    await fs.writeFile(join(backupFolder, 'email-outbox.json'), JSON.stringify(backup.email_outbox || [], null, 2), 'utf-8');
+    await fs.writeFile(join(backupFolder, 'automation-runs.json'), JSON.stringify(backup.automation_runs || [], null, 2), 'utf-8');
+    await fs.writeFile(join(backupFolder, 'email-templates.json'), JSON.stringify(backup.email_templates || [], null, 2), 'utf-8');
+    await fs.writeFile(join(backupFolder, 'email-template-versions.json'), JSON.stringify(backup.email_template_versions || [], null, 2), 'utf-8');
+    await fs.writeFile(join(backupFolder, 'exchange-rates.json'), JSON.stringify(backup.exchange_rates || [], null, 2), 'utf-8');
+    await fs.writeFile(join(backupFolder, 'quotes.json'), JSON.stringify(backup.quotes || [], null, 2), 'utf-8');
+    await fs.writeFile(join(backupFolder, 'quote-lines.json'), JSON.stringify(backup.quote_lines || [], null, 2), 'utf-8');
+    await fs.writeFile(join(backupFolder, 'time-entries.json'), JSON.stringify(backup.time_entries || [], null, 2), 'utf-8');
+    await fs.writeFile(join(backupFolder, 'projects.json'), JSON.stringify(backup.projects || [], null, 2), 'utf-8');
     
     // Create a readable backup summary
     const summary = {
       backupDate: backup.timestamp,
       version: backup.version,
-      totalRecords: backup.clients.length + backup.invoices.length + backup.expenses.length + backup.settings.length + backup.automation_rules.length,
+      totalRecords: backup.clients.length + backup.invoices.length + backup.expenses.length + backup.settings.length + backup.automation_rules.length + (backup.invoice_lines?.length || 0) + (backup.numbering_series?.length || 0) + (backup.payments?.length || 0) + (backup.reminder_steps?.length || 0) + (backup.payment_reminders?.length || 0) + (backup.email_logs?.length || 0) + (backup.email_outbox?.length || 0) + (backup.automation_runs?.length || 0) + (backup.email_templates?.length || 0) + (backup.email_template_versions?.length || 0) + (backup.exchange_rates?.length || 0) + (backup.quotes?.length || 0) + (backup.quote_lines?.length || 0) + (backup.time_entries?.length || 0) + (backup.projects?.length || 0),
       tables: {
         clients: backup.clients.length,
         invoices: backup.invoices.length,
         expenses: backup.expenses.length,
         settings: backup.settings.length,
-        automation_rules: backup.automation_rules.length
+        automation_rules: backup.automation_rules.length,
+        invoice_lines: backup.invoice_lines?.length || 0,
+        numbering_series: backup.numbering_series?.length || 0,
+        payments: backup.payments?.length || 0,
+        reminder_steps: backup.reminder_steps?.length || 0,
+        payment_reminders: backup.payment_reminders?.length || 0,
+        email_logs: backup.email_logs?.length || 0,
+        email_outbox: backup.email_outbox?.length || 0,
+        automation_runs: backup.automation_runs?.length || 0,
+        email_templates: backup.email_templates?.length || 0,
+        email_template_versions: backup.email_template_versions?.length || 0,
+        exchange_rates: backup.exchange_rates?.length || 0,
+        quotes: backup.quotes?.length || 0,
+        quote_lines: backup.quote_lines?.length || 0,
+        time_entries: backup.time_entries?.length || 0,
+        projects: backup.projects?.length || 0
       }
     };
     await fs.writeFile(join(backupFolder, 'backup-summary.json'), JSON.stringify(summary, null, 2), 'utf-8');
@@ -416,9 +748,24 @@ export async function restoreFromBackup(backupData: BackupData): Promise<void> {
     
     // Clear existing data (in reverse order due to foreign keys)
     console.log('🗑️ Clearing existing data...');
+    await currentClient.query('DELETE FROM automation_run');
     await currentClient.query('DELETE FROM automation_rule');
+    await currentClient.query('DELETE FROM email_template_version');
+    await currentClient.query('DELETE FROM email_template');
+    await currentClient.query('DELETE FROM exchange_rate');
+    await currentClient.query('DELETE FROM time_entry');
+    await currentClient.query('DELETE FROM quote_line');
+    await currentClient.query('DELETE FROM quote');
+    await currentClient.query('DELETE FROM invoice_line');
+    await currentClient.query('DELETE FROM email_outbox');
+    await currentClient.query('DELETE FROM email_log');
+    await currentClient.query('DELETE FROM payment_reminder');
+    await currentClient.query('DELETE FROM reminder_step');
+    await currentClient.query('DELETE FROM payment');
     await currentClient.query('DELETE FROM expense');
     await currentClient.query('DELETE FROM invoice');
+    await currentClient.query('DELETE FROM numbering_series');
+    await currentClient.query('DELETE FROM project');
     await currentClient.query('DELETE FROM client');
     await currentClient.query('DELETE FROM setting');
     
@@ -428,65 +775,261 @@ export async function restoreFromBackup(backupData: BackupData): Promise<void> {
     // Restore settings first (no dependencies)
     for (const setting of backupData.settings) {
       await currentClient.query(`
-        INSERT INTO setting (id, data_root, bills_root, expenses_root, filename_tpl, security, company_profile, smtp_config, openai_key, ai_backend, created_at, updated_at)
-        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+        INSERT INTO setting (id, data_root, bills_root, expenses_root, filename_tpl, security, company_profile, smtp_config, openai_key, ai_backend, tax_rates, base_currency, created_at, updated_at)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)
       `, [
         setting.id, setting.data_root, setting.bills_root, setting.expenses_root,
         setting.filename_tpl, setting.security, setting.company_profile,
         setting.smtp_config, setting.openai_key, setting.ai_backend,
-        setting.created_at, setting.updated_at
+        setting.tax_rates ?? null, setting.base_currency ?? 'EUR', setting.created_at, setting.updated_at
       ]);
     }
     
     // Restore clients
     for (const client of backupData.clients) {
       await currentClient.query(`
-        INSERT INTO client (id, name, email, address, phone, hidden, tax_id, created_at, updated_at)
-        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+        INSERT INTO client (id, name, email, address, phone, hidden, tax_id, reminders_opt_out, language, locale, created_at, updated_at)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
       `, [
         client.id, client.name, client.email, client.address, client.phone,
-        client.hidden, client.tax_id, client.created_at, client.updated_at
+        client.hidden, client.tax_id, client.reminders_opt_out ?? false, client.language ?? null, client.locale ?? null, client.created_at, client.updated_at
+      ]);
+    }
+    
+    // Restore projects (older backups don't include them)
+    for (const project of backupData.projects || []) {
+      await currentClient.query(`
+        INSERT INTO project (id, client_id, name, budget, hourly_rate, status, notes, created_at, updated_at)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+      `, [
+        project.id, project.client_id, project.name, project.budget, project.hourly_rate,
+        project.status ?? 'ACTIVE', project.notes, project.created_at, project.updated_at
       ]);
     }
     
-    // Restore invoices
-    for (const invoice of backupData.invoices) {
+    // Restore numbering series (older backups don't include them)
+    for (const series of backupData.numbering_series || []) {
       await currentClient.query(`
-        INSERT INTO invoice (id, number, client_id, issue_date, due_date, expected_payment_date, amount, currency, status, file_path, folder_path, description, notes, paid_at, created_at, updated_at)
-        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16)
+        INSERT INTO numbering_series (id, name, prefix, pattern, reset_yearly, current_year, next_seq, is_default, kind, created_at, updated_at)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+      `, [
+        series.id, series.name, series.prefix, series.pattern, series.reset_yearly,
+        series.current_year, series.next_seq, series.is_default, series.kind ?? 'INVOICE',
+        series.created_at, series.updated_at
+      ]);
+    }
+    
+    await ensureDefaultNumberingSeries();
+    
+    // Restore invoices (credit notes reference their original, so they go last)
+    const invoicesInOrder = [
+      ...backupData.invoices.filter((invoice: any) => !invoice.original_invoice_id),
+      ...backupData.invoices.filter((invoice: any) => invoice.original_invoice_id)
+    ];
+    for (const invoice of invoicesInOrder) {
+      await currentClient.query(`
+        INSERT INTO invoice (id, number, client_id, issue_date, due_date, expected_payment_date, amount, currency, status, file_path, folder_path, description, notes, paid_at, tax_rate_id, withholding_rate_id, subtotal, tax_amount, withholding_amount, tax_breakdown, series_id, kind, original_invoice_id, credit_reason, exchange_rate, base_amount, project_id, pdf_source, created_at, updated_at)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21, $22, $23, $24, $25, $26, $27, $28, $29, $30)
       `, [
         invoice.id, invoice.number, invoice.client_id, invoice.issue_date, invoice.due_date,
         invoice.expected_payment_date, invoice.amount, invoice.currency, invoice.status,
         invoice.file_path, invoice.folder_path, invoice.description, invoice.notes,
-        invoice.paid_at, invoice.created_at, invoice.updated_at
+        invoice.paid_at, invoice.tax_rate_id ?? null, invoice.withholding_rate_id ?? null,
+        invoice.subtotal ?? invoice.amount, invoice.tax_amount ?? 0, invoice.withholding_amount ?? 0,
+        invoice.tax_breakdown ?? null, invoice.series_id ?? null, invoice.kind ?? 'INVOICE',
+        invoice.original_invoice_id ?? null, invoice.credit_reason ?? null, invoice.exchange_rate ?? null, invoice.base_amount ?? null,
+        invoice.project_id ?? null, invoice.pdf_source ?? 'GENERATED', invoice.created_at, invoice.updated_at
+      ]);
+    }
+    
+    // Restore invoice lines (older backups don't include them)
+    for (const line of backupData.invoice_lines || []) {
+      await currentClient.query(`
+        INSERT INTO invoice_line (id, invoice_id, position, description, quantity, unit, unit_price, discount, tax_rate, amount, tax_amount, tax_rate_id, created_at, updated_at)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)
+      `, [
+        line.id, line.invoice_id, line.position, line.description, line.quantity,
+        line.unit, line.unit_price, line.discount, line.tax_rate, line.amount,
+        line.tax_amount, line.tax_rate_id ?? null, line.created_at, line.updated_at
+      ]);
+    }
+    
+    if (!backupData.invoice_lines) {
+      await backfillInvoiceLines();
+    }
+    
+    // Restore quotes and their lines after the invoices they were converted into (older backups don't include them)
+    for (const quote of backupData.quotes || []) {
+      await currentClient.query(`
+        INSERT INTO quote (id, number, client_id, issue_date, valid_until, amount, currency, status, file_path, folder_path, description, notes, tax_rate_id, withholding_rate_id, subtotal, tax_amount, withholding_amount, tax_breakdown, series_id, invoice_id, created_at, updated_at)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21, $22)
+      `, [
+        quote.id, quote.number, quote.client_id, quote.issue_date, quote.valid_until,
+        quote.amount, quote.currency, quote.status, quote.file_path, quote.folder_path,
+        quote.description, quote.notes, quote.tax_rate_id, quote.withholding_rate_id,
+        quote.subtotal, quote.tax_amount, quote.withholding_amount, quote.tax_breakdown,
+        quote.series_id, quote.invoice_id, quote.created_at, quote.updated_at
+      ]);
+    }
+    
+    for (const line of backupData.quote_lines || []) {
+      await currentClient.query(`
+        INSERT INTO quote_line (id, quote_id, position, description, quantity, unit, unit_price, discount, tax_rate, amount, tax_amount, tax_rate_id, created_at, updated_at)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)
+      `, [
+        line.id, line.quote_id, line.position, line.description, line.quantity,
+        line.unit, line.unit_price, line.discount, line.tax_rate, line.amount,
+        line.tax_amount, line.tax_rate_id, line.created_at, line.updated_at
+      ]);
+    }
+    
+    // Restore time entries after the invoices they were billed on (older backups don't include them)
+    for (const entry of backupData.time_entries || []) {
+      await currentClient.query(`
+        INSERT INTO time_entry (id, client_id, project_id, date, hours, rate, description, started_at, invoice_id, invoice_line_id, created_at, updated_at)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+      `, [
+        entry.id, entry.client_id, entry.project_id ?? null, entry.date, entry.hours, entry.rate,
+        entry.description, entry.started_at, entry.invoice_id, entry.invoice_line_id ?? null, entry.created_at, entry.updated_at
+      ]);
+    }
+    
+    // Restore payments (older backups don't include them)
+    for (const payment of backupData.payments || []) {
+      await currentClient.query(`
+        INSERT INTO payment (id, invoice_id, date, amount, method, reference, notes, exchange_rate, base_amount, created_at, updated_at)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+      `, [
+        payment.id, payment.invoice_id, payment.date, payment.amount, payment.method,
+        payment.reference, payment.notes, payment.exchange_rate ?? null, payment.base_amount ?? null,
+        payment.created_at, payment.updated_at
+      ]);
+    }
+    
+    if (!backupData.payments) {
+      await backfillPayments();
+    }
+    
+    // Restore payment reminder steps and log (older backups don't include them)
+    for (const step of backupData.reminder_steps || []) {
+      await currentClient.query(`
+        INSERT INTO reminder_step (id, name, offset_days, subject_template, body_template, is_active, created_at, updated_at)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+      `, [
+        step.id, step.name, step.offset_days, step.subject_template, step.body_template,
+        step.is_active, step.created_at, step.updated_at
+      ]);
+    }
+    
+    for (const reminder of backupData.payment_reminders || []) {
+      await currentClient.query(`
+        INSERT INTO payment_reminder (id, invoice_id, step_id, offset_days, recipient, subject, status, error, sent_at)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+      `, [
+        reminder.id, reminder.invoice_id, reminder.step_id, reminder.offset_days, reminder.recipient,
+        reminder.subject, reminder.status, reminder.error, reminder.sent_at
+      ]);
+    }
+    
+    // Restore email log (older backups don't include it)
+    for (const entry of backupData.email_logs || []) {
+      await currentClient.query(`
+        INSERT INTO email_log (id, invoice_id, source, recipients, cc, subject, message_id, status, error, sent_at)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+      `, [
+        entry.id, entry.invoice_id, entry.source, entry.recipients, entry.cc,
+        entry.subject, entry.message_id, entry.status, entry.error, entry.sent_at
+      ]);
+    }
+    
+    // Restore email outbox (older backups don't include it)
+    for (const email of backupData.email_outbox || []) {
+      await currentClient.query(`
+        INSERT INTO email_outbox (id, invoice_id, source, recipients, cc, subject, html, attachments, mark_invoice_sent, quote_id, status, attempts, next_attempt_at, last_error, message_id, created_at, updated_at)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17)
+      `, [
+        email.id, email.invoice_id, email.source, email.recipients, email.cc, email.subject,
+        email.html, email.attachments, email.mark_invoice_sent, email.quote_id ?? null, email.status, email.attempts,
+        email.next_attempt_at, email.last_error, email.message_id, email.created_at, email.updated_at
       ]);
     }
     
     // Restore expenses
     for (const expense of backupData.expenses) {
       await currentClient.query(`
-        INSERT INTO expense (id, invoice_id, vendor, category, date, amount, currency, file_path, notes, created_at, updated_at)
-        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+        INSERT INTO expense (id, invoice_id, vendor, category, date, amount, currency, file_path, notes, exchange_rate, base_amount, project_id, billable_client_id, markup, invoice_line_id, created_at, updated_at)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17)
       `, [
         expense.id, expense.invoice_id, expense.vendor, expense.category, expense.date,
         expense.amount, expense.currency, expense.file_path, expense.notes,
-        expense.created_at, expense.updated_at
+        expense.exchange_rate ?? null, expense.base_amount ?? null,
+        expense.project_id ?? null, expense.billable_client_id ?? null, expense.markup ?? 0,
+        expense.invoice_line_id ?? null, expense.created_at, expense.updated_at
+      ]);
+    }
+    
+    // Restore exchange rates (older backups don't include them)
+    for (const rate of backupData.exchange_rates || []) {
+      await currentClient.query(`
+        INSERT INTO exchange_rate (id, currency, base_currency, date, rate, source, created_at, updated_at)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+      `, [
+        rate.id, rate.currency, rate.base_currency, rate.date, rate.rate, rate.source,
+        rate.created_at, rate.updated_at
+      ]);
+    }
+    
+    // Restore email templates before the rules that use them (older backups don't include them)
+    for (const template of backupData.email_templates || []) {
+      await currentClient.query(`
+        INSERT INTO email_template (id, name, kind, language, subject_template, body_template, version, created_at, updated_at)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+      `, [
+        template.id, template.name, template.kind, template.language,
+        template.subject_template, template.body_template, template.version,
+        template.created_at, template.updated_at
+      ]);
+    }
+
+    for (const version of backupData.email_template_versions || []) {
+      await currentClient.query(`
+        INSERT INTO email_template_version (id, template_id, version, subject_template, body_template, created_at)
+        VALUES ($1, $2, $3, $4, $5, $6)
+      `, [
+        version.id, version.template_id, version.version,
+        version.subject_template, version.body_template, version.created_at
       ]);
     }
     
     // Restore automation rules
     for (const rule of backupData.automation_rules) {
       await currentClient.query(`
-        INSERT INTO automation_rule (id, client_id, name, day_of_month, amount, currency, description, subject_template, body_template, cc_emails, is_active, last_sent_date, next_due_date, created_at, updated_at)
-        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)
+        INSERT INTO automation_rule (id, client_id, name, day_of_month, amount, currency, description, subject_template, body_template, email_template_id, cc_emails, frequency, interval_count, weekday, month_of_year, last_business_day, start_date, end_date, max_occurrences, occurrence_count, require_approval, is_active, last_sent_date, next_due_date, created_at, updated_at)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21, $22, $23, $24, $25, $26)
       `, [
         rule.id, rule.client_id, rule.name, rule.day_of_month, rule.amount,
         rule.currency, rule.description, rule.subject_template, rule.body_template,
-        rule.cc_emails, rule.is_active, rule.last_sent_date, rule.next_due_date,
+        rule.email_template_id ?? null, rule.cc_emails,
+        // Older backups only have monthly rules
+        rule.frequency ?? 'MONTHLY', rule.interval_count ?? 1, rule.weekday ?? null, rule.month_of_year ?? null,
+        rule.last_business_day ?? false, rule.start_date ?? null, rule.end_date ?? null,
+        rule.max_occurrences ?? null, rule.occurrence_count ?? 0, rule.require_approval ?? false,
+        rule.is_active, rule.last_sent_date, rule.next_due_date,
         rule.created_at, rule.updated_at
       ]);
     }
     
+    // Restore automation runs (older backups don't include them)
+    for (const run of backupData.automation_runs || []) {
+      await currentClient.query(`
+        INSERT INTO automation_run (id, rule_id, period_key, scheduled_date, invoice_id, status, error, processed_at, created_at, updated_at)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+      `, [
+        run.id, run.rule_id, run.period_key, run.scheduled_date, run.invoice_id,
+        run.status, run.error, run.processed_at, run.created_at, run.updated_at
+      ]);
+    }
+    
     console.log('✅ Database restore completed successfully');
     console.log(`📊 Restored: ${backupData.clients.length} clients, ${backupData.invoices.length} invoices, ${backupData.expenses.length} expenses, ${backupData.settings.length} settings, ${backupData.automation_rules.length} automation rules`);
   } catch (error) {
@@ -8,6 +8,35 @@ export const bootstrapSQL = `
     phone text,
     hidden boolean default false,
     tax_id text,
+    reminders_opt_out boolean default false, -- Client asked not to receive payment reminders
+    language text, -- Language of its invoices and emails ('ca', 'es', 'en', 'fr'); Catalan when null
+    locale text, -- Number and date formats, e.g. 'en-US'; those of the language when null
+    created_at timestamp default current_timestamp,
+    updated_at timestamp default current_timestamp
+  );
+
+  create table if not exists project (
+    id text primary key,
+    client_id text not null references client(id),
+    name text not null,
+    budget numeric(12,2), -- In the base currency; null when the project has none
+    hourly_rate numeric(12,2), -- Rate its time entries start from
+    status text default 'ACTIVE', -- 'ACTIVE' | 'ON_HOLD' | 'COMPLETED'
+    notes text,
+    created_at timestamp default current_timestamp,
+    updated_at timestamp default current_timestamp
+  );
+
+  create table if not exists numbering_series (
+    id text primary key,
+    name text not null,
+    prefix text default '',
+    pattern text not null default '{PREFIX}{YYYY}-{SEQ:4}', -- Tokens: {PREFIX}, {YYYY}, {YY}, {MM}, {SEQ:n}
+    reset_yearly boolean default true,
+    current_year integer, -- Year next_seq belongs to when reset_yearly is set
+    next_seq integer not null default 1,
+    is_default boolean default false, -- One default series per kind
+    kind text default 'INVOICE', -- 'INVOICE' | 'CREDIT_NOTE' | 'QUOTE'
     created_at timestamp default current_timestamp,
     updated_at timestamp default current_timestamp
   );
@@ -21,19 +50,50 @@ export const bootstrapSQL = `
     expected_payment_date date,
     amount numeric(12,2) not null,
     currency text default 'EUR',
-    status text default 'DRAFT',
+    status text default 'DRAFT', -- 'DRAFT' | 'SENT' | 'PARTIALLY_PAID' | 'PAID' | 'CANCELLED' (payment statuses derive from payments)
     file_path text,
+    pdf_source text default 'GENERATED', -- 'GENERATED' | 'UPLOADED' (uploaded PDFs are never redrawn)
     folder_path text,
     description text,
     notes text,
-    paid_at timestamp,
+    paid_at timestamp, -- Date of the payment that settled the invoice
+    tax_rate_id text, -- Default tax rate for lines without their own (ids from setting.tax_rates)
+    withholding_rate_id text, -- Optional withholding (e.g. IRPF) applied to the subtotal
+    subtotal numeric(12,2), -- Sum of line net amounts
+    tax_amount numeric(12,2), -- Sum of line taxes
+    withholding_amount numeric(12,2), -- Negative when a withholding applies
+    tax_breakdown text, -- JSON array: [{ taxRateId, name, rate, kind, base, amount, legalMention }]
+    series_id text references numbering_series(id), -- Series the number was reserved from (null when typed by hand)
+    kind text default 'INVOICE', -- 'INVOICE' | 'CREDIT_NOTE' (credit notes have negative amounts)
+    original_invoice_id text references invoice(id), -- Invoice rectified by a credit note
+    credit_reason text, -- Reason printed on the credit note
+    exchange_rate numeric(18,8), -- Base currency per unit of currency on the issue date (1 when they match)
+    base_amount numeric(12,2), -- amount in the base currency; null until a rate for the issue date exists
+    project_id text references project(id) on delete set null,
+    created_at timestamp default current_timestamp,
+    updated_at timestamp default current_timestamp
+  );
+
+  create table if not exists invoice_line (
+    id text primary key,
+    invoice_id text not null references invoice(id) on delete cascade,
+    position integer not null default 0,
+    description text not null,
+    quantity numeric(12,3) not null default 1,
+    unit text,
+    unit_price numeric(12,2) not null,
+    discount numeric(5,2) default 0, -- Percentage discount applied to quantity * unit_price
+    tax_rate numeric(5,2) default 0, -- Percentage tax applied to the discounted line amount
+    amount numeric(12,2) not null, -- Line net amount (after discount, before tax)
+    tax_amount numeric(12,2) default 0,
+    tax_rate_id text, -- Tax rate the line's percentage was taken from (null when inherited from the invoice)
     created_at timestamp default current_timestamp,
     updated_at timestamp default current_timestamp
   );
 
   create table if not exists expense (
     id text primary key,
-    invoice_id text references invoice(id),
+    invoice_id text references invoice(id) on delete set null, -- Invoice the expense was rebilled on
     vendor text,
     category text,
     date date not null,
@@ -41,6 +101,139 @@ export const bootstrapSQL = `
     currency text default 'EUR',
     file_path text,
     notes text,
+    exchange_rate numeric(18,8), -- Base currency per unit of currency on the expense date
+    base_amount numeric(12,2), -- amount in the base currency; null until a rate for the date exists
+    project_id text references project(id) on delete set null,
+    billable_client_id text references client(id) on delete set null, -- Client the expense is rebilled to
+    markup numeric(5,2) default 0, -- Percentage added to the amount when rebilled
+    invoice_line_id text references invoice_line(id) on delete set null, -- Line of that invoice rebilling it; removing it unbills the expense
+    created_at timestamp default current_timestamp,
+    updated_at timestamp default current_timestamp
+  );
+
+  create table if not exists payment (
+    id text primary key,
+    invoice_id text not null references invoice(id) on delete cascade,
+    date date not null,
+    amount numeric(12,2) not null,
+    method text, -- 'TRANSFER' | 'CARD' | 'CASH' | 'DIRECT_DEBIT' | 'OTHER'
+    reference text, -- Bank reference, receipt number...
+    notes text,
+    exchange_rate numeric(18,8), -- Base currency per unit of the invoice currency on the payment date
+    base_amount numeric(12,2), -- amount in the base currency; null until a rate for the date exists
+    created_at timestamp default current_timestamp,
+    updated_at timestamp default current_timestamp
+  );
+
+  create table if not exists quote (
+    id text primary key,
+    number text unique not null,
+    client_id text not null references client(id),
+    issue_date date not null,
+    valid_until date not null, -- Past this date an unanswered quote is EXPIRED
+    amount numeric(12,2) not null,
+    currency text default 'EUR',
+    status text default 'DRAFT', -- 'DRAFT' | 'SENT' | 'ACCEPTED' | 'REJECTED' | 'EXPIRED'
+    file_path text,
+    folder_path text,
+    description text,
+    notes text,
+    tax_rate_id text, -- Default tax rate for lines without their own (ids from setting.tax_rates)
+    withholding_rate_id text,
+    subtotal numeric(12,2),
+    tax_amount numeric(12,2),
+    withholding_amount numeric(12,2),
+    tax_breakdown text, -- JSON array, as on invoices
+    series_id text references numbering_series(id), -- Series the number was reserved from
+    invoice_id text references invoice(id) on delete set null, -- Invoice the quote was converted into
+    created_at timestamp default current_timestamp,
+    updated_at timestamp default current_timestamp
+  );
+
+  create table if not exists quote_line (
+    id text primary key,
+    quote_id text not null references quote(id) on delete cascade,
+    position integer not null default 0,
+    description text not null,
+    quantity numeric(12,3) not null default 1,
+    unit text,
+    unit_price numeric(12,2) not null,
+    discount numeric(5,2) default 0,
+    tax_rate numeric(5,2) default 0,
+    amount numeric(12,2) not null,
+    tax_amount numeric(12,2) default 0,
+    tax_rate_id text, -- Null when inherited from the quote
+    created_at timestamp default current_timestamp,
+    updated_at timestamp default current_timestamp
+  );
+
+  create table if not exists time_entry (
+    id text primary key,
+    client_id text not null references client(id),
+    project_id text references project(id) on delete set null, -- Hours of the same project are billed on one invoice line
+    date date not null,
+    hours numeric(6,2) not null default 0,
+    rate numeric(12,2) not null default 0, -- Hourly rate
+    description text,
+    started_at timestamp, -- Set while the entry's timer is running
+    invoice_id text references invoice(id) on delete set null, -- Invoice the hours were billed on
+    invoice_line_id text references invoice_line(id) on delete set null, -- Line of that invoice billing them; removing it unbills them
+    created_at timestamp default current_timestamp,
+    updated_at timestamp default current_timestamp
+  );
+
+  create table if not exists reminder_step (
+    id text primary key,
+    name text not null,
+    offset_days integer not null, -- Days relative to the due date: negative = before, positive = after
+    subject_template text not null,
+    body_template text not null, -- Same {{ variables }} as automation rules and manual emails
+    is_active boolean default true,
+    created_at timestamp default current_timestamp,
+    updated_at timestamp default current_timestamp
+  );
+
+  create table if not exists payment_reminder (
+    id text primary key,
+    invoice_id text not null references invoice(id) on delete cascade,
+    step_id text references reminder_step(id) on delete set null,
+    offset_days integer not null, -- Copied from the step so the log survives step changes
+    recipient text not null,
+    subject text not null,
+    status text not null, -- 'SENT' | 'FAILED'
+    error text,
+    sent_at timestamp default current_timestamp
+  );
+
+  create table if not exists email_log (
+    id text primary key,
+    invoice_id text references invoice(id) on delete cascade,
+    source text not null, -- 'MANUAL' | 'AUTOMATION' | 'REMINDER'
+    recipients text not null, -- JSON array of To addresses
+    cc text, -- JSON array of CC addresses
+    subject text not null,
+    message_id text, -- Message-ID returned by the SMTP server
+    status text not null, -- 'SENT' | 'FAILED'
+    error text,
+    sent_at timestamp default current_timestamp
+  );
+
+  create table if not exists email_outbox (
+    id text primary key,
+    invoice_id text references invoice(id) on delete cascade,
+    source text not null, -- 'MANUAL' | 'AUTOMATION' | 'REMINDER'
+    recipients text not null, -- JSON array of To addresses
+    cc text, -- JSON array of CC addresses
+    subject text not null,
+    html text not null,
+    attachments text, -- JSON array: [{ filename, path }]
+    mark_invoice_sent boolean default false, -- Move the invoice from DRAFT to SENT once delivered
+    quote_id text references quote(id) on delete cascade, -- Quote the email sends; a draft quote becomes SENT once delivered
+    status text default 'PENDING', -- 'PENDING' | 'SENT' | 'FAILED' (gave up after the last retry)
+    attempts integer default 0,
+    next_attempt_at timestamp default current_timestamp,
+    last_error text,
+    message_id text,
     created_at timestamp default current_timestamp,
     updated_at timestamp default current_timestamp
   );
@@ -62,10 +255,46 @@ export const bootstrapSQL = `
     last_sync_at timestamp, -- Last successful sync timestamp (UTC)
     supabase_conflict_policy text default 'cloud_wins', -- 'cloud_wins' | 'local_wins'
     supabase_db_url text, -- Optional direct Postgres URL for schema bootstrap
+    tax_rates text, -- JSON array: [{ id, name, rate, kind, legalMention, isDefault }] or null for defaults
+    base_currency text default 'EUR', -- Currency dashboards and reports add everything up in
+    created_at timestamp default current_timestamp,
+    updated_at timestamp default current_timestamp
+  );
+
+  create table if not exists exchange_rate (
+    id text primary key,
+    currency text not null, -- ISO 4217 code converted from
+    base_currency text not null, -- ISO 4217 code converted to (the base currency when the rate was entered)
+    date date not null, -- Rates apply from this date until the next one of the same currency
+    rate numeric(18,8) not null check (rate > 0), -- Units of base_currency per unit of currency
+    source text default 'MANUAL', -- 'MANUAL' | 'CSV'
+    created_at timestamp default current_timestamp,
+    updated_at timestamp default current_timestamp,
+    unique (currency, base_currency, date)
+  );
+
+  create table if not exists email_template (
+    id text primary key,
+    name text not null,
+    kind text not null, -- 'INVOICE' | 'REMINDER' | 'PAYMENT_THANKS' | 'CREDIT_NOTE' | 'QUOTE'
+    language text not null default 'ca-ES', -- Locale the wording is in; also formats its dates and amounts
+    subject_template text not null,
+    body_template text not null,
+    version integer not null default 1, -- Bumped on every change of the wording
     created_at timestamp default current_timestamp,
     updated_at timestamp default current_timestamp
   );
 
+  create table if not exists email_template_version (
+    id text primary key,
+    template_id text not null references email_template(id) on delete cascade,
+    version integer not null,
+    subject_template text not null,
+    body_template text not null,
+    created_at timestamp default current_timestamp, -- When this version was replaced
+    unique (template_id, version)
+  );
+
   create table if not exists automation_rule (
     id text primary key,
     client_id text not null references client(id),
@@ -76,7 +305,18 @@ export const bootstrapSQL = `
     description text not null,
     subject_template text not null,
     body_template text not null,
+    email_template_id text references email_template(id) on delete set null, -- When set, its wording replaces subject/body_template
     cc_emails text, -- JSON array of CC email addresses
+    frequency text default 'MONTHLY', -- 'WEEKLY' | 'MONTHLY' | 'YEARLY'
+    interval_count integer default 1 check (interval_count >= 1), -- Every N weeks/months/years (quarterly = 3 months)
+    weekday integer check (weekday >= 0 and weekday <= 6), -- Weekly rules: 0 = Sunday
+    month_of_year integer check (month_of_year >= 1 and month_of_year <= 12), -- Yearly rules
+    last_business_day boolean default false, -- Monthly/yearly rules: last Monday-Friday of the month instead of day_of_month
+    start_date date, -- First possible occurrence; intervals count from here
+    end_date date, -- No occurrences after this date
+    max_occurrences integer, -- Stop after this many scheduled periods, skipped ones included
+    occurrence_count integer default 0, -- Periods the rule has moved past, whether invoiced, skipped or rejected
+    require_approval boolean default false, -- Invoices wait as drafts until approved before they are sent
     is_active boolean default true,
     last_sent_date date,
     next_due_date date,
@@ -84,4 +324,18 @@ export const bootstrapSQL = `
     updated_at timestamp default current_timestamp
   );
 
+  create table if not exists automation_run (
+    id text primary key,
+    rule_id text not null references automation_rule(id) on delete cascade,
+    period_key text not null, -- Scheduled occurrence date (YYYY-MM-DD); one run per rule and period
+    scheduled_date date not null,
+    invoice_id text references invoice(id) on delete set null,
+    status text not null, -- 'PROCESSING' | 'COMPLETED' | 'FAILED' | 'LATE' (missed, awaiting confirmation) | 'AWAITING_APPROVAL' (draft created, not sent) | 'SKIPPED'
+    error text,
+    processed_at timestamp,
+    created_at timestamp default current_timestamp,
+    updated_at timestamp default current_timestamp,
+    unique (rule_id, period_key)
+  );
+
 `;